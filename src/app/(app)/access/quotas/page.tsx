@@ -0,0 +1,990 @@
+"use client";
+
+import { useEffect, useState, useCallback, useMemo } from "react";
+import { fetchApi } from "@/lib/api/client";
+import { Header } from "@/components/layout";
+import { useAuth } from "@/components/auth";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  SortableTableHead,
+  TableHeader,
+  TableRow,
+  TableWrapper,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { DataSourceBadge } from "@/components/ui/data-source-badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/components/ui/use-toast";
+import { AccessDenied } from "@/components/ui/access-denied";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Gauge,
+  RefreshCw,
+  AlertCircle,
+  Loader2,
+  Plus,
+  Trash2,
+  Pencil,
+  ChevronDown,
+  Shield,
+  User,
+  Activity,
+} from "lucide-react";
+import type { SystemUser, SystemRole } from "@/lib/clickhouse";
+import {
+  QUOTA_KEY_TYPES,
+  QUOTA_RESOURCES,
+  formatQuotaInterval,
+  type QuotaKeyType,
+  type QuotaResource,
+} from "@/lib/clickhouse/quotas";
+import { formatBytes, formatNumber } from "@/lib/hooks/use-monitoring";
+import { cn } from "@/lib/utils";
+import type {
+  QuotaWithIntervals,
+  QuotaUsageWithRatio,
+} from "@/app/api/clickhouse/access/quotas/route";
+
+/** Consumers at or above this share of a limit are highlighted */
+const USAGE_WARNING_RATIO = 0.8;
+
+const KEY_TYPE_LABELS: Record<QuotaKeyType, string> = {
+  none: "Not keyed (shared by everyone)",
+  user_name: "User name",
+  ip_address: "IP address",
+  forwarded_ip_address: "Forwarded IP address",
+  client_key: "Client key",
+  "client_key,user_name": "Client key, else user name",
+  "client_key,ip_address": "Client key, else IP address",
+};
+
+const INTERVAL_UNITS = [
+  { label: "seconds", seconds: 1 },
+  { label: "minutes", seconds: 60 },
+  { label: "hours", seconds: 3600 },
+  { label: "days", seconds: 86400 },
+  { label: "weeks", seconds: 7 * 86400 },
+];
+
+interface IntervalForm {
+  amount: string;
+  unit: number;
+  randomized: boolean;
+  /** Limit values keyed by resource; empty means unlimited */
+  limits: Partial<Record<QuotaResource, string>>;
+}
+
+function emptyInterval(): IntervalForm {
+  return { amount: "1", unit: 3600, randomized: false, limits: {} };
+}
+
+/** Pick the largest unit that divides the duration evenly */
+function toIntervalForm(
+  duration: number,
+  randomized: boolean | undefined,
+  limits: Partial<Record<QuotaResource, number>>,
+): IntervalForm {
+  const unit =
+    [...INTERVAL_UNITS].reverse().find((u) => duration % u.seconds === 0) ??
+    INTERVAL_UNITS[0];
+  return {
+    amount: String(duration / unit.seconds),
+    unit: unit.seconds,
+    randomized: Boolean(randomized),
+    limits: Object.fromEntries(
+      Object.entries(limits).map(([k, v]) => [k, String(v)]),
+    ),
+  };
+}
+
+function formatResourceValue(resource: string, value: unknown): string {
+  if (value === null || value === undefined) return "-";
+  if (resource.endsWith("_bytes")) return formatBytes(Number(value));
+  if (resource === "execution_time") return `${Number(value).toFixed(1)}s`;
+  return formatNumber(Number(value));
+}
+
+export default function QuotasPage() {
+  const { permissions, isLoading: authLoading, csrfToken } = useAuth();
+  const { toast } = useToast();
+  const [quotas, setQuotas] = useState<QuotaWithIntervals[]>([]);
+  const [usage, setUsage] = useState<QuotaUsageWithRatio[]>([]);
+  const [users, setUsers] = useState<SystemUser[]>([]);
+  const [roles, setRoles] = useState<SystemRole[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState("quotas");
+
+  // Create/Edit quota dialog
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [dialogError, setDialogError] = useState<string | null>(null);
+  const [formData, setFormData] = useState({
+    name: "",
+    keyedBy: "user_name" as QuotaKeyType,
+    intervals: [emptyInterval()],
+    applyTo: [] as string[],
+    applyToAll: false,
+  });
+
+  // Delete quota
+  const [deleting, setDeleting] = useState<string | null>(null);
+
+  const fetchData = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [quotasRes, usersRes, rolesRes] = await Promise.all([
+        fetchApi("/api/clickhouse/access/quotas"),
+        fetchApi("/api/clickhouse/access/users"),
+        fetchApi("/api/clickhouse/access/roles"),
+      ]);
+
+      const quotasData = await quotasRes.json();
+      const usersData = await usersRes.json();
+      const rolesData = await rolesRes.json();
+
+      if (quotasData.success) {
+        setQuotas(quotasData.data?.quotas || []);
+        setUsage(quotasData.data?.usage || []);
+      } else {
+        setError(quotasData.error || "Failed to fetch quotas");
+        return;
+      }
+
+      if (usersData.success) {
+        setUsers(usersData.data || []);
+      }
+      if (rolesData.success) {
+        setRoles(rolesData.data || []);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Network error");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const sortedUsage = useMemo(
+    () =>
+      [...usage].sort((a, b) => (b.usage_ratio ?? -1) - (a.usage_ratio ?? -1)),
+    [usage],
+  );
+  const hotConsumers = usage.filter(
+    (u) => (u.usage_ratio ?? 0) >= USAGE_WARNING_RATIO,
+  ).length;
+
+  const openCreateDialog = () => {
+    setIsEditing(false);
+    setFormData({
+      name: "",
+      keyedBy: "user_name",
+      intervals: [emptyInterval()],
+      applyTo: [],
+      applyToAll: false,
+    });
+    setDialogError(null);
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (quota: QuotaWithIntervals) => {
+    setIsEditing(true);
+    setFormData({
+      name: quota.name,
+      keyedBy: quota.keyed_by,
+      intervals: quota.intervals.map((i) =>
+        toIntervalForm(i.duration, i.randomized, i.limits),
+      ),
+      applyTo: quota.apply_to_list,
+      applyToAll: quota.apply_to_all,
+    });
+    setDialogError(null);
+    setDialogOpen(true);
+  };
+
+  const updateInterval = (index: number, patch: Partial<IntervalForm>) => {
+    setFormData((prev) => ({
+      ...prev,
+      intervals: prev.intervals.map((interval, i) =>
+        i === index ? { ...interval, ...patch } : interval,
+      ),
+    }));
+  };
+
+  const toggleAssignee = (name: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      applyTo: prev.applyTo.includes(name)
+        ? prev.applyTo.filter((n) => n !== name)
+        : [...prev.applyTo, name],
+    }));
+  };
+
+  const handleSave = async () => {
+    setDialogError(null);
+
+    if (!formData.name.trim()) {
+      setDialogError("Quota name is required");
+      return;
+    }
+
+    const intervals = [];
+    for (const interval of formData.intervals) {
+      const amount = Number(interval.amount);
+      if (!Number.isInteger(amount) || amount <= 0) {
+        setDialogError("Interval length must be a positive whole number");
+        return;
+      }
+      const limits: Partial<Record<QuotaResource, number>> = {};
+      for (const [resource, value] of Object.entries(interval.limits)) {
+        if (value === undefined || value.trim() === "") continue;
+        if (!(Number(value) >= 0)) {
+          setDialogError(`Invalid limit for ${resource}`);
+          return;
+        }
+        limits[resource as QuotaResource] = Number(value);
+      }
+      intervals.push({
+        duration: amount * interval.unit,
+        randomized: interval.randomized,
+        limits,
+      });
+    }
+
+    setSaving(true);
+
+    try {
+      const response = await fetchApi("/api/clickhouse/access/quotas", {
+        method: isEditing ? "PUT" : "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-csrf-token": csrfToken || "",
+        },
+        body: JSON.stringify({
+          name: formData.name.trim(),
+          keyedBy: formData.keyedBy,
+          intervals,
+          applyTo: formData.applyToAll ? [] : formData.applyTo,
+          applyToAll: formData.applyToAll,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        setDialogOpen(false);
+        toast({
+          title: isEditing ? "Quota updated" : "Quota created",
+          description: `Quota ${formData.name} has been ${
+            isEditing ? "updated" : "created"
+          } successfully.`,
+        });
+        fetchData();
+      } else {
+        setDialogError(
+          data.error || `Failed to ${isEditing ? "update" : "create"} quota`,
+        );
+      }
+    } catch (err) {
+      setDialogError(err instanceof Error ? err.message : "Network error");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (quotaName: string) => {
+    setDeleting(quotaName);
+
+    try {
+      const response = await fetchApi("/api/clickhouse/access/quotas", {
+        method: "DELETE",
+        headers: {
+          "Content-Type": "application/json",
+          "x-csrf-token": csrfToken || "",
+        },
+        body: JSON.stringify({ name: quotaName }),
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        toast({
+          title: "Quota deleted",
+          description: `Quota ${quotaName} has been deleted.`,
+        });
+        fetchData();
+      } else {
+        toast({
+          variant: "destructive",
+          title: "Failed to delete quota",
+          description:
+            data.error || "An error occurred while deleting the quota.",
+        });
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Network error");
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  if (authLoading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!permissions?.canManageUsers) {
+    return (
+      <div className="h-full flex flex-col p-4">
+        <Header title="Quotas" />
+        <div className="flex-1 flex items-center justify-center">
+          <AccessDenied
+            title="Access Denied"
+            message="You need ACCESS MANAGEMENT privileges to view quotas."
+          />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-full">
+      <Header title="Quotas"></Header>
+
+      <div className="flex-1 p-6 h-full flex flex-col overflow-hidden">
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : error ? (
+          <Card className="border-destructive/50 bg-destructive/10">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-destructive">
+                <AlertCircle className="w-5 h-5" />
+                Error Loading Quotas
+              </CardTitle>
+              <CardDescription className="text-destructive/80">
+                {error}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm text-muted-foreground">
+                You may need ACCESS MANAGEMENT privileges to view quotas.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-6 h-full flex flex-col">
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-muted-foreground">
+                {quotas.length} quota{quotas.length !== 1 ? "s" : ""} •{" "}
+                {hotConsumers} consumer{hotConsumers !== 1 ? "s" : ""} at or
+                above {USAGE_WARNING_RATIO * 100}% of a limit
+              </p>
+              <div className="flex items-center gap-2">
+                <Button size="sm" onClick={openCreateDialog}>
+                  <Plus className="w-4 h-4 mr-1" />
+                  Create Quota
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={fetchData}
+                  disabled={loading}
+                >
+                  <RefreshCw
+                    className={`w-4 h-4 mr-1 ${loading ? "animate-spin" : ""}`}
+                  />
+                  Refresh
+                </Button>
+              </div>
+            </div>
+
+            <Tabs
+              value={activeTab}
+              onValueChange={setActiveTab}
+              className="flex-1 flex flex-col overflow-hidden"
+            >
+              <TabsList>
+                <TabsTrigger value="quotas" className="text-xs">
+                  <Gauge className="h-3 w-3 mr-1" />
+                  Quotas
+                </TabsTrigger>
+                <TabsTrigger value="usage" className="text-xs">
+                  <Activity className="h-3 w-3 mr-1" />
+                  Live Usage
+                </TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="quotas" className="flex-1 overflow-auto">
+                <TableWrapper>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <SortableTableHead className="w-[200px]" sortable={false}>
+                          Name
+                        </SortableTableHead>
+                        <SortableTableHead sortable={false}>
+                          Keyed By
+                        </SortableTableHead>
+                        <SortableTableHead sortable={false}>
+                          Intervals
+                        </SortableTableHead>
+                        <SortableTableHead sortable={false}>
+                          Applies To
+                        </SortableTableHead>
+                        <SortableTableHead className="w-[100px]" sortable={false}>
+                          Actions
+                        </SortableTableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {quotas.length === 0 ? (
+                        <TableRow>
+                          <TableCell
+                            colSpan={5}
+                            className="text-center text-muted-foreground py-8"
+                          >
+                            No quotas found
+                          </TableCell>
+                        </TableRow>
+                      ) : (
+                        quotas.map((quota) => (
+                          <TableRow key={quota.id}>
+                            <TableCell className="data-table-cell">
+                              <div className="flex items-center gap-2">
+                                <Gauge className="w-4 h-4 text-muted-foreground" />
+                                {quota.name}
+                              </div>
+                            </TableCell>
+                            <TableCell className="data-table-cell">
+                              <Badge variant="outline" className="font-mono text-xs">
+                                {quota.keyed_by}
+                              </Badge>
+                            </TableCell>
+                            <TableCell className="data-table-cell">
+                              <div className="space-y-1 text-xs">
+                                {quota.intervals.map((interval) => {
+                                  const limits = Object.entries(interval.limits);
+                                  return (
+                                    <div key={interval.duration}>
+                                      <span className="font-medium">
+                                        {interval.randomized ? "~" : ""}
+                                        {formatQuotaInterval(interval.duration)}
+                                      </span>
+                                      <span className="text-muted-foreground">
+                                        {": "}
+                                        {limits.length > 0
+                                          ? limits
+                                              .map(
+                                                ([r, v]) =>
+                                                  `${r} ≤ ${formatResourceValue(r, v)}`,
+                                              )
+                                              .join(", ")
+                                          : "tracking only"}
+                                      </span>
+                                    </div>
+                                  );
+                                })}
+                              </div>
+                            </TableCell>
+                            <TableCell className="data-table-cell">
+                              {quota.apply_to_all ? (
+                                <Badge variant="secondary" className="text-xs">
+                                  ALL
+                                  {quota.apply_to_except.length > 0 &&
+                                    ` EXCEPT ${quota.apply_to_except.join(", ")}`}
+                                </Badge>
+                              ) : quota.apply_to_list.length > 0 ? (
+                                <div className="flex flex-wrap gap-1">
+                                  {quota.apply_to_list.map((name) => (
+                                    <Badge
+                                      key={name}
+                                      variant="secondary"
+                                      className="text-xs"
+                                    >
+                                      {name}
+                                    </Badge>
+                                  ))}
+                                </div>
+                              ) : (
+                                <span className="text-muted-foreground font-mono text-xs">
+                                  Not assigned
+                                </span>
+                              )}
+                            </TableCell>
+                            <TableCell className="data-table-cell">
+                              <div className="flex items-center gap-1">
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-8 w-8"
+                                  onClick={() => openEditDialog(quota)}
+                                >
+                                  <Pencil className="w-4 h-4" />
+                                </Button>
+                                <AlertDialog>
+                                  <AlertDialogTrigger asChild>
+                                    <Button
+                                      variant="ghost"
+                                      size="icon"
+                                      className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                                      disabled={deleting === quota.name}
+                                    >
+                                      {deleting === quota.name ? (
+                                        <Loader2 className="w-4 h-4 animate-spin" />
+                                      ) : (
+                                        <Trash2 className="w-4 h-4" />
+                                      )}
+                                    </Button>
+                                  </AlertDialogTrigger>
+                                  <AlertDialogContent>
+                                    <AlertDialogHeader>
+                                      <AlertDialogTitle>Delete Quota</AlertDialogTitle>
+                                      <AlertDialogDescription>
+                                        Are you sure you want to delete quota{" "}
+                                        <strong>{quota.name}</strong>? Users and
+                                        roles assigned to it will no longer be
+                                        limited by it.
+                                      </AlertDialogDescription>
+                                    </AlertDialogHeader>
+                                    <AlertDialogFooter>
+                                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                      <AlertDialogAction
+                                        className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                                        onClick={() => handleDelete(quota.name)}
+                                      >
+                                        Delete
+                                      </AlertDialogAction>
+                                    </AlertDialogFooter>
+                                  </AlertDialogContent>
+                                </AlertDialog>
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        ))
+                      )}
+                    </TableBody>
+                  </Table>
+                </TableWrapper>
+              </TabsContent>
+
+              <TabsContent value="usage" className="flex-1 overflow-auto">
+                <TableWrapper>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <SortableTableHead sortable={false}>Quota</SortableTableHead>
+                        <SortableTableHead sortable={false}>Key</SortableTableHead>
+                        <SortableTableHead sortable={false}>Interval</SortableTableHead>
+                        <SortableTableHead sortable={false}>
+                          Most Consumed
+                        </SortableTableHead>
+                        <SortableTableHead className="w-[220px]" sortable={false}>
+                          Usage
+                        </SortableTableHead>
+                        <SortableTableHead sortable={false}>Resets</SortableTableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {sortedUsage.length === 0 ? (
+                        <TableRow>
+                          <TableCell
+                            colSpan={6}
+                            className="text-center text-muted-foreground py-8"
+                          >
+                            No quota consumption recorded
+                          </TableCell>
+                        </TableRow>
+                      ) : (
+                        sortedUsage.map((row, index) => {
+                          const ratio = row.usage_ratio;
+                          const hot = (ratio ?? 0) >= USAGE_WARNING_RATIO;
+                          const resource = row.worst_resource;
+                          return (
+                            <TableRow
+                              key={`${row.quota_name}-${row.quota_key}-${row.duration}-${index}`}
+                              className={cn(hot && "bg-destructive/5")}
+                            >
+                              <TableCell className="data-table-cell">
+                                {row.quota_name}
+                              </TableCell>
+                              <TableCell className="data-table-cell font-mono text-xs">
+                                {row.quota_key || "-"}
+                              </TableCell>
+                              <TableCell className="data-table-cell">
+                                {row.duration !== null
+                                  ? formatQuotaInterval(Number(row.duration))
+                                  : "-"}
+                              </TableCell>
+                              <TableCell className="data-table-cell text-xs">
+                                {resource ? (
+                                  <>
+                                    <span className="font-mono">{resource}</span>
+                                    <span className="text-muted-foreground">
+                                      {" "}
+                                      {formatResourceValue(resource, row[resource])}{" "}
+                                      /{" "}
+                                      {formatResourceValue(
+                                        resource,
+                                        row[`max_${resource}`],
+                                      )}
+                                    </span>
+                                  </>
+                                ) : (
+                                  <span className="text-muted-foreground">
+                                    No limits
+                                  </span>
+                                )}
+                              </TableCell>
+                              <TableCell className="data-table-cell">
+                                {ratio !== null ? (
+                                  <div className="flex items-center gap-2">
+                                    <Progress
+                                      value={Math.min(ratio * 100, 100)}
+                                      className={cn(
+                                        "h-2",
+                                        hot && "[&>div]:bg-destructive",
+                                      )}
+                                    />
+                                    <span
+                                      className={cn(
+                                        "text-xs w-12 text-right",
+                                        hot && "text-destructive font-medium",
+                                      )}
+                                    >
+                                      {(ratio * 100).toFixed(0)}%
+                                    </span>
+                                  </div>
+                                ) : (
+                                  "-"
+                                )}
+                              </TableCell>
+                              <TableCell className="data-table-cell text-xs text-muted-foreground">
+                                {row.end_time || "-"}
+                              </TableCell>
+                            </TableRow>
+                          );
+                        })
+                      )}
+                    </TableBody>
+                  </Table>
+                </TableWrapper>
+              </TabsContent>
+            </Tabs>
+
+            <DataSourceBadge
+              sources={[
+                "system.quotas",
+                "system.quota_limits",
+                "system.quotas_usage",
+              ]}
+              description="Quotas limit resource consumption per interval. Usage is tracked per quota key."
+            />
+          </div>
+        )}
+      </div>
+
+      {/* Create/Edit Quota Dialog */}
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{isEditing ? "Edit Quota" : "Create Quota"}</DialogTitle>
+            <DialogDescription>
+              Limits apply per interval. Leave a limit empty for no limit; an
+              interval without limits only tracks consumption.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            {dialogError && (
+              <div className="p-3 rounded-md bg-destructive/10 text-destructive text-sm flex items-center gap-2">
+                <AlertCircle className="w-4 h-4" />
+                {dialogError}
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="name">Name *</Label>
+                <Input
+                  id="name"
+                  placeholder="e.g. analysts"
+                  value={formData.name}
+                  disabled={isEditing}
+                  onChange={(e) =>
+                    setFormData({ ...formData, name: e.target.value })
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Keyed By</Label>
+                <Select
+                  value={formData.keyedBy}
+                  onValueChange={(v) =>
+                    setFormData({ ...formData, keyedBy: v as QuotaKeyType })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {QUOTA_KEY_TYPES.map((key) => (
+                      <SelectItem key={key} value={key}>
+                        {KEY_TYPE_LABELS[key]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Intervals</Label>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      intervals: [...prev.intervals, emptyInterval()],
+                    }))
+                  }
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  Add Interval
+                </Button>
+              </div>
+              {formData.intervals.map((interval, index) => (
+                <div key={index} className="rounded border p-3 space-y-3">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm">Every</span>
+                    <Input
+                      type="number"
+                      min={1}
+                      className="w-20 h-8"
+                      value={interval.amount}
+                      onChange={(e) =>
+                        updateInterval(index, { amount: e.target.value })
+                      }
+                    />
+                    <Select
+                      value={String(interval.unit)}
+                      onValueChange={(v) =>
+                        updateInterval(index, { unit: Number(v) })
+                      }
+                    >
+                      <SelectTrigger className="w-28 h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {INTERVAL_UNITS.map((unit) => (
+                          <SelectItem key={unit.label} value={String(unit.seconds)}>
+                            {unit.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <div className="flex items-center gap-2 ml-2">
+                      <Checkbox
+                        id={`randomized-${index}`}
+                        checked={interval.randomized}
+                        onCheckedChange={(checked) =>
+                          updateInterval(index, { randomized: checked === true })
+                        }
+                      />
+                      <Label
+                        htmlFor={`randomized-${index}`}
+                        className="text-xs font-normal cursor-pointer"
+                      >
+                        Randomized start
+                      </Label>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 ml-auto text-muted-foreground hover:text-destructive"
+                      onClick={() =>
+                        setFormData((prev) => ({
+                          ...prev,
+                          intervals: prev.intervals.filter((_, i) => i !== index),
+                        }))
+                      }
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                  <div className="grid grid-cols-3 gap-2">
+                    {QUOTA_RESOURCES.map((resource) => (
+                      <div key={resource} className="space-y-1">
+                        <Label className="text-xs font-mono text-muted-foreground">
+                          {resource}
+                        </Label>
+                        <Input
+                          type="number"
+                          min={0}
+                          className="h-8"
+                          placeholder="unlimited"
+                          value={interval.limits[resource] ?? ""}
+                          onChange={(e) =>
+                            updateInterval(index, {
+                              limits: {
+                                ...interval.limits,
+                                [resource]: e.target.value,
+                              },
+                            })
+                          }
+                        />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Applies To</Label>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="apply-to-all"
+                  checked={formData.applyToAll}
+                  onCheckedChange={(checked) =>
+                    setFormData({ ...formData, applyToAll: checked === true })
+                  }
+                />
+                <Label
+                  htmlFor="apply-to-all"
+                  className="text-sm font-normal cursor-pointer"
+                >
+                  All users and roles
+                </Label>
+              </div>
+              {!formData.applyToAll && (
+                <>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="outline" className="w-full justify-between">
+                        {formData.applyTo.length > 0
+                          ? `${formData.applyTo.length} user(s)/role(s) selected`
+                          : "Select users and roles..."}
+                        <ChevronDown className="w-4 h-4 ml-2 opacity-50" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent className="w-[300px] max-h-80 overflow-y-auto">
+                      <DropdownMenuLabel>Roles</DropdownMenuLabel>
+                      <DropdownMenuSeparator />
+                      {roles.map((role) => (
+                        <DropdownMenuCheckboxItem
+                          key={`role-${role.name}`}
+                          checked={formData.applyTo.includes(role.name)}
+                          onCheckedChange={() => toggleAssignee(role.name)}
+                        >
+                          <Shield className="w-3.5 h-3.5 mr-2" />
+                          {role.name}
+                        </DropdownMenuCheckboxItem>
+                      ))}
+                      <DropdownMenuLabel>Users</DropdownMenuLabel>
+                      <DropdownMenuSeparator />
+                      {users.map((user) => (
+                        <DropdownMenuCheckboxItem
+                          key={`user-${user.name}`}
+                          checked={formData.applyTo.includes(user.name)}
+                          onCheckedChange={() => toggleAssignee(user.name)}
+                        >
+                          <User className="w-3.5 h-3.5 mr-2" />
+                          {user.name}
+                        </DropdownMenuCheckboxItem>
+                      ))}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+
+                  {formData.applyTo.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-2">
+                      {formData.applyTo.map((name) => (
+                        <Badge key={name} variant="secondary" className="text-xs">
+                          {name}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                  {isEditing ? "Saving..." : "Creating..."}
+                </>
+              ) : isEditing ? (
+                "Save Changes"
+              ) : (
+                "Create Quota"
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
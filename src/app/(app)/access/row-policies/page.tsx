@@ -0,0 +1,977 @@
+"use client";
+
+import { useEffect, useState, useCallback, useMemo } from "react";
+import { fetchApi } from "@/lib/api/client";
+import { Header } from "@/components/layout";
+import { useAuth } from "@/components/auth";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  SortableTableHead,
+  TableHeader,
+  TableRow,
+  TableWrapper,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { DataSourceBadge } from "@/components/ui/data-source-badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/components/ui/use-toast";
+import { AccessDenied } from "@/components/ui/access-denied";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Filter,
+  RefreshCw,
+  AlertCircle,
+  Loader2,
+  Plus,
+  Trash2,
+  Pencil,
+  ChevronDown,
+  Shield,
+  User,
+  Eye,
+} from "lucide-react";
+import type { SystemUser, SystemRole, SystemRowPolicy } from "@/lib/clickhouse";
+import {
+  findUnknownColumns,
+  type RowPolicyDefinition,
+} from "@/lib/clickhouse/row-policies";
+import { formatNumber } from "@/lib/hooks/use-monitoring";
+import { isRestrictedDatabase } from "@/lib/rbac";
+import type { RowPolicyPreviewResponse } from "@/app/api/clickhouse/access/row-policies/preview/route";
+
+type PreviewData = NonNullable<RowPolicyPreviewResponse["data"]>;
+
+interface PreviewTarget {
+  database: string;
+  table: string;
+  draft?: RowPolicyDefinition;
+}
+
+const EMPTY_FORM = {
+  name: "",
+  database: "",
+  table: "",
+  condition: "",
+  restrictive: false,
+  applyTo: [] as string[],
+  applyToAll: false,
+};
+
+export default function RowPoliciesPage() {
+  const { permissions, isLoading: authLoading, csrfToken } = useAuth();
+  const { toast } = useToast();
+  const [policies, setPolicies] = useState<SystemRowPolicy[]>([]);
+  const [users, setUsers] = useState<SystemUser[]>([]);
+  const [roles, setRoles] = useState<SystemRole[]>([]);
+  const [databases, setDatabases] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Create/Edit policy dialog
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [dialogError, setDialogError] = useState<string | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [tables, setTables] = useState<string[]>([]);
+  const [columns, setColumns] = useState<string[]>([]);
+
+  // Delete policy
+  const [deleting, setDeleting] = useState<string | null>(null);
+
+  // Preview as role
+  const [previewTarget, setPreviewTarget] = useState<PreviewTarget | null>(null);
+  const [previewData, setPreviewData] = useState<PreviewData | null>(null);
+  const [previewLoading, setPreviewLoading] = useState(false);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+
+  const fetchData = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [policiesRes, usersRes, rolesRes, dbRes] = await Promise.all([
+        fetchApi("/api/clickhouse/access/row-policies"),
+        fetchApi("/api/clickhouse/access/users"),
+        fetchApi("/api/clickhouse/access/roles"),
+        fetchApi("/api/clickhouse/databases"),
+      ]);
+
+      const policiesData = await policiesRes.json();
+      const usersData = await usersRes.json();
+      const rolesData = await rolesRes.json();
+      const dbData = await dbRes.json();
+
+      if (policiesData.success) {
+        setPolicies(policiesData.data || []);
+      } else {
+        setError(policiesData.error || "Failed to fetch row policies");
+        return;
+      }
+
+      if (usersData.success) {
+        setUsers(usersData.data || []);
+      }
+      if (rolesData.success) {
+        setRoles(rolesData.data || []);
+      }
+      if (dbData.success) {
+        setDatabases(
+          (dbData.data || [])
+            .map((db: { name: string }) => db.name)
+            .filter((name: string) => !isRestrictedDatabase(name)),
+        );
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Network error");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  // Tables of the selected database
+  useEffect(() => {
+    if (!dialogOpen || !formData.database) {
+      setTables([]);
+      return;
+    }
+
+    fetchApi(
+      `/api/clickhouse/tables?database=${encodeURIComponent(formData.database)}`,
+    )
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.success) {
+          setTables((data.data || []).map((t: { name: string }) => t.name));
+        }
+      })
+      .catch(() => setTables([]));
+  }, [dialogOpen, formData.database]);
+
+  // Columns of the selected table, used to validate the USING condition
+  useEffect(() => {
+    if (!dialogOpen || !formData.database || !formData.table) {
+      setColumns([]);
+      return;
+    }
+
+    fetchApi(
+      `/api/clickhouse/schema/table-columns?database=${encodeURIComponent(
+        formData.database,
+      )}&table=${encodeURIComponent(formData.table)}`,
+    )
+      .then((res) => res.json())
+      .then((data) => {
+        setColumns(
+          data.success
+            ? data.data.columns.map((c: { name: string }) => c.name)
+            : [],
+        );
+      })
+      .catch(() => setColumns([]));
+  }, [dialogOpen, formData.database, formData.table]);
+
+  const unknownColumns = useMemo(
+    () =>
+      columns.length > 0 && formData.condition.trim()
+        ? findUnknownColumns(formData.condition, columns)
+        : [],
+    [columns, formData.condition],
+  );
+
+  const runPreview = useCallback(
+    async (target: PreviewTarget) => {
+      setPreviewTarget(target);
+      setPreviewData(null);
+      setPreviewError(null);
+      setPreviewLoading(true);
+
+      try {
+        const response = await fetchApi(
+          "/api/clickhouse/access/row-policies/preview",
+          {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+              "x-csrf-token": csrfToken || "",
+            },
+            body: JSON.stringify(target),
+          },
+        );
+        const data: RowPolicyPreviewResponse = await response.json();
+
+        if (data.success && data.data) {
+          setPreviewData(data.data);
+        } else {
+          setPreviewError(data.error || "Failed to preview row policies");
+        }
+      } catch (err) {
+        setPreviewError(err instanceof Error ? err.message : "Network error");
+      } finally {
+        setPreviewLoading(false);
+      }
+    },
+    [csrfToken],
+  );
+
+  const openCreateDialog = () => {
+    setIsEditing(false);
+    setFormData(EMPTY_FORM);
+    setDialogError(null);
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (policy: SystemRowPolicy) => {
+    setIsEditing(true);
+    setFormData({
+      name: policy.short_name,
+      database: policy.database,
+      table: policy.table,
+      condition: policy.select_filter || "",
+      restrictive: policy.is_restrictive,
+      applyTo: policy.apply_to_list,
+      applyToAll: policy.apply_to_all,
+    });
+    setDialogError(null);
+    setDialogOpen(true);
+  };
+
+  const toggleAssignee = (name: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      applyTo: prev.applyTo.includes(name)
+        ? prev.applyTo.filter((n) => n !== name)
+        : [...prev.applyTo, name],
+    }));
+  };
+
+  const buildDefinition = (): RowPolicyDefinition => ({
+    name: formData.name.trim(),
+    database: formData.database,
+    table: formData.table,
+    condition: formData.condition.trim(),
+    restrictive: formData.restrictive,
+    applyTo: formData.applyToAll ? [] : formData.applyTo,
+    applyToAll: formData.applyToAll,
+  });
+
+  const validateForm = (): boolean => {
+    if (!formData.name.trim()) {
+      setDialogError("Policy name is required");
+      return false;
+    }
+    if (!formData.database || !formData.table) {
+      setDialogError("Select a database and table");
+      return false;
+    }
+    if (!formData.condition.trim()) {
+      setDialogError("USING condition is required");
+      return false;
+    }
+    if (unknownColumns.length > 0) {
+      setDialogError(
+        `Unknown column${unknownColumns.length > 1 ? "s" : ""}: ${unknownColumns.join(", ")}`,
+      );
+      return false;
+    }
+    return true;
+  };
+
+  const handlePreviewDraft = () => {
+    setDialogError(null);
+    if (!validateForm()) return;
+    runPreview({
+      database: formData.database,
+      table: formData.table,
+      draft: buildDefinition(),
+    });
+  };
+
+  const handleSave = async () => {
+    setDialogError(null);
+    if (!validateForm()) return;
+
+    setSaving(true);
+
+    try {
+      const response = await fetchApi("/api/clickhouse/access/row-policies", {
+        method: isEditing ? "PUT" : "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-csrf-token": csrfToken || "",
+        },
+        body: JSON.stringify(buildDefinition()),
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        setDialogOpen(false);
+        toast({
+          title: isEditing ? "Row policy updated" : "Row policy created",
+          description: `Row policy ${formData.name} on ${formData.database}.${formData.table} has been ${
+            isEditing ? "updated" : "created"
+          } successfully.`,
+        });
+        fetchData();
+      } else {
+        setDialogError(
+          data.error ||
+            `Failed to ${isEditing ? "update" : "create"} row policy`,
+        );
+      }
+    } catch (err) {
+      setDialogError(err instanceof Error ? err.message : "Network error");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (policy: SystemRowPolicy) => {
+    setDeleting(policy.name);
+
+    try {
+      const response = await fetchApi("/api/clickhouse/access/row-policies", {
+        method: "DELETE",
+        headers: {
+          "Content-Type": "application/json",
+          "x-csrf-token": csrfToken || "",
+        },
+        body: JSON.stringify({
+          name: policy.short_name,
+          database: policy.database,
+          table: policy.table,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        toast({
+          title: "Row policy deleted",
+          description: `Row policy ${policy.name} has been deleted.`,
+        });
+        fetchData();
+      } else {
+        toast({
+          variant: "destructive",
+          title: "Failed to delete row policy",
+          description:
+            data.error || "An error occurred while deleting the row policy.",
+        });
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Network error");
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  if (authLoading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!permissions?.canManageUsers) {
+    return (
+      <div className="h-full flex flex-col p-4">
+        <Header title="Row Policies" />
+        <div className="flex-1 flex items-center justify-center">
+          <AccessDenied
+            title="Access Denied"
+            message="You need ACCESS MANAGEMENT privileges to view row policies."
+          />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-full">
+      <Header title="Row Policies"></Header>
+
+      <div className="flex-1 p-6 h-full flex flex-col overflow-hidden">
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : error ? (
+          <Card className="border-destructive/50 bg-destructive/10">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-destructive">
+                <AlertCircle className="w-5 h-5" />
+                Error Loading Row Policies
+              </CardTitle>
+              <CardDescription className="text-destructive/80">
+                {error}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm text-muted-foreground">
+                You may need ACCESS MANAGEMENT privileges to view row policies.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-6 h-full flex flex-col">
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-muted-foreground">
+                {policies.length} polic{policies.length !== 1 ? "ies" : "y"} •
+                Users covered only by restrictive policies see no rows
+              </p>
+              <div className="flex items-center gap-2">
+                <Button size="sm" onClick={openCreateDialog}>
+                  <Plus className="w-4 h-4 mr-1" />
+                  Create Policy
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={fetchData}
+                  disabled={loading}
+                >
+                  <RefreshCw
+                    className={`w-4 h-4 mr-1 ${loading ? "animate-spin" : ""}`}
+                  />
+                  Refresh
+                </Button>
+              </div>
+            </div>
+
+            <TableWrapper>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <SortableTableHead className="w-[180px]" sortable={false}>
+                      Name
+                    </SortableTableHead>
+                    <SortableTableHead sortable={false}>Table</SortableTableHead>
+                    <SortableTableHead sortable={false}>Kind</SortableTableHead>
+                    <SortableTableHead sortable={false}>USING</SortableTableHead>
+                    <SortableTableHead sortable={false}>
+                      Applies To
+                    </SortableTableHead>
+                    <SortableTableHead className="w-[130px]" sortable={false}>
+                      Actions
+                    </SortableTableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {policies.length === 0 ? (
+                    <TableRow>
+                      <TableCell
+                        colSpan={6}
+                        className="text-center text-muted-foreground py-8"
+                      >
+                        No row policies found
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    policies.map((policy) => (
+                      <TableRow key={policy.id}>
+                        <TableCell className="data-table-cell">
+                          <div className="flex items-center gap-2">
+                            <Filter className="w-4 h-4 text-muted-foreground" />
+                            {policy.short_name}
+                          </div>
+                        </TableCell>
+                        <TableCell className="data-table-cell font-mono text-xs">
+                          {policy.database}.{policy.table}
+                        </TableCell>
+                        <TableCell className="data-table-cell">
+                          <Badge
+                            variant={policy.is_restrictive ? "destructive" : "outline"}
+                            className="text-xs"
+                          >
+                            {policy.is_restrictive ? "restrictive" : "permissive"}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="data-table-cell font-mono text-xs max-w-[320px] truncate">
+                          {policy.select_filter || "-"}
+                        </TableCell>
+                        <TableCell className="data-table-cell">
+                          {policy.apply_to_all ? (
+                            <Badge variant="secondary" className="text-xs">
+                              ALL
+                              {policy.apply_to_except.length > 0 &&
+                                ` EXCEPT ${policy.apply_to_except.join(", ")}`}
+                            </Badge>
+                          ) : policy.apply_to_list.length > 0 ? (
+                            <div className="flex flex-wrap gap-1">
+                              {policy.apply_to_list.map((name) => (
+                                <Badge
+                                  key={name}
+                                  variant="secondary"
+                                  className="text-xs"
+                                >
+                                  {name}
+                                </Badge>
+                              ))}
+                            </div>
+                          ) : (
+                            <span className="text-muted-foreground font-mono text-xs">
+                              Not assigned
+                            </span>
+                          )}
+                        </TableCell>
+                        <TableCell className="data-table-cell">
+                          <div className="flex items-center gap-1">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8"
+                              title="Preview as role"
+                              onClick={() =>
+                                runPreview({
+                                  database: policy.database,
+                                  table: policy.table,
+                                })
+                              }
+                            >
+                              <Eye className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8"
+                              onClick={() => openEditDialog(policy)}
+                            >
+                              <Pencil className="w-4 h-4" />
+                            </Button>
+                            <AlertDialog>
+                              <AlertDialogTrigger asChild>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                                  disabled={deleting === policy.name}
+                                >
+                                  {deleting === policy.name ? (
+                                    <Loader2 className="w-4 h-4 animate-spin" />
+                                  ) : (
+                                    <Trash2 className="w-4 h-4" />
+                                  )}
+                                </Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>Delete Row Policy</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    Are you sure you want to delete row policy{" "}
+                                    <strong>{policy.name}</strong>? Rows it
+                                    filters may become visible, or hidden if it
+                                    was the only permissive policy for a role.
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                  <AlertDialogAction
+                                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                                    onClick={() => handleDelete(policy)}
+                                  >
+                                    Delete
+                                  </AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </TableWrapper>
+
+            <DataSourceBadge
+              sources={["system.row_policies", "system.role_grants"]}
+              description="Permissive policies are combined with OR, restrictive policies with AND."
+            />
+          </div>
+        )}
+      </div>
+
+      {/* Create/Edit Row Policy Dialog */}
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {isEditing ? "Edit Row Policy" : "Create Row Policy"}
+            </DialogTitle>
+            <DialogDescription>
+              Rows are visible to the assigned users and roles only when the
+              USING condition is true.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            {dialogError && (
+              <div className="p-3 rounded-md bg-destructive/10 text-destructive text-sm flex items-center gap-2">
+                <AlertCircle className="w-4 h-4" />
+                {dialogError}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="name">Name *</Label>
+              <Input
+                id="name"
+                placeholder="e.g. tenant_filter"
+                value={formData.name}
+                disabled={isEditing}
+                onChange={(e) =>
+                  setFormData({ ...formData, name: e.target.value })
+                }
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Database *</Label>
+                <Select
+                  value={formData.database}
+                  disabled={isEditing}
+                  onValueChange={(v) =>
+                    setFormData({ ...formData, database: v, table: "" })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select database" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {databases.map((db) => (
+                      <SelectItem key={db} value={db}>
+                        {db}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Table *</Label>
+                <Select
+                  value={formData.table}
+                  disabled={isEditing || !formData.database}
+                  onValueChange={(v) => setFormData({ ...formData, table: v })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select table" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(isEditing ? [formData.table] : tables).map((table) => (
+                      <SelectItem key={table} value={table}>
+                        {table}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="condition">USING Condition *</Label>
+              <Textarea
+                id="condition"
+                className="font-mono text-xs min-h-[80px]"
+                placeholder="tenant_id = 'acme'"
+                value={formData.condition}
+                onChange={(e) =>
+                  setFormData({ ...formData, condition: e.target.value })
+                }
+              />
+              {unknownColumns.length > 0 && (
+                <p className="text-xs text-destructive">
+                  Not a column of {formData.table}: {unknownColumns.join(", ")}
+                </p>
+              )}
+              {columns.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {columns.map((column) => (
+                    <button
+                      key={column}
+                      type="button"
+                      onClick={() =>
+                        setFormData((prev) => ({
+                          ...prev,
+                          condition: prev.condition
+                            ? `${prev.condition} ${column}`
+                            : column,
+                        }))
+                      }
+                    >
+                      <Badge variant="outline" className="font-mono text-xs">
+                        {column}
+                      </Badge>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Kind</Label>
+              <Select
+                value={formData.restrictive ? "restrictive" : "permissive"}
+                onValueChange={(v) =>
+                  setFormData({ ...formData, restrictive: v === "restrictive" })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="permissive">
+                    Permissive (OR with other permissive policies)
+                  </SelectItem>
+                  <SelectItem value="restrictive">
+                    Restrictive (AND with all other policies)
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Applies To</Label>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="apply-to-all"
+                  checked={formData.applyToAll}
+                  onCheckedChange={(checked) =>
+                    setFormData({ ...formData, applyToAll: checked === true })
+                  }
+                />
+                <Label
+                  htmlFor="apply-to-all"
+                  className="text-sm font-normal cursor-pointer"
+                >
+                  All users and roles
+                </Label>
+              </div>
+              {!formData.applyToAll && (
+                <>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="outline" className="w-full justify-between">
+                        {formData.applyTo.length > 0
+                          ? `${formData.applyTo.length} user(s)/role(s) selected`
+                          : "Select users and roles..."}
+                        <ChevronDown className="w-4 h-4 ml-2 opacity-50" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent className="w-[300px] max-h-80 overflow-y-auto">
+                      <DropdownMenuLabel>Roles</DropdownMenuLabel>
+                      <DropdownMenuSeparator />
+                      {roles.map((role) => (
+                        <DropdownMenuCheckboxItem
+                          key={`role-${role.name}`}
+                          checked={formData.applyTo.includes(role.name)}
+                          onCheckedChange={() => toggleAssignee(role.name)}
+                        >
+                          <Shield className="w-3.5 h-3.5 mr-2" />
+                          {role.name}
+                        </DropdownMenuCheckboxItem>
+                      ))}
+                      <DropdownMenuLabel>Users</DropdownMenuLabel>
+                      <DropdownMenuSeparator />
+                      {users.map((user) => (
+                        <DropdownMenuCheckboxItem
+                          key={`user-${user.name}`}
+                          checked={formData.applyTo.includes(user.name)}
+                          onCheckedChange={() => toggleAssignee(user.name)}
+                        >
+                          <User className="w-3.5 h-3.5 mr-2" />
+                          {user.name}
+                        </DropdownMenuCheckboxItem>
+                      ))}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+
+                  {formData.applyTo.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-2">
+                      {formData.applyTo.map((name) => (
+                        <Badge key={name} variant="secondary" className="text-xs">
+                          {name}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              className="mr-auto"
+              onClick={handlePreviewDraft}
+              disabled={saving}
+            >
+              <Eye className="w-4 h-4 mr-1" />
+              Preview
+            </Button>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                  {isEditing ? "Saving..." : "Creating..."}
+                </>
+              ) : isEditing ? (
+                "Save Changes"
+              ) : (
+                "Create Policy"
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Preview as Role Dialog */}
+      <Dialog
+        open={previewTarget !== null}
+        onOpenChange={(open) => !open && setPreviewTarget(null)}
+      >
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              Preview as Role: {previewTarget?.database}.{previewTarget?.table}
+            </DialogTitle>
+            <DialogDescription>
+              {previewTarget?.draft
+                ? `Includes the unsaved changes to ${previewTarget.draft.name}. `
+                : ""}
+              Counts are taken with your own row policies applied.
+            </DialogDescription>
+          </DialogHeader>
+          {previewLoading ? (
+            <div className="flex items-center justify-center h-40">
+              <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : previewError ? (
+            <div className="p-3 rounded-md bg-destructive/10 text-destructive text-sm flex items-center gap-2">
+              <AlertCircle className="w-4 h-4" />
+              {previewError}
+            </div>
+          ) : previewData ? (
+            <div className="space-y-3">
+              <p className="text-sm text-muted-foreground">
+                {formatNumber(previewData.total)} rows visible to you •{" "}
+                {previewData.policyCount} polic
+                {previewData.policyCount !== 1 ? "ies" : "y"} on this table
+              </p>
+              <TableWrapper>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <SortableTableHead sortable={false}>Role</SortableTableHead>
+                      <SortableTableHead className="w-[220px]" sortable={false}>
+                        Visible Rows
+                      </SortableTableHead>
+                      <SortableTableHead sortable={false}>
+                        Effective Filter
+                      </SortableTableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {previewData.roles.length === 0 ? (
+                      <TableRow>
+                        <TableCell
+                          colSpan={3}
+                          className="text-center text-muted-foreground py-8"
+                        >
+                          No roles found
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      previewData.roles.map((row) => {
+                        const share =
+                          previewData.total > 0
+                            ? (row.rows / previewData.total) * 100
+                            : 0;
+                        return (
+                          <TableRow key={row.role}>
+                            <TableCell className="data-table-cell">
+                              <div className="flex items-center gap-2">
+                                <Shield className="w-4 h-4 text-muted-foreground" />
+                                {row.role}
+                              </div>
+                            </TableCell>
+                            <TableCell className="data-table-cell">
+                              <div className="flex items-center gap-2">
+                                <Progress value={share} className="h-2" />
+                                <span className="text-xs w-24 text-right">
+                                  {formatNumber(row.rows)}
+                                </span>
+                              </div>
+                            </TableCell>
+                            <TableCell className="data-table-cell font-mono text-xs max-w-[260px] truncate">
+                              {row.filter}
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })
+                    )}
+                  </TableBody>
+                </Table>
+              </TableWrapper>
+            </div>
+          ) : null}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
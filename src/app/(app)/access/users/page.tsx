@@ -70,6 +70,7 @@ import {
   Trash2,
   Pencil,
   ChevronDown,
+  LogOut,
 } from "lucide-react";
 import type { SystemUser, SystemRole } from "@/lib/clickhouse";
 import { PaginationControls } from "@/components/monitoring";
@@ -302,6 +303,37 @@ export default function UsersPage() {
     }
   };
 
+  const handleRevokeSessions = async (userName: string) => {
+    try {
+      const response = await fetchApi("/api/clickhouse/access/users/sessions", {
+        method: "DELETE",
+        headers: {
+          "Content-Type": "application/json",
+          "x-csrf-token": csrfToken || "",
+        },
+        body: JSON.stringify({ name: userName }),
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        toast({
+          title: "Sessions revoked",
+          description: `${data.data.revoked} session(s) of ${userName} signed out.`,
+        });
+      } else {
+        toast({
+          variant: "destructive",
+          title: "Failed to revoke sessions",
+          description:
+            data.error || "An error occurred while revoking sessions.",
+        });
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Network error");
+    }
+  };
+
   const toggleRole = (roleName: string) => {
     setFormData((prev) => ({
       ...prev,
@@ -488,6 +520,43 @@ export default function UsersPage() {
                               >
                                 <Pencil className="w-4 h-4" />
                               </Button>
+                              <AlertDialog>
+                                <AlertDialogTrigger asChild>
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-8 w-8"
+                                    title="Revoke sessions"
+                                    onClick={(e) => e.stopPropagation()}
+                                  >
+                                    <LogOut className="w-4 h-4" />
+                                  </Button>
+                                </AlertDialogTrigger>
+                                <AlertDialogContent>
+                                  <AlertDialogHeader>
+                                    <AlertDialogTitle>
+                                      Revoke Sessions
+                                    </AlertDialogTitle>
+                                    <AlertDialogDescription>
+                                      Sign <strong>{user.name}</strong> out of
+                                      every ClickLens session on this cluster?
+                                      They will need to log in again.
+                                    </AlertDialogDescription>
+                                  </AlertDialogHeader>
+                                  <AlertDialogFooter>
+                                    <AlertDialogCancel>
+                                      Cancel
+                                    </AlertDialogCancel>
+                                    <AlertDialogAction
+                                      onClick={() =>
+                                        handleRevokeSessions(user.name)
+                                      }
+                                    >
+                                      Revoke
+                                    </AlertDialogAction>
+                                  </AlertDialogFooter>
+                                </AlertDialogContent>
+                              </AlertDialog>
                               <AlertDialog>
                                 <AlertDialogTrigger asChild>
                                   <Button
@@ -1,6 +1,6 @@
 "use client";
 
-import { Suspense, useEffect, useMemo } from "react";
+import { Suspense, useEffect, useMemo, useState } from "react";
 import { Header } from "@/components/layout";
 import { DiscoverHistogram } from "@/components/discover/DiscoverHistogram";
 import { VirtualizedDiscoverGrid } from "@/components/discover/VirtualizedDiscoverGrid";
@@ -8,6 +8,9 @@ import { QueryBar } from "@/components/discover/QueryBar";
 import { FieldsSidebar } from "@/components/discover/FieldsSidebar";
 import { CacheIndicator } from "@/components/discover/CacheIndicator";
 import { ErrorDisplay } from "@/components/discover/ErrorDisplay";
+import { SavedSearches } from "@/components/discover/SavedSearches";
+import { HistogramBreakdown } from "@/components/discover/HistogramBreakdown";
+import { SurroundingRowsDialog } from "@/components/discover/SurroundingRowsDialog";
 import { TimeSelector, RefreshControl } from "@/components/shared";
 import {
   Select,
@@ -24,9 +27,15 @@ import {
   CombinedProgressIndicator,
   LoadingOverlay,
 } from "@/components/ui/loading";
-import { FilterX, Database, Table2, Hash, BarChart3 } from "lucide-react";
-import { getFlexibleRangeFromEnum } from "@/lib/types/discover";
+import { FilterX, Database, Table2, Hash, BarChart3, Radio } from "lucide-react";
+import {
+  getFlexibleRangeFromEnum,
+  HISTOGRAM_INTERVALS,
+  type DiscoverRow,
+  type HistogramInterval,
+} from "@/lib/types/discover";
 import { parseError } from "@/lib/clickhouse/error-parser";
+import { cn } from "@/lib/utils";
 import { AccessDenied } from "@/components/ui/access-denied";
 import { useAuth } from "@/components/auth";
 import { useDiscoverPage } from "@/lib/hooks/use-discover-page";
@@ -44,6 +53,7 @@ function DiscoverPageContent() {
     selectedColumns,
     selectedTimeColumn,
     customFilter,
+    queryLanguage,
     appliedFilter,
     isQueryDirty,
     flexibleRange,
@@ -62,6 +72,15 @@ function DiscoverPageContent() {
     pageSize,
     sorting,
     groupBy,
+    histogramInterval,
+    histogramSplitBy,
+    histogramAggregation,
+    histogramAggregationField,
+    liveTail,
+    liveTailPaused,
+    liveTailError,
+    liveTailNewRows,
+    currentView,
     cacheMetadata,
 
     setSelectedDatabase,
@@ -69,20 +88,30 @@ function DiscoverPageContent() {
     setSelectedColumns,
     setSelectedTimeColumn,
     setCustomFilter,
+    setQueryLanguage,
     setFlexibleRange,
     setRefreshInterval,
     setPage,
     setPageSize,
     setSorting,
     setGroupBy,
+    setHistogramInterval,
+    setHistogramSplitBy,
+    setHistogramAggregation,
+    setLiveTail,
+    setGridAtTop,
+    applySavedSearch,
     handleSearch,
     handleHistogramBarClick,
+    handleHistogramSegmentClick,
     cancelQuery,
     resetColumns,
     filterForValue,
     filterOutValue,
   } = useDiscoverPage();
 
+  const [surroundingAnchor, setSurroundingAnchor] = useState<DiscoverRow | null>(null);
+
   const isCountPending = totalHits === -1;
   const isStreaming = isLoading && rows.length > 0;
   const showCombinedProgress = isLoading && histLoading;
@@ -149,6 +178,7 @@ function DiscoverPageContent() {
         title="Discover"
         actions={
           <div className="flex flex-wrap items-center gap-2">
+            <SavedSearches view={currentView} onLoad={applySavedSearch} />
             <TimeSelector value={flexibleRange} onChange={setFlexibleRange} />
             <RefreshControl
               onRefresh={() => handleSearch()}
@@ -223,9 +253,15 @@ function DiscoverPageContent() {
             isLoading={isLoading}
             isDirty={isQueryDirty}
             error={error}
-            placeholder={`Filter with ClickHouse SQL, e.g. ${
-              schema.columns[0]?.name || "column"
-            } = 'value'`}
+            language={queryLanguage}
+            onLanguageChange={setQueryLanguage}
+            placeholder={
+              queryLanguage === "kql"
+                ? `Search with KQL, e.g. ${schema.columns[0]?.name || "field"}:value AND NOT level:debug`
+                : `Filter with ClickHouse SQL, e.g. ${
+                    schema.columns[0]?.name || "column"
+                  } = 'value'`
+            }
           />
         )}
 
@@ -268,27 +304,71 @@ function DiscoverPageContent() {
               <div className="border rounded-md p-4 bg-card shadow-sm relative">
                 <div className="flex justify-between items-center mb-2">
                   <h3 className="text-sm font-medium text-muted-foreground">
-                    Document Count Over Time
+                    {histogramAggregation === "count"
+                      ? "Document Count Over Time"
+                      : `${histogramAggregation}(${histogramAggregationField}) Over Time`}
                   </h3>
-                  {flexibleRange.type === "absolute" && (
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() =>
-                        setFlexibleRange(getFlexibleRangeFromEnum("1h"))
+                  <div className="flex items-center gap-2">
+                    {flexibleRange.type === "absolute" && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() =>
+                          setFlexibleRange(getFlexibleRangeFromEnum("1h"))
+                        }
+                        className="h-6 text-xs"
+                      >
+                        <FilterX className="mr-1 h-3 w-3" />
+                        Reset Zoom
+                      </Button>
+                    )}
+                    <HistogramBreakdown
+                      columns={schema.columns}
+                      timeColumn={selectedTimeColumn}
+                      splitBy={histogramSplitBy}
+                      aggregation={histogramAggregation}
+                      aggregationField={histogramAggregationField}
+                      onSplitByChange={setHistogramSplitBy}
+                      onAggregationChange={setHistogramAggregation}
+                    />
+                    <Select
+                      value={histogramInterval}
+                      onValueChange={(v) =>
+                        setHistogramInterval(v as HistogramInterval)
                       }
-                      className="h-6 text-xs"
                     >
-                      <FilterX className="mr-1 h-3 w-3" />
-                      Reset Zoom
-                    </Button>
-                  )}
+                      <SelectTrigger
+                        className="h-6 w-[110px] text-xs"
+                        aria-label="Histogram interval"
+                      >
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {HISTOGRAM_INTERVALS.map((interval) => (
+                          <SelectItem key={interval} value={interval}>
+                            {interval === "auto"
+                              ? "Auto interval"
+                              : interval.startsWith("1 ")
+                                ? `Per ${interval.slice(2)}`
+                                : `${interval}s`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
                 </div>
                 <LoadingOverlay isLoading={histLoading} message="Building histogram...">
                   <DiscoverHistogram
                     data={histogramData}
                     isLoading={false}
                     onBarClick={handleHistogramBarClick}
+                    onSegmentClick={handleHistogramSegmentClick}
+                    stacked={histogramAggregation === "count" || histogramAggregation === "sum"}
+                    valueLabel={
+                      histogramAggregation === "count"
+                        ? "count"
+                        : `${histogramAggregation}(${histogramAggregationField})`
+                    }
                   />
                 </LoadingOverlay>
               </div>
@@ -315,6 +395,7 @@ function DiscoverPageContent() {
                   minTime: activeMinTime,
                   maxTime: activeMaxTime,
                   filter: appliedFilter || undefined,
+                  language: queryLanguage,
                 }}
                 className="hidden md:flex w-64 max-h-[calc(100vh-280px)]"
               />
@@ -337,6 +418,32 @@ function DiscoverPageContent() {
                       totalHits={cacheMetadata?.totalHits}
                       totalMisses={cacheMetadata?.totalMisses}
                     />
+                    <Button
+                      variant={liveTail ? "default" : "outline"}
+                      size="sm"
+                      className="h-6 text-xs"
+                      disabled={!selectedTimeColumn || groupBy.length > 0}
+                      onClick={() => setLiveTail(!liveTail)}
+                      title={
+                        selectedTimeColumn
+                          ? "Show new rows as they arrive"
+                          : "Live tail needs a time column"
+                      }
+                    >
+                      <Radio
+                        className={cn(
+                          "mr-1 h-3 w-3",
+                          liveTail && !liveTailPaused && "animate-pulse",
+                        )}
+                      />
+                      Live tail
+                    </Button>
+                    {liveTailPaused && (
+                      <span>Paused, scroll to the top to resume</span>
+                    )}
+                    {liveTailError && (
+                      <span className="text-red-500">{liveTailError}</span>
+                    )}
                   </div>
                   <span className="font-mono">
                     {selectedDatabase}.{selectedTable}
@@ -358,6 +465,13 @@ function DiscoverPageContent() {
                     onFilterOutValue={filterOutValue}
                     sorting={sorting}
                     onSortingChange={setSorting}
+                    onViewSurrounding={
+                      selectedTimeColumn && groupBy.length === 0
+                        ? setSurroundingAnchor
+                        : undefined
+                    }
+                    highlightedRows={liveTailNewRows}
+                    onAtTopChange={setGridAtTop}
                   />
                   <StreamingProgressIndicator
                     isStreaming={isStreaming}
@@ -368,6 +482,19 @@ function DiscoverPageContent() {
                 </div>
               </div>
             </div>
+
+            {surroundingAnchor && selectedTimeColumn && (
+              <SurroundingRowsDialog
+                open={true}
+                onOpenChange={(open) => !open && setSurroundingAnchor(null)}
+                anchor={surroundingAnchor}
+                database={selectedDatabase}
+                table={selectedTable}
+                timeColumn={selectedTimeColumn}
+                columns={schema.columns}
+                selectedColumns={selectedColumns}
+              />
+            )}
           </>
         ) : null}
       </div>
@@ -1,9 +1,12 @@
 "use client";
 
 import { useState } from "react";
+import { Layers, List } from "lucide-react";
 import { LogsViewer } from "@/components/logging/LogsViewer";
+import { CrashSignatures } from "@/components/logging/CrashSignatures";
 import { Header } from "@/components/layout/Header";
 import { TimeSelector, RefreshControl } from "@/components/shared";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
   getFlexibleRangeFromEnum,
   FlexibleTimeRange,
@@ -32,11 +35,28 @@ export default function CrashLogsPage() {
         }
       />
       <div className="p-4 md:p-6 flex-1 overflow-hidden">
-        <LogsViewer
-          source="crash_log"
-          timeRange={flexibleRange}
-          refreshKey={refreshKey}
-        />
+        <Tabs defaultValue="signatures" className="h-full flex flex-col">
+          <TabsList className="self-start">
+            <TabsTrigger value="signatures" className="text-xs">
+              <Layers className="h-3 w-3 mr-1" />
+              Signatures
+            </TabsTrigger>
+            <TabsTrigger value="log" className="text-xs">
+              <List className="h-3 w-3 mr-1" />
+              Crash log
+            </TabsTrigger>
+          </TabsList>
+          <TabsContent value="signatures" className="flex-1 min-h-0">
+            <CrashSignatures timeRange={flexibleRange} refreshKey={refreshKey} />
+          </TabsContent>
+          <TabsContent value="log" className="flex-1 min-h-0">
+            <LogsViewer
+              source="crash_log"
+              timeRange={flexibleRange}
+              refreshKey={refreshKey}
+            />
+          </TabsContent>
+        </Tabs>
       </div>
     </div>
   );
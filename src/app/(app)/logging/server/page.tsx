@@ -1,6 +1,8 @@
 "use client";
 
-import { useState } from "react";
+import { Suspense, useCallback, useState } from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { Loader2 } from "lucide-react";
 import { LogsViewer } from "@/components/logging/LogsViewer";
 import { Header } from "@/components/layout/Header";
 import { TimeSelector, RefreshControl } from "@/components/shared";
@@ -8,21 +10,42 @@ import {
   getFlexibleRangeFromEnum,
   FlexibleTimeRange,
 } from "@/lib/types/discover";
+import { parseTimeRangeFromURL } from "@/lib/hooks/use-discover-url";
+
+function ServerLogsContent() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const followQueryId = searchParams.get("query_id") || undefined;
+  // Links to one node's logs around a moment pass host, start and end
+  const linkedHost = searchParams.get("host") || undefined;
 
-export default function ServerLogsPage() {
   const [flexibleRange, setFlexibleRange] = useState<FlexibleTimeRange>(
-    getFlexibleRangeFromEnum("1h"),
+    () => parseTimeRangeFromURL(searchParams) ?? getFlexibleRangeFromEnum("1h"),
   );
   const [refreshInterval, setRefreshInterval] = useState(0);
   const [refreshKey, setRefreshKey] = useState(0);
 
+  const followQuery = useCallback(
+    (queryId: string) => {
+      router.push(`${pathname}?query_id=${encodeURIComponent(queryId)}`);
+    },
+    [router, pathname],
+  );
+
+  const stopFollowing = useCallback(() => {
+    router.replace(pathname);
+  }, [router, pathname]);
+
   return (
     <div className="flex flex-col h-full">
       <Header
         title="Server Logs"
         actions={
           <div className="flex flex-wrap items-center gap-2">
-            <TimeSelector value={flexibleRange} onChange={setFlexibleRange} />
+            {!followQueryId && (
+              <TimeSelector value={flexibleRange} onChange={setFlexibleRange} />
+            )}
             <RefreshControl
               onRefresh={() => setRefreshKey((k) => k + 1)}
               interval={refreshInterval}
@@ -36,8 +59,26 @@ export default function ServerLogsPage() {
           source="text_log"
           timeRange={flexibleRange}
           refreshKey={refreshKey}
+          initialHost={linkedHost}
+          followQueryId={followQueryId}
+          onFollowQuery={followQuery}
+          onStopFollowing={stopFollowing}
         />
       </div>
     </div>
   );
 }
+
+export default function ServerLogsPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="flex items-center justify-center h-full">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      }
+    >
+      <ServerLogsContent />
+    </Suspense>
+  );
+}
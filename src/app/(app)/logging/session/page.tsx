@@ -1,9 +1,12 @@
 "use client";
 
 import { useState } from "react";
+import { BarChart3, List } from "lucide-react";
 import { LogsViewer } from "@/components/logging/LogsViewer";
+import { SessionAnalytics } from "@/components/logging/SessionAnalytics";
 import { Header } from "@/components/layout/Header";
 import { TimeSelector, RefreshControl } from "@/components/shared";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
   getFlexibleRangeFromEnum,
   FlexibleTimeRange,
@@ -32,11 +35,28 @@ export default function SessionLogsPage() {
         }
       />
       <div className="p-4 md:p-6 flex-1 overflow-hidden">
-        <LogsViewer
-          source="session_log"
-          timeRange={flexibleRange}
-          refreshKey={refreshKey}
-        />
+        <Tabs defaultValue="log" className="h-full flex flex-col">
+          <TabsList className="self-start">
+            <TabsTrigger value="log" className="text-xs">
+              <List className="h-3 w-3 mr-1" />
+              Session log
+            </TabsTrigger>
+            <TabsTrigger value="analytics" className="text-xs">
+              <BarChart3 className="h-3 w-3 mr-1" />
+              Security analytics
+            </TabsTrigger>
+          </TabsList>
+          <TabsContent value="log" className="flex-1 min-h-0">
+            <LogsViewer
+              source="session_log"
+              timeRange={flexibleRange}
+              refreshKey={refreshKey}
+            />
+          </TabsContent>
+          <TabsContent value="analytics" className="flex-1 min-h-0">
+            <SessionAnalytics timeRange={flexibleRange} refreshKey={refreshKey} />
+          </TabsContent>
+        </Tabs>
       </div>
     </div>
   );
@@ -65,7 +65,14 @@ export default function ProfilePage() {
               </CardDescription>
             </CardHeader>
             <CardContent>
-              <PasswordChangeForm />
+              {user.sso ? (
+                <p className="text-sm text-muted-foreground">
+                  You signed in with single sign-on. Your password is managed
+                  by your identity provider.
+                </p>
+              ) : (
+                <PasswordChangeForm />
+              )}
             </CardContent>
           </Card>
         </div>
@@ -0,0 +1,931 @@
+"use client";
+
+import { useEffect, useState, useCallback, useMemo } from "react";
+import { fetchApi } from "@/lib/api/client";
+import { Header } from "@/components/layout";
+import { useAuth } from "@/components/auth";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  SortableTableHead,
+  TableHeader,
+  TableRow,
+  TableWrapper,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { DataSourceBadge } from "@/components/ui/data-source-badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/components/ui/use-toast";
+import { AccessDenied } from "@/components/ui/access-denied";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  SlidersHorizontal,
+  RefreshCw,
+  AlertCircle,
+  Loader2,
+  Plus,
+  Trash2,
+  Pencil,
+  ChevronDown,
+  Shield,
+  User,
+  GitCompare,
+} from "lucide-react";
+import type { SystemUser, SystemRole } from "@/lib/clickhouse";
+import {
+  diffProfileAgainstDefaults,
+  resolveProfileSettings,
+  type ProfileDiffStatus,
+  type ProfileSetting,
+  type SettingWritability,
+} from "@/lib/clickhouse/settings-profiles";
+import type {
+  SettingDefault,
+  SettingsProfileWithElements,
+} from "@/app/api/clickhouse/settings/profiles/route";
+
+const WRITABILITY_OPTIONS: Array<{ value: SettingWritability | "none"; label: string }> = [
+  { value: "none", label: "Writable" },
+  { value: "CONST", label: "CONST" },
+  { value: "CHANGEABLE_IN_READONLY", label: "Changeable in readonly" },
+];
+
+const STATUS_BADGES: Record<
+  ProfileDiffStatus,
+  { label: string; variant: "default" | "secondary" | "outline" | "destructive" }
+> = {
+  changed: { label: "overridden", variant: "default" },
+  same: { label: "same as default", variant: "secondary" },
+  constraint: { label: "constraint only", variant: "outline" },
+  unknown: { label: "unknown setting", variant: "destructive" },
+};
+
+const EMPTY_SETTING: ProfileSetting = { name: "", value: "", min: "", max: "" };
+
+const EMPTY_FORM = {
+  name: "",
+  inherit: [] as string[],
+  settings: [] as ProfileSetting[],
+  applyTo: [] as string[],
+  applyToAll: false,
+};
+
+export default function SettingsProfilesPage() {
+  const { permissions, isLoading: authLoading, csrfToken } = useAuth();
+  const { toast } = useToast();
+  const [profiles, setProfiles] = useState<SettingsProfileWithElements[]>([]);
+  const [defaults, setDefaults] = useState<SettingDefault[]>([]);
+  const [users, setUsers] = useState<SystemUser[]>([]);
+  const [roles, setRoles] = useState<SystemRole[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Create/Edit profile dialog
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [dialogError, setDialogError] = useState<string | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+
+  // Delete profile
+  const [deleting, setDeleting] = useState<string | null>(null);
+
+  // Diff against server defaults
+  const [diffProfile, setDiffProfile] = useState<string | null>(null);
+
+  const fetchData = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [profilesRes, usersRes, rolesRes] = await Promise.all([
+        fetchApi("/api/clickhouse/settings/profiles"),
+        fetchApi("/api/clickhouse/access/users"),
+        fetchApi("/api/clickhouse/access/roles"),
+      ]);
+
+      const profilesData = await profilesRes.json();
+      const usersData = await usersRes.json();
+      const rolesData = await rolesRes.json();
+
+      if (profilesData.success) {
+        setProfiles(profilesData.data?.profiles || []);
+        setDefaults(profilesData.data?.defaults || []);
+      } else {
+        setError(profilesData.error || "Failed to fetch settings profiles");
+        return;
+      }
+
+      if (usersData.success) {
+        setUsers(usersData.data || []);
+      }
+      if (rolesData.success) {
+        setRoles(rolesData.data || []);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Network error");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const defaultsByName = useMemo(
+    () => new Map(defaults.map((d) => [d.name, d])),
+    [defaults],
+  );
+
+  const diff = useMemo(() => {
+    if (!diffProfile) return [];
+    const definitions = new Map(profiles.map((p) => [p.name, p]));
+    return diffProfileAgainstDefaults(
+      resolveProfileSettings(diffProfile, definitions),
+      defaults,
+    );
+  }, [diffProfile, profiles, defaults]);
+
+  const openCreateDialog = () => {
+    setIsEditing(false);
+    setFormData({ ...EMPTY_FORM, settings: [{ ...EMPTY_SETTING }] });
+    setDialogError(null);
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (profile: SettingsProfileWithElements) => {
+    setIsEditing(true);
+    setFormData({
+      name: profile.name,
+      inherit: profile.inherit,
+      settings: profile.settings.map((s) => ({ ...EMPTY_SETTING, ...s })),
+      applyTo: profile.apply_to_list,
+      applyToAll: profile.apply_to_all,
+    });
+    setDialogError(null);
+    setDialogOpen(true);
+  };
+
+  const updateSetting = (index: number, patch: Partial<ProfileSetting>) => {
+    setFormData((prev) => ({
+      ...prev,
+      settings: prev.settings.map((setting, i) =>
+        i === index ? { ...setting, ...patch } : setting,
+      ),
+    }));
+  };
+
+  const toggleInList = (key: "inherit" | "applyTo", name: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      [key]: prev[key].includes(name)
+        ? prev[key].filter((n) => n !== name)
+        : [...prev[key], name],
+    }));
+  };
+
+  const handleSave = async () => {
+    setDialogError(null);
+
+    if (!formData.name.trim()) {
+      setDialogError("Profile name is required");
+      return;
+    }
+
+    // Drop untouched rows; trim the rest
+    const settings = formData.settings
+      .filter((s) => s.name.trim())
+      .map((s) => ({
+        name: s.name.trim(),
+        value: s.value?.trim() || undefined,
+        min: s.min?.trim() || undefined,
+        max: s.max?.trim() || undefined,
+        writability: s.writability,
+      }));
+
+    const unknown = settings.filter((s) => !defaultsByName.has(s.name));
+    if (unknown.length > 0) {
+      setDialogError(
+        `Unknown setting${unknown.length > 1 ? "s" : ""}: ${unknown.map((s) => s.name).join(", ")}`,
+      );
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      const response = await fetchApi("/api/clickhouse/settings/profiles", {
+        method: isEditing ? "PUT" : "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-csrf-token": csrfToken || "",
+        },
+        body: JSON.stringify({
+          name: formData.name.trim(),
+          inherit: formData.inherit,
+          settings,
+          applyTo: formData.applyToAll ? [] : formData.applyTo,
+          applyToAll: formData.applyToAll,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        setDialogOpen(false);
+        toast({
+          title: isEditing ? "Profile updated" : "Profile created",
+          description: `Settings profile ${formData.name} has been ${
+            isEditing ? "updated" : "created"
+          } successfully.`,
+        });
+        fetchData();
+      } else {
+        setDialogError(
+          data.error ||
+            `Failed to ${isEditing ? "update" : "create"} settings profile`,
+        );
+      }
+    } catch (err) {
+      setDialogError(err instanceof Error ? err.message : "Network error");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (profileName: string) => {
+    setDeleting(profileName);
+
+    try {
+      const response = await fetchApi("/api/clickhouse/settings/profiles", {
+        method: "DELETE",
+        headers: {
+          "Content-Type": "application/json",
+          "x-csrf-token": csrfToken || "",
+        },
+        body: JSON.stringify({ name: profileName }),
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        toast({
+          title: "Profile deleted",
+          description: `Settings profile ${profileName} has been deleted.`,
+        });
+        fetchData();
+      } else {
+        toast({
+          variant: "destructive",
+          title: "Failed to delete profile",
+          description:
+            data.error || "An error occurred while deleting the profile.",
+        });
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Network error");
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  if (authLoading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!permissions?.canManageUsers) {
+    return (
+      <div className="h-full flex flex-col p-4">
+        <Header title="Settings Profiles" />
+        <div className="flex-1 flex items-center justify-center">
+          <AccessDenied
+            title="Access Denied"
+            message="You need ACCESS MANAGEMENT privileges to manage settings profiles."
+          />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-full">
+      <Header title="Settings Profiles"></Header>
+
+      <div className="flex-1 p-6 h-full flex flex-col overflow-hidden">
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : error ? (
+          <Card className="border-destructive/50 bg-destructive/10">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-destructive">
+                <AlertCircle className="w-5 h-5" />
+                Error Loading Settings Profiles
+              </CardTitle>
+              <CardDescription className="text-destructive/80">
+                {error}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm text-muted-foreground">
+                You may need ACCESS MANAGEMENT privileges to view settings
+                profiles.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-6 h-full flex flex-col">
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-muted-foreground">
+                {profiles.length} profile{profiles.length !== 1 ? "s" : ""} •
+                Settings and constraints applied to users and roles at login
+              </p>
+              <div className="flex items-center gap-2">
+                <Button size="sm" onClick={openCreateDialog}>
+                  <Plus className="w-4 h-4 mr-1" />
+                  Create Profile
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={fetchData}
+                  disabled={loading}
+                >
+                  <RefreshCw
+                    className={`w-4 h-4 mr-1 ${loading ? "animate-spin" : ""}`}
+                  />
+                  Refresh
+                </Button>
+              </div>
+            </div>
+
+            <TableWrapper>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <SortableTableHead className="w-[200px]" sortable={false}>
+                      Name
+                    </SortableTableHead>
+                    <SortableTableHead sortable={false}>Inherits</SortableTableHead>
+                    <SortableTableHead sortable={false}>Settings</SortableTableHead>
+                    <SortableTableHead sortable={false}>
+                      Applies To
+                    </SortableTableHead>
+                    <SortableTableHead className="w-[130px]" sortable={false}>
+                      Actions
+                    </SortableTableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {profiles.length === 0 ? (
+                    <TableRow>
+                      <TableCell
+                        colSpan={5}
+                        className="text-center text-muted-foreground py-8"
+                      >
+                        No settings profiles found
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    profiles.map((profile) => (
+                      <TableRow key={profile.id}>
+                        <TableCell className="data-table-cell">
+                          <div className="flex items-center gap-2">
+                            <SlidersHorizontal className="w-4 h-4 text-muted-foreground" />
+                            {profile.name}
+                            {profile.storage !== "local_directory" &&
+                              profile.storage !== "replicated" && (
+                                <Badge variant="outline" className="text-xs">
+                                  {profile.storage}
+                                </Badge>
+                              )}
+                          </div>
+                        </TableCell>
+                        <TableCell className="data-table-cell">
+                          <div className="flex flex-wrap gap-1">
+                            {profile.inherit.length > 0
+                              ? profile.inherit.map((name) => (
+                                  <Badge
+                                    key={name}
+                                    variant="outline"
+                                    className="text-xs"
+                                  >
+                                    {name}
+                                  </Badge>
+                                ))
+                              : "-"}
+                          </div>
+                        </TableCell>
+                        <TableCell className="data-table-cell font-mono text-xs max-w-[360px]">
+                          {profile.settings.length > 0
+                            ? profile.settings
+                                .map((s) =>
+                                  [
+                                    s.value !== undefined
+                                      ? `${s.name} = ${s.value}`
+                                      : s.name,
+                                    s.min !== undefined && `MIN ${s.min}`,
+                                    s.max !== undefined && `MAX ${s.max}`,
+                                    s.writability,
+                                  ]
+                                    .filter(Boolean)
+                                    .join(" "),
+                                )
+                                .join(", ")
+                            : "-"}
+                        </TableCell>
+                        <TableCell className="data-table-cell">
+                          {profile.apply_to_all ? (
+                            <Badge variant="secondary" className="text-xs">
+                              ALL
+                              {profile.apply_to_except.length > 0 &&
+                                ` EXCEPT ${profile.apply_to_except.join(", ")}`}
+                            </Badge>
+                          ) : profile.apply_to_list.length > 0 ? (
+                            <div className="flex flex-wrap gap-1">
+                              {profile.apply_to_list.map((name) => (
+                                <Badge
+                                  key={name}
+                                  variant="secondary"
+                                  className="text-xs"
+                                >
+                                  {name}
+                                </Badge>
+                              ))}
+                            </div>
+                          ) : (
+                            <span className="text-muted-foreground font-mono text-xs">
+                              Not assigned
+                            </span>
+                          )}
+                        </TableCell>
+                        <TableCell className="data-table-cell">
+                          <div className="flex items-center gap-1">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8"
+                              title="Compare with server defaults"
+                              onClick={() => setDiffProfile(profile.name)}
+                            >
+                              <GitCompare className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8"
+                              onClick={() => openEditDialog(profile)}
+                            >
+                              <Pencil className="w-4 h-4" />
+                            </Button>
+                            <AlertDialog>
+                              <AlertDialogTrigger asChild>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                                  disabled={deleting === profile.name}
+                                >
+                                  {deleting === profile.name ? (
+                                    <Loader2 className="w-4 h-4 animate-spin" />
+                                  ) : (
+                                    <Trash2 className="w-4 h-4" />
+                                  )}
+                                </Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>Delete Profile</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    Are you sure you want to delete settings
+                                    profile <strong>{profile.name}</strong>?
+                                    Users, roles and profiles that use it fall
+                                    back to their remaining settings.
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                  <AlertDialogAction
+                                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                                    onClick={() => handleDelete(profile.name)}
+                                  >
+                                    Delete
+                                  </AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </TableWrapper>
+
+            <DataSourceBadge
+              sources={[
+                "system.settings_profiles",
+                "system.settings_profile_elements",
+                "system.settings",
+              ]}
+              description="Profiles set defaults and MIN/MAX/CONST constraints; inherited profiles apply first."
+            />
+          </div>
+        )}
+      </div>
+
+      {/* Create/Edit Profile Dialog */}
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {isEditing ? "Edit Settings Profile" : "Create Settings Profile"}
+            </DialogTitle>
+            <DialogDescription>
+              Leave value empty to only constrain a setting. Saving replaces all
+              settings, constraints and inherited profiles.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            {dialogError && (
+              <div className="p-3 rounded-md bg-destructive/10 text-destructive text-sm flex items-center gap-2">
+                <AlertCircle className="w-4 h-4" />
+                {dialogError}
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="name">Name *</Label>
+                <Input
+                  id="name"
+                  placeholder="e.g. analysts"
+                  value={formData.name}
+                  disabled={isEditing}
+                  onChange={(e) =>
+                    setFormData({ ...formData, name: e.target.value })
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Inherits From</Label>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="outline" className="w-full justify-between">
+                      {formData.inherit.length > 0
+                        ? formData.inherit.join(", ")
+                        : "No parent profiles"}
+                      <ChevronDown className="w-4 h-4 ml-2 opacity-50" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent className="w-[300px] max-h-80 overflow-y-auto">
+                    {profiles
+                      .filter((p) => p.name !== formData.name)
+                      .map((p) => (
+                        <DropdownMenuCheckboxItem
+                          key={p.name}
+                          checked={formData.inherit.includes(p.name)}
+                          onCheckedChange={() => toggleInList("inherit", p.name)}
+                        >
+                          {p.name}
+                        </DropdownMenuCheckboxItem>
+                      ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Settings</Label>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      settings: [...prev.settings, { ...EMPTY_SETTING }],
+                    }))
+                  }
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  Add Setting
+                </Button>
+              </div>
+              <datalist id="setting-names">
+                {defaults.map((d) => (
+                  <option key={d.name} value={d.name} />
+                ))}
+              </datalist>
+              <div className="grid grid-cols-[2fr_1fr_1fr_1fr_1.2fr_auto] gap-2 text-xs text-muted-foreground">
+                <span>Setting</span>
+                <span>Value</span>
+                <span>Min</span>
+                <span>Max</span>
+                <span>Constraint</span>
+                <span className="w-8" />
+              </div>
+              {formData.settings.map((setting, index) => {
+                const serverDefault = defaultsByName.get(setting.name);
+                return (
+                  <div key={index} className="space-y-1">
+                    <div className="grid grid-cols-[2fr_1fr_1fr_1fr_1.2fr_auto] gap-2">
+                      <Input
+                        list="setting-names"
+                        className="h-8 font-mono text-xs"
+                        placeholder="max_memory_usage"
+                        value={setting.name}
+                        onChange={(e) =>
+                          updateSetting(index, { name: e.target.value })
+                        }
+                      />
+                      <Input
+                        className="h-8 font-mono text-xs"
+                        value={setting.value ?? ""}
+                        onChange={(e) =>
+                          updateSetting(index, { value: e.target.value })
+                        }
+                      />
+                      <Input
+                        className="h-8 font-mono text-xs"
+                        value={setting.min ?? ""}
+                        onChange={(e) =>
+                          updateSetting(index, { min: e.target.value })
+                        }
+                      />
+                      <Input
+                        className="h-8 font-mono text-xs"
+                        value={setting.max ?? ""}
+                        onChange={(e) =>
+                          updateSetting(index, { max: e.target.value })
+                        }
+                      />
+                      <Select
+                        value={setting.writability ?? "none"}
+                        onValueChange={(v) =>
+                          updateSetting(index, {
+                            writability:
+                              v === "none" ? undefined : (v as SettingWritability),
+                          })
+                        }
+                      >
+                        <SelectTrigger className="h-8 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {WRITABILITY_OPTIONS.map((option) => (
+                            <SelectItem key={option.value} value={option.value}>
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                        onClick={() =>
+                          setFormData((prev) => ({
+                            ...prev,
+                            settings: prev.settings.filter((_, i) => i !== index),
+                          }))
+                        }
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                    {setting.name && (
+                      <p className="text-xs text-muted-foreground truncate">
+                        {serverDefault
+                          ? `Default: ${serverDefault.default || "''"} (${serverDefault.type})`
+                          : "Not a known setting on this server"}
+                      </p>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Applies To</Label>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="apply-to-all"
+                  checked={formData.applyToAll}
+                  onCheckedChange={(checked) =>
+                    setFormData({ ...formData, applyToAll: checked === true })
+                  }
+                />
+                <Label
+                  htmlFor="apply-to-all"
+                  className="text-sm font-normal cursor-pointer"
+                >
+                  All users and roles
+                </Label>
+              </div>
+              {!formData.applyToAll && (
+                <>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="outline" className="w-full justify-between">
+                        {formData.applyTo.length > 0
+                          ? `${formData.applyTo.length} user(s)/role(s) selected`
+                          : "Select users and roles..."}
+                        <ChevronDown className="w-4 h-4 ml-2 opacity-50" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent className="w-[300px] max-h-80 overflow-y-auto">
+                      <DropdownMenuLabel>Roles</DropdownMenuLabel>
+                      <DropdownMenuSeparator />
+                      {roles.map((role) => (
+                        <DropdownMenuCheckboxItem
+                          key={`role-${role.name}`}
+                          checked={formData.applyTo.includes(role.name)}
+                          onCheckedChange={() => toggleInList("applyTo", role.name)}
+                        >
+                          <Shield className="w-3.5 h-3.5 mr-2" />
+                          {role.name}
+                        </DropdownMenuCheckboxItem>
+                      ))}
+                      <DropdownMenuLabel>Users</DropdownMenuLabel>
+                      <DropdownMenuSeparator />
+                      {users.map((user) => (
+                        <DropdownMenuCheckboxItem
+                          key={`user-${user.name}`}
+                          checked={formData.applyTo.includes(user.name)}
+                          onCheckedChange={() => toggleInList("applyTo", user.name)}
+                        >
+                          <User className="w-3.5 h-3.5 mr-2" />
+                          {user.name}
+                        </DropdownMenuCheckboxItem>
+                      ))}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+
+                  {formData.applyTo.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-2">
+                      {formData.applyTo.map((name) => (
+                        <Badge key={name} variant="secondary" className="text-xs">
+                          {name}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                  {isEditing ? "Saving..." : "Creating..."}
+                </>
+              ) : isEditing ? (
+                "Save Changes"
+              ) : (
+                "Create Profile"
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Diff Against Server Defaults Dialog */}
+      <Dialog
+        open={diffProfile !== null}
+        onOpenChange={(open) => !open && setDiffProfile(null)}
+      >
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{diffProfile} vs. Server Defaults</DialogTitle>
+            <DialogDescription>
+              Effective settings after inheritance, compared with defaults from
+              system.settings.
+            </DialogDescription>
+          </DialogHeader>
+          <TableWrapper>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <SortableTableHead sortable={false}>Setting</SortableTableHead>
+                  <SortableTableHead sortable={false}>Profile</SortableTableHead>
+                  <SortableTableHead sortable={false}>Default</SortableTableHead>
+                  <SortableTableHead sortable={false}>Constraints</SortableTableHead>
+                  <SortableTableHead sortable={false}>Source</SortableTableHead>
+                  <SortableTableHead sortable={false}>Status</SortableTableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {diff.length === 0 ? (
+                  <TableRow>
+                    <TableCell
+                      colSpan={6}
+                      className="text-center text-muted-foreground py-8"
+                    >
+                      This profile does not change any settings
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  diff.map((row) => (
+                    <TableRow key={row.name}>
+                      <TableCell className="data-table-cell font-mono text-xs">
+                        {row.name}
+                      </TableCell>
+                      <TableCell className="data-table-cell font-mono text-xs">
+                        {row.value ?? "-"}
+                      </TableCell>
+                      <TableCell className="data-table-cell font-mono text-xs text-muted-foreground">
+                        {row.serverDefault ?? "-"}
+                      </TableCell>
+                      <TableCell className="data-table-cell font-mono text-xs">
+                        {[
+                          row.min !== undefined && `MIN ${row.min}`,
+                          row.max !== undefined && `MAX ${row.max}`,
+                          row.writability,
+                        ]
+                          .filter(Boolean)
+                          .join(" ") || "-"}
+                      </TableCell>
+                      <TableCell className="data-table-cell text-xs">
+                        {row.source === diffProfile ? (
+                          <span className="text-muted-foreground">own</span>
+                        ) : (
+                          <Badge variant="outline" className="text-xs">
+                            {row.source}
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="data-table-cell">
+                        <Badge
+                          variant={STATUS_BADGES[row.status].variant}
+                          className="text-xs"
+                        >
+                          {STATUS_BADGES[row.status].label}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </TableWrapper>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -16,8 +16,11 @@ import {
   SaveQueryDialog,
   ExplainButton,
   ExplainVisualizer,
+  ExportButton,
   TimeRangeSelector,
   SqlResultSkeleton,
+  QueryParametersForm,
+  ScriptResults,
   type ExplainType,
 } from "@/components/sql";
 
@@ -33,6 +36,9 @@ const SqlEditor = dynamic(
   },
 );
 import { useSqlPage } from "@/lib/hooks/use-sql-page";
+import { toShareSearchParams } from "@/lib/sql";
+import { withBasePath } from "@/lib/base-path";
+import { copyToClipboard } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
 import {
@@ -56,11 +62,14 @@ import {
   Bookmark,
   Save,
   ChevronDown,
+  Share2,
 } from "lucide-react";
 import {
   DropdownMenu,
+  DropdownMenuCheckboxItem,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 
@@ -90,13 +99,31 @@ export default function SqlConsolePage() {
     handleCursorChange,
     handleExecuteAtCursor,
     handleExplain,
+    handleExport,
+    handleCancelExport,
+    exportProgress,
     handleApplyTimeRange,
     handleHistorySelect,
+    queryParameters,
+    handleParamChange,
   } = useSqlPage();
 
   const router = useRouter();
   const activeTab = useSqlPage().activeTab;
 
+  // Only values of parameters the query still uses are saved and shared
+  const paramValues = Object.fromEntries(
+    queryParameters.map((p) => [p.name, activeQueryTab?.params?.[p.name] ?? ""]),
+  );
+
+  const handleCopyShareLink = () => {
+    if (!activeQueryTab) return;
+    const search = toShareSearchParams(activeQueryTab.sql, paramValues);
+    void copyToClipboard(
+      `${window.location.origin}${withBasePath("/sql")}?${search}`,
+    );
+  };
+
   const streamedRows = activeQueryTab?.result?.data?.length ?? 0;
   const isStreaming = Boolean(activeQueryTab?.isRunning) && streamedRows > 0;
 
@@ -155,6 +182,17 @@ export default function SqlConsolePage() {
             Saved
           </Button>
 
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={handleCopyShareLink}
+            disabled={!activeQueryTab || !activeQueryTab.sql.trim()}
+            className="text-muted-foreground"
+          >
+            <Share2 className="w-4 h-4 mr-1" />
+            Share
+          </Button>
+
           <Separator orientation="vertical" className="h-6 hidden sm:inline" />
 
           <ExplainButton
@@ -162,6 +200,15 @@ export default function SqlConsolePage() {
             disabled={!activeQueryTab || activeQueryTab.isRunning}
           />
 
+          <ExportButton
+            onExport={handleExport}
+            onCancel={handleCancelExport}
+            progress={exportProgress}
+            disabled={
+              !activeQueryTab?.result?.sql || activeQueryTab.isRunning
+            }
+          />
+
           <Separator orientation="vertical" className="h-6 mx-2 hidden sm:inline" />
 
           <TimeRangeSelector
@@ -227,6 +274,17 @@ export default function SqlConsolePage() {
                     Shift+Enter
                   </span>
                 </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuCheckboxItem
+                  checked={Boolean(activeQueryTab?.continueOnError)}
+                  onCheckedChange={(checked) => {
+                    if (activeTabId) {
+                      updateTab(activeTabId, { continueOnError: checked });
+                    }
+                  }}
+                >
+                  Continue script on error
+                </DropdownMenuCheckboxItem>
               </DropdownMenuContent>
             </DropdownMenu>
           </div>
@@ -270,9 +328,9 @@ export default function SqlConsolePage() {
                 <SheetTitle>Saved Queries</SheetTitle>
               </SheetHeader>
               <SavedQueries
-                onSelect={(sql) => {
+                onSelect={(sql, params) => {
                   if (activeTabId && activeQueryTab) {
-                    updateTab(activeTabId, { sql });
+                    updateTab(activeTabId, { sql, params });
                     setSavedQueriesOpen(false);
                   }
                 }}
@@ -284,6 +342,7 @@ export default function SqlConsolePage() {
             open={saveDialogOpen}
             onOpenChange={setSaveDialogOpen}
             sql={activeQueryTab?.sql || ""}
+            params={paramValues}
             onSaved={() => {}}
           />
         </div>
@@ -318,8 +377,33 @@ export default function SqlConsolePage() {
                   />
                 </div>
 
+                <QueryParametersForm
+                  parameters={queryParameters}
+                  values={activeQueryTab.params ?? {}}
+                  onChange={handleParamChange}
+                  onSubmit={() =>
+                    handleExecute(
+                      0,
+                      tabPagination[activeTabId || ""]?.pageSize || 100,
+                    )
+                  }
+                  database={selectedDatabase}
+                  disabled={activeQueryTab.isRunning}
+                />
+
                 <div className="flex-1 min-h-0">
-                  {activeQueryTab.isRunning && !activeQueryTab.result ? (
+                  {activeQueryTab.script ? (
+                    <ScriptResults
+                      script={activeQueryTab.script}
+                      onSelect={(index) => {
+                        if (activeQueryTab.script) {
+                          updateTab(activeQueryTab.id, {
+                            script: { ...activeQueryTab.script, activeIndex: index },
+                          });
+                        }
+                      }}
+                    />
+                  ) : activeQueryTab.isRunning && !activeQueryTab.result ? (
                     <QueryLoadingState
                       isRunning={true}
                       className="h-full flex items-center justify-center"
@@ -29,12 +29,18 @@ import {
   Code,
   AlertCircle,
   Network,
+  PieChart,
+  Unlink,
+  Filter,
 } from "lucide-react";
 import { DataSourceBadge } from "@/components/ui/data-source-badge";
+import { DetachedPartsTab } from "@/components/monitoring";
 import {
   OverviewTab,
   PartsTab,
+  PartitionsTab,
   ColumnsTab,
+  IndexesTab,
   ReplicasTab,
   MutationsTab,
   MergesTab,
@@ -178,7 +184,7 @@ export default function TablesPage() {
             onValueChange={setActiveTab}
             className="flex-1 flex flex-col overflow-hidden"
           >
-            <TabsList className="grid w-full grid-cols-8">
+            <TabsList className="grid w-full grid-cols-11">
               <TabsTrigger value="overview" className="text-xs">
                 <LayoutDashboard className="h-3 w-3 mr-1" />
                 Overview
@@ -187,10 +193,22 @@ export default function TablesPage() {
                 <Layers className="h-3 w-3 mr-1" />
                 Parts
               </TabsTrigger>
+              <TabsTrigger value="partitions" className="text-xs">
+                <PieChart className="h-3 w-3 mr-1" />
+                Partitions
+              </TabsTrigger>
+              <TabsTrigger value="detached" className="text-xs">
+                <Unlink className="h-3 w-3 mr-1" />
+                Detached
+              </TabsTrigger>
               <TabsTrigger value="columns" className="text-xs">
                 <Columns className="h-3 w-3 mr-1" />
                 Columns
               </TabsTrigger>
+              <TabsTrigger value="indexes" className="text-xs">
+                <Filter className="h-3 w-3 mr-1" />
+                Indexes
+              </TabsTrigger>
               <TabsTrigger value="replicas" className="text-xs">
                 <Server className="h-3 w-3 mr-1" />
                 Replicas
@@ -231,6 +249,26 @@ export default function TablesPage() {
               >
                 <PartsTab database={selectedDatabase} table={selectedTable} />
               </TabsContent>
+              <TabsContent
+                value="partitions"
+                className="m-0 h-full"
+                key={`partitions-${refreshKey}`}
+              >
+                <PartitionsTab
+                  database={selectedDatabase}
+                  table={selectedTable}
+                />
+              </TabsContent>
+              <TabsContent
+                value="detached"
+                className="m-0 h-full"
+                key={`detached-${refreshKey}`}
+              >
+                <DetachedPartsTab
+                  database={selectedDatabase}
+                  table={selectedTable}
+                />
+              </TabsContent>
               <TabsContent
                 value="columns"
                 className="m-0 h-full"
@@ -238,6 +276,13 @@ export default function TablesPage() {
               >
                 <ColumnsTab database={selectedDatabase} table={selectedTable} />
               </TabsContent>
+              <TabsContent
+                value="indexes"
+                className="m-0 h-full"
+                key={`indexes-${refreshKey}`}
+              >
+                <IndexesTab database={selectedDatabase} table={selectedTable} />
+              </TabsContent>
               <TabsContent
                 value="replicas"
                 className="m-0 h-full"
@@ -1,9 +1,15 @@
 import { NextResponse } from "next/server";
-import { getConfiguredClusters } from "@/lib/clickhouse";
+import { getClusterOidcConfig, getConfiguredClusters } from "@/lib/clickhouse";
 
 export async function GET() {
   try {
-    const clusters = getConfiguredClusters();
+    const clusters = getConfiguredClusters().map((cluster) => {
+      const oidc = getClusterOidcConfig(cluster.id);
+      // Only the button label is public; the rest of the OIDC config stays server-side
+      return oidc
+        ? { ...cluster, sso: { label: oidc.buttonLabel || "Sign in with SSO" } }
+        : cluster;
+    });
     const defaultClusterId = clusters.length > 0 ? clusters[0].id : null;
     return NextResponse.json({ success: true, clusters, defaultClusterId });
   } catch {
@@ -176,12 +176,12 @@ export async function POST(
     // SECURITY FIX: Prevent session fixation attacks
     // Destroy any existing session before creating a new one
     if (session.sessionId) {
-      destroySession(session.sessionId);
+      await destroySession(session.sessionId);
     }
     session.destroy();
 
     // Store credentials in server-side session with fresh session ID
-    const sessionId = createSession({
+    const sessionId = await createSession({
       username: body.username,
       password: body.password || "",
       host: config.host,
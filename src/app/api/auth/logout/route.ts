@@ -18,7 +18,7 @@ export async function POST(): Promise<NextResponse> {
   );
 
   if (session.sessionId) {
-    destroySession(session.sessionId);
+    await destroySession(session.sessionId);
   }
 
   session.destroy();
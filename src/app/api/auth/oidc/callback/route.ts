@@ -0,0 +1,150 @@
+/**
+ * API route completing an OIDC single sign-on login
+ * GET /api/auth/oidc/callback?code=...&state=...
+ *
+ * Exchanges the authorization code, verifies the ID token, maps its claims
+ * to a ClickHouse user and creates a server-side session. Depending on the
+ * cluster's `oidc.mode`, queries then run through the lens user with
+ * EXECUTE AS (impersonate) or with the ID token as bearer auth (jwt).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { getIronSession } from "iron-session";
+import {
+  sessionOptions,
+  oidcFlowOptions,
+  type OidcFlowData,
+  type SessionData,
+} from "@/lib/auth/session";
+import { createSession, destroySession, type UserSession } from "@/lib/auth/storage";
+import { generateCsrfToken } from "@/lib/auth/csrf";
+import {
+  exchangeAuthorizationCode,
+  getOidcCallbackUrl,
+  mapOidcClaims,
+  OidcError,
+  verifyIdToken,
+} from "@/lib/auth/oidc";
+import {
+  createClient,
+  getClusterOidcConfig,
+  getUserConfig,
+  isClickHouseError,
+} from "@/lib/clickhouse";
+
+function loginErrorRedirect(request: NextRequest, message: string) {
+  const url = new URL(`${request.nextUrl.basePath}/login`, request.nextUrl.origin);
+  url.searchParams.set("error", message);
+  return NextResponse.redirect(url);
+}
+
+export async function GET(request: NextRequest) {
+  const cookieStore = await cookies();
+  const flow = await getIronSession<OidcFlowData>(cookieStore, oidcFlowOptions);
+  const { state, nonce, codeVerifier, clusterId } = flow;
+  // The flow state is single-use
+  flow.destroy();
+
+  const params = request.nextUrl.searchParams;
+  const idpError = params.get("error");
+  if (idpError) {
+    return loginErrorRedirect(
+      request,
+      params.get("error_description") || `Identity provider error: ${idpError}`,
+    );
+  }
+
+  const code = params.get("code");
+  if (!code || !state || !nonce || !codeVerifier || !clusterId) {
+    return loginErrorRedirect(request, "Login session expired. Please try again.");
+  }
+  if (params.get("state") !== state) {
+    return loginErrorRedirect(request, "Invalid login state. Please try again.");
+  }
+
+  const oidc = getClusterOidcConfig(clusterId);
+  if (!oidc) {
+    return loginErrorRedirect(request, "Single sign-on is not configured for this cluster");
+  }
+
+  try {
+    const redirectUri = getOidcCallbackUrl(
+      oidc,
+      request.nextUrl.origin,
+      request.nextUrl.basePath,
+    );
+    const tokens = await exchangeAuthorizationCode(oidc, code, codeVerifier, redirectUri);
+    const claims = await verifyIdToken(oidc, tokens.id_token, nonce);
+
+    const identity = mapOidcClaims(oidc, claims);
+    if (!identity) {
+      return loginErrorRedirect(
+        request,
+        "Your account is not mapped to a ClickHouse user",
+      );
+    }
+
+    const user: UserSession = {
+      username: identity.username,
+      // jwt mode forwards the ID token; impersonation uses the lens user
+      password: oidc.mode === "jwt" ? tokens.id_token : "",
+      database: "default",
+      clusterId,
+      sso: {
+        mode: oidc.mode,
+        roles: identity.roles,
+        expiresAt: oidc.mode === "jwt" ? claims.exp * 1000 : undefined,
+      },
+    };
+
+    const config = getUserConfig(clusterId, user);
+    if (!config) {
+      return loginErrorRedirect(request, "Server connection not configured");
+    }
+    user.host = config.host;
+
+    // Fail here rather than on the first query when ClickHouse rejects the
+    // token or the lens user may not impersonate the mapped user
+    try {
+      await createClient(config).version();
+    } catch (error) {
+      console.error("SSO user could not connect to ClickHouse:", error);
+      return loginErrorRedirect(
+        request,
+        `ClickHouse rejected user ${identity.username}: ${
+          isClickHouseError(error)
+            ? error.userMessage || error.message
+            : error instanceof Error
+              ? error.message
+              : "Unknown error"
+        }`,
+      );
+    }
+
+    const session = await getIronSession<SessionData>(cookieStore, sessionOptions);
+
+    // Prevent session fixation: never reuse an existing session
+    if (session.sessionId) {
+      await destroySession(session.sessionId);
+    }
+    session.destroy();
+
+    session.isLoggedIn = true;
+    session.sessionId = await createSession(user);
+    session.user = undefined;
+    await session.save();
+
+    await generateCsrfToken();
+
+    return NextResponse.redirect(
+      new URL(`${request.nextUrl.basePath}/`, request.nextUrl.origin),
+    );
+  } catch (error) {
+    console.error("OIDC callback error:", error);
+    return loginErrorRedirect(
+      request,
+      error instanceof OidcError ? error.message : "Single sign-on failed",
+    );
+  }
+}
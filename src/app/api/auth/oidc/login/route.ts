@@ -0,0 +1,67 @@
+/**
+ * API route starting an OIDC single sign-on login
+ * GET /api/auth/oidc/login?clusterId=<id>
+ *
+ * Redirects the browser to the cluster's identity provider. State, nonce and
+ * the PKCE verifier travel in a short-lived encrypted cookie to the callback.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { getIronSession } from "iron-session";
+import { oidcFlowOptions, type OidcFlowData } from "@/lib/auth/session";
+import { checkRateLimit, getClientIdentifier } from "@/lib/auth/rate-limit";
+import {
+  createAuthorizationRequest,
+  getOidcCallbackUrl,
+  OidcError,
+} from "@/lib/auth/oidc";
+import { getClusterOidcConfig, getDefaultClusterId } from "@/lib/clickhouse";
+
+function loginErrorRedirect(request: NextRequest, message: string) {
+  const url = new URL(`${request.nextUrl.basePath}/login`, request.nextUrl.origin);
+  url.searchParams.set("error", message);
+  return NextResponse.redirect(url);
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimit(getClientIdentifier(request), {
+      maxRequests: 10,
+      windowMs: 60000,
+    });
+    if (!rateLimit.success) {
+      return loginErrorRedirect(request, "Too many login attempts. Please try again later.");
+    }
+
+    const clusterId =
+      request.nextUrl.searchParams.get("clusterId") || getDefaultClusterId() || "default";
+    const oidc = getClusterOidcConfig(clusterId);
+    if (!oidc) {
+      return loginErrorRedirect(request, "Single sign-on is not configured for this cluster");
+    }
+
+    const redirectUri = getOidcCallbackUrl(
+      oidc,
+      request.nextUrl.origin,
+      request.nextUrl.basePath,
+    );
+    const authRequest = await createAuthorizationRequest(oidc, redirectUri);
+
+    const cookieStore = await cookies();
+    const flow = await getIronSession<OidcFlowData>(cookieStore, oidcFlowOptions);
+    flow.state = authRequest.state;
+    flow.nonce = authRequest.nonce;
+    flow.codeVerifier = authRequest.codeVerifier;
+    flow.clusterId = clusterId;
+    await flow.save();
+
+    return NextResponse.redirect(authRequest.url);
+  } catch (error) {
+    console.error("OIDC login error:", error);
+    return loginErrorRedirect(
+      request,
+      error instanceof OidcError ? error.message : "Could not reach the identity provider",
+    );
+  }
+}
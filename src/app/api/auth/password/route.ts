@@ -71,6 +71,16 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (session.user.sso) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Password is managed by your identity provider",
+        },
+        { status: 400 },
+      );
+    }
+
     // 1. Verify Verification: Connect as the user to prove they know the current password
     const clusterId = session.user.clusterId;
     if (!clusterId) {
@@ -140,7 +150,7 @@ export async function POST(request: NextRequest) {
 
     // Update server-side session store only (password stays out of the cookie)
     if (session.sessionId) {
-      updateSessionPassword(session.sessionId, newPassword);
+      await updateSessionPassword(session.sessionId, newPassword);
     }
 
     return NextResponse.json({ success: true });
@@ -24,6 +24,7 @@ interface PermissionsResponse {
     canKillQueries: boolean;
     canViewCluster: boolean;
     canBrowseTables: boolean;
+    canManageTables: boolean;
     canExecuteQueries: boolean;
     canViewSettings: boolean;
     canViewSystemLogs: boolean;
@@ -359,6 +360,10 @@ export async function GET(): Promise<NextResponse<PermissionsResponse>> {
     const hasTableExplorerRole = effectiveRoles.has("clicklens_table_explorer");
     let canBrowseTables = hasTableExplorerRole || hasGlobalAccess;
 
+    // Table Administration: partition and part operations
+    const canManageTables =
+      effectiveRoles.has("clicklens_table_admin") || hasGlobalAccess;
+
     // FALLBACK: If system.grants-based checks failed (e.g., XML-configured user),
     // probe with the user's own credentials to detect actual access
     if (
@@ -391,6 +396,7 @@ export async function GET(): Promise<NextResponse<PermissionsResponse>> {
         canKillQueries,
         canViewCluster,
         canBrowseTables,
+        canManageTables,
         canExecuteQueries,
         canDiscover,
         canViewSettings,
@@ -15,6 +15,8 @@ export interface SessionResponse {
     host?: string;
     database?: string;
     clusterId?: string;
+    /** Signed in through OIDC single sign-on */
+    sso?: boolean;
   };
   csrfToken?: string;
 }
@@ -39,6 +41,7 @@ export async function GET(): Promise<NextResponse<SessionResponse>> {
       host: session.user.host,
       database: session.user.database,
       clusterId: session.user.clusterId,
+      sso: !!session.user.sso,
     },
     csrfToken,
   });
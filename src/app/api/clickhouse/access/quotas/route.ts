@@ -0,0 +1,305 @@
+/**
+ * API route for managing ClickHouse quotas
+ *
+ * GET returns quota definitions together with the live consumption of every
+ * quota key, so the UI can highlight consumers close to their limits.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionClickHouseConfig, checkPermission } from "@/lib/auth";
+import {
+  createClient,
+  isClickHouseError,
+  type SystemQuota,
+  type SystemQuotaLimit,
+  type SystemQuotaUsage,
+} from "@/lib/clickhouse";
+import {
+  QUOTAS_LIST_QUERY,
+  QUOTA_LIMITS_QUERY,
+  QUOTAS_USAGE_QUERY,
+} from "@/lib/clickhouse/queries/access";
+import {
+  buildAlterQuotaStatement,
+  buildCreateQuotaStatement,
+  buildDropQuotaStatement,
+  getQuotaUsageRatio,
+  quotaLimitsToIntervals,
+  validateQuotaDefinition,
+  type QuotaDefinition,
+  type QuotaInterval,
+  type QuotaKeyType,
+  type QuotaResource,
+} from "@/lib/clickhouse/quotas";
+import { quoteIdentifier, escapeString } from "@/lib/clickhouse/utils";
+import { requireCsrf } from "@/lib/auth/csrf";
+import { getClusterName } from "@/lib/clickhouse/cluster";
+
+export type QuotaWithIntervals = SystemQuota & {
+  keyed_by: QuotaKeyType;
+  intervals: QuotaInterval[];
+};
+
+export type QuotaUsageWithRatio = SystemQuotaUsage & {
+  usage_ratio: number | null;
+  worst_resource: QuotaResource | null;
+};
+
+export interface QuotasResponse {
+  success: boolean;
+  data?: {
+    quotas: QuotaWithIntervals[];
+    usage: QuotaUsageWithRatio[];
+  };
+  error?: string;
+}
+
+function errorMessage(error: unknown): string {
+  return isClickHouseError(error)
+    ? error.userMessage || error.message
+    : error instanceof Error
+      ? error.message
+      : "Unknown error";
+}
+
+// GET: List quotas with their interval limits and current usage
+export async function GET(): Promise<NextResponse<QuotasResponse>> {
+  try {
+    // Check authorization
+    const authError = await checkPermission("canManageUsers");
+    if (authError) return authError;
+
+    const config = await getSessionClickHouseConfig();
+
+    if (!config) {
+      return NextResponse.json(
+        { success: false, error: "Not authenticated" },
+        { status: 401 },
+      );
+    }
+
+    const client = createClient(config);
+
+    const [quotasResult, limitsResult, usageResult] = await Promise.all([
+      client.query<SystemQuota>(QUOTAS_LIST_QUERY),
+      client.query<SystemQuotaLimit>(QUOTA_LIMITS_QUERY),
+      client.query<SystemQuotaUsage>(QUOTAS_USAGE_QUERY),
+    ]);
+
+    // Group interval limits by quota
+    const limitsByQuota = new Map<string, SystemQuotaLimit[]>();
+    for (const limit of limitsResult.data) {
+      if (!limitsByQuota.has(limit.quota_name)) {
+        limitsByQuota.set(limit.quota_name, []);
+      }
+      limitsByQuota.get(limit.quota_name)!.push(limit);
+    }
+
+    const quotas = quotasResult.data.map((quota) => ({
+      ...quota,
+      keyed_by: (quota.keys.length > 0
+        ? quota.keys.join(",")
+        : "none") as QuotaKeyType,
+      intervals: quotaLimitsToIntervals(limitsByQuota.get(quota.name) || []),
+    }));
+
+    const usage = usageResult.data.map((row) => {
+      const worst = getQuotaUsageRatio(row);
+      return {
+        ...row,
+        usage_ratio: worst?.ratio ?? null,
+        worst_resource: worst?.resource ?? null,
+      };
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { quotas, usage },
+    });
+  } catch (error) {
+    console.error("Error fetching quotas:", error);
+
+    return NextResponse.json(
+      { success: false, error: errorMessage(error) },
+      { status: 500 },
+    );
+  }
+}
+
+// POST: Create a new quota
+export type CreateQuotaRequest = QuotaDefinition;
+
+export async function POST(
+  request: NextRequest,
+): Promise<NextResponse<{ success: boolean; error?: string }>> {
+  try {
+    // CSRF protection for state-changing operation
+    const csrfError = await requireCsrf(request);
+    if (csrfError) return csrfError;
+
+    // Check authorization
+    const authError = await checkPermission("canManageUsers");
+    if (authError) return authError;
+
+    const config = await getSessionClickHouseConfig();
+
+    if (!config) {
+      return NextResponse.json(
+        { success: false, error: "Not authenticated" },
+        { status: 401 },
+      );
+    }
+
+    const body: CreateQuotaRequest = await request.json();
+
+    const validationError = validateQuotaDefinition(body);
+    if (validationError) {
+      return NextResponse.json(
+        { success: false, error: validationError },
+        { status: 400 },
+      );
+    }
+
+    const client = createClient(config);
+    const clusterName = await getClusterName(client, config.clusterId);
+    const onCluster = clusterName
+      ? ` ON CLUSTER ${quoteIdentifier(clusterName)}`
+      : "";
+
+    await client.command(buildCreateQuotaStatement(body, onCluster));
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error creating quota:", error);
+
+    return NextResponse.json(
+      { success: false, error: errorMessage(error) },
+      { status: 500 },
+    );
+  }
+}
+
+// PUT: Update an existing quota (intervals and assignments are replaced)
+export type UpdateQuotaRequest = QuotaDefinition;
+
+export async function PUT(
+  request: NextRequest,
+): Promise<NextResponse<{ success: boolean; error?: string }>> {
+  try {
+    // CSRF protection for state-changing operation
+    const csrfError = await requireCsrf(request);
+    if (csrfError) return csrfError;
+
+    // Check authorization
+    const authError = await checkPermission("canManageUsers");
+    if (authError) return authError;
+
+    const config = await getSessionClickHouseConfig();
+
+    if (!config) {
+      return NextResponse.json(
+        { success: false, error: "Not authenticated" },
+        { status: 401 },
+      );
+    }
+
+    const body: UpdateQuotaRequest = await request.json();
+
+    const validationError = validateQuotaDefinition(body);
+    if (validationError) {
+      return NextResponse.json(
+        { success: false, error: validationError },
+        { status: 400 },
+      );
+    }
+
+    const client = createClient(config);
+
+    // Intervals missing from the request must be removed explicitly
+    const currentResult = await client.query<{ durations: number[] }>(
+      `SELECT durations FROM system.quotas WHERE name = '${escapeString(body.name)}'`,
+    );
+    if (currentResult.data.length === 0) {
+      return NextResponse.json(
+        { success: false, error: `Quota ${body.name} not found` },
+        { status: 404 },
+      );
+    }
+
+    const clusterName = await getClusterName(client, config.clusterId);
+    const onCluster = clusterName
+      ? ` ON CLUSTER ${quoteIdentifier(clusterName)}`
+      : "";
+
+    await client.command(
+      buildAlterQuotaStatement(
+        body,
+        currentResult.data[0].durations.map(Number),
+        onCluster,
+      ),
+    );
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error updating quota:", error);
+
+    return NextResponse.json(
+      { success: false, error: errorMessage(error) },
+      { status: 500 },
+    );
+  }
+}
+
+// DELETE: Drop a quota
+export interface DeleteQuotaRequest {
+  name: string;
+}
+
+export async function DELETE(
+  request: NextRequest,
+): Promise<NextResponse<{ success: boolean; error?: string }>> {
+  try {
+    // CSRF protection for state-changing operation
+    const csrfError = await requireCsrf(request);
+    if (csrfError) return csrfError;
+
+    // Check authorization
+    const authError = await checkPermission("canManageUsers");
+    if (authError) return authError;
+
+    const config = await getSessionClickHouseConfig();
+
+    if (!config) {
+      return NextResponse.json(
+        { success: false, error: "Not authenticated" },
+        { status: 401 },
+      );
+    }
+
+    const body: DeleteQuotaRequest = await request.json();
+
+    if (!body.name) {
+      return NextResponse.json(
+        { success: false, error: "Quota name is required" },
+        { status: 400 },
+      );
+    }
+
+    const client = createClient(config);
+    const clusterName = await getClusterName(client, config.clusterId);
+    const onCluster = clusterName
+      ? ` ON CLUSTER ${quoteIdentifier(clusterName)}`
+      : "";
+
+    await client.command(buildDropQuotaStatement(body.name, onCluster));
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting quota:", error);
+
+    return NextResponse.json(
+      { success: false, error: errorMessage(error) },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,180 @@
+/**
+ * API route previewing row policies per role
+ * POST /api/clickhouse/access/row-policies/preview
+ *
+ * Counts the rows of a table each role would see under the current
+ * policies, optionally with an unsaved draft policy applied in place of the
+ * stored one. Counting runs as the session user, so the session user's own
+ * row policies still limit what is counted.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionClickHouseConfig, checkPermission } from "@/lib/auth";
+import {
+  createClient,
+  isClickHouseError,
+  type SystemRole,
+} from "@/lib/clickhouse";
+import {
+  ROLES_LIST_QUERY,
+  ROLE_GRANTS_LIST_QUERY,
+  getTableRowPoliciesQuery,
+} from "@/lib/clickhouse/queries/access";
+import {
+  buildEffectiveRowFilter,
+  buildRowPolicyPreviewQuery,
+  expandRoleGrants,
+  validateRowPolicyDefinition,
+  type RowPolicyDefinition,
+  type RowPolicyFilter,
+} from "@/lib/clickhouse/row-policies";
+import { escapeString } from "@/lib/clickhouse/utils";
+import { validateSqlStatement } from "@/lib/sql";
+import { requireCsrf } from "@/lib/auth/csrf";
+
+/** Preview scans the whole table, so keep it bounded */
+const PREVIEW_TIMEOUT_SECONDS = 30;
+
+export interface RowPolicyPreviewRequest {
+  database: string;
+  table: string;
+  /** Unsaved policy to evaluate instead of the stored one with the same name */
+  draft?: RowPolicyDefinition;
+}
+
+export interface RowPolicyPreviewRole {
+  role: string;
+  filter: string;
+  rows: number;
+}
+
+export interface RowPolicyPreviewResponse {
+  success: boolean;
+  data?: {
+    /** Rows visible to the session user */
+    total: number;
+    policyCount: number;
+    roles: RowPolicyPreviewRole[];
+  };
+  error?: string;
+}
+
+export async function POST(
+  request: NextRequest,
+): Promise<NextResponse<RowPolicyPreviewResponse>> {
+  try {
+    const csrfError = await requireCsrf(request);
+    if (csrfError) return csrfError;
+
+    // Check authorization
+    const authError = await checkPermission("canManageUsers");
+    if (authError) return authError;
+
+    const config = await getSessionClickHouseConfig();
+
+    if (!config) {
+      return NextResponse.json(
+        { success: false, error: "Not authenticated" },
+        { status: 401 },
+      );
+    }
+
+    const body: RowPolicyPreviewRequest = await request.json();
+
+    if (!body.database || !body.table) {
+      return NextResponse.json(
+        { success: false, error: "Database and table are required" },
+        { status: 400 },
+      );
+    }
+    if (body.draft) {
+      const validationError = validateRowPolicyDefinition(body.draft);
+      if (validationError) {
+        return NextResponse.json(
+          { success: false, error: validationError },
+          { status: 400 },
+        );
+      }
+    }
+
+    const client = createClient(config);
+
+    const [rolesResult, grantsResult, policiesResult] = await Promise.all([
+      client.query<SystemRole>(ROLES_LIST_QUERY),
+      client.query<{ role_name: string | null; granted_role_name: string }>(
+        ROLE_GRANTS_LIST_QUERY,
+      ),
+      client.query<RowPolicyFilter & { short_name: string }>(
+        getTableRowPoliciesQuery(
+          escapeString(body.database),
+          escapeString(body.table),
+        ),
+      ),
+    ]);
+
+    let policies: RowPolicyFilter[] = policiesResult.data;
+    if (body.draft) {
+      const draft = body.draft;
+      policies = [
+        ...policiesResult.data.filter((p) => p.short_name !== draft.name),
+        {
+          select_filter: draft.condition,
+          is_restrictive: draft.restrictive,
+          apply_to_all: Boolean(draft.applyToAll),
+          apply_to_list: draft.applyToAll ? [] : draft.applyTo,
+          apply_to_except: draft.applyToAll ? draft.applyToExcept ?? [] : [],
+        },
+      ];
+    }
+
+    const roles = rolesResult.data.map((role) => ({
+      role: role.name,
+      filter: buildEffectiveRowFilter(
+        policies,
+        expandRoleGrants(role.name, grantsResult.data),
+      ),
+    }));
+
+    const sql = buildRowPolicyPreviewQuery(
+      body.database,
+      body.table,
+      roles.map((r) => r.filter),
+    );
+    // Policy conditions are free-form; refuse anything a read-only user couldn't run
+    const validation = validateSqlStatement(sql);
+    if (!validation.valid) {
+      return NextResponse.json(
+        { success: false, error: validation.reason },
+        { status: 400 },
+      );
+    }
+
+    const result = await client.query<Record<string, string | number>>(sql, {
+      clickhouse_settings: { max_execution_time: PREVIEW_TIMEOUT_SECONDS },
+    });
+    const counts = result.data[0] ?? {};
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        total: Number(counts.total ?? 0),
+        policyCount: policies.length,
+        roles: roles.map((r, i) => ({ ...r, rows: Number(counts[`f${i}`] ?? 0) })),
+      },
+    });
+  } catch (error) {
+    console.error("Error previewing row policies:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: isClickHouseError(error)
+          ? error.userMessage || error.message
+          : error instanceof Error
+            ? error.message
+            : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,238 @@
+/**
+ * API route for managing ClickHouse row policies
+ *
+ * Row policies are identified by short name plus database and table,
+ * so every mutation takes all three.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionClickHouseConfig, checkPermission } from "@/lib/auth";
+import {
+  createClient,
+  isClickHouseError,
+  type SystemRowPolicy,
+} from "@/lib/clickhouse";
+import { ROW_POLICIES_LIST_QUERY } from "@/lib/clickhouse/queries/access";
+import {
+  buildAlterRowPolicyStatement,
+  buildCreateRowPolicyStatement,
+  buildDropRowPolicyStatement,
+  validateRowPolicyDefinition,
+  type RowPolicyDefinition,
+} from "@/lib/clickhouse/row-policies";
+import { quoteIdentifier } from "@/lib/clickhouse/utils";
+import { requireCsrf } from "@/lib/auth/csrf";
+import { getClusterName } from "@/lib/clickhouse/cluster";
+
+export interface RowPoliciesResponse {
+  success: boolean;
+  data?: SystemRowPolicy[];
+  error?: string;
+}
+
+function errorMessage(error: unknown): string {
+  return isClickHouseError(error)
+    ? error.userMessage || error.message
+    : error instanceof Error
+      ? error.message
+      : "Unknown error";
+}
+
+// GET: List all row policies
+export async function GET(): Promise<NextResponse<RowPoliciesResponse>> {
+  try {
+    // Check authorization
+    const authError = await checkPermission("canManageUsers");
+    if (authError) return authError;
+
+    const config = await getSessionClickHouseConfig();
+
+    if (!config) {
+      return NextResponse.json(
+        { success: false, error: "Not authenticated" },
+        { status: 401 },
+      );
+    }
+
+    const client = createClient(config);
+    const result = await client.query<SystemRowPolicy>(ROW_POLICIES_LIST_QUERY);
+
+    return NextResponse.json({
+      success: true,
+      data: result.data.map((policy) => ({
+        ...policy,
+        is_restrictive: Boolean(policy.is_restrictive),
+        apply_to_all: Boolean(policy.apply_to_all),
+      })),
+    });
+  } catch (error) {
+    console.error("Error fetching row policies:", error);
+
+    return NextResponse.json(
+      { success: false, error: errorMessage(error) },
+      { status: 500 },
+    );
+  }
+}
+
+// POST: Create a new row policy
+export type CreateRowPolicyRequest = RowPolicyDefinition;
+
+export async function POST(
+  request: NextRequest,
+): Promise<NextResponse<{ success: boolean; error?: string }>> {
+  try {
+    // CSRF protection for state-changing operation
+    const csrfError = await requireCsrf(request);
+    if (csrfError) return csrfError;
+
+    // Check authorization
+    const authError = await checkPermission("canManageUsers");
+    if (authError) return authError;
+
+    const config = await getSessionClickHouseConfig();
+
+    if (!config) {
+      return NextResponse.json(
+        { success: false, error: "Not authenticated" },
+        { status: 401 },
+      );
+    }
+
+    const body: CreateRowPolicyRequest = await request.json();
+
+    const validationError = validateRowPolicyDefinition(body);
+    if (validationError) {
+      return NextResponse.json(
+        { success: false, error: validationError },
+        { status: 400 },
+      );
+    }
+
+    const client = createClient(config);
+    const clusterName = await getClusterName(client, config.clusterId);
+    const onCluster = clusterName
+      ? ` ON CLUSTER ${quoteIdentifier(clusterName)}`
+      : "";
+
+    await client.command(buildCreateRowPolicyStatement(body, onCluster));
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error creating row policy:", error);
+
+    return NextResponse.json(
+      { success: false, error: errorMessage(error) },
+      { status: 500 },
+    );
+  }
+}
+
+// PUT: Update condition, kind and assignments of a row policy
+export type UpdateRowPolicyRequest = RowPolicyDefinition;
+
+export async function PUT(
+  request: NextRequest,
+): Promise<NextResponse<{ success: boolean; error?: string }>> {
+  try {
+    // CSRF protection for state-changing operation
+    const csrfError = await requireCsrf(request);
+    if (csrfError) return csrfError;
+
+    // Check authorization
+    const authError = await checkPermission("canManageUsers");
+    if (authError) return authError;
+
+    const config = await getSessionClickHouseConfig();
+
+    if (!config) {
+      return NextResponse.json(
+        { success: false, error: "Not authenticated" },
+        { status: 401 },
+      );
+    }
+
+    const body: UpdateRowPolicyRequest = await request.json();
+
+    const validationError = validateRowPolicyDefinition(body);
+    if (validationError) {
+      return NextResponse.json(
+        { success: false, error: validationError },
+        { status: 400 },
+      );
+    }
+
+    const client = createClient(config);
+    const clusterName = await getClusterName(client, config.clusterId);
+    const onCluster = clusterName
+      ? ` ON CLUSTER ${quoteIdentifier(clusterName)}`
+      : "";
+
+    await client.command(buildAlterRowPolicyStatement(body, onCluster));
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error updating row policy:", error);
+
+    return NextResponse.json(
+      { success: false, error: errorMessage(error) },
+      { status: 500 },
+    );
+  }
+}
+
+// DELETE: Drop a row policy
+export interface DeleteRowPolicyRequest {
+  name: string;
+  database: string;
+  table: string;
+}
+
+export async function DELETE(
+  request: NextRequest,
+): Promise<NextResponse<{ success: boolean; error?: string }>> {
+  try {
+    // CSRF protection for state-changing operation
+    const csrfError = await requireCsrf(request);
+    if (csrfError) return csrfError;
+
+    // Check authorization
+    const authError = await checkPermission("canManageUsers");
+    if (authError) return authError;
+
+    const config = await getSessionClickHouseConfig();
+
+    if (!config) {
+      return NextResponse.json(
+        { success: false, error: "Not authenticated" },
+        { status: 401 },
+      );
+    }
+
+    const body: DeleteRowPolicyRequest = await request.json();
+
+    if (!body.name || !body.database || !body.table) {
+      return NextResponse.json(
+        { success: false, error: "Policy name, database and table are required" },
+        { status: 400 },
+      );
+    }
+
+    const client = createClient(config);
+    const clusterName = await getClusterName(client, config.clusterId);
+    const onCluster = clusterName
+      ? ` ON CLUSTER ${quoteIdentifier(clusterName)}`
+      : "";
+
+    await client.command(buildDropRowPolicyStatement(body, onCluster));
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting row policy:", error);
+
+    return NextResponse.json(
+      { success: false, error: errorMessage(error) },
+      { status: 500 },
+    );
+  }
+}
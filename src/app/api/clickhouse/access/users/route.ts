@@ -28,6 +28,7 @@ export interface UsersResponse {
 import { quoteIdentifier, escapeString } from "@/lib/clickhouse/utils";
 import { requireCsrf } from "@/lib/auth/csrf";
 import { getClusterName } from "@/lib/clickhouse/cluster";
+import { revokeUserSessions } from "@/lib/auth/storage";
 
 // GET: List all users with their assigned roles
 export async function GET(): Promise<NextResponse<UsersResponse>> {
@@ -435,6 +436,9 @@ export async function DELETE(
       : "";
     await client.command(`DROP USER IF EXISTS ${quoteIdentifier(body.name)}${onCluster}`);
 
+    // Sessions of a dropped user would keep failing against ClickHouse
+    await revokeUserSessions(body.name, config.clusterId);
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("Error deleting user:", error);
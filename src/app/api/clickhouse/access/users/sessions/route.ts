@@ -0,0 +1,67 @@
+/**
+ * API route for ClickLens sessions of a ClickHouse user
+ * DELETE /api/clickhouse/access/users/sessions - Revoke all sessions { name }
+ *
+ * Revocation is scoped to the admin's cluster: the same user name on another
+ * cluster is a different ClickHouse user.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionClickHouseConfig, checkPermission } from "@/lib/auth";
+import { requireCsrf } from "@/lib/auth/csrf";
+import { revokeUserSessions } from "@/lib/auth/storage";
+
+export interface RevokeSessionsRequest {
+  name: string;
+}
+
+export interface RevokeSessionsResponse {
+  success: boolean;
+  data?: { revoked: number };
+  error?: string;
+}
+
+export async function DELETE(
+  request: NextRequest,
+): Promise<NextResponse<RevokeSessionsResponse>> {
+  try {
+    // CSRF protection for state-changing operation
+    const csrfError = await requireCsrf(request);
+    if (csrfError) return csrfError;
+
+    const authError = await checkPermission("canManageUsers");
+    if (authError) return authError;
+
+    const config = await getSessionClickHouseConfig();
+
+    if (!config) {
+      return NextResponse.json(
+        { success: false, error: "Not authenticated" },
+        { status: 401 },
+      );
+    }
+
+    const body: RevokeSessionsRequest = await request.json();
+
+    if (!body.name) {
+      return NextResponse.json(
+        { success: false, error: "User name is required" },
+        { status: 400 },
+      );
+    }
+
+    const revoked = await revokeUserSessions(body.name, config.clusterId);
+
+    return NextResponse.json({ success: true, data: { revoked } });
+  } catch (error) {
+    console.error("Error revoking user sessions:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it, mock, beforeEach } from "bun:test";
+import { GET } from "./route";
+
+const mockQuery = mock();
+
+mock.module("@/lib/auth", () => ({
+  requireAuth: async () => ({
+    session: { isLoggedIn: true, user: { username: "testuser" } },
+    config: { host: "localhost", username: "testuser" },
+  }),
+}));
+
+mock.module("@/lib/clickhouse", () => ({
+  createClient: () => ({ query: mockQuery }),
+  isClickHouseError: () => false,
+}));
+
+mock.module("@/lib/clickhouse/cluster", () => ({
+  getClusterName: () => Promise.resolve(null),
+}));
+
+mock.module("@/lib/cache", () => ({
+  getOrSet: async (_cache: unknown, _key: string, fn: () => Promise<unknown>) => fn(),
+  metadataCache: {},
+}));
+
+const url = (params: string) =>
+  new Request(
+    `http://localhost/api/clickhouse/discover/field-stats?database=logs&table=requests&cache=false&${params}`,
+  );
+
+describe("Field stats API Route", () => {
+  beforeEach(() => {
+    mockQuery.mockReset();
+  });
+
+  it("samples tables with a sampling key and compiles KQL filters", async () => {
+    // engine, columns, token indexes, sampling key, summary, top values
+    mockQuery.mockResolvedValueOnce({ data: [{ engine: "MergeTree" }] });
+    mockQuery.mockResolvedValueOnce({
+      data: [
+        { name: "status", type: "UInt16" },
+        { name: "host", type: "String" },
+      ],
+    });
+    mockQuery.mockResolvedValueOnce({ data: [] });
+    mockQuery.mockResolvedValueOnce({ data: [{ sampling_key: "cityHash64(id)" }] });
+    mockQuery.mockResolvedValueOnce({
+      data: [
+        {
+          total: "10",
+          cardinality: "2",
+          null_count: "0",
+          min: 200,
+          max: 500,
+          quantiles: [200, 500, 500],
+          histogram: [[200, 500, 10]],
+        },
+      ],
+    });
+    mockQuery.mockResolvedValueOnce({
+      data: [
+        { value: 200, count: "8" },
+        { value: 500, count: "2" },
+      ],
+    });
+
+    const res = await GET(url("column=status&language=kql&filter=host%3Aapi"));
+    const json = await res.json();
+
+    const summaryQuery = mockQuery.mock.calls[4][0];
+    expect(summaryQuery).toContain("SAMPLE 1000000");
+    expect(summaryQuery).toContain("(`host` = 'api')");
+    expect(json.data.sampled).toBe(true);
+    expect(json.data.topValues[0].percent).toBe(80);
+    expect(json.data.distribution.max).toBe(500);
+  });
+
+  it("rejects unknown columns", async () => {
+    mockQuery.mockResolvedValueOnce({ data: [{ engine: "MergeTree" }] });
+    mockQuery.mockResolvedValueOnce({ data: [{ name: "status", type: "UInt16" }] });
+    mockQuery.mockResolvedValueOnce({ data: [] });
+
+    const res = await GET(url("column=missing"));
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toBe("Unknown column: missing");
+  });
+});
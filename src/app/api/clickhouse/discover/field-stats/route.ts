@@ -0,0 +1,202 @@
+import { NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { createClient, isClickHouseError } from "@/lib/clickhouse";
+import { getClusterName } from "@/lib/clickhouse/cluster";
+import {
+  getKqlColumns,
+  getSamplingKey,
+  getTableEngine,
+} from "@/lib/clickhouse/schema";
+import { quoteIdentifier, escapeSqlString } from "@/lib/clickhouse/utils";
+import { validateFilter } from "@/lib/clickhouse/sql-validator";
+import { compileKql, KqlSyntaxError } from "@/lib/clickhouse/kql";
+import {
+  buildFieldStats,
+  getFieldSummaryQuery,
+  getFieldTopValuesQuery,
+  type FieldSummaryRow,
+  type FieldStats,
+} from "@/lib/clickhouse/field-stats";
+import { getQueryCache } from "@/lib/cache/query-cache";
+
+const TOP_VALUES = 10;
+/** Rows read by SAMPLE on tables with a sampling key */
+const SAMPLE_ROWS = 1_000_000;
+
+/**
+ * GET /api/clickhouse/discover/field-stats
+ *
+ * Returns statistics for a column over the current time range and filter:
+ * top values with percentages, cardinality, null ratio and, for numeric and
+ * DateTime columns, min/max/quantiles and a histogram. Tables with a
+ * sampling key are sampled.
+ *
+ * Query params:
+ *   database, table, column (required)
+ *   timeColumn, minTime, maxTime, filter, language (optional)
+ */
+export async function GET(request: Request) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { config } = auth;
+
+    const { searchParams } = new URL(request.url);
+    const database = searchParams.get("database");
+    const table = searchParams.get("table");
+    const column = searchParams.get("column");
+
+    if (!database || !table || !column) {
+      return NextResponse.json(
+        { success: false, error: "Missing database, table, or column" },
+        { status: 400 },
+      );
+    }
+
+    const timeColumn = searchParams.get("timeColumn");
+    const minTime = searchParams.get("minTime");
+    const maxTime = searchParams.get("maxTime");
+    const filter = searchParams.get("filter")?.trim() || "";
+    const queryLanguage = searchParams.get("language") === "kql" ? "kql" : "sql";
+
+    const client = createClient(config);
+    const clusterName = await getClusterName(client, config.clusterId);
+
+    const quotedDb = quoteIdentifier(database);
+    const quotedTable = quoteIdentifier(table);
+
+    const engine = await getTableEngine(client, database, table);
+    const isDistributed = engine === "Distributed" || engine === "Dictionary";
+
+    const tableSource =
+      clusterName && !isDistributed
+        ? `clusterAllReplicas('${escapeSqlString(clusterName)}', ${quotedDb}.${quotedTable})`
+        : `${quotedDb}.${quotedTable}`;
+
+    const columns = await getKqlColumns(client, database, table, config.clusterId);
+    const columnDef = columns.find((c) => c.name === column);
+    if (!columnDef) {
+      return NextResponse.json(
+        { success: false, error: `Unknown column: ${column}` },
+        { status: 400 },
+      );
+    }
+
+    const whereConds: string[] = [];
+
+    if (timeColumn && minTime) {
+      const quotedTimeCol = quoteIdentifier(timeColumn);
+      const minTimeNum = new Date(minTime).getTime();
+      whereConds.push(
+        `${quotedTimeCol} >= toDateTime64(${minTimeNum / 1000}, 3)`,
+      );
+      if (maxTime) {
+        const maxTimeNum = new Date(maxTime).getTime();
+        whereConds.push(
+          `${quotedTimeCol} <= toDateTime64(${maxTimeNum / 1000}, 3)`,
+        );
+      }
+    }
+
+    if (filter) {
+      if (queryLanguage === "kql") {
+        try {
+          whereConds.push(`(${compileKql(filter, columns)})`);
+        } catch (error) {
+          if (error instanceof KqlSyntaxError) {
+            return NextResponse.json(
+              {
+                success: false,
+                error: `Invalid query: ${error.message}`,
+                position: error.position,
+              },
+              { status: 400 },
+            );
+          }
+          throw error;
+        }
+      } else {
+        const validation = validateFilter(filter);
+        if (!validation.valid) {
+          return NextResponse.json(
+            { success: false, error: `Invalid filter: ${validation.error}` },
+            { status: 400 },
+          );
+        }
+        whereConds.push(`(${filter})`);
+      }
+    }
+
+    const whereClause = whereConds.length
+      ? `WHERE ${whereConds.join(" AND ")}`
+      : "";
+
+    const samplingKey = isDistributed
+      ? ""
+      : await getSamplingKey(client, database, table);
+    const options = {
+      tableSource,
+      column: quoteIdentifier(column),
+      type: columnDef.type,
+      whereClause,
+      sampleRows: samplingKey ? SAMPLE_ROWS : 0,
+    };
+    const summaryQuery = getFieldSummaryQuery(options);
+    const topValuesQuery = getFieldTopValuesQuery(options, TOP_VALUES);
+
+    const queryCache = getQueryCache();
+    const cacheEnabled = searchParams.get("cache") !== "false";
+    const cacheKey = queryCache.generateSqlKey(
+      `${summaryQuery};${topValuesQuery}`,
+      database,
+      config.clusterId,
+    );
+
+    if (cacheEnabled) {
+      const cached = queryCache.getCachedQuery<FieldStats>(cacheKey);
+      if (cached) {
+        return NextResponse.json({
+          success: true,
+          data: cached.data,
+          cacheHit: true,
+          cacheAge: Date.now() - cached.timestamp,
+        });
+      }
+    }
+
+    const [summaryRes, topValuesRes] = await Promise.all([
+      client.query<FieldSummaryRow>(summaryQuery),
+      client.query<{ value: unknown; count: number | string }>(topValuesQuery),
+    ]);
+
+    const stats = buildFieldStats(
+      columnDef.type,
+      summaryRes.data[0],
+      topValuesRes.data,
+      options.sampleRows > 0,
+    );
+
+    if (cacheEnabled) {
+      queryCache.setCachedQuery(cacheKey, stats);
+    }
+
+    return NextResponse.json({ success: true, data: stats });
+  } catch (error) {
+    console.error("Field stats API error:", error);
+
+    if (isClickHouseError(error)) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 },
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Internal Server Error",
+      },
+      { status: 500 },
+    );
+  }
+}
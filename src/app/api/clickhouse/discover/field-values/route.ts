@@ -2,7 +2,8 @@ import { NextResponse } from "next/server";
 import { requireAuth } from "@/lib/auth";
 import { createClient, isClickHouseError } from "@/lib/clickhouse";
 import { getClusterName } from "@/lib/clickhouse/cluster";
-import { getTableEngine } from "@/lib/clickhouse/schema";
+import { getKqlColumns, getTableEngine } from "@/lib/clickhouse/schema";
+import { compileKql, KqlSyntaxError } from "@/lib/clickhouse/kql";
 import { quoteIdentifier, escapeSqlString } from "@/lib/clickhouse/utils";
 import { getFieldValuesQuery } from "@/lib/clickhouse/queries/discover";
 
@@ -18,7 +19,7 @@ const QUERY_TIMEOUT_MS = 15_000;
  *
  * Query params:
  *   database, table, column (required)
- *   timeColumn, minTime, maxTime, filter (optional)
+ *   timeColumn, minTime, maxTime, filter, language (optional)
  */
 export async function GET(request: Request) {
   try {
@@ -42,6 +43,7 @@ export async function GET(request: Request) {
     const minTime = searchParams.get("minTime");
     const maxTime = searchParams.get("maxTime");
     const filter = searchParams.get("filter");
+    const queryLanguage = searchParams.get("language") === "kql" ? "kql" : "sql";
 
     const client = createClient(config);
     const clusterName = await getClusterName(client, config.clusterId);
@@ -74,7 +76,21 @@ export async function GET(request: Request) {
       }
     }
 
-    if (filter?.trim()) {
+    if (filter?.trim() && queryLanguage === "kql") {
+      try {
+        whereConds.push(
+          `(${compileKql(filter, await getKqlColumns(client, database, table, config.clusterId))})`,
+        );
+      } catch (error) {
+        if (error instanceof KqlSyntaxError) {
+          return NextResponse.json(
+            { success: false, error: `Invalid query: ${error.message}` },
+            { status: 400 },
+          );
+        }
+        throw error;
+      }
+    } else if (filter?.trim()) {
       const DANGEROUS_KEYWORDS =
         /\b(DROP|DELETE|ALTER|GRANT|REVOKE|TRUNCATE|INSERT|UPDATE|CREATE|ATTACH|DETACH|RENAME|KILL|SYSTEM)\b/i;
       if (DANGEROUS_KEYWORDS.test(filter)) {
@@ -36,6 +36,11 @@ mock.module("@/lib/clickhouse/cluster", () => ({
   getClusterName: () => Promise.resolve("default_cluster"),
 }));
 
+mock.module("@/lib/cache", () => ({
+  getOrSet: async (_cache: unknown, _key: string, fn: () => Promise<unknown>) => fn(),
+  metadataCache: {},
+}));
+
 // Mock Request/Response
 const createRequest = (url: string) => new Request(url);
 
@@ -155,6 +160,24 @@ describe("Discover API Route", () => {
     expect(trailingMeta.meta.totalHits).toBe(1000000);
   });
 
+  it("should only return rows since the live tail position", async () => {
+    mockQuery.mockResolvedValueOnce({ data: [{ engine: "MergeTree" }] });
+    mockQuery.mockResolvedValueOnce({
+      data: [{ event_time: "2024-01-01 10:00:01.250000", message: "new" }],
+    });
+
+    const req = createRequest(
+      "http://localhost/api/clickhouse/discover?database=system&table=logs&limit=500&timeColumn=event_time&since=2024-01-01%2010%3A00%3A00.123456",
+    );
+    const res = await GET(req);
+    const lines = (await consumeStream(res)).split("\n").filter(Boolean);
+
+    const dataQuery = mockQuery.mock.calls[1][0];
+    expect(dataQuery).toContain("`event_time` >= '2024-01-01 10:00:00.123456'");
+    expect(dataQuery).toContain("ORDER BY `event_time` DESC");
+    expect(JSON.parse(lines[1]).message).toBe("new");
+  });
+
   it("should handle Smart Search parameters", async () => {
     // Mock getTableEngine
     mockQuery.mockResolvedValueOnce({
@@ -205,4 +228,149 @@ describe("Discover API Route", () => {
     expect(dataQueryArg).toContain("hasToken");
     expect(dataQueryArg).toContain("error");
   });
+
+  it("should compile KQL filters against the table columns", async () => {
+    // getTableEngine, columns, token skip indexes, getEstimatedRows, data
+    mockQuery.mockResolvedValueOnce({ data: [{ engine: "MergeTree" }] });
+    mockQuery.mockResolvedValueOnce({
+      data: [
+        { name: "status", type: "UInt16" },
+        { name: "message", type: "String" },
+      ],
+    });
+    mockQuery.mockResolvedValueOnce({ data: [{ expr: "message" }] });
+    mockQuery.mockResolvedValueOnce({ data: [{ cnt: 1000 }] });
+    mockQuery.mockResolvedValueOnce({ data: [] });
+
+    const filter = encodeURIComponent("status >= 400 AND message:timeout");
+    const req = createRequest(
+      `http://localhost/api/clickhouse/discover?database=sys&table=logs&limit=10&timeColumn=event_time&language=kql&filter=${filter}&minTime=2024-01-01T09:00:00Z&maxTime=2024-01-01T09:30:00Z`,
+    );
+    const res = await GET(req);
+    await consumeStream(res);
+
+    const dataQuery = mockQuery.mock.calls[4][0];
+    expect(dataQuery).toContain(
+      "((`status` >= 400 AND (hasToken(`message`, 'timeout') AND `message` = 'timeout')))",
+    );
+  });
+
+  it("should reject invalid KQL with the error position", async () => {
+    mockQuery.mockResolvedValueOnce({ data: [{ engine: "MergeTree" }] });
+    mockQuery.mockResolvedValueOnce({ data: [{ name: "status", type: "UInt16" }] });
+
+    const filter = encodeURIComponent("stats:500");
+    const res = await GET(
+      createRequest(
+        `http://localhost/api/clickhouse/discover?database=sys&table=logs&language=kql&filter=${filter}`,
+      ),
+    );
+    const json = await res.json();
+
+    expect(res.status).toBe(400);
+    expect(json.error).toBe('Invalid query: Unknown field "stats" at column 1');
+    expect(json.position).toBe(0);
+  });
+
+  it("should use the requested histogram interval", async () => {
+    // getTableEngine, time column type, histogram
+    mockQuery.mockResolvedValueOnce({ data: [{ engine: "MergeTree" }] });
+    mockQuery.mockResolvedValueOnce({ data: [{ type: "DateTime" }] });
+    mockQuery.mockResolvedValueOnce({ data: [] });
+
+    await GET(
+      createRequest(
+        "http://localhost/api/clickhouse/discover?database=sys&table=logs&mode=histogram&timeColumn=event_time&interval=1%20hour&cache=false&minTime=2024-01-01T09:00:00Z&maxTime=2024-01-01T09:30:00Z",
+      ),
+    );
+    expect(mockQuery.mock.calls[2][0]).toContain("INTERVAL 1 hour");
+
+    // Unknown intervals fall back to the automatic choice
+    mockQuery.mockResolvedValueOnce({ data: [{ engine: "MergeTree" }] });
+    mockQuery.mockResolvedValueOnce({ data: [{ type: "DateTime" }] });
+    mockQuery.mockResolvedValueOnce({ data: [] });
+
+    await GET(
+      createRequest(
+        "http://localhost/api/clickhouse/discover?database=sys&table=logs&mode=histogram&timeColumn=event_time&interval=1%20second&cache=false&minTime=2024-01-01T09:00:00Z&maxTime=2024-01-01T09:30:00Z",
+      ),
+    );
+    expect(mockQuery.mock.calls[5][0]).toContain("INTERVAL 1 minute");
+  });
+
+  it("should not let a fixed interval exceed the bucket cap", async () => {
+    // getTableEngine, time column type, histogram
+    mockQuery.mockResolvedValueOnce({ data: [{ engine: "MergeTree" }] });
+    mockQuery.mockResolvedValueOnce({ data: [{ type: "DateTime" }] });
+    mockQuery.mockResolvedValueOnce({ data: [] });
+
+    // A year in 1 minute buckets is ~525k buckets; auto picks 1 week
+    await GET(
+      createRequest(
+        "http://localhost/api/clickhouse/discover?database=sys&table=logs&mode=histogram&timeColumn=event_time&interval=1%20minute&cache=false&minTime=2023-01-01T00:00:00Z&maxTime=2023-12-31T00:00:00Z",
+      ),
+    );
+    expect(mockQuery.mock.calls[2][0]).toContain("INTERVAL 1 week");
+
+    // Without a time range the bucket count has no bound
+    mockQuery.mockResolvedValueOnce({ data: [{ engine: "MergeTree" }] });
+    mockQuery.mockResolvedValueOnce({ data: [{ type: "DateTime" }] });
+    mockQuery.mockResolvedValueOnce({ data: [] });
+
+    await GET(
+      createRequest(
+        "http://localhost/api/clickhouse/discover?database=sys&table=logs&mode=histogram&timeColumn=event_time&interval=1%20minute&cache=false",
+      ),
+    );
+    expect(mockQuery.mock.calls[5][0]).toContain("INTERVAL 1 week");
+    expect(mockQuery.mock.calls[5][0]).not.toContain("INTERVAL 1 minute");
+  });
+
+  it("should split the histogram by the top values of a column", async () => {
+    // getTableEngine, time column type, columns, token indexes, split values, histogram
+    mockQuery.mockResolvedValueOnce({ data: [{ engine: "MergeTree" }] });
+    mockQuery.mockResolvedValueOnce({ data: [{ type: "DateTime" }] });
+    mockQuery.mockResolvedValueOnce({
+      data: [
+        { name: "level", type: "LowCardinality(String)" },
+        { name: "duration_ms", type: "UInt64" },
+      ],
+    });
+    mockQuery.mockResolvedValueOnce({ data: [] });
+    mockQuery.mockResolvedValueOnce({ data: [{ value: "Error" }, { value: "Warning" }] });
+    mockQuery.mockResolvedValueOnce({
+      data: [{ time: "2024-01-01 09:00:00", series: "Error", count: 12.5 }],
+    });
+
+    const res = await GET(
+      createRequest(
+        "http://localhost/api/clickhouse/discover?database=sys&table=logs&mode=histogram&timeColumn=event_time&splitBy=level&agg=p95&aggField=duration_ms&cache=false",
+      ),
+    );
+    const json = await res.json();
+
+    expect(mockQuery.mock.calls[4][0]).toContain("LIMIT 5");
+    const histogramQuery = mockQuery.mock.calls[5][0];
+    expect(histogramQuery).toContain(
+      "if(toString(`level`) IN ('Error', 'Warning'), toString(`level`), NULL) as series",
+    );
+    expect(histogramQuery).toContain("quantile(0.95)(`duration_ms`) as count");
+    expect(histogramQuery).toContain("GROUP BY time, series");
+    expect(json.histogram[0].series).toBe("Error");
+  });
+
+  it("should reject aggregations over non-numeric columns", async () => {
+    mockQuery.mockResolvedValueOnce({ data: [{ engine: "MergeTree" }] });
+    mockQuery.mockResolvedValueOnce({ data: [{ type: "DateTime" }] });
+    mockQuery.mockResolvedValueOnce({ data: [{ name: "level", type: "String" }] });
+    mockQuery.mockResolvedValueOnce({ data: [] });
+
+    const res = await GET(
+      createRequest(
+        "http://localhost/api/clickhouse/discover?database=sys&table=logs&mode=histogram&timeColumn=event_time&agg=avg&aggField=level&cache=false",
+      ),
+    );
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toBe("level is not a numeric column");
+  });
 });
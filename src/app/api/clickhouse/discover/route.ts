@@ -2,7 +2,7 @@ import { NextResponse } from "next/server";
 import { requireAuth, checkPermission } from "@/lib/auth";
 import { createClient, isClickHouseError } from "@/lib/clickhouse";
 import { getClusterName } from "@/lib/clickhouse/cluster";
-import { getTableEngine } from "@/lib/clickhouse/schema";
+import { getKqlColumns, getTableEngine } from "@/lib/clickhouse/schema";
 import {
   buildSmartSearchCondition,
   ColumnDefinition,
@@ -12,6 +12,22 @@ import { executeExactCount } from "@/lib/clickhouse/exact-count";
 import { executeApproxCount } from "@/lib/clickhouse/approx-count";
 import { quoteIdentifier, escapeSqlString } from "@/lib/clickhouse/utils";
 import { validateFilter } from "@/lib/clickhouse/sql-validator";
+import { compileKql, KqlSyntaxError } from "@/lib/clickhouse/kql";
+import {
+  getHistogramAggregationExpr,
+  getHistogramSeriesExpr,
+  getSplitValuesQuery,
+} from "@/lib/clickhouse/queries/discover";
+import { getFieldStatsKind } from "@/lib/clickhouse/field-stats";
+import {
+  HISTOGRAM_AGGREGATIONS,
+  HISTOGRAM_INTERVALS,
+  HISTOGRAM_INTERVAL_SECONDS,
+  MAX_HISTOGRAM_BUCKETS,
+  HISTOGRAM_SPLIT_LIMIT,
+  type HistogramAggregation,
+  type HistogramInterval,
+} from "@/lib/types/discover";
 import { getGlobalRateLimiter } from "@/lib/rate-limiter";
 import { getQueryCache } from "@/lib/cache/query-cache";
 
@@ -125,6 +141,7 @@ export async function GET(request: Request) {
     const offset = parseInt(searchParams.get("offset") || "0", 10) || 0;
     const mode = searchParams.get("mode") || "data";
     const filter = searchParams.get("filter") || "";
+    const queryLanguage = searchParams.get("language") === "kql" ? "kql" : "sql";
     const minTime = searchParams.get("minTime");
     const maxTime = searchParams.get("maxTime");
     const columnsParam = searchParams.get("columns");
@@ -137,6 +154,21 @@ export async function GET(request: Request) {
 
     const orderByParam = searchParams.get("orderBy");
     const groupByParam = searchParams.get("groupBy");
+    const intervalParam = searchParams.get("interval") || "auto";
+    const histogramInterval: HistogramInterval = (
+      HISTOGRAM_INTERVALS as readonly string[]
+    ).includes(intervalParam)
+      ? (intervalParam as HistogramInterval)
+      : "auto";
+    const splitBy = searchParams.get("splitBy") || "";
+    const aggParam = searchParams.get("agg") || "count";
+    const aggregation: HistogramAggregation = (
+      HISTOGRAM_AGGREGATIONS as readonly string[]
+    ).includes(aggParam)
+      ? (aggParam as HistogramAggregation)
+      : "count";
+    const aggregationField =
+      aggregation === "count" ? "" : searchParams.get("aggField") || "";
     // exact count toggle: when true, use exact count() with caching
     // default is approximate (no cache) for better performance on large tables
     const useExactCount = searchParams.get("exact") === "true";
@@ -161,6 +193,29 @@ export async function GET(request: Request) {
         ? `clusterAllReplicas('${escapeSqlString(clusterName)}', ${quotedDb}.${quotedTable})`
         : `${quotedDb}.${quotedTable}`;
 
+    // KQL is compiled against the table columns; SQL filters are used as written
+    let filterCondition = filter.trim();
+    if (queryLanguage === "kql" && filterCondition) {
+      try {
+        filterCondition = compileKql(
+          filterCondition,
+          await getKqlColumns(client, database, table, config.clusterId),
+        );
+      } catch (error) {
+        if (error instanceof KqlSyntaxError) {
+          return NextResponse.json(
+            {
+              success: false,
+              error: `Invalid query: ${error.message}`,
+              position: error.position,
+            },
+            { status: 400 },
+          );
+        }
+        throw error;
+      }
+    }
+
     if (mode === "histogram") {
       if (!timeColumn)
         return NextResponse.json({ success: true, histogram: [] });
@@ -175,7 +230,6 @@ export async function GET(request: Request) {
       } catch {}
 
       const isDateOnly = columnType === "Date" || columnType === "Date32";
-      let histogramQuery = "";
 
       const whereConds = [];
       if (minTime) {
@@ -190,21 +244,56 @@ export async function GET(request: Request) {
           `${quotedTimeCol} <= toDateTime64(${maxTimeNum / 1000}, 3)`,
         );
       }
-      if (filter) whereConds.push(`(${filter})`);
+      if (filterCondition) whereConds.push(`(${filterCondition})`);
 
       const whereClause = whereConds.length
         ? `WHERE ${whereConds.join(" AND ")}`
         : "";
 
-      if (isDateOnly) {
-        histogramQuery = `SELECT ${quotedTimeCol} as time, count() as count FROM ${tableSource} ${whereClause} GROUP BY time ORDER BY time`;
-      } else {
-        // Target roughly 30-100 buckets to prevent frontend freeze
+      // Split-by and aggregation columns must exist; aggregations need a number
+      if (splitBy || aggregationField) {
+        const tableColumns = await getKqlColumns(client, database, table, config.clusterId);
+        const findColumn = (name: string) => tableColumns.find((c) => c.name === name);
+        if (splitBy && !findColumn(splitBy)) {
+          return NextResponse.json(
+            { success: false, error: `Unknown column: ${splitBy}` },
+            { status: 400 },
+          );
+        }
+        const aggColumn = aggregationField ? findColumn(aggregationField) : undefined;
+        if (aggregationField && !aggColumn) {
+          return NextResponse.json(
+            { success: false, error: `Unknown column: ${aggregationField}` },
+            { status: 400 },
+          );
+        }
+        if (aggColumn && getFieldStatsKind(aggColumn.type) !== "numeric") {
+          return NextResponse.json(
+            { success: false, error: `${aggregationField} is not a numeric column` },
+            { status: 400 },
+          );
+        }
+      }
+
+      const valueExpr = getHistogramAggregationExpr(aggregation, aggregationField);
+      let timeExpr = quotedTimeCol;
+      if (!isDateOnly) {
+        // Target roughly 30-100 buckets to prevent frontend freeze. A fixed
+        // interval is kept while it stays under the bucket cap; without a
+        // time range its bucket count is unbounded, so "auto" is used
+        const diffMs = minTime
+          ? (maxTime ? new Date(maxTime).getTime() : Date.now()) -
+            new Date(minTime).getTime()
+          : null;
         let interval = "1 week";
-        if (minTime) {
-          const diffMs =
-            (maxTime ? new Date(maxTime).getTime() : Date.now()) -
-            new Date(minTime).getTime();
+        if (
+          histogramInterval !== "auto" &&
+          diffMs !== null &&
+          diffMs / 1000 / HISTOGRAM_INTERVAL_SECONDS[histogramInterval] <=
+            MAX_HISTOGRAM_BUCKETS
+        ) {
+          interval = histogramInterval;
+        } else if (diffMs !== null) {
           const diffHours = diffMs / 36e5;
 
           if (diffHours <= 1)
@@ -223,22 +312,27 @@ export async function GET(request: Request) {
             interval = "1 week"; // ~52 buckets
           else interval = "1 month";
         }
-        histogramQuery = `SELECT toStartOfInterval(${quotedTimeCol}, INTERVAL ${interval}) as time, count() as count FROM ${tableSource} ${whereClause} GROUP BY time ORDER BY time`;
+        timeExpr = `toStartOfInterval(${quotedTimeCol}, INTERVAL ${interval})`;
       }
 
+      let histogramQuery = `SELECT ${timeExpr} as time, ${valueExpr} as count FROM ${tableSource} ${whereClause} GROUP BY time ORDER BY time`;
+      const histogramCacheKey = queryCache.generateDiscoverKey({
+        database,
+        table,
+        filter: filterCondition,
+        timeRange: { minTime: minTime || undefined, maxTime: maxTime || undefined },
+        columns,
+        groupBy: groupByParam || undefined,
+        orderBy: orderByParam || undefined,
+        interval: histogramInterval,
+        splitBy: splitBy || undefined,
+        aggregation: aggregation === "count" ? undefined : `${aggregation}(${aggregationField})`,
+        clusterId: config.clusterId,
+      });
+
       // Check cache for histogram query
       if (cacheEnabled) {
-        const cacheKey = queryCache.generateDiscoverKey({
-          database,
-          table,
-          filter,
-          timeRange: { minTime: minTime || undefined, maxTime: maxTime || undefined },
-          columns,
-          groupBy: groupByParam || undefined,
-          orderBy: orderByParam || undefined,
-          clusterId: config.clusterId,
-        });
-        const cachedResult = queryCache.getCachedQuery(cacheKey);
+        const cachedResult = queryCache.getCachedQuery(histogramCacheKey);
         if (cachedResult) {
           return NextResponse.json({ 
             success: true, 
@@ -249,21 +343,20 @@ export async function GET(request: Request) {
         }
       }
 
+      // Top split-by values become series, the rest is returned as "Other" (null)
+      if (splitBy) {
+        const valuesRes = await client.query<{ value: string }>(
+          getSplitValuesQuery(tableSource, splitBy, whereClause, HISTOGRAM_SPLIT_LIMIT),
+        );
+        const splitValues = valuesRes.data.map((r) => String(r.value));
+        histogramQuery = `SELECT ${timeExpr} as time, ${getHistogramSeriesExpr(splitBy, splitValues)} as series, ${valueExpr} as count FROM ${tableSource} ${whereClause} GROUP BY time, series ORDER BY time`;
+      }
+
       const histRes = await client.query(histogramQuery);
       
       // Store histogram result in cache
       if (cacheEnabled) {
-        const cacheKey = queryCache.generateDiscoverKey({
-          database,
-          table,
-          filter,
-          timeRange: { minTime: minTime || undefined, maxTime: maxTime || undefined },
-          columns,
-          groupBy: groupByParam || undefined,
-          orderBy: orderByParam || undefined,
-          clusterId: config.clusterId,
-        });
-        queryCache.setCachedQuery(cacheKey, histRes.data);
+        queryCache.setCachedQuery(histogramCacheKey, histRes.data);
       }
       
       return NextResponse.json({ success: true, histogram: histRes.data });
@@ -296,19 +389,22 @@ export async function GET(request: Request) {
     // 1. Build Base WHERE (Filter + Smart Search)
     const baseWhere: string[] = [];
 
-    if (filter && filter.trim()) {
-      // Use comprehensive SQL validation to prevent injection attacks
-      const validationResult = validateFilter(filter);
-      if (!validationResult.valid) {
-        return NextResponse.json(
-          {
-            success: false,
-            error: `Invalid filter: ${validationResult.error}`,
-          },
-          { status: 400 },
-        );
+    if (filterCondition) {
+      // Use comprehensive SQL validation to prevent injection attacks.
+      // Compiled KQL only contains quoted identifiers and literals.
+      if (queryLanguage === "sql") {
+        const validationResult = validateFilter(filterCondition);
+        if (!validationResult.valid) {
+          return NextResponse.json(
+            {
+              success: false,
+              error: `Invalid filter: ${validationResult.error}`,
+            },
+            { status: 400 },
+          );
+        }
       }
-      baseWhere.push(`(${filter})`);
+      baseWhere.push(`(${filterCondition})`);
     }
 
     const searchTerm = searchParams.get("search");
@@ -328,6 +424,13 @@ export async function GET(request: Request) {
       }
     }
 
+    // Live tail: only rows at or after the newest time value the client holds.
+    // Compared as a literal so sub-millisecond precision is kept.
+    const since = searchParams.get("since");
+    if (since && timeColumn) {
+      baseWhere.push(`${quoteIdentifier(timeColumn)} >= '${escapeSqlString(since)}'`);
+    }
+
     // 2. Prepare Chunker / Query properties
     let selectClause = columns.length
       ? columns.map((c: string) => quoteIdentifier(c)).join(", ")
@@ -0,0 +1,85 @@
+import { describe, expect, it, mock, beforeEach } from "bun:test";
+import { parseCursor } from "@/lib/types/discover";
+import { GET } from "./route";
+
+const mockQuery = mock();
+
+mock.module("@/lib/auth", () => ({
+  requireAuth: async () => ({
+    session: { isLoggedIn: true, user: { username: "testuser" } },
+    config: { host: "localhost", username: "testuser" },
+  }),
+  checkPermission: async () => null,
+}));
+
+mock.module("@/lib/clickhouse", () => ({
+  createClient: () => ({ query: mockQuery }),
+  isClickHouseError: () => false,
+}));
+
+mock.module("@/lib/clickhouse/cluster", () => ({
+  getClusterName: () => Promise.resolve(null),
+}));
+
+mock.module("@/lib/cache", () => ({
+  getOrSet: async (_cache: unknown, _key: string, fn: () => Promise<unknown>) => fn(),
+  metadataCache: {},
+}));
+
+const url = (params: string) =>
+  new Request(
+    `http://localhost/api/clickhouse/discover/surrounding?database=system&table=text_log&timeColumn=event_time&anchor=2024-05-01%2010%3A00%3A00&${params}`,
+  );
+
+describe("Surrounding rows API Route", () => {
+  beforeEach(() => {
+    mockQuery.mockReset();
+  });
+
+  it("pages before the anchor within the partition and returns a cursor", async () => {
+    // engine, columns, token indexes, rows
+    mockQuery.mockResolvedValueOnce({ data: [{ engine: "MergeTree" }] });
+    mockQuery.mockResolvedValueOnce({
+      data: [
+        { name: "event_time", type: "DateTime" },
+        { name: "hostname", type: "String" },
+        { name: "message", type: "String" },
+      ],
+    });
+    mockQuery.mockResolvedValueOnce({ data: [] });
+    mockQuery.mockResolvedValueOnce({
+      data: [
+        { message: "b", event_time: "2024-05-01 09:59:59" },
+        { message: "a", event_time: "2024-05-01 09:59:58" },
+      ],
+    });
+
+    const partition = encodeURIComponent(JSON.stringify({ hostname: "node-1" }));
+    const res = await GET(
+      url(`direction=before&limit=2&columns=message&partition=${partition}`),
+    );
+    const json = await res.json();
+
+    const query = mockQuery.mock.calls[3][0];
+    expect(query).toContain("SELECT `message`, `event_time` FROM `system`.`text_log`");
+    expect(query).toContain("`event_time` < '2024-05-01 10:00:00'");
+    expect(query).toContain("`hostname` = 'node-1'");
+    expect(json.data.rows).toHaveLength(2);
+    expect(json.data.hasMore).toBe(true);
+    expect(parseCursor(json.data.nextCursor)).toEqual({
+      timestamp: "2024-05-01 09:59:58",
+      id: "1",
+    });
+  });
+
+  it("rejects partition columns that are not in the table", async () => {
+    mockQuery.mockResolvedValueOnce({ data: [{ engine: "MergeTree" }] });
+    mockQuery.mockResolvedValueOnce({ data: [{ name: "event_time", type: "DateTime" }] });
+    mockQuery.mockResolvedValueOnce({ data: [] });
+
+    const partition = encodeURIComponent(JSON.stringify({ missing: "x" }));
+    const res = await GET(url(`direction=after&partition=${partition}`));
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toBe("Unknown column: missing");
+  });
+});
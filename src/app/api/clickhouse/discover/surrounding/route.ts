@@ -0,0 +1,175 @@
+import { NextResponse } from "next/server";
+import { requireAuth, checkPermission } from "@/lib/auth";
+import { createClient, isClickHouseError } from "@/lib/clickhouse";
+import { getClusterName } from "@/lib/clickhouse/cluster";
+import { getKqlColumns, getTableEngine } from "@/lib/clickhouse/schema";
+import { quoteIdentifier, escapeSqlString } from "@/lib/clickhouse/utils";
+import {
+  getNextSurroundingCursor,
+  getSurroundingQuery,
+  type SurroundingPartitionValue,
+} from "@/lib/clickhouse/surrounding";
+import type { DiscoverRow } from "@/lib/types/discover";
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 500;
+
+function isPartitionValue(value: unknown): value is SurroundingPartitionValue {
+  return (
+    value === null ||
+    typeof value === "string" ||
+    typeof value === "number" ||
+    typeof value === "boolean"
+  );
+}
+
+/**
+ * GET /api/clickhouse/discover/surrounding
+ *
+ * Returns one page of rows immediately before or after an anchor row in
+ * time, optionally restricted to rows sharing the anchor's values for some
+ * columns. Pass the returned nextCursor to page further out.
+ *
+ * Query params:
+ *   database, table, timeColumn, anchor, direction ("before" | "after") (required)
+ *   columns, partition (JSON object of column -> value), limit, cursor (optional)
+ */
+export async function GET(request: Request) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { config } = auth;
+
+    const permissionError = await checkPermission("canDiscover");
+    if (permissionError) return permissionError;
+
+    const { searchParams } = new URL(request.url);
+    const database = searchParams.get("database");
+    const table = searchParams.get("table");
+    const timeColumn = searchParams.get("timeColumn");
+    const anchor = searchParams.get("anchor");
+    const direction = searchParams.get("direction");
+
+    if (!database || !table || !timeColumn || !anchor) {
+      return NextResponse.json(
+        { success: false, error: "Missing database, table, timeColumn, or anchor" },
+        { status: 400 },
+      );
+    }
+    if (direction !== "before" && direction !== "after") {
+      return NextResponse.json(
+        { success: false, error: "direction must be 'before' or 'after'" },
+        { status: 400 },
+      );
+    }
+
+    const parsedLimit = parseInt(searchParams.get("limit") || "", 10);
+    const limit = isNaN(parsedLimit)
+      ? DEFAULT_LIMIT
+      : Math.min(Math.max(parsedLimit, 1), MAX_LIMIT);
+    const cursor = searchParams.get("cursor") || undefined;
+
+    let partition: unknown = {};
+    try {
+      partition = JSON.parse(searchParams.get("partition") || "{}");
+    } catch {
+      partition = null;
+    }
+    if (!partition || typeof partition !== "object" || Array.isArray(partition)) {
+      return NextResponse.json(
+        { success: false, error: "partition must be a JSON object" },
+        { status: 400 },
+      );
+    }
+
+    const client = createClient(config);
+    const clusterName = await getClusterName(client, config.clusterId);
+
+    const quotedDb = quoteIdentifier(database);
+    const quotedTable = quoteIdentifier(table);
+
+    const engine = await getTableEngine(client, database, table);
+    const isDistributed = engine === "Distributed" || engine === "Dictionary";
+
+    const tableSource =
+      clusterName && !isDistributed
+        ? `clusterAllReplicas('${escapeSqlString(clusterName)}', ${quotedDb}.${quotedTable})`
+        : `${quotedDb}.${quotedTable}`;
+
+    const tableColumns = new Set(
+      (await getKqlColumns(client, database, table, config.clusterId)).map((c) => c.name),
+    );
+    const partitionValues: Record<string, SurroundingPartitionValue> = {};
+    for (const [column, value] of Object.entries(partition)) {
+      if (!tableColumns.has(column)) {
+        return NextResponse.json(
+          { success: false, error: `Unknown column: ${column}` },
+          { status: 400 },
+        );
+      }
+      if (!isPartitionValue(value)) {
+        return NextResponse.json(
+          { success: false, error: `Unsupported value for ${column}` },
+          { status: 400 },
+        );
+      }
+      partitionValues[column] = value;
+    }
+
+    const columnsParam = searchParams.get("columns");
+    const columns = columnsParam
+      ? columnsParam
+          .split(",")
+          .map((c) => c.trim())
+          .filter(Boolean)
+      : [];
+    // The time column is needed to build the next cursor
+    if (columns.length > 0 && !columns.includes(timeColumn)) {
+      columns.push(timeColumn);
+    }
+    const selectClause = columns.length
+      ? columns.map((c) => quoteIdentifier(c)).join(", ")
+      : "*";
+
+    const query = getSurroundingQuery({
+      tableSource,
+      selectClause,
+      timeColumn,
+      anchor,
+      direction,
+      partition: partitionValues,
+      limit,
+      cursor,
+    });
+
+    const result = await client.query<DiscoverRow>(query);
+    const rows = result.data;
+    const nextCursor = getNextSurroundingCursor(rows, timeColumn, limit, cursor);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        rows,
+        nextCursor,
+        hasMore: nextCursor !== null,
+      },
+    });
+  } catch (error) {
+    console.error("Surrounding rows API error:", error);
+
+    if (isClickHouseError(error)) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 },
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Internal Server Error",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it, mock, beforeEach } from "bun:test";
+import { GET } from "./route";
+
+const mockQuery = mock();
+
+mock.module("@/lib/auth", () => ({
+  getSessionClickHouseConfig: async () => ({ host: "localhost", username: "testuser" }),
+  requireAuth: async () => ({
+    session: { isLoggedIn: true, user: { username: "testuser" } },
+    config: { host: "localhost", username: "testuser" },
+  }),
+  checkPermission: async () => null,
+}));
+
+mock.module("@/lib/clickhouse", () => ({
+  createClient: () => ({ query: mockQuery }),
+  isClickHouseError: (e: unknown) => typeof e === "object" && e !== null && "code" in e,
+}));
+
+mock.module("@/lib/clickhouse/cluster", () => ({
+  getClusterName: () => Promise.resolve("prod"),
+}));
+
+const crash = (event_time: string, hostname: string) => ({
+  event_time,
+  event_timestamp: "1714557600",
+  hostname,
+  signal: "11",
+  thread_id: "42",
+  query_id: "",
+  version: "24.3.1.1",
+  trace_full: ["3. DB::Foo::bar() @ 0x1 in /usr/bin/clickhouse"],
+  trace: ["0x1"],
+});
+
+describe("Crash signatures API Route", () => {
+  beforeEach(() => {
+    mockQuery.mockReset();
+  });
+
+  it("groups crashes from all replicas into signatures", async () => {
+    mockQuery.mockResolvedValueOnce({
+      data: [crash("2024-05-02 10:00:00", "node-2"), crash("2024-05-01 10:00:00", "node-1")],
+    });
+
+    const res = await GET(
+      new Request("http://localhost/api/clickhouse/logging/crashes?minTime=2024-05-01T00:00:00Z"),
+    );
+    const json = await res.json();
+
+    const query = mockQuery.mock.calls[0][0];
+    expect(query).toContain("FROM clusterAllReplicas('prod', system.crash_log)");
+    expect(query).toContain("event_time >= toDateTime64(1714521600, 3)");
+    expect(json.data.totalCrashes).toBe(2);
+    expect(json.data.signatures).toHaveLength(1);
+    expect(json.data.signatures[0]).toMatchObject({
+      signal: 11,
+      frames: ["DB::Foo::bar()"],
+      count: 2,
+      hosts: ["node-2", "node-1"],
+    });
+  });
+
+  it("returns no signatures when crash_log does not exist", async () => {
+    mockQuery.mockRejectedValueOnce({ code: 60, message: "Table system.crash_log does not exist" });
+
+    const res = await GET(new Request("http://localhost/api/clickhouse/logging/crashes"));
+    const json = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(json.data.signatures).toEqual([]);
+  });
+});
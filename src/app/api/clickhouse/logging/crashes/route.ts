@@ -0,0 +1,118 @@
+import { NextResponse } from "next/server";
+import { requireAuth, checkPermission } from "@/lib/auth";
+import { createClient, isClickHouseError } from "@/lib/clickhouse";
+import { getClusterName } from "@/lib/clickhouse/cluster";
+import { escapeSqlString } from "@/lib/clickhouse/utils";
+import {
+  groupCrashSignatures,
+  type CrashEntry,
+} from "@/lib/clickhouse/crash-signatures";
+
+/** Crashes read per request; crash_log is small, this only bounds bad days */
+const CRASH_LIMIT = 2000;
+
+/**
+ * GET /api/clickhouse/logging/crashes
+ *
+ * Returns crashes from system.crash_log on all replicas grouped into
+ * signatures (signal plus top stack frames), most frequent first.
+ *
+ * Query params:
+ *   minTime, maxTime (optional, ISO strings)
+ */
+export async function GET(request: Request) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { config } = auth;
+
+    const permissionError = await checkPermission("canViewCrashLogs");
+    if (permissionError) return permissionError;
+
+    const { searchParams } = new URL(request.url);
+    const minTime = searchParams.get("minTime");
+    const maxTime = searchParams.get("maxTime");
+
+    const client = createClient(config);
+    const clusterName = await getClusterName(client, config.clusterId);
+
+    const tableSource = clusterName
+      ? `clusterAllReplicas('${escapeSqlString(clusterName)}', system.crash_log)`
+      : "system.crash_log";
+
+    const whereConditions: string[] = [];
+    if (minTime) {
+      whereConditions.push(
+        `event_time >= toDateTime64(${new Date(minTime).getTime() / 1000}, 3)`,
+      );
+    }
+    if (maxTime) {
+      whereConditions.push(
+        `event_time <= toDateTime64(${new Date(maxTime).getTime() / 1000}, 3)`,
+      );
+    }
+
+    const query = `
+      SELECT
+        toString(event_time) as event_time,
+        toUnixTimestamp(event_time) as event_timestamp,
+        hostName() as hostname,
+        signal,
+        thread_id,
+        query_id,
+        version,
+        trace_full,
+        arrayMap(a -> concat('0x', lower(hex(a))), trace) as trace
+      FROM ${tableSource}
+      ${whereConditions.length > 0 ? `WHERE ${whereConditions.join(" AND ")}` : ""}
+      ORDER BY event_time DESC
+      LIMIT ${CRASH_LIMIT}
+    `;
+
+    let crashes: CrashEntry[];
+    try {
+      crashes = (await client.query<CrashEntry>(query)).data;
+    } catch (error) {
+      // crash_log only exists once a server has crashed
+      if (isClickHouseError(error) && String(error.code) === "60") {
+        crashes = [];
+      } else {
+        throw error;
+      }
+    }
+
+    const signatures = groupCrashSignatures(
+      crashes.map((c) => ({
+        ...c,
+        signal: Number(c.signal),
+        event_timestamp: Number(c.event_timestamp),
+      })),
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        signatures,
+        totalCrashes: crashes.length,
+        truncated: crashes.length === CRASH_LIMIT,
+      },
+    });
+  } catch (error) {
+    console.error("Crash signatures API error:", error);
+
+    if (isClickHouseError(error)) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 },
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Internal Server Error",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,165 @@
+import { describe, expect, it, mock, beforeEach } from "bun:test";
+import { GET } from "./route";
+
+const mockQuery = mock();
+const mockCheckPermission = mock(async (): Promise<Response | null> => null);
+
+mock.module("@/lib/auth", () => ({
+  getSessionClickHouseConfig: async () => ({ host: "localhost", username: "testuser" }),
+  requireAuth: async () => ({
+    session: { isLoggedIn: true, user: { username: "testuser" } },
+    config: { host: "localhost", username: "testuser" },
+  }),
+  checkPermission: mockCheckPermission,
+}));
+
+mock.module("@/lib/clickhouse", () => ({
+  createClient: () => ({ query: mockQuery }),
+  isClickHouseError: () => false,
+}));
+
+mock.module("@/lib/clickhouse/cluster", () => ({
+  getClusterName: () => Promise.resolve("prod"),
+}));
+
+const request = (params: string) =>
+  new Request(`http://localhost/api/clickhouse/logging?${params}`);
+
+async function readLines(res: Response) {
+  return (await res.text()).split("\n").filter(Boolean).map((l) => JSON.parse(l));
+}
+
+describe("Logging API Route", () => {
+  beforeEach(() => {
+    mockQuery.mockReset();
+    mockCheckPermission.mockClear();
+  });
+
+  it("reads every replica's lines for a query in time order", async () => {
+    mockQuery.mockResolvedValueOnce({
+      data: [
+        { timestamp: "2024-05-01 10:00:00.000001", hostname: "node-1", message: "a" },
+        { timestamp: "2024-05-01 10:00:00.000002", hostname: "node-2", message: "b" },
+      ],
+    });
+
+    const res = await GET(
+      request("queryId=abc-'1'&order=asc&minTime=2024-05-01T09:00:00Z&limit=10000"),
+    );
+    const lines = await readLines(res);
+
+    const query = mockQuery.mock.calls[0][0];
+    expect(query).toContain("clusterAllReplicas('prod', `system`.`text_log`)");
+    expect(query).toContain("hostName() as hostname");
+    expect(query).toContain("query_id = 'abc-''1'''");
+    expect(query).toContain("ORDER BY event_time_microseconds ASC");
+    expect(query).not.toContain("toDateTime64");
+    expect(lines.slice(1).map((l) => l.hostname)).toEqual(["node-1", "node-2"]);
+  });
+
+  it("filters by node and thread", async () => {
+    mockQuery.mockResolvedValueOnce({ data: [] });
+
+    await readLines(await GET(request("host=node-2&threadId=4242")));
+
+    const query = mockQuery.mock.calls[0][0];
+    expect(query).toContain("hostName() = 'node-2'");
+    expect(query).toContain("thread_id = 4242");
+  });
+
+  it("bounds an absolute time range by maxTime", async () => {
+    mockQuery.mockResolvedValue({ data: [{ total: 0 }] });
+
+    await readLines(
+      await GET(
+        request("host=node-1&minTime=2024-05-01T09:59:00Z&maxTime=2024-05-01T10:01:00Z"),
+      ),
+    );
+
+    const queries = mockQuery.mock.calls.map((c) => c[0] as string).join("\n");
+    expect(queries).toContain(String(new Date("2024-05-01T10:01:00Z").getTime() / 1000));
+  });
+
+  it("rejects a non-numeric thread id", async () => {
+    const res = await GET(request("threadId=1%20OR%201"));
+    expect(res.status).toBe(400);
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+
+  it("aggregates session logins in analytics mode", async () => {
+    mockQuery.mockImplementation(async (query: string) => {
+      if (query.includes("recent_window")) {
+        return { data: [{ windowStart: 1714557600, user: "admin", address: "::ffff:10.0.0.9", failures: "42" }] };
+      }
+      return { data: [] };
+    });
+
+    const res = await GET(
+      request("source=session_log&mode=analytics&minTime=2024-05-01T10:00:00Z&burstThreshold=20"),
+    );
+    const json = await res.json();
+
+    expect(mockCheckPermission).toHaveBeenCalledWith("canViewSessionLogs");
+    expect(mockQuery).toHaveBeenCalledTimes(5);
+    expect(mockQuery.mock.calls[0][0]).toContain("clusterAllReplicas('prod', `system`.`session_log`)");
+    expect(json.data.bursts).toEqual([
+      { windowStart: 1714557600, user: "admin", address: "::ffff:10.0.0.9", failures: 42 },
+    ]);
+  });
+
+  it("requires the session logs permission for analytics", async () => {
+    mockCheckPermission.mockImplementationOnce(async () =>
+      Response.json({ success: false, error: "Forbidden" }, { status: 403 }),
+    );
+
+    const res = await GET(request("source=session_log&mode=analytics"));
+
+    expect(res.status).toBe(403);
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+
+  it("groups text_log lines into patterns", async () => {
+    mockQuery.mockResolvedValueOnce({
+      data: [
+        {
+          pattern: "Removed {} parts",
+          count: "3",
+          levels: [["Debug"], ["3"]],
+          buckets: [[0], ["3"]],
+          samples: ["Removed 2 parts"],
+          lastSeen: "2024-05-01 10:00:00",
+        },
+      ],
+    });
+
+    const res = await GET(
+      request("mode=patterns&level=Debug&minTime=2024-05-01T09:00:00Z&maxTime=2024-05-01T10:00:00Z"),
+    );
+    const json = await res.json();
+
+    expect(mockCheckPermission).toHaveBeenCalledWith("canViewServerLogs");
+    expect(mockQuery.mock.calls[0][0]).toContain("GROUP BY pattern");
+    expect(mockQuery.mock.calls[0][0]).toContain("level = 'Debug'");
+    expect(json.data.patterns[0]).toMatchObject({ pattern: "Removed {} parts", count: 3 });
+    expect(json.data.patterns[0].sparkline).toHaveLength(31);
+  });
+
+  it("rejects a time range that ends before it starts", async () => {
+    const range = "minTime=2024-05-01T10:00:00Z&maxTime=2024-05-01T09:00:00Z";
+
+    const patterns = await GET(request(`mode=patterns&${range}`));
+    const analytics = await GET(request(`source=session_log&mode=analytics&${range}`));
+
+    expect(patterns.status).toBe(400);
+    expect(analytics.status).toBe(400);
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+
+  it("filters lines to one pattern", async () => {
+    mockQuery.mockResolvedValueOnce({ data: [] });
+
+    await readLines(await GET(request("pattern=Removed%20%7B%7D%20parts")));
+
+    expect(mockQuery.mock.calls[0][0]).toContain("'<num>')) = 'Removed {} parts'");
+  });
+});
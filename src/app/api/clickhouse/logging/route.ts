@@ -1,14 +1,99 @@
 // ... imports
-import { getSessionClickHouseConfig } from "@/lib/auth";
+import { getSessionClickHouseConfig, checkPermission } from "@/lib/auth";
 import {
   createClient,
   isClickHouseError,
+  type ClickHouseClient,
   type ClickHouseError,
 } from "@/lib/clickhouse";
 import { getClusterName } from "@/lib/clickhouse/cluster";
-import { ApiErrors } from "@/lib/api";
+import { ApiErrors, apiSuccess } from "@/lib/api";
 import { fetchChunks } from "@/lib/clickhouse/stream";
 import { escapeSqlString } from "@/lib/clickhouse/utils";
+import {
+  ADDRESS_BASELINE_DAYS,
+  DEFAULT_BURST_THRESHOLD,
+  DEFAULT_BURST_WINDOW_SECONDS,
+  buildSessionBurstsQuery,
+  buildSessionFailuresQuery,
+  buildSessionNewAddressesQuery,
+  buildSessionTimelineQuery,
+  buildSessionUsersQuery,
+  getSessionBucketSeconds,
+  type SessionAnalytics,
+  type SessionAnalyticsQueryOptions,
+} from "@/lib/clickhouse/session-analytics";
+import {
+  LOG_PATTERN_EXPRESSION,
+  buildLogPatternsQuery,
+  getLogPatternBucketSeconds,
+  toLogPattern,
+} from "@/lib/clickhouse/log-patterns";
+
+type Row = Record<string, unknown>;
+
+function parsePositiveInt(value: string | null, fallback: number): number | null {
+  if (value === null || value === "") return fallback;
+  if (!/^\d+$/.test(value) || Number(value) === 0) return null;
+  return Number(value);
+}
+
+/**
+ * Session log analytics: server-side aggregations of logins over the time
+ * range instead of individual rows
+ */
+async function getSessionAnalytics(
+  client: ClickHouseClient,
+  options: SessionAnalyticsQueryOptions,
+): Promise<SessionAnalytics> {
+  const bucketSeconds = getSessionBucketSeconds(options.maxTime - options.minTime);
+  const [timeline, failures, bursts, users, newAddresses] = await Promise.all([
+    client.query<Row>(buildSessionTimelineQuery(options, bucketSeconds)),
+    client.query<Row>(buildSessionFailuresQuery(options)),
+    client.query<Row>(buildSessionBurstsQuery(options)),
+    client.query<Row>(buildSessionUsersQuery(options)),
+    client.query<Row>(buildSessionNewAddressesQuery(options)),
+  ]);
+
+  return {
+    bucketSeconds,
+    baselineDays: ADDRESS_BASELINE_DAYS,
+    timeline: timeline.data.map((r) => ({
+      time: Number(r.time),
+      successes: Number(r.successes),
+      failures: Number(r.failures),
+    })),
+    failures: failures.data.map((r) => ({
+      user: String(r.user),
+      address: String(r.address),
+      interfaceName: String(r.interfaceName),
+      failures: Number(r.failures),
+      firstSeen: String(r.firstSeen),
+      lastSeen: String(r.lastSeen),
+      reasons: (r.reasons as string[]) ?? [],
+    })),
+    bursts: bursts.data.map((r) => ({
+      windowStart: Number(r.windowStart),
+      user: String(r.user),
+      address: String(r.address),
+      failures: Number(r.failures),
+    })),
+    users: users.data.map((r) => ({
+      user: String(r.user),
+      successes: Number(r.successes),
+      failures: Number(r.failures),
+      authTypes: (r.authTypes as string[]) ?? [],
+      addresses: Number(r.addresses),
+      lastLogin: r.lastLogin == null ? null : String(r.lastLogin),
+    })),
+    newAddresses: newAddresses.data.map((r) => ({
+      user: String(r.user),
+      address: String(r.address),
+      firstSeen: String(r.firstSeen),
+      logins: Number(r.logins),
+    })),
+  };
+}
 
 export async function GET(request: Request) {
   let source = "text_log";
@@ -28,7 +113,14 @@ export async function GET(request: Request) {
     const search = searchParams.get("search");
     const level = searchParams.get("level");
     const component = searchParams.get("component");
+    const queryId = searchParams.get("queryId");
+    const threadId = searchParams.get("threadId");
+    const host = searchParams.get("host");
+    const pattern = searchParams.get("pattern"); // Template from the patterns view
+    // "asc" reads the first rows in time order, e.g. all lines of one query
+    const ascending = searchParams.get("order") === "asc";
     const minTimeParam = searchParams.get("minTime"); // For Time Range or Live Mode (if no cursor)
+    const maxTimeParam = searchParams.get("maxTime"); // End of an absolute time range
     const cursor = searchParams.get("cursor"); // For history (older than cursor)
     source = searchParams.get("source") || "text_log"; // "text_log" or "crash_log"
 
@@ -62,6 +154,48 @@ export async function GET(request: Request) {
     // safeTimeCol for wrapper
     // const safeTimeCol = timeColumn;
 
+    // Analytics mode aggregates session_log server-side and returns JSON
+    if (searchParams.get("mode") === "analytics") {
+      if (source !== "session_log") {
+        return ApiErrors.badRequest("Analytics are only available for session_log");
+      }
+      const permissionError = await checkPermission("canViewSessionLogs");
+      if (permissionError) return permissionError;
+
+      const burstThreshold = parsePositiveInt(
+        searchParams.get("burstThreshold"),
+        DEFAULT_BURST_THRESHOLD,
+      );
+      const burstWindowSeconds = parsePositiveInt(
+        searchParams.get("burstWindow"),
+        DEFAULT_BURST_WINDOW_SECONDS,
+      );
+      if (burstThreshold === null || burstWindowSeconds === null) {
+        return ApiErrors.badRequest("burstThreshold and burstWindow must be positive integers");
+      }
+
+      const maxTimeMs = maxTimeParam ? new Date(maxTimeParam).getTime() : Date.now();
+      const minTimeMs = minTimeParam
+        ? new Date(minTimeParam).getTime()
+        : maxTimeMs - 24 * 3600 * 1000;
+      if (isNaN(minTimeMs) || isNaN(maxTimeMs)) {
+        return ApiErrors.badRequest("Invalid minTime or maxTime");
+      }
+      if (minTimeMs >= maxTimeMs) {
+        return ApiErrors.badRequest("minTime must be before maxTime");
+      }
+
+      const analytics = await getSessionAnalytics(client, {
+        tableSource,
+        minTime: minTimeMs / 1000,
+        maxTime: maxTimeMs / 1000,
+        user: searchParams.get("user") || undefined,
+        burstThreshold,
+        burstWindowSeconds,
+      });
+      return apiSuccess(analytics);
+    }
+
     // Build SELECT and WHERE
     // We construct the "Projection" (columns) and "Selection" (rows)
 
@@ -81,6 +215,8 @@ export async function GET(request: Request) {
           concat(exception, '\nStack trace:\n', stack_trace) as message,
           concat('Thread ID: ', toString(thread_id), ', Protocol: ', toString(protocol_version)) as details,
           event_time,
+          hostName() as hostname,
+          thread_id,
           thread_name,
           query_id,
           source_file,
@@ -94,6 +230,7 @@ export async function GET(request: Request) {
           concat('Auth: ', toString(auth_type), ', Remote: ', toString(client_address), ', Client: ', client_name) as message,
           concat('Interface: ', toString(interface), ', Session ID: ', session_id, if(failure_reason != '', concat(', Reason: ', failure_reason), '')) as details,
           event_time,
+          hostName() as hostname,
           client_hostname as thread_name,
           session_id as query_id,
           '' as source_file,
@@ -108,6 +245,8 @@ export async function GET(request: Request) {
           message,
           concat('Source: ', source_file, ':', toString(source_line), ', Query ID: ', query_id) as details,
           event_time,
+          hostName() as hostname,
+          thread_id,
           thread_name,
           query_id,
           source_file,
@@ -134,6 +273,27 @@ export async function GET(request: Request) {
       }
     }
 
+    // Evaluated on each replica, so it matches the node a line came from
+    if (host) {
+      whereConditions.push(`hostName() = '${escapeSqlString(host)}'`);
+    }
+
+    if (source !== "session_log") {
+      if (queryId) {
+        whereConditions.push(`query_id = '${escapeSqlString(queryId)}'`);
+      }
+      if (threadId) {
+        if (!/^\d+$/.test(threadId)) {
+          return ApiErrors.badRequest("threadId must be a number");
+        }
+        whereConditions.push(`thread_id = ${threadId}`);
+      }
+    }
+
+    if (pattern && source === "text_log") {
+      whereConditions.push(`${LOG_PATTERN_EXPRESSION} = '${escapeSqlString(pattern)}'`);
+    }
+
     if (level && level !== "All") {
       const safeLevel = escapeSqlString(level);
       if (source === "text_log") {
@@ -143,6 +303,44 @@ export async function GET(request: Request) {
       }
     }
 
+    // Patterns mode groups the filtered text_log lines by template
+    if (searchParams.get("mode") === "patterns") {
+      if (source !== "text_log") {
+        return ApiErrors.badRequest("Patterns are only available for text_log");
+      }
+      const permissionError = await checkPermission("canViewServerLogs");
+      if (permissionError) return permissionError;
+
+      const maxTimeMs = maxTimeParam ? new Date(maxTimeParam).getTime() : Date.now();
+      const minTimeMs = minTimeParam
+        ? new Date(minTimeParam).getTime()
+        : maxTimeMs - 3600 * 1000;
+      if (isNaN(minTimeMs) || isNaN(maxTimeMs)) {
+        return ApiErrors.badRequest("Invalid minTime or maxTime");
+      }
+      if (minTimeMs >= maxTimeMs) {
+        return ApiErrors.badRequest("minTime must be before maxTime");
+      }
+
+      const rangeSeconds = (maxTimeMs - minTimeMs) / 1000;
+      const bucketSeconds = getLogPatternBucketSeconds(rangeSeconds);
+      const bucketCount = Math.floor(rangeSeconds / bucketSeconds) + 1;
+      const result = await client.query<Record<string, unknown>>(
+        buildLogPatternsQuery({
+          tableSource,
+          whereConditions,
+          minTime: minTimeMs / 1000,
+          maxTime: maxTimeMs / 1000,
+          bucketSeconds,
+        }),
+      );
+
+      return apiSuccess({
+        bucketSeconds,
+        patterns: result.data.map((row) => toLogPattern(row, bucketCount)),
+      });
+    }
+
     // minTime logic for Live Mode or Time Range
     // If we are scrolling BACK (cursor provided), minTime is strictly a lower bound (stop condition).
     // If we are refreshing LIVE (no cursor, maybe minTime is "last seen"), we want > minTime.
@@ -172,10 +370,11 @@ export async function GET(request: Request) {
     // OR we pass `minTime` slightly adjusted?
     // It's safer to just set `minTime`.
 
-    const minTime = minTimeParam || undefined;
-    const maxTime = undefined;
+    // Ascending reads skip time windowing, which only pages newest first
+    const minTime = ascending ? undefined : minTimeParam || undefined;
+    const maxTime = ascending ? undefined : maxTimeParam || undefined;
 
-    const orderByClause = `ORDER BY ${timeColumn} DESC`;
+    const orderByClause = `ORDER BY ${timeColumn} ${ascending ? "ASC" : "DESC"}`;
 
     // Start Stream
     const iterator = fetchChunks({
@@ -186,7 +385,7 @@ export async function GET(request: Request) {
       minTime,
       maxTime,
       limit,
-      cursor: cursor || undefined,
+      cursor: ascending ? undefined : cursor || undefined,
       selectClause,
       orderByClause,
       safeTimeCol: timeColumn,
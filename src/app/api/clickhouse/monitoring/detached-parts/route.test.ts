@@ -0,0 +1,192 @@
+import { describe, expect, it, mock, beforeEach } from "bun:test";
+import { NextResponse, type NextRequest } from "next/server";
+import { GET, POST } from "./route";
+
+const mockCheckPermission = mock();
+const mockQuery = mock();
+const mockCommand = mock();
+const mockGetClusterName = mock();
+const clientHosts: string[] = [];
+const mockCreateClient = mock((config: { host: string }) => {
+  clientHosts.push(config.host);
+  return { query: mockQuery, command: mockCommand };
+});
+
+mock.module("@/lib/auth", () => ({
+  getSessionClickHouseConfig: async () => ({
+    host: "localhost",
+    username: "testuser",
+    clusterId: "primary",
+  }),
+  checkPermission: mockCheckPermission,
+}));
+
+mock.module("@/lib/auth/csrf", () => ({
+  requireCsrf: async () => null,
+}));
+
+mock.module("@/lib/clickhouse", () => ({
+  createClient: mockCreateClient,
+  isClickHouseError: (e: unknown) => typeof e === "object" && e !== null && "code" in e,
+}));
+
+mock.module("@/lib/clickhouse/cluster", () => ({
+  getClusterName: mockGetClusterName,
+}));
+
+mock.module("@/lib/cache", () => ({
+  getOrSet: async (_cache: unknown, _key: string, fn: () => Promise<unknown>) => fn(),
+  invalidateCache: async () => {},
+  tablesCache: {
+    get: mock(() => Promise.resolve(null)),
+    set: mock(() => Promise.resolve()),
+  },
+}));
+
+const createPost = (body: unknown) =>
+  new Request("http://localhost/api/clickhouse/monitoring/detached-parts", {
+    method: "POST",
+    body: JSON.stringify(body),
+  }) as unknown as NextRequest;
+
+const part = (name: string, reason: string, bytes: number) => ({
+  hostname: "node-1",
+  database: "db",
+  table: "events",
+  partition_id: "202405",
+  name,
+  reason,
+  disk: "default",
+  path: `/var/lib/clickhouse/data/db/events/detached/${name}/`,
+  bytes_on_disk: String(bytes),
+  modification_time: "2024-05-01 10:00:00",
+  age_seconds: "3600",
+});
+
+describe("Detached parts API Route", () => {
+  beforeEach(() => {
+    mockCheckPermission.mockReset();
+    mockCheckPermission.mockResolvedValue(null);
+    mockQuery.mockReset();
+    mockCommand.mockReset();
+    mockCommand.mockResolvedValue(undefined);
+    mockGetClusterName.mockReset();
+    mockGetClusterName.mockResolvedValue("prod");
+    mockCreateClient.mockClear();
+  });
+
+  it("lists detached parts with per-reason totals", async () => {
+    mockQuery.mockResolvedValueOnce({
+      data: [
+        part("broken_202405_1_1_0", "broken", 100),
+        part("broken_202405_2_2_0", "broken", 50),
+        part("202405_3_3_0", "", 10),
+      ],
+    });
+
+    const res = await GET(
+      new Request(
+        "http://localhost/api/clickhouse/monitoring/detached-parts?database=db&table=events",
+      ) as unknown as NextRequest,
+    );
+    const json = await res.json();
+
+    expect(json.success).toBe(true);
+    expect(json.data.parts[0].bytes_on_disk).toBe(100);
+    expect(json.data.reasons).toEqual([
+      { reason: "broken", parts: 2, bytes: 150 },
+      { reason: "", parts: 1, bytes: 10 },
+    ]);
+    expect(mockQuery.mock.calls[0][0]).toContain("database = 'db' AND table = 'events'");
+  });
+
+  it("runs drops on the replica holding the part, without ON CLUSTER", async () => {
+    // Another replica has a part of the same name; it is left alone
+    mockQuery.mockResolvedValueOnce({ data: [{ hostname: "node-1" }, { hostname: "node-2" }] });
+
+    const res = await POST(
+      createPost({
+        database: "db",
+        table: "events",
+        name: "broken_all_1_1_0",
+        hostname: "node-1",
+        action: "drop",
+      }),
+    );
+    const json = await res.json();
+
+    expect(json.data).toEqual({
+      sql: "ALTER TABLE `db`.`events` DROP DETACHED PART 'broken_all_1_1_0'",
+      executed: true,
+      hosts: ["node-1"],
+    });
+    expect(mockQuery.mock.calls[0][0]).toContain("name = 'broken_all_1_1_0'");
+    expect(clientHosts.at(-1)).toBe("node-1");
+    expect(mockCommand).toHaveBeenCalledWith(
+      "ALTER TABLE `db`.`events` DROP DETACHED PART 'broken_all_1_1_0'",
+      { clickhouse_settings: { allow_drop_detached: 1 } },
+    );
+  });
+
+  it("refuses when the selected replica no longer has the part", async () => {
+    mockQuery.mockResolvedValueOnce({ data: [{ hostname: "node-2" }] });
+
+    const res = await POST(
+      createPost({
+        database: "db",
+        table: "events",
+        name: "ignored_all_1_1_0",
+        hostname: "node-1",
+        action: "drop",
+        dryRun: true,
+      }),
+    );
+    const json = await res.json();
+
+    expect(res.status).toBe(409);
+    expect(json.error).toBe("Detached part ignored_all_1_1_0 no longer exists on node-1");
+    expect(mockQuery).toHaveBeenCalledTimes(1);
+    expect(mockCommand).not.toHaveBeenCalled();
+  });
+
+  it("runs the statement directly without a cluster", async () => {
+    mockGetClusterName.mockResolvedValue(undefined);
+
+    const res = await POST(
+      createPost({
+        database: "db",
+        table: "events",
+        name: "all_1_1_0",
+        hostname: "node-1",
+        action: "attach",
+      }),
+    );
+
+    expect((await res.json()).data.executed).toBe(true);
+    expect(mockQuery).not.toHaveBeenCalled();
+    expect(mockCommand).toHaveBeenCalledWith("ALTER TABLE `db`.`events` ATTACH PART 'all_1_1_0'", {
+      clickhouse_settings: {},
+    });
+  });
+
+  it("requires the canManageTables permission", async () => {
+    mockCheckPermission.mockResolvedValue(
+      NextResponse.json({ success: false, error: "Forbidden" }, { status: 403 }),
+    );
+
+    const res = await POST(
+      createPost({
+        database: "db",
+        table: "events",
+        name: "all_1_1_0",
+        hostname: "node-1",
+        action: "drop",
+      }),
+    );
+
+    expect(res.status).toBe(403);
+    expect(mockCheckPermission).toHaveBeenCalledWith("canManageTables");
+    expect(mockQuery).not.toHaveBeenCalled();
+    expect(mockCommand).not.toHaveBeenCalled();
+  });
+});
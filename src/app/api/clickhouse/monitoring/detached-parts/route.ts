@@ -0,0 +1,227 @@
+/**
+ * API route for detached parts (cluster-aware)
+ * GET /api/clickhouse/monitoring/detached-parts?database=xxx&table=yyy
+ * POST /api/clickhouse/monitoring/detached-parts
+ *
+ * GET lists system.detached_parts on all replicas, optionally for one table.
+ * POST reattaches or drops one detached part with the user's own
+ * credentials, or with dryRun only returns the statement it would run. On a
+ * cluster the statement is sent to the replica holding the part.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { checkPermission, getSessionClickHouseConfig } from "@/lib/auth";
+import { requireCsrf } from "@/lib/auth/csrf";
+import { createClient, isClickHouseError } from "@/lib/clickhouse";
+import { getClusterName } from "@/lib/clickhouse/cluster";
+import type { MonitoringApiResponse } from "@/lib/clickhouse/monitoring";
+import {
+  buildDetachedPartHostsQuery,
+  buildDetachedPartStatement,
+  buildDetachedPartsQuery,
+  getDetachedPartActionSettings,
+  getDetachedPartHostsError,
+  validateDetachedPartActionRequest,
+  type DetachedPart,
+  type DetachedPartActionRequest,
+} from "@/lib/clickhouse/detached-parts";
+import { invalidateCache, tablesCache } from "@/lib/cache";
+
+export interface DetachedPartsReason {
+  reason: string;
+  parts: number;
+  bytes: number;
+}
+
+export interface DetachedPartsData {
+  parts: DetachedPart[];
+  reasons: DetachedPartsReason[];
+  clusterName?: string;
+}
+
+export type DetachedPartActionBody = DetachedPartActionRequest & {
+  /** Only build the statement, for the confirmation dialog */
+  dryRun?: boolean;
+};
+
+interface DetachedPartActionResponse {
+  success: boolean;
+  data?: { sql: string; executed: boolean; hosts?: string[] };
+  error?: string;
+}
+
+export async function GET(
+  request: NextRequest,
+): Promise<NextResponse<MonitoringApiResponse<DetachedPartsData>>> {
+  try {
+    const config = await getSessionClickHouseConfig();
+
+    if (!config) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 401,
+            message: "Not authenticated",
+            type: "AUTH_REQUIRED",
+            userMessage: "Please log in to ClickHouse first",
+          },
+        },
+        { status: 401 },
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const database = searchParams.get("database") || undefined;
+    const table = searchParams.get("table") || undefined;
+
+    const client = createClient(config);
+    const clusterName = await getClusterName(client, config.clusterId);
+
+    const result = await client.query<DetachedPart>(
+      buildDetachedPartsQuery({ clusterName, database, table }),
+    );
+
+    const parts = result.data.map((p) => ({
+      ...p,
+      bytes_on_disk: Number(p.bytes_on_disk),
+      age_seconds: Number(p.age_seconds),
+    }));
+
+    const reasonMap = new Map<string, DetachedPartsReason>();
+    for (const part of parts) {
+      const entry = reasonMap.get(part.reason) ?? { reason: part.reason, parts: 0, bytes: 0 };
+      entry.parts += 1;
+      entry.bytes += part.bytes_on_disk;
+      reasonMap.set(part.reason, entry);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        parts,
+        reasons: [...reasonMap.values()].sort((a, b) => b.parts - a.parts),
+        clusterName,
+      },
+    });
+  } catch (error) {
+    console.error("Detached parts error:", error);
+
+    if (isClickHouseError(error)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            type: error.type,
+            userMessage: error.userMessage || error.message,
+          },
+        },
+        { status: 500 },
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 500,
+          message: error instanceof Error ? error.message : "Unknown error",
+          type: "INTERNAL_ERROR",
+          userMessage: "An unexpected error occurred",
+        },
+      },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+): Promise<NextResponse<DetachedPartActionResponse>> {
+  try {
+    // CSRF protection for state-changing operation
+    const csrfError = await requireCsrf(request);
+    if (csrfError) return csrfError;
+
+    // Check authorization
+    const authError = await checkPermission("canManageTables");
+    if (authError) return authError;
+
+    const config = await getSessionClickHouseConfig();
+    if (!config) {
+      return NextResponse.json(
+        { success: false, error: "Not authenticated" },
+        { status: 401 },
+      );
+    }
+
+    const body: DetachedPartActionBody = await request.json();
+
+    const validationError = validateDetachedPartActionRequest(body);
+    if (validationError) {
+      return NextResponse.json(
+        { success: false, error: validationError },
+        { status: 400 },
+      );
+    }
+
+    const client = createClient(config);
+    const clusterName = await getClusterName(client, config.clusterId);
+
+    const sql = buildDetachedPartStatement(body);
+
+    if (clusterName) {
+      const hostsResult = await client.query<{ hostname: string }>(
+        buildDetachedPartHostsQuery(body, clusterName),
+      );
+      const hostsError = getDetachedPartHostsError(
+        body,
+        hostsResult.data.map((row) => row.hostname),
+      );
+      if (hostsError) {
+        return NextResponse.json(
+          { success: false, error: hostsError },
+          { status: 409 },
+        );
+      }
+    }
+
+    if (body.dryRun) {
+      return NextResponse.json({ success: true, data: { sql, executed: false } });
+    }
+
+    // On a cluster, connect to the replica holding the part, by the name it
+    // reports and on the configured port and credentials
+    const target = clusterName
+      ? createClient({ ...config, host: body.hostname })
+      : client;
+    await target.command(sql, {
+      clickhouse_settings: getDetachedPartActionSettings(body.action),
+    });
+    const hosts = clusterName ? [body.hostname] : undefined;
+
+    const cacheScope = config.clusterId ?? "legacy";
+    await invalidateCache(
+      tablesCache,
+      `tables:parts:${cacheScope}:${body.database}:${body.table}`,
+    );
+
+    return NextResponse.json({ success: true, data: { sql, executed: true, hosts } });
+  } catch (error) {
+    console.error("Detached part action error:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: isClickHouseError(error)
+          ? error.userMessage || error.message
+          : error instanceof Error
+            ? error.message
+            : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -6,6 +6,11 @@
 import { NextResponse } from "next/server";
 import { getSessionClickHouseConfig } from "@/lib/auth";
 import { createClient, isClickHouseError } from "@/lib/clickhouse";
+import { getClusterName } from "@/lib/clickhouse/cluster";
+import {
+  buildDetachedPartsSummaryQuery,
+  type DetachedPartsSummary,
+} from "@/lib/clickhouse/detached-parts";
 import {
   HEALTH_CHECKS_QUERY,
   type HealthCheck,
@@ -34,6 +39,8 @@ const THRESHOLDS: Record<
   zookeeper_exceptions: { warning: 0, critical: 10, operator: "gt" },
   distributed_files_to_insert: { warning: 100, critical: 1000, operator: "gt" },
   replicated_data_loss: { warning: 0, critical: 1, operator: "gt" },
+  detached_parts: { warning: 100, critical: 1000, operator: "gt" },
+  broken_detached_parts: { warning: 0, critical: 10, operator: "gt" },
 };
 
 function getHealthStatus(id: string, value: number): HealthStatus {
@@ -109,6 +116,18 @@ function getHealthMessage(
       critical: `${value} data loss event(s) - investigate immediately`,
       unknown: "Unable to check data loss events",
     },
+    detached_parts: {
+      ok: `${value} detached part(s)`,
+      warning: `${value} detached parts are taking up disk space`,
+      critical: `${value} detached parts - clean up or reattach them`,
+      unknown: "Unable to check detached parts",
+    },
+    broken_detached_parts: {
+      ok: "No broken detached parts",
+      warning: `${value} broken or unexpected detached part(s)`,
+      critical: `${value} broken or unexpected detached parts - check replica health`,
+      unknown: "Unable to check detached parts",
+    },
   };
 
   return messages[id]?.[status] || `Value: ${value}`;
@@ -136,10 +155,38 @@ export async function GET(): Promise<
     }
 
     const client = createClient(config);
-    const result = await client.query<HealthCheckRow>(HEALTH_CHECKS_QUERY);
+    const clusterName = await getClusterName(client, config.clusterId);
+    const [result, detached] = await Promise.all([
+      client.query<HealthCheckRow>(HEALTH_CHECKS_QUERY),
+      // Needs SELECT on system.detached_parts; the checks are skipped without it
+      client
+        .query<DetachedPartsSummary>(buildDetachedPartsSummaryQuery(clusterName))
+        .then((r) => r.data[0])
+        .catch(() => undefined),
+    ]);
+
+    const rows = [...result.data];
+    if (detached) {
+      rows.push(
+        {
+          id: "detached_parts",
+          name: "Detached Parts",
+          description: "Detached parts on all replicas",
+          value: Number(detached.parts),
+          message: "",
+        },
+        {
+          id: "broken_detached_parts",
+          name: "Broken Detached Parts",
+          description: "Parts detached as broken or unexpected",
+          value: Number(detached.broken),
+          message: "",
+        },
+      );
+    }
 
     const now = new Date().toISOString();
-    const checks: HealthCheck[] = result.data.map((row) => {
+    const checks: HealthCheck[] = rows.map((row) => {
       const status = getHealthStatus(row.id, row.value);
       return {
         id: row.id,
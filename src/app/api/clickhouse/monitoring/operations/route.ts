@@ -30,18 +30,19 @@ interface MutationSummaryRow {
   totalPartsToDo: number;
 }
 
-// Mutation row from query (partsToDo is a string array, needs conversion)
+// Mutation row from query (numbers may arrive as strings)
 interface MutationRow {
   database: string;
   table: string;
   mutationId: string;
   command: string;
   createTime: string;
-  partsToDo: string[];
-  isDone: boolean;
+  partsToDo: number | string;
+  isDone: boolean | number;
   latestFailedPart: string;
   latestFailTime: string;
   latestFailReason: string;
+  replicas: number | string;
 }
 
 export async function GET(): Promise<
@@ -101,11 +102,12 @@ export async function GET(): Promise<
       command: row.command,
       createTime: row.createTime,
       blockNumbers: {},
-      partsToDo: Array.isArray(row.partsToDo) ? row.partsToDo.length : 0,
-      isDone: row.isDone,
+      partsToDo: Number(row.partsToDo),
+      isDone: Boolean(Number(row.isDone)),
       latestFailedPart: row.latestFailedPart,
       latestFailTime: row.latestFailTime,
       latestFailReason: row.latestFailReason,
+      replicas: Number(row.replicas),
     }));
 
     return NextResponse.json({
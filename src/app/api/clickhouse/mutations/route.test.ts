@@ -0,0 +1,136 @@
+import { describe, expect, it, mock, beforeEach } from "bun:test";
+import { NextResponse, type NextRequest } from "next/server";
+import { GET, POST } from "./route";
+
+const mockCheckPermission = mock();
+const mockQuery = mock();
+const mockCommand = mock();
+const mockGetClusterName = mock();
+
+mock.module("@/lib/auth", () => ({
+  getSessionClickHouseConfig: async () => ({
+    host: "localhost",
+    username: "testuser",
+    clusterId: "primary",
+  }),
+  checkPermission: mockCheckPermission,
+}));
+
+mock.module("@/lib/auth/csrf", () => ({
+  requireCsrf: async () => null,
+}));
+
+mock.module("@/lib/clickhouse", () => ({
+  createClient: () => ({ query: mockQuery, command: mockCommand }),
+  isClickHouseError: (e: unknown) => typeof e === "object" && e !== null && "code" in e,
+}));
+
+mock.module("@/lib/clickhouse/cluster", () => ({
+  getClusterName: mockGetClusterName,
+}));
+
+mock.module("@/lib/cache", () => ({
+  getOrSet: async (_cache: unknown, _key: string, fn: () => Promise<unknown>) => fn(),
+  invalidateCache: async () => {},
+  tablesCache: {
+    get: mock(() => Promise.resolve(null)),
+    set: mock(() => Promise.resolve()),
+  },
+}));
+
+const createPost = (body: unknown) =>
+  new Request("http://localhost/api/clickhouse/mutations", {
+    method: "POST",
+    body: JSON.stringify(body),
+  }) as unknown as NextRequest;
+
+const createGet = (query: string) =>
+  new Request(`http://localhost/api/clickhouse/mutations?${query}`) as unknown as NextRequest;
+
+const hostRow = (node: string, partsToDo: number, failTime: string, failReason: string) => ({
+  node,
+  command: "DELETE WHERE user_id = 42",
+  create_time: "2024-05-01 10:00:00",
+  create_timestamp: "1714557600",
+  server_time: "1714558200",
+  parts_to_do: String(partsToDo),
+  is_done: 0,
+  latest_failed_part: failReason ? "202405_1_1_0" : "",
+  latest_fail_time: failTime,
+  latest_fail_reason: failReason,
+  block_partitions: [],
+  block_numbers: [],
+});
+
+describe("Mutations API Route", () => {
+  beforeEach(() => {
+    mockCheckPermission.mockReset();
+    mockCheckPermission.mockResolvedValue(null);
+    mockQuery.mockReset();
+    mockCommand.mockReset();
+    mockCommand.mockResolvedValue(undefined);
+    mockGetClusterName.mockReset();
+    mockGetClusterName.mockResolvedValue("prod");
+  });
+
+  it("combines the replicas' status and picks the latest failure", async () => {
+    mockQuery.mockResolvedValueOnce({
+      data: [
+        hostRow("node-1", 3, "2024-05-01 10:05:00", "Memory limit exceeded"),
+        hostRow("node-2", 2, "2024-05-01 10:08:00", "Cannot parse input"),
+      ],
+    });
+
+    const res = await GET(createGet("database=db&table=events&mutationId=0000000001"));
+    const json = await res.json();
+
+    expect(json.success).toBe(true);
+    expect(json.data.partsToDo).toBe(5);
+    expect(json.data.isDone).toBe(false);
+    expect(json.data.latestFailReason).toBe("Cannot parse input");
+    expect(json.data.hosts).toHaveLength(2);
+    // No block numbers, so part_log is not queried
+    expect(mockQuery).toHaveBeenCalledTimes(1);
+  });
+
+  it("returns 404 for an unknown mutation", async () => {
+    mockQuery.mockResolvedValueOnce({ data: [] });
+
+    const res = await GET(createGet("database=db&table=events&mutationId=missing"));
+
+    expect(res.status).toBe(404);
+  });
+
+  it("kills the mutation on the cluster", async () => {
+    const res = await POST(
+      createPost({ database: "db", table: "events", mutationId: "0000000001" }),
+    );
+    const json = await res.json();
+
+    expect(json.success).toBe(true);
+    expect(mockCommand).toHaveBeenCalledWith(
+      "KILL MUTATION ON CLUSTER `prod` WHERE database = 'db' AND table = 'events' AND mutation_id = '0000000001'",
+    );
+  });
+
+  it("rejects requests without a mutation id", async () => {
+    const res = await POST(createPost({ database: "db", table: "events" }));
+
+    expect(res.status).toBe(400);
+    expect(mockCommand).not.toHaveBeenCalled();
+  });
+
+  it("requires the canManageTables permission", async () => {
+    mockCheckPermission.mockResolvedValue(
+      NextResponse.json({ success: false, error: "Forbidden" }, { status: 403 }),
+    );
+
+    const res = await POST(
+      createPost({ database: "db", table: "events", mutationId: "0000000001" }),
+    );
+
+    expect(res.status).toBe(403);
+    expect(mockCheckPermission).toHaveBeenCalledWith("canManageTables");
+    expect(mockCommand).not.toHaveBeenCalled();
+  });
+});
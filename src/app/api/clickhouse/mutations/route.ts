@@ -0,0 +1,280 @@
+/**
+ * API route for mutation control
+ * GET /api/clickhouse/mutations?database=xxx&table=yyy&mutationId=zzz
+ * POST /api/clickhouse/mutations
+ *
+ * GET returns one mutation's status on every replica, its latest failure and
+ * its progress over time. POST kills it. Uses session credentials.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { checkPermission, getSessionClickHouseConfig } from "@/lib/auth";
+import { checkRateLimit, getClientIdentifier } from "@/lib/auth/rate-limit";
+import { requireCsrf } from "@/lib/auth/csrf";
+import { createClient, isClickHouseError } from "@/lib/clickhouse";
+import { getClusterName } from "@/lib/clickhouse/cluster";
+import { quoteIdentifier } from "@/lib/clickhouse/utils";
+import type { MonitoringApiResponse } from "@/lib/clickhouse/monitoring";
+import {
+  buildKillMutationStatement,
+  buildMutationDetailQuery,
+  buildMutationProgressQuery,
+  computeMutationProgress,
+  getMutationBucketSeconds,
+  validateKillMutationRequest,
+  type KillMutationRequest,
+  type MutationDetail,
+  type MutationDetailRow,
+  type MutationProgress,
+} from "@/lib/clickhouse/mutations";
+import { invalidateCache, tablesCache } from "@/lib/cache";
+
+interface KillMutationResponse {
+  success: boolean;
+  data?: { sql: string };
+  error?: string;
+}
+
+// Shares the budget of the query kill endpoint
+const KILL_RATE_LIMIT = process.env.RATE_LIMIT_KILL ? parseInt(process.env.RATE_LIMIT_KILL) : 20;
+const KILL_RATE_WINDOW_MS = 60000;
+
+export async function GET(
+  request: NextRequest,
+): Promise<NextResponse<MonitoringApiResponse<MutationDetail>>> {
+  try {
+    const config = await getSessionClickHouseConfig();
+
+    if (!config) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 401,
+            message: "Not authenticated",
+            type: "AUTH_REQUIRED",
+            userMessage: "Please log in to ClickHouse first",
+          },
+        },
+        { status: 401 },
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const req: Partial<KillMutationRequest> = {
+      database: searchParams.get("database") || undefined,
+      table: searchParams.get("table") || undefined,
+      mutationId: searchParams.get("mutationId") || undefined,
+    };
+
+    const validationError = validateKillMutationRequest(req);
+    if (validationError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 400,
+            message: validationError,
+            type: "BAD_REQUEST",
+            userMessage: validationError,
+          },
+        },
+        { status: 400 },
+      );
+    }
+    const mutation = req as KillMutationRequest;
+
+    const client = createClient(config);
+    const clusterName = await getClusterName(client, config.clusterId);
+
+    const result = await client.query<MutationDetailRow>(
+      buildMutationDetailQuery(mutation, clusterName),
+    );
+    const rows = result.data;
+
+    if (rows.length === 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 404,
+            message: "Mutation not found",
+            type: "NOT_FOUND",
+            userMessage: "The mutation no longer exists",
+          },
+        },
+        { status: 404 },
+      );
+    }
+
+    const hosts = rows.map((row) => ({
+      node: row.node,
+      parts_to_do: Number(row.parts_to_do),
+      is_done: Number(row.is_done),
+      latest_failed_part: row.latest_failed_part,
+      latest_fail_time: row.latest_fail_time,
+      latest_fail_reason: row.latest_fail_reason,
+    }));
+    const partsToDo = hosts.reduce((sum, h) => sum + h.parts_to_do, 0);
+
+    // Most recent failure on any replica
+    const failed = hosts
+      .filter((h) => h.latest_fail_reason)
+      .sort((a, b) => b.latest_fail_time.localeCompare(a.latest_fail_time))[0];
+
+    const first = rows[0];
+    const createTime = Number(first.create_timestamp);
+    const now = Number(first.server_time);
+
+    let progress: MutationProgress | undefined;
+    if (first.block_numbers.length > 0) {
+      const bucketSeconds = getMutationBucketSeconds(now - createTime);
+      try {
+        const buckets = await client.query<{ bucket: number; parts: number }>(
+          buildMutationProgressQuery({
+            database: mutation.database,
+            table: mutation.table,
+            clusterName,
+            createTime,
+            bucketSeconds,
+            blockPartitions: first.block_partitions,
+            blockNumbers: first.block_numbers,
+          }),
+        );
+        progress = computeMutationProgress({
+          remaining: partsToDo,
+          buckets: buckets.data,
+          createTime,
+          now,
+          bucketSeconds,
+        });
+      } catch (error) {
+        // part_log is optional; the rest of the detail is still useful
+        console.warn("Mutation progress unavailable:", error);
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        database: mutation.database,
+        table: mutation.table,
+        mutationId: mutation.mutationId,
+        command: first.command,
+        createTime: first.create_time,
+        partsToDo,
+        isDone: hosts.every((h) => h.is_done === 1),
+        latestFailedPart: failed?.latest_failed_part ?? "",
+        latestFailTime: failed?.latest_fail_time ?? "",
+        latestFailReason: failed?.latest_fail_reason ?? "",
+        hosts,
+        progress,
+      },
+    });
+  } catch (error) {
+    console.error("Mutation detail error:", error);
+
+    if (isClickHouseError(error)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            type: error.type,
+            userMessage: error.userMessage || error.message,
+          },
+        },
+        { status: 500 },
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 500,
+          message: error instanceof Error ? error.message : "Unknown error",
+          type: "INTERNAL_ERROR",
+          userMessage: "An unexpected error occurred",
+        },
+      },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+): Promise<NextResponse<KillMutationResponse>> {
+  try {
+    const clientId = getClientIdentifier(request);
+    const rateLimit = await checkRateLimit(`kill:${clientId}`, {
+      maxRequests: KILL_RATE_LIMIT,
+      windowMs: KILL_RATE_WINDOW_MS,
+    });
+    if (!rateLimit.success) {
+      return NextResponse.json(
+        { success: false, error: "Too many kill requests. Please slow down." },
+        { status: 429, headers: { "Retry-After": String(Math.ceil(rateLimit.resetIn / 1000)) } },
+      );
+    }
+
+    // CSRF protection for state-changing operation
+    const csrfError = await requireCsrf(request);
+    if (csrfError) return csrfError;
+
+    // ClickHouse checks the ALTER grant matching the mutation's command
+    const authError = await checkPermission("canManageTables");
+    if (authError) return authError;
+
+    const config = await getSessionClickHouseConfig();
+    if (!config) {
+      return NextResponse.json(
+        { success: false, error: "Not authenticated" },
+        { status: 401 },
+      );
+    }
+
+    const body: KillMutationRequest = await request.json();
+
+    const validationError = validateKillMutationRequest(body);
+    if (validationError) {
+      return NextResponse.json(
+        { success: false, error: validationError },
+        { status: 400 },
+      );
+    }
+
+    // Mutations of non-replicated tables exist on every shard separately
+    const client = createClient(config);
+    const clusterName = await getClusterName(client, config.clusterId);
+    const onCluster = clusterName
+      ? ` ON CLUSTER ${quoteIdentifier(clusterName)}`
+      : "";
+
+    const sql = buildKillMutationStatement(body, onCluster);
+    await client.command(sql);
+
+    const cacheScope = config.clusterId ?? "legacy";
+    await invalidateCache(
+      tablesCache,
+      `tables:mutations:${cacheScope}:${body.database}:${body.table}`,
+    );
+
+    return NextResponse.json({ success: true, data: { sql } });
+  } catch (error) {
+    console.error("Kill mutation error:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error:
+          isClickHouseError(error) && error.userMessage
+            ? error.userMessage
+            : "Failed to kill mutation",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,190 @@
+import { describe, expect, it, mock, beforeEach } from "bun:test";
+import { NextResponse, NextRequest } from "next/server";
+
+const mockGetSessionClickHouseConfig = mock();
+const mockCheckPermission = mock();
+const mockRequireCsrf = mock();
+const mockExportStream = mock();
+const mockQuery = mock();
+
+mock.module("@/lib/auth", () => ({
+  getSessionClickHouseConfig: mockGetSessionClickHouseConfig,
+  checkPermission: mockCheckPermission,
+}));
+
+mock.module("@/lib/auth/csrf", () => ({
+  requireCsrf: mockRequireCsrf,
+}));
+
+mock.module("@/lib/clickhouse", () => ({
+  createClient: () => ({ exportStream: mockExportStream, query: mockQuery }),
+}));
+
+const { GET, POST } = await import("./route");
+
+const URL_BASE = "http://localhost/api/clickhouse/query/export";
+let requestCount = 0;
+
+// Each request gets its own rate-limit bucket
+function headers(extra: Record<string, string> = {}) {
+  return { "user-agent": `export-test-${++requestCount}`, ...extra };
+}
+
+function jsonRequest(body: unknown) {
+  return new NextRequest(URL_BASE, {
+    method: "POST",
+    headers: headers({ "content-type": "application/json" }),
+    body: JSON.stringify(body),
+  });
+}
+
+function formRequest(csrfToken: string, payload: unknown) {
+  const form = new URLSearchParams({
+    csrf_token: csrfToken,
+    payload: JSON.stringify(payload),
+  });
+  return new NextRequest(URL_BASE, {
+    method: "POST",
+    headers: headers({ "content-type": "application/x-www-form-urlencoded" }),
+    body: form.toString(),
+  });
+}
+
+async function* chunks(...parts: string[]) {
+  for (const part of parts) yield new TextEncoder().encode(part);
+}
+
+describe("POST /api/clickhouse/query/export", () => {
+  beforeEach(() => {
+    mockGetSessionClickHouseConfig.mockReset();
+    mockCheckPermission.mockReset();
+    mockRequireCsrf.mockReset();
+    mockExportStream.mockReset();
+    mockQuery.mockReset();
+
+    mockCheckPermission.mockResolvedValue(null);
+    mockRequireCsrf.mockResolvedValue(null);
+    mockGetSessionClickHouseConfig.mockResolvedValue({
+      host: "localhost",
+      username: "alice",
+    });
+    mockExportStream.mockImplementation(async (_sql, options) => ({
+      stream: chunks("id\n", "1\n"),
+      query_id: options.query_id,
+      destroy: () => {},
+    }));
+  });
+
+  it("requires canExecuteQueries", async () => {
+    mockCheckPermission.mockResolvedValue(
+      NextResponse.json({ success: false }, { status: 403 }),
+    );
+
+    const res = await POST(jsonRequest({ sql: "SELECT 1", format: "csv" }));
+
+    expect(res.status).toBe(403);
+    expect(mockCheckPermission).toHaveBeenCalledWith("canExecuteQueries");
+    expect(mockExportStream).not.toHaveBeenCalled();
+  });
+
+  it("checks the CSRF header for JSON requests", async () => {
+    await POST(jsonRequest({ sql: "SELECT 1", format: "csv" }));
+
+    expect(mockRequireCsrf.mock.calls[0][1]).toBeUndefined();
+  });
+
+  it("checks the form token for form posts", async () => {
+    const res = await POST(
+      formRequest("form-token", { sql: "SELECT 1", format: "csv", query_id: "abc" }),
+    );
+
+    expect(res.status).toBe(200);
+    expect(mockRequireCsrf.mock.calls[0][1]).toBe("form-token");
+    expect(await res.text()).toBe("id\n1\n");
+  });
+
+  it("stops when the CSRF check fails", async () => {
+    mockRequireCsrf.mockResolvedValue(
+      NextResponse.json({ success: false }, { status: 403 }),
+    );
+
+    const res = await POST(formRequest("bad", { sql: "SELECT 1", format: "csv" }));
+
+    expect(res.status).toBe(403);
+    expect(mockExportStream).not.toHaveBeenCalled();
+  });
+
+  it("rejects unknown formats", async () => {
+    const res = await POST(jsonRequest({ sql: "SELECT 1", format: "pdf" }));
+
+    expect(res.status).toBe(400);
+    expect(mockExportStream).not.toHaveBeenCalled();
+  });
+
+  it("rejects unreadable form payloads", async () => {
+    const res = await POST(formRequest("token", "not json"));
+
+    expect(res.status).toBe(400);
+  });
+
+  it("prefixes the query_id with the session user", async () => {
+    const res = await POST(
+      jsonRequest({ sql: "SELECT 1", format: "csv", query_id: "abc" }),
+    );
+
+    expect(res.status).toBe(200);
+    expect(mockExportStream.mock.calls[0][1].query_id).toBe("clicklens-alice-abc");
+    expect(res.headers.get("X-Query-Id")).toBe("clicklens-alice-abc");
+    expect(res.headers.get("Content-Disposition")).toContain("attachment");
+  });
+});
+
+describe("GET /api/clickhouse/query/export", () => {
+  beforeEach(() => {
+    mockCheckPermission.mockReset();
+    mockQuery.mockReset();
+    mockCheckPermission.mockResolvedValue(null);
+    mockGetSessionClickHouseConfig.mockResolvedValue({
+      host: "localhost",
+      username: "alice",
+    });
+  });
+
+  it("reports a running export by its prefixed query_id", async () => {
+    mockQuery.mockResolvedValue({ data: [{ read_rows: "1200", total_rows: "5000" }] });
+
+    const res = await GET(new NextRequest(`${URL_BASE}?query_id=abc`));
+    const json = await res.json();
+
+    expect(json.data).toEqual({ running: true, readRows: 1200, totalRows: 5000 });
+    expect(mockQuery.mock.calls[0][1].query_params).toEqual({
+      queryId: "clicklens-alice-abc",
+    });
+  });
+
+  it("reports a finished export as not running", async () => {
+    mockQuery.mockResolvedValue({ data: [] });
+
+    const res = await GET(new NextRequest(`${URL_BASE}?query_id=abc`));
+
+    expect((await res.json()).data.running).toBe(false);
+  });
+
+  it("requires a query_id", async () => {
+    const res = await GET(new NextRequest(URL_BASE));
+
+    expect(res.status).toBe(400);
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+
+  it("requires canExecuteQueries", async () => {
+    mockCheckPermission.mockResolvedValue(
+      NextResponse.json({ success: false }, { status: 403 }),
+    );
+
+    const res = await GET(new NextRequest(`${URL_BASE}?query_id=abc`));
+
+    expect(res.status).toBe(403);
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+});
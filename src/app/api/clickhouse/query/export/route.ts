@@ -0,0 +1,281 @@
+/**
+ * API route for exporting full query results
+ * POST /api/clickhouse/query/export
+ *
+ * Streams the complete result of a query as a file download. Unlike the query
+ * endpoint, results are not capped at MAX_ROWS and are passed through in the
+ * requested format (XLSX is built server-side). Exports can be cancelled
+ * through /api/clickhouse/kill using the same query_id.
+ *
+ * Besides JSON, the endpoint accepts a form post with `csrf_token` and the
+ * JSON request as `payload`, so browsers can save the file as a native
+ * download instead of buffering it in the page. The page follows such
+ * downloads through GET ?query_id=, which reports whether the export query
+ * is still running and how many rows it has read.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionClickHouseConfig, checkPermission } from "@/lib/auth";
+import { createClient } from "@/lib/clickhouse";
+import { formatQueryError } from "@/lib/errors";
+import { validateSqlStatement } from "@/lib/sql/validator";
+import { checkRateLimit } from "@/lib/cache/rate-limit";
+import { getClientIdentifier } from "@/lib/auth/rate-limit";
+import { requireCsrf } from "@/lib/auth/csrf";
+import {
+  validateBody,
+  validateRequest,
+  validationErrorResponse,
+} from "@/lib/validation";
+import { ExportRequestSchema } from "@/lib/validation/schemas";
+import {
+  EXPORT_FORMAT_INFO,
+  exportFileName,
+  prepareExportSql,
+} from "@/lib/export/formats";
+import { jsonCompactToXlsx, XLSX_MAX_ROWS } from "@/lib/export/xlsx";
+
+export const runtime = "nodejs";
+
+const QUERY_ID_PREFIX = "clicklens-";
+const EXPORT_RATE_LIMIT = process.env.RATE_LIMIT_EXPORT ? parseInt(process.env.RATE_LIMIT_EXPORT) : 10;
+const EXPORT_RATE_WINDOW_MS = 60000;
+
+export interface ExportStatus {
+  running: boolean;
+  readRows: number;
+  totalRows: number;
+}
+
+function isFormPost(request: NextRequest): boolean {
+  return (
+    request.headers.get("content-type")?.startsWith("application/x-www-form-urlencoded") ??
+    false
+  );
+}
+
+function parseFormPayload(form: FormData): unknown {
+  try {
+    return JSON.parse(String(form.get("payload") ?? ""));
+  } catch {
+    return null;
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const form = isFormPost(request) ? await request.formData() : null;
+
+    const csrfError = await requireCsrf(
+      request,
+      form ? String(form.get("csrf_token") ?? "") : undefined,
+    );
+    if (csrfError) return csrfError;
+
+    const clientId = getClientIdentifier(request);
+    const rateLimit = await checkRateLimit(`export:${clientId}`, {
+      maxRequests: EXPORT_RATE_LIMIT,
+      windowMs: EXPORT_RATE_WINDOW_MS,
+    });
+    if (!rateLimit.success) {
+      return NextResponse.json(
+        { success: false, error: { code: 429, message: "Too many exports", type: "RATE_LIMITED", userMessage: "Too many exports. Please slow down." } },
+        { status: 429, headers: { "Retry-After": String(Math.ceil(rateLimit.resetIn / 1000)) } },
+      );
+    }
+
+    const authError = await checkPermission("canExecuteQueries");
+    if (authError) return authError;
+
+    const config = await getSessionClickHouseConfig();
+
+    if (!config) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 401,
+            message: "Not authenticated",
+            type: "AUTH_REQUIRED",
+            userMessage: "Please log in to ClickHouse first",
+          },
+        },
+        { status: 401 },
+      );
+    }
+
+    const validation = form
+      ? validateBody(ExportRequestSchema, parseFormPayload(form))
+      : await validateRequest(request, ExportRequestSchema);
+    if (!validation.success) {
+      return validationErrorResponse(validation);
+    }
+
+    const reqBody = validation.data;
+
+    const sqlValidation = validateSqlStatement(reqBody.sql);
+    if (!sqlValidation.valid) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 403,
+            message: sqlValidation.reason,
+            type: "FORBIDDEN_STATEMENT",
+            userMessage: sqlValidation.reason,
+          },
+        },
+        { status: 403 },
+      );
+    }
+
+    const formatInfo = EXPORT_FORMAT_INFO[reqBody.format];
+
+    const settings: Record<string, unknown> = {};
+    if (reqBody.timezone) {
+      settings.session_timezone = reqBody.timezone;
+    }
+
+    const client = createClient({ ...config, settings });
+
+    // Stop the query on the server when the download is aborted
+    const clickhouseSettings: Record<string, unknown> = {
+      cancel_http_readonly_queries_on_client_close: 1,
+    };
+    if (formatInfo.text) {
+      clickhouseSettings.date_time_output_format = "iso";
+    }
+    if (reqBody.format === "xlsx") {
+      clickhouseSettings.max_result_rows = XLSX_MAX_ROWS - 1;
+      clickhouseSettings.result_overflow_mode = "break";
+    }
+    if (reqBody.database) {
+      clickhouseSettings.database = reqBody.database;
+    }
+
+    const queryId = reqBody.query_id
+      ? `${QUERY_ID_PREFIX}${config.username}-${reqBody.query_id}`
+      : undefined;
+
+    const result = await client.exportStream(prepareExportSql(reqBody.sql), {
+      format: formatInfo.clickhouseFormat,
+      query_id: queryId,
+      query_params: reqBody.query_params,
+      clickhouse_settings: clickhouseSettings,
+    });
+
+    const source =
+      reqBody.format === "xlsx" ? jsonCompactToXlsx(result.stream) : result.stream;
+    const iterator = source[Symbol.asyncIterator]();
+
+    // Pull-based so the ClickHouse response is only read as fast as the
+    // client downloads it
+    const body = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          const { value, done } = await iterator.next();
+          if (done) {
+            controller.close();
+          } else {
+            controller.enqueue(value);
+          }
+        } catch (err) {
+          console.error("Export stream error:", err);
+          result.destroy();
+          controller.error(err);
+        }
+      },
+
+      cancel() {
+        result.destroy();
+      },
+    });
+
+    return new Response(body, {
+      headers: {
+        "Content-Type": formatInfo.contentType,
+        "Content-Disposition": `attachment; filename="${exportFileName(reqBody.format)}"`,
+        "Cache-Control": "no-cache",
+        "X-Query-Id": result.query_id,
+      },
+    });
+  } catch (error) {
+    const formattedError = formatQueryError(
+      error instanceof Error ? error : String(error),
+      500,
+      true,
+    );
+    return NextResponse.json(
+      { success: false, error: formattedError },
+      { status: 500 },
+    );
+  }
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const authError = await checkPermission("canExecuteQueries");
+    if (authError) return authError;
+
+    const config = await getSessionClickHouseConfig();
+
+    if (!config) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 401,
+            message: "Not authenticated",
+            type: "AUTH_REQUIRED",
+            userMessage: "Please log in to ClickHouse first",
+          },
+        },
+        { status: 401 },
+      );
+    }
+
+    const queryId = request.nextUrl.searchParams.get("query_id");
+    if (!queryId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 400,
+            message: "query_id is required",
+            type: "BAD_REQUEST",
+            userMessage: "query_id is required",
+          },
+        },
+        { status: 400 },
+      );
+    }
+
+    const client = createClient(config);
+    const result = await client.query<{ read_rows: string; total_rows: string }>(
+      `SELECT read_rows, total_rows_approx AS total_rows
+       FROM system.processes
+       WHERE query_id = {queryId:String}
+       LIMIT 1`,
+      { query_params: { queryId: `${QUERY_ID_PREFIX}${config.username}-${queryId}` } },
+    );
+
+    const row = result.data[0];
+    const status: ExportStatus = {
+      running: Boolean(row),
+      readRows: row ? Number(row.read_rows) : 0,
+      totalRows: row ? Number(row.total_rows) : 0,
+    };
+
+    return NextResponse.json({ success: true, data: status });
+  } catch (error) {
+    const formattedError = formatQueryError(
+      error instanceof Error ? error : String(error),
+      500,
+      true,
+    );
+    return NextResponse.json(
+      { success: false, error: formattedError },
+      { status: 500 },
+    );
+  }
+}
@@ -150,4 +150,60 @@ describe("Query API Route (Streaming)", () => {
     expect(dataLines.length).toBe(1);
     expect(JSON.parse(dataLines[0]).data.length).toBe(1);
   });
+
+  it("should pass query parameters to ClickHouse", async () => {
+    mockQueryStream.mockResolvedValue({
+      stream: () => mockStreamGenerator([{ id: 1 }]),
+    });
+
+    const req = createRequest({
+      sql: "SELECT * FROM test WHERE id = {id:UInt32}",
+      query_params: { id: "42" },
+    });
+    const res = await POST(req);
+    await consumeStreamChunks(res);
+
+    expect(mockQueryStream.mock.calls[0][1].query_params).toEqual({ id: "42" });
+  });
+
+  it("should run script statements in a per-user session", async () => {
+    mockQueryStream.mockResolvedValue({
+      stream: () => mockStreamGenerator([{ id: 1 }]),
+    });
+
+    const req = createRequest({ sql: "SELECT * FROM ids", session_id: "abc-123" });
+    const res = await POST(req);
+    await consumeStreamChunks(res);
+
+    expect(mockQueryStream.mock.calls[0][1].session_id).toBe(
+      "clicklens-testuser-abc-123",
+    );
+  });
+
+  it("should run SET as a command in the session", async () => {
+    const mockCommand = mock().mockResolvedValue(undefined);
+    mockCreateClient.mockReturnValue({
+      queryStream: mockQueryStream,
+      command: mockCommand,
+    });
+
+    const req = createRequest({ sql: "SET max_threads = 1", session_id: "abc-123" });
+    const res = await POST(req);
+    const lines = (await consumeStreamChunks(res)).join("").split("\n").filter(Boolean);
+
+    expect(mockCommand).toHaveBeenCalledWith("SET max_threads = 1", {
+      query_id: undefined,
+      session_id: "clicklens-testuser-abc-123",
+    });
+    expect(mockQueryStream).not.toHaveBeenCalled();
+    expect(JSON.parse(lines[0]).type).toBe("done");
+  });
+
+  it("should reject malformed session ids", async () => {
+    const req = createRequest({ sql: "SELECT 1", session_id: "a b" });
+    const res = await POST(req);
+
+    expect(res.status).toBe(400);
+    expect(mockQueryStream).not.toHaveBeenCalled();
+  });
 });
@@ -2,7 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { getSessionClickHouseConfig, checkPermission } from "@/lib/auth";
 import { createClient } from "@/lib/clickhouse";
 import { formatQueryError } from "@/lib/errors";
-import { validateSqlStatement } from "@/lib/sql/validator";
+import { isSessionStatement, validateSqlStatement } from "@/lib/sql/validator";
 import { checkRateLimit } from "@/lib/cache/rate-limit";
 import { getClientIdentifier } from "@/lib/auth/rate-limit";
 import { requireCsrf } from "@/lib/auth/csrf";
@@ -70,7 +70,9 @@ export async function POST(request: NextRequest) {
 
     const client = createClient({ ...config, settings });
 
-    const sqlValidation = validateSqlStatement(reqBody.sql);
+    const sqlValidation = validateSqlStatement(reqBody.sql, {
+      session: Boolean(reqBody.session_id),
+    });
     if (!sqlValidation.valid) {
       return NextResponse.json(
         {
@@ -121,8 +123,39 @@ export async function POST(request: NextRequest) {
       ? `${QUERY_ID_PREFIX}${config.username}-${reqBody.query_id}`
       : undefined;
 
-    if (cacheEnabled && /^\s*SELECT\b/i.test(querySql)) {
-      const cacheKey = queryCache.generateSqlKey(querySql, reqBody.database, config.clusterId);
+    // Session ids are per user in ClickHouse; namespace them like query ids
+    const sessionId = reqBody.session_id
+      ? `${QUERY_ID_PREFIX}${config.username}-${reqBody.session_id}`
+      : undefined;
+
+    if (sessionId && isSessionStatement(reqBody.sql)) {
+      // SET and temporary table DDL return no rows and take no FORMAT clause
+      await client.command(reqBody.sql, {
+        query_id: queryId,
+        session_id: sessionId,
+      });
+      return new Response(
+        JSON.stringify({
+          type: "done",
+          limit_reached: false,
+          statistics: { elapsed: 0, rows_read: 0, bytes_read: 0 },
+        }) + "\n",
+        {
+          headers: {
+            "Content-Type": "application/x-ndjson; charset=utf-8",
+            "Cache-Control": "no-cache",
+          },
+        },
+      );
+    }
+
+    // Results inside a session may depend on its SET statements and temporary tables
+    if (cacheEnabled && !sessionId && /^\s*SELECT\b/i.test(querySql)) {
+      // Parameter values are part of the query's identity
+      const cacheSql = reqBody.query_params
+        ? `${querySql}\n${JSON.stringify(reqBody.query_params)}`
+        : querySql;
+      const cacheKey = queryCache.generateSqlKey(cacheSql, reqBody.database, config.clusterId);
       const cachedResult = queryCache.getCachedQuery(cacheKey);
       
       if (cachedResult) {
@@ -168,7 +201,9 @@ export async function POST(request: NextRequest) {
     const resultSet = await client.queryStream(querySql, {
       timeout,
       query_id: queryId,
+      session_id: sessionId,
       format: "JSONCompactEachRowWithNamesAndTypes",
+      query_params: reqBody.query_params,
       clickhouse_settings: clickhouseSettings,
     });
 
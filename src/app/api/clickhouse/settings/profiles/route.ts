@@ -0,0 +1,243 @@
+/**
+ * API route for managing settings profiles
+ *
+ * GET returns every profile with its settings, constraints and inherited
+ * profiles, plus server defaults from system.settings for diffing.
+ * Profiles are access entities, so all methods require canManageUsers.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionClickHouseConfig, checkPermission } from "@/lib/auth";
+import {
+  createClient,
+  isClickHouseError,
+  type SystemSettingsProfile,
+} from "@/lib/clickhouse";
+import {
+  SETTINGS_PROFILES_LIST_QUERY,
+  SETTINGS_PROFILE_ELEMENTS_QUERY,
+  SETTING_DEFAULTS_QUERY,
+} from "@/lib/clickhouse/queries/settings";
+import {
+  buildAlterSettingsProfileStatement,
+  buildCreateSettingsProfileStatement,
+  buildDropSettingsProfileStatement,
+  profileElementsToDefinitions,
+  validateSettingsProfileDefinition,
+  type ProfileSetting,
+  type SettingsProfileDefinition,
+  type SettingsProfileElementRow,
+} from "@/lib/clickhouse/settings-profiles";
+import { quoteIdentifier } from "@/lib/clickhouse/utils";
+import { requireCsrf } from "@/lib/auth/csrf";
+import { getClusterName } from "@/lib/clickhouse/cluster";
+
+export const dynamic = "force-dynamic";
+
+export type SettingsProfileWithElements = SystemSettingsProfile & {
+  settings: ProfileSetting[];
+  inherit: string[];
+};
+
+export interface SettingDefault {
+  name: string;
+  default: string;
+  type: string;
+  description: string;
+}
+
+export interface SettingsProfilesResponse {
+  success: boolean;
+  data?: {
+    profiles: SettingsProfileWithElements[];
+    defaults: SettingDefault[];
+  };
+  error?: string;
+}
+
+function errorMessage(error: unknown): string {
+  return isClickHouseError(error)
+    ? error.userMessage || error.message
+    : error instanceof Error
+      ? error.message
+      : "Unknown error";
+}
+
+// GET: List settings profiles with their elements and server defaults
+export async function GET(): Promise<NextResponse<SettingsProfilesResponse>> {
+  try {
+    // Check authorization
+    const authError = await checkPermission("canManageUsers");
+    if (authError) return authError;
+
+    const config = await getSessionClickHouseConfig();
+
+    if (!config) {
+      return NextResponse.json(
+        { success: false, error: "Not authenticated" },
+        { status: 401 },
+      );
+    }
+
+    const client = createClient(config);
+
+    const [profilesResult, elementsResult, defaultsResult] = await Promise.all([
+      client.query<SystemSettingsProfile>(SETTINGS_PROFILES_LIST_QUERY),
+      client.query<SettingsProfileElementRow>(SETTINGS_PROFILE_ELEMENTS_QUERY),
+      client.query<SettingDefault>(SETTING_DEFAULTS_QUERY),
+    ]);
+
+    const elements = profileElementsToDefinitions(elementsResult.data);
+
+    const profiles = profilesResult.data.map((profile) => ({
+      ...profile,
+      apply_to_all: Boolean(profile.apply_to_all),
+      settings: elements.get(profile.name)?.settings || [],
+      inherit: elements.get(profile.name)?.inherit || [],
+    }));
+
+    return NextResponse.json({
+      success: true,
+      data: { profiles, defaults: defaultsResult.data },
+    });
+  } catch (error) {
+    console.error("Error fetching settings profiles:", error);
+
+    return NextResponse.json(
+      { success: false, error: errorMessage(error) },
+      { status: 500 },
+    );
+  }
+}
+
+async function writeProfile(
+  request: NextRequest,
+  mode: "create" | "alter",
+): Promise<NextResponse<{ success: boolean; error?: string }>> {
+  // CSRF protection for state-changing operation
+  const csrfError = await requireCsrf(request);
+  if (csrfError) return csrfError;
+
+  // Check authorization
+  const authError = await checkPermission("canManageUsers");
+  if (authError) return authError;
+
+  const config = await getSessionClickHouseConfig();
+
+  if (!config) {
+    return NextResponse.json(
+      { success: false, error: "Not authenticated" },
+      { status: 401 },
+    );
+  }
+
+  const body: SettingsProfileDefinition = await request.json();
+
+  const validationError = validateSettingsProfileDefinition(body);
+  if (validationError) {
+    return NextResponse.json(
+      { success: false, error: validationError },
+      { status: 400 },
+    );
+  }
+
+  const client = createClient(config);
+  const clusterName = await getClusterName(client, config.clusterId);
+  const onCluster = clusterName
+    ? ` ON CLUSTER ${quoteIdentifier(clusterName)}`
+    : "";
+
+  await client.command(
+    mode === "create"
+      ? buildCreateSettingsProfileStatement(body, onCluster)
+      : buildAlterSettingsProfileStatement(body, onCluster),
+  );
+
+  return NextResponse.json({ success: true });
+}
+
+// POST: Create a new settings profile
+export async function POST(
+  request: NextRequest,
+): Promise<NextResponse<{ success: boolean; error?: string }>> {
+  try {
+    return await writeProfile(request, "create");
+  } catch (error) {
+    console.error("Error creating settings profile:", error);
+
+    return NextResponse.json(
+      { success: false, error: errorMessage(error) },
+      { status: 500 },
+    );
+  }
+}
+
+// PUT: Replace settings, constraints, inheritance and assignments of a profile
+export async function PUT(
+  request: NextRequest,
+): Promise<NextResponse<{ success: boolean; error?: string }>> {
+  try {
+    return await writeProfile(request, "alter");
+  } catch (error) {
+    console.error("Error updating settings profile:", error);
+
+    return NextResponse.json(
+      { success: false, error: errorMessage(error) },
+      { status: 500 },
+    );
+  }
+}
+
+// DELETE: Drop a settings profile
+export interface DeleteSettingsProfileRequest {
+  name: string;
+}
+
+export async function DELETE(
+  request: NextRequest,
+): Promise<NextResponse<{ success: boolean; error?: string }>> {
+  try {
+    // CSRF protection for state-changing operation
+    const csrfError = await requireCsrf(request);
+    if (csrfError) return csrfError;
+
+    // Check authorization
+    const authError = await checkPermission("canManageUsers");
+    if (authError) return authError;
+
+    const config = await getSessionClickHouseConfig();
+
+    if (!config) {
+      return NextResponse.json(
+        { success: false, error: "Not authenticated" },
+        { status: 401 },
+      );
+    }
+
+    const body: DeleteSettingsProfileRequest = await request.json();
+
+    if (!body.name) {
+      return NextResponse.json(
+        { success: false, error: "Profile name is required" },
+        { status: 400 },
+      );
+    }
+
+    const client = createClient(config);
+    const clusterName = await getClusterName(client, config.clusterId);
+    const onCluster = clusterName
+      ? ` ON CLUSTER ${quoteIdentifier(clusterName)}`
+      : "";
+
+    await client.command(buildDropSettingsProfileStatement(body.name, onCluster));
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting settings profile:", error);
+
+    return NextResponse.json(
+      { success: false, error: errorMessage(error) },
+      { status: 500 },
+    );
+  }
+}
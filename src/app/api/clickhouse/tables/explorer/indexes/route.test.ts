@@ -0,0 +1,151 @@
+import { describe, expect, it, mock, beforeEach } from "bun:test";
+import type { NextRequest } from "next/server";
+import { GET } from "./route";
+
+const mockQuery = mock();
+
+mock.module("@/lib/auth", () => ({
+  getSession: async () => ({ isLoggedIn: true, user: { username: "testuser" } }),
+  getSessionLensConfig: async () => ({ host: "localhost", username: "lens" }),
+}));
+
+mock.module("@/lib/clickhouse", () => ({
+  createClient: () => ({ query: mockQuery }),
+  isLensUserConfigured: () => true,
+  isClickHouseError: (e: unknown) => typeof e === "object" && e !== null && "code" in e,
+}));
+
+mock.module("@/lib/clickhouse/cluster", () => ({
+  getClusterName: () => Promise.resolve(undefined),
+}));
+
+mock.module("@/lib/cache", () => ({
+  getOrSet: async (_cache: unknown, _key: string, fn: () => Promise<unknown>) => fn(),
+  tablesCache: {
+    get: mock(() => Promise.resolve(null)),
+    set: mock(() => Promise.resolve()),
+  },
+}));
+
+const createRequest = (query: string) =>
+  new Request(
+    `http://localhost/api/clickhouse/tables/explorer/indexes?${query}`,
+  ) as unknown as NextRequest;
+
+const usageRow = (name: string, queries: number, pruning: number, selected: number) => ({
+  name,
+  queries,
+  pruning_queries: pruning,
+  selected_marks: selected,
+  total_marks: 100,
+  selected_parts: 2,
+  total_parts: 4,
+});
+
+// Answer each query by the system table it reads
+const respond = (queryLog: (sql: string) => Promise<{ data: object[] }>) => (sql: string) => {
+  if (sql.includes("system.data_skipping_indices")) {
+    return Promise.resolve({
+      data: [
+        {
+          name: "idx_name",
+          type: "bloom_filter",
+          expr: "lower(name)",
+          granularity: 1,
+          data_compressed_bytes: "2048",
+          data_uncompressed_bytes: "4096",
+          marks_bytes: "64",
+        },
+        {
+          name: "idx_country",
+          type: "set(100)",
+          expr: "country",
+          granularity: 4,
+          data_compressed_bytes: "10",
+          data_uncompressed_bytes: "20",
+          marks_bytes: "8",
+        },
+      ],
+    });
+  }
+  if (sql.includes("system.columns")) {
+    return Promise.resolve({ data: [{ name: "name" }, { name: "country" }] });
+  }
+  if (sql.includes("create_table_query")) {
+    return Promise.resolve({
+      data: [
+        {
+          create_table_query:
+            "CREATE TABLE db.events (`name` String, `country` String, PROJECTION by_country (SELECT * ORDER BY country)) ENGINE = MergeTree ORDER BY name",
+        },
+      ],
+    });
+  }
+  if (sql.includes("system.projection_parts")) {
+    return Promise.resolve({
+      data: [{ name: "by_country", parts: "3", rows: "1000", bytes_on_disk: "5000" }],
+    });
+  }
+  return queryLog(sql);
+};
+
+describe("Table indexes API Route", () => {
+  beforeEach(() => {
+    mockQuery.mockReset();
+  });
+
+  it("combines index sizes with query_log usage", async () => {
+    mockQuery.mockImplementation(
+      respond((sql) =>
+        Promise.resolve({
+          data: sql.includes("arrayJoin(projections)")
+            ? [{ projection: "db.events.by_country", queries: "5", last_used: "2026-10-18 12:00:00" }]
+            : [usageRow("", 10, 4, 50), usageRow("idx_name", 6, 0, 100)],
+        }),
+      ),
+    );
+
+    const res = await GET(createRequest("database=db&table=events&days=90"));
+    const json = await res.json();
+
+    expect(json.success).toBe(true);
+    expect(json.data.days).toBe(30);
+    expect(json.data.summary.queries).toBe(10);
+
+    const [byName, byCountry] = json.data.indexes;
+    expect(byName.columns).toEqual(["name"]);
+    expect(byName.data_compressed_bytes).toBe(2048);
+    expect(byName.status).toBe("no_pruning");
+    expect(byCountry.status).toBe("unused");
+
+    expect(json.data.projections[0]).toMatchObject({
+      name: "by_country",
+      kind: "normal",
+      parts: 3,
+      queries: 5,
+      last_used: "2026-10-18 12:00:00",
+    });
+  });
+
+  it("still lists indexes when query_log cannot be read", async () => {
+    mockQuery.mockImplementation(
+      respond(() => Promise.reject({ code: 60, message: "Table system.query_log does not exist" })),
+    );
+
+    const res = await GET(createRequest("database=db&table=events"));
+    const json = await res.json();
+
+    expect(json.success).toBe(true);
+    expect(json.data.days).toBe(7);
+    expect(json.data.summary).toBeNull();
+    expect(json.data.indexes).toHaveLength(2);
+    expect(json.data.indexes[0].status).toBeNull();
+    expect(json.data.projections[0].queries).toBeNull();
+  });
+
+  it("requires database and table", async () => {
+    const res = await GET(createRequest("database=db"));
+
+    expect(res.status).toBe(400);
+  });
+});
@@ -0,0 +1,274 @@
+/**
+ * API route for table explorer - skip indexes and projections
+ * GET /api/clickhouse/tables/explorer/indexes?database=xxx&table=yyy&days=7
+ *
+ * Lists the table's data skipping indexes and projections with their size,
+ * and estimates how much they prune from the last days of query_log.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSession, getSessionLensConfig } from "@/lib/auth";
+import { createClient, isLensUserConfigured, isClickHouseError } from "@/lib/clickhouse";
+import { getClusterName } from "@/lib/clickhouse/cluster";
+import { escapeSqlString } from "@/lib/clickhouse/utils";
+import {
+  getIndexUsageQuery,
+  getProjectionPartsQuery,
+  getProjectionUsageQuery,
+  getSkipIndicesQuery,
+  getTableOverviewQuery,
+  getTableStructureQuery,
+} from "@/lib/clickhouse/queries/tables";
+import {
+  INDEX_USAGE_DEFAULT_DAYS,
+  INDEX_USAGE_MAX_DAYS,
+  extractExpressionColumns,
+  getIndexStatus,
+  parseProjectionDefinitions,
+  type IndexUsage,
+  type ProjectionInfo,
+  type SkipIndexInfo,
+} from "@/lib/clickhouse/index-effectiveness";
+import { getOrSet, tablesCache } from "@/lib/cache";
+
+export interface IndexesData {
+  indexes: SkipIndexInfo[];
+  projections: ProjectionInfo[];
+  /** All recent SELECTs on the table; null when query_log could not be read */
+  summary: IndexUsage | null;
+  days: number;
+}
+
+interface IndexesResponse {
+  success: boolean;
+  data?: IndexesData;
+  error?: {
+    code: number;
+    message: string;
+    type: string;
+    userMessage: string;
+  };
+}
+
+interface SkipIndexRow {
+  name: string;
+  type: string;
+  expr: string;
+  granularity: number | string;
+  data_compressed_bytes: number | string;
+  data_uncompressed_bytes: number | string;
+  marks_bytes: number | string;
+}
+
+interface ProjectionPartsRow {
+  name: string;
+  parts: number | string;
+  rows: number | string;
+  bytes_on_disk: number | string;
+  data_compressed_bytes: number | string;
+  data_uncompressed_bytes: number | string;
+}
+
+type UsageRow = { name: string } & Record<keyof IndexUsage, number | string>;
+
+function toUsage(row: UsageRow | undefined): IndexUsage {
+  return {
+    queries: Number(row?.queries ?? 0),
+    pruning_queries: Number(row?.pruning_queries ?? 0),
+    selected_marks: Number(row?.selected_marks ?? 0),
+    total_marks: Number(row?.total_marks ?? 0),
+    selected_parts: Number(row?.selected_parts ?? 0),
+    total_parts: Number(row?.total_parts ?? 0),
+  };
+}
+
+export async function GET(
+  request: NextRequest,
+): Promise<NextResponse<IndexesResponse>> {
+  try {
+    const session = await getSession();
+    if (!session.isLoggedIn || !session.user) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 401,
+            message: "Not authenticated",
+            type: "AUTH_REQUIRED",
+            userMessage: "Please log in first",
+          },
+        },
+        { status: 401 },
+      );
+    }
+
+    if (!isLensUserConfigured()) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 500,
+            message: "Lens user not configured",
+            type: "CONFIG_ERROR",
+            userMessage: "Server not properly configured",
+          },
+        },
+        { status: 500 },
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const database = searchParams.get("database");
+    const table = searchParams.get("table");
+    const days = Math.min(
+      INDEX_USAGE_MAX_DAYS,
+      Math.max(1, parseInt(searchParams.get("days") || "", 10) || INDEX_USAGE_DEFAULT_DAYS),
+    );
+
+    if (!database || !table) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 400,
+            message: "Database and table parameters are required",
+            type: "BAD_REQUEST",
+            userMessage: "Please specify database and table",
+          },
+        },
+        { status: 400 },
+      );
+    }
+
+    const lensConfig = await getSessionLensConfig();
+    if (!lensConfig) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 500,
+          message: "Lens config not available",
+          type: "CONFIG_ERROR",
+          userMessage: "Server not properly configured",
+        },
+      });
+    }
+
+    const client = createClient(lensConfig);
+    const clusterName = await getClusterName(client, lensConfig.clusterId);
+
+    const safeDatabase = escapeSqlString(database);
+    const safeTable = escapeSqlString(table);
+
+    const cacheScope = lensConfig.clusterId ?? "legacy";
+    const cacheKey = `tables:indexes:${cacheScope}:${database}:${table}:${days}`;
+
+    const data = await getOrSet(tablesCache, cacheKey, async () => {
+      const [indexResult, columnsResult, createResult, projectionPartsResult] =
+        await Promise.all([
+          client.query<SkipIndexRow>(getSkipIndicesQuery(safeDatabase, safeTable, clusterName)),
+          client.query<{ name: string }>(getTableStructureQuery(safeDatabase, safeTable)),
+          client.query<{ create_table_query: string }>(
+            getTableOverviewQuery(safeDatabase, safeTable),
+          ),
+          client.query<ProjectionPartsRow>(
+            getProjectionPartsQuery(safeDatabase, safeTable, clusterName),
+          ),
+        ]);
+
+      const columnNames = columnsResult.data.map((c) => c.name);
+      const indexes = indexResult.data.map((row) => ({
+        name: row.name,
+        type: row.type,
+        expr: row.expr,
+        granularity: Number(row.granularity),
+        data_compressed_bytes: Number(row.data_compressed_bytes),
+        data_uncompressed_bytes: Number(row.data_uncompressed_bytes),
+        marks_bytes: Number(row.marks_bytes),
+        columns: extractExpressionColumns(row.expr, columnNames),
+      }));
+
+      // query_log may be disabled; sizes and definitions are still useful
+      let usageRows: UsageRow[] | null = null;
+      let projectionUsage: { projection: string; queries: number; last_used: string }[] | null =
+        null;
+      try {
+        const [usageResult, projectionUsageResult] = await Promise.all([
+          client.query<UsageRow>(
+            getIndexUsageQuery(safeDatabase, safeTable, indexes, days, clusterName),
+          ),
+          client.query<{ projection: string; queries: number; last_used: string }>(
+            getProjectionUsageQuery(safeDatabase, safeTable, days, clusterName),
+          ),
+        ]);
+        usageRows = usageResult.data;
+        projectionUsage = projectionUsageResult.data;
+      } catch (error) {
+        console.warn("Index usage unavailable:", error);
+      }
+
+      const indexesWithUsage: SkipIndexInfo[] = indexes.map((index) => {
+        if (!usageRows) return { ...index, usage: null, status: null };
+        const usage = toUsage(usageRows.find((r) => r.name === index.name));
+        return { ...index, usage, status: getIndexStatus(usage) };
+      });
+
+      // Projections are declared in the DDL; parts exist once data is written
+      const partsByName = new Map(projectionPartsResult.data.map((p) => [p.name, p]));
+      const prefix = `${database}.${table}.`;
+      const projections: ProjectionInfo[] = parseProjectionDefinitions(
+        createResult.data[0]?.create_table_query ?? "",
+      ).map((definition) => {
+        const parts = partsByName.get(definition.name);
+        const used = projectionUsage?.find(
+          (u) => u.projection === prefix + definition.name || u.projection === definition.name,
+        );
+        return {
+          ...definition,
+          parts: Number(parts?.parts ?? 0),
+          rows: Number(parts?.rows ?? 0),
+          bytes_on_disk: Number(parts?.bytes_on_disk ?? 0),
+          data_compressed_bytes: Number(parts?.data_compressed_bytes ?? 0),
+          data_uncompressed_bytes: Number(parts?.data_uncompressed_bytes ?? 0),
+          queries: projectionUsage ? Number(used?.queries ?? 0) : null,
+          last_used: used?.last_used ?? null,
+        };
+      });
+
+      return {
+        indexes: indexesWithUsage,
+        projections,
+        summary: usageRows ? toUsage(usageRows.find((r) => r.name === "")) : null,
+        days,
+      };
+    });
+
+    return NextResponse.json({
+      success: true,
+      data,
+    });
+  } catch (error) {
+    console.error("Table indexes error:", error);
+
+    if (isClickHouseError(error)) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          type: error.type,
+          userMessage: error.userMessage || error.message,
+        },
+      });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 500,
+        message: error instanceof Error ? error.message : "Unknown error",
+        type: "INTERNAL_ERROR",
+        userMessage: "Failed to fetch table indexes",
+      },
+    });
+  }
+}
@@ -0,0 +1,120 @@
+import { describe, expect, it, mock, beforeEach } from "bun:test";
+import { NextResponse, type NextRequest } from "next/server";
+import { POST } from "./route";
+
+const mockCheckPermission = mock();
+const mockCommand = mock();
+const mockInvalidateCache = mock();
+
+mock.module("@/lib/auth", () => ({
+  getSession: async () => ({ isLoggedIn: true, user: { username: "testuser" } }),
+  getSessionClickHouseConfig: async () => ({
+    host: "localhost",
+    username: "testuser",
+    clusterId: "primary",
+  }),
+  getSessionLensConfig: async () => ({ host: "localhost", username: "lens" }),
+  checkPermission: mockCheckPermission,
+}));
+
+mock.module("@/lib/auth/csrf", () => ({
+  requireCsrf: async () => null,
+}));
+
+mock.module("@/lib/clickhouse", () => ({
+  createClient: () => ({ command: mockCommand }),
+  isLensUserConfigured: () => true,
+  isClickHouseError: (e: unknown) => typeof e === "object" && e !== null && "code" in e,
+}));
+
+mock.module("@/lib/clickhouse/cluster", () => ({
+  getClusterName: () => Promise.resolve("prod"),
+}));
+
+mock.module("@/lib/cache", () => ({
+  getOrSet: async (_cache: unknown, _key: string, fn: () => Promise<unknown>) => fn(),
+  invalidateCache: mockInvalidateCache,
+  tablesCache: {
+    get: mock(() => Promise.resolve(null)),
+    set: mock(() => Promise.resolve()),
+  },
+}));
+
+const createRequest = (body: unknown) =>
+  new Request("http://localhost/api/clickhouse/tables/explorer/partitions", {
+    method: "POST",
+    body: JSON.stringify(body),
+  }) as unknown as NextRequest;
+
+describe("Partition actions API Route", () => {
+  beforeEach(() => {
+    mockCheckPermission.mockReset();
+    mockCheckPermission.mockResolvedValue(null);
+    mockCommand.mockReset();
+    mockCommand.mockResolvedValue(undefined);
+    mockInvalidateCache.mockReset();
+  });
+
+  it("returns the statement without running it on dry run", async () => {
+    const res = await POST(
+      createRequest({
+        database: "db",
+        table: "events",
+        partitionId: "202405",
+        action: "drop",
+        dryRun: true,
+      }),
+    );
+    const json = await res.json();
+
+    expect(json.success).toBe(true);
+    expect(json.data).toEqual({
+      sql: "ALTER TABLE `db`.`events` ON CLUSTER `prod` DROP PARTITION ID '202405'",
+      executed: false,
+    });
+    expect(mockCommand).not.toHaveBeenCalled();
+  });
+
+  it("runs the statement and invalidates the parts cache", async () => {
+    const res = await POST(
+      createRequest({
+        database: "db",
+        table: "events",
+        partitionId: "202405",
+        action: "move_disk",
+        target: "cold",
+      }),
+    );
+    const json = await res.json();
+
+    expect(json.data.executed).toBe(true);
+    expect(mockCommand).toHaveBeenCalledWith(
+      "ALTER TABLE `db`.`events` ON CLUSTER `prod` MOVE PARTITION ID '202405' TO DISK 'cold'",
+    );
+    expect(mockInvalidateCache.mock.calls[0][1]).toBe("tables:parts:primary:db:events");
+  });
+
+  it("rejects invalid requests", async () => {
+    const res = await POST(
+      createRequest({ database: "db", table: "events", partitionId: "1", action: "move_volume" }),
+    );
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toBe("A volume is required");
+    expect(mockCommand).not.toHaveBeenCalled();
+  });
+
+  it("requires the canManageTables permission", async () => {
+    mockCheckPermission.mockResolvedValue(
+      NextResponse.json({ success: false, error: "Forbidden" }, { status: 403 }),
+    );
+
+    const res = await POST(
+      createRequest({ database: "db", table: "events", partitionId: "1", action: "drop" }),
+    );
+
+    expect(res.status).toBe(403);
+    expect(mockCheckPermission).toHaveBeenCalledWith("canManageTables");
+    expect(mockCommand).not.toHaveBeenCalled();
+  });
+});
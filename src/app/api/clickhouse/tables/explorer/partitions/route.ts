@@ -0,0 +1,272 @@
+/**
+ * API route for table explorer - partitions
+ * GET /api/clickhouse/tables/explorer/partitions?database=xxx&table=yyy
+ * POST /api/clickhouse/tables/explorer/partitions
+ *
+ * GET groups the table's parts by partition. POST runs a partition action
+ * (detach, attach, drop, freeze, move, optimize) with the user's own
+ * credentials, or with dryRun only returns the statement it would run.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  checkPermission,
+  getSession,
+  getSessionClickHouseConfig,
+  getSessionLensConfig,
+} from "@/lib/auth";
+import { requireCsrf } from "@/lib/auth/csrf";
+import { createClient, isLensUserConfigured, isClickHouseError } from "@/lib/clickhouse";
+import { getClusterName } from "@/lib/clickhouse/cluster";
+import { escapeSqlString, quoteIdentifier } from "@/lib/clickhouse/utils";
+import {
+  getDetachedPartitionsQuery,
+  getPartitionsQuery,
+  getTableStorageTargetsQuery,
+} from "@/lib/clickhouse/queries/tables";
+import {
+  buildPartitionStatement,
+  validatePartitionActionRequest,
+  type DetachedPartitionInfo,
+  type PartitionActionRequest,
+  type PartitionInfo,
+} from "@/lib/clickhouse/partitions";
+import { invalidateCache, tablesCache } from "@/lib/cache";
+
+export interface StorageVolume {
+  volume_name: string;
+  disks: string[];
+}
+
+export interface PartitionsData {
+  partitions: PartitionInfo[];
+  detached: DetachedPartitionInfo[];
+  volumes: StorageVolume[];
+}
+
+interface PartitionsResponse {
+  success: boolean;
+  data?: PartitionsData;
+  error?: {
+    code: number;
+    message: string;
+    type: string;
+    userMessage: string;
+  };
+}
+
+export type PartitionActionBody = PartitionActionRequest & {
+  /** Only build the statement, for the confirmation dialog */
+  dryRun?: boolean;
+};
+
+interface PartitionActionResponse {
+  success: boolean;
+  data?: { sql: string; executed: boolean };
+  error?: string;
+}
+
+function errorResponse(
+  error: unknown,
+  userMessage: string,
+): NextResponse<PartitionsResponse> {
+  if (isClickHouseError(error)) {
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: error.code,
+        message: error.message,
+        type: error.type,
+        userMessage: error.userMessage || error.message,
+      },
+    });
+  }
+
+  return NextResponse.json({
+    success: false,
+    error: {
+      code: 500,
+      message: error instanceof Error ? error.message : "Unknown error",
+      type: "INTERNAL_ERROR",
+      userMessage,
+    },
+  });
+}
+
+export async function GET(
+  request: NextRequest,
+): Promise<NextResponse<PartitionsResponse>> {
+  try {
+    const session = await getSession();
+    if (!session.isLoggedIn || !session.user) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 401,
+            message: "Not authenticated",
+            type: "AUTH_REQUIRED",
+            userMessage: "Please log in first",
+          },
+        },
+        { status: 401 },
+      );
+    }
+
+    if (!isLensUserConfigured()) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 500,
+            message: "Lens user not configured",
+            type: "CONFIG_ERROR",
+            userMessage: "Server not properly configured",
+          },
+        },
+        { status: 500 },
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const database = searchParams.get("database");
+    const table = searchParams.get("table");
+
+    if (!database || !table) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 400,
+            message: "Database and table parameters are required",
+            type: "BAD_REQUEST",
+            userMessage: "Please specify database and table",
+          },
+        },
+        { status: 400 },
+      );
+    }
+
+    const lensConfig = await getSessionLensConfig();
+    if (!lensConfig) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 500,
+          message: "Lens config not available",
+          type: "CONFIG_ERROR",
+          userMessage: "Server not properly configured",
+        },
+      });
+    }
+
+    const client = createClient(lensConfig);
+    const clusterName = await getClusterName(client, lensConfig.clusterId);
+
+    const safeDatabase = escapeSqlString(database);
+    const safeTable = escapeSqlString(table);
+
+    const [partitionsResult, detachedResult, volumesResult] = await Promise.all([
+      client.query<PartitionInfo>(
+        getPartitionsQuery(safeDatabase, safeTable, clusterName),
+      ),
+      client.query<DetachedPartitionInfo>(
+        getDetachedPartitionsQuery(safeDatabase, safeTable, clusterName),
+      ),
+      client.query<StorageVolume>(
+        getTableStorageTargetsQuery(safeDatabase, safeTable),
+      ),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        partitions: partitionsResult.data.map((p) => ({
+          ...p,
+          parts: Number(p.parts),
+          rows: Number(p.rows),
+          bytes_on_disk: Number(p.bytes_on_disk),
+          replicas: Number(p.replicas),
+        })),
+        detached: detachedResult.data.map((d) => ({
+          ...d,
+          parts: Number(d.parts),
+        })),
+        volumes: volumesResult.data,
+      },
+    });
+  } catch (error) {
+    console.error("Table partitions error:", error);
+    return errorResponse(error, "Failed to fetch table partitions");
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+): Promise<NextResponse<PartitionActionResponse>> {
+  try {
+    // CSRF protection for state-changing operation
+    const csrfError = await requireCsrf(request);
+    if (csrfError) return csrfError;
+
+    // Check authorization
+    const authError = await checkPermission("canManageTables");
+    if (authError) return authError;
+
+    const config = await getSessionClickHouseConfig();
+    if (!config) {
+      return NextResponse.json(
+        { success: false, error: "Not authenticated" },
+        { status: 401 },
+      );
+    }
+
+    const body: PartitionActionBody = await request.json();
+
+    const validationError = validatePartitionActionRequest(body);
+    if (validationError) {
+      return NextResponse.json(
+        { success: false, error: validationError },
+        { status: 400 },
+      );
+    }
+
+    // Partition commands run on every node; for replicated tables the
+    // distributed DDL queue executes them once per shard
+    const client = createClient(config);
+    const clusterName = await getClusterName(client, config.clusterId);
+    const onCluster = clusterName
+      ? ` ON CLUSTER ${quoteIdentifier(clusterName)}`
+      : "";
+
+    const sql = buildPartitionStatement(body, onCluster);
+
+    if (body.dryRun) {
+      return NextResponse.json({ success: true, data: { sql, executed: false } });
+    }
+
+    await client.command(sql);
+
+    const cacheScope = config.clusterId ?? "legacy";
+    await invalidateCache(
+      tablesCache,
+      `tables:parts:${cacheScope}:${body.database}:${body.table}`,
+    );
+
+    return NextResponse.json({ success: true, data: { sql, executed: true } });
+  } catch (error) {
+    console.error("Partition action error:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: isClickHouseError(error)
+          ? error.userMessage || error.message
+          : error instanceof Error
+            ? error.message
+            : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,146 @@
+import { describe, expect, it, mock, beforeEach } from "bun:test";
+import { NextResponse, type NextRequest } from "next/server";
+import { POST } from "./route";
+
+const mockCheckPermission = mock();
+const mockQuery = mock();
+const mockCommand = mock();
+const mockGetClusterName = mock();
+const mockInvalidateCache = mock();
+
+mock.module("@/lib/auth", () => ({
+  getSessionClickHouseConfig: async () => ({
+    host: "localhost",
+    username: "testuser",
+    clusterId: "primary",
+  }),
+  checkPermission: mockCheckPermission,
+}));
+
+mock.module("@/lib/auth/csrf", () => ({
+  requireCsrf: async () => null,
+}));
+
+mock.module("@/lib/clickhouse", () => ({
+  createClient: () => ({ query: mockQuery, command: mockCommand }),
+  isClickHouseError: (e: unknown) => typeof e === "object" && e !== null && "code" in e,
+}));
+
+mock.module("@/lib/clickhouse/cluster", () => ({
+  getClusterName: mockGetClusterName,
+}));
+
+mock.module("@/lib/cache", () => ({
+  getOrSet: async (_cache: unknown, _key: string, fn: () => Promise<unknown>) => fn(),
+  invalidateCache: mockInvalidateCache,
+  metadataCache: {},
+  tablesCache: {
+    get: mock(() => Promise.resolve(null)),
+    set: mock(() => Promise.resolve()),
+  },
+}));
+
+const createPost = (body: unknown) =>
+  new Request("http://localhost/api/clickhouse/tables/explorer/schema", {
+    method: "POST",
+    body: JSON.stringify(body),
+  }) as unknown as NextRequest;
+
+const column = (name: string, type: string) => ({
+  name,
+  type,
+  default_kind: "",
+  default_expression: "",
+  comment: "",
+});
+
+describe("Schema change API Route", () => {
+  beforeEach(() => {
+    mockCheckPermission.mockReset();
+    mockCheckPermission.mockResolvedValue(null);
+    mockQuery.mockReset();
+    mockQuery.mockResolvedValue({
+      data: [column("id", "UInt64"), column("name", "String")],
+    });
+    mockCommand.mockReset();
+    mockCommand.mockResolvedValue(undefined);
+    mockGetClusterName.mockReset();
+    mockGetClusterName.mockResolvedValue("prod");
+    mockInvalidateCache.mockReset();
+  });
+
+  it("previews statements and warnings without running them", async () => {
+    const res = await POST(
+      createPost({
+        database: "db",
+        table: "events",
+        changes: [{ kind: "modify_column", column: "id", type: "UInt32" }],
+        dryRun: true,
+      }),
+    );
+    const json = await res.json();
+
+    expect(json.data.statements).toEqual([
+      "ALTER TABLE `db`.`events` ON CLUSTER `prod` MODIFY COLUMN `id` UInt32",
+    ]);
+    expect(json.data.warnings[0].mutation).toBe(true);
+    expect(json.data.executed).toBe(false);
+    expect(mockCommand).not.toHaveBeenCalled();
+  });
+
+  it("runs statements in order and stops at the first failure", async () => {
+    mockGetClusterName.mockResolvedValue(undefined);
+    mockCommand
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new Error("Cannot parse type"));
+
+    const res = await POST(
+      createPost({
+        database: "db",
+        table: "events",
+        changes: [
+          { kind: "add_column", column: "country", type: "String" },
+          { kind: "modify_column", column: "id", type: "Nope" },
+          { kind: "drop_column", column: "name" },
+        ],
+      }),
+    );
+    const json = await res.json();
+
+    expect(res.status).toBe(500);
+    expect(json.error).toBe("Statement 2 of 3 failed after 1 applied: Cannot parse type");
+    expect(mockCommand).toHaveBeenCalledTimes(2);
+    expect(mockInvalidateCache.mock.calls[0][1]).toBe("columns:db:events:primary");
+  });
+
+  it("rejects changes to unknown columns", async () => {
+    const res = await POST(
+      createPost({
+        database: "db",
+        table: "events",
+        changes: [{ kind: "drop_column", column: "missing" }],
+      }),
+    );
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toBe("Change 1: Column missing does not exist");
+  });
+
+  it("requires the canManageTables permission", async () => {
+    mockCheckPermission.mockResolvedValue(
+      NextResponse.json({ success: false, error: "Forbidden" }, { status: 403 }),
+    );
+
+    const res = await POST(
+      createPost({
+        database: "db",
+        table: "events",
+        changes: [{ kind: "remove_ttl" }],
+      }),
+    );
+
+    expect(res.status).toBe(403);
+    expect(mockCheckPermission).toHaveBeenCalledWith("canManageTables");
+    expect(mockCommand).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * API route for table explorer - schema changes
+ * POST /api/clickhouse/tables/explorer/schema
+ *
+ * Applies the schema wizard's column, TTL, index, projection and setting
+ * changes as ALTER TABLE statements with the user's own credentials, or with
+ * dryRun only returns the statements and their warnings. The SQL console
+ * rejects DDL, so this is the only write path for table schemas. The wizard
+ * reads the current columns from /api/clickhouse/schema/table-columns.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { checkPermission, getSessionClickHouseConfig } from "@/lib/auth";
+import { requireCsrf } from "@/lib/auth/csrf";
+import { createClient, isClickHouseError } from "@/lib/clickhouse";
+import { getClusterName } from "@/lib/clickhouse/cluster";
+import { quoteIdentifier } from "@/lib/clickhouse/utils";
+import {
+  buildSchemaChangeStatements,
+  buildTableColumnsQuery,
+  getSchemaChangeWarnings,
+  validateSchemaChangeRequest,
+  type SchemaChangeRequest,
+  type SchemaChangeWarning,
+  type SchemaColumn,
+  type TableColumnTypes,
+} from "@/lib/clickhouse/schema-changes";
+import { kqlColumnsCacheKey } from "@/lib/clickhouse/schema";
+import { invalidateCache, metadataCache } from "@/lib/cache";
+
+export type SchemaChangeBody = SchemaChangeRequest & {
+  /** Only build the statements, for the preview */
+  dryRun?: boolean;
+};
+
+interface SchemaChangeResponse {
+  success: boolean;
+  data?: {
+    statements: string[];
+    warnings: SchemaChangeWarning[];
+    executed: boolean;
+  };
+  error?: string;
+}
+
+function errorMessage(error: unknown): string {
+  return isClickHouseError(error)
+    ? error.userMessage || error.message
+    : error instanceof Error
+      ? error.message
+      : "Unknown error";
+}
+
+export async function POST(
+  request: NextRequest,
+): Promise<NextResponse<SchemaChangeResponse>> {
+  try {
+    // CSRF protection for state-changing operation
+    const csrfError = await requireCsrf(request);
+    if (csrfError) return csrfError;
+
+    // Check authorization
+    const authError = await checkPermission("canManageTables");
+    if (authError) return authError;
+
+    const config = await getSessionClickHouseConfig();
+    if (!config) {
+      return NextResponse.json(
+        { success: false, error: "Not authenticated" },
+        { status: 401 },
+      );
+    }
+
+    const body: SchemaChangeBody = await request.json();
+
+    if (!body.database || !body.table) {
+      return NextResponse.json(
+        { success: false, error: "Database and table are required" },
+        { status: 400 },
+      );
+    }
+
+    const client = createClient(config);
+
+    // Current columns, to check the changes against and to spot type changes
+    const columnsResult = await client.query<SchemaColumn>(
+      buildTableColumnsQuery(body.database, body.table),
+    );
+    if (columnsResult.data.length === 0) {
+      return NextResponse.json(
+        { success: false, error: `Table ${body.database}.${body.table} not found` },
+        { status: 404 },
+      );
+    }
+    const columns: TableColumnTypes = Object.fromEntries(
+      columnsResult.data.map((c) => [c.name, c.type]),
+    );
+
+    const validationError = validateSchemaChangeRequest(body, columns);
+    if (validationError) {
+      return NextResponse.json(
+        { success: false, error: validationError },
+        { status: 400 },
+      );
+    }
+
+    const clusterName = await getClusterName(client, config.clusterId);
+    const onCluster = clusterName
+      ? ` ON CLUSTER ${quoteIdentifier(clusterName)}`
+      : "";
+
+    const statements = body.changes.flatMap((change) =>
+      buildSchemaChangeStatements(body.database, body.table, change, onCluster),
+    );
+    const warnings = getSchemaChangeWarnings(body.changes, columns);
+
+    if (body.dryRun) {
+      return NextResponse.json({
+        success: true,
+        data: { statements, warnings, executed: false },
+      });
+    }
+
+    // In order, stopping at the first failure; ClickHouse has no
+    // transactional DDL, so earlier statements stay applied
+    const clusterSuffix = config.clusterId ? `:${config.clusterId}` : "";
+    const invalidateColumns = () =>
+      Promise.all([
+        invalidateCache(metadataCache, `columns:${body.database}:${body.table}${clusterSuffix}`),
+        invalidateCache(
+          metadataCache,
+          kqlColumnsCacheKey(body.database, body.table, config.clusterId),
+        ),
+      ]);
+
+    for (const [i, sql] of statements.entries()) {
+      try {
+        await client.command(sql);
+      } catch (error) {
+        console.error("Schema change statement failed:", sql, error);
+        if (i > 0) await invalidateColumns();
+        return NextResponse.json(
+          {
+            success: false,
+            error: `Statement ${i + 1} of ${statements.length} failed${
+              i > 0 ? ` after ${i} applied` : ""
+            }: ${errorMessage(error)}`,
+          },
+          { status: 500 },
+        );
+      }
+    }
+
+    await invalidateColumns();
+
+    return NextResponse.json({
+      success: true,
+      data: { statements, warnings, executed: true },
+    });
+  } catch (error) {
+    console.error("Schema change error:", error);
+
+    return NextResponse.json(
+      { success: false, error: errorMessage(error) },
+      { status: 500 },
+    );
+  }
+}
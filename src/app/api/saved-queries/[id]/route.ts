@@ -0,0 +1,166 @@
+/**
+ * API route for a single saved query
+ * PUT /api/saved-queries/[id] - Update a query (stored as a new revision)
+ * DELETE /api/saved-queries/[id] - Delete a query
+ *
+ * Only the owner of a query can change or delete it.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSession, getSessionLensConfig, getEffectiveRoles } from "@/lib/auth";
+import { createClient } from "@/lib/clickhouse";
+import { ensureMetadataInfrastructure } from "@/lib/clickhouse/metadata";
+import {
+  buildSavedQueryAccessFilter,
+  findUnsharableRoles,
+  getInsertSavedQueryStatement,
+  getSavedQuery,
+  isSavedItemId,
+  normalizeFolder,
+  normalizeTags,
+} from "@/lib/clickhouse/saved-queries";
+import { ApiErrors, apiError } from "@/lib/api";
+import { requireCsrf } from "@/lib/auth/csrf";
+import { validateRequest, validationErrorResponse } from "@/lib/validation";
+import { SavedQuerySchema } from "@/lib/validation/schemas";
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const csrfError = await requireCsrf(request);
+  if (csrfError) return csrfError;
+
+  const session = await getSession();
+  if (!session.isLoggedIn || !session.user) {
+    return ApiErrors.unauthorized();
+  }
+
+  try {
+    const { id } = await params;
+    if (!isSavedItemId(id)) {
+      return ApiErrors.notFound("Saved query");
+    }
+    const validation = await validateRequest(request, SavedQuerySchema);
+    if (!validation.success) {
+      return validationErrorResponse(validation);
+    }
+    const body = validation.data;
+    const username = session.user.username;
+    const roles = await getEffectiveRoles(username);
+
+    if (body.visibility === "roles") {
+      if (body.shared_roles.length === 0) {
+        return ApiErrors.badRequest("Select at least one role to share with");
+      }
+      const unsharable = findUnsharableRoles(body.shared_roles, roles);
+      if (unsharable.length > 0) {
+        return ApiErrors.badRequest(
+          `You can only share with roles you hold: ${unsharable.join(", ")}`,
+        );
+      }
+    }
+
+    const config = await getSessionLensConfig();
+    if (!config) {
+      return apiError(503, "INTERNAL_ERROR", "Metadata storage not configured", "Saved queries feature is not configured");
+    }
+
+    const client = createClient(config);
+    await ensureMetadataInfrastructure(config);
+
+    const current = await getSavedQuery(
+      client,
+      id,
+      buildSavedQueryAccessFilter(username, roles),
+    );
+    if (!current) {
+      return ApiErrors.notFound("Saved query");
+    }
+    if (current.created_by !== username) {
+      return ApiErrors.forbidden("Only the owner can edit this query");
+    }
+
+    const revision = current.revision + 1;
+    await client.command(
+      getInsertSavedQueryStatement({
+        id,
+        name: body.name,
+        sql: body.sql,
+        description: body.description,
+        created_by: current.created_by,
+        created_at: current.created_at,
+        folder: normalizeFolder(body.folder),
+        tags: normalizeTags(body.tags),
+        visibility: body.visibility,
+        shared_roles: body.visibility === "roles" ? body.shared_roles : [],
+        params: body.params,
+        revision,
+        updated_by: username,
+        is_deleted: 0,
+      }),
+    );
+
+    return NextResponse.json({ success: true, id, revision });
+  } catch (error) {
+    console.error("Failed to update saved query:", error);
+    return ApiErrors.fromError(error, "Failed to update saved query");
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const csrfError = await requireCsrf(request);
+  if (csrfError) return csrfError;
+
+  const session = await getSession();
+  if (!session.isLoggedIn || !session.user) {
+    return ApiErrors.unauthorized();
+  }
+
+  try {
+    const { id } = await params;
+    if (!isSavedItemId(id)) {
+      return ApiErrors.notFound("Saved query");
+    }
+    const username = session.user.username;
+
+    const config = await getSessionLensConfig();
+    if (!config) {
+      return apiError(503, "INTERNAL_ERROR", "Metadata storage not configured", "Saved queries feature is not configured");
+    }
+
+    const client = createClient(config);
+    await ensureMetadataInfrastructure(config);
+
+    const roles = await getEffectiveRoles(username);
+    const current = await getSavedQuery(
+      client,
+      id,
+      buildSavedQueryAccessFilter(username, roles),
+    );
+    if (!current) {
+      return ApiErrors.notFound("Saved query");
+    }
+    if (current.created_by !== username) {
+      return ApiErrors.forbidden("Only the owner can delete this query");
+    }
+
+    // Tombstone revision; earlier revisions are kept for auditing
+    await client.command(
+      getInsertSavedQueryStatement({
+        ...current,
+        revision: current.revision + 1,
+        updated_by: username,
+        is_deleted: 1,
+      }),
+    );
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Failed to delete saved query:", error);
+    return ApiErrors.fromError(error, "Failed to delete saved query");
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * API route for saved query revisions
+ * GET /api/saved-queries/[id]/versions - List revisions, newest first
+ * POST /api/saved-queries/[id]/versions - Restore a revision { revision }
+ *
+ * Restoring copies the old revision into a new one, so history is never lost.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSession, getSessionLensConfig, getEffectiveRoles } from "@/lib/auth";
+import { createClient } from "@/lib/clickhouse";
+import { ensureMetadataInfrastructure } from "@/lib/clickhouse/metadata";
+import {
+  buildSavedQueryAccessFilter,
+  getInsertSavedQueryStatement,
+  getSavedQuery,
+  getSavedQueryRevisionsQuery,
+  isSavedItemId,
+  type SavedQueryRow,
+} from "@/lib/clickhouse/saved-queries";
+import { ApiErrors, apiError } from "@/lib/api";
+import { requireCsrf } from "@/lib/auth/csrf";
+import { validateRequest, validationErrorResponse } from "@/lib/validation";
+import { SavedQueryRestoreSchema } from "@/lib/validation/schemas";
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const session = await getSession();
+  if (!session.isLoggedIn || !session.user) {
+    return ApiErrors.unauthorized();
+  }
+
+  try {
+    const { id } = await params;
+    if (!isSavedItemId(id)) {
+      return ApiErrors.notFound("Saved query");
+    }
+    const username = session.user.username;
+
+    const config = await getSessionLensConfig();
+    if (!config) {
+      return apiError(503, "INTERNAL_ERROR", "Metadata storage not configured", "Saved queries feature is not configured");
+    }
+
+    const client = createClient(config);
+    await ensureMetadataInfrastructure(config);
+
+    // Access is decided by the current revision
+    const roles = await getEffectiveRoles(username);
+    const current = await getSavedQuery(
+      client,
+      id,
+      buildSavedQueryAccessFilter(username, roles),
+    );
+    if (!current) {
+      return ApiErrors.notFound("Saved query");
+    }
+
+    const result = await client.query<SavedQueryRow>(
+      getSavedQueryRevisionsQuery(id),
+    );
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error("Failed to fetch saved query versions:", error);
+    return ApiErrors.fromError(error, "Failed to fetch saved query versions");
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const csrfError = await requireCsrf(request);
+  if (csrfError) return csrfError;
+
+  const session = await getSession();
+  if (!session.isLoggedIn || !session.user) {
+    return ApiErrors.unauthorized();
+  }
+
+  try {
+    const { id } = await params;
+    if (!isSavedItemId(id)) {
+      return ApiErrors.notFound("Saved query");
+    }
+    const username = session.user.username;
+
+    const validation = await validateRequest(request, SavedQueryRestoreSchema);
+    if (!validation.success) {
+      return validationErrorResponse(validation);
+    }
+
+    const config = await getSessionLensConfig();
+    if (!config) {
+      return apiError(503, "INTERNAL_ERROR", "Metadata storage not configured", "Saved queries feature is not configured");
+    }
+
+    const client = createClient(config);
+    await ensureMetadataInfrastructure(config);
+
+    const roles = await getEffectiveRoles(username);
+    const current = await getSavedQuery(
+      client,
+      id,
+      buildSavedQueryAccessFilter(username, roles),
+    );
+    if (!current) {
+      return ApiErrors.notFound("Saved query");
+    }
+    if (current.created_by !== username) {
+      return ApiErrors.forbidden("Only the owner can restore this query");
+    }
+
+    const revisions = await client.query<SavedQueryRow>(
+      getSavedQueryRevisionsQuery(id),
+    );
+    const target = revisions.data.find(
+      (r) => r.revision === validation.data.revision,
+    );
+    if (!target) {
+      return ApiErrors.notFound("Revision");
+    }
+
+    const revision = current.revision + 1;
+    await client.command(
+      getInsertSavedQueryStatement({
+        ...target,
+        // Keep the current sharing settings; only content is restored
+        visibility: current.visibility,
+        shared_roles: current.shared_roles,
+        created_at: current.created_at,
+        revision,
+        updated_by: username,
+        is_deleted: 0,
+      }),
+    );
+
+    return NextResponse.json({ success: true, id, revision });
+  } catch (error) {
+    console.error("Failed to restore saved query:", error);
+    return ApiErrors.fromError(error, "Failed to restore saved query");
+  }
+}
@@ -1,29 +1,38 @@
 /**
  * API route for managing saved queries
- * GET /api/saved-queries - List saved queries
+ * GET /api/saved-queries - List saved queries visible to the current user
  * POST /api/saved-queries - Save a new query
+ *
+ * Queries are visible to their owner, to users holding one of the roles they
+ * are shared with, or to everyone when published.
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { getSession , getSessionLensConfig } from "@/lib/auth";
+import { getSession, getSessionLensConfig, getEffectiveRoles } from "@/lib/auth";
 import { createClient, isLensUserConfigured } from "@/lib/clickhouse";
-import { escapeSqlString } from "@/lib/clickhouse/utils";
 import { generateUUID } from "@/lib/utils";
+import { ensureMetadataInfrastructure } from "@/lib/clickhouse/metadata";
 import {
-  ensureMetadataInfrastructure,
-  METADATA_DB,
-  SAVED_QUERIES_TABLE,
-} from "@/lib/clickhouse/metadata";
+  buildSavedQueryAccessFilter,
+  findUnsharableRoles,
+  getInsertSavedQueryStatement,
+  getLatestSavedQueriesQuery,
+  normalizeFolder,
+  normalizeTags,
+  type SavedQueryRow,
+} from "@/lib/clickhouse/saved-queries";
 import { ApiErrors, apiError } from "@/lib/api";
 import { requireCsrf } from "@/lib/auth/csrf";
+import { validateRequest, validationErrorResponse } from "@/lib/validation";
+import { SavedQuerySchema } from "@/lib/validation/schemas";
 
-export interface SavedQuery {
-  id: string;
-  name: string;
-  sql: string;
-  description: string;
-  created_by: string;
-  created_at: string;
+export type SavedQuery = Omit<SavedQueryRow, "is_deleted">;
+
+export interface SavedQueriesResponse {
+  success: boolean;
+  data?: SavedQuery[];
+  /** Roles the current user can share queries with */
+  roles?: string[];
 }
 
 export async function GET() {
@@ -43,20 +52,19 @@ export async function GET() {
     }
 
     const client = createClient(config);
-
-    // Ensure table exists (idempotent, fast enough to check or cache)
-    // For now we just run it, assuming it's cheap IF NOT EXISTS
-    // Or we could try-catch the select and create if missing
     await ensureMetadataInfrastructure(config);
 
-    const safeUsername = escapeSqlString(session.user.username);
-    const result = await client.query<SavedQuery>(`
-      SELECT * FROM ${METADATA_DB}.${SAVED_QUERIES_TABLE}
-      WHERE created_by = '${safeUsername}'
-      ORDER BY created_at DESC
-    `);
-
-    return NextResponse.json({ success: true, data: result.data });
+    const roles = await getEffectiveRoles(session.user.username);
+    const accessFilter = buildSavedQueryAccessFilter(session.user.username, roles);
+    const result = await client.query<SavedQueryRow>(
+      getLatestSavedQueriesQuery(accessFilter),
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+      roles: [...roles].sort(),
+    });
   } catch (error) {
     console.error("Failed to fetch saved queries:", error);
     return ApiErrors.fromError(error, "Failed to fetch saved queries");
@@ -73,35 +81,23 @@ export async function POST(request: NextRequest) {
   }
 
   try {
-    const body = await request.json();
-    const { name, sql, description = "" } = body;
-
-    if (!name || !sql) {
-      return ApiErrors.badRequest("Name and SQL are required");
-    }
-
-    // Validate input lengths to prevent abuse
-    const MAX_NAME_LENGTH = 255;
-    const MAX_SQL_LENGTH = 100000;
-    const MAX_DESCRIPTION_LENGTH = 2000;
-
-    if (typeof name !== "string" || name.length > MAX_NAME_LENGTH) {
-      return ApiErrors.badRequest(
-        `Name must be a string of at most ${MAX_NAME_LENGTH} characters`,
-      );
-    }
-    if (typeof sql !== "string" || sql.length > MAX_SQL_LENGTH) {
-      return ApiErrors.badRequest(
-        `SQL must be a string of at most ${MAX_SQL_LENGTH} characters`,
-      );
+    const validation = await validateRequest(request, SavedQuerySchema);
+    if (!validation.success) {
+      return validationErrorResponse(validation);
     }
-    if (
-      typeof description !== "string" ||
-      description.length > MAX_DESCRIPTION_LENGTH
-    ) {
-      return ApiErrors.badRequest(
-        `Description must be a string of at most ${MAX_DESCRIPTION_LENGTH} characters`,
-      );
+    const body = validation.data;
+
+    if (body.visibility === "roles") {
+      if (body.shared_roles.length === 0) {
+        return ApiErrors.badRequest("Select at least one role to share with");
+      }
+      const roles = await getEffectiveRoles(session.user.username);
+      const unsharable = findUnsharableRoles(body.shared_roles, roles);
+      if (unsharable.length > 0) {
+        return ApiErrors.badRequest(
+          `You can only share with roles you hold: ${unsharable.join(", ")}`,
+        );
+      }
     }
 
     const config = await getSessionLensConfig();
@@ -113,15 +109,23 @@ export async function POST(request: NextRequest) {
     await ensureMetadataInfrastructure(config);
 
     const id = generateUUID();
-    const safeSql = escapeSqlString(sql);
-    const safeName = escapeSqlString(name);
-    const safeDesc = escapeSqlString(description);
-    const safeUser = escapeSqlString(session.user.username);
-
-    await client.command(`
-      INSERT INTO ${METADATA_DB}.${SAVED_QUERIES_TABLE} (id, name, sql, description, created_by)
-      VALUES ('${id}', '${safeName}', '${safeSql}', '${safeDesc}', '${safeUser}')
-    `);
+    await client.command(
+      getInsertSavedQueryStatement({
+        id,
+        name: body.name,
+        sql: body.sql,
+        description: body.description,
+        created_by: session.user.username,
+        folder: normalizeFolder(body.folder),
+        tags: normalizeTags(body.tags),
+        visibility: body.visibility,
+        shared_roles: body.visibility === "roles" ? body.shared_roles : [],
+        params: body.params,
+        revision: 1,
+        updated_by: session.user.username,
+        is_deleted: 0,
+      }),
+    );
 
     return NextResponse.json({ success: true, id });
   } catch (error) {
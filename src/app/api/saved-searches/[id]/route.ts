@@ -0,0 +1,201 @@
+/**
+ * API route for a single saved Discover search
+ * GET /api/saved-searches/[id] - Load a search (used by shared links)
+ * PUT /api/saved-searches/[id] - Update a search (stored as a new revision)
+ * DELETE /api/saved-searches/[id] - Delete a search
+ *
+ * Only the owner of a search can change or delete it.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSession, getSessionLensConfig, getEffectiveRoles } from "@/lib/auth";
+import { createClient } from "@/lib/clickhouse";
+import { ensureMetadataInfrastructure } from "@/lib/clickhouse/metadata";
+import {
+  buildSavedQueryAccessFilter,
+  findUnsharableRoles,
+  isSavedItemId,
+} from "@/lib/clickhouse/saved-queries";
+import {
+  getInsertSavedSearchStatement,
+  getSavedSearch,
+} from "@/lib/clickhouse/saved-searches";
+import { ApiErrors, apiError } from "@/lib/api";
+import { requireCsrf } from "@/lib/auth/csrf";
+import { validateRequest, validationErrorResponse } from "@/lib/validation";
+import { SavedSearchSchema } from "@/lib/validation/schemas";
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const session = await getSession();
+  if (!session.isLoggedIn || !session.user) {
+    return ApiErrors.unauthorized();
+  }
+
+  try {
+    const { id } = await params;
+    if (!isSavedItemId(id)) {
+      return ApiErrors.notFound("Saved search");
+    }
+
+    const config = await getSessionLensConfig();
+    if (!config) {
+      return apiError(503, "INTERNAL_ERROR", "Metadata storage not configured", "Saved searches feature is not configured");
+    }
+
+    const client = createClient(config);
+    await ensureMetadataInfrastructure(config);
+
+    const roles = await getEffectiveRoles(session.user.username);
+    const search = await getSavedSearch(
+      client,
+      id,
+      buildSavedQueryAccessFilter(session.user.username, roles),
+    );
+    if (!search) {
+      return ApiErrors.notFound("Saved search");
+    }
+
+    return NextResponse.json({ success: true, data: search });
+  } catch (error) {
+    console.error("Failed to fetch saved search:", error);
+    return ApiErrors.fromError(error, "Failed to fetch saved search");
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const csrfError = await requireCsrf(request);
+  if (csrfError) return csrfError;
+
+  const session = await getSession();
+  if (!session.isLoggedIn || !session.user) {
+    return ApiErrors.unauthorized();
+  }
+
+  try {
+    const { id } = await params;
+    if (!isSavedItemId(id)) {
+      return ApiErrors.notFound("Saved search");
+    }
+    const validation = await validateRequest(request, SavedSearchSchema);
+    if (!validation.success) {
+      return validationErrorResponse(validation);
+    }
+    const body = validation.data;
+    const username = session.user.username;
+    const roles = await getEffectiveRoles(username);
+
+    if (body.visibility === "roles") {
+      if (body.shared_roles.length === 0) {
+        return ApiErrors.badRequest("Select at least one role to share with");
+      }
+      const unsharable = findUnsharableRoles(body.shared_roles, roles);
+      if (unsharable.length > 0) {
+        return ApiErrors.badRequest(
+          `You can only share with roles you hold: ${unsharable.join(", ")}`,
+        );
+      }
+    }
+
+    const config = await getSessionLensConfig();
+    if (!config) {
+      return apiError(503, "INTERNAL_ERROR", "Metadata storage not configured", "Saved searches feature is not configured");
+    }
+
+    const client = createClient(config);
+    await ensureMetadataInfrastructure(config);
+
+    const current = await getSavedSearch(
+      client,
+      id,
+      buildSavedQueryAccessFilter(username, roles),
+    );
+    if (!current) {
+      return ApiErrors.notFound("Saved search");
+    }
+    if (current.created_by !== username) {
+      return ApiErrors.forbidden("Only the owner can edit this search");
+    }
+
+    const revision = current.revision + 1;
+    await client.command(
+      getInsertSavedSearchStatement({
+        ...body,
+        id,
+        created_by: current.created_by,
+        created_at: current.created_at,
+        shared_roles: body.visibility === "roles" ? body.shared_roles : [],
+        revision,
+        updated_by: username,
+        is_deleted: 0,
+      }),
+    );
+
+    return NextResponse.json({ success: true, id, revision });
+  } catch (error) {
+    console.error("Failed to update saved search:", error);
+    return ApiErrors.fromError(error, "Failed to update saved search");
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const csrfError = await requireCsrf(request);
+  if (csrfError) return csrfError;
+
+  const session = await getSession();
+  if (!session.isLoggedIn || !session.user) {
+    return ApiErrors.unauthorized();
+  }
+
+  try {
+    const { id } = await params;
+    if (!isSavedItemId(id)) {
+      return ApiErrors.notFound("Saved search");
+    }
+    const username = session.user.username;
+
+    const config = await getSessionLensConfig();
+    if (!config) {
+      return apiError(503, "INTERNAL_ERROR", "Metadata storage not configured", "Saved searches feature is not configured");
+    }
+
+    const client = createClient(config);
+    await ensureMetadataInfrastructure(config);
+
+    const roles = await getEffectiveRoles(username);
+    const current = await getSavedSearch(
+      client,
+      id,
+      buildSavedQueryAccessFilter(username, roles),
+    );
+    if (!current) {
+      return ApiErrors.notFound("Saved search");
+    }
+    if (current.created_by !== username) {
+      return ApiErrors.forbidden("Only the owner can delete this search");
+    }
+
+    // Tombstone revision; earlier revisions are kept for auditing
+    await client.command(
+      getInsertSavedSearchStatement({
+        ...current,
+        revision: current.revision + 1,
+        updated_by: username,
+        is_deleted: 1,
+      }),
+    );
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Failed to delete saved search:", error);
+    return ApiErrors.fromError(error, "Failed to delete saved search");
+  }
+}
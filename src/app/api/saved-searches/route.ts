@@ -0,0 +1,130 @@
+/**
+ * API route for managing saved Discover searches
+ * GET /api/saved-searches - List saved searches visible to the current user
+ * POST /api/saved-searches - Save a new search
+ *
+ * Searches follow the saved queries sharing model: visible to their owner,
+ * to users holding one of the roles they are shared with, or to everyone
+ * when published.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSession, getSessionLensConfig, getEffectiveRoles } from "@/lib/auth";
+import { createClient, isLensUserConfigured } from "@/lib/clickhouse";
+import { generateUUID } from "@/lib/utils";
+import { ensureMetadataInfrastructure } from "@/lib/clickhouse/metadata";
+import {
+  buildSavedQueryAccessFilter,
+  findUnsharableRoles,
+} from "@/lib/clickhouse/saved-queries";
+import {
+  getInsertSavedSearchStatement,
+  getLatestSavedSearchesQuery,
+  type SavedSearchRow,
+} from "@/lib/clickhouse/saved-searches";
+import { ApiErrors, apiError } from "@/lib/api";
+import { requireCsrf } from "@/lib/auth/csrf";
+import { validateRequest, validationErrorResponse } from "@/lib/validation";
+import { SavedSearchSchema } from "@/lib/validation/schemas";
+
+export type SavedSearch = Omit<SavedSearchRow, "is_deleted">;
+
+export interface SavedSearchesResponse {
+  success: boolean;
+  data?: SavedSearch[];
+  /** Roles the current user can share searches with */
+  roles?: string[];
+}
+
+export async function GET() {
+  const session = await getSession();
+  if (!session.isLoggedIn || !session.user) {
+    return ApiErrors.unauthorized();
+  }
+
+  if (!isLensUserConfigured()) {
+    return apiError(503, "INTERNAL_ERROR", "Metadata storage not configured", "Saved searches feature is not configured");
+  }
+
+  try {
+    const config = await getSessionLensConfig();
+    if (!config) {
+      return apiError(503, "INTERNAL_ERROR", "Metadata storage not configured", "Saved searches feature is not configured");
+    }
+
+    const client = createClient(config);
+    await ensureMetadataInfrastructure(config);
+
+    const roles = await getEffectiveRoles(session.user.username);
+    const accessFilter = buildSavedQueryAccessFilter(session.user.username, roles);
+    const result = await client.query<SavedSearchRow>(
+      getLatestSavedSearchesQuery(accessFilter),
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+      roles: [...roles].sort(),
+    });
+  } catch (error) {
+    console.error("Failed to fetch saved searches:", error);
+    return ApiErrors.fromError(error, "Failed to fetch saved searches");
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const csrfError = await requireCsrf(request);
+  if (csrfError) return csrfError;
+
+  const session = await getSession();
+  if (!session.isLoggedIn || !session.user) {
+    return ApiErrors.unauthorized();
+  }
+
+  try {
+    const validation = await validateRequest(request, SavedSearchSchema);
+    if (!validation.success) {
+      return validationErrorResponse(validation);
+    }
+    const body = validation.data;
+
+    if (body.visibility === "roles") {
+      if (body.shared_roles.length === 0) {
+        return ApiErrors.badRequest("Select at least one role to share with");
+      }
+      const roles = await getEffectiveRoles(session.user.username);
+      const unsharable = findUnsharableRoles(body.shared_roles, roles);
+      if (unsharable.length > 0) {
+        return ApiErrors.badRequest(
+          `You can only share with roles you hold: ${unsharable.join(", ")}`,
+        );
+      }
+    }
+
+    const config = await getSessionLensConfig();
+    if (!config) {
+      return apiError(503, "INTERNAL_ERROR", "Metadata storage not configured", "Saved searches feature is not configured");
+    }
+
+    const client = createClient(config);
+    await ensureMetadataInfrastructure(config);
+
+    const id = generateUUID();
+    await client.command(
+      getInsertSavedSearchStatement({
+        ...body,
+        id,
+        created_by: session.user.username,
+        shared_roles: body.visibility === "roles" ? body.shared_roles : [],
+        revision: 1,
+        updated_by: session.user.username,
+        is_deleted: 0,
+      }),
+    );
+
+    return NextResponse.json({ success: true, id });
+  } catch (error) {
+    console.error("Failed to save search:", error);
+    return ApiErrors.fromError(error, "Failed to save search");
+  }
+}
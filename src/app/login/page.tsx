@@ -21,7 +21,14 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
-import { AlertCircle, Loader2, Eye, EyeOff } from "lucide-react";
+import { AlertCircle, Loader2, Eye, EyeOff, KeyRound } from "lucide-react";
+
+interface LoginCluster {
+  id: string;
+  label: string;
+  /** Present when the cluster offers OIDC single sign-on */
+  sso?: { label: string };
+}
 
 export default function LoginPage() {
   const router = useRouter();
@@ -35,11 +42,17 @@ export default function LoginPage() {
   });
 
   const [showPassword, setShowPassword] = useState(false);
-  const [clusters, setClusters] = useState<{ id: string; label: string }[]>([]);
+  const [clusters, setClusters] = useState<LoginCluster[]>([]);
   const [selectedCluster, setSelectedCluster] = useState<string>("");
 
   // Check if already logged in
   useEffect(() => {
+    // Errors from the SSO callback arrive as ?error=
+    const ssoError = new URLSearchParams(window.location.search).get("error");
+    if (ssoError) {
+      setError(ssoError);
+    }
+
     const checkSession = async () => {
       try {
         const response = await fetchApi("/api/auth/session");
@@ -107,6 +120,14 @@ export default function LoginPage() {
     }
   };
 
+  const ssoCluster = clusters.find((c) => c.id === selectedCluster)?.sso;
+
+  const handleSsoLogin = () => {
+    setIsSubmitting(true);
+    const params = new URLSearchParams({ clusterId: selectedCluster });
+    window.location.href = withBasePath(`/api/auth/oidc/login?${params}`);
+  };
+
   const handleChange =
     (field: string) => (e: React.ChangeEvent<HTMLInputElement>) => {
       setFormData((prev) => ({ ...prev, [field]: e.target.value }));
@@ -220,6 +241,26 @@ export default function LoginPage() {
                 "Sign In"
               )}
             </Button>
+
+            {ssoCluster && (
+              <>
+                <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <div className="h-px flex-1 bg-border" />
+                  or
+                  <div className="h-px flex-1 bg-border" />
+                </div>
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="w-full"
+                  disabled={isSubmitting}
+                  onClick={handleSsoLogin}
+                >
+                  <KeyRound className="w-4 h-4 mr-2" />
+                  {ssoCluster.label}
+                </Button>
+              </>
+            )}
           </form>
 
           <p className="mt-4 text-xs text-center text-muted-foreground">
@@ -17,6 +17,8 @@ interface User {
   host: string;
   username: string;
   database: string;
+  /** Signed in through OIDC single sign-on */
+  sso?: boolean;
 }
 
 interface Permissions {
@@ -25,6 +27,7 @@ interface Permissions {
   canKillQueries: boolean;
   canViewCluster: boolean;
   canBrowseTables: boolean;
+  canManageTables: boolean;
   canExecuteQueries: boolean;
   canDiscover: boolean;
   canViewSettings: boolean;
@@ -91,6 +94,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
           canKillQueries: data.permissions.canKillQueries,
           canViewCluster: data.permissions.canViewCluster,
           canBrowseTables: data.permissions.canBrowseTables,
+          canManageTables: data.permissions.canManageTables ?? false,
           canExecuteQueries: data.permissions.canExecuteQueries,
           canDiscover: data.permissions.canDiscover,
           canViewSettings: data.permissions.canViewSettings,
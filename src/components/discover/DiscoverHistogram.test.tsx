@@ -60,6 +60,24 @@ describe("DiscoverHistogram", () => {
     });
   });
 
+  describe("Split Series", () => {
+    test("should size by time buckets rather than series rows", () => {
+      const { container } = render(
+        <DiscoverHistogram
+          data={[
+            { time: "2024-01-01T00:00:00Z", series: "Error", count: 3 },
+            { time: "2024-01-01T00:00:00Z", series: null, count: 7 },
+            { time: "2024-01-01T01:00:00Z", series: "Error", count: 1 },
+          ]}
+        />,
+      );
+      const chartContainer = container.firstChild as HTMLElement;
+      expect(chartContainer).not.toBeNull();
+      // Two buckets plus room for the legend
+      expect(chartContainer?.style.height).toBe("128px");
+    });
+  });
+
   describe("Loading State", () => {
     test("should show loading skeleton when loading with no data", () => {
       const { container } = render(<DiscoverHistogram data={[]} isLoading />);
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useMemo, useCallback, memo } from "react";
+import { useState, useMemo, useCallback, useRef, memo } from "react";
 import {
   BarChart,
   Bar,
@@ -10,6 +10,7 @@ import {
   Tooltip,
   ResponsiveContainer,
   Cell,
+  Legend,
   ReferenceArea,
 } from "recharts";
 import { Card } from "@/components/ui/card";
@@ -18,15 +19,54 @@ import { useTheme } from "next-themes";
 interface HistogramData {
   time: string;
   count: number;
+  /** Split-by value; null for "Other" */
+  series?: string | null;
+}
+
+/** One bar: the total, or one value per series when split */
+interface HistogramBucket {
+  time: string;
+  timeObj: Date;
+  count?: number;
+  values?: Record<string, number>;
 }
 
 interface DiscoverHistogramProps {
   data: HistogramData[];
   isLoading?: boolean;
   onBarClick?: (startTime: string, endTime?: string) => void;
+  /** Called instead of onBarClick when a series of a split bar is clicked */
+  onSegmentClick?: (series: string, startTime: string, endTime: string) => void;
+  /** Stack split series; off for aggregations that do not add up, like avg */
+  stacked?: boolean;
+  /** Tooltip label of the plotted value */
+  valueLabel?: string;
   activeTime?: string | null;
 }
 
+const OTHER_SERIES = "__other__";
+
+const SERIES_COLORS = [
+  "#3b82f6", // blue
+  "#f59e0b", // amber
+  "#22c55e", // green
+  "#ef4444", // red
+  "#8b5cf6", // purple
+  "#06b6d4", // cyan
+  "#ec4899", // pink
+  "#84cc16", // lime
+];
+
+const OTHER_COLOR = "#9ca3af";
+
+function seriesKey(series: string | null | undefined): string {
+  return series === null || series === undefined ? OTHER_SERIES : `value:${series}`;
+}
+
+function seriesLabel(key: string): string {
+  return key === OTHER_SERIES ? "Other" : key.slice("value:".length);
+}
+
 // Type for Recharts events
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 type ChartEvent = any;
@@ -35,40 +75,81 @@ export const DiscoverHistogram = memo(function DiscoverHistogram({
   data,
   isLoading,
   onBarClick,
+  onSegmentClick,
+  stacked = true,
+  valueLabel = "count",
 }: DiscoverHistogramProps) {
   const { theme } = useTheme();
   const [refAreaLeft, setRefAreaLeft] = useState<string | null>(null);
   const [refAreaRight, setRefAreaRight] = useState<string | null>(null);
   const [isDragging, setIsDragging] = useState(false);
+  // Series under the pointer on mouse down; bar mouse down runs before the chart's
+  const pressedSeriesRef = useRef<string | null>(null);
 
-  const formattedData = useMemo(() => {
-    return data.map((item) => ({
-      ...item,
-      timeObj: new Date(item.time),
-    }));
-  }, [data]);
+  const isSplit = useMemo(
+    () => data.some((item) => item.series !== undefined),
+    [data],
+  );
+
+  // Series keys by total, largest first, with "Other" last
+  const seriesKeys = useMemo(() => {
+    if (!isSplit) return [];
+    const totals = new Map<string, number>();
+    for (const item of data) {
+      const key = seriesKey(item.series);
+      totals.set(key, (totals.get(key) ?? 0) + Number(item.count));
+    }
+    return [...totals.entries()]
+      .sort((a, b) => {
+        if (a[0] === OTHER_SERIES) return 1;
+        if (b[0] === OTHER_SERIES) return -1;
+        return b[1] - a[1];
+      })
+      .map(([key]) => key);
+  }, [data, isSplit]);
+
+  const formattedData = useMemo<HistogramBucket[]>(() => {
+    if (!isSplit) {
+      return data.map((item) => ({
+        ...item,
+        timeObj: new Date(item.time),
+      }));
+    }
+
+    const buckets = new Map<string, HistogramBucket>();
+    for (const item of data) {
+      let bucket = buckets.get(item.time);
+      if (!bucket) {
+        bucket = { time: item.time, timeObj: new Date(item.time), values: {} };
+        buckets.set(item.time, bucket);
+      }
+      bucket.values![seriesKey(item.series)] = Number(item.count);
+    }
+    return [...buckets.values()];
+  }, [data, isSplit]);
 
   // Calculate interval between bars to determine range
   const intervalMs = useMemo(() => {
-    if (data.length < 2) return 0;
-    const t1 = new Date(data[0].time).getTime();
-    const t2 = new Date(data[1].time).getTime();
+    if (formattedData.length < 2) return 0;
+    const t1 = new Date(formattedData[0].time).getTime();
+    const t2 = new Date(formattedData[1].time).getTime();
     return Math.abs(t2 - t1);
-  }, [data]);
+  }, [formattedData]);
 
   const adaptiveHeight = useMemo(() => {
-    if (data.length === 0) return 150;
+    if (formattedData.length === 0) return 150;
 
     const minHeight = 100;
     const maxHeight = 300;
     const heightPerPoint = 2;
 
     const calculatedHeight = Math.min(
-      minHeight + data.length * heightPerPoint,
+      minHeight + formattedData.length * heightPerPoint,
       maxHeight,
     );
-    return calculatedHeight;
-  }, [data.length]);
+    // Room for the legend
+    return isSplit ? calculatedHeight + 24 : calculatedHeight;
+  }, [formattedData.length, isSplit]);
 
   const formatDate = useCallback(
     (time: string) => {
@@ -84,12 +165,12 @@ export const DiscoverHistogram = memo(function DiscoverHistogram({
 
         const dateStr = `${date.getMonth() + 1}/${date.getDate()}`;
 
-        if (data.length <= 1) {
+        if (formattedData.length <= 1) {
           return `${dateStr} ${timeStr}`;
         }
 
-        const start = new Date(data[0].time);
-        const end = new Date(data[data.length - 1].time);
+        const start = new Date(formattedData[0].time);
+        const end = new Date(formattedData[formattedData.length - 1].time);
 
         if (
           start.getFullYear() !== end.getFullYear() ||
@@ -108,25 +189,24 @@ export const DiscoverHistogram = memo(function DiscoverHistogram({
         return time;
       }
     },
-    [data, intervalMs],
+    [formattedData, intervalMs],
   );
 
   const handleBarClick = useCallback(
-    (time: string) => {
-      if (!onBarClick) return;
+    (time: string, series: string | null = null) => {
+      const startTime = new Date(time);
+      // Fallback to an hour for a single bar or unknown interval
+      const endTime = new Date(
+        startTime.getTime() + (intervalMs > 0 ? intervalMs : 60 * 60 * 1000),
+      );
 
-      if (intervalMs > 0) {
-        const startTime = new Date(time);
-        const endTime = new Date(startTime.getTime() + intervalMs);
-        onBarClick(startTime.toISOString(), endTime.toISOString());
-      } else {
-        // Fallback for single bar or unknown interval
-        const startTime = new Date(time);
-        const endTime = new Date(startTime.getTime() + 60 * 60 * 1000);
+      if (series !== null && onSegmentClick) {
+        onSegmentClick(series, startTime.toISOString(), endTime.toISOString());
+      } else if (onBarClick) {
         onBarClick(startTime.toISOString(), endTime.toISOString());
       }
     },
-    [onBarClick, intervalMs],
+    [onBarClick, onSegmentClick, intervalMs],
   );
 
   const handleMouseDown = useCallback((e: ChartEvent) => {
@@ -147,6 +227,8 @@ export const DiscoverHistogram = memo(function DiscoverHistogram({
 
   const handleMouseUp = useCallback(() => {
     setIsDragging(false);
+    const pressedSeries = pressedSeriesRef.current;
+    pressedSeriesRef.current = null;
 
     if (refAreaLeft && refAreaRight && onBarClick) {
       const leftTime = new Date(refAreaLeft).getTime();
@@ -161,14 +243,14 @@ export const DiscoverHistogram = memo(function DiscoverHistogram({
       }
 
       if (start === end) {
-        handleBarClick(start);
+        handleBarClick(start, pressedSeries);
       } else {
         // Range selection via brush
         onBarClick(start, end);
       }
-    } else if (refAreaLeft && !refAreaRight && onBarClick) {
+    } else if (refAreaLeft && !refAreaRight) {
       // Single click without drag
-      handleBarClick(refAreaLeft);
+      handleBarClick(refAreaLeft, pressedSeries);
     }
 
     setRefAreaLeft(null);
@@ -210,6 +292,7 @@ export const DiscoverHistogram = memo(function DiscoverHistogram({
           onMouseMove={handleMouseMove}
           onMouseUp={handleMouseUp}
           onMouseLeave={() => {
+            pressedSeriesRef.current = null;
             if (isDragging) {
               setIsDragging(false);
               setRefAreaLeft(null);
@@ -262,22 +345,58 @@ export const DiscoverHistogram = memo(function DiscoverHistogram({
               }
               return String(label);
             }}
+            formatter={(value) =>
+              typeof value === "number"
+                ? value.toLocaleString(undefined, { maximumFractionDigits: 2 })
+                : value
+            }
             cursor={{ fill: "transparent" }}
           />
-          <Bar
-            dataKey="count"
-            fill={theme === "dark" ? "#60a5fa" : "#3b82f6"}
-            radius={[2, 2, 0, 0]}
-            maxBarSize={50}
-            className="cursor-pointer hover:opacity-80 transition-opacity"
-          >
-            {formattedData.map((_, index) => (
-              <Cell
-                key={`cell-${index}`}
-                fill={theme === "dark" ? "#60a5fa" : "#3b82f6"}
+          {isSplit ? (
+            seriesKeys.map((key, index) => (
+              <Bar
+                key={key}
+                dataKey={(bucket: HistogramBucket) => bucket.values?.[key]}
+                name={seriesLabel(key)}
+                stackId={stacked ? "split" : undefined}
+                fill={
+                  key === OTHER_SERIES
+                    ? OTHER_COLOR
+                    : SERIES_COLORS[index % SERIES_COLORS.length]
+                }
+                maxBarSize={50}
+                className="cursor-pointer hover:opacity-80 transition-opacity"
+                onMouseDown={() => {
+                  pressedSeriesRef.current =
+                    key === OTHER_SERIES ? null : seriesLabel(key);
+                }}
               />
-            ))}
-          </Bar>
+            ))
+          ) : (
+            <Bar
+              dataKey="count"
+              name={valueLabel}
+              fill={theme === "dark" ? "#60a5fa" : "#3b82f6"}
+              radius={[2, 2, 0, 0]}
+              maxBarSize={50}
+              className="cursor-pointer hover:opacity-80 transition-opacity"
+            >
+              {formattedData.map((_, index) => (
+                <Cell
+                  key={`cell-${index}`}
+                  fill={theme === "dark" ? "#60a5fa" : "#3b82f6"}
+                />
+              ))}
+            </Bar>
+          )}
+          {isSplit && (
+            <Legend
+              verticalAlign="top"
+              height={24}
+              iconSize={8}
+              wrapperStyle={{ fontSize: "11px" }}
+            />
+          )}
 
           {refAreaLeft && refAreaRight ? (
             <ReferenceArea
@@ -0,0 +1,248 @@
+"use client";
+
+import { useState } from "react";
+import { BarChart3, Filter, FilterX, Loader2 } from "lucide-react";
+import { fetchApi } from "@/lib/api/client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import type { FieldStats } from "@/lib/clickhouse/field-stats";
+import type { QueryLanguage } from "@/lib/types/discover";
+
+export interface FieldStatsParams {
+  database: string;
+  table: string;
+  timeColumn?: string;
+  minTime?: string;
+  maxTime?: string;
+  filter?: string;
+  language?: QueryLanguage;
+}
+
+interface FieldStatsPopoverProps {
+  column: string;
+  params: FieldStatsParams;
+  onFilterForValue?: (column: string, value: unknown) => void;
+  onFilterOutValue?: (column: string, value: unknown) => void;
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return "null";
+  if (typeof value === "number") {
+    return Number.isInteger(value)
+      ? value.toLocaleString()
+      : value.toLocaleString(undefined, { maximumFractionDigits: 3 });
+  }
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+function formatPercent(percent: number): string {
+  if (percent > 0 && percent < 0.1) return "<0.1%";
+  return `${percent.toFixed(1)}%`;
+}
+
+/**
+ * Statistics for one field over the current filter and time range: top
+ * values, cardinality, nulls and, for numeric and DateTime fields, the
+ * value distribution
+ */
+export function FieldStatsPopover({
+  column,
+  params,
+  onFilterForValue,
+  onFilterOutValue,
+}: FieldStatsPopoverProps) {
+  const [open, setOpen] = useState(false);
+  const [stats, setStats] = useState<FieldStats | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadStats = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const query = new URLSearchParams({
+        database: params.database,
+        table: params.table,
+        column,
+      });
+      if (params.timeColumn) query.set("timeColumn", params.timeColumn);
+      if (params.minTime) query.set("minTime", params.minTime);
+      if (params.maxTime) query.set("maxTime", params.maxTime);
+      if (params.filter) {
+        query.set("filter", params.filter);
+        if (params.language === "kql") query.set("language", "kql");
+      }
+
+      const res = await fetchApi(`/api/clickhouse/discover/field-stats?${query}`);
+      const data = await res.json();
+      if (data.success && data.data) {
+        setStats(data.data);
+      } else {
+        setError(data.error || "Failed to load field statistics");
+      }
+    } catch (err) {
+      console.error("Failed to load field stats:", err);
+      setError("Failed to load field statistics");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    // Refetch on every open: the filter or time range may have changed
+    if (next) loadStats();
+  };
+
+  const distribution = stats?.distribution;
+  const maxBucket = distribution
+    ? Math.max(1, ...distribution.histogram.map((b) => b.count))
+    : 1;
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-5 w-5 shrink-0 opacity-30 hover:opacity-100 group-hover/field:opacity-100 text-muted-foreground hover:text-foreground"
+          title="Field statistics"
+        >
+          <BarChart3 className="h-3.5 w-3.5" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent side="right" align="start" className="w-80 p-0">
+        <div className="flex items-center justify-between gap-2 px-3 py-2 border-b">
+          <span className="font-mono text-sm font-medium truncate">{column}</span>
+          {stats?.sampled && (
+            <Badge variant="outline" className="text-[10px]" title="Estimated from a sample of the table">
+              sampled
+            </Badge>
+          )}
+        </div>
+
+        {loading && !stats ? (
+          <div className="flex items-center gap-1.5 p-3 text-xs text-muted-foreground">
+            <Loader2 className="h-3 w-3 animate-spin" />
+            Computing statistics...
+          </div>
+        ) : error ? (
+          <p className="p-3 text-xs text-red-500">{error}</p>
+        ) : stats ? (
+          <div className="space-y-3 p-3 text-xs">
+            <div className="grid grid-cols-3 gap-2">
+              <div>
+                <div className="text-muted-foreground">Rows</div>
+                <div className="font-medium tabular-nums">{stats.total.toLocaleString()}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Distinct</div>
+                <div className="font-medium tabular-nums">
+                  ~{stats.cardinality.toLocaleString()}
+                </div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Null</div>
+                <div className="font-medium tabular-nums">
+                  {formatPercent(stats.nullRatio * 100)}
+                </div>
+              </div>
+            </div>
+
+            {distribution && (
+              <div className="space-y-1.5">
+                <div className="flex h-10 items-end gap-px" aria-label="Value distribution">
+                  {distribution.histogram.map((bucket, i) => (
+                    <div
+                      key={i}
+                      className="flex-1 bg-primary/60 rounded-t-sm"
+                      style={{ height: `${Math.max(4, (bucket.count / maxBucket) * 100)}%` }}
+                      title={`${formatValue(
+                        stats.kind === "datetime" ? new Date(bucket.lower).toISOString() : bucket.lower,
+                      )} – ${formatValue(
+                        stats.kind === "datetime" ? new Date(bucket.upper).toISOString() : bucket.upper,
+                      )}: ~${Math.round(bucket.count).toLocaleString()}`}
+                    />
+                  ))}
+                </div>
+                <div className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5 font-mono">
+                  <span className="text-muted-foreground">min</span>
+                  <span className="truncate">{formatValue(distribution.min)}</span>
+                  <span className="text-muted-foreground">p50</span>
+                  <span className="truncate">{formatValue(distribution.quantiles.p50)}</span>
+                  <span className="text-muted-foreground">p90</span>
+                  <span className="truncate">{formatValue(distribution.quantiles.p90)}</span>
+                  <span className="text-muted-foreground">p99</span>
+                  <span className="truncate">{formatValue(distribution.quantiles.p99)}</span>
+                  <span className="text-muted-foreground">max</span>
+                  <span className="truncate">{formatValue(distribution.max)}</span>
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-1">
+              <div className="text-muted-foreground">Top {stats.topValues.length} values</div>
+              {stats.topValues.length === 0 ? (
+                <p className="text-muted-foreground">No values found</p>
+              ) : (
+                stats.topValues.map((fv, i) => (
+                  <div key={i} className="group space-y-0.5">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="truncate font-mono min-w-0">{formatValue(fv.value)}</span>
+                      <div className="flex items-center gap-1 shrink-0">
+                        <div className="hidden group-hover:flex items-center gap-0.5">
+                          {onFilterForValue && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-5 w-5"
+                              title="Filter for value"
+                              onClick={() => {
+                                setOpen(false);
+                                onFilterForValue(column, fv.value);
+                              }}
+                            >
+                              <Filter className="h-3 w-3" />
+                            </Button>
+                          )}
+                          {onFilterOutValue && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-5 w-5"
+                              title="Filter out value"
+                              onClick={() => {
+                                setOpen(false);
+                                onFilterOutValue(column, fv.value);
+                              }}
+                            >
+                              <FilterX className="h-3 w-3" />
+                            </Button>
+                          )}
+                        </div>
+                        <span className="text-muted-foreground tabular-nums">
+                          {formatPercent(fv.percent)}
+                        </span>
+                      </div>
+                    </div>
+                    <div className="h-1 rounded bg-muted">
+                      <div
+                        className="h-1 rounded bg-primary/60"
+                        style={{ width: `${Math.min(100, fv.percent)}%` }}
+                      />
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        ) : null}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -24,6 +24,7 @@ import {
 } from "lucide-react";
 import { fetchApi } from "@/lib/api/client";
 import type { ColumnMetadata, TimeColumnCandidate } from "@/lib/types/discover";
+import { FieldStatsPopover, type FieldStatsParams } from "./FieldStatsPopover";
 import { cn } from "@/lib/utils";
 import { TruncatedCell } from "@/components/monitoring";
 
@@ -39,14 +40,7 @@ interface FieldsSidebarProps {
   onFilterOutValue?: (column: string, value: unknown) => void;
   groupBy?: string[];
   onGroupByChange?: (columns: string[]) => void;
-  fieldValuesParams?: {
-    database: string;
-    table: string;
-    timeColumn?: string;
-    minTime?: string;
-    maxTime?: string;
-    filter?: string;
-  };
+  fieldValuesParams?: FieldStatsParams;
   className?: string;
 }
 
@@ -179,8 +173,10 @@ export function FieldsSidebar({
           params.set("minTime", fieldValuesParams.minTime);
         if (fieldValuesParams.maxTime)
           params.set("maxTime", fieldValuesParams.maxTime);
-        if (fieldValuesParams.filter)
+        if (fieldValuesParams.filter) {
           params.set("filter", fieldValuesParams.filter);
+          if (fieldValuesParams.language === "kql") params.set("language", "kql");
+        }
 
         const res = await fetchApi(
           `/api/clickhouse/discover/field-values?${params}`,
@@ -392,22 +388,32 @@ export function FieldsSidebar({
                       />
                     </Badge>
                     
-                    {onGroupByChange && (
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        className={cn(
-                          "h-5 w-5 shrink-0 transition-opacity ml-auto",
-                          isGrouped 
-                            ? "opacity-100 text-primary bg-primary/10 hover:bg-primary/20" 
-                            : "opacity-30 hover:opacity-100 group-hover/field:opacity-100 text-muted-foreground hover:text-foreground"
-                        )}
-                        onClick={() => handleGroupByToggle(col.name)}
-                        title={isGrouped ? "Remove from Group By" : "Add to Group By"}
-                      >
-                        <FolderGit2 className="h-3.5 w-3.5" />
-                      </Button>
-                    )}
+                    <div className="ml-auto flex items-center gap-0.5 shrink-0">
+                      {fieldValuesParams && (
+                        <FieldStatsPopover
+                          column={col.name}
+                          params={fieldValuesParams}
+                          onFilterForValue={onFilterForValue}
+                          onFilterOutValue={onFilterOutValue}
+                        />
+                      )}
+                      {onGroupByChange && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className={cn(
+                            "h-5 w-5 shrink-0 transition-opacity",
+                            isGrouped 
+                              ? "opacity-100 text-primary bg-primary/10 hover:bg-primary/20" 
+                              : "opacity-30 hover:opacity-100 group-hover/field:opacity-100 text-muted-foreground hover:text-foreground"
+                          )}
+                          onClick={() => handleGroupByToggle(col.name)}
+                          title={isGrouped ? "Remove from Group By" : "Add to Group By"}
+                        >
+                          <FolderGit2 className="h-3.5 w-3.5" />
+                        </Button>
+                      )}
+                    </div>
                   </div>
 
                   {/* Expanded field values */}
@@ -0,0 +1,135 @@
+"use client";
+
+import { useMemo } from "react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { getFieldStatsKind } from "@/lib/clickhouse/field-stats";
+import {
+  HISTOGRAM_AGGREGATIONS,
+  type ColumnMetadata,
+  type HistogramAggregation,
+} from "@/lib/types/discover";
+
+const NO_SPLIT = "__none__";
+
+const AGGREGATION_LABELS: Record<HistogramAggregation, string> = {
+  count: "Count",
+  avg: "Average",
+  sum: "Sum",
+  min: "Min",
+  max: "Max",
+  p50: "Median",
+  p95: "95th pct",
+  p99: "99th pct",
+};
+
+interface HistogramBreakdownProps {
+  columns: ColumnMetadata[];
+  timeColumn: string;
+  splitBy: string;
+  aggregation: HistogramAggregation;
+  aggregationField: string;
+  onSplitByChange: (column: string) => void;
+  onAggregationChange: (aggregation: HistogramAggregation, field?: string) => void;
+}
+
+/**
+ * Histogram value and split-by pickers: what each bar measures and which
+ * column's top values it is broken down by
+ */
+export function HistogramBreakdown({
+  columns,
+  timeColumn,
+  splitBy,
+  aggregation,
+  aggregationField,
+  onSplitByChange,
+  onAggregationChange,
+}: HistogramBreakdownProps) {
+  const numericColumns = useMemo(
+    () => columns.filter((c) => getFieldStatsKind(c.type) === "numeric"),
+    [columns],
+  );
+
+  // Composite values do not make useful series
+  const splitColumns = useMemo(
+    () =>
+      columns.filter(
+        (c) =>
+          c.name !== timeColumn &&
+          !/^(Array|Map|Tuple|Nested|JSON|Object)\b/.test(c.type),
+      ),
+    [columns, timeColumn],
+  );
+
+  const handleAggregationChange = (value: string) => {
+    const next = value as HistogramAggregation;
+    if (next === "count") {
+      onAggregationChange("count");
+      return;
+    }
+    const field = numericColumns.some((c) => c.name === aggregationField)
+      ? aggregationField
+      : numericColumns[0]?.name;
+    onAggregationChange(next, field);
+  };
+
+  return (
+    <>
+      <Select value={aggregation} onValueChange={handleAggregationChange}>
+        <SelectTrigger className="h-6 w-[100px] text-xs" aria-label="Histogram value">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {HISTOGRAM_AGGREGATIONS.map((agg) => (
+            <SelectItem
+              key={agg}
+              value={agg}
+              disabled={agg !== "count" && numericColumns.length === 0}
+            >
+              {AGGREGATION_LABELS[agg]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {aggregation !== "count" && (
+        <Select
+          value={aggregationField}
+          onValueChange={(field) => onAggregationChange(aggregation, field)}
+        >
+          <SelectTrigger className="h-6 w-[140px] text-xs" aria-label="Histogram field">
+            <SelectValue placeholder="Field" />
+          </SelectTrigger>
+          <SelectContent>
+            {numericColumns.map((c) => (
+              <SelectItem key={c.name} value={c.name} className="font-mono text-xs">
+                {c.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      <Select
+        value={splitBy || NO_SPLIT}
+        onValueChange={(v) => onSplitByChange(v === NO_SPLIT ? "" : v)}
+      >
+        <SelectTrigger className="h-6 w-[150px] text-xs" aria-label="Break down by">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_SPLIT}>No breakdown</SelectItem>
+          {splitColumns.map((c) => (
+            <SelectItem key={c.name} value={c.name} className="font-mono text-xs">
+              by {c.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </>
+  );
+}
@@ -16,6 +16,7 @@ import {
 } from "@/components/ui/popover";
 import { Search, HelpCircle, History, X, Square } from "lucide-react";
 import { cn } from "@/lib/utils";
+import type { QueryLanguage } from "@/lib/types/discover";
 
 interface QueryBarProps {
   value: string;
@@ -27,6 +28,9 @@ interface QueryBarProps {
   placeholder?: string;
   error?: string | null;
   className?: string;
+  /** Language of the query; shows the KQL/SQL toggle with onLanguageChange */
+  language?: QueryLanguage;
+  onLanguageChange?: (language: QueryLanguage) => void;
 }
 
 const QUERY_HISTORY_KEY = "clicklens_discover_query_history";
@@ -42,6 +46,8 @@ export function QueryBar({
   placeholder = "Enter filter expression, e.g. status >= 400 AND host LIKE '%api%'",
   error = null,
   className,
+  language = "sql",
+  onLanguageChange,
 }: QueryBarProps) {
   const [localValue, setLocalValue] = useState(value);
   const debouncedChangeRef = useRef<NodeJS.Timeout | null>(null);
@@ -129,6 +135,26 @@ export function QueryBar({
 
   return (
     <div className={cn("flex items-center gap-2", className)}>
+      {onLanguageChange && (
+        <TooltipProvider>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant="outline"
+                size="sm"
+                className="shrink-0 w-12 font-mono text-xs"
+                onClick={() => onLanguageChange(language === "kql" ? "sql" : "kql")}
+                disabled={isLoading}
+              >
+                {language.toUpperCase()}
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent side="bottom">
+              Switch to {language === "kql" ? "SQL" : "KQL"}
+            </TooltipContent>
+          </Tooltip>
+        </TooltipProvider>
+      )}
       <div className="relative flex-1">
         <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
         <Input
@@ -198,49 +224,88 @@ export function QueryBar({
               <TooltipContent side="bottom" className="max-w-sm">
                 <div className="space-y-2 text-sm">
                   <p className="font-medium">Query Syntax Help</p>
-                  <p className="text-muted-foreground">
-                    Enter a ClickHouse WHERE clause expression:
-                  </p>
-                  <ul className="space-y-1 text-muted-foreground">
-                    <li>
-                      <code className="bg-muted px-1 rounded">
-                        level = &apos;Error&apos;
-                      </code>
-                      <span className="text-xs ml-1">(quote strings!)</span>
-                    </li>
-                    <li>
-                      <code className="bg-muted px-1 rounded">
-                        status &gt;= 400
-                      </code>
-                    </li>
-                    <li>
-                      <code className="bg-muted px-1 rounded">
-                        host LIKE &apos;%api%&apos;
-                      </code>
-                    </li>
-                    <li>
-                      <code className="bg-muted px-1 rounded">
-                        level IN (&apos;Error&apos;, &apos;Fatal&apos;)
-                      </code>
-                    </li>
-                    <li>
-                      <code className="bg-muted px-1 rounded">
-                        message ILIKE &apos;%timeout%&apos;
-                      </code>
-                    </li>
-                    <li>
-                      <code className="bg-muted px-1 rounded">
-                        hasToken(message, &apos;timeout&apos;)
-                      </code>
-                      <span className="text-xs ml-1">(whole-token match)</span>
-                    </li>
-                    <li>
-                      <code className="bg-muted px-1 rounded">
-                        hasTokenCaseInsensitive(host, &apos;api&apos;)
-                      </code>
-                      <span className="text-xs ml-1">(case-insensitive)</span>
-                    </li>
-                  </ul>
+                  {language === "kql" ? (
+                    <>
+                      <p className="text-muted-foreground">
+                        Enter a KQL query; fields are checked against the table:
+                      </p>
+                      <ul className="space-y-1 text-muted-foreground">
+                        <li>
+                          <code className="bg-muted px-1 rounded">level:error</code>
+                        </li>
+                        <li>
+                          <code className="bg-muted px-1 rounded">
+                            status &gt;= 400 AND NOT host:api*
+                          </code>
+                        </li>
+                        <li>
+                          <code className="bg-muted px-1 rounded">
+                            level:(error OR warning)
+                          </code>
+                        </li>
+                        <li>
+                          <code className="bg-muted px-1 rounded">
+                            message:&quot;connection reset&quot;
+                          </code>
+                          <span className="text-xs ml-1">(phrase)</span>
+                        </li>
+                        <li>
+                          <code className="bg-muted px-1 rounded">user_id:*</code>
+                          <span className="text-xs ml-1">(field has a value)</span>
+                        </li>
+                        <li>
+                          <code className="bg-muted px-1 rounded">timeout</code>
+                          <span className="text-xs ml-1">(free text)</span>
+                        </li>
+                      </ul>
+                    </>
+                  ) : (
+                    <>
+                      <p className="text-muted-foreground">
+                        Enter a ClickHouse WHERE clause expression:
+                      </p>
+                      <ul className="space-y-1 text-muted-foreground">
+                        <li>
+                          <code className="bg-muted px-1 rounded">
+                            level = &apos;Error&apos;
+                          </code>
+                          <span className="text-xs ml-1">(quote strings!)</span>
+                        </li>
+                        <li>
+                          <code className="bg-muted px-1 rounded">
+                            status &gt;= 400
+                          </code>
+                        </li>
+                        <li>
+                          <code className="bg-muted px-1 rounded">
+                            host LIKE &apos;%api%&apos;
+                          </code>
+                        </li>
+                        <li>
+                          <code className="bg-muted px-1 rounded">
+                            level IN (&apos;Error&apos;, &apos;Fatal&apos;)
+                          </code>
+                        </li>
+                        <li>
+                          <code className="bg-muted px-1 rounded">
+                            message ILIKE &apos;%timeout%&apos;
+                          </code>
+                        </li>
+                        <li>
+                          <code className="bg-muted px-1 rounded">
+                            hasToken(message, &apos;timeout&apos;)
+                          </code>
+                          <span className="text-xs ml-1">(whole-token match)</span>
+                        </li>
+                        <li>
+                          <code className="bg-muted px-1 rounded">
+                            hasTokenCaseInsensitive(host, &apos;api&apos;)
+                          </code>
+                          <span className="text-xs ml-1">(case-insensitive)</span>
+                        </li>
+                      </ul>
+                    </>
+                  )}
                   <p className="text-muted-foreground text-xs">
                     Press <kbd className="px-1 py-0.5 rounded bg-muted border text-[10px]">Enter</kbd> to execute
                     {" "}&bull;{" "}
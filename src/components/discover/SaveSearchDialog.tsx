@@ -0,0 +1,245 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { fetchApi } from "@/lib/api/client";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useAuth } from "@/components/auth";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { SavedSearch } from "@/app/api/saved-searches/route";
+import type { SavedQueryVisibility } from "@/lib/clickhouse/saved-queries";
+import type { SavedSearchView } from "@/lib/types/discover";
+
+interface SaveSearchDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Discover state to store */
+  view: SavedSearchView;
+  onSaved?: () => void;
+  /** Existing search to overwrite; a new revision is saved instead of a new search */
+  search?: SavedSearch;
+  /** Roles available for sharing; fetched when not provided */
+  roles?: string[];
+}
+
+const VISIBILITY_LABELS: Record<SavedQueryVisibility, string> = {
+  private: "Private (only me)",
+  roles: "Shared with roles",
+  public: "Public (everyone)",
+};
+
+export function SaveSearchDialog({
+  open,
+  onOpenChange,
+  view,
+  onSaved,
+  search,
+  roles,
+}: SaveSearchDialogProps) {
+  const { csrfToken } = useAuth();
+  const [name, setName] = useState(search?.name ?? "");
+  const [description, setDescription] = useState(search?.description ?? "");
+  const [visibility, setVisibility] = useState<SavedQueryVisibility>(
+    search?.visibility ?? "private",
+  );
+  const [sharedRoles, setSharedRoles] = useState<string[]>(
+    search?.shared_roles ?? [],
+  );
+  const [fetchedRoles, setFetchedRoles] = useState<string[] | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const availableRoles = roles ?? fetchedRoles ?? [];
+
+  useEffect(() => {
+    if (!open || roles || fetchedRoles) return;
+
+    fetchApi("/api/saved-searches")
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.success) setFetchedRoles(data.roles ?? []);
+      })
+      .catch(() => {
+        // Sharing with roles is unavailable without the role list
+      });
+  }, [open, roles, fetchedRoles]);
+
+  const toggleRole = (role: string, checked: boolean) => {
+    setSharedRoles((prev) =>
+      checked ? [...prev, role] : prev.filter((r) => r !== role),
+    );
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      setError("Name is required");
+      return;
+    }
+    if (visibility === "roles" && sharedRoles.length === 0) {
+      setError("Select at least one role to share with");
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      const res = await fetchApi(
+        search ? `/api/saved-searches/${search.id}` : "/api/saved-searches",
+        {
+          method: search ? "PUT" : "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "x-csrf-token": csrfToken || "",
+          },
+          body: JSON.stringify({
+            ...view,
+            name,
+            description,
+            visibility,
+            shared_roles: visibility === "roles" ? sharedRoles : [],
+          }),
+        },
+      );
+
+      const data = await res.json();
+
+      if (data.success) {
+        onOpenChange(false);
+        if (!search) {
+          setName("");
+          setDescription("");
+          setVisibility("private");
+          setSharedRoles([]);
+        }
+        if (onSaved) onSaved();
+      } else {
+        setError(
+          data.error?.userMessage || data.error?.message || "Failed to save search",
+        );
+      }
+    } catch {
+      setError("An unexpected error occurred");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>{search ? "Update Saved Search" : "Save Search"}</DialogTitle>
+          <DialogDescription>
+            {search
+              ? `"${search.name}" will be replaced with the current view of ${view.database}.${view.table}.`
+              : `Save the current view of ${view.database}.${view.table} to reopen it in one click or share it with your team.`}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-4">
+          <div className="grid gap-2">
+            <Label htmlFor="search-name">Name</Label>
+            <Input
+              id="search-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="API 5xx errors"
+              disabled={saving}
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="search-description">Description (Optional)</Label>
+            <Textarea
+              id="search-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="When should this view be used?"
+              className="resize-none"
+              disabled={saving}
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label>Visibility</Label>
+            <Select
+              value={visibility}
+              onValueChange={(v) => setVisibility(v as SavedQueryVisibility)}
+              disabled={saving}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(VISIBILITY_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {visibility === "roles" && (
+            <div className="grid gap-2">
+              <Label>Share with roles</Label>
+              {availableRoles.length === 0 ? (
+                <p className="text-xs text-muted-foreground">
+                  You don&apos;t hold any roles to share with.
+                </p>
+              ) : (
+                <div className="max-h-32 overflow-auto grid gap-1.5 rounded border p-2">
+                  {availableRoles.map((role) => (
+                    <div key={role} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`search-role-${role}`}
+                        checked={sharedRoles.includes(role)}
+                        onCheckedChange={(checked) =>
+                          toggleRole(role, checked === true)
+                        }
+                        disabled={saving}
+                      />
+                      <Label
+                        htmlFor={`search-role-${role}`}
+                        className="text-xs font-normal font-mono cursor-pointer"
+                      >
+                        {role}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+          {error && <p className="text-sm text-red-500">{error}</p>}
+        </div>
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={saving}
+          >
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
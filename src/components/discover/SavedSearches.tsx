@@ -0,0 +1,264 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  Bookmark,
+  BookmarkPlus,
+  Globe,
+  Link2,
+  Lock,
+  Save,
+  Trash2,
+  Users,
+} from "lucide-react";
+import { type SavedSearch } from "@/app/api/saved-searches/route";
+import { fetchApi } from "@/lib/api/client";
+import { useAuth } from "@/components/auth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { toast } from "@/components/ui/use-toast";
+import type { SavedSearchView } from "@/lib/types/discover";
+import { SaveSearchDialog } from "./SaveSearchDialog";
+
+interface SavedSearchesProps {
+  /** Current Discover state, stored when saving */
+  view: SavedSearchView;
+  onLoad: (search: SavedSearch) => void;
+}
+
+function VisibilityIcon({ search }: { search: SavedSearch }) {
+  if (search.visibility === "public") {
+    return (
+      <span title="Public">
+        <Globe className="w-3 h-3 text-muted-foreground" />
+      </span>
+    );
+  }
+  if (search.visibility === "roles") {
+    return (
+      <span title={`Shared with ${search.shared_roles.join(", ")}`}>
+        <Users className="w-3 h-3 text-muted-foreground" />
+      </span>
+    );
+  }
+  return (
+    <span title="Private">
+      <Lock className="w-3 h-3 text-muted-foreground" />
+    </span>
+  );
+}
+
+/**
+ * Saved searches menu for Discover: open, share, save and delete named views
+ */
+export function SavedSearches({ view, onLoad }: SavedSearchesProps) {
+  const { user, csrfToken } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [searches, setSearches] = useState<SavedSearch[]>([]);
+  const [roles, setRoles] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState("");
+  const [saving, setSaving] = useState<SavedSearch | "new" | null>(null);
+
+  const fetchSearches = async () => {
+    setLoading(true);
+    try {
+      const res = await fetchApi("/api/saved-searches");
+      const data = await res.json();
+      if (data.success) {
+        setSearches(data.data);
+        setRoles(data.roles ?? []);
+        setError(null);
+      } else {
+        setError(data.error?.userMessage || "Failed to fetch saved searches");
+      }
+    } catch {
+      setError("Failed to fetch saved searches");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (next) fetchSearches();
+  };
+
+  const handleLoad = (search: SavedSearch) => {
+    setOpen(false);
+    onLoad(search);
+  };
+
+  const handleCopyLink = async (search: SavedSearch) => {
+    const url = `${window.location.origin}/discover?search=${encodeURIComponent(search.id)}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({ title: "Link copied", description: search.name });
+    } catch {
+      toast({ variant: "destructive", title: "Could not copy link", description: url });
+    }
+  };
+
+  const handleDelete = async (search: SavedSearch) => {
+    try {
+      const res = await fetchApi(`/api/saved-searches/${search.id}`, {
+        method: "DELETE",
+        headers: { "x-csrf-token": csrfToken || "" },
+      });
+      const data = await res.json();
+      if (!data.success) {
+        setError(data.error?.userMessage || "Failed to delete search");
+        return;
+      }
+      await fetchSearches();
+    } catch {
+      setError("Failed to delete search");
+    }
+  };
+
+  const visible = useMemo(() => {
+    const term = filter.trim().toLowerCase();
+    if (!term) return searches;
+    return searches.filter(
+      (s) =>
+        s.name.toLowerCase().includes(term) ||
+        s.description.toLowerCase().includes(term) ||
+        `${s.database}.${s.table}`.toLowerCase().includes(term),
+    );
+  }, [searches, filter]);
+
+  return (
+    <>
+      <Popover open={open} onOpenChange={handleOpenChange}>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" className="h-9">
+            <Bookmark className="mr-1.5 h-4 w-4" />
+            Saved searches
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-96 p-0">
+          <div className="flex items-center justify-between gap-2 p-2 border-b">
+            <Input
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              placeholder="Filter by name or table..."
+              className="h-8 text-xs"
+            />
+            <Button
+              size="sm"
+              className="h-8"
+              disabled={!view.table}
+              title="Save the current view"
+              onClick={() => {
+                setOpen(false);
+                setSaving("new");
+              }}
+            >
+              <BookmarkPlus className="mr-1 h-3.5 w-3.5" />
+              Save
+            </Button>
+          </div>
+          {error && <p className="px-3 pt-2 text-xs text-red-500">{error}</p>}
+          <div className="max-h-80 overflow-auto p-1">
+            {loading && searches.length === 0 ? (
+              <p className="p-3 text-center text-xs text-muted-foreground">Loading...</p>
+            ) : visible.length === 0 ? (
+              <p className="p-3 text-center text-xs text-muted-foreground">
+                {searches.length === 0 ? "No saved searches" : "No searches match the filter"}
+              </p>
+            ) : (
+              visible.map((search) => {
+                const isOwner = search.created_by === user?.username;
+                return (
+                  <div
+                    key={search.id}
+                    className="group flex items-start gap-2 rounded px-2 py-1.5 hover:bg-muted"
+                  >
+                    <button
+                      type="button"
+                      className="flex-1 min-w-0 text-left"
+                      onClick={() => handleLoad(search)}
+                    >
+                      <span className="flex items-center gap-1.5 text-sm font-medium">
+                        <VisibilityIcon search={search} />
+                        <span className="truncate">{search.name}</span>
+                      </span>
+                      <span className="block truncate text-xs text-muted-foreground">
+                        <span className="font-mono">
+                          {search.database}.{search.table}
+                        </span>
+                        {!isOwner && <> · by {search.created_by}</>}
+                      </span>
+                      {search.filter && (
+                        <span className="block truncate text-xs font-mono text-muted-foreground">
+                          {search.filter}
+                        </span>
+                      )}
+                    </button>
+                    <div className="flex items-center opacity-0 group-hover:opacity-100">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-7 w-7 p-0"
+                        title="Copy link"
+                        onClick={() => handleCopyLink(search)}
+                      >
+                        <Link2 className="w-3 h-3" />
+                      </Button>
+                      {isOwner && (
+                        <>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="h-7 w-7 p-0"
+                            title="Replace with the current view"
+                            disabled={!view.table}
+                            onClick={() => {
+                              setOpen(false);
+                              setSaving(search);
+                            }}
+                          >
+                            <Save className="w-3 h-3" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="h-7 w-7 p-0 text-muted-foreground hover:text-red-500"
+                            title="Delete"
+                            onClick={() => handleDelete(search)}
+                          >
+                            <Trash2 className="w-3 h-3" />
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                );
+              })
+            )}
+          </div>
+        </PopoverContent>
+      </Popover>
+
+      {saving && (
+        <SaveSearchDialog
+          key={saving === "new" ? "new" : `${saving.id}-${saving.revision}`}
+          open={true}
+          onOpenChange={(next) => !next && setSaving(null)}
+          view={view}
+          search={saving === "new" ? undefined : saving}
+          roles={roles.length > 0 ? roles : undefined}
+          onSaved={() => {
+            toast({ title: "Search saved" });
+          }}
+        />
+      )}
+    </>
+  );
+}
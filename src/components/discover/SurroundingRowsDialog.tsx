@@ -0,0 +1,349 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { ChevronDown, ChevronUp, Columns3, Loader2 } from "lucide-react";
+import { fetchApi } from "@/lib/api/client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { TruncatedCell } from "@/components/monitoring";
+import { cn, formatDateTime } from "@/lib/utils";
+import type { SurroundingDirection } from "@/lib/clickhouse/surrounding";
+import type { ColumnMetadata, DiscoverRow } from "@/lib/types/discover";
+
+interface SurroundingRowsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Row to show the context of */
+  anchor: DiscoverRow;
+  database: string;
+  table: string;
+  timeColumn: string;
+  columns: ColumnMetadata[];
+  selectedColumns: string[];
+}
+
+interface SideState {
+  rows: DiscoverRow[];
+  cursor: string | null;
+  loading: boolean;
+}
+
+const PAGE_SIZES = [5, 10, 25, 50];
+
+/** Columns offered as partition fields first when present */
+const SUGGESTED_PARTITION_FIELDS = ["hostname", "host", "query_id", "thread_id"];
+
+const EMPTY_SIDE: SideState = { rows: [], cursor: null, loading: false };
+
+function isScalar(value: unknown): value is string | number | boolean | null {
+  return (
+    value === null ||
+    typeof value === "string" ||
+    typeof value === "number" ||
+    typeof value === "boolean"
+  );
+}
+
+function displayValue(value: unknown): string {
+  if (value === null || value === undefined) return "null";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Rows immediately before and after an anchor row in time, newest first,
+ * paged outward in both directions. Partition fields keep the context to
+ * rows sharing the anchor's host, query and so on.
+ */
+export function SurroundingRowsDialog({
+  open,
+  onOpenChange,
+  anchor,
+  database,
+  table,
+  timeColumn,
+  columns,
+  selectedColumns,
+}: SurroundingRowsDialogProps) {
+  const [partitionBy, setPartitionBy] = useState<string[]>([]);
+  const [pageSize, setPageSize] = useState(10);
+  const [before, setBefore] = useState<SideState>(EMPTY_SIDE);
+  const [after, setAfter] = useState<SideState>(EMPTY_SIDE);
+  const [error, setError] = useState<string | null>(null);
+  // Responses for a previous anchor or partition are dropped
+  const generationRef = useRef(0);
+
+  const displayColumns = useMemo(() => {
+    const cols = selectedColumns.length > 0 ? selectedColumns : Object.keys(anchor);
+    return [timeColumn, ...cols.filter((c) => c !== timeColumn)];
+  }, [selectedColumns, anchor, timeColumn]);
+
+  const partitionCandidates = useMemo(() => {
+    const names = columns
+      .map((c) => c.name)
+      .filter((name) => name !== timeColumn && name in anchor && isScalar(anchor[name]));
+    const suggested = SUGGESTED_PARTITION_FIELDS.filter((name) => names.includes(name));
+    return [...suggested, ...names.filter((name) => !suggested.includes(name))];
+  }, [columns, anchor, timeColumn]);
+
+  const fetchPage = useCallback(
+    async (direction: SurroundingDirection, cursor: string | null) => {
+      const partition: Record<string, unknown> = {};
+      for (const name of partitionBy) partition[name] = anchor[name];
+
+      const query = new URLSearchParams({
+        database,
+        table,
+        timeColumn,
+        anchor: String(anchor[timeColumn]),
+        direction,
+        limit: String(pageSize),
+      });
+      if (selectedColumns.length > 0) query.set("columns", selectedColumns.join(","));
+      if (partitionBy.length > 0) query.set("partition", JSON.stringify(partition));
+      if (cursor) query.set("cursor", cursor);
+
+      const res = await fetchApi(`/api/clickhouse/discover/surrounding?${query}`);
+      const data = await res.json();
+      if (!data.success) {
+        throw new Error(data.error || "Failed to load surrounding rows");
+      }
+      return data.data as { rows: DiscoverRow[]; nextCursor: string | null };
+    },
+    [database, table, timeColumn, anchor, pageSize, selectedColumns, partitionBy],
+  );
+
+  const loadMore = useCallback(
+    async (direction: SurroundingDirection, reset: boolean) => {
+      const setSide = direction === "before" ? setBefore : setAfter;
+      const current = direction === "before" ? before : after;
+      const generation = generationRef.current;
+
+      setSide((prev) => ({ ...(reset ? EMPTY_SIDE : prev), loading: true }));
+      try {
+        const page = await fetchPage(direction, reset ? null : current.cursor);
+        if (generation !== generationRef.current) return;
+        setSide((prev) => ({
+          rows: reset ? page.rows : [...prev.rows, ...page.rows],
+          cursor: page.nextCursor,
+          loading: false,
+        }));
+      } catch (err) {
+        if (generation !== generationRef.current) return;
+        setError(err instanceof Error ? err.message : "Failed to load surrounding rows");
+        setSide((prev) => ({ ...prev, loading: false }));
+      }
+    },
+    [fetchPage, before, after],
+  );
+
+  // Reload both directions when the anchor, partition or page size changes
+  useEffect(() => {
+    if (!open) return;
+    generationRef.current++;
+    setError(null);
+    loadMore("before", true);
+    loadMore("after", true);
+    // loadMore changes with every page; only a new context should reload
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, fetchPage]);
+
+  const anchorKey = useMemo(
+    () => JSON.stringify(displayColumns.map((c) => anchor[c])),
+    [displayColumns, anchor],
+  );
+
+  // Newest first, like the Discover grid
+  const rows = useMemo(
+    () => [...after.rows].reverse().concat(before.rows),
+    [after.rows, before.rows],
+  );
+
+  const togglePartition = (name: string, checked: boolean) => {
+    setPartitionBy((prev) =>
+      checked ? [...prev, name] : prev.filter((n) => n !== name),
+    );
+  };
+
+  const initialLoading = rows.length === 0 && (before.loading || after.loading);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[1100px]">
+        <DialogHeader>
+          <DialogTitle>Surrounding rows</DialogTitle>
+          <DialogDescription>
+            Rows just before and after{" "}
+            <span className="font-mono">{formatDateTime(String(anchor[timeColumn]))}</span>{" "}
+            in <span className="font-mono">{database}.{table}</span>, ordered by{" "}
+            <span className="font-mono">{timeColumn}</span>.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm" className="h-8">
+                <Columns3 className="mr-1.5 h-3.5 w-3.5" />
+                Same values for
+                {partitionBy.length > 0 && (
+                  <Badge variant="secondary" className="ml-1.5">
+                    {partitionBy.length}
+                  </Badge>
+                )}
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start" className="max-h-80 w-64 overflow-auto">
+              <DropdownMenuLabel className="text-xs">
+                Only show rows matching the anchor on
+              </DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              {partitionCandidates.map((name) => (
+                <DropdownMenuCheckboxItem
+                  key={name}
+                  checked={partitionBy.includes(name)}
+                  onCheckedChange={(checked) => togglePartition(name, checked === true)}
+                  onSelect={(e) => e.preventDefault()}
+                  className="text-xs"
+                >
+                  <span className="font-mono truncate">{name}</span>
+                  <span className="ml-auto pl-2 truncate text-muted-foreground max-w-[100px]">
+                    {displayValue(anchor[name])}
+                  </span>
+                </DropdownMenuCheckboxItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+          {partitionBy.map((name) => (
+            <Badge key={name} variant="outline" className="font-mono text-xs">
+              {name} = {displayValue(anchor[name])}
+            </Badge>
+          ))}
+          <div className="ml-auto flex items-center gap-2 text-xs text-muted-foreground">
+            Rows per page
+            <Select value={String(pageSize)} onValueChange={(v) => setPageSize(Number(v))}>
+              <SelectTrigger className="h-8 w-[70px] text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PAGE_SIZES.map((size) => (
+                  <SelectItem key={size} value={String(size)}>
+                    {size}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-red-500">{error}</p>}
+
+        <div className="h-[480px] overflow-auto rounded border">
+          {initialLoading ? (
+            <div className="flex h-full items-center justify-center text-muted-foreground">
+              <Loader2 className="h-5 w-5 animate-spin" />
+            </div>
+          ) : (
+            <table className="w-full text-xs">
+              <thead className="sticky top-0 z-10 bg-background shadow-sm">
+                <tr className="border-b">
+                  {displayColumns.map((col) => (
+                    <th key={col} className="h-8 px-2 text-left font-semibold whitespace-nowrap">
+                      {col}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                <tr>
+                  <td colSpan={displayColumns.length} className="p-1 text-center">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 text-xs"
+                      disabled={!after.cursor || after.loading}
+                      onClick={() => loadMore("after", false)}
+                    >
+                      {after.loading ? (
+                        <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                      ) : (
+                        <ChevronUp className="mr-1 h-3 w-3" />
+                      )}
+                      {after.cursor ? `Load ${pageSize} newer` : "No newer rows"}
+                    </Button>
+                  </td>
+                </tr>
+                {rows.map((row, i) => {
+                  const isAnchor =
+                    JSON.stringify(displayColumns.map((c) => row[c])) === anchorKey;
+                  return (
+                    <tr
+                      key={i}
+                      className={cn(
+                        "border-b hover:bg-muted/50",
+                        isAnchor && "bg-primary/10 hover:bg-primary/15",
+                      )}
+                    >
+                      {displayColumns.map((col) => (
+                        <td key={col} className="px-2 py-1 font-mono whitespace-nowrap">
+                          <TruncatedCell
+                            value={
+                              col === timeColumn
+                                ? formatDateTime(String(row[col]))
+                                : displayValue(row[col])
+                            }
+                            maxWidth={col === timeColumn ? 220 : 480}
+                          />
+                        </td>
+                      ))}
+                    </tr>
+                  );
+                })}
+                <tr>
+                  <td colSpan={displayColumns.length} className="p-1 text-center">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 text-xs"
+                      disabled={!before.cursor || before.loading}
+                      onClick={() => loadMore("before", false)}
+                    >
+                      {before.loading ? (
+                        <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                      ) : (
+                        <ChevronDown className="mr-1 h-3 w-3" />
+                      )}
+                      {before.cursor ? `Load ${pageSize} older` : "No older rows"}
+                    </Button>
+                  </td>
+                </tr>
+              </tbody>
+            </table>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
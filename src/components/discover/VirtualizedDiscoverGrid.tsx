@@ -21,7 +21,7 @@ import {
 import { RecordDetailSheet } from "@/components/ui/record-detail-sheet";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { ArrowUpDown, Expand, Filter, FilterX } from "lucide-react";
+import { ArrowUpDown, Expand, Filter, FilterX, ListTree } from "lucide-react";
 import type { DiscoverRow } from "@/lib/types/discover";
 import type { ColumnMetadata } from "@/lib/types/discover";
 import { cn, formatDateTime, formatDate } from "@/lib/utils";
@@ -56,6 +56,12 @@ interface VirtualizedDiscoverGridProps {
   sorting: SortingState;
   onSortingChange: import("@tanstack/react-table").OnChangeFn<SortingState>;
   updateRowWindow?: (visibleStart: number, visibleEnd: number) => void;
+  /** Opens the rows around a record in time; hidden when not provided */
+  onViewSurrounding?: (row: DiscoverRow) => void;
+  /** Rows to highlight as new arrivals */
+  highlightedRows?: ReadonlySet<DiscoverRow>;
+  /** Called when the grid scrolls to or away from its first row */
+  onAtTopChange?: (atTop: boolean) => void;
 }
 
 const columnHelper = createColumnHelper<DiscoverRow>();
@@ -169,6 +175,9 @@ export const VirtualizedDiscoverGrid = memo(function VirtualizedDiscoverGrid({
   sorting,
   onSortingChange,
   updateRowWindow,
+  onViewSurrounding,
+  highlightedRows,
+  onAtTopChange,
 }: VirtualizedDiscoverGridProps) {
   const [selectedRow, setSelectedRow] = useState<DiscoverRow | null>(null);
   const [selectedRowIndex, setSelectedRowIndex] = useState<number | null>(null);
@@ -180,6 +189,17 @@ export const VirtualizedDiscoverGrid = memo(function VirtualizedDiscoverGrid({
   const [isSelecting, setIsSelecting] = useState(false);
 
   const scrollContainerRef = useRef<HTMLDivElement>(null);
+  const atTopRef = useRef(true);
+
+  const handleScroll = useCallback(() => {
+    const el = scrollContainerRef.current;
+    if (!el || !onAtTopChange) return;
+    const atTop = el.scrollTop < DEFAULT_ROW_HEIGHT;
+    if (atTop !== atTopRef.current) {
+      atTopRef.current = atTop;
+      onAtTopChange(atTop);
+    }
+  }, [onAtTopChange]);
 
   const columnTypes = useMemo(() => {
     const types: Record<string, string> = {};
@@ -377,7 +397,7 @@ export const VirtualizedDiscoverGrid = memo(function VirtualizedDiscoverGrid({
   return (
     <>
       <div className="flex flex-col h-full">
-        <div ref={scrollContainerRef} className="flex-1 overflow-auto">
+        <div ref={scrollContainerRef} className="flex-1 overflow-auto" onScroll={handleScroll}>
           <table className="w-full caption-bottom text-sm" style={{ tableLayout: 'auto' }}>
             <thead className="sticky top-0 bg-background z-10 shadow-sm">
               {table.getHeaderGroups().map((headerGroup) => (
@@ -454,6 +474,7 @@ export const VirtualizedDiscoverGrid = memo(function VirtualizedDiscoverGrid({
                               className={cn(
                                 "hover:bg-muted/50 data-[state=selected]:bg-muted border-b transition-colors cursor-pointer group",
                                 selectedRow === row.original && sheetOpen && "bg-muted",
+                                highlightedRows?.has(row.original) && "bg-primary/10",
                               )}
                               style={{ height: `${virtualRow.size}px` }}
                               onClick={() => handleRowClick(row.original, row.index)}
@@ -520,6 +541,7 @@ export const VirtualizedDiscoverGrid = memo(function VirtualizedDiscoverGrid({
                       className={cn(
                         "hover:bg-muted/50 data-[state=selected]:bg-muted border-b transition-colors cursor-pointer group",
                         selectedRow === row.original && sheetOpen && "bg-muted",
+                        highlightedRows?.has(row.original) && "bg-primary/10",
                       )}
                       style={{ height: `${DEFAULT_ROW_HEIGHT}px` }}
                       onClick={() => handleRowClick(row.original, row.index)}
@@ -589,6 +611,22 @@ export const VirtualizedDiscoverGrid = memo(function VirtualizedDiscoverGrid({
         columns={sheetColumns}
         title="Record Details"
         rowIndex={selectedRowIndex ?? undefined}
+        actions={
+          onViewSurrounding && selectedRow ? (
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-2"
+              onClick={() => {
+                setSheetOpen(false);
+                onViewSurrounding(selectedRow);
+              }}
+            >
+              <ListTree className="h-4 w-4" />
+              Surrounding rows
+            </Button>
+          ) : undefined
+        }
       />
 
       {contextMenu && (
@@ -19,6 +19,7 @@ import {
   GitBranch,
   Cog,
   HardDrive,
+  Unlink,
   LayoutDashboard,
   Zap,
   Clock,
@@ -30,6 +31,8 @@ import {
   AlertTriangle,
   Github,
   BookOpen,
+  Filter,
+  SlidersHorizontal,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
@@ -81,6 +84,12 @@ const monitoringItems = [
     icon: HardDrive,
     description: "Disk space and usage",
   },
+  {
+    name: "Detached Parts",
+    href: "/monitoring/detached",
+    icon: Unlink,
+    description: "Broken and detached parts",
+  },
   {
     name: "Keeper",
     href: "/monitoring/keeper",
@@ -131,6 +140,18 @@ const accessItems = [
     icon: Shield,
     description: "Manage roles and permissions",
   },
+  {
+    name: "Quotas",
+    href: "/access/quotas",
+    icon: Gauge,
+    description: "Manage resource quotas and usage",
+  },
+  {
+    name: "Row Policies",
+    href: "/access/row-policies",
+    icon: Filter,
+    description: "Manage row-level filtering",
+  },
 ];
 
 // Settings sub-navigation items
@@ -147,6 +168,13 @@ const settingsItems = [
     icon: Server,
     description: "Server configuration",
   },
+  {
+    name: "Profiles",
+    href: "/settings/profiles",
+    icon: SlidersHorizontal,
+    description: "Settings profiles and constraints",
+    requiresPermission: "canManageUsers" as const,
+  },
 ];
 
 // Logging sub-navigation items
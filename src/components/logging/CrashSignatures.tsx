@@ -0,0 +1,309 @@
+"use client";
+
+import { Fragment, useEffect, useState } from "react";
+import Link from "next/link";
+import { ChevronDown, ChevronRight, Loader2, ScrollText } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+  TableWrapper,
+} from "@/components/ui/table";
+import { fetchApi } from "@/lib/api/client";
+import {
+  getSignalName,
+  getStackFrames,
+  type CrashEntry,
+  type CrashSignature,
+} from "@/lib/clickhouse/crash-signatures";
+import type { FlexibleTimeRange } from "@/lib/types/discover";
+import { cn, formatDateTime } from "@/lib/utils";
+import { getRangeStart } from "./LogsViewer";
+import { getNodeColor } from "./SystemLogsTable";
+
+/** Server log window opened around a crash, in seconds on each side */
+const LOG_CONTEXT_SECONDS = 60;
+
+interface CrashSignaturesProps {
+  timeRange: FlexibleTimeRange;
+  refreshKey?: number;
+}
+
+interface CrashSignaturesResponse {
+  signatures: CrashSignature[];
+  totalCrashes: number;
+  truncated: boolean;
+}
+
+/** Server logs of the crashed node around the crash time */
+function getCrashLogsHref(crash: CrashEntry): string {
+  const params = new URLSearchParams({
+    host: crash.hostname,
+    start: new Date((crash.event_timestamp - LOG_CONTEXT_SECONDS) * 1000).toISOString(),
+    end: new Date((crash.event_timestamp + LOG_CONTEXT_SECONDS) * 1000).toISOString(),
+  });
+  return `/logging/server?${params.toString()}`;
+}
+
+function NodeBadge({ hostname }: { hostname: string }) {
+  return (
+    <Badge variant="outline" className="gap-1.5 font-mono text-[10px] font-normal">
+      <span
+        className="h-1.5 w-1.5 rounded-full"
+        style={{ backgroundColor: getNodeColor(hostname) }}
+      />
+      {hostname}
+    </Badge>
+  );
+}
+
+function StackTrace({ crash }: { crash: CrashEntry }) {
+  const frames = getStackFrames(crash);
+
+  if (frames.length === 0) {
+    return <p className="text-xs text-muted-foreground">No stack trace recorded.</p>;
+  }
+
+  return (
+    <ol className="space-y-0.5 font-mono text-xs">
+      {frames.map((frame) => (
+        <li
+          key={frame.index}
+          className={cn("flex gap-2", frame.isHandler && "text-muted-foreground/60")}
+        >
+          <span className="w-6 shrink-0 text-right text-muted-foreground">
+            {frame.index}.
+          </span>
+          <span className="min-w-0 break-all">
+            <span className={cn(!frame.isHandler && "font-semibold text-foreground")}>
+              {frame.symbol !== "?" ? frame.symbol : frame.address}
+            </span>
+            {frame.location && (
+              <span className="text-muted-foreground"> {frame.location}</span>
+            )}
+            {frame.symbol !== "?" && frame.address && (
+              <span className="text-muted-foreground/60"> @ {frame.address}</span>
+            )}
+          </span>
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+function SignatureDetail({ signature }: { signature: CrashSignature }) {
+  const [selected, setSelected] = useState(0);
+  const crash = signature.crashes[selected] ?? signature.crashes[0];
+
+  return (
+    <div className="grid gap-4 p-4 md:grid-cols-[260px_1fr]">
+      <div className="space-y-1">
+        <p className="text-xs font-medium text-muted-foreground">
+          Recent occurrences
+          {signature.count > signature.crashes.length &&
+            ` (latest ${signature.crashes.length} of ${signature.count})`}
+        </p>
+        {signature.crashes.map((c, i) => (
+          <button
+            key={`${c.hostname}-${c.event_time}-${c.thread_id}`}
+            type="button"
+            onClick={() => setSelected(i)}
+            className={cn(
+              "flex w-full items-center gap-2 rounded-md px-2 py-1 text-left text-xs hover:bg-muted",
+              i === selected && "bg-muted",
+            )}
+          >
+            <span
+              className="h-2 w-2 shrink-0 rounded-full"
+              style={{ backgroundColor: getNodeColor(c.hostname) }}
+            />
+            <span className="whitespace-nowrap">{formatDateTime(c.event_time)}</span>
+            <span className="truncate font-mono text-muted-foreground">{c.hostname}</span>
+          </button>
+        ))}
+      </div>
+
+      <div className="min-w-0 space-y-3">
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs">
+          <span>{formatDateTime(crash.event_time)}</span>
+          <NodeBadge hostname={crash.hostname} />
+          <span className="text-muted-foreground">
+            Version <span className="font-mono">{crash.version || "—"}</span>
+          </span>
+          <span className="text-muted-foreground">
+            Thread <span className="font-mono">{crash.thread_id}</span>
+          </span>
+          {crash.query_id && (
+            <span className="text-muted-foreground">
+              Query <span className="font-mono">{crash.query_id}</span>
+            </span>
+          )}
+          <Button variant="outline" size="sm" className="ml-auto h-7 text-xs" asChild>
+            <Link href={getCrashLogsHref(crash)}>
+              <ScrollText className="mr-1 h-3 w-3" />
+              Server logs around crash
+            </Link>
+          </Button>
+        </div>
+        <div className="max-h-[420px] overflow-auto rounded-md border bg-muted/30 p-3">
+          <StackTrace crash={crash} />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Crashes from system.crash_log grouped by signal and top stack frames.
+ * Rows expand to the symbolized stack traces of recent occurrences.
+ */
+export function CrashSignatures({ timeRange, refreshKey = 0 }: CrashSignaturesProps) {
+  const [result, setResult] = useState<CrashSignaturesResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const params = new URLSearchParams({ minTime: getRangeStart(timeRange) });
+    if (timeRange.type === "absolute" && timeRange.to !== "now") {
+      params.set("maxTime", timeRange.to);
+    }
+
+    const fetchSignatures = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const res = await fetchApi(`/api/clickhouse/logging/crashes?${params.toString()}`, {
+          signal: controller.signal,
+        });
+        const json = await res.json();
+        if (!json.success) {
+          throw new Error(json.error || "Failed to load crash signatures");
+        }
+        setResult(json.data);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        setError(err instanceof Error ? err.message : "Failed to load crash signatures");
+      } finally {
+        if (!controller.signal.aborted) setIsLoading(false);
+      }
+    };
+
+    fetchSignatures();
+    return () => controller.abort();
+  }, [timeRange, refreshKey]);
+
+  const signatures = result?.signatures ?? [];
+
+  return (
+    <div className="flex h-full flex-col gap-2">
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        {isLoading && <Loader2 className="h-3 w-3 animate-spin" />}
+        {result && (
+          <span>
+            {result.totalCrashes} crash{result.totalCrashes === 1 ? "" : "es"} in{" "}
+            {signatures.length} signature{signatures.length === 1 ? "" : "s"}
+            {result.truncated && " (only the most recent crashes were grouped)"}
+          </span>
+        )}
+        {error && <span className="text-destructive">{error}</span>}
+      </div>
+
+      <TableWrapper>
+        <div className="flex-1 overflow-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-8" />
+                <TableHead className="w-[110px]">Signal</TableHead>
+                <TableHead>Top frames</TableHead>
+                <TableHead className="w-[70px] text-right">Count</TableHead>
+                <TableHead className="w-[150px]">First seen</TableHead>
+                <TableHead className="w-[150px]">Last seen</TableHead>
+                <TableHead>Nodes</TableHead>
+                <TableHead>Versions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {signatures.length === 0 && !isLoading && (
+                <TableRow>
+                  <TableCell colSpan={8} className="h-24 text-center text-muted-foreground">
+                    No crashes in this time range.
+                  </TableCell>
+                </TableRow>
+              )}
+              {signatures.map((signature) => {
+                const isExpanded = expanded === signature.key;
+                return (
+                  <Fragment key={signature.key}>
+                    <TableRow
+                      className="cursor-pointer"
+                      onClick={() => setExpanded(isExpanded ? null : signature.key)}
+                    >
+                      <TableCell>
+                        {isExpanded ? (
+                          <ChevronDown className="h-4 w-4" />
+                        ) : (
+                          <ChevronRight className="h-4 w-4" />
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="destructive" className="font-mono text-[10px]">
+                          {getSignalName(signature.signal)}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="max-w-[480px]">
+                        {signature.frames.map((frame, i) => (
+                          <div
+                            key={i}
+                            className={cn(
+                              "truncate font-mono text-xs",
+                              i > 0 && "text-muted-foreground",
+                            )}
+                            title={frame}
+                          >
+                            {frame}
+                          </div>
+                        ))}
+                      </TableCell>
+                      <TableCell className="text-right font-medium">{signature.count}</TableCell>
+                      <TableCell className="whitespace-nowrap text-xs">
+                        {formatDateTime(signature.firstSeen)}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap text-xs">
+                        {formatDateTime(signature.lastSeen)}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {signature.hosts.map((host) => (
+                            <NodeBadge key={host} hostname={host} />
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell className="font-mono text-xs text-muted-foreground">
+                        {signature.versions.join(", ")}
+                      </TableCell>
+                    </TableRow>
+                    {isExpanded && (
+                      <TableRow className="hover:bg-transparent">
+                        <TableCell colSpan={8} className="p-0">
+                          <SignatureDetail signature={signature} />
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      </TableWrapper>
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+"use client";
+
+import { Fragment, useEffect, useState } from "react";
+import { ChevronDown, ChevronRight, Filter, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+  TableWrapper,
+} from "@/components/ui/table";
+import { Sparkline } from "@/components/monitoring/MetricChart";
+import { fetchApi } from "@/lib/api/client";
+import type { LogPattern } from "@/lib/clickhouse/log-patterns";
+import { cn, formatDateTime } from "@/lib/utils";
+
+// Same hues as the level badges of the line view
+const LEVEL_COLORS: Record<string, string> = {
+  Fatal: "bg-red-600",
+  Critical: "bg-red-600",
+  Error: "bg-red-500",
+  Warning: "bg-yellow-500",
+  Notice: "bg-blue-400",
+  Information: "bg-blue-500",
+  Debug: "bg-slate-400",
+  Trace: "bg-slate-300",
+};
+
+interface LogPatternsProps {
+  /** Query string with the filters and time range of the line view */
+  query: string;
+  refreshKey?: number;
+  /** Called with a pattern to show its lines */
+  onSelectPattern: (pattern: string) => void;
+}
+
+function LevelMix({ levels, total }: { levels: LogPattern["levels"]; total: number }) {
+  return (
+    <div
+      className="flex h-2 w-24 overflow-hidden rounded-full bg-muted"
+      title={levels.map((l) => `${l.level}: ${l.count.toLocaleString()}`).join("\n")}
+    >
+      {levels.map((l) => (
+        <div
+          key={l.level}
+          className={LEVEL_COLORS[l.level] ?? "bg-muted-foreground"}
+          style={{ width: `${(l.count / total) * 100}%` }}
+        />
+      ))}
+    </div>
+  );
+}
+
+/**
+ * text_log lines grouped by message template, aggregated server-side.
+ * Rows expand to sample lines.
+ */
+export function LogPatterns({ query, refreshKey = 0, onSelectPattern }: LogPatternsProps) {
+  const [patterns, setPatterns] = useState<LogPattern[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const fetchPatterns = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const res = await fetchApi(`/api/clickhouse/logging?${query}&mode=patterns`, {
+          signal: controller.signal,
+        });
+        const json = await res.json();
+        if (!json.success) {
+          throw new Error(
+            json.error?.userMessage || json.error?.message || json.error || "Failed to load patterns",
+          );
+        }
+        setPatterns(json.data.patterns);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        setError(err instanceof Error ? err.message : "Failed to load patterns");
+      } finally {
+        if (!controller.signal.aborted) setIsLoading(false);
+      }
+    };
+
+    fetchPatterns();
+    return () => controller.abort();
+  }, [query, refreshKey]);
+
+  const totalLines = patterns.reduce((sum, p) => sum + p.count, 0);
+
+  return (
+    <div className="flex flex-1 min-h-0 flex-col gap-2">
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        {isLoading && <Loader2 className="h-3 w-3 animate-spin" />}
+        <span>
+          {patterns.length} pattern{patterns.length === 1 ? "" : "s"} over{" "}
+          {totalLines.toLocaleString()} lines
+        </span>
+        {error && <span className="text-destructive">{error}</span>}
+      </div>
+
+      <TableWrapper>
+        <div className="flex-1 overflow-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-8" />
+                <TableHead className="w-[90px] text-right">Count</TableHead>
+                <TableHead className="w-[110px]">Levels</TableHead>
+                <TableHead className="w-[110px]">Trend</TableHead>
+                <TableHead>Pattern</TableHead>
+                <TableHead className="w-[150px]">Last seen</TableHead>
+                <TableHead className="w-[90px]" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {patterns.length === 0 && !isLoading && (
+                <TableRow>
+                  <TableCell colSpan={7} className="h-24 text-center text-muted-foreground">
+                    No log lines match the filters.
+                  </TableCell>
+                </TableRow>
+              )}
+              {patterns.map((p) => {
+                const isExpanded = expanded === p.pattern;
+                return (
+                  <Fragment key={p.pattern}>
+                    <TableRow
+                      className="cursor-pointer"
+                      onClick={() => setExpanded(isExpanded ? null : p.pattern)}
+                    >
+                      <TableCell>
+                        {isExpanded ? (
+                          <ChevronDown className="h-4 w-4" />
+                        ) : (
+                          <ChevronRight className="h-4 w-4" />
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right font-medium">
+                        {p.count.toLocaleString()}
+                        <div className="text-[10px] font-normal text-muted-foreground">
+                          {((p.count / totalLines) * 100).toFixed(1)}%
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <LevelMix levels={p.levels} total={p.count} />
+                      </TableCell>
+                      <TableCell>
+                        <Sparkline
+                          data={p.sparkline.map((value) => ({ value }))}
+                          width={100}
+                          height={24}
+                        />
+                      </TableCell>
+                      <TableCell className="max-w-[600px]">
+                        <div className="truncate font-mono text-xs" title={p.pattern}>
+                          {p.pattern}
+                        </div>
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap text-xs">
+                        {formatDateTime(p.lastSeen)}
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 text-xs"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            onSelectPattern(p.pattern);
+                          }}
+                        >
+                          <Filter className="mr-1 h-3 w-3" />
+                          Lines
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                    {isExpanded && (
+                      <TableRow className="hover:bg-transparent">
+                        <TableCell />
+                        <TableCell colSpan={6} className="space-y-1 pb-3">
+                          <p className="font-mono text-xs whitespace-pre-wrap break-all">
+                            {p.pattern}
+                          </p>
+                          {p.samples.map((sample, i) => (
+                            <p
+                              key={i}
+                              className={cn(
+                                "rounded bg-muted/50 px-2 py-1 font-mono text-xs",
+                                "whitespace-pre-wrap break-all text-muted-foreground",
+                              )}
+                            >
+                              {sample}
+                            </p>
+                          ))}
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      </TableWrapper>
+    </div>
+  );
+}
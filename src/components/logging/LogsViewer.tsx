@@ -10,12 +10,15 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Search } from "lucide-react";
+import { Crosshair, List, Search, Shapes, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
 import { SystemLogsTable } from "./SystemLogsTable";
 import { SessionLogsTable } from "./SessionLogsTable";
+import { LogPatterns } from "./LogPatterns";
 import { DataSourceBadge } from "@/components/ui/data-source-badge";
 import { useLogStream } from "@/lib/hooks/use-log-stream";
 import { FlexibleTimeRange, TimeRange } from "@/lib/types/discover";
+import { cn } from "@/lib/utils";
 
 type LogLevel =
   | "All"
@@ -38,63 +41,121 @@ const LOG_LEVELS: LogLevel[] = [
 
 const SESSION_EVENTS = ["All", "LoginSuccess", "LoginFailure", "Logout"];
 
+// Enough for all lines of one query; followed queries load in a single page
+const FOLLOW_LIMIT = 10000;
+
 interface LogsViewerProps {
   source?: "text_log" | "crash_log" | "session_log";
   timeRange: FlexibleTimeRange;
   refreshKey?: number;
+  /** Node filter to start with, e.g. from a link to one replica's logs */
+  initialHost?: string;
+  /** Show every line of this query from all nodes, oldest first */
+  followQueryId?: string;
+  onFollowQuery?: (queryId: string) => void;
+  onStopFollowing?: () => void;
+}
+
+/** Start of a time range as an ISO string, resolving relative ranges against now */
+export function getRangeStart(timeRange: FlexibleTimeRange): string {
+  if (timeRange.type === "absolute") {
+    return timeRange.from;
+  } else {
+    // Relative
+    const rangeKey = timeRange.from.replace("now-", "") as TimeRange;
+    const now = new Date();
+    // Reuse logic from discover or dup minimal logic here
+    // duplicating minimal logic for safety/speed without circular deps if helper is not perfect
+    // actually let's use a quick map helper inside or similar
+    const mapping: Record<string, number> = {
+      "5m": 5,
+      "15m": 15,
+      "30m": 30,
+      "60m": 60,
+      "1h": 60,
+      "3h": 180,
+      "6h": 360,
+      "12h": 720,
+      "24h": 1440,
+      "3d": 4320,
+      "7d": 10080,
+    };
+    const minutes = mapping[rangeKey] || 60;
+    return new Date(now.getTime() - minutes * 60 * 1000).toISOString();
+  }
 }
 
 export function LogsViewer({
   source = "text_log",
   timeRange,
   refreshKey = 0,
+  initialHost = "",
+  followQueryId,
+  onFollowQuery,
+  onStopFollowing,
 }: LogsViewerProps) {
   // Filters
   const [search, setSearch] = useState("");
   const [component, setComponent] = useState("");
   const [level, setLevel] = useState<LogLevel>("All");
+  const [queryId, setQueryId] = useState("");
+  const [threadId, setThreadId] = useState("");
+  const [host, setHost] = useState(initialHost);
+  // Template picked in the patterns view; narrows the lines to it
+  const [pattern, setPattern] = useState("");
+  const [view, setView] = useState<"lines" | "patterns">("lines");
+  // Bumped on Apply so the patterns view refetches with the submitted filters
+  const [appliedKey, setAppliedKey] = useState(0);
+  const following = !!followQueryId;
+  const showPatterns = source === "text_log" && !following && view === "patterns";
 
   // Calculate minTime from timeRange
-  const minTime = useMemo(() => {
-    if (timeRange.type === "absolute") {
-      return timeRange.from;
-    } else {
-      // Relative
-      const rangeKey = timeRange.from.replace("now-", "") as TimeRange;
-      const now = new Date();
-      // Reuse logic from discover or dup minimal logic here
-      // duplicating minimal logic for safety/speed without circular deps if helper is not perfect
-      // actually let's use a quick map helper inside or similar
-      const mapping: Record<string, number> = {
-        "5m": 5,
-        "15m": 15,
-        "30m": 30,
-        "60m": 60,
-        "1h": 60,
-        "3h": 180,
-        "6h": 360,
-        "12h": 720,
-        "24h": 1440,
-        "3d": 4320,
-        "7d": 10080,
-      };
-      const minutes = mapping[rangeKey] || 60;
-      return new Date(now.getTime() - minutes * 60 * 1000).toISOString();
-    }
-  }, [timeRange]);
+  const minTime = useMemo(() => getRangeStart(timeRange), [timeRange]);
+
+  const maxTime =
+    timeRange.type === "absolute" && timeRange.to !== "now" ? timeRange.to : undefined;
 
   // Memoize query params
   const queryParams = useMemo(
-    () => ({
-      search,
-      component,
-      level,
-      minTime,
-      source,
-    }),
-    [search, component, level, minTime, source],
+    () =>
+      following
+        ? {
+            search,
+            component,
+            level,
+            threadId,
+            host,
+            source,
+            queryId: followQueryId,
+            order: "asc",
+            limit: FOLLOW_LIMIT,
+          }
+        : {
+            search,
+            component,
+            level,
+            queryId,
+            threadId,
+            host,
+            minTime,
+            maxTime,
+            source,
+            pattern,
+          },
+    [search, component, level, queryId, threadId, host, minTime, maxTime, source, pattern, following, followQueryId],
   );
 
+  // Patterns cover every template, so they ignore the selected pattern
+  const patternsQuery = useMemo(() => {
+    const params = new URLSearchParams();
+    Object.entries({ search, component, level, queryId, threadId, host, minTime, maxTime, source })
+      .forEach(([k, v]) => {
+        if (v) params.set(k, String(v));
+      });
+    return params.toString();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [appliedKey, minTime, maxTime, source]);
+
   const {
     logs,
     isLoading,
@@ -113,21 +174,32 @@ export function LogsViewer({
   useEffect(() => {
     reload();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [source, minTime]); // Reload when source or time window changes
+  }, [source, minTime, maxTime, followQueryId, pattern]); // Reload when source, time window, followed query or pattern changes
 
-  // Handle external refresh trigger
+  // Handle external refresh trigger; a followed query is re-read in full
   useEffect(() => {
     if (refreshKey > 0) {
-      loadLive();
+      if (following) {
+        reload();
+      } else {
+        loadLive();
+      }
     }
-  }, [refreshKey, loadLive]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [refreshKey]);
 
   // Handle filter submission
   const handleApplyFilters = (e?: React.FormEvent) => {
     e?.preventDefault();
+    setAppliedKey((k) => k + 1);
     reload();
   };
 
+  const selectPattern = (value: string) => {
+    setPattern(value);
+    setView("lines");
+  };
+
   // Infinite Scroll Trigger (Intersection Observer)
   const observerRef = useRef<IntersectionObserver | null>(null);
   const lastLogRef = useCallback(
@@ -148,9 +220,56 @@ export function LogsViewer({
   return (
     <div className="space-y-4 h-full flex flex-col">
       <div className="flex items-center justify-between">
-        <div />
+        {source === "text_log" && !following ? (
+          <div className="flex rounded-md border overflow-hidden">
+            <Button
+              variant="ghost"
+              size="sm"
+              className={cn("h-7 rounded-none text-xs", view === "lines" && "bg-accent")}
+              onClick={() => setView("lines")}
+            >
+              <List className="h-3 w-3 mr-1" />
+              Lines
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className={cn("h-7 rounded-none text-xs", view === "patterns" && "bg-accent")}
+              onClick={() => setView("patterns")}
+            >
+              <Shapes className="h-3 w-3 mr-1" />
+              Patterns
+            </Button>
+          </div>
+        ) : (
+          <div />
+        )}
       </div>
 
+      {following && (
+        <div className="flex items-center gap-2 text-sm">
+          <Badge variant="secondary" className="gap-2 pl-2 pr-1 py-1 h-7">
+            <Crosshair className="h-3.5 w-3.5" />
+            Following query <span className="font-mono">{followQueryId}</span>{" "}
+            on all nodes
+            {onStopFollowing && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-4 w-4 rounded-full ml-1 hover:bg-muted/50"
+                onClick={onStopFollowing}
+                aria-label="Stop following query"
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            )}
+          </Badge>
+          <span className="text-xs text-muted-foreground">
+            Oldest first, ignoring the time range
+          </span>
+        </div>
+      )}
+
       {/* Filters */}
       <form
         onSubmit={handleApplyFilters}
@@ -190,12 +309,46 @@ export function LogsViewer({
 
         {/* Component Input */}
         <Input
-          placeholder={source === "session_log" ? "User..." : "Component..."}
+          placeholder={
+            source === "session_log"
+              ? "User..."
+              : source === "text_log"
+                ? "Logger name..."
+                : "Component..."
+          }
           value={component}
           onChange={(e) => setComponent(e.target.value)}
           className="w-[150px]"
         />
 
+        {/* Correlation filters - text_log lines carry query and thread ids */}
+        {source === "text_log" && (
+          <>
+            {!following && (
+              <Input
+                placeholder="Query ID..."
+                value={queryId}
+                onChange={(e) => setQueryId(e.target.value.trim())}
+                className="w-[150px] font-mono"
+              />
+            )}
+            <Input
+              placeholder="Thread ID..."
+              value={threadId}
+              onChange={(e) => setThreadId(e.target.value.replace(/\D/g, ""))}
+              className="w-[110px] font-mono"
+              inputMode="numeric"
+            />
+          </>
+        )}
+
+        <Input
+          placeholder="Node..."
+          value={host}
+          onChange={(e) => setHost(e.target.value.trim())}
+          className="w-[130px]"
+        />
+
         {/* Message Search */}
         <div className="relative flex-1 max-w-[300px]">
           <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
@@ -212,15 +365,43 @@ export function LogsViewer({
         </Button>
       </form>
 
+      {pattern && !showPatterns && (
+        <div className="flex items-center gap-2 text-sm">
+          <Badge variant="secondary" className="gap-2 pl-2 pr-1 py-1 h-7 max-w-full">
+            <Shapes className="h-3.5 w-3.5 shrink-0" />
+            <span className="truncate font-mono" title={pattern}>
+              {pattern}
+            </span>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-4 w-4 rounded-full ml-1 hover:bg-muted/50"
+              onClick={() => setPattern("")}
+              aria-label="Clear pattern"
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          </Badge>
+        </div>
+      )}
+
+      {showPatterns && (
+        <LogPatterns
+          query={patternsQuery}
+          refreshKey={refreshKey}
+          onSelectPattern={selectPattern}
+        />
+      )}
+
       {/* Error Display */}
-      {error && (
+      {!showPatterns && error && (
         <div className="text-sm text-destructive bg-destructive/10 p-2 rounded">
           {error}
         </div>
       )}
 
       {/* Logs Table */}
-      {source === "session_log" ? (
+      {showPatterns ? null : source === "session_log" ? (
         <SessionLogsTable
           logs={logs}
           isLoading={isLoading && logs.length === 0}
@@ -237,26 +418,29 @@ export function LogsViewer({
         <SystemLogsTable
           logs={logs}
           isLoading={isLoading && logs.length === 0}
+          onFollowQuery={source === "text_log" ? onFollowQuery : undefined}
         />
       )}
 
       {/* Infinite Scroll Sentinel */}
-      {hasMore && !isLoading && (
+      {hasMore && !isLoading && !following && !showPatterns && (
         <div
           ref={lastLogRef as unknown as React.LegacyRef<HTMLDivElement>} // Cast because it might be attached to div, not tr
           className="h-4 w-full"
         />
       )}
-      {isLoading && logs.length > 0 && (
+      {isLoading && logs.length > 0 && !showPatterns && (
         <div className="py-2 text-center text-xs text-muted-foreground">
           Loading more...
         </div>
       )}
 
       {/* Stats */}
-      <div className="text-xs text-muted-foreground">
-        Showing {logs.length} / {totalHits || "?"} logs
-      </div>
+      {!showPatterns && (
+        <div className="text-xs text-muted-foreground">
+          Showing {logs.length} / {totalHits || "?"} logs
+        </div>
+      )}
 
       <DataSourceBadge
         sources={[
@@ -0,0 +1,424 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from "recharts";
+import { useTheme } from "next-themes";
+import { AlertTriangle, Loader2, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { fetchApi } from "@/lib/api/client";
+import {
+  DEFAULT_BURST_THRESHOLD,
+  DEFAULT_BURST_WINDOW_SECONDS,
+  type SessionAnalytics as SessionAnalyticsData,
+} from "@/lib/clickhouse/session-analytics";
+import type { FlexibleTimeRange } from "@/lib/types/discover";
+import { cn, formatDateTime } from "@/lib/utils";
+import { getRangeStart } from "./LogsViewer";
+
+const BURST_WINDOWS = [
+  { value: "60", label: "1 minute" },
+  { value: "300", label: "5 minutes" },
+  { value: "900", label: "15 minutes" },
+  { value: "3600", label: "1 hour" },
+];
+
+interface SessionAnalyticsProps {
+  timeRange: FlexibleTimeRange;
+  refreshKey?: number;
+}
+
+function formatUnixTime(seconds: number): string {
+  return formatDateTime(new Date(seconds * 1000));
+}
+
+function EmptyRow({ colSpan, children }: { colSpan: number; children: React.ReactNode }) {
+  return (
+    <TableRow>
+      <TableCell colSpan={colSpan} className="h-16 text-center text-xs text-muted-foreground">
+        {children}
+      </TableCell>
+    </TableRow>
+  );
+}
+
+/**
+ * Security view of system.session_log: failed logins, brute-force bursts,
+ * per-user login activity and logins from new addresses
+ */
+export function SessionAnalytics({ timeRange, refreshKey = 0 }: SessionAnalyticsProps) {
+  const { theme } = useTheme();
+  const [data, setData] = useState<SessionAnalyticsData | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [burstThreshold, setBurstThreshold] = useState(String(DEFAULT_BURST_THRESHOLD));
+  const [burstWindow, setBurstWindow] = useState(String(DEFAULT_BURST_WINDOW_SECONDS));
+  const [selectedUser, setSelectedUser] = useState<string | null>(null);
+
+  // Ignore the threshold while it is being edited into something invalid
+  const threshold = /^[1-9]\d*$/.test(burstThreshold)
+    ? burstThreshold
+    : String(DEFAULT_BURST_THRESHOLD);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const params = new URLSearchParams({
+      source: "session_log",
+      mode: "analytics",
+      minTime: getRangeStart(timeRange),
+      burstThreshold: threshold,
+      burstWindow,
+    });
+    if (timeRange.type === "absolute" && timeRange.to !== "now") {
+      params.set("maxTime", timeRange.to);
+    }
+    if (selectedUser !== null) params.set("user", selectedUser);
+
+    const fetchAnalytics = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const res = await fetchApi(`/api/clickhouse/logging?${params.toString()}`, {
+          signal: controller.signal,
+        });
+        const json = await res.json();
+        if (!json.success) {
+          throw new Error(
+            json.error?.userMessage || json.error?.message || json.error || "Failed to load analytics",
+          );
+        }
+        setData(json.data);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        setError(err instanceof Error ? err.message : "Failed to load analytics");
+      } finally {
+        if (!controller.signal.aborted) setIsLoading(false);
+      }
+    };
+
+    fetchAnalytics();
+    return () => controller.abort();
+  }, [timeRange, refreshKey, threshold, burstWindow, selectedUser]);
+
+  const timeline = useMemo(
+    () =>
+      (data?.timeline ?? []).map((bucket) => ({
+        ...bucket,
+        label: formatUnixTime(bucket.time),
+      })),
+    [data],
+  );
+
+  const totals = useMemo(
+    () =>
+      (data?.timeline ?? []).reduce(
+        (acc, b) => ({
+          successes: acc.successes + b.successes,
+          failures: acc.failures + b.failures,
+        }),
+        { successes: 0, failures: 0 },
+      ),
+    [data],
+  );
+
+  const axisColor = theme === "dark" ? "#888" : "#666";
+
+  return (
+    <div className="flex h-full flex-col gap-4 overflow-auto">
+      <div className="flex flex-wrap items-center gap-3 text-xs">
+        <div className="flex items-center gap-2">
+          <span className="text-muted-foreground">Burst at</span>
+          <Input
+            type="number"
+            min={1}
+            value={burstThreshold}
+            onChange={(e) => setBurstThreshold(e.target.value)}
+            className="h-8 w-20"
+          />
+          <span className="text-muted-foreground">failures within</span>
+          <Select value={burstWindow} onValueChange={setBurstWindow}>
+            <SelectTrigger className="h-8 w-[120px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {BURST_WINDOWS.map((w) => (
+                <SelectItem key={w.value} value={w.value}>
+                  {w.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {selectedUser !== null && (
+          <Badge variant="secondary" className="gap-1">
+            User: {selectedUser}
+            <button
+              type="button"
+              onClick={() => setSelectedUser(null)}
+              className="ml-1 hover:text-destructive"
+              aria-label="Clear user"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </Badge>
+        )}
+        {isLoading && <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" />}
+        {error && <span className="text-destructive">{error}</span>}
+      </div>
+
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-sm">
+            {selectedUser !== null ? `Logins of ${selectedUser}` : "Logins over time"}
+            <span className="ml-2 text-xs font-normal text-muted-foreground">
+              {totals.successes.toLocaleString()} successful,{" "}
+              {totals.failures.toLocaleString()} failed
+            </span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="h-[180px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={timeline} margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
+              <CartesianGrid
+                strokeDasharray="3 3"
+                stroke={theme === "dark" ? "#333" : "#eee"}
+                vertical={false}
+              />
+              <XAxis
+                dataKey="label"
+                stroke={axisColor}
+                fontSize={11}
+                tickLine={false}
+                axisLine={false}
+                minTickGap={30}
+              />
+              <YAxis
+                stroke={axisColor}
+                fontSize={11}
+                tickLine={false}
+                axisLine={false}
+                allowDecimals={false}
+                width={35}
+              />
+              <Tooltip
+                contentStyle={{
+                  backgroundColor: theme === "dark" ? "#1f1f1f" : "#fff",
+                  borderColor: theme === "dark" ? "#333" : "#ddd",
+                  fontSize: "12px",
+                  borderRadius: "6px",
+                }}
+                cursor={{ fill: "transparent" }}
+              />
+              <Bar dataKey="successes" name="Successful" stackId="logins" fill="#22c55e" />
+              <Bar dataKey="failures" name="Failed" stackId="logins" fill="#ef4444" />
+            </BarChart>
+          </ResponsiveContainer>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-4 xl:grid-cols-2">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="flex items-center gap-2 text-sm">
+              <AlertTriangle className="h-4 w-4 text-destructive" />
+              Failure bursts
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Window</TableHead>
+                  <TableHead>User</TableHead>
+                  <TableHead>Address</TableHead>
+                  <TableHead className="text-right">Failures</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data?.bursts.length === 0 && (
+                  <EmptyRow colSpan={4}>No user and address crossed the threshold.</EmptyRow>
+                )}
+                {data?.bursts.map((b) => (
+                  <TableRow key={`${b.windowStart}-${b.user}-${b.address}`}>
+                    <TableCell className="whitespace-nowrap text-xs">
+                      {formatUnixTime(b.windowStart)}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">{b.user}</TableCell>
+                    <TableCell className="font-mono text-xs">{b.address}</TableCell>
+                    <TableCell className="text-right font-medium text-destructive">
+                      {b.failures}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm">
+              New addresses
+              <span className="ml-2 text-xs font-normal text-muted-foreground">
+                successful logins from addresses unseen in the previous{" "}
+                {data?.baselineDays ?? 30} days
+              </span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>User</TableHead>
+                  <TableHead>Address</TableHead>
+                  <TableHead>First login</TableHead>
+                  <TableHead className="text-right">Logins</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data?.newAddresses.length === 0 && (
+                  <EmptyRow colSpan={4}>No logins from new addresses.</EmptyRow>
+                )}
+                {data?.newAddresses.map((a) => (
+                  <TableRow key={`${a.user}-${a.address}`}>
+                    <TableCell className="font-mono text-xs">{a.user}</TableCell>
+                    <TableCell className="font-mono text-xs">
+                      <Badge variant="outline" className="border-amber-500/50 text-amber-600">
+                        new
+                      </Badge>{" "}
+                      {a.address}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap text-xs">
+                      {formatDateTime(a.firstSeen)}
+                    </TableCell>
+                    <TableCell className="text-right">{a.logins}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm">Failed logins</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>User</TableHead>
+                  <TableHead>Address</TableHead>
+                  <TableHead>Interface</TableHead>
+                  <TableHead className="text-right">Failures</TableHead>
+                  <TableHead>Last seen</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data?.failures.length === 0 && (
+                  <EmptyRow colSpan={5}>No failed logins.</EmptyRow>
+                )}
+                {data?.failures.map((f) => (
+                  <TableRow key={`${f.user}-${f.address}-${f.interfaceName}`}>
+                    <TableCell className="font-mono text-xs">{f.user}</TableCell>
+                    <TableCell className="font-mono text-xs">{f.address}</TableCell>
+                    <TableCell className="text-xs">{f.interfaceName}</TableCell>
+                    <TableCell
+                      className="text-right font-medium"
+                      title={f.reasons.join("\n")}
+                    >
+                      {f.failures}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap text-xs">
+                      {formatDateTime(f.lastSeen)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm">
+              Users
+              <span className="ml-2 text-xs font-normal text-muted-foreground">
+                select a user for their login timeline
+              </span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>User</TableHead>
+                  <TableHead className="text-right">OK</TableHead>
+                  <TableHead className="text-right">Failed</TableHead>
+                  <TableHead>Auth types</TableHead>
+                  <TableHead className="text-right">Addresses</TableHead>
+                  <TableHead>Last login</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data?.users.length === 0 && <EmptyRow colSpan={6}>No logins.</EmptyRow>}
+                {data?.users.map((u) => (
+                  <TableRow
+                    key={u.user}
+                    className={cn("cursor-pointer", selectedUser === u.user && "bg-muted")}
+                    onClick={() => setSelectedUser(selectedUser === u.user ? null : u.user)}
+                  >
+                    <TableCell className="font-mono text-xs">{u.user}</TableCell>
+                    <TableCell className="text-right">{u.successes}</TableCell>
+                    <TableCell
+                      className={cn("text-right", u.failures > 0 && "text-destructive")}
+                    >
+                      {u.failures}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {u.authTypes.map((t) => (
+                          <Badge key={t} variant="outline" className="text-[10px] font-normal">
+                            {t}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">{u.addresses}</TableCell>
+                    <TableCell className="whitespace-nowrap text-xs">
+                      {formatDateTime(u.lastLogin)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,10 @@
 "use client";
 
 import { useMemo } from "react";
+import { Crosshair } from "lucide-react";
 import { VirtualizedDataTable } from "./VirtualizedDataTable";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import { TruncatedCell } from "@/components/shared/TruncatedCell";
 import type { LogEntry } from "@/lib/hooks/use-logs";
 import { formatDateTime } from "@/lib/utils";
@@ -10,6 +12,29 @@ import { formatDateTime } from "@/lib/utils";
 interface SystemLogsTableProps {
   logs: LogEntry[];
   isLoading?: boolean;
+  /** Shows a follow action on lines that belong to a query */
+  onFollowQuery?: (queryId: string) => void;
+}
+
+// Color palette for node tags, same as the multi-node charts
+const NODE_COLORS = [
+  "#22c55e", // green
+  "#3b82f6", // blue
+  "#f59e0b", // amber
+  "#ef4444", // red
+  "#8b5cf6", // purple
+  "#ec4899", // pink
+  "#06b6d4", // cyan
+  "#84cc16", // lime
+];
+
+// Hash the name so a node keeps its color as lines arrive
+export function getNodeColor(hostname: string): string {
+  let hash = 0;
+  for (let i = 0; i < hostname.length; i++) {
+    hash = (hash * 31 + hostname.charCodeAt(i)) | 0;
+  }
+  return NODE_COLORS[Math.abs(hash) % NODE_COLORS.length];
 }
 
 // Stylish badge colors for 6 log levels
@@ -63,7 +88,11 @@ function getLevelBadge(level: string) {
   }
 }
 
-export function SystemLogsTable({ logs, isLoading }: SystemLogsTableProps) {
+export function SystemLogsTable({
+  logs,
+  isLoading,
+  onFollowQuery,
+}: SystemLogsTableProps) {
   const columns = useMemo(
     () => [
       {
@@ -75,6 +104,24 @@ export function SystemLogsTable({ logs, isLoading }: SystemLogsTableProps) {
           </div>
         ),
       },
+      {
+        header: "Node",
+        width: 130,
+        cell: (log: LogEntry) =>
+          log.hostname ? (
+            <span className="flex items-center gap-1.5 whitespace-nowrap">
+              <span
+                className="h-2 w-2 shrink-0 rounded-full"
+                style={{ backgroundColor: getNodeColor(log.hostname) }}
+              />
+              <TruncatedCell
+                value={log.hostname}
+                maxWidth={110}
+                className="font-mono text-xs"
+              />
+            </span>
+          ) : null,
+      },
       {
         header: "Level",
         width: 80,
@@ -104,8 +151,31 @@ export function SystemLogsTable({ logs, isLoading }: SystemLogsTableProps) {
           </div>
         ),
       },
+      ...(onFollowQuery
+        ? [
+            {
+              header: "",
+              width: 40,
+              cell: (log: LogEntry) =>
+                log.query_id ? (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    title="Follow this query on all nodes"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onFollowQuery(log.query_id!);
+                    }}
+                  >
+                    <Crosshair className="h-3.5 w-3.5" />
+                  </Button>
+                ) : null,
+            },
+          ]
+        : []),
     ],
-    [],
+    [onFollowQuery],
   );
 
   // Column definitions for the detailed sheet
@@ -117,6 +187,8 @@ export function SystemLogsTable({ logs, isLoading }: SystemLogsTableProps) {
       { name: "message", type: "String" },
       { name: "details", type: "String" },
       { name: "event_time", type: "DateTime" },
+      { name: "hostname", type: "String" },
+      { name: "thread_id", type: "UInt64" },
       { name: "thread_name", type: "String" },
       { name: "query_id", type: "String" },
       { name: "source_file", type: "String" },
@@ -0,0 +1,510 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { AlertTriangle, HardDrive, Layers, Loader2, Unlink } from "lucide-react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  SortableTableHead,
+  TableHeader,
+  TableRow,
+  TableWrapper,
+} from "@/components/ui/table";
+import { StatCard, PaginationControls, TruncatedCell } from "@/components/monitoring";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ErrorDisplay } from "@/components/ui/error-display";
+import { useToast } from "@/components/ui/use-toast";
+import { useAuth } from "@/components/auth";
+import { fetchApi } from "@/lib/api/client";
+import {
+  BROKEN_DETACHED_REASONS,
+  canAttachDetachedPart,
+  canDropDetachedPart,
+  getDetachedReasonLabel,
+  type DetachedPart,
+  type DetachedPartAction,
+} from "@/lib/clickhouse/detached-parts";
+import {
+  useDetachedParts,
+  formatBytes,
+  formatNumber,
+  formatUptime,
+} from "@/lib/hooks/use-monitoring";
+import { cn } from "@/lib/utils";
+
+const DEFAULT_PAGE_SIZE = 50;
+const ENDPOINT = "/api/clickhouse/monitoring/detached-parts";
+
+interface DetachedPartsTabProps {
+  /** Scope to one table, as in the table explorer */
+  database?: string;
+  table?: string;
+  refreshInterval?: number;
+}
+
+interface PendingAction {
+  action: DetachedPartAction;
+  part: DetachedPart;
+}
+
+function isBroken(reason: string) {
+  return BROKEN_DETACHED_REASONS.includes(reason);
+}
+
+function DetachedPartActionDialog({
+  pending,
+  onClose,
+  onDone,
+}: {
+  pending: PendingAction | null;
+  onClose: () => void;
+  onDone: () => void;
+}) {
+  const { csrfToken } = useAuth();
+  const { toast } = useToast();
+  const [sql, setSql] = useState<string | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+
+  const body = useMemo(
+    () =>
+      pending && {
+        database: pending.part.database,
+        table: pending.part.table,
+        name: pending.part.name,
+        hostname: pending.part.hostname,
+        action: pending.action,
+      },
+    [pending],
+  );
+
+  // Ask the server for the statement it will run
+  useEffect(() => {
+    if (!body) return;
+    const controller = new AbortController();
+    setSql(null);
+    setPreviewError(null);
+
+    fetchApi(ENDPOINT, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-csrf-token": csrfToken || "",
+      },
+      body: JSON.stringify({ ...body, dryRun: true }),
+      signal: controller.signal,
+    })
+      .then((res) => res.json())
+      .then((json) => {
+        if (json.success) setSql(json.data.sql);
+        else setPreviewError(json.error || "Failed to build statement");
+      })
+      .catch((err) => {
+        if (!controller.signal.aborted) {
+          setPreviewError(err instanceof Error ? err.message : "Failed to build statement");
+        }
+      });
+
+    return () => controller.abort();
+  }, [body, csrfToken]);
+
+  const handleConfirm = async () => {
+    if (!body || !pending) return;
+    setRunning(true);
+    try {
+      const res = await fetchApi(ENDPOINT, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-csrf-token": csrfToken || "",
+        },
+        body: JSON.stringify(body),
+      });
+      const json = await res.json();
+      if (json.success) {
+        toast({
+          title: pending.action === "attach" ? "Part attached" : "Detached part dropped",
+          description: json.data.hosts?.length
+            ? `${pending.part.name} on ${json.data.hosts.join(", ")}`
+            : pending.part.name,
+        });
+        onDone();
+      } else {
+        toast({
+          title: pending.action === "attach" ? "Attach failed" : "Drop failed",
+          description: json.error,
+          variant: "destructive",
+        });
+      }
+    } catch (err) {
+      toast({
+        title: "Request failed",
+        description: err instanceof Error ? err.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const isDrop = pending?.action === "drop";
+
+  return (
+    <Dialog open={!!pending} onOpenChange={(open) => !open && !running && onClose()}>
+      <DialogContent className="sm:max-w-[560px]">
+        {pending && (
+          <>
+            <DialogHeader>
+              <DialogTitle>
+                {isDrop ? "Drop detached part" : "Attach part"}{" "}
+                <span className="font-mono">{pending.part.name}</span>
+              </DialogTitle>
+              <DialogDescription>
+                {pending.part.database}.{pending.part.table} on {pending.part.hostname},{" "}
+                {formatBytes(pending.part.bytes_on_disk)} on disk {pending.part.disk}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4">
+              <pre className="rounded-md border bg-muted/50 p-3 text-xs whitespace-pre-wrap break-all font-mono">
+                {previewError ? (
+                  <span className="text-muted-foreground">{previewError}</span>
+                ) : (
+                  sql ?? "…"
+                )}
+              </pre>
+
+              {isDrop && (
+                <div className="flex items-start gap-2 rounded-md border border-destructive/50 bg-destructive/10 p-3 text-xs">
+                  <AlertTriangle className="h-4 w-4 shrink-0 text-destructive" />
+                  <span>
+                    The part&apos;s files are deleted from {pending.part.path}. This
+                    cannot be undone.
+                  </span>
+                </div>
+              )}
+            </div>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={onClose} disabled={running}>
+                Cancel
+              </Button>
+              <Button
+                variant={isDrop ? "destructive" : "default"}
+                onClick={handleConfirm}
+                disabled={!sql || running}
+              >
+                {running && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {isDrop ? "Drop" : "Attach"}
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Detached parts by reason, disk, size and age. Cluster-wide in monitoring,
+ * scoped to one table in the table explorer.
+ */
+export function DetachedPartsTab({
+  database,
+  table,
+  refreshInterval = 0,
+}: DetachedPartsTabProps) {
+  const { data, isLoading, error, refetch } = useDetachedParts(
+    { database, table },
+    { refreshInterval },
+  );
+  const { permissions } = useAuth();
+  const canManage = !!permissions?.canManageTables;
+  const isTableScoped = !!database && !!table;
+
+  const [reasonFilter, setReasonFilter] = useState<string | null>(null);
+  const [pending, setPending] = useState<PendingAction | null>(null);
+  const [page, setPage] = useState(1);
+  const [pageSize, setPageSize] = useState(DEFAULT_PAGE_SIZE);
+  const [sortColumn, setSortColumn] = useState<string | undefined>("age_seconds");
+  const [sortDirection, setSortDirection] = useState<"asc" | "desc" | null>("asc");
+
+  const parts = data?.parts;
+
+  const sortedParts = useMemo(() => {
+    if (!parts) return [];
+
+    return parts
+      .filter((p) => reasonFilter === null || p.reason === reasonFilter)
+      .sort((a, b) => {
+        if (!sortColumn || !sortDirection) return 0;
+
+        const aValue = a[sortColumn as keyof DetachedPart];
+        const bValue = b[sortColumn as keyof DetachedPart];
+
+        if (aValue === bValue) return 0;
+        const comparison = aValue < bValue ? -1 : 1;
+        return sortDirection === "asc" ? comparison : -comparison;
+      });
+  }, [parts, reasonFilter, sortColumn, sortDirection]);
+
+  const paginatedParts = useMemo(() => {
+    const start = (page - 1) * pageSize;
+    return sortedParts.slice(start, start + pageSize);
+  }, [sortedParts, page, pageSize]);
+
+  const totalPages = Math.ceil(sortedParts.length / pageSize);
+
+  const updateSort = (column: string, direction: "asc" | "desc" | null) => {
+    setSortColumn(column);
+    setSortDirection(direction);
+  };
+
+  if (error) {
+    return (
+      <ErrorDisplay
+        severity="medium"
+        title="Failed to load detached parts"
+        message={error}
+      />
+    );
+  }
+
+  const totalBytes = parts?.reduce((sum, p) => sum + p.bytes_on_disk, 0) ?? 0;
+  const brokenCount = parts?.filter((p) => isBroken(p.reason)).length ?? 0;
+  const nodes = new Set(parts?.map((p) => p.hostname));
+  const isMultiNode = nodes.size > 1 || !!data?.clusterName;
+
+  return (
+    <div className={cn("space-y-6 h-full flex flex-col", isTableScoped && "p-4")}>
+      {data?.clusterName && !isTableScoped && (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Layers className="w-4 h-4" />
+          <span>
+            Cluster: <strong>{data.clusterName}</strong>
+          </span>
+        </div>
+      )}
+
+      {/* Summary Stats */}
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+        <StatCard
+          title="Detached Parts"
+          value={parts ? formatNumber(parts.length) : "-"}
+          icon={Unlink}
+          loading={isLoading && !data}
+        />
+        <StatCard
+          title="Size on Disk"
+          value={parts ? formatBytes(totalBytes) : "-"}
+          icon={HardDrive}
+          loading={isLoading && !data}
+        />
+        <StatCard
+          title="Broken or Unexpected"
+          value={parts ? formatNumber(brokenCount) : "-"}
+          icon={AlertTriangle}
+          status={brokenCount > 0 ? "warning" : "ok"}
+          loading={isLoading && !data}
+        />
+      </div>
+
+      {/* Reason filter */}
+      {data && data.reasons.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <Button
+            variant={reasonFilter === null ? "secondary" : "ghost"}
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => {
+              setReasonFilter(null);
+              setPage(1);
+            }}
+          >
+            All
+          </Button>
+          {data.reasons.map((r) => (
+            <Button
+              key={r.reason}
+              variant={reasonFilter === r.reason ? "secondary" : "ghost"}
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => {
+                setReasonFilter(r.reason);
+                setPage(1);
+              }}
+            >
+              <span className={cn(isBroken(r.reason) && "text-destructive")}>
+                {getDetachedReasonLabel(r.reason)}
+              </span>
+              <span className="ml-1 text-muted-foreground">
+                {formatNumber(r.parts)} · {formatBytes(r.bytes)}
+              </span>
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {data && data.parts.length === 0 ? (
+        <div className="flex flex-col items-center justify-center h-48 text-muted-foreground">
+          <Unlink className="h-12 w-12 mb-4 opacity-50" />
+          <p>No detached parts</p>
+        </div>
+      ) : (
+        <TableWrapper>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {isMultiNode && (
+                  <SortableTableHead
+                    currentSort={sortColumn === "hostname" ? sortDirection : null}
+                    onSort={(dir) => updateSort("hostname", dir)}
+                  >
+                    Node
+                  </SortableTableHead>
+                )}
+                {!isTableScoped && (
+                  <SortableTableHead
+                    currentSort={sortColumn === "table" ? sortDirection : null}
+                    onSort={(dir) => updateSort("table", dir)}
+                  >
+                    Table
+                  </SortableTableHead>
+                )}
+                <SortableTableHead
+                  currentSort={sortColumn === "name" ? sortDirection : null}
+                  onSort={(dir) => updateSort("name", dir)}
+                >
+                  Part
+                </SortableTableHead>
+                <SortableTableHead
+                  currentSort={sortColumn === "reason" ? sortDirection : null}
+                  onSort={(dir) => updateSort("reason", dir)}
+                >
+                  Reason
+                </SortableTableHead>
+                <SortableTableHead
+                  currentSort={sortColumn === "disk" ? sortDirection : null}
+                  onSort={(dir) => updateSort("disk", dir)}
+                >
+                  Disk
+                </SortableTableHead>
+                <SortableTableHead
+                  className="text-right"
+                  currentSort={sortColumn === "bytes_on_disk" ? sortDirection : null}
+                  onSort={(dir) => updateSort("bytes_on_disk", dir)}
+                >
+                  Size
+                </SortableTableHead>
+                <SortableTableHead
+                  className="text-right"
+                  currentSort={sortColumn === "age_seconds" ? sortDirection : null}
+                  onSort={(dir) => updateSort("age_seconds", dir)}
+                >
+                  Age
+                </SortableTableHead>
+                {canManage && <TableHead className="w-[150px]" />}
+              </TableRow>
+            </TableHeader>
+            <TableBody isLoading={isLoading && !data}>
+              {paginatedParts.map((part) => (
+                <TableRow key={`${part.hostname}:${part.database}.${part.table}:${part.disk}:${part.name}`}>
+                  {isMultiNode && (
+                    <TableCell className="data-table-cell text-xs">
+                      <TruncatedCell value={part.hostname} maxWidth={100} />
+                    </TableCell>
+                  )}
+                  {!isTableScoped && (
+                    <TableCell className="data-table-cell">
+                      <TruncatedCell
+                        value={`${part.database}.${part.table}`}
+                        maxWidth={240}
+                      />
+                    </TableCell>
+                  )}
+                  <TableCell className="font-mono text-xs" title={part.path}>
+                    {part.name}
+                  </TableCell>
+                  <TableCell>
+                    <Badge
+                      variant={isBroken(part.reason) ? "destructive" : "secondary"}
+                      className="text-xs"
+                    >
+                      {getDetachedReasonLabel(part.reason)}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="data-table-cell text-muted-foreground">
+                    {part.disk}
+                  </TableCell>
+                  <TableCell className="data-table-cell text-right">
+                    {formatBytes(part.bytes_on_disk)}
+                  </TableCell>
+                  <TableCell
+                    className="data-table-cell text-right text-muted-foreground"
+                    title={part.modification_time}
+                  >
+                    {formatUptime(part.age_seconds)}
+                  </TableCell>
+                  {canManage && (
+                    <TableCell className="text-right space-x-1">
+                      {canAttachDetachedPart(part) && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="h-7 text-xs"
+                          onClick={() => setPending({ action: "attach", part })}
+                        >
+                          Attach
+                        </Button>
+                      )}
+                      {canDropDetachedPart(part) && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 text-xs text-destructive"
+                          onClick={() => setPending({ action: "drop", part })}
+                        >
+                          Drop
+                        </Button>
+                      )}
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <div className="p-2 border-t">
+            <PaginationControls
+              page={page}
+              totalPages={totalPages}
+              totalItems={sortedParts.length}
+              pageSize={pageSize}
+              onPageChange={setPage}
+              onPageSizeChange={setPageSize}
+            />
+          </div>
+        </TableWrapper>
+      )}
+
+      <DetachedPartActionDialog
+        pending={pending}
+        onClose={() => setPending(null)}
+        onDone={() => {
+          setPending(null);
+          refetch();
+        }}
+      />
+    </div>
+  );
+}
@@ -23,6 +23,11 @@ import { DataSourceBadge } from "@/components/ui/data-source-badge";
 import { VirtualizedDataTable } from "@/components/logging/VirtualizedDataTable";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
+import {
+  KillMutationButton,
+  MutationDetailDialog,
+} from "@/components/tables/mutation-detail-dialog";
+import type { KillMutationRequest } from "@/lib/clickhouse/mutations";
 
 // Progress bar component
 function ProgressBar({
@@ -49,9 +54,11 @@ interface OperationsTabProps {
 }
 
 export function OperationsTab({ refreshInterval = 10000 }: OperationsTabProps) {
-  const { data, isLoading, error } = useOperations({
+  const { data, isLoading, error, refetch } = useOperations({
     refreshInterval,
   });
+  const [selectedMutation, setSelectedMutation] =
+    useState<KillMutationRequest | null>(null);
 
   // Sorting state for Merges
   const [mergeSort, setMergeSort] = useState<{
@@ -301,7 +308,12 @@ export function OperationsTab({ refreshInterval = 10000 }: OperationsTabProps) {
         width: 100,
         className: "text-center",
         cell: (m: MutationInfo) => (
-          <div className="text-center">{m.partsToDo}</div>
+          <div
+            className="text-center"
+            title={m.replicas ? `Across ${m.replicas} replicas` : undefined}
+          >
+            {m.partsToDo}
+          </div>
         ),
       },
       {
@@ -330,8 +342,31 @@ export function OperationsTab({ refreshInterval = 10000 }: OperationsTabProps) {
           <div className="text-muted-foreground">{m.createTime}</div>
         ),
       },
+      {
+        header: "Actions",
+        width: 130,
+        cell: (m: MutationInfo) => {
+          const mutation = {
+            database: m.database,
+            table: m.table,
+            mutationId: m.mutationId,
+          };
+          return (
+            <div className="flex items-center gap-1">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setSelectedMutation(mutation)}
+              >
+                Details
+              </Button>
+              <KillMutationButton mutation={mutation} onKilled={refetch} />
+            </div>
+          );
+        },
+      },
     ],
-    [mutationSort],
+    [mutationSort, refetch],
   );
 
   if (error) {
@@ -448,9 +483,19 @@ export function OperationsTab({ refreshInterval = 10000 }: OperationsTabProps) {
                 .filter((m) => m.latestFailReason)
                 .map((m, i) => (
                   <div key={i} className="text-sm">
-                    <span className="font-mono">
-                      {m.database}.{m.table}
-                    </span>
+                    <button
+                      type="button"
+                      className="font-mono hover:underline"
+                      onClick={() =>
+                        setSelectedMutation({
+                          database: m.database,
+                          table: m.table,
+                          mutationId: m.mutationId,
+                        })
+                      }
+                    >
+                      {m.database}.{m.table} {m.mutationId}
+                    </button>
                     : {m.latestFailReason}
                   </div>
                 ))}
@@ -459,6 +504,12 @@ export function OperationsTab({ refreshInterval = 10000 }: OperationsTabProps) {
         </div>
       )}
 
+      <MutationDetailDialog
+        mutation={selectedMutation}
+        onClose={() => setSelectedMutation(null)}
+        onKilled={refetch}
+      />
+
       {/* Info */}
       <DataSourceBadge
         sources={["system.merges", "system.mutations"]}
@@ -27,5 +27,6 @@ export { ReplicationTab } from "./ReplicationTab";
 export { OperationsTab } from "./OperationsTab";
 export { HealthTab } from "./HealthTab";
 export { DisksTab } from "./DisksTab";
+export { DetachedPartsTab } from "./DetachedPartsTab";
 export { KeeperTab } from "./KeeperTab";
 export { ClusterTab } from "./ClusterTab";
@@ -1,7 +1,8 @@
 "use client";
 
 import { useState, useMemo } from "react";
-import { Filter, AlertCircle, CheckCircle, X } from "lucide-react";
+import { Filter, AlertCircle, CheckCircle, ScrollText, X } from "lucide-react";
+import { useAuth } from "@/components/auth";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
@@ -47,6 +48,7 @@ export function HistoryTab({
 }: HistoryTabProps) {
   const router = useRouter();
   const pathname = usePathname();
+  const { permissions } = useAuth();
 
   const [page, setPage] = useState(1);
   const [pageSize, setPageSize] = useState(DEFAULT_PAGE_SIZE);
@@ -327,7 +329,25 @@ export function HistoryTab({
                     sheetTitle="Query Details"
                   >
                     <TableCell className="data-table-cell">
-                      <TruncatedCell value={query.query_id} maxWidth={150} />
+                      <div className="flex items-center gap-1">
+                        <TruncatedCell value={query.query_id} maxWidth={150} />
+                        {permissions?.canViewSystemLogs && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6 shrink-0 opacity-0 group-hover:opacity-100"
+                            title="Server logs of this query on all nodes"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              router.push(
+                                `/logging/server?query_id=${encodeURIComponent(query.query_id)}`,
+                              );
+                            }}
+                          >
+                            <ScrollText className="h-3.5 w-3.5" />
+                          </Button>
+                        )}
+                      </div>
                     </TableCell>
                     <TableCell className="data-table-cell">
                       <div className="max-w-[500px]">
@@ -0,0 +1,128 @@
+"use client";
+
+import { memo, useMemo } from "react";
+import {
+  ReactFlow,
+  Background,
+  Controls,
+  Handle,
+  Position,
+  MarkerType,
+  type Node,
+  type Edge,
+} from "@xyflow/react";
+import "@xyflow/react/dist/style.css";
+import { Cpu } from "lucide-react";
+import { applyDagreLayout } from "@/components/tables/dependency-graph";
+import type { PipelineGraph } from "@/lib/sql";
+
+type ProcessorNodeData = {
+  name: string;
+  parallelism: number;
+  step?: string;
+  [key: string]: unknown;
+};
+
+type ProcessorFlowNode = Node<ProcessorNodeData, "processorNode">;
+
+const NODE_WIDTH = 200;
+const NODE_HEIGHT = 56;
+
+function ProcessorNodeComponent({ data }: { data: ProcessorNodeData }) {
+  return (
+    <div className="px-3 py-2 rounded-lg border-2 border-border bg-background shadow-sm w-[200px]">
+      <Handle
+        type="target"
+        position={Position.Left}
+        className="!w-2 !h-2 !bg-muted-foreground"
+      />
+      <div className="flex items-center gap-2">
+        <Cpu className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+        <span className="text-xs font-medium truncate" title={data.name}>
+          {data.name}
+        </span>
+        {data.parallelism > 1 && (
+          <span className="ml-auto text-[10px] font-mono text-blue-600">
+            ×{data.parallelism}
+          </span>
+        )}
+      </div>
+      {data.step && (
+        <div
+          className="mt-1 text-[10px] text-muted-foreground truncate"
+          title={data.step}
+        >
+          {data.step}
+        </div>
+      )}
+      <Handle
+        type="source"
+        position={Position.Right}
+        className="!w-2 !h-2 !bg-muted-foreground"
+      />
+    </div>
+  );
+}
+
+const ProcessorNode = memo(ProcessorNodeComponent);
+
+const nodeTypes = {
+  processorNode: ProcessorNode,
+} as const;
+
+interface ExplainPipelineGraphProps {
+  graph: PipelineGraph;
+}
+
+export function ExplainPipelineGraph({ graph }: ExplainPipelineGraphProps) {
+  const { nodes, edges } = useMemo(() => {
+    const flowNodes: ProcessorFlowNode[] = graph.processors.map((p) => ({
+      id: p.id,
+      type: "processorNode",
+      position: { x: 0, y: 0 }, // Will be set by dagre
+      data: { name: p.name, parallelism: p.parallelism, step: p.step },
+    }));
+
+    const flowEdges: Edge[] = graph.connections.map((c) => ({
+      id: c.id,
+      source: c.source,
+      target: c.target,
+      type: "smoothstep",
+      label: c.label,
+      labelStyle: { fontSize: 10 },
+      markerEnd: { type: MarkerType.ArrowClosed, width: 15, height: 15 },
+      style: { strokeWidth: 2 },
+    }));
+
+    return {
+      nodes: applyDagreLayout(flowNodes, flowEdges, {
+        direction: "LR",
+        nodeWidth: NODE_WIDTH,
+        nodeHeight: NODE_HEIGHT,
+        rankSep: 60,
+        nodeSep: 20,
+      }),
+      edges: flowEdges,
+    };
+  }, [graph]);
+
+  return (
+    <div className="w-full h-full">
+      <ReactFlow
+        nodes={nodes}
+        edges={edges}
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        nodeTypes={nodeTypes as any}
+        nodesConnectable={false}
+        fitView
+        fitViewOptions={{ padding: 0.2 }}
+        minZoom={0.1}
+        maxZoom={2}
+        proOptions={{ hideAttribution: true }}
+      >
+        <Background gap={16} size={1} />
+        <Controls showInteractive={false} />
+      </ReactFlow>
+    </div>
+  );
+}
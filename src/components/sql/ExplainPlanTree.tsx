@@ -0,0 +1,258 @@
+"use client";
+
+import { useState, useCallback, useMemo } from "react";
+import {
+  ChevronRight,
+  ChevronDown,
+  AlertTriangle,
+  ArrowDownUp,
+  ChevronsDownUp,
+  ChevronsUpDown,
+} from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { formatNumber } from "@/lib/hooks/use-monitoring";
+import {
+  isIndexIneffective,
+  type ExplainIndexInfo,
+  type ExplainPlanNode,
+} from "@/lib/sql";
+
+interface ExplainPlanTreeProps {
+  plan: ExplainPlanNode;
+}
+
+function collectIds(node: ExplainPlanNode, ids: Set<string>): Set<string> {
+  ids.add(node.id);
+  for (const child of node.children) collectIds(child, ids);
+  return ids;
+}
+
+function formatRatio(selected?: number, initial?: number): string {
+  if (selected === undefined || initial === undefined) return "—";
+  const pct = initial > 0 ? ` (${((selected / initial) * 100).toFixed(0)}%)` : "";
+  return `${formatNumber(selected)} / ${formatNumber(initial)}${pct}`;
+}
+
+function indexLabel(index: ExplainIndexInfo): string {
+  return index.name ? `${index.type}: ${index.name}` : index.type;
+}
+
+function ReadTypeBadge({ readType }: { readType: string }) {
+  const inOrder = readType !== "Default";
+  return (
+    <Badge
+      variant="outline"
+      className={cn(
+        "normal-case tracking-normal",
+        inOrder && "text-green-600 border-green-600",
+      )}
+      title="Read type of the MergeTree read step"
+    >
+      <ArrowDownUp />
+      {inOrder ? `Read ${readType}` : "Read default order"}
+    </Badge>
+  );
+}
+
+function IndexSummaryBadge({ index }: { index: ExplainIndexInfo }) {
+  const ineffective = isIndexIneffective(index);
+  return (
+    <Badge
+      variant="outline"
+      className={cn(
+        "normal-case tracking-normal font-mono",
+        ineffective && "text-yellow-600 border-yellow-600",
+      )}
+      title={
+        ineffective
+          ? "Index was evaluated but did not exclude any granules"
+          : index.condition
+      }
+    >
+      {ineffective && <AlertTriangle />}
+      {indexLabel(index)}{" "}
+      {index.selectedGranules !== undefined &&
+        `${formatNumber(index.selectedGranules)}/${formatNumber(
+          index.initialGranules ?? 0,
+        )}`}
+    </Badge>
+  );
+}
+
+function IndexTable({ indexes }: { indexes: ExplainIndexInfo[] }) {
+  return (
+    <table className="w-full text-xs border rounded">
+      <thead className="bg-muted/50 text-muted-foreground">
+        <tr>
+          <th className="text-left font-medium px-2 py-1">Index</th>
+          <th className="text-left font-medium px-2 py-1">Keys / Condition</th>
+          <th className="text-right font-medium px-2 py-1">Parts</th>
+          <th className="text-right font-medium px-2 py-1">Granules</th>
+        </tr>
+      </thead>
+      <tbody>
+        {indexes.map((index, i) => (
+          <tr
+            key={`${index.type}-${index.name ?? i}`}
+            className={cn(
+              "border-t align-top",
+              isIndexIneffective(index) && "bg-yellow-500/10",
+            )}
+          >
+            <td className="px-2 py-1 font-medium whitespace-nowrap">
+              {indexLabel(index)}
+              {index.description && (
+                <div className="text-muted-foreground font-normal">
+                  {index.description}
+                </div>
+              )}
+            </td>
+            <td className="px-2 py-1 font-mono">
+              {index.keys.length > 0 && <div>{index.keys.join(", ")}</div>}
+              {index.condition && (
+                <div className="text-muted-foreground break-all">
+                  {index.condition}
+                </div>
+              )}
+            </td>
+            <td className="px-2 py-1 text-right font-mono whitespace-nowrap">
+              {formatRatio(index.selectedParts, index.initialParts)}
+            </td>
+            <td className="px-2 py-1 text-right font-mono whitespace-nowrap">
+              {formatRatio(index.selectedGranules, index.initialGranules)}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+interface PlanNodeRowProps {
+  node: ExplainPlanNode;
+  depth: number;
+  expanded: Set<string>;
+  onToggle: (id: string) => void;
+}
+
+function PlanNodeRow({ node, depth, expanded, onToggle }: PlanNodeRowProps) {
+  const isExpanded = expanded.has(node.id);
+  const hasBody =
+    node.children.length > 0 || node.details.length > 0 || node.indexes.length > 0;
+
+  return (
+    <div>
+      <div
+        className="flex items-start gap-1 py-1 pr-2 hover:bg-muted/40 rounded"
+        style={{ paddingLeft: depth * 20 }}
+      >
+        <button
+          type="button"
+          className={cn(
+            "mt-0.5 h-4 w-4 flex-shrink-0 text-muted-foreground",
+            !hasBody && "invisible",
+          )}
+          onClick={() => onToggle(node.id)}
+          aria-label={isExpanded ? "Collapse step" : "Expand step"}
+          aria-expanded={isExpanded}
+        >
+          {isExpanded ? (
+            <ChevronDown className="h-4 w-4" />
+          ) : (
+            <ChevronRight className="h-4 w-4" />
+          )}
+        </button>
+        <div className="flex flex-wrap items-center gap-2 min-w-0">
+          <span className="font-mono text-sm font-medium">{node.type}</span>
+          {node.description && (
+            <span className="text-xs text-muted-foreground truncate">
+              {node.description}
+            </span>
+          )}
+          {node.readType && <ReadTypeBadge readType={node.readType} />}
+          {node.indexes.map((index, i) => (
+            <IndexSummaryBadge key={`${index.type}-${index.name ?? i}`} index={index} />
+          ))}
+        </div>
+      </div>
+
+      {isExpanded && (node.details.length > 0 || node.indexes.length > 0) && (
+        <div
+          className="space-y-2 pb-2 pr-2"
+          style={{ paddingLeft: depth * 20 + 24 }}
+        >
+          {node.details.length > 0 && (
+            <dl className="grid grid-cols-[max-content_1fr] gap-x-3 gap-y-0.5 text-xs">
+              {node.details.map((detail) => (
+                <div key={detail.key} className="contents">
+                  <dt className="text-muted-foreground">{detail.key}</dt>
+                  <dd className="font-mono break-all">{detail.value}</dd>
+                </div>
+              ))}
+            </dl>
+          )}
+          {node.indexes.length > 0 && <IndexTable indexes={node.indexes} />}
+        </div>
+      )}
+
+      {isExpanded &&
+        node.children.map((child) => (
+          <PlanNodeRow
+            key={child.id}
+            node={child}
+            depth={depth + 1}
+            expanded={expanded}
+            onToggle={onToggle}
+          />
+        ))}
+    </div>
+  );
+}
+
+export function ExplainPlanTree({ plan }: ExplainPlanTreeProps) {
+  const allIds = useMemo(() => collectIds(plan, new Set<string>()), [plan]);
+  const [expanded, setExpanded] = useState<Set<string>>(() => new Set(allIds));
+
+  const handleToggle = useCallback((id: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  }, []);
+
+  return (
+    <div className="p-2">
+      <div className="flex gap-2 mb-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setExpanded(new Set(allIds))}
+        >
+          <ChevronsUpDown className="h-3 w-3 mr-1" />
+          Expand all
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setExpanded(new Set())}
+        >
+          <ChevronsDownUp className="h-3 w-3 mr-1" />
+          Collapse all
+        </Button>
+      </div>
+      <PlanNodeRow
+        node={plan}
+        depth={0}
+        expanded={expanded}
+        onToggle={handleToggle}
+      />
+    </div>
+  );
+}
@@ -1,8 +1,13 @@
 "use client";
 
+import { useMemo, useState } from "react";
 import { ScrollArea } from "@/components/ui/scroll-area";
 
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { parseExplainPlan, parsePipelineGraph, countPlanNodes } from "@/lib/sql";
+import { ExplainPlanTree } from "./ExplainPlanTree";
+import { ExplainPipelineGraph } from "./ExplainPipelineGraph";
 import type { ExplainType } from "./ExplainButton";
 
 interface ExplainVisualizerProps {
@@ -11,21 +16,75 @@ interface ExplainVisualizerProps {
 }
 
 export function ExplainVisualizer({ type, data }: ExplainVisualizerProps) {
-  // If data is a string but looks like JSON (for PLAN/PIPELINE)
-  // No JSON parsing needed as we display raw text for all types now
-  // based on user feedback that FORMAT JSON output is incorrect/unwanted
+  const [showRaw, setShowRaw] = useState(false);
+
+  // PLAN and PIPELINE are parsed into a tree/graph; AST and SYNTAX (and any
+  // output that fails to parse) are shown as plain text
+  const plan = useMemo(
+    () => (type === "PLAN" ? parseExplainPlan(data) : null),
+    [type, data],
+  );
+  const pipeline = useMemo(
+    () =>
+      type === "PIPELINE" && typeof data === "string"
+        ? parsePipelineGraph(data)
+        : null,
+    [type, data],
+  );
+
+  const hasStructuredView = plan !== null || pipeline !== null;
+  const rawText = typeof data === "string" ? data : JSON.stringify(data, null, 2);
 
-  // Render all types as simple code block
   return (
     <div className="h-full flex flex-col">
-      <div className="p-2 border-b bg-muted/40">
+      <div className="p-2 border-b bg-muted/40 flex items-center gap-2">
         <Badge variant="outline">{type}</Badge>
+        {plan && (
+          <span className="text-xs text-muted-foreground">
+            {countPlanNodes(plan)} steps
+          </span>
+        )}
+        {pipeline && (
+          <span className="text-xs text-muted-foreground">
+            {pipeline.processors.length} processors
+          </span>
+        )}
+        {hasStructuredView && (
+          <div className="ml-auto flex">
+            <Button
+              size="sm"
+              variant={showRaw ? "ghost" : "secondary"}
+              className="h-7 rounded-r-none"
+              onClick={() => setShowRaw(false)}
+            >
+              {plan ? "Tree" : "Graph"}
+            </Button>
+            <Button
+              size="sm"
+              variant={showRaw ? "secondary" : "ghost"}
+              className="h-7 rounded-l-none"
+              onClick={() => setShowRaw(true)}
+            >
+              Raw
+            </Button>
+          </div>
+        )}
       </div>
-      <ScrollArea className="flex-1 bg-muted/20">
-        <pre className="p-4 font-mono text-sm whitespace-pre-wrap">
-          {typeof data === "string" ? data : JSON.stringify(data, null, 2)}
-        </pre>
-      </ScrollArea>
+      {pipeline && !showRaw ? (
+        <div className="flex-1 min-h-0">
+          <ExplainPipelineGraph graph={pipeline} />
+        </div>
+      ) : (
+        <ScrollArea className="flex-1 bg-muted/20">
+          {plan && !showRaw ? (
+            <ExplainPlanTree key={rawText} plan={plan} />
+          ) : (
+            <pre className="p-4 font-mono text-sm whitespace-pre-wrap">
+              {rawText}
+            </pre>
+          )}
+        </ScrollArea>
+      )}
     </div>
   );
 }
@@ -0,0 +1,83 @@
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Button } from "@/components/ui/button";
+import { Download, Loader2, X } from "lucide-react";
+import { formatBytes, formatNumber } from "@/lib/hooks/use-monitoring";
+import {
+  EXPORT_FORMATS,
+  EXPORT_FORMAT_INFO,
+  type ExportFormat,
+} from "@/lib/export/formats";
+import type { SqlExportProgress } from "@/lib/hooks/use-sql-export";
+
+interface ExportButtonProps {
+  onExport: (format: ExportFormat) => void;
+  onCancel: () => void;
+  progress: SqlExportProgress | null;
+  disabled?: boolean;
+}
+
+export function ExportButton({
+  onExport,
+  onCancel,
+  progress,
+  disabled,
+}: ExportButtonProps) {
+  if (progress) {
+    return (
+      <div className="flex items-center">
+        <Button
+          size="sm"
+          variant="secondary"
+          disabled
+          className="rounded-r-none"
+        >
+          <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+          {EXPORT_FORMAT_INFO[progress.format].label}{" "}
+          {progress.bytesReceived !== null
+            ? formatBytes(progress.bytesReceived)
+            : progress.rowsRead !== null
+              ? `${formatNumber(progress.rowsRead)} rows`
+              : "starting…"}
+        </Button>
+        <Button
+          size="sm"
+          variant="secondary"
+          onClick={onCancel}
+          className="rounded-l-none px-2 border-l border-primary/20"
+          title="Cancel export"
+        >
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button size="sm" variant="secondary" disabled={disabled}>
+          <Download className="w-4 h-4 mr-1" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel className="text-xs text-muted-foreground font-normal">
+          Full result, without row limit
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {EXPORT_FORMATS.map((format) => (
+          <DropdownMenuItem key={format} onClick={() => onExport(format)}>
+            {EXPORT_FORMAT_INFO[format].label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
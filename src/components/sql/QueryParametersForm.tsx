@@ -0,0 +1,186 @@
+"use client";
+
+import { useEffect, useId, useRef, useState } from "react";
+import { Braces } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { fetchApi } from "@/lib/api/client";
+import type { QueryParameter } from "@/lib/sql";
+
+interface QueryParametersFormProps {
+  parameters: QueryParameter[];
+  values: Record<string, string>;
+  onChange: (name: string, value: string) => void;
+  /** Run the query (Enter in any field) */
+  onSubmit?: () => void;
+  /** Database used for value suggestions when the query does not name one */
+  database?: string | null;
+  disabled?: boolean;
+}
+
+/** Suggestions are offered for parameters entered as free text */
+const SUGGESTED_INPUTS = new Set(["text", "number", "array"]);
+
+function suggestionSource(
+  parameter: QueryParameter,
+  database: string | null | undefined,
+): { key: string; database: string; table: string; column: string } | null {
+  if (!parameter.column || !parameter.table || !SUGGESTED_INPUTS.has(parameter.input)) {
+    return null;
+  }
+  const db = parameter.table.database ?? database;
+  if (!db) return null;
+  return {
+    key: `${db}.${parameter.table.table}.${parameter.column}`,
+    database: db,
+    table: parameter.table.table,
+    column: parameter.column,
+  };
+}
+
+/**
+ * Typed inputs for the {name:Type} placeholders of the active query
+ */
+export function QueryParametersForm({
+  parameters,
+  values,
+  onChange,
+  onSubmit,
+  database,
+  disabled,
+}: QueryParametersFormProps) {
+  const idPrefix = useId();
+  const [suggestions, setSuggestions] = useState<Record<string, string[]>>({});
+  const requested = useRef(new Set<string>());
+
+  // Top values of the compared column, e.g. `status = {status:String}`
+  useEffect(() => {
+    for (const parameter of parameters) {
+      const source = suggestionSource(parameter, database);
+      if (!source || requested.current.has(source.key)) continue;
+      requested.current.add(source.key);
+
+      const params = new URLSearchParams({
+        database: source.database,
+        table: source.table,
+        column: source.column,
+      });
+      fetchApi(`/api/clickhouse/discover/field-values?${params}`)
+        .then((res) => res.json())
+        .then((data) => {
+          if (data.success && data.data) {
+            setSuggestions((prev) => ({
+              ...prev,
+              [source.key]: (data.data as { value: unknown }[]).map((row) =>
+                String(row.value),
+              ),
+            }));
+          }
+        })
+        .catch(() => {
+          // Suggestions are optional; the field still accepts any value
+        });
+    }
+  }, [parameters, database]);
+
+  if (parameters.length === 0) return null;
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter" && onSubmit) {
+      e.preventDefault();
+      onSubmit();
+    }
+  };
+
+  const renderInput = (parameter: QueryParameter, id: string) => {
+    const value = values[parameter.name] ?? "";
+    const setValue = (next: string) => onChange(parameter.name, next);
+
+    if (parameter.input === "boolean" || parameter.input === "enum") {
+      const options =
+        parameter.input === "boolean" ? ["true", "false"] : (parameter.options ?? []);
+      return (
+        <Select value={value} onValueChange={setValue} disabled={disabled}>
+          <SelectTrigger id={id} className="h-8 w-40">
+            <SelectValue placeholder="Select..." />
+          </SelectTrigger>
+          <SelectContent>
+            {options.map((option) => (
+              <SelectItem key={option} value={option}>
+                {option}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    }
+
+    const source = suggestionSource(parameter, database);
+    const listId = source && suggestions[source.key]?.length ? `${id}-values` : undefined;
+    const inputType =
+      parameter.input === "date"
+        ? "date"
+        : parameter.input === "datetime"
+          ? "datetime-local"
+          : parameter.input === "number"
+            ? "number"
+            : "text";
+
+    return (
+      <>
+        <Input
+          id={id}
+          type={inputType}
+          step={inputType === "datetime-local" ? 1 : inputType === "number" ? "any" : undefined}
+          list={listId}
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          onKeyDown={handleKeyDown}
+          disabled={disabled}
+          placeholder={
+            parameter.input === "array"
+              ? "a, b, c"
+              : parameter.nullable
+                ? "NULL"
+                : undefined
+          }
+          className="h-8 w-48 font-mono text-xs"
+        />
+        {listId && source && (
+          <datalist id={listId}>
+            {suggestions[source.key].map((option) => (
+              <option key={option} value={option} />
+            ))}
+          </datalist>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <div className="flex flex-wrap items-end gap-3 px-3 md:px-4 py-2 border-b bg-muted/30">
+      <Braces className="w-4 h-4 mb-2 text-muted-foreground shrink-0" />
+      {parameters.map((parameter) => {
+        const id = `${idPrefix}-${parameter.name}`;
+        return (
+          <div key={parameter.name} className="grid gap-1">
+            <Label htmlFor={id} className="text-xs">
+              <span className="font-mono">{parameter.name}</span>
+              <span className="ml-1 font-normal text-muted-foreground">
+                {parameter.type}
+              </span>
+            </Label>
+            {renderInput(parameter, id)}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,8 +1,9 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { fetchApi } from "@/lib/api/client";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
 import { useAuth } from "@/components/auth";
 import {
   Dialog,
@@ -15,58 +16,139 @@ import {
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { SavedQuery } from "@/app/api/saved-queries/route";
+import type { SavedQueryVisibility } from "@/lib/clickhouse/saved-queries";
 
 interface SaveQueryDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   sql: string;
+  /** Parameter values stored with the query */
+  params?: Record<string, string>;
   onSaved?: () => void;
+  /** Existing query to edit; a new revision is saved instead of a new query */
+  query?: SavedQuery;
+  /** Roles available for sharing; fetched when not provided */
+  roles?: string[];
+}
+
+const VISIBILITY_LABELS: Record<SavedQueryVisibility, string> = {
+  private: "Private (only me)",
+  roles: "Shared with roles",
+  public: "Public (everyone)",
+};
+
+function parseTags(value: string): string[] {
+  return value
+    .split(",")
+    .map((t) => t.trim())
+    .filter(Boolean);
 }
 
 export function SaveQueryDialog({
   open,
   onOpenChange,
   sql,
+  params,
   onSaved,
+  query,
+  roles,
 }: SaveQueryDialogProps) {
   const { csrfToken } = useAuth();
-  const [name, setName] = useState("");
-  const [description, setDescription] = useState("");
+  const [name, setName] = useState(query?.name ?? "");
+  const [description, setDescription] = useState(query?.description ?? "");
+  const [folder, setFolder] = useState(query?.folder ?? "");
+  const [tags, setTags] = useState(query?.tags.join(", ") ?? "");
+  const [visibility, setVisibility] = useState<SavedQueryVisibility>(
+    query?.visibility ?? "private",
+  );
+  const [sharedRoles, setSharedRoles] = useState<string[]>(
+    query?.shared_roles ?? [],
+  );
+  const [fetchedRoles, setFetchedRoles] = useState<string[] | null>(null);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  const availableRoles = roles ?? fetchedRoles ?? [];
+
+  useEffect(() => {
+    if (!open || roles || fetchedRoles) return;
+
+    fetchApi("/api/saved-queries")
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.success) setFetchedRoles(data.roles ?? []);
+      })
+      .catch(() => {
+        // Sharing with roles is unavailable without the role list
+      });
+  }, [open, roles, fetchedRoles]);
+
+  const toggleRole = (role: string, checked: boolean) => {
+    setSharedRoles((prev) =>
+      checked ? [...prev, role] : prev.filter((r) => r !== role),
+    );
+  };
+
   const handleSave = async () => {
     if (!name.trim()) {
       setError("Name is required");
       return;
     }
+    if (visibility === "roles" && sharedRoles.length === 0) {
+      setError("Select at least one role to share with");
+      return;
+    }
 
     setSaving(true);
     setError(null);
 
     try {
-      const res = await fetchApi("/api/saved-queries", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "x-csrf-token": csrfToken || "",
+      const res = await fetchApi(
+        query ? `/api/saved-queries/${query.id}` : "/api/saved-queries",
+        {
+          method: query ? "PUT" : "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "x-csrf-token": csrfToken || "",
+          },
+          body: JSON.stringify({
+            name,
+            description,
+            sql,
+            params: params ?? {},
+            folder,
+            tags: parseTags(tags),
+            visibility,
+            shared_roles: visibility === "roles" ? sharedRoles : [],
+          }),
         },
-        body: JSON.stringify({
-          name,
-          description,
-          sql,
-        }),
-      });
+      );
 
       const data = await res.json();
 
       if (data.success) {
         onOpenChange(false);
-        setName("");
-        setDescription("");
+        if (!query) {
+          setName("");
+          setDescription("");
+          setFolder("");
+          setTags("");
+          setVisibility("private");
+          setSharedRoles([]);
+        }
         if (onSaved) onSaved();
       } else {
-        setError(data.error || "Failed to save query");
+        setError(
+          data.error?.userMessage || data.error?.message || "Failed to save query",
+        );
       }
     } catch {
       setError("An unexpected error occurred");
@@ -77,11 +159,13 @@ export function SaveQueryDialog({
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[425px]">
+      <DialogContent className="sm:max-w-[480px]">
         <DialogHeader>
-          <DialogTitle>Save Query</DialogTitle>
+          <DialogTitle>{query ? "Edit Saved Query" : "Save Query"}</DialogTitle>
           <DialogDescription>
-            Save your query to access it later.
+            {query
+              ? `Saving creates revision ${query.revision + 1}. Earlier revisions can be restored from history.`
+              : "Save your query to access it later or share it with your team."}
           </DialogDescription>
         </DialogHeader>
         <div className="grid gap-4 py-4">
@@ -106,6 +190,78 @@ export function SaveQueryDialog({
               disabled={saving}
             />
           </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="folder">Folder</Label>
+              <Input
+                id="folder"
+                value={folder}
+                onChange={(e) => setFolder(e.target.value)}
+                placeholder="investigations/merges"
+                disabled={saving}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="tags">Tags</Label>
+              <Input
+                id="tags"
+                value={tags}
+                onChange={(e) => setTags(e.target.value)}
+                placeholder="slow, replication"
+                disabled={saving}
+              />
+            </div>
+          </div>
+          <div className="grid gap-2">
+            <Label>Visibility</Label>
+            <Select
+              value={visibility}
+              onValueChange={(v) => setVisibility(v as SavedQueryVisibility)}
+              disabled={saving}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(VISIBILITY_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {visibility === "roles" && (
+            <div className="grid gap-2">
+              <Label>Share with roles</Label>
+              {availableRoles.length === 0 ? (
+                <p className="text-xs text-muted-foreground">
+                  You don&apos;t hold any roles to share with.
+                </p>
+              ) : (
+                <div className="max-h-32 overflow-auto grid gap-1.5 rounded border p-2">
+                  {availableRoles.map((role) => (
+                    <div key={role} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`share-role-${role}`}
+                        checked={sharedRoles.includes(role)}
+                        onCheckedChange={(checked) =>
+                          toggleRole(role, checked === true)
+                        }
+                        disabled={saving}
+                      />
+                      <Label
+                        htmlFor={`share-role-${role}`}
+                        className="text-xs font-normal font-mono cursor-pointer"
+                      >
+                        {role}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
           {error && <p className="text-sm text-red-500">{error}</p>}
         </div>
         <DialogFooter>
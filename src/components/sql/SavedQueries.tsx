@@ -1,21 +1,77 @@
 "use client";
 
-import { useEffect, useState } from "react";
-import { Bookmark, Play } from "lucide-react";
+import { useEffect, useMemo, useState } from "react";
+import {
+  Bookmark,
+  Folder,
+  Globe,
+  History,
+  Lock,
+  Pencil,
+  Play,
+  Trash2,
+  Users,
+  X,
+} from "lucide-react";
 import { type SavedQuery } from "@/app/api/saved-queries/route";
 import { fetchApi } from "@/lib/api/client";
 import { useTabsStore } from "@/lib/store/tabs";
+import { useAuth } from "@/components/auth";
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { SaveQueryDialog } from "./SaveQueryDialog";
+import { SavedQueryHistoryDialog } from "./SavedQueryHistoryDialog";
+
 interface SavedQueriesProps {
-  onSelect?: (sql: string) => void;
+  onSelect?: (sql: string, params: Record<string, string>) => void;
+}
+
+function VisibilityIcon({ query }: { query: SavedQuery }) {
+  if (query.visibility === "public") {
+    return (
+      <span title="Public">
+        <Globe className="w-3 h-3 text-muted-foreground" />
+      </span>
+    );
+  }
+  if (query.visibility === "roles") {
+    return (
+      <span title={`Shared with ${query.shared_roles.join(", ")}`}>
+        <Users className="w-3 h-3 text-muted-foreground" />
+      </span>
+    );
+  }
+  return (
+    <span title="Private">
+      <Lock className="w-3 h-3 text-muted-foreground" />
+    </span>
+  );
 }
 
 export function SavedQueries({ onSelect }: SavedQueriesProps) {
   const { addTab } = useTabsStore();
+  const { user, csrfToken } = useAuth();
   const [queries, setQueries] = useState<SavedQuery[]>([]);
+  const [roles, setRoles] = useState<string[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [editing, setEditing] = useState<SavedQuery | null>(null);
+  const [historyFor, setHistoryFor] = useState<SavedQuery | null>(null);
 
   const fetchQueries = async () => {
     setLoading(true);
@@ -24,8 +80,10 @@ export function SavedQueries({ onSelect }: SavedQueriesProps) {
       const data = await res.json();
       if (data.success) {
         setQueries(data.data);
+        setRoles(data.roles ?? []);
+        setError(null);
       } else {
-        setError(data.error);
+        setError(data.error?.userMessage || "Failed to fetch saved queries");
       }
     } catch {
       setError("Failed to fetch saved queries");
@@ -38,21 +96,61 @@ export function SavedQueries({ onSelect }: SavedQueriesProps) {
     fetchQueries();
   }, []);
 
-  const handleSelect = (sql: string, name: string) => {
+  const handleSelect = (query: SavedQuery) => {
     if (onSelect) {
-      onSelect(sql);
+      onSelect(query.sql, query.params);
     } else {
-      addTab({ sql, name: name });
+      addTab({ sql: query.sql, name: query.name, params: query.params });
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      const res = await fetchApi(`/api/saved-queries/${id}`, {
+        method: "DELETE",
+        headers: { "x-csrf-token": csrfToken || "" },
+      });
+      const data = await res.json();
+      if (!data.success) {
+        setError(data.error?.userMessage || "Failed to delete query");
+        return;
+      }
+      await fetchQueries();
+    } catch {
+      setError("Failed to delete query");
     }
   };
 
-  if (loading) {
+  // Group visible queries by folder; unfiled queries come first
+  const folders = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    const groups = new Map<string, SavedQuery[]>();
+
+    for (const query of queries) {
+      if (tagFilter && !query.tags.includes(tagFilter)) continue;
+      if (
+        term &&
+        !query.name.toLowerCase().includes(term) &&
+        !query.description.toLowerCase().includes(term) &&
+        !query.tags.some((t) => t.includes(term))
+      ) {
+        continue;
+      }
+      const group = groups.get(query.folder) ?? [];
+      group.push(query);
+      groups.set(query.folder, group);
+    }
+
+    return [...groups.entries()].sort(([a], [b]) => a.localeCompare(b));
+  }, [queries, search, tagFilter]);
+
+  if (loading && queries.length === 0) {
     return (
       <div className="p-4 text-center text-muted-foreground">Loading...</div>
     );
   }
 
-  if (error) {
+  if (error && queries.length === 0) {
     return <div className="p-4 text-center text-red-500">{error}</div>;
   }
 
@@ -83,47 +181,184 @@ export function SavedQueries({ onSelect }: SavedQueriesProps) {
         </Button>
       </div>
 
-      <ScrollArea className="flex-1">
-        <div className="p-4 space-y-4">
-          {queries.map((query) => (
-            <div
-              key={query.id}
-              className="group relative flex flex-col gap-2 pb-4 border-b last:border-0 last:pb-0"
+      <div className="px-4 py-2 border-b space-y-2">
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search name, description or tag..."
+          className="h-8 text-xs"
+        />
+        {tagFilter && (
+          <Badge variant="secondary" className="gap-1">
+            #{tagFilter}
+            <button
+              type="button"
+              onClick={() => setTagFilter(null)}
+              aria-label="Clear tag filter"
             >
-              <div className="flex items-center justify-between">
-                <span className="font-medium text-sm">{query.name}</span>
-                <span className="text-xs text-muted-foreground">
-                  {new Date(query.created_at).toLocaleDateString()}
-                </span>
-              </div>
-
-              {query.description && (
-                <p className="text-xs text-muted-foreground line-clamp-2">
-                  {query.description}
-                </p>
+              <X className="w-3 h-3" />
+            </button>
+          </Badge>
+        )}
+        {error && <p className="text-xs text-red-500">{error}</p>}
+      </div>
+
+      <ScrollArea className="flex-1">
+        <div className="p-4 space-y-6">
+          {folders.map(([folder, folderQueries]) => (
+            <div key={folder || "__unfiled"} className="space-y-4">
+              {folder && (
+                <div className="flex items-center gap-1.5 text-xs font-medium text-muted-foreground">
+                  <Folder className="w-3 h-3" />
+                  {folder}
+                </div>
               )}
+              {folderQueries.map((query) => {
+                const isOwner = query.created_by === user?.username;
+                return (
+                  <div
+                    key={query.id}
+                    className="group relative flex flex-col gap-2 pb-4 border-b last:border-0 last:pb-0"
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium text-sm flex items-center gap-1.5 min-w-0">
+                        <VisibilityIcon query={query} />
+                        <span className="truncate">{query.name}</span>
+                      </span>
+                      <span className="text-xs text-muted-foreground whitespace-nowrap">
+                        {new Date(query.updated_at).toLocaleDateString()}
+                      </span>
+                    </div>
+
+                    <div className="flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+                      {!isOwner && <span>by {query.created_by}</span>}
+                      {query.revision > 1 && <span>rev {query.revision}</span>}
+                      {query.tags.map((tag) => (
+                        <button
+                          key={tag}
+                          type="button"
+                          onClick={() => setTagFilter(tag)}
+                        >
+                          <Badge variant="outline" className="normal-case tracking-normal">
+                            #{tag}
+                          </Badge>
+                        </button>
+                      ))}
+                    </div>
 
-              {/* SQL Preview */}
-              <div className="bg-muted/50 p-2 rounded text-xs font-mono line-clamp-3 text-muted-foreground">
-                {query.sql}
-              </div>
-
-              {/* Actions */}
-              <div className="flex items-center gap-2 mt-1">
-                <Button
-                  size="sm"
-                  variant="secondary"
-                  className="h-7 text-xs w-full"
-                  onClick={() => handleSelect(query.sql, query.name)}
-                >
-                  <Play className="w-3 h-3 mr-1" />
-                  Load
-                </Button>
-              </div>
+                    {query.description && (
+                      <p className="text-xs text-muted-foreground line-clamp-2">
+                        {query.description}
+                      </p>
+                    )}
+
+                    {/* SQL Preview */}
+                    <div className="bg-muted/50 p-2 rounded text-xs font-mono line-clamp-3 text-muted-foreground">
+                      {query.sql}
+                    </div>
+
+                    {/* Actions */}
+                    <div className="flex items-center gap-2 mt-1">
+                      <Button
+                        size="sm"
+                        variant="secondary"
+                        className="h-7 text-xs flex-1"
+                        onClick={() => handleSelect(query)}
+                      >
+                        <Play className="w-3 h-3 mr-1" />
+                        Load
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-7 w-7 p-0"
+                        title="History"
+                        onClick={() => setHistoryFor(query)}
+                      >
+                        <History className="w-3 h-3" />
+                      </Button>
+                      {isOwner && (
+                        <>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="h-7 w-7 p-0"
+                            title="Edit"
+                            onClick={() => setEditing(query)}
+                          >
+                            <Pencil className="w-3 h-3" />
+                          </Button>
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                className="h-7 w-7 p-0 text-muted-foreground hover:text-red-500"
+                                title="Delete"
+                              >
+                                <Trash2 className="w-3 h-3" />
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Delete saved query?</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  &quot;{query.name}&quot; will be removed for
+                                  everyone it is shared with.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction
+                                  onClick={() => handleDelete(query.id)}
+                                >
+                                  Delete
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
             </div>
           ))}
+          {folders.length === 0 && (
+            <p className="text-xs text-center text-muted-foreground">
+              No queries match the current filter
+            </p>
+          )}
         </div>
       </ScrollArea>
+
+      {editing && (
+        <SaveQueryDialog
+          key={`${editing.id}-${editing.revision}`}
+          open={true}
+          onOpenChange={(open) => !open && setEditing(null)}
+          sql={editing.sql}
+          params={editing.params}
+          query={editing}
+          roles={roles}
+          onSaved={fetchQueries}
+        />
+      )}
+
+      {historyFor && (
+        <SavedQueryHistoryDialog
+          query={historyFor}
+          open={true}
+          onOpenChange={(open) => !open && setHistoryFor(null)}
+          canRestore={historyFor.created_by === user?.username}
+          onLoad={(sql, name, params) => {
+            addTab({ sql, name, params });
+            setHistoryFor(null);
+          }}
+          onRestored={fetchQueries}
+        />
+      )}
     </div>
   );
 }
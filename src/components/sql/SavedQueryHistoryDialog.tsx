@@ -0,0 +1,208 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { History, Loader2, Play, RotateCcw } from "lucide-react";
+import { fetchApi } from "@/lib/api/client";
+import { diffLines } from "@/lib/sql";
+import { cn } from "@/lib/utils";
+import { useAuth } from "@/components/auth";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { SavedQuery } from "@/app/api/saved-queries/route";
+
+interface SavedQueryHistoryDialogProps {
+  query: SavedQuery;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Whether the current user may restore revisions (owner only) */
+  canRestore: boolean;
+  onLoad: (sql: string, name: string, params: Record<string, string>) => void;
+  onRestored: () => void;
+}
+
+function DiffView({ before, after }: { before: string; after: string }) {
+  const lines = useMemo(() => diffLines(before, after), [before, after]);
+
+  return (
+    <pre className="text-xs font-mono">
+      {lines.map((line, i) => (
+        <div
+          key={i}
+          className={cn(
+            "px-2 whitespace-pre-wrap break-all",
+            line.type === "added" && "bg-green-500/15 text-green-700 dark:text-green-400",
+            line.type === "removed" && "bg-red-500/15 text-red-700 dark:text-red-400",
+          )}
+        >
+          <span className="select-none text-muted-foreground mr-2">
+            {line.type === "added" ? "+" : line.type === "removed" ? "-" : " "}
+          </span>
+          {line.text}
+        </div>
+      ))}
+    </pre>
+  );
+}
+
+export function SavedQueryHistoryDialog({
+  query,
+  open,
+  onOpenChange,
+  canRestore,
+  onLoad,
+  onRestored,
+}: SavedQueryHistoryDialogProps) {
+  const { csrfToken } = useAuth();
+  const [revisions, setRevisions] = useState<SavedQuery[] | null>(null);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [restoring, setRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    fetchApi(`/api/saved-queries/${query.id}/versions`)
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.success) {
+          setRevisions(data.data);
+          // Default to the previous revision so the diff shows the last change
+          setSelected(data.data[1]?.revision ?? data.data[0]?.revision ?? null);
+        } else {
+          setError(data.error?.userMessage || "Failed to load history");
+        }
+      })
+      .catch(() => setError("Failed to load history"));
+  }, [open, query.id, query.revision]);
+
+  const selectedRevision = revisions?.find((r) => r.revision === selected);
+
+  const handleRestore = async () => {
+    if (!selectedRevision) return;
+    setRestoring(true);
+    setError(null);
+
+    try {
+      const res = await fetchApi(`/api/saved-queries/${query.id}/versions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-csrf-token": csrfToken || "",
+        },
+        body: JSON.stringify({ revision: selectedRevision.revision }),
+      });
+      const data = await res.json();
+      if (data.success) {
+        onRestored();
+        onOpenChange(false);
+      } else {
+        setError(data.error?.userMessage || "Failed to restore revision");
+      }
+    } catch {
+      setError("An unexpected error occurred");
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[860px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="w-4 h-4" />
+            History: {query.name}
+          </DialogTitle>
+          <DialogDescription>
+            Changes from the selected revision to the current revision{" "}
+            {query.revision}.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!revisions && !error ? (
+          <div className="flex items-center justify-center h-40 text-muted-foreground">
+            <Loader2 className="w-5 h-5 animate-spin" />
+          </div>
+        ) : (
+          <div className="grid grid-cols-[200px_1fr] gap-4 h-[420px]">
+            <ScrollArea className="border rounded">
+              <div className="p-1">
+                {revisions?.map((rev) => (
+                  <button
+                    key={rev.revision}
+                    type="button"
+                    onClick={() => setSelected(rev.revision)}
+                    className={cn(
+                      "w-full text-left rounded px-2 py-1.5 text-xs hover:bg-muted",
+                      rev.revision === selected && "bg-muted",
+                    )}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium">Revision {rev.revision}</span>
+                      {rev.revision === query.revision && (
+                        <Badge variant="secondary">current</Badge>
+                      )}
+                    </div>
+                    <div className="text-muted-foreground">
+                      {rev.updated_by || rev.created_by} ·{" "}
+                      {new Date(rev.updated_at).toLocaleString()}
+                    </div>
+                  </button>
+                ))}
+              </div>
+            </ScrollArea>
+
+            <div className="flex flex-col min-h-0 gap-2">
+              <ScrollArea className="flex-1 border rounded bg-muted/20">
+                {selectedRevision && (
+                  <DiffView before={selectedRevision.sql} after={query.sql} />
+                )}
+              </ScrollArea>
+              {error && <p className="text-sm text-red-500">{error}</p>}
+              <div className="flex justify-end gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={!selectedRevision}
+                  onClick={() =>
+                    selectedRevision &&
+                    onLoad(
+                      selectedRevision.sql,
+                      `${selectedRevision.name} (rev ${selectedRevision.revision})`,
+                      selectedRevision.params,
+                    )
+                  }
+                >
+                  <Play className="w-3 h-3 mr-1" />
+                  Open in new tab
+                </Button>
+                {canRestore && (
+                  <Button
+                    size="sm"
+                    disabled={
+                      !selectedRevision ||
+                      selectedRevision.revision === query.revision ||
+                      restoring
+                    }
+                    onClick={handleRestore}
+                  >
+                    <RotateCcw className="w-3 h-3 mr-1" />
+                    {restoring ? "Restoring..." : "Restore"}
+                  </Button>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
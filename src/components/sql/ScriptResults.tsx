@@ -0,0 +1,148 @@
+"use client";
+
+import {
+  AlertCircle,
+  CheckCircle2,
+  Circle,
+  CircleSlash,
+  Loader2,
+  SkipForward,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { ScriptRun, ScriptStatementStatus } from "@/lib/store/tabs";
+import { VirtualizedResultGrid } from "./VirtualizedResultGrid";
+
+interface ScriptResultsProps {
+  script: ScriptRun;
+  onSelect: (index: number) => void;
+}
+
+const STATUS_ICONS: Record<ScriptStatementStatus, React.ElementType> = {
+  pending: Circle,
+  running: Loader2,
+  success: CheckCircle2,
+  error: AlertCircle,
+  skipped: SkipForward,
+  cancelled: CircleSlash,
+};
+
+const STATUS_CLASSES: Record<ScriptStatementStatus, string> = {
+  pending: "text-muted-foreground",
+  running: "text-primary animate-spin",
+  success: "text-green-500",
+  error: "text-destructive",
+  skipped: "text-muted-foreground",
+  cancelled: "text-muted-foreground",
+};
+
+function formatSeconds(seconds: number): string {
+  if (seconds < 1) return `${(seconds * 1000).toFixed(0)}ms`;
+  return `${seconds.toFixed(2)}s`;
+}
+
+/** First line of a statement, shortened for the sub-tab label */
+function statementLabel(sql: string): string {
+  const line = sql.trim().split("\n")[0];
+  return line.length > 40 ? `${line.slice(0, 40)}…` : line;
+}
+
+/**
+ * Results of a multi-statement script: a sub-tab per statement and a
+ * summary of the whole run
+ */
+export function ScriptResults({ script, onSelect }: ScriptResultsProps) {
+  const counts = script.statements.reduce(
+    (acc, statement) => {
+      acc[statement.status]++;
+      return acc;
+    },
+    { pending: 0, running: 0, success: 0, error: 0, skipped: 0, cancelled: 0 },
+  );
+  const queryTime = script.statements.reduce(
+    (sum, statement) => sum + (statement.result?.statistics.elapsed ?? 0),
+    0,
+  );
+  const active = script.statements[script.activeIndex];
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex items-center gap-3 px-3 py-1.5 border-b text-xs text-muted-foreground">
+        <span>
+          {script.statements.length} statements: {counts.success} succeeded
+          {counts.error > 0 && (
+            <span className="text-destructive">, {counts.error} failed</span>
+          )}
+          {counts.skipped > 0 && <>, {counts.skipped} skipped</>}
+          {counts.cancelled > 0 && <>, {counts.cancelled} cancelled</>}
+        </span>
+        {script.finishedAt && (
+          <span className="ml-auto">
+            Query time {formatSeconds(queryTime)} · Total{" "}
+            {formatSeconds((script.finishedAt - script.startedAt) / 1000)}
+          </span>
+        )}
+      </div>
+
+      <div className="flex overflow-x-auto border-b bg-muted/30" role="tablist">
+        {script.statements.map((statement, index) => {
+          const Icon = STATUS_ICONS[statement.status];
+          return (
+            <button
+              key={index}
+              type="button"
+              role="tab"
+              aria-selected={index === script.activeIndex}
+              title={statement.sql}
+              onClick={() => onSelect(index)}
+              className={cn(
+                "flex items-center gap-1.5 px-3 py-1.5 text-xs whitespace-nowrap border-r",
+                index === script.activeIndex
+                  ? "bg-background font-medium"
+                  : "text-muted-foreground hover:bg-muted",
+              )}
+            >
+              <Icon className={cn("w-3.5 h-3.5", STATUS_CLASSES[statement.status])} />
+              <span className="text-muted-foreground">{index + 1}.</span>
+              <span className="font-mono">{statementLabel(statement.sql)}</span>
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="flex-1 min-h-0">
+        {active?.error ? (
+          <div className="p-4 space-y-2 text-sm">
+            <div className="flex items-center gap-2 font-medium text-destructive">
+              <AlertCircle className="w-4 h-4" />
+              {active.error.userMessage}
+            </div>
+            <pre className="text-xs whitespace-pre-wrap text-muted-foreground font-mono">
+              {active.error.message}
+            </pre>
+            {active.error.hint && (
+              <p className="text-xs text-muted-foreground">{active.error.hint}</p>
+            )}
+          </div>
+        ) : active?.result ? (
+          <VirtualizedResultGrid
+            data={active.result.data}
+            meta={active.result.meta}
+            statistics={active.result.statistics}
+            className="h-full"
+            isLoading={active.status === "running"}
+          />
+        ) : (
+          <div className="flex items-center justify-center h-full text-sm text-muted-foreground">
+            {active?.status === "running"
+              ? "Running..."
+              : active?.status === "skipped"
+                ? "Skipped after an earlier statement failed"
+                : active?.status === "cancelled"
+                  ? "Cancelled"
+                  : "Waiting to run"}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
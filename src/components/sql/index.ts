@@ -6,8 +6,11 @@ export { DatabaseSelector } from "./DatabaseSelector";
 export { TableSidebar } from "./TableSidebar";
 export * from "./ExplainButton";
 export * from "./ExplainVisualizer";
+export * from "./ExportButton";
 export * from "./TimeRangeSelector";
 export { TablePreview } from "./TablePreview";
 export { SavedQueries } from "./SavedQueries";
 export { SaveQueryDialog } from "./SaveQueryDialog";
+export { QueryParametersForm } from "./QueryParametersForm";
 export { SqlResultSkeleton } from "./SqlResultSkeleton";
+export { ScriptResults } from "./ScriptResults";
@@ -1,7 +1,7 @@
 "use client";
 
 import { useState, useMemo } from "react";
-import { Columns } from "lucide-react";
+import { Columns, Pencil } from "lucide-react";
 import {
   Table,
   TableBody,
@@ -12,6 +12,7 @@ import {
   TableWrapper,
 } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { PaginationControls } from "@/components/monitoring";
@@ -19,6 +20,8 @@ import { ErrorDisplay } from "@/components/ui/error-display";
 import { TableExplorerSkeleton } from "@/components/tables/TableExplorerSkeleton";
 import { useTableColumns } from "@/lib/hooks/use-table-explorer";
 import { formatBytes } from "@/lib/hooks/use-monitoring";
+import { useAuth } from "@/components/auth";
+import { SchemaChangeDialog } from "@/components/tables/schema-change-dialog";
 
 interface ColumnsTabProps {
   database: string;
@@ -28,7 +31,10 @@ interface ColumnsTabProps {
 const DEFAULT_PAGE_SIZE = 50;
 
 export function ColumnsTab({ database, table }: ColumnsTabProps) {
-  const { data, isLoading, error } = useTableColumns(database, table);
+  const { data, isLoading, error, refetch } = useTableColumns(database, table);
+  const { permissions } = useAuth();
+  const canManage = !!permissions?.canManageTables;
+  const [schemaOpen, setSchemaOpen] = useState(false);
   const [page, setPage] = useState(1);
   const [pageSize, setPageSize] = useState(DEFAULT_PAGE_SIZE);
 
@@ -99,6 +105,26 @@ export function ColumnsTab({ database, table }: ColumnsTabProps) {
       <div className="flex flex-col items-center justify-center h-64 text-muted-foreground">
         <Columns className="h-12 w-12 mb-4 opacity-50" />
         <p>No column stats available for this table</p>
+        {canManage && (
+          <>
+            <Button
+              variant="outline"
+              size="sm"
+              className="mt-4"
+              onClick={() => setSchemaOpen(true)}
+            >
+              <Pencil className="h-4 w-4 mr-2" />
+              Edit Schema
+            </Button>
+            <SchemaChangeDialog
+              database={database}
+              table={table}
+              open={schemaOpen}
+              onOpenChange={setSchemaOpen}
+              onDone={refetch}
+            />
+          </>
+        )}
       </div>
     );
   }
@@ -151,6 +177,15 @@ export function ColumnsTab({ database, table }: ColumnsTabProps) {
         </Card>
       </div>
 
+      {canManage && (
+        <div className="flex justify-end">
+          <Button variant="outline" size="sm" onClick={() => setSchemaOpen(true)}>
+            <Pencil className="h-4 w-4 mr-2" />
+            Edit Schema
+          </Button>
+        </div>
+      )}
+
       {/* Columns Table */}
       <TableWrapper>
         <Table>
@@ -236,6 +271,16 @@ export function ColumnsTab({ database, table }: ColumnsTabProps) {
           />
         </div>
       </TableWrapper>
+
+      {canManage && (
+        <SchemaChangeDialog
+          database={database}
+          table={table}
+          open={schemaOpen}
+          onOpenChange={setSchemaOpen}
+          onDone={refetch}
+        />
+      )}
     </div>
   );
 }
@@ -1,7 +1,7 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { Code, Copy, Check } from "lucide-react";
+import { Code, Copy, Check, Pencil } from "lucide-react";
 import { fetchApi } from "@/lib/api/client";
 import { copyToClipboard } from "@/lib/utils";
 import { Card } from "@/components/ui/card";
@@ -9,6 +9,7 @@ import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { TableExplorerSkeleton } from "@/components/tables/TableExplorerSkeleton";
 import { useAuth } from "@/components/auth";
+import { SchemaChangeDialog } from "@/components/tables/schema-change-dialog";
 
 interface DdlTabProps {
   database: string;
@@ -16,7 +17,11 @@ interface DdlTabProps {
 }
 
 export function DdlTab({ database, table }: DdlTabProps) {
-  const { csrfToken } = useAuth();
+  const { csrfToken, permissions } = useAuth();
+  const canManage = !!permissions?.canManageTables;
+  const [schemaOpen, setSchemaOpen] = useState(false);
+  // Bumped to reload the DDL after a schema change
+  const [version, setVersion] = useState(0);
   const [ddl, setDdl] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -80,7 +85,7 @@ export function DdlTab({ database, table }: DdlTabProps) {
     }
 
     fetchDdl();
-  }, [database, table, csrfToken]);
+  }, [database, table, csrfToken, version]);
 
   const handleCopy = async () => {
     if (ddl) {
@@ -114,7 +119,15 @@ export function DdlTab({ database, table }: DdlTabProps) {
   }
 
   return (
-    <div className="p-4">
+    <div className="p-4 space-y-4">
+      {canManage && (
+        <div className="flex justify-end">
+          <Button variant="outline" size="sm" onClick={() => setSchemaOpen(true)}>
+            <Pencil className="h-4 w-4 mr-2" />
+            Edit Schema
+          </Button>
+        </div>
+      )}
       <Card className="relative">
         <Button
           variant="ghost"
@@ -134,6 +147,16 @@ export function DdlTab({ database, table }: DdlTabProps) {
           </pre>
         </ScrollArea>
       </Card>
+
+      {canManage && (
+        <SchemaChangeDialog
+          database={database}
+          table={table}
+          open={schemaOpen}
+          onOpenChange={setSchemaOpen}
+          onDone={() => setVersion((v) => v + 1)}
+        />
+      )}
     </div>
   );
 }
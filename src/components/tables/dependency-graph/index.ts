@@ -1,3 +1,4 @@
 export { DependencyGraph } from "./dependency-graph";
 export { TableNode } from "./table-node";
 export type { TableNodeData, TableFlowNode, TableFlowEdge } from "./types";
+export { applyDagreLayout, type LayoutOptions } from "./layout";
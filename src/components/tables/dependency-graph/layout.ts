@@ -1,7 +1,8 @@
 import dagre from "dagre";
+import type { Node, Edge } from "@xyflow/react";
 import type { TableFlowNode, TableFlowEdge } from "./types";
 
-interface LayoutOptions {
+export interface LayoutOptions {
   direction?: "TB" | "BT" | "LR" | "RL";
   nodeWidth?: number;
   nodeHeight?: number;
@@ -13,11 +14,11 @@ interface LayoutOptions {
  * Apply dagre layout to nodes and edges
  * Places source tables at top, dependents below
  */
-export function applyDagreLayout(
-  nodes: TableFlowNode[],
-  edges: TableFlowEdge[],
+export function applyDagreLayout<N extends Node = TableFlowNode>(
+  nodes: N[],
+  edges: Edge[],
   options: LayoutOptions = {}
-): TableFlowNode[] {
+): N[] {
   const {
     direction = "TB",
     nodeWidth = 160,
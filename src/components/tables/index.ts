@@ -1,6 +1,8 @@
 export { OverviewTab } from "./overview-tab";
 export { PartsTab } from "./parts-tab";
+export { PartitionsTab } from "./partitions-tab";
 export { ColumnsTab } from "./columns-tab";
+export { IndexesTab } from "./indexes-tab";
 export { ReplicasTab } from "./replicas-tab";
 export { MutationsTab } from "./mutations-tab";
 export { MergesTab } from "./merges-tab";
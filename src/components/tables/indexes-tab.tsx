@@ -0,0 +1,289 @@
+"use client";
+
+import { Filter, AlertTriangle, Info } from "lucide-react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+  TableWrapper,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ErrorDisplay } from "@/components/ui/error-display";
+import { TableExplorerSkeleton } from "@/components/tables/TableExplorerSkeleton";
+import { TruncatedCell } from "@/components/shared/TruncatedCell";
+import { useTableIndexes } from "@/lib/hooks/use-table-explorer";
+import { formatBytes, formatNumber } from "@/lib/hooks/use-monitoring";
+import {
+  getMarkPruningRatio,
+  type IndexStatus,
+  type IndexUsage,
+} from "@/lib/clickhouse/index-effectiveness";
+
+interface IndexesTabProps {
+  database: string;
+  table: string;
+}
+
+function formatRatio(ratio: number | null): string {
+  return ratio === null ? "-" : `${(ratio * 100).toFixed(1)}%`;
+}
+
+function formatPartPruning(usage: IndexUsage | null): string {
+  if (!usage || usage.total_parts <= 0) return "-";
+  return formatRatio(1 - usage.selected_parts / usage.total_parts);
+}
+
+function StatusBadge({ status }: { status: IndexStatus | null }) {
+  switch (status) {
+    case "pruning":
+      return (
+        <Badge variant="outline" className="text-xs text-green-600 border-green-600">
+          Pruning
+        </Badge>
+      );
+    case "no_pruning":
+      return (
+        <Badge variant="destructive" className="text-xs">
+          Never prunes
+        </Badge>
+      );
+    case "unused":
+      return (
+        <Badge variant="secondary" className="text-xs">
+          Unused
+        </Badge>
+      );
+    default:
+      return <span className="text-muted-foreground">-</span>;
+  }
+}
+
+export function IndexesTab({ database, table }: IndexesTabProps) {
+  const { data, isLoading, error } = useTableIndexes(database, table);
+
+  if (isLoading) {
+    return <TableExplorerSkeleton />;
+  }
+
+  if (error) {
+    return (
+      <ErrorDisplay
+        severity="medium"
+        title="Failed to load indexes"
+        message={error}
+      />
+    );
+  }
+
+  if (!data || (data.indexes.length === 0 && data.projections.length === 0)) {
+    return (
+      <div className="flex flex-col items-center justify-center h-64 text-muted-foreground">
+        <Filter className="h-12 w-12 mb-4 opacity-50" />
+        <p>No skip indexes or projections on this table</p>
+      </div>
+    );
+  }
+
+  const ineffective = data.indexes.filter((i) => i.status === "no_pruning").length;
+
+  return (
+    <div className="space-y-4 p-4 h-full flex flex-col">
+      {data.summary === null && (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Info className="h-4 w-4" />
+          system.query_log could not be read, so effectiveness is not shown.
+        </div>
+      )}
+
+      {/* Summary Cards */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">
+              Queries ({data.days}d)
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {data.summary ? formatNumber(data.summary.queries) : "-"}
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Marks Skipped</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {formatRatio(getMarkPruningRatio(data.summary))}
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Parts Skipped</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {formatPartPruning(data.summary)}
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium flex items-center gap-2">
+              <AlertTriangle className="h-4 w-4 text-red-500" />
+              Never Prune
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-red-600">{ineffective}</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Skip Indexes */}
+      <div className="space-y-2">
+        <h3 className="text-sm font-medium">Data Skipping Indexes</h3>
+        {data.indexes.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No skip indexes</p>
+        ) : (
+          <TableWrapper>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Expression</TableHead>
+                  <TableHead className="text-right">Granularity</TableHead>
+                  <TableHead className="text-right">Compressed</TableHead>
+                  <TableHead className="text-right">Uncompressed</TableHead>
+                  <TableHead className="text-right">Marks</TableHead>
+                  <TableHead className="text-right">Queries</TableHead>
+                  <TableHead className="text-right">Marks Skipped</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.indexes.map((index) => (
+                  <TableRow key={index.name}>
+                    <TableCell className="data-table-cell font-medium">
+                      {index.name}
+                    </TableCell>
+                    <TableCell className="data-table-cell">{index.type}</TableCell>
+                    <TableCell>
+                      <TruncatedCell
+                        value={index.expr}
+                        maxWidth={300}
+                        className="bg-muted px-2 py-1 rounded"
+                      />
+                    </TableCell>
+                    <TableCell className="data-table-cell text-right">
+                      {index.granularity}
+                    </TableCell>
+                    <TableCell className="data-table-cell text-right">
+                      {formatBytes(index.data_compressed_bytes)}
+                    </TableCell>
+                    <TableCell className="data-table-cell text-right">
+                      {formatBytes(index.data_uncompressed_bytes)}
+                    </TableCell>
+                    <TableCell className="data-table-cell text-right">
+                      {formatBytes(index.marks_bytes)}
+                    </TableCell>
+                    <TableCell className="data-table-cell text-right">
+                      {index.usage ? formatNumber(index.usage.queries) : "-"}
+                    </TableCell>
+                    <TableCell className="data-table-cell text-right">
+                      {formatRatio(getMarkPruningRatio(index.usage))}
+                    </TableCell>
+                    <TableCell>
+                      <StatusBadge status={index.status} />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableWrapper>
+        )}
+        <p className="text-xs text-muted-foreground">
+          Effectiveness counts the recent SELECTs that read each index&apos;s
+          columns. Skipped marks include primary key pruning, so they are an
+          upper bound for the index itself.
+        </p>
+      </div>
+
+      {/* Projections */}
+      <div className="space-y-2">
+        <h3 className="text-sm font-medium">Projections</h3>
+        {data.projections.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No projections</p>
+        ) : (
+          <TableWrapper>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Kind</TableHead>
+                  <TableHead>Query</TableHead>
+                  <TableHead className="text-right">Parts</TableHead>
+                  <TableHead className="text-right">Rows</TableHead>
+                  <TableHead className="text-right">Size</TableHead>
+                  <TableHead className="text-right">Queries</TableHead>
+                  <TableHead>Last Used</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.projections.map((projection) => (
+                  <TableRow key={projection.name}>
+                    <TableCell className="data-table-cell font-medium">
+                      {projection.name}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className="text-xs">
+                        {projection.kind}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <TruncatedCell
+                        value={projection.query}
+                        maxWidth={300}
+                        className="bg-muted px-2 py-1 rounded"
+                      />
+                    </TableCell>
+                    <TableCell className="data-table-cell text-right">
+                      {projection.parts}
+                    </TableCell>
+                    <TableCell className="data-table-cell text-right">
+                      {formatNumber(projection.rows)}
+                    </TableCell>
+                    <TableCell className="data-table-cell text-right">
+                      {formatBytes(projection.bytes_on_disk)}
+                    </TableCell>
+                    <TableCell className="data-table-cell text-right">
+                      {projection.queries === null ? (
+                        "-"
+                      ) : projection.queries === 0 ? (
+                        <Badge variant="secondary" className="text-xs">
+                          Unused
+                        </Badge>
+                      ) : (
+                        formatNumber(projection.queries)
+                      )}
+                    </TableCell>
+                    <TableCell className="data-table-cell">
+                      {projection.last_used ?? "-"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableWrapper>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,302 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { AlertTriangle, Loader2, XOctagon } from "lucide-react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ErrorDisplay } from "@/components/ui/error-display";
+import { useToast } from "@/components/ui/use-toast";
+import { useAuth } from "@/components/auth";
+import { MetricChart } from "@/components/monitoring/MetricChart";
+import { fetchApi } from "@/lib/api/client";
+import { formatNumber, formatUptime, useMutationDetail } from "@/lib/hooks/use-monitoring";
+import type { KillMutationRequest } from "@/lib/clickhouse/mutations";
+
+const ENDPOINT = "/api/clickhouse/mutations";
+const DETAIL_REFRESH_INTERVAL = 10000;
+
+interface KillMutationButtonProps {
+  mutation: KillMutationRequest;
+  onKilled?: () => void;
+}
+
+/** Kill button with confirmation; renders nothing without canManageTables */
+export function KillMutationButton({ mutation, onKilled }: KillMutationButtonProps) {
+  const { csrfToken, permissions } = useAuth();
+  const { toast } = useToast();
+  const [killing, setKilling] = useState(false);
+
+  if (!permissions?.canManageTables) return null;
+
+  const handleKill = async () => {
+    setKilling(true);
+    try {
+      const res = await fetchApi(ENDPOINT, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-csrf-token": csrfToken || "",
+        },
+        body: JSON.stringify(mutation),
+      });
+      const json = await res.json();
+      if (json.success) {
+        toast({ title: "Mutation killed", description: mutation.mutationId });
+        onKilled?.();
+      } else {
+        toast({
+          title: "Kill failed",
+          description: json.error,
+          variant: "destructive",
+        });
+      }
+    } catch (err) {
+      toast({
+        title: "Request failed",
+        description: err instanceof Error ? err.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setKilling(false);
+    }
+  };
+
+  return (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>
+        <Button
+          variant="destructive"
+          size="sm"
+          disabled={killing}
+          title="Kill mutation"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {killing ? (
+            <Loader2 className="h-3 w-3 animate-spin" />
+          ) : (
+            <XOctagon className="h-3 w-3" />
+          )}
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent onClick={(e) => e.stopPropagation()}>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Kill Mutation?</AlertDialogTitle>
+          <AlertDialogDescription>
+            Stops <span className="font-mono">{mutation.mutationId}</span> on{" "}
+            {mutation.database}.{mutation.table}. Parts already rewritten keep
+            the change; the remaining parts are left as they are.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction onClick={handleKill}>Kill Mutation</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
+
+interface MutationDetailDialogProps {
+  mutation: KillMutationRequest | null;
+  onClose: () => void;
+  /** Called after the mutation was killed from the dialog */
+  onKilled?: () => void;
+}
+
+/** Failure, per-replica status and progress of one mutation */
+export function MutationDetailDialog({
+  mutation,
+  onClose,
+  onKilled,
+}: MutationDetailDialogProps) {
+  const { data, isLoading, error, refetch } = useMutationDetail(mutation, {
+    refreshInterval: DETAIL_REFRESH_INTERVAL,
+  });
+
+  // The hook keeps the previous mutation's data while loading the next one
+  const detail = data && mutation && data.mutationId === mutation.mutationId ? data : null;
+
+  const chartData = useMemo(
+    () =>
+      detail?.progress?.history.map((point) => ({
+        timestamp: new Date(point.time * 1000).toISOString(),
+        value: point.remaining,
+      })) ?? [],
+    [detail],
+  );
+
+  const progress = detail?.progress;
+
+  return (
+    <Dialog open={!!mutation} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[720px] max-h-[85vh] overflow-y-auto">
+        {mutation && (
+          <>
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                Mutation <span className="font-mono">{mutation.mutationId}</span>
+              </DialogTitle>
+              <DialogDescription>
+                {mutation.database}.{mutation.table}
+                {detail && <> · created {detail.createTime}</>}
+              </DialogDescription>
+            </DialogHeader>
+
+            {error && !detail ? (
+              <ErrorDisplay
+                severity="medium"
+                title="Failed to load mutation"
+                message={error}
+              />
+            ) : !detail ? (
+              <div className="flex items-center justify-center h-32 text-muted-foreground">
+                {isLoading && <Loader2 className="h-5 w-5 animate-spin" />}
+              </div>
+            ) : (
+              <div className="space-y-4">
+                <pre className="rounded-md border bg-muted/50 p-3 text-xs whitespace-pre-wrap break-all font-mono">
+                  {detail.command}
+                </pre>
+
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  {detail.isDone ? (
+                    <Badge
+                      variant="outline"
+                      className="text-xs text-green-600 border-green-600"
+                    >
+                      Done
+                    </Badge>
+                  ) : detail.latestFailReason ? (
+                    <Badge variant="destructive" className="text-xs">
+                      Failing
+                    </Badge>
+                  ) : (
+                    <Badge variant="secondary" className="text-xs">
+                      Running
+                    </Badge>
+                  )}
+                  <span className="text-muted-foreground">
+                    {formatNumber(detail.partsToDo)} parts to do
+                  </span>
+                  {progress && !detail.isDone && (
+                    <span className="text-muted-foreground">
+                      · {progress.ratePerMinute.toFixed(1)} parts/min ·{" "}
+                      {progress.etaSeconds === null
+                        ? "no recent progress"
+                        : `about ${formatUptime(Math.max(60, progress.etaSeconds))} left`}
+                    </span>
+                  )}
+                </div>
+
+                {detail.latestFailReason && (
+                  <div className="flex items-start gap-2 rounded-md border border-destructive/50 bg-destructive/10 p-3 text-xs">
+                    <AlertTriangle className="h-4 w-4 shrink-0 text-destructive" />
+                    <div className="space-y-1 min-w-0">
+                      <div className="text-muted-foreground">
+                        Part <span className="font-mono">{detail.latestFailedPart}</span>{" "}
+                        at {detail.latestFailTime}
+                      </div>
+                      <div className="font-mono whitespace-pre-wrap break-all">
+                        {detail.latestFailReason}
+                      </div>
+                    </div>
+                  </div>
+                )}
+
+                {progress ? (
+                  <MetricChart
+                    title="Parts remaining"
+                    data={chartData}
+                    height={160}
+                    showAxis
+                    color="#eab308"
+                  />
+                ) : (
+                  <p className="text-xs text-muted-foreground">
+                    Progress history needs system.part_log.
+                  </p>
+                )}
+
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Replica</TableHead>
+                      <TableHead className="text-right">Parts To Do</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Latest Failure</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {detail.hosts.map((host) => (
+                      <TableRow key={host.node}>
+                        <TableCell className="data-table-cell">{host.node}</TableCell>
+                        <TableCell className="data-table-cell text-right">
+                          {formatNumber(host.parts_to_do)}
+                        </TableCell>
+                        <TableCell>
+                          {host.is_done === 1 ? (
+                            <Badge
+                              variant="outline"
+                              className="text-xs text-green-600 border-green-600"
+                            >
+                              Done
+                            </Badge>
+                          ) : (
+                            <Badge variant="secondary" className="text-xs">
+                              Pending
+                            </Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="data-table-cell text-muted-foreground">
+                          {host.latest_fail_reason ? host.latest_fail_time : "—"}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+
+                {!detail.isDone && (
+                  <div className="flex justify-end">
+                    <KillMutationButton
+                      mutation={mutation}
+                      onKilled={() => {
+                        refetch();
+                        onKilled?.();
+                      }}
+                    />
+                  </div>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
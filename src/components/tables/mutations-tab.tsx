@@ -6,6 +6,7 @@ import {
   Table,
   TableBody,
   TableCell,
+  TableHead,
   SortableTableHead,
   TableHeader,
   TableRow,
@@ -18,6 +19,10 @@ import { ErrorDisplay } from "@/components/ui/error-display";
 import { TableExplorerSkeleton } from "@/components/tables/TableExplorerSkeleton";
 import { useTableMutations } from "@/lib/hooks/use-table-explorer";
 import { TruncatedCell } from "@/components/shared/TruncatedCell";
+import {
+  KillMutationButton,
+  MutationDetailDialog,
+} from "@/components/tables/mutation-detail-dialog";
 
 interface MutationsTabProps {
   database: string;
@@ -27,7 +32,8 @@ interface MutationsTabProps {
 const DEFAULT_PAGE_SIZE = 50;
 
 export function MutationsTab({ database, table }: MutationsTabProps) {
-  const { data, isLoading, error } = useTableMutations(database, table);
+  const { data, isLoading, error, refetch } = useTableMutations(database, table);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
   const [page, setPage] = useState(1);
   const [pageSize, setPageSize] = useState(DEFAULT_PAGE_SIZE);
 
@@ -193,6 +199,7 @@ export function MutationsTab({ database, table }: MutationsTabProps) {
               >
                 Command
               </SortableTableHead>
+              <TableHead className="w-[60px]" />
             </TableRow>
           </TableHeader>
           <TableBody isLoading={isLoading}>
@@ -200,7 +207,11 @@ export function MutationsTab({ database, table }: MutationsTabProps) {
               const isFailed = !!mutation.latest_fail_reason;
               const isDone = mutation.is_done === 1;
               return (
-                <TableRow key={mutation.mutation_id}>
+                <TableRow
+                  key={mutation.mutation_id}
+                  className="cursor-pointer"
+                  onClick={() => setSelectedId(mutation.mutation_id)}
+                >
                   <TableCell className="data-table-cell">
                     {mutation.mutation_id}
                   </TableCell>
@@ -240,6 +251,14 @@ export function MutationsTab({ database, table }: MutationsTabProps) {
                       </div>
                     )}
                   </TableCell>
+                  <TableCell>
+                    {!isDone && (
+                      <KillMutationButton
+                        mutation={{ database, table, mutationId: mutation.mutation_id }}
+                        onKilled={refetch}
+                      />
+                    )}
+                  </TableCell>
                 </TableRow>
               );
             })}
@@ -256,6 +275,12 @@ export function MutationsTab({ database, table }: MutationsTabProps) {
           />
         </div>
       </TableWrapper>
+
+      <MutationDetailDialog
+        mutation={selectedId ? { database, table, mutationId: selectedId } : null}
+        onClose={() => setSelectedId(null)}
+        onKilled={refetch}
+      />
     </div>
   );
 }
@@ -0,0 +1,297 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { AlertTriangle, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import { useAuth } from "@/components/auth";
+import { fetchApi } from "@/lib/api/client";
+import {
+  DESTRUCTIVE_PARTITION_ACTIONS,
+  PARTITION_ACTION_LABELS,
+  type PartitionAction,
+} from "@/lib/clickhouse/partitions";
+import { formatBytes, formatNumber } from "@/lib/hooks/use-monitoring";
+
+const ENDPOINT = "/api/clickhouse/tables/explorer/partitions";
+
+export interface PendingPartitionAction {
+  action: PartitionAction;
+  partitionId: string;
+  /** Human-readable partition value */
+  partition: string;
+  /** What the action touches; rows and bytes are unknown for detached parts */
+  parts: number;
+  rows?: number;
+  bytes?: number;
+}
+
+interface PartitionActionDialogProps {
+  database: string;
+  table: string;
+  pending: PendingPartitionAction | null;
+  /** Disks and volumes of the table's storage policy */
+  disks: string[];
+  volumes: string[];
+  onClose: () => void;
+  onDone: () => void;
+}
+
+/**
+ * Confirmation for a partition action: shows the exact statement built by
+ * the server and what it affects before running it
+ */
+export function PartitionActionDialog({
+  database,
+  table,
+  pending,
+  disks,
+  volumes,
+  onClose,
+  onDone,
+}: PartitionActionDialogProps) {
+  const { csrfToken } = useAuth();
+  const { toast } = useToast();
+  const [target, setTarget] = useState("");
+  const [targetDatabase, setTargetDatabase] = useState(database);
+  const [targetTable, setTargetTable] = useState("");
+  const [sql, setSql] = useState<string | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+
+  const action = pending?.action;
+
+  // Reset the form for every new action
+  useEffect(() => {
+    setTarget("");
+    setTargetDatabase(database);
+    setTargetTable("");
+  }, [pending, database]);
+
+  // Ask the server for the statement it will run
+  useEffect(() => {
+    if (!pending) return;
+    const controller = new AbortController();
+    setSql(null);
+    setPreviewError(null);
+
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetchApi(ENDPOINT, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "x-csrf-token": csrfToken || "",
+          },
+          body: JSON.stringify({
+            database,
+            table,
+            partitionId: pending.partitionId,
+            action: pending.action,
+            target,
+            targetDatabase,
+            targetTable,
+            dryRun: true,
+          }),
+          signal: controller.signal,
+        });
+        const json = await res.json();
+        if (json.success) {
+          setSql(json.data.sql);
+        } else {
+          setPreviewError(json.error || "Failed to build statement");
+        }
+      } catch (err) {
+        if (!controller.signal.aborted) {
+          setPreviewError(err instanceof Error ? err.message : "Failed to build statement");
+        }
+      }
+    }, 200);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [pending, database, table, target, targetDatabase, targetTable, csrfToken]);
+
+  const handleConfirm = async () => {
+    if (!pending) return;
+    setRunning(true);
+    try {
+      const res = await fetchApi(ENDPOINT, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-csrf-token": csrfToken || "",
+        },
+        body: JSON.stringify({
+          database,
+          table,
+          partitionId: pending.partitionId,
+          action: pending.action,
+          target,
+          targetDatabase,
+          targetTable,
+        }),
+      });
+      const json = await res.json();
+      if (json.success) {
+        toast({
+          title: `${PARTITION_ACTION_LABELS[pending.action]} submitted`,
+          description: `Partition ${pending.partition} of ${database}.${table}`,
+        });
+        onDone();
+      } else {
+        toast({
+          title: `${PARTITION_ACTION_LABELS[pending.action]} failed`,
+          description: json.error,
+          variant: "destructive",
+        });
+      }
+    } catch (err) {
+      toast({
+        title: "Request failed",
+        description: err instanceof Error ? err.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const destructive = !!action && DESTRUCTIVE_PARTITION_ACTIONS.has(action);
+
+  return (
+    <Dialog open={!!pending} onOpenChange={(open) => !open && !running && onClose()}>
+      <DialogContent className="sm:max-w-[560px]">
+        {pending && action && (
+          <>
+            <DialogHeader>
+              <DialogTitle>
+                {PARTITION_ACTION_LABELS[action]} partition{" "}
+                <span className="font-mono">{pending.partition}</span>
+              </DialogTitle>
+              <DialogDescription>
+                {database}.{table}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4">
+              {(action === "move_disk" || action === "move_volume") && (
+                <div className="space-y-2">
+                  <Label>{action === "move_disk" ? "Disk" : "Volume"}</Label>
+                  <Select value={target} onValueChange={setTarget}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a destination" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(action === "move_disk" ? disks : volumes).map((name) => (
+                        <SelectItem key={name} value={name}>
+                          {name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {action === "move_table" && (
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-2">
+                    <Label>Database</Label>
+                    <Input
+                      value={targetDatabase}
+                      onChange={(e) => setTargetDatabase(e.target.value.trim())}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Table</Label>
+                    <Input
+                      value={targetTable}
+                      onChange={(e) => setTargetTable(e.target.value.trim())}
+                      placeholder="Same structure and partition key"
+                    />
+                  </div>
+                </div>
+              )}
+
+              <div className="grid grid-cols-3 gap-2 text-sm">
+                <div>
+                  <div className="text-xs text-muted-foreground">Parts</div>
+                  <div className="font-medium">{formatNumber(pending.parts)}</div>
+                </div>
+                <div>
+                  <div className="text-xs text-muted-foreground">Rows</div>
+                  <div className="font-medium">
+                    {pending.rows !== undefined ? formatNumber(pending.rows) : "—"}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-xs text-muted-foreground">Size on disk</div>
+                  <div className="font-medium">
+                    {pending.bytes !== undefined ? formatBytes(pending.bytes) : "—"}
+                  </div>
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <div className="text-xs text-muted-foreground">Statement</div>
+                <pre className="rounded-md border bg-muted/50 p-3 text-xs whitespace-pre-wrap break-all font-mono">
+                  {previewError ? (
+                    <span className="text-muted-foreground">{previewError}</span>
+                  ) : (
+                    sql ?? "…"
+                  )}
+                </pre>
+              </div>
+
+              {destructive && (
+                <div className="flex items-start gap-2 rounded-md border border-destructive/50 bg-destructive/10 p-3 text-xs">
+                  <AlertTriangle className="h-4 w-4 shrink-0 text-destructive" />
+                  <span>
+                    {action === "drop"
+                      ? "Dropped data is deleted after a delay and cannot be recovered from the table."
+                      : action === "detach"
+                        ? "Detached parts stop being queried until they are attached again."
+                        : "The partition's data is removed from this table."}
+                  </span>
+                </div>
+              )}
+            </div>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={onClose} disabled={running}>
+                Cancel
+              </Button>
+              <Button
+                variant={destructive ? "destructive" : "default"}
+                onClick={handleConfirm}
+                disabled={!sql || running}
+              >
+                {running && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {PARTITION_ACTION_LABELS[action]}
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
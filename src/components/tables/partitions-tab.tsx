@@ -0,0 +1,363 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { MoreHorizontal, PieChart } from "lucide-react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  SortableTableHead,
+  TableHeader,
+  TableRow,
+  TableWrapper,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ErrorDisplay } from "@/components/ui/error-display";
+import { TableExplorerSkeleton } from "@/components/tables/TableExplorerSkeleton";
+import {
+  PartitionActionDialog,
+  type PendingPartitionAction,
+} from "@/components/tables/partition-action-dialog";
+import { useAuth } from "@/components/auth";
+import { useTablePartitions } from "@/lib/hooks/use-table-explorer";
+import { formatBytes, formatNumber } from "@/lib/hooks/use-monitoring";
+import {
+  PARTITION_ACTION_LABELS,
+  type PartitionAction,
+  type PartitionInfo,
+} from "@/lib/clickhouse/partitions";
+
+interface PartitionsTabProps {
+  database: string;
+  table: string;
+}
+
+// Order of the row menu; destructive actions go below the separator
+const SAFE_ACTIONS: PartitionAction[] = ["optimize", "freeze"];
+const MOVE_ACTIONS: PartitionAction[] = ["move_disk", "move_volume", "move_table"];
+const DESTRUCTIVE_ACTIONS: PartitionAction[] = ["detach", "drop"];
+
+export function PartitionsTab({ database, table }: PartitionsTabProps) {
+  const { data, isLoading, error, refetch } = useTablePartitions(database, table);
+  const { permissions } = useAuth();
+  const canManage = !!permissions?.canManageTables;
+  const [pending, setPending] = useState<PendingPartitionAction | null>(null);
+
+  const [sortColumn, setSortColumn] = useState<string | undefined>("partition_id");
+  const [sortDirection, setSortDirection] = useState<"asc" | "desc" | null>("desc");
+
+  const partitions = data?.partitions;
+
+  const sortedPartitions = useMemo(() => {
+    if (!partitions) return [];
+
+    return [...partitions].sort((a, b) => {
+      if (!sortColumn || !sortDirection) return 0;
+
+      const aValue = a[sortColumn as keyof PartitionInfo];
+      const bValue = b[sortColumn as keyof PartitionInfo];
+
+      if (aValue === bValue) return 0;
+      const comparison = aValue < bValue ? -1 : 1;
+      return sortDirection === "asc" ? comparison : -comparison;
+    });
+  }, [partitions, sortColumn, sortDirection]);
+
+  const disks = useMemo(
+    () => [...new Set((data?.volumes ?? []).flatMap((v) => v.disks))],
+    [data?.volumes],
+  );
+  const volumes = useMemo(
+    () => (data?.volumes ?? []).map((v) => v.volume_name),
+    [data?.volumes],
+  );
+
+  const updateSort = (column: string, direction: "asc" | "desc" | null) => {
+    setSortColumn(column);
+    setSortDirection(direction);
+  };
+
+  const startAction = (action: PartitionAction, partition: PartitionInfo) => {
+    setPending({
+      action,
+      partitionId: partition.partition_id,
+      partition: partition.partition,
+      parts: partition.parts,
+      rows: partition.rows,
+      bytes: partition.bytes_on_disk,
+    });
+  };
+
+  const isActionAvailable = (action: PartitionAction) => {
+    if (action === "move_disk") return disks.length > 1;
+    if (action === "move_volume") return volumes.length > 1;
+    return true;
+  };
+
+  if (isLoading && !data) {
+    return <TableExplorerSkeleton />;
+  }
+
+  if (error) {
+    return (
+      <ErrorDisplay
+        severity="medium"
+        title="Failed to load partitions"
+        message={error}
+      />
+    );
+  }
+
+  if (!data || (data.partitions.length === 0 && data.detached.length === 0)) {
+    return (
+      <div className="flex flex-col items-center justify-center h-64 text-muted-foreground">
+        <PieChart className="h-12 w-12 mb-4 opacity-50" />
+        <p>No partitions found for this table</p>
+      </div>
+    );
+  }
+
+  const totalRows = data.partitions.reduce((sum, p) => sum + p.rows, 0);
+  const totalBytes = data.partitions.reduce((sum, p) => sum + p.bytes_on_disk, 0);
+  const detachedParts = data.detached.reduce((sum, d) => sum + d.parts, 0);
+
+  return (
+    <div className="space-y-4 p-4 h-full flex flex-col">
+      {/* Summary Cards */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Partitions</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {formatNumber(data.partitions.length)}
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Total Rows</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatNumber(totalRows)}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Size on Disk</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatBytes(totalBytes)}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Detached Parts</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatNumber(detachedParts)}</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Partitions Table */}
+      <TableWrapper>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <SortableTableHead
+                currentSort={sortColumn === "partition_id" ? sortDirection : null}
+                onSort={(dir) => updateSort("partition_id", dir)}
+              >
+                Partition
+              </SortableTableHead>
+              <SortableTableHead
+                className="text-right"
+                currentSort={sortColumn === "parts" ? sortDirection : null}
+                onSort={(dir) => updateSort("parts", dir)}
+              >
+                Parts
+              </SortableTableHead>
+              <SortableTableHead
+                className="text-right"
+                currentSort={sortColumn === "rows" ? sortDirection : null}
+                onSort={(dir) => updateSort("rows", dir)}
+              >
+                Rows
+              </SortableTableHead>
+              <SortableTableHead
+                className="text-right"
+                currentSort={sortColumn === "bytes_on_disk" ? sortDirection : null}
+                onSort={(dir) => updateSort("bytes_on_disk", dir)}
+              >
+                Size
+              </SortableTableHead>
+              <TableHead className="text-right">Replicas</TableHead>
+              <TableHead>Disks</TableHead>
+              <SortableTableHead
+                currentSort={sortColumn === "last_modified" ? sortDirection : null}
+                onSort={(dir) => updateSort("last_modified", dir)}
+              >
+                Modified
+              </SortableTableHead>
+              {canManage && <TableHead className="w-10" />}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sortedPartitions.map((partition) => (
+              <TableRow key={partition.partition_id}>
+                <TableCell>
+                  <Badge variant="outline" className="font-mono text-xs">
+                    {partition.partition}
+                  </Badge>
+                  {partition.partition !== partition.partition_id && (
+                    <span className="ml-2 font-mono text-xs text-muted-foreground">
+                      {partition.partition_id}
+                    </span>
+                  )}
+                </TableCell>
+                <TableCell className="data-table-cell text-right">
+                  {formatNumber(partition.parts)}
+                </TableCell>
+                <TableCell className="data-table-cell text-right">
+                  {formatNumber(partition.rows)}
+                </TableCell>
+                <TableCell className="data-table-cell text-right">
+                  {formatBytes(partition.bytes_on_disk)}
+                </TableCell>
+                <TableCell className="data-table-cell text-right">
+                  {partition.replicas}
+                </TableCell>
+                <TableCell className="data-table-cell text-muted-foreground">
+                  {partition.disks.join(", ")}
+                </TableCell>
+                <TableCell className="data-table-cell text-muted-foreground">
+                  {partition.last_modified}
+                </TableCell>
+                {canManage && (
+                  <TableCell className="p-0">
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="icon" className="h-7 w-7">
+                          <MoreHorizontal className="h-4 w-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        {[SAFE_ACTIONS, MOVE_ACTIONS].map((group, i) => (
+                          <div key={i}>
+                            {i > 0 && <DropdownMenuSeparator />}
+                            {group.filter(isActionAvailable).map((action) => (
+                              <DropdownMenuItem
+                                key={action}
+                                onSelect={() => startAction(action, partition)}
+                              >
+                                {PARTITION_ACTION_LABELS[action]}
+                              </DropdownMenuItem>
+                            ))}
+                          </div>
+                        ))}
+                        <DropdownMenuSeparator />
+                        {DESTRUCTIVE_ACTIONS.map((action) => (
+                          <DropdownMenuItem
+                            key={action}
+                            className="text-destructive focus:text-destructive"
+                            onSelect={() => startAction(action, partition)}
+                          >
+                            {PARTITION_ACTION_LABELS[action]}
+                          </DropdownMenuItem>
+                        ))}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableWrapper>
+
+      {/* Detached partitions, candidates for ATTACH */}
+      {data.detached.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium">Detached</h3>
+          <TableWrapper>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Partition ID</TableHead>
+                  <TableHead className="text-right">Parts</TableHead>
+                  <TableHead>Reasons</TableHead>
+                  {canManage && <TableHead className="w-24" />}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.detached.map((detached) => (
+                  <TableRow key={detached.partition_id}>
+                    <TableCell className="font-mono text-xs">
+                      {detached.partition_id}
+                    </TableCell>
+                    <TableCell className="data-table-cell text-right">
+                      {formatNumber(detached.parts)}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {detached.reasons.map((reason) => (
+                          <Badge key={reason} variant="secondary" className="text-xs">
+                            {reason || "user"}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    {canManage && (
+                      <TableCell>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="h-7 text-xs"
+                          onClick={() =>
+                            setPending({
+                              action: "attach",
+                              partitionId: detached.partition_id,
+                              partition: detached.partition_id,
+                              parts: detached.parts,
+                            })
+                          }
+                        >
+                          {PARTITION_ACTION_LABELS.attach}
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableWrapper>
+        </div>
+      )}
+
+      <PartitionActionDialog
+        database={database}
+        table={table}
+        pending={pending}
+        disks={disks}
+        volumes={volumes}
+        onClose={() => setPending(null)}
+        onDone={() => {
+          setPending(null);
+          refetch();
+        }}
+      />
+    </div>
+  );
+}
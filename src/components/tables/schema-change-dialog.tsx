@@ -0,0 +1,550 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { AlertTriangle, Info, Loader2, Plus, X } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/components/ui/use-toast";
+import { useAuth } from "@/components/auth";
+import { fetchApi } from "@/lib/api/client";
+import { useTableSchema } from "@/lib/hooks/use-table-explorer";
+import {
+  SCHEMA_CHANGE_KINDS,
+  SCHEMA_CHANGE_LABELS,
+  applySchemaChangesToColumns,
+  validateSchemaChange,
+  type SchemaChange,
+  type SchemaChangeKind,
+  type SchemaChangeWarning,
+} from "@/lib/clickhouse/schema-changes";
+
+const ENDPOINT = "/api/clickhouse/tables/explorer/schema";
+
+/** Select value for "at the end" in the AFTER picker */
+const AT_END = "__end__";
+
+interface SchemaChangeDialogProps {
+  database: string;
+  table: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Called after the changes were applied */
+  onDone: () => void;
+}
+
+interface Preview {
+  statements: string[];
+  warnings: SchemaChangeWarning[];
+}
+
+/** One-line summary of a planned change */
+function describeChange(change: SchemaChange): string {
+  switch (change.kind) {
+    case "add_column":
+      return `${change.column} ${change.type}`;
+    case "drop_column":
+      return change.column ?? "";
+    case "rename_column":
+      return `${change.column} → ${change.newName}`;
+    case "modify_column":
+      return `${change.column} ${change.type}`;
+    case "comment_column":
+      return `${change.column}: ${change.comment}`;
+    case "modify_ttl":
+      return change.ttl ?? "";
+    case "remove_ttl":
+      return "";
+    case "add_index":
+      return `${change.name} ${change.expression} TYPE ${change.indexType}`;
+    case "add_projection":
+      return change.name ?? "";
+    case "modify_setting":
+      return `${change.setting} = ${change.value}`;
+  }
+}
+
+/**
+ * Guided editor for ALTER TABLE changes: changes are collected into a plan,
+ * the server previews the exact statements and warns about mutations, then
+ * applies them in order
+ */
+export function SchemaChangeDialog({
+  database,
+  table,
+  open,
+  onOpenChange,
+  onDone,
+}: SchemaChangeDialogProps) {
+  const { csrfToken } = useAuth();
+  const { toast } = useToast();
+  const { data: schema, isLoading: schemaLoading } = useTableSchema(
+    open ? database : null,
+    open ? table : null,
+  );
+
+  const [kind, setKind] = useState<SchemaChangeKind>("add_column");
+  const [form, setForm] = useState<Partial<SchemaChange>>({});
+  const [changes, setChanges] = useState<SchemaChange[]>([]);
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+
+  // Columns as they will be once the planned changes are applied
+  const columns = useMemo(() => {
+    const current = Object.fromEntries(
+      (schema?.columns ?? []).map((c) => [c.name, c.type]),
+    );
+    return applySchemaChangesToColumns(current, changes);
+  }, [schema, changes]);
+  const columnNames = Object.keys(columns);
+
+  const draft = { ...form, kind } as SchemaChange;
+  const draftError = validateSchemaChange(draft, schema ? columns : undefined);
+
+  const update = (patch: Partial<SchemaChange>) => setForm((f) => ({ ...f, ...patch }));
+
+  const reset = () => {
+    setKind("add_column");
+    setForm({});
+    setChanges([]);
+    setPreview(null);
+    setPreviewError(null);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (running) return;
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  // Ask the server for the statements whenever the plan changes
+  useEffect(() => {
+    if (!open || changes.length === 0) {
+      setPreview(null);
+      setPreviewError(null);
+      return;
+    }
+    const controller = new AbortController();
+    setPreview(null);
+    setPreviewError(null);
+
+    fetchApi(ENDPOINT, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-csrf-token": csrfToken || "",
+      },
+      body: JSON.stringify({ database, table, changes, dryRun: true }),
+      signal: controller.signal,
+    })
+      .then((res) => res.json())
+      .then((json) => {
+        if (json.success) {
+          setPreview({ statements: json.data.statements, warnings: json.data.warnings });
+        } else {
+          setPreviewError(json.error || "Failed to build statements");
+        }
+      })
+      .catch((err) => {
+        if (!controller.signal.aborted) {
+          setPreviewError(err instanceof Error ? err.message : "Failed to build statements");
+        }
+      });
+
+    return () => controller.abort();
+  }, [open, database, table, changes, csrfToken]);
+
+  const handleAdd = () => {
+    if (draftError) return;
+    setChanges((c) => [...c, draft]);
+    setForm({});
+  };
+
+  const handleApply = async () => {
+    if (!preview) return;
+    setRunning(true);
+    try {
+      const res = await fetchApi(ENDPOINT, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-csrf-token": csrfToken || "",
+        },
+        body: JSON.stringify({ database, table, changes }),
+      });
+      const json = await res.json();
+      if (json.success) {
+        toast({
+          title: "Schema updated",
+          description: `${json.data.statements.length} statement${
+            json.data.statements.length === 1 ? "" : "s"
+          } applied to ${database}.${table}`,
+        });
+        reset();
+        onOpenChange(false);
+        onDone();
+      } else {
+        toast({
+          title: "Schema change failed",
+          description: json.error,
+          variant: "destructive",
+        });
+        // Earlier statements may have been applied
+        onDone();
+      }
+    } catch (err) {
+      toast({
+        title: "Request failed",
+        description: err instanceof Error ? err.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const columnSelect = (
+    value: string | undefined,
+    onChange: (value: string) => void,
+    placeholder = "Select a column",
+  ) => (
+    <Select value={value ?? ""} onValueChange={onChange}>
+      <SelectTrigger>
+        <SelectValue placeholder={schemaLoading ? "Loading…" : placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {columnNames.map((name) => (
+          <SelectItem key={name} value={name}>
+            <span className="font-mono">{name}</span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const textField = (
+    label: string,
+    key: keyof SchemaChange,
+    placeholder?: string,
+    mono = true,
+  ) => (
+    <div className="grid gap-2">
+      <Label>{label}</Label>
+      <Input
+        value={(form[key] as string | undefined) ?? ""}
+        onChange={(e) => update({ [key]: e.target.value })}
+        placeholder={placeholder}
+        className={mono ? "font-mono" : undefined}
+      />
+    </div>
+  );
+
+  const materializeField = (label: string) => (
+    <div className="flex items-center gap-2 md:col-span-2">
+      <Checkbox
+        id="schema-change-materialize"
+        checked={!!form.materialize}
+        onCheckedChange={(checked) => update({ materialize: checked === true })}
+      />
+      <Label htmlFor="schema-change-materialize" className="text-sm font-normal cursor-pointer">
+        {label}
+      </Label>
+    </div>
+  );
+
+  const renderFields = () => {
+    switch (kind) {
+      case "add_column":
+        return (
+          <>
+            {textField("Name", "column", "new_column")}
+            {textField("Type", "type", "LowCardinality(String)")}
+            {textField("Default (optional)", "defaultExpression", "''")}
+            <div className="grid gap-2">
+              <Label>Position</Label>
+              <Select
+                value={form.after ?? AT_END}
+                onValueChange={(v) => update({ after: v === AT_END ? undefined : v })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={AT_END}>At the end</SelectItem>
+                  {columnNames.map((name) => (
+                    <SelectItem key={name} value={name}>
+                      After <span className="font-mono">{name}</span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="md:col-span-2">
+              {textField("Comment (optional)", "comment", undefined, false)}
+            </div>
+          </>
+        );
+      case "drop_column":
+        return (
+          <div className="grid gap-2">
+            <Label>Column</Label>
+            {columnSelect(form.column, (column) => update({ column }))}
+          </div>
+        );
+      case "rename_column":
+        return (
+          <>
+            <div className="grid gap-2">
+              <Label>Column</Label>
+              {columnSelect(form.column, (column) => update({ column }))}
+            </div>
+            {textField("New name", "newName")}
+          </>
+        );
+      case "modify_column":
+        return (
+          <>
+            <div className="grid gap-2">
+              <Label>Column</Label>
+              {columnSelect(form.column, (column) =>
+                update({ column, type: columns[column] }),
+              )}
+            </div>
+            {textField("Type", "type")}
+            <div className="md:col-span-2">
+              {textField("Default (optional)", "defaultExpression")}
+            </div>
+          </>
+        );
+      case "comment_column":
+        return (
+          <>
+            <div className="grid gap-2">
+              <Label>Column</Label>
+              {columnSelect(form.column, (column) => update({ column }))}
+            </div>
+            {textField("Comment", "comment", undefined, false)}
+          </>
+        );
+      case "modify_ttl":
+        return (
+          <div className="grid gap-2 md:col-span-2">
+            <Label>TTL</Label>
+            <Textarea
+              value={form.ttl ?? ""}
+              onChange={(e) => update({ ttl: e.target.value })}
+              placeholder="event_date + INTERVAL 90 DAY DELETE"
+              className="font-mono text-sm"
+              rows={3}
+            />
+          </div>
+        );
+      case "remove_ttl":
+        return (
+          <p className="text-sm text-muted-foreground md:col-span-2">
+            Removes the table TTL. Data is no longer deleted or moved by age.
+          </p>
+        );
+      case "add_index":
+        return (
+          <>
+            {textField("Name", "name", "idx_user_id")}
+            {textField("Expression", "expression", "user_id")}
+            {textField("Type", "indexType", "bloom_filter(0.01)")}
+            <div className="grid gap-2">
+              <Label>Granularity</Label>
+              <Input
+                type="number"
+                min={1}
+                value={form.granularity ?? ""}
+                onChange={(e) =>
+                  update({
+                    granularity: e.target.value === "" ? undefined : Number(e.target.value),
+                  })
+                }
+                placeholder="1"
+              />
+            </div>
+            {materializeField("Build the index for existing parts (MATERIALIZE INDEX)")}
+          </>
+        );
+      case "add_projection":
+        return (
+          <>
+            {textField("Name", "name", "by_user")}
+            <div className="grid gap-2 md:col-span-2">
+              <Label>Query</Label>
+              <Textarea
+                value={form.query ?? ""}
+                onChange={(e) => update({ query: e.target.value })}
+                placeholder="SELECT * ORDER BY user_id"
+                className="font-mono text-sm"
+                rows={3}
+              />
+            </div>
+            {materializeField("Build the projection for existing parts (MATERIALIZE PROJECTION)")}
+          </>
+        );
+      case "modify_setting":
+        return (
+          <>
+            {textField("Setting", "setting", "merge_with_ttl_timeout")}
+            {textField("Value", "value", "3600")}
+          </>
+        );
+    }
+  };
+
+  const hasMutation = preview?.warnings.some((w) => w.mutation) ?? false;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[760px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit schema</DialogTitle>
+          <DialogDescription>
+            {database}.{table}. Changes run as ALTER TABLE statements, in order, with
+            your credentials.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {/* New change */}
+          <div className="rounded-md border p-3 space-y-3">
+            <div className="grid gap-2">
+              <Label>Change</Label>
+              <Select
+                value={kind}
+                onValueChange={(v) => {
+                  setKind(v as SchemaChangeKind);
+                  setForm({});
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SCHEMA_CHANGE_KINDS.map((k) => (
+                    <SelectItem key={k} value={k}>
+                      {SCHEMA_CHANGE_LABELS[k]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-3 md:grid-cols-2">{renderFields()}</div>
+            <div className="flex items-center justify-end gap-3">
+              {draftError && Object.keys(form).length > 0 && (
+                <span className="text-xs text-muted-foreground">{draftError}</span>
+              )}
+              <Button size="sm" variant="outline" onClick={handleAdd} disabled={!!draftError}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add to plan
+              </Button>
+            </div>
+          </div>
+
+          {/* Plan */}
+          {changes.length > 0 && (
+            <div className="space-y-2">
+              <Label>Plan</Label>
+              <div className="rounded-md border divide-y">
+                {changes.map((change, i) => (
+                  <div key={i} className="flex items-center gap-2 px-3 py-2 text-sm">
+                    <span className="text-muted-foreground w-5">{i + 1}.</span>
+                    <Badge variant="secondary" className="text-xs shrink-0">
+                      {SCHEMA_CHANGE_LABELS[change.kind]}
+                    </Badge>
+                    <span className="font-mono text-xs truncate flex-1">
+                      {describeChange(change)}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      onClick={() => setChanges((c) => c.filter((_, j) => j !== i))}
+                      disabled={running}
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Preview */}
+          {changes.length > 0 && (
+            <div className="space-y-2">
+              <Label>Statements</Label>
+              <pre className="rounded-md border bg-muted/50 p-3 text-xs whitespace-pre-wrap break-all font-mono max-h-60 overflow-auto">
+                {previewError ? (
+                  <span className="text-destructive">{previewError}</span>
+                ) : preview ? (
+                  preview.statements.join(";\n\n")
+                ) : (
+                  "…"
+                )}
+              </pre>
+
+              {preview?.warnings.map((warning, i) => (
+                <div
+                  key={i}
+                  className={
+                    warning.mutation
+                      ? "flex items-start gap-2 rounded-md border border-destructive/50 bg-destructive/10 p-3 text-xs"
+                      : "flex items-start gap-2 rounded-md border p-3 text-xs text-muted-foreground"
+                  }
+                >
+                  {warning.mutation ? (
+                    <AlertTriangle className="h-4 w-4 shrink-0 text-destructive" />
+                  ) : (
+                    <Info className="h-4 w-4 shrink-0" />
+                  )}
+                  <span>
+                    <span className="font-medium">Change {warning.change + 1}:</span>{" "}
+                    {warning.message}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={running}>
+            Cancel
+          </Button>
+          <Button
+            variant={hasMutation ? "destructive" : "default"}
+            onClick={handleApply}
+            disabled={running || !preview}
+          >
+            {running && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Apply{preview ? ` ${preview.statements.length}` : ""} statement
+            {preview?.statements.length === 1 ? "" : "s"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -29,6 +29,8 @@ interface RecordDetailSheetProps {
   columns: ColumnMeta[];
   title?: string;
   rowIndex?: number;
+  /** Extra buttons shown next to Copy JSON */
+  actions?: React.ReactNode;
 }
 
 function formatValue(value: unknown): string {
@@ -109,6 +111,7 @@ export function RecordDetailSheet({
   columns,
   title = "Record Details",
   rowIndex,
+  actions,
 }: RecordDetailSheetProps) {
   // Convert array-based record to object if needed
   const recordObj = useMemo(() => {
@@ -141,15 +144,18 @@ export function RecordDetailSheet({
                 <SheetDescription>Row #{rowIndex + 1}</SheetDescription>
               )}
             </div>
-            <Button
-              variant="outline"
-              size="sm"
-              className="gap-2"
-              onClick={() => copyToClipboard(jsonString)}
-            >
-              <FileJson className="h-4 w-4" />
-              Copy JSON
-            </Button>
+            <div className="flex items-center gap-2">
+              {actions}
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-2"
+                onClick={() => copyToClipboard(jsonString)}
+              >
+                <FileJson className="h-4 w-4" />
+                Copy JSON
+              </Button>
+            </div>
           </div>
         </SheetHeader>
 
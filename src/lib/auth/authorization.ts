@@ -31,6 +31,7 @@ export type Permission =
   | "canKillQueries"
   | "canViewCluster"
   | "canBrowseTables"
+  | "canManageTables"
   | "canExecuteQueries"
   | "canViewSettings"
   | "canViewSystemLogs"
@@ -155,6 +156,10 @@ async function computeAllPermissions(
       if (hasGlobalAccess) return true;
       return await probeUserTableAccess(config);
     }},
+    { permission: "canManageTables", check: async () => {
+      if (effectiveRoles.has("clicklens_table_admin")) return true;
+      return hasGlobalAccess;
+    }},
     { permission: "canExecuteQueries", check: async () => {
       if (hasGlobalAccess) return true;
       if (await hasAccessibleDatabases(username)) return true;
@@ -217,7 +222,7 @@ async function computeAllPermissions(
 /**
  * Get all effective roles for a user (including inherited roles)
  */
-async function getEffectiveRoles(
+export async function getEffectiveRoles(
   username: string,
 ): Promise<Set<string>> {
   const effectiveRoles = new Set<string>();
@@ -448,6 +453,11 @@ async function checkSpecificPermission(
       // Probe: check if user can access system.tables
       return await probeUserTableAccess(config);
 
+    case "canManageTables":
+      // Partition and part operations; ClickHouse still checks ALTER grants
+      if (effectiveRoles.has("clicklens_table_admin")) return true;
+      return hasGlobalAccess;
+
     case "canExecuteQueries":
     case "canDiscover":
       // Anyone with database access can execute queries/discover
@@ -36,13 +36,18 @@ export async function generateCsrfToken(): Promise<string> {
 /**
  * Validate CSRF token from request header against cookie
  * @param request The incoming request
+ * @param token Token sent another way (e.g. a form field), instead of the header
  * @returns true if valid, false otherwise
  */
-export async function validateCsrfToken(request: Request): Promise<boolean> {
+export async function validateCsrfToken(
+  request: Request,
+  token?: string | null,
+): Promise<boolean> {
   const cookieStore = await cookies();
   const cookieToken = cookieStore.get(CSRF_COOKIE_NAME)?.value;
 
-  const headerToken = request.headers.get(CSRF_HEADER_NAME);
+  const headerToken =
+    token !== undefined ? token : request.headers.get(CSRF_HEADER_NAME);
 
   if (!cookieToken || !headerToken) {
     return false;
@@ -73,10 +78,11 @@ export async function validateCsrfToken(request: Request): Promise<boolean> {
  */
 export async function requireCsrf(
   request: Request,
+  token?: string | null,
 ): Promise<NextResponse<{ success: false; error: string }> | null> {
   // Only require CSRF for state-changing methods
   if (["POST", "PUT", "DELETE", "PATCH"].includes(request.method)) {
-    const isValid = await validateCsrfToken(request);
+    const isValid = await validateCsrfToken(request, token);
     if (!isValid) {
       return NextResponse.json(
         { success: false, error: "Invalid or missing CSRF token" },
@@ -10,7 +10,7 @@ import { getUserConfig } from "@/lib/clickhouse";
 import type { ClickHouseConfig } from "@/lib/clickhouse";
 
 // Re-export authorization utilities
-export { checkPermission, type Permission } from "./authorization";
+export { checkPermission, getEffectiveRoles, type Permission } from "./authorization";
 
 import { getSessionUser } from "./storage";
 
@@ -26,7 +26,7 @@ export async function getSession() {
 
   // If session has sessionId, try to hydration user from server store
   if (session.sessionId && !session.user) {
-    const user = getSessionUser(session.sessionId);
+    const user = await getSessionUser(session.sessionId);
     if (user) {
       // Reconstitute user object for the request duration
       // We cast this to match the SessionData structure expected by consumers
@@ -0,0 +1,223 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import crypto from "crypto";
+import {
+  $$resetOidcCaches,
+  createAuthorizationRequest,
+  exchangeAuthorizationCode,
+  mapOidcClaims,
+  verifyIdToken,
+} from "./oidc";
+import type { OidcClusterConfig } from "@/lib/clickhouse/config";
+
+const ISSUER = "http://idp.test/realm";
+
+const oidc: OidcClusterConfig = {
+  issuer: ISSUER,
+  clientId: "clicklens",
+  clientSecret: "s3cret",
+  mode: "impersonate",
+};
+
+/**
+ * Minimal identity provider: discovery, JWKS and a token endpoint that
+ * returns whatever ID token the test prepared.
+ */
+function createMockIdp() {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync("rsa", {
+    modulusLength: 2048,
+  });
+  const jwk = { ...publicKey.export({ format: "jwk" }), kid: "key-1", use: "sig" };
+  const tokenRequests: { headers: Headers; body: URLSearchParams }[] = [];
+  let idToken = "";
+
+  const sign = (claims: Record<string, unknown>, kid = "key-1") => {
+    const encode = (value: unknown) =>
+      Buffer.from(JSON.stringify(value)).toString("base64url");
+    const data = `${encode({ alg: "RS256", kid })}.${encode(claims)}`;
+    const signature = crypto.sign("sha256", Buffer.from(data), privateKey);
+    return `${data}.${signature.toString("base64url")}`;
+  };
+
+  const fetchMock = (async (input: string | URL | Request, init?: RequestInit) => {
+    const url = String(input);
+    if (url === `${ISSUER}/.well-known/openid-configuration`) {
+      return Response.json({
+        issuer: ISSUER,
+        authorization_endpoint: `${ISSUER}/authorize`,
+        token_endpoint: `${ISSUER}/token`,
+        jwks_uri: `${ISSUER}/jwks`,
+      });
+    }
+    if (url === `${ISSUER}/jwks`) {
+      return Response.json({ keys: [jwk] });
+    }
+    if (url === `${ISSUER}/token`) {
+      tokenRequests.push({
+        headers: new Headers(init?.headers),
+        body: new URLSearchParams(String(init?.body)),
+      });
+      return Response.json({ id_token: idToken, token_type: "Bearer" });
+    }
+    return new Response("not found", { status: 404 });
+  }) as typeof fetch;
+
+  return {
+    sign,
+    fetchMock,
+    tokenRequests,
+    issue(claims: Record<string, unknown>) {
+      idToken = sign(claims);
+      return idToken;
+    },
+  };
+}
+
+function validClaims(overrides: Record<string, unknown> = {}) {
+  return {
+    iss: ISSUER,
+    sub: "user-123",
+    aud: "clicklens",
+    exp: Math.floor(Date.now() / 1000) + 300,
+    nonce: "nonce-1",
+    preferred_username: "alice",
+    ...overrides,
+  };
+}
+
+describe("OIDC", () => {
+  const originalFetch = globalThis.fetch;
+  let idp: ReturnType<typeof createMockIdp>;
+
+  beforeEach(() => {
+    $$resetOidcCaches();
+    idp = createMockIdp();
+    globalThis.fetch = idp.fetchMock;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test("builds an authorization request with PKCE", async () => {
+    const request = await createAuthorizationRequest(oidc, "http://app/callback");
+    const url = new URL(request.url);
+
+    expect(url.origin + url.pathname).toBe(`${ISSUER}/authorize`);
+    expect(url.searchParams.get("client_id")).toBe("clicklens");
+    expect(url.searchParams.get("state")).toBe(request.state);
+    expect(url.searchParams.get("nonce")).toBe(request.nonce);
+    expect(url.searchParams.get("code_challenge")).toBe(
+      crypto.createHash("sha256").update(request.codeVerifier).digest("base64url"),
+    );
+    expect(url.searchParams.get("scope")).toBe("openid profile email");
+  });
+
+  test("exchanges the code and verifies the ID token", async () => {
+    idp.issue(validClaims());
+
+    const tokens = await exchangeAuthorizationCode(
+      oidc,
+      "auth-code",
+      "verifier",
+      "http://app/callback",
+    );
+    const claims = await verifyIdToken(oidc, tokens.id_token, "nonce-1");
+
+    expect(claims.preferred_username).toBe("alice");
+    const [tokenRequest] = idp.tokenRequests;
+    expect(tokenRequest.body.get("code")).toBe("auth-code");
+    expect(tokenRequest.body.get("code_verifier")).toBe("verifier");
+    expect(tokenRequest.headers.get("authorization")).toBe(
+      `Basic ${Buffer.from("clicklens:s3cret").toString("base64")}`,
+    );
+  });
+
+  test("rejects tokens failing claim checks", async () => {
+    const cases: [Record<string, unknown>, string][] = [
+      [{ nonce: "other" }, "nonce"],
+      [{ aud: "someone-else" }, "different client"],
+      [{ iss: "http://evil.test" }, "issuer"],
+      [{ exp: Math.floor(Date.now() / 1000) - 600 }, "expired"],
+    ];
+
+    for (const [overrides, message] of cases) {
+      const token = idp.sign(validClaims(overrides));
+      await expect(verifyIdToken(oidc, token, "nonce-1")).rejects.toThrow(message);
+    }
+  });
+
+  test("rejects a tampered signature", async () => {
+    const [header, , signature] = idp.sign(validClaims()).split(".");
+    const payload = Buffer.from(
+      JSON.stringify(validClaims({ preferred_username: "admin" })),
+    ).toString("base64url");
+
+    await expect(
+      verifyIdToken(oidc, `${header}.${payload}.${signature}`, "nonce-1"),
+    ).rejects.toThrow("signature");
+  });
+
+  test("rejects tokens signed with an unknown key", async () => {
+    const token = idp.sign(validClaims(), "rotated-away");
+    await expect(verifyIdToken(oidc, token, "nonce-1")).rejects.toThrow("key not found");
+  });
+});
+
+describe("mapOidcClaims", () => {
+  const mapping: OidcClusterConfig = {
+    ...oidc,
+    mode: "jwt",
+    userMapping: { "alice@corp.test": "alice" },
+    groupUsers: { "data-eng": "analyst", oncall: "operator" },
+    groupRoles: { "data-eng": ["reader"], oncall: ["reader", "killer"] },
+    usernameClaim: "email",
+  };
+
+  test("prefers an explicit user mapping", () => {
+    expect(
+      mapOidcClaims(mapping, { sub: "1", email: "alice@corp.test", groups: ["oncall"] }),
+    ).toEqual({ username: "alice", roles: ["reader", "killer"], subject: "1" });
+  });
+
+  test("maps groups to users in configuration order", () => {
+    expect(
+      mapOidcClaims(mapping, {
+        sub: "2",
+        email: "bob@corp.test",
+        groups: ["oncall", "data-eng"],
+      })?.username,
+    ).toBe("analyst");
+  });
+
+  test("rejects unmapped users unless allowed", () => {
+    const claims = { sub: "3", email: "carol@corp.test" };
+    expect(mapOidcClaims(mapping, claims)).toBeNull();
+    expect(
+      mapOidcClaims({ ...mapping, allowUnmappedUsers: true }, claims)?.username,
+    ).toBe("carol@corp.test");
+  });
+
+  test("ignores prototype names in users and groups", () => {
+    const claims = { sub: "5", email: "constructor", groups: ["toString", "__proto__"] };
+    expect(mapOidcClaims(mapping, claims)).toBeNull();
+    expect(mapOidcClaims({ ...mapping, allowUnmappedUsers: true }, claims)).toEqual({
+      username: "constructor",
+      roles: [],
+      subject: "5",
+    });
+  });
+
+  test("reads nested claims by dotted path", () => {
+    const identity = mapOidcClaims(
+      {
+        ...oidc,
+        mode: "jwt",
+        allowUnmappedUsers: true,
+        groupsClaim: "realm_access.roles",
+        groupRoles: { admin: ["dba"] },
+      },
+      { sub: "4", preferred_username: "dave", realm_access: { roles: ["admin"] } },
+    );
+    expect(identity).toEqual({ username: "dave", roles: ["dba"], subject: "4" });
+  });
+});
@@ -0,0 +1,357 @@
+/**
+ * OIDC authorization-code flow (with PKCE) for single sign-on
+ *
+ * Covers the protocol side only: discovery, building the authorization
+ * redirect, exchanging the code, verifying the ID token against the IdP's
+ * JWKS, and mapping claims to a ClickHouse user. Cookies and sessions are
+ * handled by the /api/auth/oidc routes.
+ */
+
+import crypto from "crypto";
+import type { OidcClusterConfig } from "@/lib/clickhouse/config";
+
+export interface OidcDiscovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  end_session_endpoint?: string;
+}
+
+export interface OidcTokens {
+  id_token: string;
+  access_token?: string;
+  expires_in?: number;
+}
+
+export type OidcClaims = Record<string, unknown> & {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  nonce?: string;
+};
+
+/** Values kept between the redirect to the IdP and the callback */
+export interface OidcAuthorizationRequest {
+  url: string;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+}
+
+export interface OidcIdentity {
+  /** ClickHouse user the IdP identity maps to */
+  username: string;
+  /** ClickHouse roles mapped from IdP groups */
+  roles: string[];
+  subject: string;
+}
+
+/**
+ * OIDC failure with a message that is safe to show on the login page
+ */
+export class OidcError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OidcError";
+  }
+}
+
+const DISCOVERY_TTL_MS = 60 * 60 * 1000;
+const JWKS_TTL_MS = 10 * 60 * 1000;
+const CLOCK_SKEW_SECONDS = 60;
+const DEFAULT_SCOPES = ["openid", "profile", "email"];
+
+const discoveryCache = new Map<string, { doc: OidcDiscovery; fetchedAt: number }>();
+const jwksCache = new Map<string, { keys: crypto.JsonWebKey[]; fetchedAt: number }>();
+
+/** @internal Reset discovery and key caches for testing */
+export function $$resetOidcCaches(): void {
+  discoveryCache.clear();
+  jwksCache.clear();
+}
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    const text = await response.text().catch(() => "");
+    console.error(`OIDC request to ${url} failed (${response.status}):`, text);
+    throw new OidcError(`Identity provider request failed (${response.status})`);
+  }
+  return (await response.json()) as T;
+}
+
+export async function discoverOidc(issuer: string): Promise<OidcDiscovery> {
+  const cached = discoveryCache.get(issuer);
+  if (cached && Date.now() - cached.fetchedAt < DISCOVERY_TTL_MS) {
+    return cached.doc;
+  }
+
+  const doc = await fetchJson<OidcDiscovery>(
+    `${issuer}/.well-known/openid-configuration`,
+  );
+  if (!doc.authorization_endpoint || !doc.token_endpoint || !doc.jwks_uri) {
+    throw new OidcError("Identity provider discovery document is incomplete");
+  }
+
+  discoveryCache.set(issuer, { doc, fetchedAt: Date.now() });
+  return doc;
+}
+
+/**
+ * Callback URL for a cluster's OIDC client
+ */
+export function getOidcCallbackUrl(
+  oidc: OidcClusterConfig,
+  origin: string,
+  basePath: string,
+): string {
+  return oidc.redirectUri ?? `${origin}${basePath}/api/auth/oidc/callback`;
+}
+
+function randomToken(): string {
+  return crypto.randomBytes(32).toString("base64url");
+}
+
+/**
+ * Build the redirect to the IdP's authorization endpoint
+ */
+export async function createAuthorizationRequest(
+  oidc: OidcClusterConfig,
+  redirectUri: string,
+): Promise<OidcAuthorizationRequest> {
+  const discovery = await discoverOidc(oidc.issuer);
+  const state = randomToken();
+  const nonce = randomToken();
+  const codeVerifier = randomToken();
+  const codeChallenge = crypto
+    .createHash("sha256")
+    .update(codeVerifier)
+    .digest("base64url");
+
+  const url = new URL(discovery.authorization_endpoint);
+  url.searchParams.set("response_type", "code");
+  url.searchParams.set("client_id", oidc.clientId);
+  url.searchParams.set("redirect_uri", redirectUri);
+  url.searchParams.set("scope", (oidc.scopes ?? DEFAULT_SCOPES).join(" "));
+  url.searchParams.set("state", state);
+  url.searchParams.set("nonce", nonce);
+  url.searchParams.set("code_challenge", codeChallenge);
+  url.searchParams.set("code_challenge_method", "S256");
+
+  return { url: url.toString(), state, nonce, codeVerifier };
+}
+
+/**
+ * Exchange an authorization code for tokens at the IdP's token endpoint
+ */
+export async function exchangeAuthorizationCode(
+  oidc: OidcClusterConfig,
+  code: string,
+  codeVerifier: string,
+  redirectUri: string,
+): Promise<OidcTokens> {
+  const discovery = await discoverOidc(oidc.issuer);
+
+  const body = new URLSearchParams({
+    grant_type: "authorization_code",
+    code,
+    redirect_uri: redirectUri,
+    client_id: oidc.clientId,
+    code_verifier: codeVerifier,
+  });
+  const headers: Record<string, string> = {
+    "Content-Type": "application/x-www-form-urlencoded",
+    Accept: "application/json",
+  };
+  if (oidc.clientSecret) {
+    // client_secret_basic, the default client authentication method
+    const credentials = `${encodeURIComponent(oidc.clientId)}:${encodeURIComponent(oidc.clientSecret)}`;
+    headers.Authorization = `Basic ${Buffer.from(credentials).toString("base64")}`;
+  }
+
+  const tokens = await fetchJson<OidcTokens>(discovery.token_endpoint, {
+    method: "POST",
+    headers,
+    body: body.toString(),
+  });
+  if (!tokens.id_token) {
+    throw new OidcError("Identity provider did not return an ID token");
+  }
+  return tokens;
+}
+
+async function getSigningKey(
+  jwksUri: string,
+  kid: string | undefined,
+): Promise<crypto.JsonWebKey> {
+  const findKey = (keys: crypto.JsonWebKey[]) =>
+    keys.find((k) => (kid ? k.kid === kid : k.use !== "enc"));
+
+  const cached = jwksCache.get(jwksUri);
+  if (cached && Date.now() - cached.fetchedAt < JWKS_TTL_MS) {
+    const key = findKey(cached.keys);
+    if (key) return key;
+  }
+
+  // Unknown kid may mean the IdP rotated its keys; refetch once
+  const { keys } = await fetchJson<{ keys: crypto.JsonWebKey[] }>(jwksUri);
+  jwksCache.set(jwksUri, { keys, fetchedAt: Date.now() });
+
+  const key = findKey(keys);
+  if (!key) {
+    throw new OidcError("ID token signing key not found");
+  }
+  return key;
+}
+
+const SIGNATURE_ALGORITHMS: Record<
+  string,
+  { hash: string; options?: Partial<crypto.VerifyKeyObjectInput> }
+> = {
+  RS256: { hash: "sha256" },
+  RS384: { hash: "sha384" },
+  RS512: { hash: "sha512" },
+  PS256: {
+    hash: "sha256",
+    options: {
+      padding: crypto.constants.RSA_PKCS1_PSS_PADDING,
+      saltLength: 32,
+    },
+  },
+  ES256: { hash: "sha256", options: { dsaEncoding: "ieee-p1363" } },
+  ES384: { hash: "sha384", options: { dsaEncoding: "ieee-p1363" } },
+};
+
+function decodeSegment<T>(segment: string): T {
+  return JSON.parse(Buffer.from(segment, "base64url").toString("utf8")) as T;
+}
+
+/**
+ * Verify an ID token's signature and standard claims
+ */
+export async function verifyIdToken(
+  oidc: OidcClusterConfig,
+  idToken: string,
+  expectedNonce: string,
+): Promise<OidcClaims> {
+  const discovery = await discoverOidc(oidc.issuer);
+
+  const parts = idToken.split(".");
+  if (parts.length !== 3) {
+    throw new OidcError("Malformed ID token");
+  }
+  const [headerSegment, payloadSegment, signatureSegment] = parts;
+
+  let header: { alg?: string; kid?: string };
+  let claims: OidcClaims;
+  try {
+    header = decodeSegment(headerSegment);
+    claims = decodeSegment(payloadSegment);
+  } catch {
+    throw new OidcError("Malformed ID token");
+  }
+
+  const algorithm = header.alg ? SIGNATURE_ALGORITHMS[header.alg] : undefined;
+  if (!algorithm) {
+    throw new OidcError(`Unsupported ID token algorithm: ${header.alg}`);
+  }
+
+  const jwk = await getSigningKey(discovery.jwks_uri, header.kid);
+  const valid = crypto.verify(
+    algorithm.hash,
+    Buffer.from(`${headerSegment}.${payloadSegment}`),
+    {
+      key: crypto.createPublicKey({ key: jwk, format: "jwk" }),
+      ...algorithm.options,
+    },
+    Buffer.from(signatureSegment, "base64url"),
+  );
+  if (!valid) {
+    throw new OidcError("Invalid ID token signature");
+  }
+
+  if (claims.iss !== discovery.issuer) {
+    throw new OidcError("ID token issuer does not match");
+  }
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (!audiences.includes(oidc.clientId)) {
+    throw new OidcError("ID token was issued for a different client");
+  }
+  const now = Math.floor(Date.now() / 1000);
+  if (typeof claims.exp !== "number" || claims.exp + CLOCK_SKEW_SECONDS < now) {
+    throw new OidcError("ID token has expired");
+  }
+  if (claims.nonce !== expectedNonce) {
+    throw new OidcError("ID token nonce does not match");
+  }
+
+  return claims;
+}
+
+/**
+ * Read a claim by name or dotted path (e.g. "realm_access.roles")
+ */
+/**
+ * Own property of a config or claims object; names like "constructor" must
+ * not resolve to Object.prototype members
+ */
+function ownValue<T>(map: Record<string, T> | undefined, key: string): T | undefined {
+  return map && Object.hasOwn(map, key) ? map[key] : undefined;
+}
+
+function getClaim(claims: Record<string, unknown>, path: string): unknown {
+  if (Object.hasOwn(claims, path)) return claims[path];
+  return path
+    .split(".")
+    .reduce<unknown>(
+      (value, key) =>
+        value && typeof value === "object"
+          ? ownValue(value as Record<string, unknown>, key)
+          : undefined,
+      claims,
+    );
+}
+
+function toStringList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(String);
+  if (typeof value === "string") return value ? [value] : [];
+  return [];
+}
+
+/**
+ * Map verified ID token claims to a ClickHouse user and roles.
+ * Returns null when the identity maps to no ClickHouse user.
+ */
+export function mapOidcClaims(
+  oidc: OidcClusterConfig,
+  claims: Record<string, unknown>,
+): OidcIdentity | null {
+  const claimValue = getClaim(claims, oidc.usernameClaim ?? "preferred_username");
+  const principal = typeof claimValue === "string" ? claimValue : undefined;
+  const groups = toStringList(getClaim(claims, oidc.groupsClaim ?? "groups"));
+
+  const mappedUser =
+    (principal !== undefined ? ownValue(oidc.userMapping, principal) : undefined) ??
+    Object.entries(oidc.groupUsers ?? {}).find(([group]) =>
+      groups.includes(group),
+    )?.[1];
+
+  const username =
+    mappedUser ?? (oidc.allowUnmappedUsers === true ? principal : undefined);
+  if (!username) return null;
+
+  const roles = new Set<string>();
+  for (const group of groups) {
+    for (const role of ownValue(oidc.groupRoles, group) ?? []) {
+      roles.add(role);
+    }
+  }
+
+  return {
+    username,
+    roles: [...roles],
+    subject: String(claims.sub ?? ""),
+  };
+}
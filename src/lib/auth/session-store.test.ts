@@ -0,0 +1,109 @@
+import { describe, test, expect, beforeEach } from "bun:test";
+import type { RedisClientType } from "redis";
+import { createMockRedis, type MockRedis } from "../../../test/mocks/redis";
+import { RedisSessionStore, type SessionEntry } from "./session-store";
+
+const INDEX_PREFIX = "clicklens:user-sessions:";
+
+function entry(username: string, clusterId?: string): SessionEntry {
+  const now = Date.now();
+  return {
+    user: { username, host: "localhost", clusterId },
+    encryptedPassword: { ciphertext: "", iv: "", authTag: "" },
+    createdAt: now,
+    lastSeenAt: now,
+    expiresAt: now + 60_000,
+  };
+}
+
+describe("RedisSessionStore", () => {
+  let redis: MockRedis;
+  let store: RedisSessionStore;
+
+  beforeEach(() => {
+    redis = createMockRedis();
+    store = new RedisSessionStore(async () => redis as unknown as RedisClientType);
+  });
+
+  test("indexes sessions per user and cluster", async () => {
+    await store.set("a", entry("alice", "prod"));
+    await store.set("b", entry("alice", "prod"));
+    await store.set("c", entry("alice"));
+
+    expect((await redis.sMembers(`${INDEX_PREFIX}prod:alice`)).sort()).toEqual(["a", "b"]);
+    expect(await redis.sMembers(`${INDEX_PREFIX}default:alice`)).toEqual(["c"]);
+
+    await store.delete("a");
+    expect(await redis.sMembers(`${INDEX_PREFIX}prod:alice`)).toEqual(["b"]);
+  });
+
+  test("deletes a user's sessions on one cluster or all of them", async () => {
+    await store.set("a", entry("alice", "prod"));
+    await store.set("b", entry("alice", "staging"));
+    await store.set("c", entry("bob", "prod"));
+
+    expect(await store.deleteForUser("alice", "prod")).toBe(1);
+    expect(await store.get("a")).toBeNull();
+    expect(await store.get("b")).not.toBeNull();
+    expect(await redis.sMembers(`${INDEX_PREFIX}prod:alice`)).toEqual([]);
+
+    await store.set("d", entry("alice", "prod"));
+    expect(await store.deleteForUser("alice")).toBe(2);
+    expect(await store.get("b")).toBeNull();
+    expect(await store.get("d")).toBeNull();
+    expect(await store.get("c")).not.toBeNull();
+  });
+
+  test("does not bring back a session revoked before an update", async () => {
+    await store.set("a", entry("alice", "prod"));
+    const read = await store.get("a");
+
+    await store.deleteForUser("alice", "prod");
+
+    expect(await store.update("a", { ...read!, lastSeenAt: Date.now() })).toBe(false);
+    expect(await store.get("a")).toBeNull();
+    expect(await redis.sMembers(`${INDEX_PREFIX}prod:alice`)).toEqual([]);
+  });
+
+  test("updates sessions that still exist", async () => {
+    await store.set("a", entry("alice", "prod"));
+    const updated = { ...entry("alice", "prod"), lastSeenAt: 42 };
+
+    expect(await store.update("a", updated)).toBe(true);
+    expect((await store.get("a"))?.lastSeenAt).toBe(42);
+  });
+
+  test("revokes only the exact username", async () => {
+    await store.set("a", entry("bob", "prod"));
+    await store.set("b", entry("x:bob", "prod"));
+    await store.set("c", entry("bob", "eu:west"));
+
+    expect(await store.deleteForUser("bob")).toBe(2);
+    expect(await store.get("a")).toBeNull();
+    expect(await store.get("c")).toBeNull();
+    expect(await store.get("b")).not.toBeNull();
+  });
+
+  test("fails instead of keeping sessions in memory while Redis is down", async () => {
+    const down = new RedisSessionStore(async () => {
+      throw new Error("Redis client error");
+    });
+
+    await expect(down.set("a", entry("alice"))).rejects.toThrow("Redis client error");
+    await expect(down.update("a", entry("alice"))).rejects.toThrow("Redis client error");
+  });
+
+  test("keeps sessions in memory while Redis is down when opted in", async () => {
+    const down = new RedisSessionStore(
+      async () => {
+        throw new Error("Redis client error");
+      },
+      { memoryFallback: true },
+    );
+
+    await down.set("a", entry("alice"));
+    expect(await down.get("a")).not.toBeNull();
+    expect(await down.update("a", entry("alice"))).toBe(true);
+    expect(await down.deleteForUser("alice")).toBe(1);
+  });
+});
@@ -0,0 +1,327 @@
+/**
+ * Session store backends
+ *
+ * Sessions are persisted through a small SessionStore interface so the
+ * backend can be swapped without touching the session API in storage.ts:
+ * - MemorySessionStore: process-local map (single instance deployments)
+ * - RedisSessionStore: shared across instances; fails while Redis is
+ *   unreachable unless the memory fallback is enabled
+ *
+ * Stores only hold entries; expiry and encryption are handled by storage.ts.
+ */
+
+import type { RedisClientType } from "redis";
+import { getRedisClient } from "@/lib/cache/redis-client";
+import type { UserSession } from "./storage";
+
+export interface EncryptedPassword {
+  ciphertext: string;
+  iv: string;
+  authTag: string;
+}
+
+export interface SessionEntry {
+  user: Omit<UserSession, "password">;
+  encryptedPassword: EncryptedPassword;
+  createdAt: number;
+  lastSeenAt: number;
+  expiresAt: number;
+}
+
+export interface SessionStore {
+  get(sessionId: string): Promise<SessionEntry | null>;
+  set(sessionId: string, entry: SessionEntry): Promise<void>;
+  /**
+   * Replace an entry only if it still exists, so a write based on an earlier
+   * read cannot bring back a session deleted in between
+   * @returns false when the session is gone
+   */
+  update(sessionId: string, entry: SessionEntry): Promise<boolean>;
+  delete(sessionId: string): Promise<void>;
+  /** Delete every session of a user, optionally limited to one cluster */
+  deleteForUser(username: string, clusterId?: string): Promise<number>;
+  count(): Promise<number>;
+  clear(): Promise<void>;
+}
+
+function belongsTo(
+  entry: SessionEntry,
+  username: string,
+  clusterId?: string,
+): boolean {
+  return (
+    entry.user.username === username &&
+    (clusterId === undefined || entry.user.clusterId === clusterId)
+  );
+}
+
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000; // Cleanup every hour
+
+export class MemorySessionStore implements SessionStore {
+  private sessions = new Map<string, SessionEntry>();
+  private cleanupInterval: ReturnType<typeof setInterval> | null = null;
+
+  private startCleanup() {
+    if (this.cleanupInterval) return;
+
+    this.cleanupInterval = setInterval(() => {
+      const now = Date.now();
+      for (const [id, entry] of this.sessions.entries()) {
+        if (now > entry.expiresAt) {
+          this.sessions.delete(id);
+        }
+      }
+    }, CLEANUP_INTERVAL_MS);
+
+    if (this.cleanupInterval.unref) {
+      this.cleanupInterval.unref();
+    }
+  }
+
+  async get(sessionId: string): Promise<SessionEntry | null> {
+    return this.sessions.get(sessionId) ?? null;
+  }
+
+  async set(sessionId: string, entry: SessionEntry): Promise<void> {
+    this.startCleanup();
+    this.sessions.set(sessionId, entry);
+  }
+
+  async update(sessionId: string, entry: SessionEntry): Promise<boolean> {
+    if (!this.sessions.has(sessionId)) return false;
+    this.sessions.set(sessionId, entry);
+    return true;
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    this.sessions.delete(sessionId);
+  }
+
+  async deleteForUser(username: string, clusterId?: string): Promise<number> {
+    let removed = 0;
+    for (const [id, entry] of this.sessions.entries()) {
+      if (belongsTo(entry, username, clusterId)) {
+        this.sessions.delete(id);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  async count(): Promise<number> {
+    return this.sessions.size;
+  }
+
+  async clear(): Promise<void> {
+    this.sessions.clear();
+  }
+}
+
+const SESSION_KEY_PREFIX = "clicklens:session:";
+const USER_SESSIONS_KEY_PREFIX = "clicklens:user-sessions:";
+// Outlives any session in the index (matches the absolute lifetime in storage.ts)
+const SESSION_INDEX_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+function sessionKey(sessionId: string): string {
+  return `${SESSION_KEY_PREFIX}${sessionId}`;
+}
+
+// Both parts are encoded so neither can contain the ":" separating them
+function userSessionsKey(username: string, clusterId?: string): string {
+  return `${USER_SESSIONS_KEY_PREFIX}${encodeURIComponent(
+    clusterId ?? "default",
+  )}:${encodeURIComponent(username)}`;
+}
+
+/** Whether an index key is exactly prefix + cluster ID + ":" + username */
+function isUserSessionsKey(key: string, username: string): boolean {
+  const parts = key.slice(USER_SESSIONS_KEY_PREFIX.length).split(":");
+  return (
+    key.startsWith(USER_SESSIONS_KEY_PREFIX) &&
+    parts.length === 2 &&
+    parts[1] === encodeURIComponent(username)
+  );
+}
+
+export interface RedisSessionStoreOptions {
+  /**
+   * Keep sessions in process memory while Redis is unreachable. Only safe
+   * with a single instance: behind a load balancer, other instances cannot
+   * see these sessions.
+   */
+  memoryFallback?: boolean;
+}
+
+/**
+ * Redis-backed store. Each session is a JSON entry expiring at its
+ * expiresAt; a per-user set indexes session IDs for revocation.
+ * Operations fail while Redis is unavailable, so a login is refused rather
+ * than stored where other instances cannot see it. With memoryFallback,
+ * entries written meanwhile live in memory until they expire or are revoked.
+ */
+export class RedisSessionStore implements SessionStore {
+  private fallback = new MemorySessionStore();
+  private warned = false;
+
+  constructor(
+    private getClient: () => Promise<RedisClientType> = getRedisClient,
+    private options: RedisSessionStoreOptions = {},
+  ) {}
+
+  private async withRedis<T>(
+    operation: (redis: RedisClientType) => Promise<T>,
+    fallback: () => Promise<T>,
+  ): Promise<T> {
+    try {
+      const result = await operation(await this.getClient());
+      this.warned = false;
+      return result;
+    } catch (error) {
+      if (!this.options.memoryFallback) throw error;
+      if (!this.warned) {
+        console.warn("Redis session store unavailable, using in-memory fallback:", error);
+        this.warned = true;
+      }
+      return fallback();
+    }
+  }
+
+  async get(sessionId: string): Promise<SessionEntry | null> {
+    const entry = await this.withRedis(
+      async (redis) => {
+        const raw = await redis.get(sessionKey(sessionId));
+        return raw ? (JSON.parse(raw) as SessionEntry) : null;
+      },
+      () => this.fallback.get(sessionId),
+    );
+    return entry ?? this.fallback.get(sessionId);
+  }
+
+  /**
+   * Write the entry and index it for revocation. With XX the write only
+   * happens if the key still exists, and the index is left alone otherwise.
+   */
+  private async write(
+    redis: RedisClientType,
+    sessionId: string,
+    entry: SessionEntry,
+    condition?: "XX",
+  ): Promise<boolean> {
+    const result = await redis.set(sessionKey(sessionId), JSON.stringify(entry), {
+      expiration: { type: "PXAT", value: entry.expiresAt },
+      ...(condition ? { condition } : {}),
+    });
+    if (result === null) return false;
+
+    const indexKey = userSessionsKey(entry.user.username, entry.user.clusterId);
+    await redis.sAdd(indexKey, sessionId);
+    await redis.pExpireAt(indexKey, Date.now() + SESSION_INDEX_TTL_MS);
+    return true;
+  }
+
+  async set(sessionId: string, entry: SessionEntry): Promise<void> {
+    await this.withRedis(
+      async (redis) => {
+        await this.write(redis, sessionId, entry);
+      },
+      () => this.fallback.set(sessionId, entry),
+    );
+  }
+
+  async update(sessionId: string, entry: SessionEntry): Promise<boolean> {
+    const updated = await this.withRedis(
+      (redis) => this.write(redis, sessionId, entry, "XX"),
+      async () => false,
+    );
+    // Entries written while Redis was down live in the fallback
+    return updated || this.fallback.update(sessionId, entry);
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    await this.fallback.delete(sessionId);
+    await this.withRedis(
+      async (redis) => {
+        const raw = await redis.get(sessionKey(sessionId));
+        await redis.del(sessionKey(sessionId));
+        if (raw) {
+          const entry = JSON.parse(raw) as SessionEntry;
+          await redis.sRem(
+            userSessionsKey(entry.user.username, entry.user.clusterId),
+            sessionId,
+          );
+        }
+      },
+      async () => undefined,
+    );
+  }
+
+  async deleteForUser(username: string, clusterId?: string): Promise<number> {
+    const removedLocally = await this.fallback.deleteForUser(username, clusterId);
+
+    const removed = await this.withRedis(
+      async (redis) => {
+        const indexKeys: string[] = [];
+        if (clusterId !== undefined) {
+          indexKeys.push(userSessionsKey(username, clusterId));
+        } else {
+          for await (const keys of redis.scanIterator({
+            MATCH: `${USER_SESSIONS_KEY_PREFIX}*:${encodeURIComponent(
+              username,
+            ).replace(/[*?[\]\\]/g, "\\$&")}`,
+            COUNT: 100,
+          })) {
+            indexKeys.push(...keys.filter((key) => isUserSessionsKey(key, username)));
+          }
+        }
+
+        let count = 0;
+        for (const indexKey of indexKeys) {
+          const ids = await redis.sMembers(indexKey);
+          if (ids.length > 0) {
+            count += await redis.del(ids.map(sessionKey));
+          }
+          await redis.del(indexKey);
+        }
+        return count;
+      },
+      async () => 0,
+    );
+
+    return removedLocally + removed;
+  }
+
+  async count(): Promise<number> {
+    const local = await this.fallback.count();
+    const remote = await this.withRedis(
+      async (redis) => {
+        let total = 0;
+        for await (const keys of redis.scanIterator({
+          MATCH: `${SESSION_KEY_PREFIX}*`,
+          COUNT: 100,
+        })) {
+          total += keys.length;
+        }
+        return total;
+      },
+      async () => 0,
+    );
+    return local + remote;
+  }
+
+  async clear(): Promise<void> {
+    await this.fallback.clear();
+    await this.withRedis(
+      async (redis) => {
+        for (const prefix of [SESSION_KEY_PREFIX, USER_SESSIONS_KEY_PREFIX]) {
+          for await (const keys of redis.scanIterator({
+            MATCH: `${prefix}*`,
+            COUNT: 100,
+          })) {
+            if (keys.length > 0) await redis.del(keys);
+          }
+        }
+      },
+      async () => undefined,
+    );
+  }
+}
@@ -10,6 +10,7 @@
  */
 
 import { SessionOptions } from "iron-session";
+import type { SsoSessionInfo } from "./storage";
 
 export interface SessionData {
   isLoggedIn: boolean;
@@ -23,6 +24,7 @@ export interface SessionData {
     host?: string;
     database?: string;
     clusterId?: string;
+    sso?: SsoSessionInfo;
   };
 }
 
@@ -75,8 +77,28 @@ export const sessionOptions: SessionOptions = {
       process.env.DISABLE_SECURE_COOKIES !== "true",
     httpOnly: true,
     sameSite: "lax",
-    // Align with server-side session store TTL (24 hours in storage.ts)
-    // to prevent stale cookies outliving their server-side counterpart
-    maxAge: 60 * 60 * 24, // 24 hours
+    // Align with the absolute session lifetime (7 days in storage.ts); the
+    // server-side session still expires after 24 hours without activity
+    maxAge: 60 * 60 * 24 * 7, // 7 days
+  },
+};
+
+/**
+ * State carried between the redirect to the identity provider and the
+ * OIDC callback (see /api/auth/oidc)
+ */
+export interface OidcFlowData {
+  state?: string;
+  nonce?: string;
+  codeVerifier?: string;
+  clusterId?: string;
+}
+
+export const oidcFlowOptions: SessionOptions = {
+  ...sessionOptions,
+  cookieName: "clicklens-oidc",
+  cookieOptions: {
+    ...sessionOptions.cookieOptions,
+    maxAge: 10 * 60, // The login must complete within 10 minutes
   },
 };
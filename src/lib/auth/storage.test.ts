@@ -1,15 +1,26 @@
-import { describe, test, expect, beforeEach } from "bun:test";
+import { describe, test, expect, beforeEach, afterEach, setSystemTime } from "bun:test";
 import {
   createSession,
   getSessionUser,
   destroySession,
   clearAllSessions,
   getActiveSessionCount,
+  revokeUserSessions,
+  setSessionStore,
+  updateSessionPassword,
 } from "./storage";
+import { MemorySessionStore, RedisSessionStore } from "./session-store";
+
+const HOUR = 60 * 60 * 1000;
 
 describe("Session Storage", () => {
-  beforeEach(() => {
-    clearAllSessions();
+  beforeEach(async () => {
+    setSessionStore(new MemorySessionStore());
+    await clearAllSessions();
+  });
+
+  afterEach(() => {
+    setSystemTime();
   });
 
   const mockUser = {
@@ -18,39 +29,131 @@ describe("Session Storage", () => {
     host: "localhost",
   };
 
-  test("creates and retrieves session", () => {
-    const sessionId = createSession(mockUser);
+  test("creates and retrieves session", async () => {
+    const sessionId = await createSession(mockUser);
     expect(sessionId).toBeDefined();
 
-    const retrieved = getSessionUser(sessionId);
+    const retrieved = await getSessionUser(sessionId);
     expect(retrieved).toEqual(mockUser);
   });
 
-  test("destroys session", () => {
-    const sessionId = createSession(mockUser);
-    expect(getSessionUser(sessionId)).toBeDefined();
+  test("destroys session", async () => {
+    const sessionId = await createSession(mockUser);
+    expect(await getSessionUser(sessionId)).toBeDefined();
 
-    destroySession(sessionId);
-    expect(getSessionUser(sessionId)).toBeNull();
+    await destroySession(sessionId);
+    expect(await getSessionUser(sessionId)).toBeNull();
   });
 
-  test("handles missing session", () => {
-    expect(getSessionUser("non-existent-id")).toBeNull();
+  test("handles missing session", async () => {
+    expect(await getSessionUser("non-existent-id")).toBeNull();
     // Should not throw
-    destroySession("non-existent-id");
+    await destroySession("non-existent-id");
+  });
+
+  test("manages multiple sessions", async () => {
+    const id1 = await createSession({ ...mockUser, username: "user1" });
+    const id2 = await createSession({ ...mockUser, username: "user2" });
+
+    expect(await getActiveSessionCount()).toBe(2);
+    expect((await getSessionUser(id1))?.username).toBe("user1");
+    expect((await getSessionUser(id2))?.username).toBe("user2");
+
+    await destroySession(id1);
+    expect(await getActiveSessionCount()).toBe(1);
+    expect(await getSessionUser(id1)).toBeNull();
+    expect(await getSessionUser(id2)).toBeDefined();
+  });
+
+  test("extends expiry on activity up to the absolute lifetime", async () => {
+    const start = new Date("2026-01-01T00:00:00Z").getTime();
+    setSystemTime(new Date(start));
+    const sessionId = await createSession(mockUser);
+
+    // Active every 20 hours: stays valid past the 24h idle timeout
+    for (let hours = 20; hours <= 160; hours += 20) {
+      setSystemTime(new Date(start + hours * HOUR));
+      expect(await getSessionUser(sessionId)).not.toBeNull();
+    }
+
+    // Beyond 7 days since login the session ends regardless of activity
+    setSystemTime(new Date(start + 169 * HOUR));
+    expect(await getSessionUser(sessionId)).toBeNull();
+  });
+
+  test("expires after the idle timeout", async () => {
+    const start = new Date("2026-01-01T00:00:00Z").getTime();
+    setSystemTime(new Date(start));
+    const sessionId = await createSession(mockUser);
+
+    setSystemTime(new Date(start + 25 * HOUR));
+    expect(await getSessionUser(sessionId)).toBeNull();
+  });
+
+  test("revokes all sessions of a user on one cluster", async () => {
+    const a = await createSession({ ...mockUser, clusterId: "prod" });
+    const b = await createSession({ ...mockUser, clusterId: "prod" });
+    const other = await createSession({ ...mockUser, clusterId: "staging" });
+    const otherUser = await createSession({
+      ...mockUser,
+      username: "someone",
+      clusterId: "prod",
+    });
+
+    expect(await revokeUserSessions("testuser", "prod")).toBe(2);
+    expect(await getSessionUser(a)).toBeNull();
+    expect(await getSessionUser(b)).toBeNull();
+    expect(await getSessionUser(other)).not.toBeNull();
+    expect(await getSessionUser(otherUser)).not.toBeNull();
+  });
+
+  test("does not recreate a session revoked while it was being read", async () => {
+    // Revocation lands between the read and the sliding-expiry write
+    class RevokingStore extends MemorySessionStore {
+      async get(sessionId: string) {
+        const entry = await super.get(sessionId);
+        await this.delete(sessionId);
+        return entry;
+      }
+    }
+    setSessionStore(new RevokingStore());
+
+    const start = new Date("2026-01-01T00:00:00Z").getTime();
+    setSystemTime(new Date(start));
+    const sessionId = await createSession(mockUser);
+
+    setSystemTime(new Date(start + HOUR));
+    expect(await getSessionUser(sessionId)).toBeNull();
+    expect(await getActiveSessionCount()).toBe(0);
+
+    const other = await createSession(mockUser);
+    expect(await updateSessionPassword(other, "changed")).toBe(false);
+    expect(await getActiveSessionCount()).toBe(0);
   });
 
-  test("manages multiple sessions", () => {
-    const id1 = createSession({ ...mockUser, username: "user1" });
-    const id2 = createSession({ ...mockUser, username: "user2" });
+  test("refuses to create sessions while Redis is unavailable", async () => {
+    setSessionStore(
+      new RedisSessionStore(async () => {
+        throw new Error("connection refused");
+      }),
+    );
+
+    await expect(createSession(mockUser)).rejects.toThrow("connection refused");
+  });
 
-    expect(getActiveSessionCount()).toBe(2);
-    expect(getSessionUser(id1)?.username).toBe("user1");
-    expect(getSessionUser(id2)?.username).toBe("user2");
+  test("falls back to memory when Redis is unavailable and opted in", async () => {
+    setSessionStore(
+      new RedisSessionStore(
+        async () => {
+          throw new Error("connection refused");
+        },
+        { memoryFallback: true },
+      ),
+    );
 
-    destroySession(id1);
-    expect(getActiveSessionCount()).toBe(1);
-    expect(getSessionUser(id1)).toBeNull();
-    expect(getSessionUser(id2)).toBeDefined();
+    const sessionId = await createSession(mockUser);
+    expect(await getSessionUser(sessionId)).toEqual(mockUser);
+    expect(await revokeUserSessions("testuser")).toBe(1);
+    expect(await getSessionUser(sessionId)).toBeNull();
   });
 });
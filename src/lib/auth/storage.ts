@@ -2,33 +2,48 @@
  * Server-side session storage
  *
  * Replaces client-side storage of sensitive credentials.
- * Stores user session data in-memory, keyed by a random session ID.
+ * Stores user session data keyed by a random session ID, with the password
+ * encrypted (AES-256-GCM) before it reaches the store.
  *
- * NOTE: This is an in-memory store. Sessions are lost on server restart.
- * For multi-instance deployments, this should be replaced with Redis.
+ * Backend is chosen by SESSION_STORE ("redis" | "memory"). It defaults to
+ * Redis when REDIS_URL is set, so sessions survive restarts and are shared
+ * across instances; otherwise sessions live in process memory. With Redis,
+ * SESSION_STORE_FALLBACK=memory keeps sessions in memory while Redis is
+ * down, which is only safe for a single instance.
+ *
+ * Sessions use sliding expiry: each access pushes the expiry out by the idle
+ * timeout, up to an absolute maximum lifetime from login.
  */
 
 import crypto from "crypto";
+import type { OidcAuthMode } from "@/lib/clickhouse/config";
+import {
+  MemorySessionStore,
+  RedisSessionStore,
+  type EncryptedPassword,
+  type SessionEntry,
+  type SessionStore,
+} from "./session-store";
+import { getRedisClient } from "@/lib/cache/redis-client";
+
+/** Set for sessions created through OIDC single sign-on */
+export interface SsoSessionInfo {
+  mode: OidcAuthMode;
+  /** ClickHouse roles mapped from IdP groups */
+  roles?: string[];
+  /** The session ends when the forwarded token expires (jwt mode) */
+  expiresAt?: number;
+}
 
 export interface UserSession {
   username: string;
+  /** ClickHouse password, or the ID token for SSO sessions in jwt mode */
   password: string;
   host?: string;
   database?: string;
   /** The cluster ID this session is pinned to. Resolved from CLICKHOUSE_CLUSTERS or "default" for legacy env. */
   clusterId?: string;
-}
-
-interface EncryptedPassword {
-  ciphertext: string;
-  iv: string;
-  authTag: string;
-}
-
-interface SessionEntry {
-  user: Omit<UserSession, "password">;
-  encryptedPassword: EncryptedPassword;
-  expiresAt: number;
+  sso?: SsoSessionInfo;
 }
 
 const ALGORITHM = "aes-256-gcm";
@@ -67,121 +82,162 @@ function decryptPassword(encrypted: EncryptedPassword): string {
   return decrypted;
 }
 
-// In-memory store: SessionID -> SessionEntry
-const sessionStore = new Map<string, SessionEntry>();
-
 // Configuration
-const SESSION_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
-const CLEANUP_INTERVAL_MS = 60 * 60 * 1000; // Cleanup every hour
-
-// Periodic cleanup
-let cleanupInterval: ReturnType<typeof setInterval> | null = null;
-
-function startCleanup() {
-  if (cleanupInterval) return;
-
-  cleanupInterval = setInterval(() => {
-    const now = Date.now();
-    for (const [id, entry] of sessionStore.entries()) {
-      if (now > entry.expiresAt) {
-        sessionStore.delete(id);
-      }
-    }
-  }, CLEANUP_INTERVAL_MS);
-
-  if (cleanupInterval.unref) {
-    cleanupInterval.unref();
+const SESSION_IDLE_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours without activity
+const SESSION_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000; // 7 days from login
+// Minimum time between expiry extensions, to avoid a store write per request
+const SESSION_TOUCH_INTERVAL_MS = 60 * 1000;
+
+let sessionStore: SessionStore | null = null;
+
+function getSessionStore(): SessionStore {
+  if (!sessionStore) {
+    const backend =
+      process.env.SESSION_STORE || (process.env.REDIS_URL ? "redis" : "memory");
+    sessionStore =
+      backend === "redis"
+        ? new RedisSessionStore(getRedisClient, {
+            memoryFallback: process.env.SESSION_STORE_FALLBACK === "memory",
+          })
+        : new MemorySessionStore();
   }
+  return sessionStore;
+}
+
+/**
+ * Replace the session store backend (e.g. a custom store, or tests)
+ */
+export function setSessionStore(store: SessionStore): void {
+  sessionStore = store;
+}
+
+function nextExpiry(entry: SessionEntry, now: number): number {
+  return Math.min(now + SESSION_IDLE_TTL_MS, entry.createdAt + SESSION_MAX_AGE_MS);
+}
+
+/**
+ * Load a live session entry, removing it when expired
+ */
+async function getLiveEntry(sessionId: string): Promise<SessionEntry | null> {
+  const store = getSessionStore();
+  const entry = await store.get(sessionId);
+  if (!entry) return null;
+
+  const now = Date.now();
+  if (now > entry.expiresAt || (entry.user.sso?.expiresAt ?? Infinity) < now) {
+    await store.delete(sessionId);
+    return null;
+  }
+
+  return entry;
 }
 
 /**
  * Store user session data on server
  * @returns sessionId
  */
-export function createSession(user: UserSession): string {
-  startCleanup();
-
+export async function createSession(user: UserSession): Promise<string> {
   // Generate secure random Session ID
   const sessionId = crypto.randomUUID();
-  const expiresAt = Date.now() + SESSION_TTL_MS;
+  const now = Date.now();
 
   const { password, ...userWithoutPassword } = user;
-  sessionStore.set(sessionId, {
+  const entry: SessionEntry = {
     user: userWithoutPassword,
     encryptedPassword: encryptPassword(password),
-    expiresAt,
-  });
+    createdAt: now,
+    lastSeenAt: now,
+    expiresAt: 0,
+  };
+  entry.expiresAt = nextExpiry(entry, now);
+
+  await getSessionStore().set(sessionId, entry);
   return sessionId;
 }
 
 /**
- * Retrieve user session data
+ * Retrieve user session data, extending the session's idle expiry
  */
-export function getSessionUser(sessionId?: string): UserSession | null {
+export async function getSessionUser(
+  sessionId?: string,
+): Promise<UserSession | null> {
   if (!sessionId) return null;
 
-  const entry = sessionStore.get(sessionId);
+  const entry = await getLiveEntry(sessionId);
   if (!entry) return null;
 
-  // Check expiration
-  if (Date.now() > entry.expiresAt) {
-    sessionStore.delete(sessionId);
-    return null;
-  }
-
-  // Extend session on activity? Optional.
-  // For now, fixed TTL from login seems safer/simpler.
-
+  let password: string;
   try {
-    const password = decryptPassword(entry.encryptedPassword);
-    return { ...entry.user, password };
+    password = decryptPassword(entry.encryptedPassword);
   } catch {
     console.error("Failed to decrypt session password for session:", sessionId);
-    sessionStore.delete(sessionId);
+    await getSessionStore().delete(sessionId);
     return null;
   }
+
+  const now = Date.now();
+  if (now - entry.lastSeenAt >= SESSION_TOUCH_INTERVAL_MS) {
+    const touched = await getSessionStore().update(sessionId, {
+      ...entry,
+      lastSeenAt: now,
+      expiresAt: nextExpiry(entry, now),
+    });
+    // Revoked or logged out since it was read
+    if (!touched) return null;
+  }
+
+  return { ...entry.user, password };
 }
 
 /**
  * Update password for an existing session (e.g., after password change)
  */
-export function updateSessionPassword(
+export async function updateSessionPassword(
   sessionId: string | undefined,
   newPassword: string,
-): boolean {
+): Promise<boolean> {
   if (!sessionId) return false;
 
-  const entry = sessionStore.get(sessionId);
+  const entry = await getLiveEntry(sessionId);
   if (!entry) return false;
 
-  if (Date.now() > entry.expiresAt) {
-    sessionStore.delete(sessionId);
-    return false;
-  }
-
-  entry.encryptedPassword = encryptPassword(newPassword);
-  return true;
+  return getSessionStore().update(sessionId, {
+    ...entry,
+    encryptedPassword: encryptPassword(newPassword),
+  });
 }
 
 /**
  * Remove session (logout)
  */
-export function destroySession(sessionId?: string): void {
+export async function destroySession(sessionId?: string): Promise<void> {
   if (sessionId) {
-    sessionStore.delete(sessionId);
+    await getSessionStore().delete(sessionId);
   }
 }
 
+/**
+ * Revoke every session of a user (admin action, user dropped)
+ * @param clusterId limit to sessions pinned to this cluster
+ * @returns number of sessions removed
+ */
+export async function revokeUserSessions(
+  username: string,
+  clusterId?: string,
+): Promise<number> {
+  return getSessionStore().deleteForUser(username, clusterId);
+}
+
 /**
  * Get active session count (for monitoring)
  */
-export function getActiveSessionCount(): number {
-  return sessionStore.size;
+export async function getActiveSessionCount(): Promise<number> {
+  return getSessionStore().count();
 }
 
 /**
  * Clear all sessions (for testing)
  */
-export function clearAllSessions(): void {
-  sessionStore.clear();
+export async function clearAllSessions(): Promise<void> {
+  await getSessionStore().clear();
 }
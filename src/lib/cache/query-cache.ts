@@ -329,6 +329,12 @@ export class QueryCache {
     limit?: number;
     offset?: number;
     cursor?: string;
+    /** Histogram bucket size */
+    interval?: string;
+    /** Histogram split-by column */
+    splitBy?: string;
+    /** Histogram aggregation, e.g. "avg(duration_ms)" */
+    aggregation?: string;
     clusterId?: string;
   }): string {
     const queryParams: QueryParams = {
@@ -344,6 +350,18 @@ export class QueryCache {
       clusterId: params.clusterId,
     };
 
+    if (params.interval) {
+      queryParams.interval = params.interval;
+    }
+
+    if (params.splitBy) {
+      queryParams.splitBy = params.splitBy;
+    }
+
+    if (params.aggregation) {
+      queryParams.aggregation = params.aggregation;
+    }
+
     // Add time range as object (will be hashed by key-generator)
     if (params.timeRange) {
       queryParams.minTime = params.timeRange.minTime;
@@ -0,0 +1,100 @@
+import { describe, test, expect, mock, afterAll, setSystemTime } from "bun:test";
+
+type Listener = (...args: unknown[]) => void;
+
+let connectResult: () => Promise<void> = () =>
+  Promise.reject(new Error("connection refused"));
+let created = 0;
+
+class FakeClient {
+  isOpen = false;
+  private listeners = new Map<string, Listener[]>();
+
+  on(event: string, listener: Listener) {
+    this.listeners.set(event, [...(this.listeners.get(event) ?? []), listener]);
+    return this;
+  }
+
+  emit(event: string, ...args: unknown[]) {
+    for (const listener of this.listeners.get(event) ?? []) listener(...args);
+  }
+
+  async connect() {
+    await connectResult();
+    this.isOpen = true;
+    this.emit("ready");
+  }
+
+  async quit() {
+    this.isOpen = false;
+    this.emit("end");
+  }
+
+  destroy() {
+    this.isOpen = false;
+  }
+}
+
+let lastClient: FakeClient | null = null;
+
+mock.module("redis", () => ({
+  createClient: () => {
+    created++;
+    lastClient = new FakeClient();
+    return lastClient;
+  },
+}));
+
+const { getRedisClient, closeRedisClient, isRedisAvailable } = await import(
+  "./redis-client"
+);
+
+describe("getRedisClient", () => {
+  afterAll(async () => {
+    await closeRedisClient();
+    connectResult = () => Promise.reject(new Error("connection refused"));
+  });
+
+  test("concurrent callers share the first connect", async () => {
+    let resolve!: () => void;
+    connectResult = () => new Promise<void>((r) => (resolve = r));
+
+    const first = getRedisClient();
+    const second = getRedisClient();
+    resolve();
+
+    expect(await first).toBe(await second);
+    expect(created).toBe(1);
+    expect(isRedisAvailable()).toBe(true);
+  });
+
+  test("creates a new client once the connection has ended", async () => {
+    lastClient!.emit("end");
+    connectResult = () => Promise.resolve();
+
+    const client = await getRedisClient();
+    expect(client).toBe(lastClient as unknown as typeof client);
+    expect(created).toBe(2);
+  });
+
+  test("retries a failed connect after a delay", async () => {
+    await closeRedisClient();
+    connectResult = () => Promise.reject(new Error("connection refused"));
+    await expect(getRedisClient()).rejects.toThrow("connection refused");
+    expect(created).toBe(3);
+
+    // Fails fast in the meantime
+    await expect(getRedisClient()).rejects.toThrow("connection refused");
+    expect(created).toBe(3);
+
+    connectResult = () => Promise.resolve();
+    setSystemTime(new Date(Date.now() + 10_000));
+    try {
+      await getRedisClient();
+    } finally {
+      setSystemTime();
+    }
+    expect(created).toBe(4);
+    expect(isRedisAvailable()).toBe(true);
+  });
+});
@@ -6,70 +6,79 @@
 
 import { createClient, type RedisClientType } from "redis";
 
+// A failed connect is retried on the next call after this delay
+const RECONNECT_DELAY_MS = 5000;
+
 let redisClient: RedisClientType | null = null;
-let isConnecting = false;
+let connecting: Promise<RedisClientType> | null = null;
 let connectionError: Error | null = null;
+let failedAt = 0;
 
 export async function getRedisClient(): Promise<RedisClientType> {
   if (redisClient) {
     return redisClient;
   }
 
-  if (isConnecting) {
-    throw new Error("Redis client is connecting");
+  // Concurrent callers wait for the same connect
+  if (connecting) {
+    return connecting;
   }
 
-  if (connectionError) {
+  if (connectionError && Date.now() - failedAt < RECONNECT_DELAY_MS) {
     throw connectionError;
   }
 
+  connecting = connect().finally(() => {
+    connecting = null;
+  });
+  return connecting;
+}
+
+async function connect(): Promise<RedisClientType> {
   const redisUrl = process.env.REDIS_URL || "redis://localhost:6379";
 
-  try {
-    isConnecting = true;
-    redisClient = createClient({
-      url: redisUrl,
-      socket: {
-        reconnectStrategy: (retries) => {
-          if (retries > 10) {
-            return new Error("Too many reconnect attempts");
-          }
-          return retries * 100;
-        },
+  const client: RedisClientType = createClient({
+    url: redisUrl,
+    socket: {
+      reconnectStrategy: (retries) => {
+        if (retries > 10) {
+          return new Error("Too many reconnect attempts");
+        }
+        return retries * 100;
       },
-    });
-
-    redisClient.on("error", (err) => {
-      console.error("Redis client error:", err);
-      connectionError = err;
-      isConnecting = false;
-      redisClient = null;
-    });
+    },
+  });
 
-    redisClient.on("connect", () => {
-      console.log("Redis client connected");
-      connectionError = null;
-    });
+  // The client reconnects by itself after errors; once it gives up it ends
+  // and the next getRedisClient() call creates a new one
+  client.on("error", (err) => {
+    console.error("Redis client error:", err);
+    connectionError = err;
+    failedAt = Date.now();
+  });
 
-    redisClient.on("disconnect", () => {
-      console.log("Redis client disconnected");
-      isConnecting = false;
-      redisClient = null;
-    });
+  client.on("ready", () => {
+    connectionError = null;
+  });
 
-    redisClient.on("end", () => {
-      console.log("Redis client connection ended");
-      isConnecting = false;
+  client.on("end", () => {
+    console.log("Redis client connection ended");
+    if (redisClient === client) {
       redisClient = null;
-    });
+    }
+  });
 
-    await redisClient.connect();
-    isConnecting = false;
-    return redisClient;
+  try {
+    await client.connect();
+    console.log("Redis client connected");
+    connectionError = null;
+    redisClient = client;
+    return client;
   } catch (error) {
-    isConnecting = false;
     connectionError = error instanceof Error ? error : new Error(String(error));
+    failedAt = Date.now();
     console.error("Failed to connect to Redis:", connectionError);
+    if (client.isOpen) client.destroy();
     throw connectionError;
   }
 }
@@ -0,0 +1,30 @@
+/**
+ * Shared TO clause for access entities (quotas, row policies, settings profiles)
+ */
+
+import { quoteIdentifier } from "./utils";
+
+export interface AccessTargets {
+  /** Users and roles the entity applies to */
+  applyTo: string[];
+  /** Apply to every user and role (except those in applyToExcept) */
+  applyToAll?: boolean;
+  applyToExcept?: string[];
+}
+
+/**
+ * Build the " TO ..." suffix of CREATE/ALTER statements.
+ * ALTER needs TO NONE to clear assignments, CREATE can omit the clause.
+ */
+export function buildToClause(targets: AccessTargets, emptyAsNone: boolean): string {
+  if (targets.applyToAll) {
+    const except = targets.applyToExcept ?? [];
+    return except.length > 0
+      ? ` TO ALL EXCEPT ${except.map(quoteIdentifier).join(", ")}`
+      : " TO ALL";
+  }
+  if (targets.applyTo.length > 0) {
+    return ` TO ${targets.applyTo.map(quoteIdentifier).join(", ")}`;
+  }
+  return emptyAsNone ? " TO NONE" : "";
+}
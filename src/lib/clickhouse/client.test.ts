@@ -23,6 +23,11 @@ describe('queryWithTimeout', () => {
       version: async () => '1.0.0',
       killQuery: async () => {},
       queryStream: async () => ({}),
+      exportStream: async () => ({
+        stream: (async function* () {})(),
+        query_id: '',
+        destroy: () => {},
+      }),
       explain: async () => [],
     };
   });
@@ -4,6 +4,7 @@
  * Clients are cached by (host, port, username, database) to enable HTTP keep-alive reuse.
  */
 
+import { createHash } from "crypto";
 import { type ClickHouseConfig } from "./config";
 import {
   type ClickHouseClient,
@@ -47,7 +48,15 @@ function buildCacheKey(config: ClickHouseConfig): string {
   const settingsKey = config.settings
     ? JSON.stringify(config.settings)
     : "";
-  return `${config.host}:${config.port}:${config.username}:${config.database || "default"}:${settingsKey}`;
+  // SSO identities share the lens user (impersonation) or carry a token
+  const authKey = [
+    config.impersonateUser ?? "",
+    config.roles?.join(",") ?? "",
+    config.accessToken
+      ? createHash("sha256").update(config.accessToken).digest("hex")
+      : "",
+  ].join(":");
+  return `${config.host}:${config.port}:${config.username}:${config.database || "default"}:${settingsKey}:${authKey}`;
 }
 
 function evictStaleClients(): void {
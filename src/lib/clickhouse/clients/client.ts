@@ -8,8 +8,10 @@ import {
   type ClickHouseClient,
   type ClickHouseFormat,
   type ClickHouseQueryResult,
+  type ClickHouseExportFormat,
+  type ClickHouseRawStream,
 } from "./types";
-import { escapeSqlString } from "../utils";
+import { escapeSqlString, quoteIdentifier } from "../utils";
 
 /**
  * ClickHouse Client Implementation
@@ -18,13 +20,17 @@ import { escapeSqlString } from "../utils";
 export class ClickHouseClientImpl implements ClickHouseClient {
   private client: OfficialClickHouseClient;
   private settings?: Record<string, unknown>;
+  private impersonateUser?: string;
 
   constructor(config: ClickHouseConfig) {
     this.settings = config.settings;
+    this.impersonateUser = config.impersonateUser;
     this.client = createClient({
       url: buildConnectionUrl(config),
-      username: config.username,
-      password: config.password,
+      ...(config.accessToken
+        ? { access_token: config.accessToken }
+        : { username: config.username, password: config.password }),
+      role: config.roles,
       database: config.database,
       request_timeout: 300_000, // Default 300s
       application: "ClickLens",
@@ -33,6 +39,15 @@ export class ClickHouseClientImpl implements ClickHouseClient {
     });
   }
 
+  /**
+   * Prefix a statement with EXECUTE AS when running on behalf of another user
+   */
+  private asUser(sql: string): string {
+    return this.impersonateUser
+      ? `EXECUTE AS ${quoteIdentifier(this.impersonateUser)} ${sql}`
+      : sql;
+  }
+
   async query<T = Record<string, unknown>>(
     sql: string,
     options?: {
@@ -43,7 +58,7 @@ export class ClickHouseClientImpl implements ClickHouseClient {
     },
   ): Promise<ClickHouseQueryResult<T>> {
     const resultSet = await this.client.query({
-      query: sql,
+      query: this.asUser(sql),
       format: "JSON",
       query_id: options?.query_id,
       query_params: options?.query_params,
@@ -81,9 +96,19 @@ export class ClickHouseClientImpl implements ClickHouseClient {
     };
   }
 
-  async command(sql: string): Promise<void> {
+  async command(
+    sql: string,
+    options?: {
+      query_id?: string;
+      session_id?: string;
+      clickhouse_settings?: Record<string, unknown>;
+    },
+  ): Promise<void> {
     await this.client.command({
-      query: sql,
+      query: this.asUser(sql),
+      query_id: options?.query_id,
+      session_id: options?.session_id,
+      clickhouse_settings: options?.clickhouse_settings as ClickHouseSettings,
     });
   }
 
@@ -106,7 +131,7 @@ export class ClickHouseClientImpl implements ClickHouseClient {
   async killQuery(queryId: string): Promise<void> {
     const escapedQueryId = escapeSqlString(queryId);
     await this.client.command({
-      query: `KILL QUERY WHERE query_id = '${escapedQueryId}' SYNC`,
+      query: this.asUser(`KILL QUERY WHERE query_id = '${escapedQueryId}' SYNC`),
     });
   }
 
@@ -125,7 +150,9 @@ export class ClickHouseClientImpl implements ClickHouseClient {
     options?: {
       timeout?: number;
       query_id?: string;
+      session_id?: string;
       format?: ClickHouseFormat;
+      query_params?: Record<string, string | number>;
       clickhouse_settings?: ClickHouseSettings;
     },
   ): Promise<unknown> {
@@ -139,10 +166,45 @@ export class ClickHouseClientImpl implements ClickHouseClient {
     }
 
     return this.client.query({
-      query: sql,
+      query: this.asUser(sql),
       format: options?.format ?? "JSON",
       query_id: options?.query_id,
+      session_id: options?.session_id,
+      query_params: options?.query_params,
+      clickhouse_settings: settings,
+    });
+  }
+
+  async exportStream(
+    sql: string,
+    options: {
+      format: ClickHouseExportFormat;
+      timeout?: number;
+      query_id?: string;
+      query_params?: Record<string, string | number>;
+      clickhouse_settings?: ClickHouseSettings;
+    },
+  ): Promise<ClickHouseRawStream> {
+    const settings: ClickHouseSettings = {
+      ...(this.settings as ClickHouseSettings),
+      ...options.clickhouse_settings,
+    };
+
+    if (options.timeout) {
+      settings.max_execution_time = options.timeout;
+    }
+
+    const result = await this.client.exec({
+      query: this.asUser(`${sql}\nFORMAT ${options.format}`),
+      query_id: options.query_id,
+      query_params: options.query_params,
       clickhouse_settings: settings,
     });
+
+    return {
+      stream: result.stream,
+      query_id: result.query_id,
+      destroy: () => result.stream.destroy(),
+    };
   }
 }
@@ -20,6 +20,22 @@ export type ClickHouseFormat =
   | "TabSeparated"
   | "TabSeparatedWithNames";
 
+/**
+ * Output formats accepted by exportStream, including binary formats that
+ * cannot be parsed row by row
+ */
+export type ClickHouseExportFormat = ClickHouseFormat | "Parquet" | "Arrow";
+
+/**
+ * Raw response body of a query, passed through in its output format
+ */
+export interface ClickHouseRawStream {
+  stream: AsyncIterable<Uint8Array>;
+  query_id: string;
+  /** Stop reading and release the underlying connection */
+  destroy: () => void;
+}
+
 export interface ClickHouseStatistics {
   elapsed: number;
   rows_read: number;
@@ -53,7 +69,14 @@ export interface ClickHouseClient {
   /**
    * Execute a command (DDL, INSERT, etc.) without expecting results
    */
-  command(sql: string): Promise<void>;
+  command(
+    sql: string,
+    options?: {
+      query_id?: string;
+      session_id?: string;
+      clickhouse_settings?: Record<string, unknown>;
+    },
+  ): Promise<void>;
 
   /**
    * Test connection with a simple query
@@ -78,10 +101,27 @@ export interface ClickHouseClient {
     options?: {
       timeout?: number;
       query_id?: string;
+      session_id?: string;
       format?: ClickHouseFormat;
+      query_params?: Record<string, string | number>;
       clickhouse_settings?: Record<string, unknown>;
     },
   ): Promise<unknown>; // returning unknown to avoid deep type dependencies for now, or use complex type
 
+  /**
+   * Execute a query and return the raw response body in the given format.
+   * Unlike queryStream, binary formats (Parquet, Arrow) are not split into rows.
+   */
+  exportStream(
+    sql: string,
+    options: {
+      format: ClickHouseExportFormat;
+      timeout?: number;
+      query_id?: string;
+      query_params?: Record<string, string | number>;
+      clickhouse_settings?: Record<string, unknown>;
+    },
+  ): Promise<ClickHouseRawStream>;
+
   explain(sql: string): Promise<string[]>;
 }
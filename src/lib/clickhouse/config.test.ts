@@ -10,6 +10,7 @@ import {
   getConfiguredClusters,
   getDefaultClusterId,
   isClusterConfigured,
+  getClusterOidcConfig,
   $$resetDeprecationWarning,
 } from "./config";
 
@@ -317,4 +318,54 @@ describe("clickhouse/config", () => {
       expect(isClusterConfigured("default")).toBe(true);
     });
   });
+
+  describe("oidc", () => {
+    const cluster = { id: "sso", label: "SSO", host: "sso.example.test", lensUser: "lens", lensPassword: "lens-pw" };
+    const oidc = { issuer: "https://idp.example.test/", clientId: "clicklens", mode: "impersonate" };
+
+    test("parses an oidc block", () => {
+      process.env.CLICKHOUSE_CLUSTERS = JSON.stringify([{ ...cluster, oidc: { ...oidc, mode: "jwt", groupRoles: { eng: ["reader"] } } }]);
+      const config = getClusterOidcConfig("sso");
+      expect(config!.issuer).toBe("https://idp.example.test");
+      expect(config!.groupRoles).toEqual({ eng: ["reader"] });
+      expect(config!.allowUnmappedUsers).toBe(false);
+    });
+    test("allows unmapped users only when enabled", () => {
+      process.env.CLICKHOUSE_CLUSTERS = JSON.stringify([{ ...cluster, oidc: { ...oidc, allowUnmappedUsers: "yes" } }]);
+      expect(getClusterOidcConfig("sso")!.allowUnmappedUsers).toBe(false);
+      process.env.CLICKHOUSE_CLUSTERS = JSON.stringify([{ ...cluster, oidc: { ...oidc, allowUnmappedUsers: true } }]);
+      expect(getClusterOidcConfig("sso")!.allowUnmappedUsers).toBe(true);
+    });
+    test("returns null for clusters without SSO", () => {
+      process.env.CLICKHOUSE_CLUSTERS = JSON.stringify([cluster]);
+      expect(getClusterOidcConfig("sso")).toBeNull();
+    });
+    test("rejects invalid oidc blocks", () => {
+      process.env.CLICKHOUSE_CLUSTERS = JSON.stringify([{ ...cluster, oidc: { ...oidc, mode: "password" } }]);
+      expect(() => parseClusterRegistry()).toThrow("mode");
+      process.env.CLICKHOUSE_CLUSTERS = JSON.stringify([{ ...cluster, oidc: { ...oidc, clientId: undefined } }]);
+      expect(() => parseClusterRegistry()).toThrow("clientId");
+      process.env.CLICKHOUSE_CLUSTERS = JSON.stringify([{ ...cluster, oidc: { ...oidc, mode: "jwt", groupRoles: { eng: "reader" } } }]);
+      expect(() => parseClusterRegistry()).toThrow("groupRoles");
+    });
+    test("rejects groupRoles in impersonate mode", () => {
+      process.env.CLICKHOUSE_CLUSTERS = JSON.stringify([{ ...cluster, oidc: { ...oidc, groupRoles: { eng: ["reader"] } } }]);
+      expect(() => parseClusterRegistry()).toThrow("requires mode 'jwt'");
+    });
+    test("impersonate mode connects as the lens user", () => {
+      process.env.CLICKHOUSE_CLUSTERS = JSON.stringify([cluster]);
+      const config = getUserConfig("sso", { username: "alice", password: "", sso: { mode: "impersonate" } });
+      expect(config!.username).toBe("lens");
+      expect(config!.password).toBe("lens-pw");
+      expect(config!.impersonateUser).toBe("alice");
+    });
+    test("jwt mode sends the token and mapped roles", () => {
+      process.env.CLICKHOUSE_CLUSTERS = JSON.stringify([cluster]);
+      const config = getUserConfig("sso", { username: "alice", password: "id.token.sig", sso: { mode: "jwt", roles: ["reader"] } });
+      expect(config!.username).toBe("alice");
+      expect(config!.password).toBe("");
+      expect(config!.accessToken).toBe("id.token.sig");
+      expect(config!.roles).toEqual(["reader"]);
+    });
+  });
 });
\ No newline at end of file
@@ -11,6 +11,48 @@
  * The native TCP protocol (ports 9000/9440) is NOT supported.
  */
 
+/**
+ * How queries of an SSO-authenticated user reach ClickHouse:
+ * - "impersonate": the cluster's lensUser runs each statement as the mapped
+ *   user (`EXECUTE AS`, requires the IMPERSONATE grant)
+ * - "jwt": the IdP's ID token is sent as a bearer token and ClickHouse
+ *   authenticates the user itself (JWT authentication)
+ */
+export type OidcAuthMode = "impersonate" | "jwt";
+
+export const OIDC_AUTH_MODES: readonly OidcAuthMode[] = ["impersonate", "jwt"];
+
+export interface OidcClusterConfig {
+  /** Issuer URL; discovery is read from `{issuer}/.well-known/openid-configuration` */
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  /** Default: ["openid", "profile", "email"] */
+  scopes?: string[];
+  mode: OidcAuthMode;
+  /** Claim holding the ClickHouse user name. Default: "preferred_username" */
+  usernameClaim?: string;
+  /** Claim holding the user's groups. Default: "groups" */
+  groupsClaim?: string;
+  /** Claim value -> ClickHouse user */
+  userMapping?: Record<string, string>;
+  /** IdP group -> ClickHouse user; the first matching group wins */
+  groupUsers?: Record<string, string>;
+  /** IdP group -> ClickHouse roles activated for the session (jwt mode only) */
+  groupRoles?: Record<string, string[]>;
+  /**
+   * Use the claim value as the user name when no mapping matches. Default:
+   * false, since the claim is often editable by the user at the IdP and in
+   * impersonate mode would select any ClickHouse user the lens user may
+   * impersonate.
+   */
+  allowUnmappedUsers?: boolean;
+  /** Login button label. Default: "Sign in with SSO" */
+  buttonLabel?: string;
+  /** Callback URL registered at the IdP. Default: derived from the request origin */
+  redirectUri?: string;
+}
+
 export interface ClusterDefinition {
   id: string;
   label: string;
@@ -22,6 +64,8 @@ export interface ClusterDefinition {
   lensPassword: string;
   /** Optional ClickHouse cluster name override for ON CLUSTER clauses */
   clickhouseCluster?: string;
+  /** Optional OIDC single sign-on for this cluster */
+  oidc?: OidcClusterConfig;
 }
 
 export interface ClickHouseConfig {
@@ -38,6 +82,12 @@ export interface ClickHouseConfig {
   settings?: Record<string, unknown>;
   /** Cluster ID this config belongs to (for cache key isolation) */
   clusterId?: string;
+  /** Bearer token sent instead of username/password (SSO jwt mode) */
+  accessToken?: string;
+  /** Run every statement as this user (SSO impersonate mode) */
+  impersonateUser?: string;
+  /** Roles activated for each query */
+  roles?: string[];
 }
 
 /**
@@ -56,6 +106,72 @@ export function $$resetDeprecationWarning(): void {
   legacyDeprecationWarned = false;
 }
 
+function isStringRecord(value: unknown): value is Record<string, string> {
+  return (
+    !!value &&
+    typeof value === "object" &&
+    !Array.isArray(value) &&
+    Object.values(value).every((v) => typeof v === "string")
+  );
+}
+
+/**
+ * Validate the `oidc` block of a cluster entry.
+ */
+function parseOidcConfig(id: string, value: unknown): OidcClusterConfig {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error(`Cluster '${id}' has an invalid 'oidc' block`);
+  }
+  const o = value as Record<string, unknown>;
+
+  if (!o.issuer || typeof o.issuer !== "string") {
+    throw new Error(`Cluster '${id}' oidc is missing 'issuer'`);
+  }
+  if (!o.clientId || typeof o.clientId !== "string") {
+    throw new Error(`Cluster '${id}' oidc is missing 'clientId'`);
+  }
+  if (!OIDC_AUTH_MODES.includes(o.mode as OidcAuthMode)) {
+    throw new Error(`Cluster '${id}' oidc 'mode' must be one of: ${OIDC_AUTH_MODES.join(", ")}`);
+  }
+  if (o.userMapping !== undefined && !isStringRecord(o.userMapping)) {
+    throw new Error(`Cluster '${id}' oidc 'userMapping' must map strings to strings`);
+  }
+  if (o.groupUsers !== undefined && !isStringRecord(o.groupUsers)) {
+    throw new Error(`Cluster '${id}' oidc 'groupUsers' must map strings to strings`);
+  }
+  const groupRoles = o.groupRoles as Record<string, unknown> | undefined;
+  if (
+    groupRoles !== undefined &&
+    (typeof groupRoles !== "object" ||
+      Array.isArray(groupRoles) ||
+      !Object.values(groupRoles).every(
+        (roles) => Array.isArray(roles) && roles.every((r) => typeof r === "string"),
+      ))
+  ) {
+    throw new Error(`Cluster '${id}' oidc 'groupRoles' must map strings to role lists`);
+  }
+  // EXECUTE AS runs with the impersonated user's default roles only
+  if (groupRoles !== undefined && o.mode === "impersonate") {
+    throw new Error(`Cluster '${id}' oidc 'groupRoles' requires mode 'jwt'`);
+  }
+
+  return {
+    issuer: o.issuer.replace(/\/$/, ""),
+    clientId: o.clientId,
+    clientSecret: typeof o.clientSecret === "string" ? o.clientSecret : undefined,
+    scopes: Array.isArray(o.scopes) ? o.scopes.map(String) : undefined,
+    mode: o.mode as OidcAuthMode,
+    usernameClaim: typeof o.usernameClaim === "string" ? o.usernameClaim : undefined,
+    groupsClaim: typeof o.groupsClaim === "string" ? o.groupsClaim : undefined,
+    userMapping: o.userMapping as Record<string, string> | undefined,
+    groupUsers: o.groupUsers as Record<string, string> | undefined,
+    groupRoles: groupRoles as Record<string, string[]> | undefined,
+    allowUnmappedUsers: o.allowUnmappedUsers === true,
+    buttonLabel: typeof o.buttonLabel === "string" ? o.buttonLabel : undefined,
+    redirectUri: typeof o.redirectUri === "string" ? o.redirectUri : undefined,
+  };
+}
+
 /**
  * Parse CLICKHOUSE_CLUSTERS JSON env var into a map of cluster definitions.
  * Validates each entry, rejects duplicates and invalid fields.
@@ -128,6 +244,7 @@ export function parseClusterRegistry(): Map<string, ClusterDefinition> {
       clickhouseCluster: typeof e.clickhouseCluster === "string" && e.clickhouseCluster.trim()
         ? e.clickhouseCluster.trim()
         : undefined,
+      oidc: e.oidc !== undefined ? parseOidcConfig(id, e.oidc) : undefined,
     });
   }
 
@@ -192,6 +309,13 @@ export function getDefaultClusterId(): string | null {
   return clusters.length > 0 ? clusters[0].id : null;
 }
 
+/**
+ * Get the OIDC settings of a cluster, or null when SSO is not enabled for it.
+ */
+export function getClusterOidcConfig(clusterId: string): OidcClusterConfig | null {
+  return getEffectiveClusterRegistry().get(clusterId)?.oidc ?? null;
+}
+
 /**
  * Check whether a given cluster ID is configured.
  */
@@ -233,6 +357,9 @@ export function getLensConfig(clusterId: string): ClickHouseConfig | null {
 /**
  * Get user config by combining a cluster definition with session credentials.
  * Requires a clusterId — resolves from the effective cluster registry.
+ *
+ * SSO sessions carry `sso`: in impersonate mode the lens user connects and
+ * runs statements as `username`; in jwt mode `password` holds the ID token.
  */
 export function getUserConfig(
   clusterId: string,
@@ -240,22 +367,46 @@ export function getUserConfig(
     username: string;
     password: string;
     database?: string;
+    sso?: { mode: OidcAuthMode; roles?: string[] };
   },
 ): ClickHouseConfig | null {
   const registry = getEffectiveClusterRegistry();
   const def = registry.get(clusterId);
   if (!def) return null;
 
-  return {
+  const base = {
     host: def.host,
     port: def.port,
     secure: def.secure,
     verifySsl: def.verifySsl,
-    username: credentials.username,
-    password: credentials.password,
     database: credentials.database || "default",
     clusterId: def.id,
   };
+
+  if (credentials.sso?.mode === "impersonate") {
+    return {
+      ...base,
+      username: def.lensUser,
+      password: def.lensPassword,
+      impersonateUser: credentials.username,
+    };
+  }
+
+  if (credentials.sso?.mode === "jwt") {
+    return {
+      ...base,
+      username: credentials.username,
+      password: "",
+      accessToken: credentials.password,
+      roles: credentials.sso.roles?.length ? credentials.sso.roles : undefined,
+    };
+  }
+
+  return {
+    ...base,
+    username: credentials.username,
+    password: credentials.password,
+  };
 }
 
 /**
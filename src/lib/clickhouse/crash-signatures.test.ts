@@ -0,0 +1,79 @@
+import { describe, expect, test } from "bun:test";
+import {
+  getSignalName,
+  getSignatureFrames,
+  groupCrashSignatures,
+  parseStackFrame,
+  type CrashEntry,
+} from "./crash-signatures";
+
+const TRACE = [
+  "0. ./build_docker/./src/Common/StackTrace.cpp:349: StackTrace::tryCapture() @ 0x0e51c1a4 in /usr/bin/clickhouse",
+  "1. ./build_docker/./src/Daemon/BaseDaemon.cpp:187: signalHandler(int, siginfo_t*, void*) @ 0x0e7a0a1b in /usr/bin/clickhouse",
+  "2. __restore_rt @ 0x00007f1c4c44251f in ?",
+  "3. ./build_docker/./src/Client/Connection.cpp:1003: DB::Connection::receivePacket() @ 0x15f7b01c in /usr/bin/clickhouse",
+  "4. DB::MultiplexedConnections::receivePacket() @ 0x15f9a1c4 in /usr/bin/clickhouse",
+  "5. DB::RemoteQueryExecutor::read() @ 0x15c0e3a2 in /usr/bin/clickhouse",
+  "6. DB::RemoteSource::tryGenerate() @ 0x17a0b4f1 in /usr/bin/clickhouse",
+];
+
+const crash = (overrides: Partial<CrashEntry>): CrashEntry => ({
+  event_time: "2024-05-01 10:00:00",
+  event_timestamp: 1714557600,
+  hostname: "node-1",
+  signal: 11,
+  thread_id: 42,
+  query_id: "q1",
+  version: "24.3.1.1",
+  trace_full: TRACE,
+  trace: [],
+  ...overrides,
+});
+
+describe("clickhouse/crash-signatures", () => {
+  test("parses symbolized frames", () => {
+    expect(parseStackFrame(TRACE[3])).toEqual({
+      index: 3,
+      symbol: "DB::Connection::receivePacket()",
+      location: "./build_docker/./src/Client/Connection.cpp:1003",
+      address: "0x15f7b01c",
+      binary: "/usr/bin/clickhouse",
+      isHandler: false,
+    });
+    expect(parseStackFrame(TRACE[2]).isHandler).toBe(true);
+    expect(getSignalName(11)).toBe("SIGSEGV");
+    expect(getSignalName(99)).toBe("Signal 99");
+  });
+
+  test("builds signatures from the frames below the signal handler", () => {
+    expect(getSignatureFrames(crash({}))).toEqual([
+      "DB::Connection::receivePacket()",
+      "DB::MultiplexedConnections::receivePacket()",
+      "DB::RemoteQueryExecutor::read()",
+    ]);
+    expect(getSignatureFrames(crash({ trace_full: [], trace: ["0x1", "0x2"] }))).toEqual([
+      "0x1",
+      "0x2",
+    ]);
+  });
+
+  test("groups crashes by signal and top frames", () => {
+    const signatures = groupCrashSignatures([
+      crash({ event_time: "2024-05-03 10:00:00", hostname: "node-2", version: "24.4.1.1" }),
+      crash({ event_time: "2024-05-02 10:00:00", signal: 6 }),
+      crash({ event_time: "2024-05-01 10:00:00" }),
+    ]);
+
+    expect(signatures).toHaveLength(2);
+    expect(signatures[0]).toMatchObject({
+      signal: 11,
+      count: 2,
+      firstSeen: "2024-05-01 10:00:00",
+      lastSeen: "2024-05-03 10:00:00",
+      hosts: ["node-2", "node-1"],
+      versions: ["24.4.1.1", "24.3.1.1"],
+    });
+    expect(signatures[0].crashes).toHaveLength(2);
+    expect(signatures[1].signal).toBe(6);
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Crash signatures for system.crash_log
+ *
+ * Crashes are grouped by signal and the top frames of their symbolized stack
+ * trace, so repeated occurrences of the same bug show up as one entry.
+ */
+
+/** A crash_log row as read by the crashes API */
+export interface CrashEntry {
+  event_time: string;
+  /** Unix seconds, for building time ranges independent of the server timezone */
+  event_timestamp: number;
+  hostname: string;
+  signal: number;
+  thread_id: number | string;
+  query_id: string;
+  version: string;
+  /** Symbolized frames, e.g. "3. src/Foo.cpp:12: DB::Foo::bar() @ 0x15f7b01c in /usr/bin/clickhouse" */
+  trace_full: string[];
+  /** Raw frame addresses, used when trace_full is empty */
+  trace: string[];
+}
+
+export interface CrashSignature {
+  key: string;
+  signal: number;
+  /** Symbols of the frames the signature is built from */
+  frames: string[];
+  count: number;
+  firstSeen: string;
+  lastSeen: string;
+  hosts: string[];
+  versions: string[];
+  /** Most recent occurrences, newest first */
+  crashes: CrashEntry[];
+}
+
+export interface StackFrame {
+  index: number;
+  symbol: string;
+  /** Source location as "file:line" when debug info is available */
+  location?: string;
+  address?: string;
+  binary?: string;
+  /** Frame of the signal handler or abort machinery rather than the crash site */
+  isHandler: boolean;
+}
+
+/** Frames used to tell crash signatures apart */
+export const SIGNATURE_FRAME_COUNT = 3;
+
+/** Occurrences kept per signature for the detail view */
+export const SIGNATURE_CRASH_LIMIT = 20;
+
+const SIGNAL_NAMES: Record<number, string> = {
+  4: "SIGILL",
+  5: "SIGTRAP",
+  6: "SIGABRT",
+  7: "SIGBUS",
+  8: "SIGFPE",
+  9: "SIGKILL",
+  11: "SIGSEGV",
+  15: "SIGTERM",
+};
+
+// Frames above the crash site: stack capture, signal delivery and abort()
+const HANDLER_FRAME_PATTERN =
+  /StackTrace::|signalHandler|__restore_rt|__pthread_kill|^(raise|abort|gsignal)$|std::terminate|__cxa_throw|abortOnFailedAssertion/;
+
+// "N. [location: ]symbol[ @ 0xaddr][ in binary]"
+const FRAME_PATTERN =
+  /^(\d+)\.\s+(?:(\S+:\d+):\s+)?(.*?)(?:\s+@\s+(0x[0-9a-fA-F]+))?(?:\s+in\s+(\S+))?$/;
+
+export function getSignalName(signal: number): string {
+  return SIGNAL_NAMES[signal] ?? `Signal ${signal}`;
+}
+
+export function parseStackFrame(line: string, fallbackIndex = 0): StackFrame {
+  const match = line.trim().match(FRAME_PATTERN);
+  const symbol = (match ? match[3] : line).trim() || "?";
+  return {
+    index: match ? Number(match[1]) : fallbackIndex,
+    symbol,
+    location: match?.[2],
+    address: match?.[4],
+    binary: match?.[5],
+    isHandler: symbol === "?" || HANDLER_FRAME_PATTERN.test(symbol),
+  };
+}
+
+/**
+ * Frames of a crash, parsed from trace_full or, without symbols, the raw
+ * addresses of trace
+ */
+export function getStackFrames(crash: Pick<CrashEntry, "trace_full" | "trace">): StackFrame[] {
+  if (crash.trace_full.length > 0) {
+    return crash.trace_full.map((line, i) => parseStackFrame(line, i));
+  }
+  return crash.trace.map((address, i) => ({
+    index: i,
+    symbol: "?",
+    address,
+    isHandler: true,
+  }));
+}
+
+/**
+ * Top frames identifying a crash: the first frames below the signal
+ * handler, or the first raw addresses when the trace is not symbolized
+ */
+export function getSignatureFrames(crash: Pick<CrashEntry, "trace_full" | "trace">): string[] {
+  const frames = getStackFrames(crash);
+  const siteFrames = frames.filter((f) => !f.isHandler).map((f) => f.symbol);
+  if (siteFrames.length > 0) return siteFrames.slice(0, SIGNATURE_FRAME_COUNT);
+  return frames
+    .slice(0, SIGNATURE_FRAME_COUNT)
+    .map((f) => (f.symbol !== "?" ? f.symbol : f.address || "?"));
+}
+
+/**
+ * Group crashes by signature, most frequent first. Crashes are expected
+ * newest first.
+ */
+export function groupCrashSignatures(crashes: CrashEntry[]): CrashSignature[] {
+  const groups = new Map<string, CrashSignature>();
+
+  for (const crash of crashes) {
+    const frames = getSignatureFrames(crash);
+    const key = [crash.signal, ...frames].join("\n");
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        key,
+        signal: crash.signal,
+        frames,
+        count: 0,
+        firstSeen: crash.event_time,
+        lastSeen: crash.event_time,
+        hosts: [],
+        versions: [],
+        crashes: [],
+      };
+      groups.set(key, group);
+    }
+
+    group.count++;
+    if (crash.event_time < group.firstSeen) group.firstSeen = crash.event_time;
+    if (crash.event_time > group.lastSeen) group.lastSeen = crash.event_time;
+    if (!group.hosts.includes(crash.hostname)) group.hosts.push(crash.hostname);
+    if (crash.version && !group.versions.includes(crash.version)) {
+      group.versions.push(crash.version);
+    }
+    if (group.crashes.length < SIGNATURE_CRASH_LIMIT) group.crashes.push(crash);
+  }
+
+  return [...groups.values()].sort(
+    (a, b) => b.count - a.count || b.lastSeen.localeCompare(a.lastSeen),
+  );
+}
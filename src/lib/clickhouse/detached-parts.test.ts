@@ -0,0 +1,109 @@
+import { describe, expect, it } from "bun:test";
+import {
+  buildDetachedPartHostsQuery,
+  buildDetachedPartStatement,
+  buildDetachedPartsQuery,
+  buildDetachedPartsSummaryQuery,
+  canAttachDetachedPart,
+  canDropDetachedPart,
+  getDetachedPartActionSettings,
+  getDetachedPartHostsError,
+  validateDetachedPartActionRequest,
+} from "./detached-parts";
+
+describe("buildDetachedPartsQuery", () => {
+  it("reads all replicas of a cluster", () => {
+    const sql = buildDetachedPartsQuery({ clusterName: "prod" });
+    expect(sql).toContain("clusterAllReplicas('prod', system.detached_parts)");
+    expect(sql).not.toContain("WHERE");
+  });
+
+  it("filters by table with escaped values", () => {
+    const sql = buildDetachedPartsQuery({ database: "db", table: "o'brien" });
+    expect(sql).toContain("FROM system.detached_parts");
+    expect(sql).toContain("WHERE database = 'db' AND table = 'o''brien'");
+  });
+});
+
+describe("buildDetachedPartsSummaryQuery", () => {
+  it("counts broken reasons", () => {
+    const sql = buildDetachedPartsSummaryQuery();
+    expect(sql).toContain("countIf(ifNull(reason, '') IN ('broken', 'broken-on-start'");
+  });
+});
+
+describe("buildDetachedPartStatement", () => {
+  const base = { database: "db", table: "events", name: "202405_1_1_0", hostname: "node-1" };
+
+  it("attaches a part", () => {
+    expect(buildDetachedPartStatement({ ...base, action: "attach" })).toBe(
+      "ALTER TABLE `db`.`events` ATTACH PART '202405_1_1_0'",
+    );
+  });
+
+  it("drops a detached part with allow_drop_detached", () => {
+    expect(buildDetachedPartStatement({ ...base, name: "broken_202405_1_1_0", action: "drop" })).toBe(
+      "ALTER TABLE `db`.`events` DROP DETACHED PART 'broken_202405_1_1_0'",
+    );
+    expect(getDetachedPartActionSettings("drop")).toEqual({ allow_drop_detached: 1 });
+    expect(getDetachedPartActionSettings("attach")).toEqual({});
+  });
+});
+
+describe("validateDetachedPartActionRequest", () => {
+  it("requires a part name and a known action", () => {
+    expect(validateDetachedPartActionRequest({ database: "db", table: "t", action: "drop" })).toBe(
+      "Part name is required",
+    );
+    expect(
+      validateDetachedPartActionRequest({ database: "db", table: "t", name: "all_1_1_0", action: "drop" }),
+    ).toBe("Host is required");
+    expect(
+      validateDetachedPartActionRequest({
+        database: "db",
+        table: "t",
+        name: "all_1_1_0",
+        hostname: "node-1",
+        action: "freeze" as never,
+      }),
+    ).toBe("Invalid detached part action");
+  });
+});
+
+describe("detached part hosts", () => {
+  const req = {
+    database: "db",
+    table: "events",
+    name: "ignored_all_1_1_0",
+    hostname: "node-1",
+    action: "drop" as const,
+  };
+
+  it("looks the part name up on every replica without skipping unavailable ones", () => {
+    const sql = buildDetachedPartHostsQuery(req, "prod");
+    expect(sql).toContain("clusterAllReplicas('prod', system.detached_parts)");
+    expect(sql).toContain("name = 'ignored_all_1_1_0'");
+    expect(sql).not.toContain("skip_unavailable_shards");
+  });
+
+  it("allows the action only on a host that has the part", () => {
+    expect(getDetachedPartHostsError(req, ["node-1"])).toBeNull();
+    expect(getDetachedPartHostsError(req, ["node-1", "node-2"])).toBeNull();
+    expect(getDetachedPartHostsError(req, ["node-2"])).toBe(
+      "Detached part ignored_all_1_1_0 no longer exists on node-1",
+    );
+  });
+});
+
+describe("detached part action availability", () => {
+  it("attaches only user-detached parts", () => {
+    expect(canAttachDetachedPart({ reason: "" })).toBe(true);
+    expect(canAttachDetachedPart({ reason: "broken" })).toBe(false);
+  });
+
+  it("does not drop parts owned by a running query", () => {
+    expect(canDropDetachedPart({ reason: "unexpected" })).toBe(true);
+    expect(canDropDetachedPart({ reason: "attaching" })).toBe(false);
+    expect(canDropDetachedPart({ reason: "deleting" })).toBe(false);
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Detached parts inspector
+ *
+ * Lists system.detached_parts across replicas and builds the ATTACH PART and
+ * DROP DETACHED PART statements used to reattach or clean them up. Detached
+ * parts live on one replica's disk, so actions on a cluster go through
+ * ON CLUSTER and succeed on the replica that holds the part. Every replica
+ * with a detached part of that name would run it, so an action is refused
+ * unless the name exists only on the selected host.
+ */
+
+import { escapeSqlString, quoteIdentifier } from "./utils";
+
+export interface DetachedPart {
+  hostname: string;
+  database: string;
+  table: string;
+  partition_id: string;
+  name: string;
+  /** Empty for parts detached by a user */
+  reason: string;
+  disk: string;
+  path: string;
+  bytes_on_disk: number;
+  modification_time: string;
+  age_seconds: number;
+}
+
+export interface DetachedPartsSummary {
+  parts: number;
+  bytes: number;
+  /** Parts detached by the server after a check or on startup */
+  broken: number;
+}
+
+export interface DetachedPartsQueryOptions {
+  clusterName?: string;
+  /** Unescaped; optional filters for the table explorer */
+  database?: string;
+  table?: string;
+  limit?: number;
+}
+
+export const DETACHED_PART_ACTIONS = ["attach", "drop"] as const;
+
+export type DetachedPartAction = (typeof DETACHED_PART_ACTIONS)[number];
+
+export interface DetachedPartActionRequest {
+  database: string;
+  table: string;
+  name: string;
+  /** Replica holding the part, as reported by hostName() */
+  hostname: string;
+  action: DetachedPartAction;
+}
+
+/** Result row of a distributed DDL query with distributed_ddl_output_mode = 'never_throw' */
+export const DETACHED_PARTS_LIMIT = 1000;
+
+/** Reasons the server uses for parts it could not load or verify */
+export const BROKEN_DETACHED_REASONS = [
+  "broken",
+  "broken-on-start",
+  "broken-from-backup",
+  "unexpected",
+  "noquorum",
+  "covered-by-broken",
+];
+
+/** Parts a running ATTACH or DROP DETACHED owns; ClickHouse refuses to drop them */
+const BUSY_DETACHED_REASONS = ["attaching", "deleting"];
+
+/** Display label for a detach reason */
+export function getDetachedReasonLabel(reason: string): string {
+  return reason || "user";
+}
+
+/** ATTACH PART takes a plain part name, which only user-detached parts have */
+export function canAttachDetachedPart(part: Pick<DetachedPart, "reason">): boolean {
+  return part.reason === "";
+}
+
+export function canDropDetachedPart(part: Pick<DetachedPart, "reason">): boolean {
+  return !BUSY_DETACHED_REASONS.includes(part.reason);
+}
+
+function detachedPartsSource(clusterName?: string): string {
+  return clusterName
+    ? `clusterAllReplicas('${clusterName}', system.detached_parts)`
+    : "system.detached_parts";
+}
+
+export function buildDetachedPartsQuery(options: DetachedPartsQueryOptions = {}): string {
+  const { clusterName, database, table, limit = DETACHED_PARTS_LIMIT } = options;
+  const conditions: string[] = [];
+  if (database) conditions.push(`database = '${escapeSqlString(database)}'`);
+  if (table) conditions.push(`table = '${escapeSqlString(table)}'`);
+
+  return `
+SELECT
+  hostName() as hostname,
+  database,
+  table,
+  ifNull(partition_id, '') as partition_id,
+  name,
+  ifNull(reason, '') as reason,
+  disk,
+  path,
+  bytes_on_disk,
+  toString(modification_time) as modification_time,
+  dateDiff('second', modification_time, now()) as age_seconds
+FROM ${detachedPartsSource(clusterName)}
+${conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : ""}
+ORDER BY modification_time DESC
+LIMIT ${limit}
+SETTINGS skip_unavailable_shards = 1
+`;
+}
+
+/** Totals for the health checks */
+export function buildDetachedPartsSummaryQuery(clusterName?: string): string {
+  const broken = BROKEN_DETACHED_REASONS.map((r) => `'${r}'`).join(", ");
+  return `
+SELECT
+  count() as parts,
+  sum(bytes_on_disk) as bytes,
+  countIf(ifNull(reason, '') IN (${broken})) as broken
+FROM ${detachedPartsSource(clusterName)}
+SETTINGS skip_unavailable_shards = 1
+`;
+}
+
+export function validateDetachedPartActionRequest(
+  req: Partial<DetachedPartActionRequest>,
+): string | null {
+  if (!req.database || !req.table) {
+    return "Database and table are required";
+  }
+  if (!req.name) {
+    return "Part name is required";
+  }
+  if (!req.hostname) {
+    return "Host is required";
+  }
+  if (!req.action || !DETACHED_PART_ACTIONS.includes(req.action)) {
+    return "Invalid detached part action";
+  }
+  return null;
+}
+
+/**
+ * Hosts that have a detached part with the request's name. Unlike the list
+ * query this fails when a replica is unreachable, since that replica would
+ * still run the ON CLUSTER statement once it is back.
+ */
+export function buildDetachedPartHostsQuery(
+  req: DetachedPartActionRequest,
+  clusterName: string,
+): string {
+  return `
+SELECT DISTINCT hostName() as hostname
+FROM ${detachedPartsSource(clusterName)}
+WHERE database = '${escapeSqlString(req.database)}'
+  AND table = '${escapeSqlString(req.table)}'
+  AND name = '${escapeSqlString(req.name)}'
+`;
+}
+
+/**
+ * Why the action cannot run on the selected host, given the hosts holding a
+ * detached part of that name, or null when the selected host has it. The
+ * statement is sent to that host, so only hosts of the cluster qualify.
+ */
+export function getDetachedPartHostsError(
+  req: DetachedPartActionRequest,
+  hosts: string[],
+): string | null {
+  if (!hosts.includes(req.hostname)) {
+    return `Detached part ${req.name} no longer exists on ${req.hostname}`;
+  }
+  return null;
+}
+
+/**
+ * SQL for a detached part action. It runs on the host holding the part and
+ * never ON CLUSTER: for Replicated tables, distributed DDL runs an ALTER on
+ * one replica per shard, which need not be the one with the part.
+ */
+export function buildDetachedPartStatement(req: DetachedPartActionRequest): string {
+  const table = `${quoteIdentifier(req.database)}.${quoteIdentifier(req.table)}`;
+  const part = `'${escapeSqlString(req.name)}'`;
+
+  return req.action === "attach"
+    ? `ALTER TABLE ${table} ATTACH PART ${part}`
+    : `ALTER TABLE ${table} DROP DETACHED PART ${part}`;
+}
+
+/** Settings the statement needs; DROP DETACHED is disabled by default */
+export function getDetachedPartActionSettings(
+  action: DetachedPartAction,
+): Record<string, unknown> {
+  return action === "drop" ? { allow_drop_detached: 1 } : {};
+}
@@ -0,0 +1,84 @@
+import { describe, expect, test } from "bun:test";
+import {
+  buildFieldStats,
+  getFieldStatsKind,
+  getFieldSummaryQuery,
+  getFieldTopValuesQuery,
+} from "./field-stats";
+
+const base = {
+  tableSource: "`logs`.`requests`",
+  column: "`status`",
+  whereClause: "WHERE (`host` = 'api')",
+  sampleRows: 0,
+};
+
+describe("clickhouse/field-stats", () => {
+  test("getFieldStatsKind unwraps Nullable and LowCardinality", () => {
+    expect(getFieldStatsKind("Nullable(UInt16)")).toBe("numeric");
+    expect(getFieldStatsKind("Decimal(18, 2)")).toBe("numeric");
+    expect(getFieldStatsKind("DateTime64(3, 'UTC')")).toBe("datetime");
+    expect(getFieldStatsKind("LowCardinality(Nullable(String))")).toBe("other");
+  });
+
+  test("summarizes numeric columns with quantiles and a histogram", () => {
+    const sql = getFieldSummaryQuery({ ...base, type: "Nullable(UInt16)" });
+    expect(sql).toContain("count() AS total");
+    expect(sql).toContain("uniq(`status`) AS cardinality");
+    expect(sql).toContain("countIf(isNull(`status`)) AS null_count");
+    expect(sql).toContain("quantiles(0.5, 0.9, 0.99)(`status`)");
+    expect(sql).toContain("histogram(20)(toFloat64(`status`))");
+    expect(sql).not.toContain("SAMPLE");
+  });
+
+  test("skips the distribution for other columns", () => {
+    const sql = getFieldSummaryQuery({ ...base, column: "`host`", type: "String" });
+    expect(sql).toContain("0 AS null_count");
+    expect(sql).not.toContain("quantiles");
+  });
+
+  test("samples and scales counts when sampling is enabled", () => {
+    const options = { ...base, type: "DateTime", sampleRows: 1_000_000 };
+    const summary = getFieldSummaryQuery(options);
+    expect(summary).toContain("sum(_sample_factor) AS total");
+    expect(summary).toContain("FROM `logs`.`requests` SAMPLE 1000000 WHERE");
+    expect(summary).toContain("toUnixTimestamp64Milli(toDateTime64(`status`, 3))");
+
+    expect(getFieldTopValuesQuery(options, 10)).toBe(
+      "SELECT `status` AS value, sum(_sample_factor) AS count FROM `logs`.`requests` SAMPLE 1000000 WHERE (`host` = 'api') GROUP BY value ORDER BY count DESC LIMIT 10",
+    );
+  });
+
+  test("buildFieldStats computes ratios and parses the distribution", () => {
+    const stats = buildFieldStats(
+      "Nullable(UInt16)",
+      {
+        total: "200",
+        cardinality: "3",
+        null_count: "50",
+        min: 200,
+        max: 503,
+        quantiles: [200, 500, 503],
+        histogram: [[200, 250, 120], [450, 503, 30]],
+      },
+      [
+        { value: 200, count: "120" },
+        { value: null, count: "50" },
+      ],
+      false,
+    );
+
+    expect(stats.total).toBe(200);
+    expect(stats.nullRatio).toBe(0.25);
+    expect(stats.topValues[0]).toEqual({ value: 200, count: 120, percent: 60 });
+    expect(stats.distribution?.quantiles).toEqual({ p50: 200, p90: 500, p99: 503 });
+    expect(stats.distribution?.histogram[1]).toEqual({ lower: 450, upper: 503, count: 30 });
+  });
+
+  test("buildFieldStats handles empty results", () => {
+    const stats = buildFieldStats("UInt8", undefined, [], true);
+    expect(stats.total).toBe(0);
+    expect(stats.nullRatio).toBe(0);
+    expect(stats.distribution).toBeUndefined();
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Field statistics for the Discover fields sidebar
+ *
+ * Builds the summary and top values queries for a single column and turns
+ * their rows into FieldStats. On sampled tables counts are scaled with
+ * _sample_factor, so totals and percentages are estimates.
+ */
+
+/** How a column's values are summarized */
+export type FieldStatsKind = "numeric" | "datetime" | "other";
+
+export interface FieldStatsQueryOptions {
+  /** FROM target, already quoted */
+  tableSource: string;
+  /** Quoted column name */
+  column: string;
+  /** ClickHouse type of the column */
+  type: string;
+  /** WHERE clause including the keyword, or "" */
+  whereClause: string;
+  /** Approximate number of rows to read with SAMPLE; 0 disables sampling */
+  sampleRows: number;
+}
+
+export interface FieldStatsValue {
+  value: unknown;
+  count: number;
+  /** Share of all rows in percent */
+  percent: number;
+}
+
+export interface FieldStatsBucket {
+  lower: number;
+  upper: number;
+  count: number;
+}
+
+export interface FieldStats {
+  kind: FieldStatsKind;
+  total: number;
+  cardinality: number;
+  nullCount: number;
+  nullRatio: number;
+  sampled: boolean;
+  topValues: FieldStatsValue[];
+  /** Range of numeric and DateTime columns */
+  distribution?: {
+    min: unknown;
+    max: unknown;
+    quantiles: { p50: unknown; p90: unknown; p99: unknown };
+    /** Adaptive histogram; DateTime bounds are Unix milliseconds */
+    histogram: FieldStatsBucket[];
+  };
+}
+
+const HISTOGRAM_BINS = 20;
+
+function unwrapType(type: string): string {
+  let inner = type.trim();
+  let match = inner.match(/^(?:Nullable|LowCardinality)\((.*)\)$/);
+  while (match) {
+    inner = match[1];
+    match = inner.match(/^(?:Nullable|LowCardinality)\((.*)\)$/);
+  }
+  return inner;
+}
+
+export function getFieldStatsKind(type: string): FieldStatsKind {
+  const inner = unwrapType(type);
+  if (/^(U?Int\d+|Float\d+|Decimal)/.test(inner)) return "numeric";
+  if (/^Date/.test(inner)) return "datetime";
+  return "other";
+}
+
+function isNullable(type: string): boolean {
+  return /(^|\()Nullable\(/.test(type.trim());
+}
+
+function sampleClause(sampleRows: number): string {
+  return sampleRows > 0 ? `SAMPLE ${Math.floor(sampleRows)}` : "";
+}
+
+function countExpr(sampleRows: number): string {
+  return sampleRows > 0 ? "sum(_sample_factor)" : "count()";
+}
+
+/**
+ * Row count, cardinality and null count, plus min/max/quantiles and a
+ * histogram for numeric and DateTime columns
+ */
+export function getFieldSummaryQuery(options: FieldStatsQueryOptions): string {
+  const { tableSource, column, type, whereClause, sampleRows } = options;
+  const kind = getFieldStatsKind(type);
+
+  const nullExpr = isNullable(type)
+    ? sampleRows > 0
+      ? `sumIf(_sample_factor, isNull(${column}))`
+      : `countIf(isNull(${column}))`
+    : "0";
+
+  const selects = [
+    `${countExpr(sampleRows)} AS total`,
+    `uniq(${column}) AS cardinality`,
+    `${nullExpr} AS null_count`,
+  ];
+
+  if (kind !== "other") {
+    const numericValue =
+      kind === "numeric"
+        ? `toFloat64(${column})`
+        : `toFloat64(toUnixTimestamp64Milli(toDateTime64(${column}, 3)))`;
+    selects.push(
+      `min(${column}) AS min`,
+      `max(${column}) AS max`,
+      `quantiles(0.5, 0.9, 0.99)(${column}) AS quantiles`,
+      `histogram(${HISTOGRAM_BINS})(${numericValue}) AS histogram`,
+    );
+  }
+
+  return `SELECT ${selects.join(", ")} FROM ${tableSource} ${sampleClause(sampleRows)} ${whereClause}`;
+}
+
+/**
+ * Most frequent values of the column
+ */
+export function getFieldTopValuesQuery(
+  options: FieldStatsQueryOptions,
+  limit: number,
+): string {
+  const { tableSource, column, whereClause, sampleRows } = options;
+  return `SELECT ${column} AS value, ${countExpr(sampleRows)} AS count FROM ${tableSource} ${sampleClause(sampleRows)} ${whereClause} GROUP BY value ORDER BY count DESC LIMIT ${Math.floor(limit)}`;
+}
+
+export interface FieldSummaryRow {
+  total: number | string;
+  cardinality: number | string;
+  null_count: number | string;
+  min?: unknown;
+  max?: unknown;
+  quantiles?: unknown[];
+  histogram?: [number, number, number][];
+}
+
+/**
+ * Combine the summary and top values rows into FieldStats
+ */
+export function buildFieldStats(
+  type: string,
+  summary: FieldSummaryRow | undefined,
+  topValues: { value: unknown; count: number | string }[],
+  sampled: boolean,
+): FieldStats {
+  const kind = getFieldStatsKind(type);
+  const total = Math.round(Number(summary?.total ?? 0));
+  const nullCount = Math.round(Number(summary?.null_count ?? 0));
+  const percentOf = (count: number) => (total > 0 ? (count / total) * 100 : 0);
+
+  const stats: FieldStats = {
+    kind,
+    total,
+    cardinality: Number(summary?.cardinality ?? 0),
+    nullCount,
+    nullRatio: total > 0 ? nullCount / total : 0,
+    sampled,
+    topValues: topValues.map((row) => {
+      const count = Math.round(Number(row.count));
+      return { value: row.value, count, percent: percentOf(count) };
+    }),
+  };
+
+  if (kind !== "other" && summary && total > nullCount) {
+    const [p50, p90, p99] = summary.quantiles ?? [];
+    stats.distribution = {
+      min: summary.min,
+      max: summary.max,
+      quantiles: { p50, p90, p99 },
+      histogram: (summary.histogram ?? []).map(([lower, upper, count]) => ({
+        lower: Number(lower),
+        upper: Number(upper),
+        count: Number(count),
+      })),
+    };
+  }
+
+  return stats;
+}
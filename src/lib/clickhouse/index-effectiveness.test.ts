@@ -0,0 +1,76 @@
+import { describe, expect, it } from "bun:test";
+import {
+  extractExpressionColumns,
+  getIndexStatus,
+  getMarkPruningRatio,
+  parseProjectionDefinitions,
+} from "./index-effectiveness";
+
+const usage = (queries: number, pruning: number, selected: number, total: number) => ({
+  queries,
+  pruning_queries: pruning,
+  selected_marks: selected,
+  total_marks: total,
+  selected_parts: 0,
+  total_parts: 0,
+});
+
+describe("extractExpressionColumns", () => {
+  it("finds table columns in function calls and quoted names", () => {
+    expect(
+      extractExpressionColumns("lower(`user id`), cityHash64(url)", ["url", "user id", "ts"]),
+    ).toEqual(["user id", "url"]);
+  });
+
+  it("ignores string literals, functions and repeats", () => {
+    expect(
+      extractExpressionColumns("if(status = 'url', status, lower('x'))", ["status", "url", "lower"]),
+    ).toEqual(["status", "lower"]);
+    expect(extractExpressionColumns("tokens(message)", ["id"])).toEqual([]);
+  });
+});
+
+describe("parseProjectionDefinitions", () => {
+  it("extracts normal and aggregate projections", () => {
+    const ddl =
+      "CREATE TABLE db.events (`id` UInt64, `name` String, " +
+      "PROJECTION by_name (SELECT * ORDER BY name), " +
+      "PROJECTION `daily counts` (SELECT toDate(ts), count() GROUP BY toDate(ts))) " +
+      "ENGINE = MergeTree ORDER BY id";
+
+    expect(parseProjectionDefinitions(ddl)).toEqual([
+      { name: "by_name", query: "SELECT * ORDER BY name", kind: "normal" },
+      {
+        name: "daily counts",
+        query: "SELECT toDate(ts), count() GROUP BY toDate(ts)",
+        kind: "aggregate",
+      },
+    ]);
+  });
+
+  it("keeps parentheses inside string literals", () => {
+    expect(
+      parseProjectionDefinitions(
+        "CREATE TABLE t (`s` String, PROJECTION p (SELECT * WHERE s != ')' ORDER BY s)) ENGINE = MergeTree",
+      )[0].query,
+    ).toBe("SELECT * WHERE s != ')' ORDER BY s");
+    expect(parseProjectionDefinitions("CREATE TABLE t (`id` UInt64) ENGINE = Log")).toEqual([]);
+  });
+});
+
+describe("getIndexStatus", () => {
+  it("flags indexes whose queries never skip a mark", () => {
+    expect(getIndexStatus(undefined)).toBe("unused");
+    expect(getIndexStatus(usage(0, 0, 0, 0))).toBe("unused");
+    expect(getIndexStatus(usage(12, 0, 480, 480))).toBe("no_pruning");
+    expect(getIndexStatus(usage(12, 3, 400, 480))).toBe("pruning");
+  });
+});
+
+describe("getMarkPruningRatio", () => {
+  it("returns the share of skipped marks", () => {
+    expect(getMarkPruningRatio(usage(4, 4, 25, 100))).toBe(0.75);
+    expect(getMarkPruningRatio(usage(0, 0, 0, 0))).toBeNull();
+    expect(getMarkPruningRatio(null)).toBeNull();
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Skip index and projection effectiveness
+ *
+ * query_log has no per-index counters, so an index is judged by the recent
+ * SELECTs that read any of its columns: SelectedMarks against
+ * SelectedMarksTotal shows how much of the table they skipped. The primary
+ * key prunes too, so the ratio is an upper bound for the index, but an
+ * index whose queries never skipped a mark certainly pruned nothing.
+ */
+
+export interface IndexUsage {
+  queries: number;
+  /** Queries that read fewer marks than the table has */
+  pruning_queries: number;
+  selected_marks: number;
+  total_marks: number;
+  selected_parts: number;
+  total_parts: number;
+}
+
+/**
+ * unused: no recent query read the index's columns
+ * no_pruning: queries read its columns but never skipped a mark
+ * pruning: some of those queries skipped marks
+ */
+export type IndexStatus = "unused" | "no_pruning" | "pruning";
+
+export interface SkipIndexInfo {
+  name: string;
+  type: string;
+  expr: string;
+  granularity: number;
+  data_compressed_bytes: number;
+  data_uncompressed_bytes: number;
+  marks_bytes: number;
+  /** Table columns the expression reads */
+  columns: string[];
+  /** null when query_log could not be read */
+  usage: IndexUsage | null;
+  status: IndexStatus | null;
+}
+
+export interface ProjectionDefinition {
+  name: string;
+  query: string;
+  /** Aggregate projections have a GROUP BY */
+  kind: "normal" | "aggregate";
+}
+
+export interface ProjectionInfo extends ProjectionDefinition {
+  parts: number;
+  rows: number;
+  bytes_on_disk: number;
+  data_compressed_bytes: number;
+  data_uncompressed_bytes: number;
+  /** Recent queries that read from it; null when query_log could not be read */
+  queries: number | null;
+  last_used: string | null;
+}
+
+export const INDEX_USAGE_DEFAULT_DAYS = 7;
+export const INDEX_USAGE_MAX_DAYS = 30;
+
+const STRING_LITERAL = /'(?:[^'\\]|\\.|'')*'/g;
+const IDENTIFIER = /`((?:[^`]|``)+)`|[A-Za-z_][A-Za-z0-9_.]*/g;
+
+/** Columns of the table an index expression reads, in order of appearance */
+export function extractExpressionColumns(expr: string, columns: string[]): string[] {
+  const known = new Set(columns);
+  const found: string[] = [];
+  const code = expr.replace(STRING_LITERAL, "''");
+
+  for (const match of code.matchAll(IDENTIFIER)) {
+    const name = match[1] !== undefined ? match[1].replace(/``/g, "`") : match[0];
+    if (known.has(name) && !found.includes(name)) found.push(name);
+  }
+  return found;
+}
+
+/** Index of the parenthesis closing the one at `open`, skipping string literals */
+function findClosingParen(sql: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < sql.length; i++) {
+    const ch = sql[i];
+    if (ch === "'" || ch === "`") {
+      // Skip to the end of the literal or quoted name
+      for (i++; i < sql.length && sql[i] !== ch; i++) {
+        if (sql[i] === "\\") i++;
+      }
+    } else if (ch === "(") {
+      depth++;
+    } else if (ch === ")") {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+}
+
+/** Projections declared in a CREATE TABLE statement */
+export function parseProjectionDefinitions(createTableQuery: string): ProjectionDefinition[] {
+  const definitions: ProjectionDefinition[] = [];
+  const pattern = /\bPROJECTION\s+(`(?:[^`]|``)+`|[A-Za-z_][A-Za-z0-9_]*)\s*\(/gi;
+
+  for (const match of createTableQuery.matchAll(pattern)) {
+    const open = (match.index ?? 0) + match[0].length - 1;
+    const close = findClosingParen(createTableQuery, open);
+    if (close < 0) continue;
+
+    const rawName = match[1];
+    const name = rawName.startsWith("`") ? rawName.slice(1, -1).replace(/``/g, "`") : rawName;
+    const query = createTableQuery.slice(open + 1, close).trim();
+    definitions.push({
+      name,
+      query,
+      kind: /\bGROUP\s+BY\b/i.test(query) ? "aggregate" : "normal",
+    });
+  }
+  return definitions;
+}
+
+export function getIndexStatus(usage: IndexUsage | undefined): IndexStatus {
+  if (!usage || usage.queries === 0) return "unused";
+  return usage.pruning_queries === 0 ? "no_pruning" : "pruning";
+}
+
+/** Share of marks the queries skipped, or null without data */
+export function getMarkPruningRatio(usage: IndexUsage | null | undefined): number | null {
+  if (!usage || usage.total_marks <= 0) return null;
+  return 1 - usage.selected_marks / usage.total_marks;
+}
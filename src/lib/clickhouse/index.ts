@@ -4,10 +4,16 @@ export type {
   ClickHouseQueryResult,
   ClickHouseClient,
   ClickHouseStatistics,
+  ClickHouseExportFormat,
+  ClickHouseRawStream,
 } from "./clients/types";
 export type { ClickHouseConfig } from "./config";
 export * from "./types";
-export type { ClusterDefinition } from "./config";
+export type {
+  ClusterDefinition,
+  OidcClusterConfig,
+  OidcAuthMode,
+} from "./config";
 export {
   getLensConfig,
   getUserConfig,
@@ -18,4 +24,5 @@ export {
   getConfiguredClusters,
   getDefaultClusterId,
   isClusterConfigured,
+  getClusterOidcConfig,
 } from "./config";
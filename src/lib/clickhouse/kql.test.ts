@@ -0,0 +1,131 @@
+import { describe, expect, test } from "bun:test";
+import { compileKql, KqlSyntaxError, parseKql, type KqlColumn } from "./kql";
+
+const columns: KqlColumn[] = [
+  { name: "status", type: "UInt16" },
+  { name: "host", type: "LowCardinality(String)" },
+  { name: "level", type: "Enum8('debug' = 1, 'info' = 2, 'error' = 3)" },
+  { name: "message", type: "String", tokenIndexed: true },
+  { name: "user", type: "Nullable(String)" },
+  { name: "tags", type: "Array(String)" },
+  { name: "attributes", type: "Map(String, String)" },
+  { name: "timestamp", type: "DateTime64(3)" },
+];
+
+function syntaxError(fn: () => unknown): KqlSyntaxError {
+  try {
+    fn();
+  } catch (error) {
+    if (error instanceof KqlSyntaxError) return error;
+    throw error;
+  }
+  throw new Error("Expected a KqlSyntaxError");
+}
+
+describe("KQL", () => {
+  test("compiles the Kibana-style example", () => {
+    expect(
+      compileKql("status:>=400 AND host:api* AND NOT level:debug", columns),
+    ).toBe(
+      "(`status` >= 400 AND `host` LIKE 'api%' AND NOT (`level` = 'debug'))",
+    );
+  });
+
+  test("supports ranges with and without a colon", () => {
+    expect(compileKql("status >= 400 status<500", columns)).toBe(
+      "(`status` >= 400 AND `status` < 500)",
+    );
+    expect(compileKql('timestamp > "2024-01-01 00:00:00"', columns)).toBe(
+      "`timestamp` > '2024-01-01 00:00:00'",
+    );
+  });
+
+  test("respects precedence and value groups", () => {
+    expect(compileKql("host:a OR host:b AND status:200", columns)).toBe(
+      "(`host` = 'a' OR (`host` = 'b' AND `status` = 200))",
+    );
+    expect(compileKql("level:(error OR info)", columns)).toBe(
+      "(`level` = 'error' OR `level` = 'info')",
+    );
+  });
+
+  test("quotes values safely", () => {
+    expect(compileKql(`host:"x' OR 1=1 --"`, columns)).toBe(
+      "`host` = 'x'' OR 1=1 --'",
+    );
+    expect(compileKql("host:100%_done*", columns)).toBe(
+      "`host` LIKE '100\\\\%\\\\_done%'",
+    );
+  });
+
+  test("adds hasToken for pruning on token-indexed columns", () => {
+    expect(compileKql("message:timeout", columns)).toBe(
+      "(hasToken(`message`, 'timeout') AND `message` = 'timeout')",
+    );
+    expect(compileKql('message:"connection reset"', columns)).toBe(
+      "(hasToken(`message`, 'connection') AND hasToken(`message`, 'reset') AND `message` = 'connection reset')",
+    );
+    // Same rows as on a column without the index
+    expect(compileKql("message:timeout", [{ name: "message", type: "String" }])).toBe(
+      "`message` = 'timeout'",
+    );
+  });
+
+  test("handles exists, arrays and map keys", () => {
+    expect(compileKql("user:*", columns)).toBe("isNotNull(`user`)");
+    expect(compileKql("tags:prod", columns)).toBe("has(`tags`, 'prod')");
+    expect(compileKql("attributes.http.method:GET", columns)).toBe(
+      "`attributes`['http.method'] = 'GET'",
+    );
+  });
+
+  test("searches string columns for free text", () => {
+    expect(compileKql("timeout", columns)).toBe(
+      "(hasTokenCaseInsensitive(`host`, 'timeout') OR hasTokenCaseInsensitive(`message`, 'timeout') OR hasTokenCaseInsensitive(`user`, 'timeout'))",
+    );
+    expect(compileKql('"read timeout"', [{ name: "msg", type: "String" }])).toBe(
+      "`msg` ILIKE '%read timeout%'",
+    );
+    expect(compileKql("timeout", [{ name: "n", type: "UInt8" }])).toBe("0");
+  });
+
+  test("reports syntax errors with positions", () => {
+    expect(parseKql("   ")).toBeNull();
+
+    const cases: [string, number, string][] = [
+      ["status:", 7, "Expected a value"],
+      ["(host:a", 7, 'Expected ")"'],
+      ['host:"open', 5, "Unterminated"],
+      ["host:a OR", 9, "Expected a field or value"],
+      ["host:a )", 7, "Unexpected"],
+    ];
+    for (const [query, position, message] of cases) {
+      const error = syntaxError(() => parseKql(query));
+      expect(error.position).toBe(position);
+      expect(error.message).toContain(message);
+    }
+  });
+
+  test("limits nesting depth", () => {
+    expect(parseKql(`${"(".repeat(100)}a${")".repeat(100)}`)).not.toBeNull();
+    expect(parseKql(`${"NOT ".repeat(100)}a`)).not.toBeNull();
+
+    const groups = syntaxError(() => parseKql(`${"(".repeat(5000)}a${")".repeat(5000)}`));
+    expect(groups.message).toContain("nested more than 100 levels");
+    expect(groups.position).toBe(100);
+
+    const nots = syntaxError(() => parseKql(`${"NOT ".repeat(5000)}a`));
+    expect(nots.position).toBe(400);
+  });
+
+  test("reports fields and values that do not fit the schema", () => {
+    const unknown = syntaxError(() => compileKql("level:error AND hots:a", columns));
+    expect(unknown.message).toBe('Unknown field "hots" at column 17');
+    expect(unknown.position).toBe(16);
+
+    expect(syntaxError(() => compileKql("status:abc", columns)).position).toBe(7);
+    expect(syntaxError(() => compileKql("status:4*", columns)).message).toContain(
+      "Wildcards are not supported",
+    );
+  });
+});
@@ -0,0 +1,586 @@
+/**
+ * KQL for Discover
+ * Parses Kibana-style queries such as
+ * `status >= 400 AND host:api* AND NOT level:debug` and compiles them to a
+ * ClickHouse WHERE expression. Field names are resolved against the table
+ * columns, and every value is emitted as a quoted literal.
+ */
+
+import { quoteIdentifier, escapeSqlString } from "./utils";
+
+/**
+ * Column the compiler may reference
+ */
+export interface KqlColumn {
+  name: string;
+  type: string;
+  /** Column has a tokenbf_v1 / text skip index, so hasToken can prune granules */
+  tokenIndexed?: boolean;
+}
+
+/**
+ * Parse or compile error; `position` is the 0-based offset in the query
+ */
+export class KqlSyntaxError extends Error {
+  public readonly position: number;
+
+  constructor(message: string, position: number) {
+    super(`${message} at column ${position + 1}`);
+    this.name = "KqlSyntaxError";
+    this.position = position;
+  }
+}
+
+export type KqlRangeOperator = ">" | ">=" | "<" | "<=";
+
+export interface KqlValue {
+  text: string;
+  quoted: boolean;
+  position: number;
+}
+
+export interface KqlField {
+  name: string;
+  position: number;
+}
+
+export type KqlNode =
+  | { type: "and" | "or"; children: KqlNode[] }
+  | { type: "not"; child: KqlNode }
+  /** field is null for free text */
+  | { type: "match"; field: KqlField | null; value: KqlValue }
+  | { type: "range"; field: KqlField; operator: KqlRangeOperator; value: KqlValue };
+
+type TokenType =
+  | "lparen"
+  | "rparen"
+  | "colon"
+  | "operator"
+  | "and"
+  | "or"
+  | "not"
+  | "word"
+  | "quoted"
+  | "eof";
+
+interface Token {
+  type: TokenType;
+  text: string;
+  position: number;
+}
+
+const WORD_BREAK = /[\s():"<>]/;
+
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const char = query[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === "(" || char === ")" || char === ":") {
+      tokens.push({
+        type: char === "(" ? "lparen" : char === ")" ? "rparen" : "colon",
+        text: char,
+        position: i,
+      });
+      i++;
+      continue;
+    }
+
+    if (char === "<" || char === ">") {
+      const operator = query[i + 1] === "=" ? `${char}=` : char;
+      tokens.push({ type: "operator", text: operator, position: i });
+      i += operator.length;
+      continue;
+    }
+
+    if (char === '"') {
+      const start = i;
+      let text = "";
+      i++;
+      while (i < query.length && query[i] !== '"') {
+        if (query[i] === "\\" && i + 1 < query.length) i++;
+        text += query[i];
+        i++;
+      }
+      if (i >= query.length) {
+        throw new KqlSyntaxError("Unterminated quoted string", start);
+      }
+      i++;
+      tokens.push({ type: "quoted", text, position: start });
+      continue;
+    }
+
+    const start = i;
+    let text = "";
+    while (i < query.length && !WORD_BREAK.test(query[i])) {
+      if (query[i] === "\\" && i + 1 < query.length) i++;
+      text += query[i];
+      i++;
+    }
+
+    const keyword = query.slice(start, i).toUpperCase();
+    tokens.push({
+      type:
+        keyword === "AND"
+          ? "and"
+          : keyword === "OR"
+            ? "or"
+            : keyword === "NOT"
+              ? "not"
+              : "word",
+      text,
+      position: start,
+    });
+  }
+
+  tokens.push({ type: "eof", text: "", position: query.length });
+  return tokens;
+}
+
+function describeToken(token: Token): string {
+  return token.type === "eof" ? "end of query" : `"${token.text}"`;
+}
+
+// Deepest nesting of groups and NOTs accepted, so the recursive descent
+// cannot overflow the stack
+const MAX_NESTING_DEPTH = 100;
+
+class Parser {
+  private index = 0;
+  private depth = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): KqlNode {
+    const node = this.parseOr(null);
+    const next = this.peek();
+    if (next.type !== "eof") {
+      throw new KqlSyntaxError(`Unexpected ${describeToken(next)}`, next.position);
+    }
+    return node;
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    this.index++;
+    return token;
+  }
+
+  private expect(type: TokenType, description: string): Token {
+    const token = this.peek();
+    if (token.type !== type) {
+      throw new KqlSyntaxError(
+        `Expected ${description} but found ${describeToken(token)}`,
+        token.position,
+      );
+    }
+    return this.next();
+  }
+
+  /** Parse a group or NOT operand one nesting level deeper */
+  private nested(token: Token, parse: () => KqlNode): KqlNode {
+    if (this.depth >= MAX_NESTING_DEPTH) {
+      throw new KqlSyntaxError(
+        `Query is nested more than ${MAX_NESTING_DEPTH} levels deep`,
+        token.position,
+      );
+    }
+    this.depth++;
+    try {
+      return parse();
+    } finally {
+      this.depth--;
+    }
+  }
+
+  /**
+   * `field` is set inside `field:(...)` groups, where bare values match
+   * that field
+   */
+  private parseOr(field: KqlField | null): KqlNode {
+    const children = [this.parseAnd(field)];
+    while (this.peek().type === "or") {
+      this.next();
+      children.push(this.parseAnd(field));
+    }
+    return children.length === 1 ? children[0] : { type: "or", children };
+  }
+
+  private parseAnd(field: KqlField | null): KqlNode {
+    const children = [this.parseNot(field)];
+    for (;;) {
+      const token = this.peek();
+      if (token.type === "and") {
+        this.next();
+      } else if (!["word", "quoted", "lparen", "not"].includes(token.type)) {
+        break;
+      }
+      // Terms written next to each other must all match
+      children.push(this.parseNot(field));
+    }
+    return children.length === 1 ? children[0] : { type: "and", children };
+  }
+
+  private parseNot(field: KqlField | null): KqlNode {
+    if (this.peek().type === "not") {
+      const token = this.next();
+      return { type: "not", child: this.nested(token, () => this.parseNot(field)) };
+    }
+    return this.parsePrimary(field);
+  }
+
+  private parsePrimary(field: KqlField | null): KqlNode {
+    const token = this.peek();
+
+    if (token.type === "lparen") {
+      this.next();
+      const node = this.nested(token, () => this.parseOr(field));
+      this.expect("rparen", '")"');
+      return node;
+    }
+
+    if (token.type === "quoted") {
+      this.next();
+      return { type: "match", field, value: this.toValue(token) };
+    }
+
+    if (token.type !== "word") {
+      throw new KqlSyntaxError(
+        `Expected a field or value but found ${describeToken(token)}`,
+        token.position,
+      );
+    }
+
+    const after = this.peek(1);
+    if (field === null && after.type === "colon") {
+      this.next();
+      this.next();
+      return this.parseFieldValue({ name: token.text, position: token.position });
+    }
+    if (field === null && after.type === "operator") {
+      this.next();
+      return this.parseRange({ name: token.text, position: token.position });
+    }
+
+    this.next();
+    return { type: "match", field, value: this.toValue(token) };
+  }
+
+  private parseFieldValue(field: KqlField): KqlNode {
+    const token = this.peek();
+
+    if (token.type === "operator") {
+      return this.parseRange(field);
+    }
+    if (token.type === "lparen") {
+      this.next();
+      const node = this.nested(token, () => this.parseOr(field));
+      this.expect("rparen", '")"');
+      return node;
+    }
+    if (token.type === "word" || token.type === "quoted") {
+      this.next();
+      return { type: "match", field, value: this.toValue(token) };
+    }
+    throw new KqlSyntaxError(
+      `Expected a value after "${field.name}:" but found ${describeToken(token)}`,
+      token.position,
+    );
+  }
+
+  private parseRange(field: KqlField): KqlNode {
+    const operator = this.expect("operator", "a comparison").text as KqlRangeOperator;
+    const token = this.peek();
+    if (token.type !== "word" && token.type !== "quoted") {
+      throw new KqlSyntaxError(
+        `Expected a value after "${operator}" but found ${describeToken(token)}`,
+        token.position,
+      );
+    }
+    this.next();
+    return { type: "range", field, operator, value: this.toValue(token) };
+  }
+
+  private toValue(token: Token): KqlValue {
+    return {
+      text: token.text,
+      quoted: token.type === "quoted",
+      position: token.position,
+    };
+  }
+}
+
+/**
+ * Parse a KQL query into a syntax tree. Returns null for an empty query.
+ */
+export function parseKql(query: string): KqlNode | null {
+  if (!query.trim()) return null;
+  return new Parser(tokenize(query)).parse();
+}
+
+type ValueKind = "string" | "number" | "bool" | "date" | "array" | "map" | "other";
+
+interface ResolvedField {
+  sql: string;
+  type: string;
+  kind: ValueKind;
+  nullable: boolean;
+  tokenIndexed: boolean;
+}
+
+function unwrapType(type: string): { base: string; nullable: boolean } {
+  let base = type.trim();
+  let nullable = false;
+  for (;;) {
+    const match = base.match(/^(Nullable|LowCardinality)\((.*)\)$/);
+    if (!match) break;
+    if (match[1] === "Nullable") nullable = true;
+    base = match[2].trim();
+  }
+  return { base, nullable };
+}
+
+function kindOf(base: string): ValueKind {
+  if (/^(String|FixedString)\b/.test(base)) return "string";
+  if (/^(U?Int\d+|Float\d+|Decimal\d*)\b/.test(base)) return "number";
+  if (/^Bool$/.test(base)) return "bool";
+  if (/^Date(Time)?(32|64)?\b/.test(base)) return "date";
+  if (/^Array\(/.test(base)) return "array";
+  if (/^Map\(/.test(base)) return "map";
+  return "other";
+}
+
+/** Value type of a Map(K, V) column */
+function mapValueType(base: string): string {
+  const body = base.slice(4, -1);
+  let depth = 0;
+  for (let i = 0; i < body.length; i++) {
+    if (body[i] === "(") depth++;
+    else if (body[i] === ")") depth--;
+    else if (body[i] === "," && depth === 0) return body.slice(i + 1).trim();
+  }
+  return "String";
+}
+
+function resolveField(field: KqlField, columns: KqlColumn[]): ResolvedField {
+  const describe = (sql: string, type: string, tokenIndexed = false) => {
+    const { base, nullable } = unwrapType(type);
+    return { sql, type: base, kind: kindOf(base), nullable, tokenIndexed };
+  };
+
+  const exact =
+    columns.find((c) => c.name === field.name) ??
+    columns.find((c) => c.name.toLowerCase() === field.name.toLowerCase());
+  if (exact) {
+    return describe(quoteIdentifier(exact.name), exact.type, exact.tokenIndexed);
+  }
+
+  // attributes.http.status -> attributes['http.status'] for Map columns
+  const parts = field.name.split(".");
+  for (let i = parts.length - 1; i > 0; i--) {
+    const prefix = parts.slice(0, i).join(".");
+    const column = columns.find((c) => c.name === prefix);
+    if (column) {
+      const { base } = unwrapType(column.type);
+      if (kindOf(base) !== "map") break;
+      const key = escapeSqlString(parts.slice(i).join("."));
+      return describe(`${quoteIdentifier(column.name)}['${key}']`, mapValueType(base));
+    }
+  }
+
+  throw new KqlSyntaxError(`Unknown field "${field.name}"`, field.position);
+}
+
+function quote(value: string): string {
+  return `'${escapeSqlString(value)}'`;
+}
+
+function hasWildcard(value: KqlValue): boolean {
+  return !value.quoted && value.text.includes("*");
+}
+
+/** LIKE pattern for a value; with wildcards, `*` matches any characters */
+function likePattern(text: string, wildcards = true): string {
+  const escaped = text.replace(/[\\%_]/g, "\\$&");
+  return wildcards ? escaped.replace(/\*/g, "%") : escaped;
+}
+
+/** Tokens as split by ClickHouse's hasToken and token bloom filters */
+function splitTokens(text: string): string[] {
+  return text.split(/[\x00-\x2F\x3A-\x40\x5B-\x60\x7B-\x7F]+/).filter(Boolean);
+}
+
+function numberLiteral(field: KqlField, value: KqlValue): string {
+  if (!/^-?\d+(\.\d+)?([eE][+-]?\d+)?$/.test(value.text)) {
+    throw new KqlSyntaxError(
+      `Expected a number for field "${field.name}"`,
+      value.position,
+    );
+  }
+  return value.text;
+}
+
+function literalFor(field: KqlField, resolved: ResolvedField, value: KqlValue): string {
+  if (resolved.kind === "number") return numberLiteral(field, value);
+  if (resolved.kind === "bool") {
+    const normalized = value.text.toLowerCase();
+    if (!["true", "false", "1", "0"].includes(normalized)) {
+      throw new KqlSyntaxError(
+        `Expected true or false for field "${field.name}"`,
+        value.position,
+      );
+    }
+    return normalized === "true" || normalized === "1" ? "true" : "false";
+  }
+  return quote(value.text);
+}
+
+function compileExists(resolved: ResolvedField): string {
+  if (resolved.nullable) return `isNotNull(${resolved.sql})`;
+  if (["string", "array", "map"].includes(resolved.kind)) {
+    return `notEmpty(${resolved.sql})`;
+  }
+  return "1";
+}
+
+function compileFieldMatch(field: KqlField, value: KqlValue, columns: KqlColumn[]): string {
+  const resolved = resolveField(field, columns);
+  const column = resolved.sql;
+
+  if (!value.quoted && value.text === "*") {
+    return compileExists(resolved);
+  }
+
+  const wildcard = hasWildcard(value);
+
+  switch (resolved.kind) {
+    case "map":
+      throw new KqlSyntaxError(
+        `Field "${field.name}" is a map; query a key such as ${field.name}.key`,
+        field.position,
+      );
+
+    case "array": {
+      const element = kindOf(unwrapType(resolved.type.slice(6, -1)).base);
+      if (wildcard) {
+        return `arrayExists(x -> toString(x) LIKE ${quote(likePattern(value.text))}, ${column})`;
+      }
+      const literal =
+        element === "number" ? numberLiteral(field, value) : quote(value.text);
+      return `has(${column}, ${literal})`;
+    }
+
+    case "string": {
+      if (wildcard) {
+        return `${column} LIKE ${quote(likePattern(value.text))}`;
+      }
+      const equals = `${column} = ${quote(value.text)}`;
+      const tokens = resolved.tokenIndexed ? splitTokens(value.text) : [];
+      if (tokens.length === 0) return equals;
+      // Token-indexed text: the tokens of an equal value are always present,
+      // so hasToken only lets the skip index prune granules
+      return `(${[
+        ...tokens.map((token) => `hasToken(${column}, ${quote(token)})`),
+        equals,
+      ].join(" AND ")})`;
+    }
+
+    case "number":
+    case "bool":
+    case "date":
+      if (wildcard) {
+        throw new KqlSyntaxError(
+          `Wildcards are not supported for field "${field.name}"`,
+          value.position,
+        );
+      }
+      return `${column} = ${literalFor(field, resolved, value)}`;
+
+    default:
+      // UUID, Enum, IP addresses...
+      if (wildcard) {
+        return `toString(${column}) LIKE ${quote(likePattern(value.text))}`;
+      }
+      return `${column} = ${quote(value.text)}`;
+  }
+}
+
+function compileRange(
+  field: KqlField,
+  operator: KqlRangeOperator,
+  value: KqlValue,
+  columns: KqlColumn[],
+): string {
+  const resolved = resolveField(field, columns);
+  if (!["number", "date", "string"].includes(resolved.kind)) {
+    throw new KqlSyntaxError(
+      `Range queries are not supported for field "${field.name}"`,
+      field.position,
+    );
+  }
+  return `${resolved.sql} ${operator} ${literalFor(field, resolved, value)}`;
+}
+
+/**
+ * Free text searches all String columns, like the Discover smart search
+ */
+function compileFreeText(value: KqlValue, columns: KqlColumn[]): string {
+  if (!value.quoted && value.text === "*") return "1";
+
+  const textColumns = columns.filter(
+    (c) => kindOf(unwrapType(c.type).base) === "string",
+  );
+  if (textColumns.length === 0) return "0";
+
+  const tokens = splitTokens(value.text);
+  const singleToken = tokens.length === 1 && tokens[0] === value.text;
+  const conditions = textColumns.map((c) => {
+    const column = quoteIdentifier(c.name);
+    if (singleToken && !hasWildcard(value)) {
+      return `hasTokenCaseInsensitive(${column}, ${quote(value.text)})`;
+    }
+    const pattern = likePattern(value.text, hasWildcard(value));
+    return `${column} ILIKE ${quote(`%${pattern}%`)}`;
+  });
+
+  return conditions.length === 1 ? conditions[0] : `(${conditions.join(" OR ")})`;
+}
+
+function compileNode(node: KqlNode, columns: KqlColumn[]): string {
+  switch (node.type) {
+    case "and":
+    case "or":
+      return `(${node.children
+        .map((child) => compileNode(child, columns))
+        .join(node.type === "and" ? " AND " : " OR ")})`;
+    case "not":
+      return `NOT (${compileNode(node.child, columns)})`;
+    case "range":
+      return compileRange(node.field, node.operator, node.value, columns);
+    case "match":
+      return node.field === null || node.field.name === "*"
+        ? compileFreeText(node.value, columns)
+        : compileFieldMatch(node.field, node.value, columns);
+  }
+}
+
+/**
+ * Compile a KQL query to a ClickHouse WHERE expression.
+ * Returns an empty string for an empty query; throws KqlSyntaxError for
+ * invalid syntax, unknown fields and values that do not fit the column type.
+ */
+export function compileKql(query: string, columns: KqlColumn[]): string {
+  const ast = parseKql(query);
+  return ast ? compileNode(ast, columns) : "";
+}
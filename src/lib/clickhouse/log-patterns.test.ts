@@ -0,0 +1,45 @@
+import { describe, expect, test } from "bun:test";
+import {
+  LOG_PATTERN_EXPRESSION,
+  buildLogPatternsQuery,
+  getLogPatternBucketSeconds,
+  toLogPattern,
+} from "./log-patterns";
+
+describe("clickhouse/log-patterns", () => {
+  test("groups by the template within the range and filters", () => {
+    const query = buildLogPatternsQuery({
+      tableSource: "system.text_log",
+      whereConditions: ["level = 'Error'"],
+      minTime: 1714557600,
+      maxTime: 1714561200,
+      bucketSeconds: getLogPatternBucketSeconds(3600),
+    });
+
+    expect(query).toContain(`${LOG_PATTERN_EXPRESSION} as pattern`);
+    expect(query).toContain("intDiv(toUInt32(event_time) - 1714557600, 120)");
+    expect(query).toContain("event_time >= toDateTime(1714557600) AND event_time <= toDateTime(1714561200) AND level = 'Error'");
+    expect(LOG_PATTERN_EXPRESSION).toContain("message_format_string != ''");
+  });
+
+  test("turns sumMap columns into level counts and a zero-filled sparkline", () => {
+    const pattern = toLogPattern(
+      {
+        pattern: "Merged {} parts",
+        count: "7",
+        levels: [["Debug", "Information"], ["2", "5"]],
+        buckets: [[0, 3], ["4", "3"]],
+        samples: ["Merged 3 parts"],
+        lastSeen: "2024-05-01 10:59:00",
+      },
+      5,
+    );
+
+    expect(pattern.count).toBe(7);
+    expect(pattern.levels).toEqual([
+      { level: "Information", count: 5 },
+      { level: "Debug", count: 2 },
+    ]);
+    expect(pattern.sparkline).toEqual([4, 0, 0, 3, 0]);
+  });
+});
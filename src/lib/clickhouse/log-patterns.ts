@@ -0,0 +1,109 @@
+/**
+ * Log patterns for system.text_log
+ *
+ * Groups lines by their message template so a flood of similar messages
+ * reads as one row. The template is message_format_string when the server
+ * records it, otherwise the message with numbers, UUIDs and hex values
+ * masked. Everything is aggregated in ClickHouse.
+ */
+
+export interface LogPatternsQueryOptions {
+  /** FROM target, already quoted */
+  tableSource: string;
+  /** Filters shared with the line view */
+  whereConditions: string[];
+  /** Start of the range, Unix seconds */
+  minTime: number;
+  /** End of the range, Unix seconds */
+  maxTime: number;
+  bucketSeconds: number;
+}
+
+export interface LogPattern {
+  pattern: string;
+  count: number;
+  /** Lines per level, most frequent first */
+  levels: { level: string; count: number }[];
+  /** Lines per sparkline bucket; zero-filled over the whole range */
+  sparkline: number[];
+  samples: string[];
+  lastSeen: string;
+}
+
+/** Patterns returned, most frequent first */
+export const LOG_PATTERN_LIMIT = 200;
+
+/** Sample lines kept per pattern */
+export const LOG_PATTERN_SAMPLES = 3;
+
+/** Sparkline resolution */
+export const LOG_PATTERN_BUCKETS = 30;
+
+/** Message prefix the fallback template is built from; bounds the regex work */
+const MESSAGE_PREFIX_LENGTH = 300;
+
+/**
+ * SQL expression for the template of a text_log line. Used both to group
+ * lines and to filter the line view to one pattern, so the two always agree.
+ */
+export const LOG_PATTERN_EXPRESSION = `if(message_format_string != '', message_format_string,
+  replaceRegexpAll(
+    replaceRegexpAll(
+      replaceRegexpAll(
+        substring(message, 1, ${MESSAGE_PREFIX_LENGTH}),
+        '[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}', '<uuid>'),
+      '0x[0-9a-fA-F]+', '<hex>'),
+    '[0-9]+([.][0-9]+)?', '<num>'))`;
+
+/** Bucket size giving about LOG_PATTERN_BUCKETS sparkline points over the range */
+export function getLogPatternBucketSeconds(rangeSeconds: number): number {
+  return Math.max(1, Math.ceil(rangeSeconds / LOG_PATTERN_BUCKETS));
+}
+
+export function buildLogPatternsQuery(options: LogPatternsQueryOptions): string {
+  const { tableSource, whereConditions, minTime, maxTime, bucketSeconds } = options;
+  const conditions = [
+    `event_time >= toDateTime(${Math.floor(minTime)})`,
+    `event_time <= toDateTime(${Math.ceil(maxTime)})`,
+    ...whereConditions,
+  ];
+  return `
+    SELECT
+      ${LOG_PATTERN_EXPRESSION} as pattern,
+      count() as count,
+      sumMap([toString(level)], [toUInt64(1)]) as levels,
+      sumMap([intDiv(toUInt32(event_time) - ${Math.floor(minTime)}, ${bucketSeconds})], [toUInt64(1)]) as buckets,
+      groupArray(${LOG_PATTERN_SAMPLES})(message) as samples,
+      toString(max(event_time)) as lastSeen
+    FROM ${tableSource}
+    WHERE ${conditions.join(" AND ")}
+    GROUP BY pattern
+    ORDER BY count DESC
+    LIMIT ${LOG_PATTERN_LIMIT}
+  `;
+}
+
+type SumMapResult = [Array<string | number>, Array<string | number>];
+
+/** Turns a row of buildLogPatternsQuery into a LogPattern */
+export function toLogPattern(row: Record<string, unknown>, bucketCount: number): LogPattern {
+  const [levelKeys, levelCounts] = (row.levels as SumMapResult) ?? [[], []];
+  const [bucketKeys, bucketCounts] = (row.buckets as SumMapResult) ?? [[], []];
+
+  const sparkline = new Array<number>(Math.max(0, Math.floor(bucketCount))).fill(0);
+  bucketKeys.forEach((key, i) => {
+    const index = Number(key);
+    if (index >= 0 && index < sparkline.length) sparkline[index] += Number(bucketCounts[i]);
+  });
+
+  return {
+    pattern: String(row.pattern),
+    count: Number(row.count),
+    levels: levelKeys
+      .map((level, i) => ({ level: String(level), count: Number(levelCounts[i]) }))
+      .sort((a, b) => b.count - a.count),
+    sparkline,
+    samples: (row.samples as string[]) ?? [],
+    lastSeen: String(row.lastSeen),
+  };
+}
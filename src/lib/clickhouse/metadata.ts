@@ -10,30 +10,118 @@ import { quoteIdentifier } from "./utils";
 
 const METADATA_DB = "clicklens_metadata";
 const SAVED_QUERIES_TABLE = "saved_queries";
+const SAVED_SEARCHES_TABLE = "saved_searches";
 
+/**
+ * Saved queries are append-only: every edit inserts a new row with the same id
+ * and a higher revision, and deletes insert a tombstone (is_deleted = 1).
+ * The latest revision of each id is the current version.
+ */
 export function getSavedQueriesSchema(onCluster: string = ""): string {
   return `
-CREATE TABLE IF NOT EXISTS ${METADATA_DB}.${SAVED_QUERIES_TABLE} (
+CREATE TABLE IF NOT EXISTS ${METADATA_DB}.${SAVED_QUERIES_TABLE}${onCluster} (
     id UUID,
     name String,
     sql String,
     description String DEFAULT '',
     created_by String,
     created_at DateTime DEFAULT now(),
-    updated_at DateTime DEFAULT now()
+    updated_at DateTime DEFAULT now(),
+    folder String DEFAULT '',
+    tags Array(String) DEFAULT [],
+    visibility LowCardinality(String) DEFAULT 'private',
+    shared_roles Array(String) DEFAULT [],
+    revision UInt32 DEFAULT 1,
+    updated_by String DEFAULT '',
+    is_deleted UInt8 DEFAULT 0,
+    params Map(String, String) DEFAULT map()
 ) ENGINE = MergeTree()
 ORDER BY (created_by, created_at)
-${onCluster}
 `;
 }
 
 export const SAVED_QUERIES_SCHEMA = getSavedQueriesSchema();
 
+/**
+ * Columns added after the initial saved_queries schema. Applied by
+ * ensureMetadataInfrastructure, once per process and cluster, so tables
+ * created by older versions gain sharing, revision and parameter support.
+ */
+const SAVED_QUERIES_ADDED_COLUMNS = [
+  "folder String DEFAULT ''",
+  "tags Array(String) DEFAULT []",
+  "visibility LowCardinality(String) DEFAULT 'private'",
+  "shared_roles Array(String) DEFAULT []",
+  "revision UInt32 DEFAULT 1",
+  "updated_by String DEFAULT ''",
+  "is_deleted UInt8 DEFAULT 0",
+  "params Map(String, String) DEFAULT map()",
+];
+
+export function getSavedQueriesMigrations(onCluster: string = ""): string[] {
+  return SAVED_QUERIES_ADDED_COLUMNS.map(
+    (column) =>
+      `ALTER TABLE ${METADATA_DB}.${SAVED_QUERIES_TABLE}${onCluster} ADD COLUMN IF NOT EXISTS ${column}`,
+  );
+}
+
+/**
+ * Saved Discover searches. Like saved queries they are append-only with
+ * revisions and tombstones, and share the same visibility model.
+ */
+export function getSavedSearchesSchema(onCluster: string = ""): string {
+  return `
+CREATE TABLE IF NOT EXISTS ${METADATA_DB}.${SAVED_SEARCHES_TABLE}${onCluster} (
+    id UUID,
+    name String,
+    description String DEFAULT '',
+    database String,
+    table String,
+    time_column String DEFAULT '',
+    columns Array(String) DEFAULT [],
+    filter String DEFAULT '',
+    query_language LowCardinality(String) DEFAULT 'sql',
+    time_from String DEFAULT '',
+    time_to String DEFAULT '',
+    sort String DEFAULT '',
+    group_by Array(String) DEFAULT [],
+    histogram_interval LowCardinality(String) DEFAULT 'auto',
+    created_by String,
+    created_at DateTime DEFAULT now(),
+    updated_at DateTime DEFAULT now(),
+    visibility LowCardinality(String) DEFAULT 'private',
+    shared_roles Array(String) DEFAULT [],
+    revision UInt32 DEFAULT 1,
+    updated_by String DEFAULT '',
+    is_deleted UInt8 DEFAULT 0
+) ENGINE = MergeTree()
+ORDER BY (created_by, created_at)
+`;
+}
+
+// Setup per cluster ID; each statement is a distributed DDL task on clusters,
+// so it runs once per process rather than on every request
+const metadataSetups = new Map<string, Promise<boolean>>();
+
 /**
  * Ensure the metadata database and tables exist.
- * Accepts an already-resolved Lens config from the session.
+ * Accepts an already-resolved Lens config from the session. Runs once per
+ * process and cluster; a failed setup is retried on the next call.
  */
-export async function ensureMetadataInfrastructure(config: ClickHouseConfig): Promise<boolean> {
+export function ensureMetadataInfrastructure(config: ClickHouseConfig): Promise<boolean> {
+  const key = config.clusterId ?? "";
+  let setup = metadataSetups.get(key);
+  if (!setup) {
+    setup = createMetadataInfrastructure(config).catch((error) => {
+      metadataSetups.delete(key);
+      throw error;
+    });
+    metadataSetups.set(key, setup);
+  }
+  return setup;
+}
+
+async function createMetadataInfrastructure(config: ClickHouseConfig): Promise<boolean> {
   const client = createClient(config);
 
   try {
@@ -47,6 +135,11 @@ export async function ensureMetadataInfrastructure(config: ClickHouseConfig): Pr
     );
 
     await client.command(getSavedQueriesSchema(onCluster));
+    for (const migration of getSavedQueriesMigrations(onCluster)) {
+      await client.command(migration);
+    }
+
+    await client.command(getSavedSearchesSchema(onCluster));
 
     return true;
   } catch (error) {
@@ -55,4 +148,4 @@ export async function ensureMetadataInfrastructure(config: ClickHouseConfig): Pr
   }
 }
 
-export { METADATA_DB, SAVED_QUERIES_TABLE };
+export { METADATA_DB, SAVED_QUERIES_TABLE, SAVED_SEARCHES_TABLE };
@@ -610,22 +610,26 @@ export const getMutationsQuery = (clusterName?: string) => {
   const table = clusterName
     ? `clusterAllReplicas('${clusterName}', system.mutations)`
     : "system.mutations";
+  // One row per mutation; replicas report their own parts to do and failures
   return `
 SELECT
   database,
   table,
   mutation_id AS mutationId,
-  command,
-  create_time AS createTime,
-  is_done AS isDone,
-  latest_failed_part AS latestFailedPart,
-  latest_fail_time AS latestFailTime,
-  latest_fail_reason AS latestFailReason,
-  parts_to_do AS partsToDo,
-  formatReadableTimeDelta(dateDiff('second', create_time, now())) AS elapsed_readable
+  any(command) AS command,
+  toString(min(create_time)) AS createTime,
+  min(is_done) AS isDone,
+  argMax(latest_failed_part, latest_fail_time) AS latestFailedPart,
+  toString(max(latest_fail_time)) AS latestFailTime,
+  argMax(latest_fail_reason, latest_fail_time) AS latestFailReason,
+  sum(parts_to_do) AS partsToDo,
+  count() AS replicas,
+  formatReadableTimeDelta(dateDiff('second', min(create_time), now())) AS elapsed_readable
 FROM ${table}
 WHERE NOT is_done
-ORDER BY create_time DESC
+GROUP BY database, table, mutation_id
+ORDER BY createTime DESC
+${clusterName ? "SETTINGS skip_unavailable_shards = 1" : ""}
 `;
 };
 
@@ -146,6 +146,8 @@ export interface MutationInfo {
   latestFailedPart: string;
   latestFailTime: string;
   latestFailReason: string;
+  /** Replicas the mutation is still running on */
+  replicas?: number;
 }
 
 export interface OperationsResponse {
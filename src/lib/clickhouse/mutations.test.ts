@@ -0,0 +1,109 @@
+import { describe, expect, it } from "bun:test";
+import {
+  buildKillMutationStatement,
+  buildMutationDetailQuery,
+  buildMutationProgressQuery,
+  computeMutationProgress,
+  getMutationBucketSeconds,
+  validateKillMutationRequest,
+} from "./mutations";
+
+describe("validateKillMutationRequest", () => {
+  it("requires database, table and mutation id", () => {
+    expect(validateKillMutationRequest({ table: "events", mutationId: "m" })).toBe(
+      "Database and table are required",
+    );
+    expect(validateKillMutationRequest({ database: "db", table: "events" })).toBe(
+      "Mutation ID is required",
+    );
+    expect(
+      validateKillMutationRequest({ database: "db", table: "events", mutationId: "mutation_3.txt" }),
+    ).toBeNull();
+  });
+});
+
+describe("buildKillMutationStatement", () => {
+  it("escapes values and adds ON CLUSTER", () => {
+    expect(
+      buildKillMutationStatement(
+        { database: "db", table: "o'brien", mutationId: "0000000001" },
+        " ON CLUSTER `prod`",
+      ),
+    ).toBe(
+      "KILL MUTATION ON CLUSTER `prod` WHERE database = 'db' AND table = 'o''brien' AND mutation_id = '0000000001'",
+    );
+  });
+});
+
+describe("buildMutationDetailQuery", () => {
+  it("reads all replicas of a cluster", () => {
+    const sql = buildMutationDetailQuery(
+      { database: "db", table: "events", mutationId: "mutation_3.txt" },
+      "prod",
+    );
+    expect(sql).toContain("clusterAllReplicas('prod', system.mutations)");
+    expect(sql).toContain("mutation_id = 'mutation_3.txt'");
+  });
+});
+
+describe("buildMutationProgressQuery", () => {
+  it("matches parts by the partition's block number", () => {
+    const sql = buildMutationProgressQuery({
+      database: "db",
+      table: "events",
+      createTime: 1714557600,
+      bucketSeconds: 60,
+      blockPartitions: ["202405", "202406"],
+      blockNumbers: ["12", 30],
+    });
+    expect(sql).toContain("FROM system.part_log");
+    expect(sql).toContain("INTERVAL 60 SECOND");
+    expect(sql).toContain("event_time >= toDateTime(1714557600)");
+    expect(sql).toContain("arrayElement([12, 30], indexOf(['202405', '202406'], partition_id))");
+  });
+});
+
+describe("getMutationBucketSeconds", () => {
+  it("spreads the elapsed time over the history", () => {
+    expect(getMutationBucketSeconds(30)).toBe(10);
+    expect(getMutationBucketSeconds(3600)).toBe(60);
+  });
+});
+
+describe("computeMutationProgress", () => {
+  it("reconstructs remaining parts and estimates completion", () => {
+    const progress = computeMutationProgress({
+      remaining: 10,
+      buckets: [
+        { bucket: 1200, parts: 5 },
+        { bucket: 1260, parts: 5 },
+      ],
+      createTime: 1200,
+      now: 1320,
+      bucketSeconds: 60,
+    });
+
+    expect(progress.partsDone).toBe(10);
+    expect(progress.history).toEqual([
+      { time: 1200, remaining: 20 },
+      { time: 1260, remaining: 15 },
+      { time: 1320, remaining: 10 },
+    ]);
+    expect(progress.ratePerMinute).toBe(5);
+    expect(progress.etaSeconds).toBe(120);
+  });
+
+  it("has no estimate without recent progress", () => {
+    const progress = computeMutationProgress({
+      remaining: 4,
+      buckets: [{ bucket: 0, parts: 2 }],
+      createTime: 0,
+      now: 3600,
+      bucketSeconds: 60,
+    });
+
+    expect(progress.ratePerMinute).toBe(0);
+    expect(progress.etaSeconds).toBeNull();
+    expect(progress.history[0]).toEqual({ time: 0, remaining: 6 });
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * Mutation control
+ *
+ * Builds KILL MUTATION statements and reconstructs a mutation's progress.
+ * system.mutations only has the current parts_to_do, so the history comes
+ * from MutatePart events in system.part_log: every part rewritten by the
+ * mutation gets the mutation's block number of its partition as data
+ * version, the last component of the new part name.
+ */
+
+import { escapeSqlString } from "./utils";
+
+export interface KillMutationRequest {
+  database: string;
+  table: string;
+  mutationId: string;
+}
+
+/** One replica's view of a mutation */
+export interface MutationHostStatus {
+  node: string;
+  parts_to_do: number;
+  is_done: number;
+  latest_failed_part: string;
+  latest_fail_time: string;
+  latest_fail_reason: string;
+}
+
+/** A row of buildMutationDetailQuery */
+export interface MutationDetailRow extends MutationHostStatus {
+  command: string;
+  create_time: string;
+  /** Unix seconds, for the progress query */
+  create_timestamp: number | string;
+  /** Server clock, Unix seconds */
+  server_time: number | string;
+  block_partitions: string[];
+  block_numbers: Array<number | string>;
+}
+
+export interface MutationProgressPoint {
+  /** Unix seconds, end of the bucket */
+  time: number;
+  remaining: number;
+}
+
+export interface MutationProgress {
+  history: MutationProgressPoint[];
+  partsDone: number;
+  /** Parts per minute over the recent window */
+  ratePerMinute: number;
+  /** null when the mutation made no recent progress */
+  etaSeconds: number | null;
+}
+
+export interface MutationDetail {
+  database: string;
+  table: string;
+  mutationId: string;
+  command: string;
+  createTime: string;
+  partsToDo: number;
+  isDone: boolean;
+  latestFailedPart: string;
+  latestFailTime: string;
+  latestFailReason: string;
+  hosts: MutationHostStatus[];
+  /** Missing when system.part_log is not enabled or readable */
+  progress?: MutationProgress;
+}
+
+/** Points in the progress history */
+export const MUTATION_PROGRESS_BUCKETS = 60;
+
+/** Window the completion estimate is based on */
+export const MUTATION_RATE_WINDOW_SECONDS = 15 * 60;
+
+export function validateKillMutationRequest(
+  req: Partial<KillMutationRequest>,
+): string | null {
+  if (!req.database || !req.table) {
+    return "Database and table are required";
+  }
+  if (!req.mutationId) {
+    return "Mutation ID is required";
+  }
+  return null;
+}
+
+/**
+ * SQL to kill a mutation. onCluster is " ON CLUSTER `name`" or "".
+ */
+export function buildKillMutationStatement(
+  req: KillMutationRequest,
+  onCluster: string = "",
+): string {
+  return `KILL MUTATION${onCluster} WHERE database = '${escapeSqlString(
+    req.database,
+  )}' AND table = '${escapeSqlString(req.table)}' AND mutation_id = '${escapeSqlString(
+    req.mutationId,
+  )}'`;
+}
+
+export function buildMutationDetailQuery(
+  req: KillMutationRequest,
+  clusterName?: string,
+): string {
+  const source = clusterName
+    ? `clusterAllReplicas('${clusterName}', system.mutations)`
+    : "system.mutations";
+  return `
+SELECT
+  hostName() as node,
+  command,
+  toString(create_time) as create_time,
+  toUnixTimestamp(create_time) as create_timestamp,
+  toUnixTimestamp(now()) as server_time,
+  parts_to_do,
+  is_done,
+  latest_failed_part,
+  toString(latest_fail_time) as latest_fail_time,
+  latest_fail_reason,
+  block_numbers.partition_id as block_partitions,
+  block_numbers.number as block_numbers
+FROM ${source}
+WHERE database = '${escapeSqlString(req.database)}'
+  AND table = '${escapeSqlString(req.table)}'
+  AND mutation_id = '${escapeSqlString(req.mutationId)}'
+ORDER BY node
+${clusterName ? "SETTINGS skip_unavailable_shards = 1" : ""}
+`;
+}
+
+export interface MutationProgressQueryOptions {
+  database: string;
+  table: string;
+  clusterName?: string;
+  /** Unix seconds */
+  createTime: number;
+  bucketSeconds: number;
+  blockPartitions: string[];
+  blockNumbers: Array<number | string>;
+}
+
+/** MutatePart events of the mutation per time bucket */
+export function buildMutationProgressQuery(options: MutationProgressQueryOptions): string {
+  const { database, table, clusterName, createTime, bucketSeconds } = options;
+  const source = clusterName
+    ? `clusterAllReplicas('${clusterName}', system.part_log)`
+    : "system.part_log";
+  const partitions = options.blockPartitions
+    .map((p) => `'${escapeSqlString(p)}'`)
+    .join(", ");
+  const numbers = options.blockNumbers.map((n) => Number(n)).join(", ");
+
+  // Plain MergeTree records a single block number for all partitions
+  const version = `if(has([${partitions}], partition_id),
+      arrayElement([${numbers}], indexOf([${partitions}], partition_id)),
+      arrayElement([${numbers}], 1))`;
+
+  return `
+SELECT
+  toUInt32(toStartOfInterval(event_time, INTERVAL ${bucketSeconds} SECOND)) as bucket,
+  count() as parts
+FROM ${source}
+WHERE event_type = 'MutatePart'
+  AND database = '${escapeSqlString(database)}'
+  AND table = '${escapeSqlString(table)}'
+  AND event_time >= toDateTime(${Math.floor(createTime)})
+  AND toUInt64OrZero(arrayElement(splitByChar('_', part_name), -1)) = ${version}
+GROUP BY bucket
+ORDER BY bucket
+${clusterName ? "SETTINGS skip_unavailable_shards = 1" : ""}
+`;
+}
+
+/** Bucket size giving about MUTATION_PROGRESS_BUCKETS points since the mutation started */
+export function getMutationBucketSeconds(elapsedSeconds: number): number {
+  return Math.max(10, Math.ceil(elapsedSeconds / MUTATION_PROGRESS_BUCKETS));
+}
+
+/**
+ * Parts remaining over time, from the current parts_to_do and the parts
+ * done per bucket, plus a completion estimate from the recent rate.
+ */
+export function computeMutationProgress(options: {
+  remaining: number;
+  buckets: { bucket: number; parts: number }[];
+  createTime: number;
+  now: number;
+  bucketSeconds: number;
+}): MutationProgress {
+  const { remaining, createTime, now, bucketSeconds } = options;
+  const done = new Map(options.buckets.map((b) => [Number(b.bucket), Number(b.parts)]));
+  const partsDone = [...done.values()].reduce((sum, n) => sum + n, 0);
+
+  // Walk backwards from now: before a bucket's parts were done they were
+  // still remaining
+  const start = Math.floor(createTime / bucketSeconds) * bucketSeconds;
+  const history: MutationProgressPoint[] = [];
+  let remainingAt = remaining;
+  const last = Math.floor(Math.max(createTime, now - 1) / bucketSeconds) * bucketSeconds;
+  for (let bucket = last; bucket >= start; bucket -= bucketSeconds) {
+    history.push({ time: Math.min(bucket + bucketSeconds, now), remaining: remainingAt });
+    remainingAt += done.get(bucket) ?? 0;
+  }
+  history.push({ time: createTime, remaining: remainingAt });
+  history.reverse();
+
+  const windowStart = Math.max(createTime, now - MUTATION_RATE_WINDOW_SECONDS);
+  const windowSeconds = Math.max(1, now - windowStart);
+  const recentDone = [...done.entries()]
+    .filter(([bucket]) => bucket + bucketSeconds > windowStart)
+    .reduce((sum, [, n]) => sum + n, 0);
+  const ratePerSecond = recentDone / windowSeconds;
+
+  return {
+    history,
+    partsDone,
+    ratePerMinute: ratePerSecond * 60,
+    etaSeconds:
+      remaining === 0 ? 0 : ratePerSecond > 0 ? Math.ceil(remaining / ratePerSecond) : null,
+  };
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "bun:test";
+import {
+  buildPartitionStatement,
+  validatePartitionActionRequest,
+} from "./partitions";
+
+const base = { database: "db", table: "events", partitionId: "202405" };
+
+describe("buildPartitionStatement", () => {
+  it("addresses the partition by id", () => {
+    expect(buildPartitionStatement({ ...base, action: "drop" })).toBe(
+      "ALTER TABLE `db`.`events` DROP PARTITION ID '202405'",
+    );
+  });
+
+  it("places ON CLUSTER after the table name", () => {
+    expect(
+      buildPartitionStatement({ ...base, action: "detach" }, " ON CLUSTER `prod`"),
+    ).toBe("ALTER TABLE `db`.`events` ON CLUSTER `prod` DETACH PARTITION ID '202405'");
+    expect(
+      buildPartitionStatement({ ...base, action: "optimize" }, " ON CLUSTER `prod`"),
+    ).toBe("OPTIMIZE TABLE `db`.`events` ON CLUSTER `prod` PARTITION ID '202405' FINAL");
+  });
+
+  it("builds move statements", () => {
+    expect(buildPartitionStatement({ ...base, action: "move_disk", target: "cold" })).toBe(
+      "ALTER TABLE `db`.`events` MOVE PARTITION ID '202405' TO DISK 'cold'",
+    );
+    expect(buildPartitionStatement({ ...base, action: "move_volume", target: "hot" })).toBe(
+      "ALTER TABLE `db`.`events` MOVE PARTITION ID '202405' TO VOLUME 'hot'",
+    );
+    expect(
+      buildPartitionStatement({
+        ...base,
+        action: "move_table",
+        targetDatabase: "archive",
+        targetTable: "events_old",
+      }),
+    ).toBe("ALTER TABLE `db`.`events` MOVE PARTITION ID '202405' TO TABLE `archive`.`events_old`");
+  });
+
+  it("escapes the partition id and identifiers", () => {
+    expect(
+      buildPartitionStatement({ database: "d`b", table: "t", partitionId: "a'b", action: "freeze" }),
+    ).toBe("ALTER TABLE `d``b`.`t` FREEZE PARTITION ID 'a''b'");
+  });
+});
+
+describe("validatePartitionActionRequest", () => {
+  it("accepts a complete request", () => {
+    expect(validatePartitionActionRequest({ ...base, action: "attach" })).toBeNull();
+  });
+
+  it("rejects unknown actions", () => {
+    expect(
+      validatePartitionActionRequest({ ...base, action: "truncate" as never }),
+    ).toBe("Invalid partition action");
+  });
+
+  it("requires a destination for moves", () => {
+    expect(validatePartitionActionRequest({ ...base, action: "move_disk" })).toBe(
+      "A disk is required",
+    );
+    expect(
+      validatePartitionActionRequest({ ...base, action: "move_table", targetTable: "t" }),
+    ).toBe("A destination table is required");
+  });
+
+  it("requires a partition id", () => {
+    expect(validatePartitionActionRequest({ ...base, partitionId: "", action: "drop" })).toBe(
+      "Partition ID is required",
+    );
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Partition management helpers
+ *
+ * Builds the ALTER TABLE ... PARTITION and OPTIMIZE statements offered by the
+ * Table Explorer partitions view. Partitions are addressed by partition_id,
+ * which is unambiguous for every partition key expression.
+ */
+
+import { escapeSqlString, quoteIdentifier } from "./utils";
+
+export const PARTITION_ACTIONS = [
+  "detach",
+  "attach",
+  "drop",
+  "freeze",
+  "move_disk",
+  "move_volume",
+  "move_table",
+  "optimize",
+] as const;
+
+export type PartitionAction = (typeof PARTITION_ACTIONS)[number];
+
+export interface PartitionActionRequest {
+  database: string;
+  table: string;
+  partitionId: string;
+  action: PartitionAction;
+  /** Disk or volume name for move_disk / move_volume */
+  target?: string;
+  /** Destination of move_table */
+  targetDatabase?: string;
+  targetTable?: string;
+}
+
+/**
+ * Active parts of one partition across the cluster. Counts are taken from
+ * the fullest replica of each shard and summed across shards.
+ */
+export interface PartitionInfo {
+  partition: string;
+  partition_id: string;
+  /** Active parts on the fullest replica of each shard, summed across shards */
+  parts: number;
+  /** Rows on the fullest replica of each shard, summed across shards */
+  rows: number;
+  /** Bytes on disk of the fullest replica of each shard, summed across shards */
+  bytes_on_disk: number;
+  /** Replicas of the shard with the most replicas holding the partition */
+  replicas: number;
+  disks: string[];
+  last_modified: string;
+}
+
+/** Detached parts of one partition, candidates for ATTACH */
+export interface DetachedPartitionInfo {
+  partition_id: string;
+  parts: number;
+  reasons: string[];
+}
+
+export const PARTITION_ACTION_LABELS: Record<PartitionAction, string> = {
+  detach: "Detach",
+  attach: "Attach",
+  drop: "Drop",
+  freeze: "Freeze",
+  move_disk: "Move to disk",
+  move_volume: "Move to volume",
+  move_table: "Move to table",
+  optimize: "Optimize FINAL",
+};
+
+/** Actions that remove data from the table's active parts */
+export const DESTRUCTIVE_PARTITION_ACTIONS: ReadonlySet<PartitionAction> = new Set([
+  "detach",
+  "drop",
+  "move_table",
+]);
+
+export function validatePartitionActionRequest(
+  req: Partial<PartitionActionRequest>,
+): string | null {
+  if (!req.database || !req.table) {
+    return "Database and table are required";
+  }
+  if (typeof req.partitionId !== "string" || req.partitionId === "") {
+    return "Partition ID is required";
+  }
+  if (!req.action || !PARTITION_ACTIONS.includes(req.action)) {
+    return "Invalid partition action";
+  }
+  if ((req.action === "move_disk" || req.action === "move_volume") && !req.target) {
+    return `A ${req.action === "move_disk" ? "disk" : "volume"} is required`;
+  }
+  if (req.action === "move_table" && (!req.targetDatabase || !req.targetTable)) {
+    return "A destination table is required";
+  }
+  return null;
+}
+
+/**
+ * SQL for a partition action. onCluster is " ON CLUSTER `name`" or "".
+ */
+export function buildPartitionStatement(
+  req: PartitionActionRequest,
+  onCluster: string = "",
+): string {
+  const table = `${quoteIdentifier(req.database)}.${quoteIdentifier(req.table)}`;
+  const partition = `PARTITION ID '${escapeSqlString(req.partitionId)}'`;
+
+  switch (req.action) {
+    case "optimize":
+      return `OPTIMIZE TABLE ${table}${onCluster} ${partition} FINAL`;
+    case "detach":
+      return `ALTER TABLE ${table}${onCluster} DETACH ${partition}`;
+    case "attach":
+      return `ALTER TABLE ${table}${onCluster} ATTACH ${partition}`;
+    case "drop":
+      return `ALTER TABLE ${table}${onCluster} DROP ${partition}`;
+    case "freeze":
+      return `ALTER TABLE ${table}${onCluster} FREEZE ${partition}`;
+    case "move_disk":
+      return `ALTER TABLE ${table}${onCluster} MOVE ${partition} TO DISK '${escapeSqlString(req.target ?? "")}'`;
+    case "move_volume":
+      return `ALTER TABLE ${table}${onCluster} MOVE ${partition} TO VOLUME '${escapeSqlString(req.target ?? "")}'`;
+    case "move_table":
+      return `ALTER TABLE ${table}${onCluster} MOVE ${partition} TO TABLE ${quoteIdentifier(
+        req.targetDatabase ?? "",
+      )}.${quoteIdentifier(req.targetTable ?? "")}`;
+  }
+}
@@ -2,7 +2,7 @@
  * ClickHouse Access Control SQL Queries
  *
  * Centralized SELECT queries for grants, users, roles,
- * role-grants, and feature-roles.
+ * role-grants, quotas, row policies, and feature-roles.
  *
  * Note: DDL commands (GRANT, REVOKE, CREATE USER, etc.)
  * remain inline in their respective API routes.
@@ -127,6 +127,82 @@ ORDER BY
   granted_role_name
 `;
 
+// =============================================================================
+// Quotas
+// =============================================================================
+
+/** List all quotas with their keys and assignments */
+export const QUOTAS_LIST_QUERY = `
+SELECT
+  name,
+  id,
+  storage,
+  keys,
+  durations,
+  apply_to_all,
+  apply_to_list,
+  apply_to_except
+FROM system.quotas
+ORDER BY name
+`;
+
+/** Limits of every quota interval */
+export const QUOTA_LIMITS_QUERY = `
+SELECT *
+FROM system.quota_limits
+ORDER BY quota_name, duration
+`;
+
+/**
+ * Current consumption of every quota key (all users).
+ * system.quota_usage only covers the current user, so this reads
+ * system.quotas_usage, which has the same columns plus quota_key per consumer.
+ */
+export const QUOTAS_USAGE_QUERY = `
+SELECT *
+FROM system.quotas_usage
+WHERE duration IS NOT NULL
+ORDER BY quota_name, quota_key, duration
+`;
+
+// =============================================================================
+// Row Policies
+// =============================================================================
+
+/** List all row policies */
+export const ROW_POLICIES_LIST_QUERY = `
+SELECT
+  name,
+  short_name,
+  database,
+  table,
+  id,
+  storage,
+  select_filter,
+  is_restrictive,
+  apply_to_all,
+  apply_to_list,
+  apply_to_except
+FROM system.row_policies
+ORDER BY database, table, short_name
+`;
+
+/** Row policies defined on one table */
+export const getTableRowPoliciesQuery = (
+  safeDatabase: string,
+  safeTable: string,
+) => `
+SELECT
+  short_name,
+  select_filter,
+  is_restrictive,
+  apply_to_all,
+  apply_to_list,
+  apply_to_except
+FROM system.row_policies
+WHERE database = '${safeDatabase}' AND table = '${safeTable}'
+`;
+
 // =============================================================================
 // Feature Roles
 // =============================================================================
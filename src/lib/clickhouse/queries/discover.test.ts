@@ -90,6 +90,26 @@ describe("DiscoverQueryBuilder", () => {
     expect(longRangeQuery.query).toContain("INTERVAL 4 hour");
   });
 
+  test("buildHistogramQuery splits series and aggregates a field", () => {
+    const builder = new DiscoverQueryBuilder(
+      {
+        ...baseParams,
+        splitBy: "status",
+        splitValues: ["200", "500"],
+        aggregation: "avg",
+        aggregationField: "duration_ms",
+      },
+      metadata
+    );
+    const result = builder.buildHistogramQuery("DateTime");
+
+    expect(result.query).toContain(
+      "if(toString(`status`) IN ('200', '500'), toString(`status`), NULL) as series"
+    );
+    expect(result.query).toContain("avg(`duration_ms`) as count");
+    expect(result.query).toContain("GROUP BY time, series");
+  });
+
   test("buildDataQuery with basic parameters", () => {
     const builder = new DiscoverQueryBuilder(
       { ...baseParams, columns: ["id", "name"] },
@@ -6,6 +6,7 @@
  */
 
 import { quoteIdentifier, escapeSqlString } from "../utils";
+import type { HistogramAggregation } from "@/lib/types/discover";
 import type {
   DiscoverQueryParams,
   TableMetadata,
@@ -26,7 +27,8 @@ export class DiscoverQueryBuilder {
    * Build histogram query for time-series visualization
    */
   buildHistogramQuery(columnType: string = "DateTime"): HistogramQueryResult {
-    const { timeColumn, minTime, maxTime, filter } = this.params;
+    const { timeColumn, minTime, maxTime, filter, splitBy, splitValues, aggregation, aggregationField } =
+      this.params;
     const { tableSource } = this.metadata;
 
     if (!timeColumn) {
@@ -60,14 +62,14 @@ export class DiscoverQueryBuilder {
       ? `WHERE ${whereConds.join(" AND ")}`
       : "";
 
-    let query: string;
+    const timeExpr = isDateOnly
+      ? quotedTimeCol
+      : `toStartOfInterval(${quotedTimeCol}, INTERVAL ${this.calculateHistogramInterval(minTime || undefined, maxTime || undefined)})`;
+    const valueExpr = getHistogramAggregationExpr(aggregation, aggregationField);
 
-    if (isDateOnly) {
-      query = `SELECT ${quotedTimeCol} as time, count() as count FROM ${tableSource} ${whereClause} GROUP BY time ORDER BY time`;
-    } else {
-      const interval = this.calculateHistogramInterval(minTime || undefined, maxTime || undefined);
-      query = `SELECT toStartOfInterval(${quotedTimeCol}, INTERVAL ${interval}) as time, count() as count FROM ${tableSource} ${whereClause} GROUP BY time ORDER BY time`;
-    }
+    const query = splitBy
+      ? `SELECT ${timeExpr} as time, ${getHistogramSeriesExpr(splitBy, splitValues ?? [])} as series, ${valueExpr} as count FROM ${tableSource} ${whereClause} GROUP BY time, series ORDER BY time`
+      : `SELECT ${timeExpr} as time, ${valueExpr} as count FROM ${tableSource} ${whereClause} GROUP BY time ORDER BY time`;
 
     return {
       query,
@@ -341,6 +343,53 @@ export class DiscoverQueryBuilder {
   }
 }
 
+/**
+ * Value plotted per histogram bucket. Aggregations other than count read
+ * `field` and fall back to count() without one.
+ */
+export function getHistogramAggregationExpr(
+  aggregation: HistogramAggregation = "count",
+  field?: string
+): string {
+  if (aggregation === "count" || !field) return "count()";
+
+  const quotedField = quoteIdentifier(field);
+  switch (aggregation) {
+    case "p50":
+      return `quantile(0.5)(${quotedField})`;
+    case "p95":
+      return `quantile(0.95)(${quotedField})`;
+    case "p99":
+      return `quantile(0.99)(${quotedField})`;
+    default:
+      return `${aggregation}(${quotedField})`;
+  }
+}
+
+/**
+ * Histogram series of a row: its split-by value when that is one of
+ * `values`, NULL ("Other") otherwise
+ */
+export function getHistogramSeriesExpr(splitBy: string, values: string[]): string {
+  const valueExpr = `toString(${quoteIdentifier(splitBy)})`;
+  if (values.length === 0) return "CAST(NULL, 'Nullable(String)')";
+
+  const list = values.map((v) => `'${escapeSqlString(v)}'`).join(", ");
+  return `if(${valueExpr} IN (${list}), ${valueExpr}, NULL)`;
+}
+
+/**
+ * Most frequent non-null values of the split-by column, as strings
+ */
+export function getSplitValuesQuery(
+  tableSource: string,
+  splitBy: string,
+  whereClause: string,
+  limit: number
+): string {
+  return `SELECT toString(${quoteIdentifier(splitBy)}) as value, count() as count FROM ${tableSource} ${whereClause} GROUP BY value HAVING value IS NOT NULL ORDER BY count DESC LIMIT ${Math.floor(limit)}`;
+}
+
 export function getFieldValuesQuery(
   tableSource: string,
   quotedColumn: string,
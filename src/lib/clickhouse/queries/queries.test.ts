@@ -172,6 +172,39 @@ describe("Centralized Query Modules Validation", () => {
       );
     });
 
+    test("getSkipIndicesQuery (no cluster)", async () => {
+      await checkQuery(
+        tableQueries.getSkipIndicesQuery("system", "tables"),
+        "getSkipIndicesQuery",
+      );
+    });
+
+    test("getProjectionPartsQuery (no cluster)", async () => {
+      await checkQuery(
+        tableQueries.getProjectionPartsQuery("system", "tables"),
+        "getProjectionPartsQuery",
+      );
+    });
+
+    test("getIndexUsageQuery (no cluster)", async () => {
+      await checkQuery(
+        tableQueries.getIndexUsageQuery(
+          "system",
+          "tables",
+          [{ name: "idx_name", columns: ["name"] }],
+          7,
+        ),
+        "getIndexUsageQuery",
+      );
+    });
+
+    test("getProjectionUsageQuery (no cluster)", async () => {
+      await checkQuery(
+        tableQueries.getProjectionUsageQuery("system", "tables", 7),
+        "getProjectionUsageQuery",
+      );
+    });
+
     test("getTableDependenciesQuery", async () => {
       await checkQuery(
         tableQueries.getTableDependenciesQuery("system"),
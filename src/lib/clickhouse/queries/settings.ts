@@ -1,7 +1,8 @@
 /**
  * ClickHouse Settings SQL Queries
  *
- * Centralized queries for session and server settings.
+ * Centralized queries for session and server settings
+ * and settings profiles.
  */
 
 // =============================================================================
@@ -42,3 +43,40 @@ FROM system.server_settings
 WHERE name ILIKE '%${safeSearch}%'
 ORDER BY name ASC
 `;
+
+// =============================================================================
+// Settings Profiles
+// =============================================================================
+
+/** List all settings profiles with their assignments */
+export const SETTINGS_PROFILES_LIST_QUERY = `
+SELECT
+  name,
+  id,
+  storage,
+  num_elements,
+  apply_to_all,
+  apply_to_list,
+  apply_to_except
+FROM system.settings_profiles
+ORDER BY name
+`;
+
+/** Settings, constraints and inherited profiles of every settings profile */
+export const SETTINGS_PROFILE_ELEMENTS_QUERY = `
+SELECT *
+FROM system.settings_profile_elements
+WHERE profile_name IS NOT NULL
+ORDER BY profile_name, index
+`;
+
+/** Server defaults of all session settings, for profile diffs */
+export const SETTING_DEFAULTS_QUERY = `
+SELECT
+  name,
+  default,
+  type,
+  description
+FROM system.settings
+ORDER BY name ASC
+`;
@@ -0,0 +1,26 @@
+import { describe, expect, test } from "bun:test";
+import { getPartitionsQuery } from "./tables";
+
+describe("getPartitionsQuery", () => {
+  test("reads all replicas of the cluster", () => {
+    expect(getPartitionsQuery("db", "events", "main")).toContain(
+      "FROM clusterAllReplicas('main', system.parts)",
+    );
+    expect(getPartitionsQuery("db", "events")).toContain("FROM system.parts");
+  });
+
+  test("takes the max within each shard and sums across shards", () => {
+    const sql = getPartitionsQuery("db", "events", "main");
+
+    // Replicas of a shard hold the same rows; shards hold different ones
+    expect(sql).toContain("max(replica_rows) as shard_rows");
+    expect(sql).toContain("max(replica_bytes) as shard_bytes");
+    expect(sql).toContain("max(replica_parts) as shard_parts");
+    expect(sql).toContain("GROUP BY shard, partition, partition_id");
+    expect(sql).toContain("sum(shard_rows) as rows");
+    expect(sql).toContain("sum(shard_bytes) as bytes_on_disk");
+    expect(sql).toContain("sum(shard_parts) as parts");
+    expect(sql).toContain("shardNum() as shard");
+    expect(sql).not.toContain("sum(replica_bytes) as bytes_on_disk");
+  });
+});
@@ -2,8 +2,8 @@
  * ClickHouse Table-Related SQL Queries
  *
  * Centralized queries for table listing, metadata exploration,
- * column stats, parts, merges, mutations, replicas, dependencies,
- * and structure/data preview.
+ * column stats, parts, skip indexes, projections, merges, mutations,
+ * replicas, dependencies, and structure/data preview.
  */
 
 import { escapeSqlString } from "@/lib/clickhouse/utils";
@@ -220,6 +220,227 @@ ORDER BY bytes_on_disk DESC
 `;
 };
 
+// =============================================================================
+// Table Explorer: Partitions
+// =============================================================================
+
+export const getPartitionsQuery = (
+  safeDatabase: string,
+  safeTable: string,
+  clusterName?: string,
+) => {
+  const tableSource = clusterName
+    ? `clusterAllReplicas('${clusterName}', system.parts)`
+    : "system.parts";
+  // Per host, then the fullest replica of each shard, then summed over
+  // shards: replicas hold copies, shards hold different rows
+  return `
+SELECT
+  partition,
+  partition_id,
+  sum(shard_parts) as parts,
+  sum(shard_rows) as rows,
+  sum(shard_bytes) as bytes_on_disk,
+  max(shard_replicas) as replicas,
+  arrayDistinct(arrayFlatten(groupArray(shard_disks))) as disks,
+  toString(max(shard_modified)) as last_modified
+FROM (
+  SELECT
+    shard,
+    partition,
+    partition_id,
+    max(replica_parts) as shard_parts,
+    max(replica_rows) as shard_rows,
+    max(replica_bytes) as shard_bytes,
+    count() as shard_replicas,
+    arrayDistinct(arrayFlatten(groupArray(replica_disks))) as shard_disks,
+    max(replica_modified) as shard_modified
+  FROM (
+    SELECT
+      shardNum() as shard,
+      hostName() as host,
+      any(partition) as partition,
+      partition_id,
+      count() as replica_parts,
+      sum(rows) as replica_rows,
+      sum(bytes_on_disk) as replica_bytes,
+      groupUniqArray(disk_name) as replica_disks,
+      max(modification_time) as replica_modified
+    FROM ${tableSource}
+    WHERE database = '${safeDatabase}' AND table = '${safeTable}' AND active = 1
+    GROUP BY shard, host, partition_id
+  )
+  GROUP BY shard, partition, partition_id
+)
+GROUP BY partition, partition_id
+ORDER BY partition_id DESC
+`;
+};
+
+export const getDetachedPartitionsQuery = (
+  safeDatabase: string,
+  safeTable: string,
+  clusterName?: string,
+) => {
+  const tableSource = clusterName
+    ? `clusterAllReplicas('${clusterName}', system.detached_parts)`
+    : "system.detached_parts";
+  return `
+SELECT
+  partition_id,
+  count() as parts,
+  arrayFilter(r -> r != '', groupUniqArray(ifNull(reason, ''))) as reasons
+FROM ${tableSource}
+WHERE database = '${safeDatabase}' AND table = '${safeTable}' AND partition_id IS NOT NULL
+GROUP BY partition_id
+ORDER BY partition_id DESC
+`;
+};
+
+/** Disks and volumes of the table's storage policy, targets for MOVE PARTITION */
+export const getTableStorageTargetsQuery = (
+  safeDatabase: string,
+  safeTable: string,
+) => `
+SELECT volume_name, disks
+FROM system.storage_policies
+WHERE policy_name = (
+  SELECT storage_policy FROM system.tables
+  WHERE database = '${safeDatabase}' AND name = '${safeTable}'
+)
+ORDER BY volume_priority
+`;
+
+// =============================================================================
+// Table Explorer: Skip Indexes and Projections
+// =============================================================================
+
+/** Skip indexes with their size summed over replicas (cluster-aware) */
+export const getSkipIndicesQuery = (
+  safeDatabase: string,
+  safeTable: string,
+  clusterName?: string,
+) => {
+  const tableSource = clusterName
+    ? `clusterAllReplicas('${clusterName}', system.data_skipping_indices)`
+    : "system.data_skipping_indices";
+  return `
+SELECT
+  name,
+  any(type) as type,
+  any(expr) as expr,
+  any(granularity) as granularity,
+  sum(data_compressed_bytes) as data_compressed_bytes,
+  sum(data_uncompressed_bytes) as data_uncompressed_bytes,
+  sum(marks) as marks_bytes
+FROM ${tableSource}
+WHERE database = '${safeDatabase}' AND table = '${safeTable}'
+GROUP BY name
+ORDER BY name
+`;
+};
+
+/** Active projection parts per projection, summed over replicas (cluster-aware) */
+export const getProjectionPartsQuery = (
+  safeDatabase: string,
+  safeTable: string,
+  clusterName?: string,
+) => {
+  const tableSource = clusterName
+    ? `clusterAllReplicas('${clusterName}', system.projection_parts)`
+    : "system.projection_parts";
+  return `
+SELECT
+  name,
+  count() as parts,
+  sum(rows) as rows,
+  sum(bytes_on_disk) as bytes_on_disk,
+  sum(data_compressed_bytes) as data_compressed_bytes,
+  sum(data_uncompressed_bytes) as data_uncompressed_bytes
+FROM ${tableSource}
+WHERE database = '${safeDatabase}' AND table = '${safeTable}' AND active = 1
+GROUP BY name
+`;
+};
+
+/**
+ * Marks and parts selected vs. total for recent SELECTs on the table, once
+ * for all of them (name '') and once per index for the queries that read
+ * any of its columns. Index names and columns are escaped here.
+ */
+export const getIndexUsageQuery = (
+  safeDatabase: string,
+  safeTable: string,
+  indexes: { name: string; columns: string[] }[],
+  days: number,
+  clusterName?: string,
+) => {
+  const tableSource = clusterName
+    ? `clusterAllReplicas('${clusterName}', system.query_log)`
+    : "system.query_log";
+  const entries = [{ name: "", columns: [] as string[] }, ...indexes]
+    .map(
+      (idx) =>
+        `('${escapeSqlString(idx.name)}', [${idx.columns
+          .map((c) => `'${safeDatabase}.${safeTable}.${escapeSqlString(c)}'`)
+          .join(", ")}])`,
+    )
+    .join(", ");
+  return `
+SELECT
+  idx.1 as name,
+  count() as queries,
+  countIf(selected_marks < total_marks) as pruning_queries,
+  sum(selected_marks) as selected_marks,
+  sum(total_marks) as total_marks,
+  sum(selected_parts) as selected_parts,
+  sum(total_parts) as total_parts
+FROM (
+  SELECT
+    columns,
+    ProfileEvents['SelectedMarks'] as selected_marks,
+    ProfileEvents['SelectedMarksTotal'] as total_marks,
+    ProfileEvents['SelectedParts'] as selected_parts,
+    ProfileEvents['SelectedPartsTotal'] as total_parts
+  FROM ${tableSource}
+  WHERE type = 'QueryFinish'
+    AND query_kind = 'Select'
+    AND event_date >= today() - ${days}
+    AND event_time >= now() - INTERVAL ${days} DAY
+    AND has(tables, '${safeDatabase}.${safeTable}')
+    AND total_marks > 0
+)
+ARRAY JOIN CAST([${entries}], 'Array(Tuple(String, Array(String)))') as idx
+WHERE idx.1 = '' OR hasAny(columns, idx.2)
+GROUP BY name
+`;
+};
+
+/** Recent SELECTs that read from each projection of the table (cluster-aware) */
+export const getProjectionUsageQuery = (
+  safeDatabase: string,
+  safeTable: string,
+  days: number,
+  clusterName?: string,
+) => {
+  const tableSource = clusterName
+    ? `clusterAllReplicas('${clusterName}', system.query_log)`
+    : "system.query_log";
+  return `
+SELECT
+  arrayJoin(projections) as projection,
+  count() as queries,
+  toString(max(event_time)) as last_used
+FROM ${tableSource}
+WHERE type = 'QueryFinish'
+  AND event_date >= today() - ${days}
+  AND event_time >= now() - INTERVAL ${days} DAY
+  AND has(tables, '${safeDatabase}.${safeTable}')
+  AND notEmpty(projections)
+GROUP BY projection
+`;
+};
+
 // =============================================================================
 // Table Explorer: Merges
 // =============================================================================
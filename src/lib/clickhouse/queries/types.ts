@@ -4,6 +4,8 @@
  * Type definitions for the Discover feature query builder module.
  */
 
+import type { HistogramAggregation } from "@/lib/types/discover";
+
 export interface DiscoverQueryParams {
   database: string;
   table: string;
@@ -18,6 +20,14 @@ export interface DiscoverQueryParams {
   orderBy?: string;
   groupBy?: string;
   search?: string;
+  /** Histogram: column whose top values become separate series */
+  splitBy?: string;
+  /** Histogram: split-by values plotted on their own, from getSplitValuesQuery */
+  splitValues?: string[];
+  /** Histogram: value plotted per bucket, count() by default */
+  aggregation?: HistogramAggregation;
+  /** Histogram: numeric column read by aggregations other than count */
+  aggregationField?: string;
 }
 
 export interface TableMetadata {
@@ -0,0 +1,135 @@
+import { describe, expect, test } from "bun:test";
+import {
+  buildAlterQuotaStatement,
+  buildCreateQuotaStatement,
+  buildDropQuotaStatement,
+  formatQuotaInterval,
+  getQuotaUsageRatio,
+  quotaLimitsToIntervals,
+  validateQuotaDefinition,
+  type QuotaDefinition,
+} from "./quotas";
+
+const DEFINITION: QuotaDefinition = {
+  name: "analysts",
+  keyedBy: "user_name",
+  intervals: [
+    { duration: 3600, limits: { queries: 100, read_bytes: 1e9 } },
+    { duration: 86400, randomized: true, limits: {} },
+  ],
+  applyTo: ["analyst_role", "bob"],
+};
+
+describe("clickhouse/quotas", () => {
+  test("formatQuotaInterval uses the largest whole unit", () => {
+    expect(formatQuotaInterval(3600)).toBe("1 hour");
+    expect(formatQuotaInterval(5400)).toBe("90 minute");
+    expect(formatQuotaInterval(604800)).toBe("1 week");
+    expect(formatQuotaInterval(45)).toBe("45 second");
+  });
+
+  test("buildCreateQuotaStatement renders keys, intervals and assignments", () => {
+    expect(buildCreateQuotaStatement(DEFINITION, " ON CLUSTER `main`")).toBe(
+      "CREATE QUOTA `analysts` ON CLUSTER `main` KEYED BY user_name " +
+        "FOR INTERVAL 1 hour MAX queries = 100, read_bytes = 1000000000, " +
+        "FOR RANDOMIZED INTERVAL 1 day TRACKING ONLY TO `analyst_role`, `bob`",
+    );
+  });
+
+  test("buildCreateQuotaStatement supports NOT KEYED and TO ALL EXCEPT", () => {
+    expect(
+      buildCreateQuotaStatement({
+        name: "global",
+        keyedBy: "none",
+        intervals: [],
+        applyTo: [],
+        applyToAll: true,
+        applyToExcept: ["default"],
+      }),
+    ).toBe("CREATE QUOTA `global` NOT KEYED TO ALL EXCEPT `default`");
+  });
+
+  test("buildAlterQuotaStatement removes dropped intervals and clears assignments", () => {
+    expect(
+      buildAlterQuotaStatement(
+        { ...DEFINITION, intervals: [DEFINITION.intervals[0]], applyTo: [] },
+        [3600, 60],
+      ),
+    ).toBe(
+      "ALTER QUOTA `analysts` KEYED BY user_name " +
+        "FOR INTERVAL 1 hour MAX queries = 100, read_bytes = 1000000000, " +
+        "FOR INTERVAL 1 minute NO LIMITS TO NONE",
+    );
+  });
+
+  test("buildDropQuotaStatement", () => {
+    expect(buildDropQuotaStatement("a`b")).toBe("DROP QUOTA IF EXISTS `a``b`");
+  });
+
+  describe("validateQuotaDefinition", () => {
+    test("accepts a valid definition", () => {
+      expect(validateQuotaDefinition(DEFINITION)).toBeNull();
+    });
+
+    test("rejects bad input", () => {
+      expect(validateQuotaDefinition({ ...DEFINITION, name: "" })).toBe(
+        "Quota name is required",
+      );
+      expect(
+        validateQuotaDefinition({
+          ...DEFINITION,
+          keyedBy: "bogus" as QuotaDefinition["keyedBy"],
+        }),
+      ).toBe("Invalid keyed-by option");
+      expect(
+        validateQuotaDefinition({
+          ...DEFINITION,
+          intervals: [{ duration: 60, limits: { queries: -1 } }],
+        }),
+      ).toBe("Invalid limit for queries");
+      expect(
+        validateQuotaDefinition({
+          ...DEFINITION,
+          intervals: [
+            { duration: 60, limits: {} },
+            { duration: 60, limits: {} },
+          ],
+        }),
+      ).toBe("Duplicate interval: 1 minute");
+      expect(
+        validateQuotaDefinition({
+          ...DEFINITION,
+          intervals: [{ duration: 60, limits: { "drop table": 1 } as never }],
+        }),
+      ).toBe("Unknown quota resource: drop table");
+    });
+  });
+
+  test("getQuotaUsageRatio returns the most consumed resource", () => {
+    expect(
+      getQuotaUsageRatio({
+        queries: 90,
+        max_queries: 100,
+        read_bytes: 10,
+        max_read_bytes: 1000,
+        errors: 5,
+        max_errors: null,
+      }),
+    ).toEqual({ resource: "queries", ratio: 0.9 });
+    expect(getQuotaUsageRatio({ queries: 5, max_queries: null })).toBeNull();
+  });
+
+  test("quotaLimitsToIntervals keeps only set limits", () => {
+    expect(
+      quotaLimitsToIntervals([
+        {
+          quota_name: "q",
+          duration: 3600,
+          is_randomized_interval: false,
+          max_queries: 10,
+          max_errors: null,
+        },
+      ]),
+    ).toEqual([{ duration: 3600, randomized: false, limits: { queries: 10 } }]);
+  });
+});
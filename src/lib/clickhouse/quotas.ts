@@ -0,0 +1,233 @@
+/**
+ * Quota DDL helpers
+ *
+ * Builds CREATE/ALTER/DROP QUOTA statements from a structured definition and
+ * computes how close quota consumers are to their limits.
+ */
+
+import type { SystemQuotaLimit } from "./types";
+import { buildToClause, type AccessTargets } from "./access-targets";
+import { quoteIdentifier } from "./utils";
+
+export const QUOTA_KEY_TYPES = [
+  "none",
+  "user_name",
+  "ip_address",
+  "forwarded_ip_address",
+  "client_key",
+  "client_key,user_name",
+  "client_key,ip_address",
+] as const;
+
+export type QuotaKeyType = (typeof QUOTA_KEY_TYPES)[number];
+
+/** Resources that can be limited per interval */
+export const QUOTA_RESOURCES = [
+  "queries",
+  "query_selects",
+  "query_inserts",
+  "errors",
+  "result_rows",
+  "result_bytes",
+  "read_rows",
+  "read_bytes",
+  "written_bytes",
+  "execution_time",
+  "failed_sequential_authentications",
+] as const;
+
+export type QuotaResource = (typeof QUOTA_RESOURCES)[number];
+
+export interface QuotaInterval {
+  /** Interval length in seconds */
+  duration: number;
+  randomized?: boolean;
+  limits: Partial<Record<QuotaResource, number>>;
+}
+
+export interface QuotaDefinition extends AccessTargets {
+  name: string;
+  keyedBy: QuotaKeyType;
+  intervals: QuotaInterval[];
+}
+
+const INTERVAL_UNITS: Array<[string, number]> = [
+  ["year", 365 * 86400],
+  ["week", 7 * 86400],
+  ["day", 86400],
+  ["hour", 3600],
+  ["minute", 60],
+];
+
+/**
+ * Format a duration in seconds as the largest whole ClickHouse interval unit,
+ * e.g. 3600 -> "1 hour", 90 -> "90 second"
+ */
+export function formatQuotaInterval(seconds: number): string {
+  for (const [unit, size] of INTERVAL_UNITS) {
+    if (seconds >= size && seconds % size === 0) {
+      return `${seconds / size} ${unit}`;
+    }
+  }
+  return `${seconds} second`;
+}
+
+function buildIntervalClause(interval: QuotaInterval): string {
+  const duration = Math.floor(interval.duration);
+  if (!(duration > 0)) {
+    throw new Error("Quota interval duration must be a positive number of seconds");
+  }
+
+  const limits = QUOTA_RESOURCES.filter((r) => interval.limits[r] !== undefined).map(
+    (resource) => {
+      const value = Number(interval.limits[resource]);
+      if (!Number.isFinite(value) || value < 0) {
+        throw new Error(`Invalid limit for ${resource}`);
+      }
+      return `${resource} = ${value}`;
+    },
+  );
+
+  const randomized = interval.randomized ? "RANDOMIZED " : "";
+  const body = limits.length > 0 ? `MAX ${limits.join(", ")}` : "TRACKING ONLY";
+  return `FOR ${randomized}INTERVAL ${formatQuotaInterval(duration)} ${body}`;
+}
+
+function buildKeyedByClause(keyedBy: QuotaKeyType): string {
+  return keyedBy === "none" ? "NOT KEYED" : `KEYED BY ${keyedBy}`;
+}
+
+/**
+ * CREATE QUOTA statement for a new quota
+ */
+export function buildCreateQuotaStatement(
+  def: QuotaDefinition,
+  onCluster: string = "",
+): string {
+  const intervals = def.intervals.map(buildIntervalClause);
+  return [
+    `CREATE QUOTA ${quoteIdentifier(def.name)}${onCluster}`,
+    buildKeyedByClause(def.keyedBy),
+    intervals.join(", "),
+  ]
+    .filter(Boolean)
+    .join(" ")
+    .concat(buildToClause(def, false));
+}
+
+/**
+ * ALTER QUOTA statement replacing keys, intervals and assignments.
+ * Intervals present before but missing from the definition are removed.
+ */
+export function buildAlterQuotaStatement(
+  def: QuotaDefinition,
+  previousDurations: number[],
+  onCluster: string = "",
+): string {
+  const durations = new Set(def.intervals.map((i) => Math.floor(i.duration)));
+  const removed = previousDurations
+    .filter((d) => !durations.has(d))
+    .map((d) => `FOR INTERVAL ${formatQuotaInterval(d)} NO LIMITS`);
+  const intervals = [...def.intervals.map(buildIntervalClause), ...removed];
+
+  return [
+    `ALTER QUOTA ${quoteIdentifier(def.name)}${onCluster}`,
+    buildKeyedByClause(def.keyedBy),
+    intervals.join(", "),
+  ]
+    .filter(Boolean)
+    .join(" ")
+    .concat(buildToClause(def, true));
+}
+
+export function buildDropQuotaStatement(name: string, onCluster: string = ""): string {
+  return `DROP QUOTA IF EXISTS ${quoteIdentifier(name)}${onCluster}`;
+}
+
+/**
+ * Highest used/limit ratio across all limited resources of a usage row
+ * from system.quotas_usage. Returns null when nothing is limited.
+ */
+export function getQuotaUsageRatio(
+  usage: Record<string, unknown>,
+): { resource: QuotaResource; ratio: number } | null {
+  let worst: { resource: QuotaResource; ratio: number } | null = null;
+
+  for (const resource of QUOTA_RESOURCES) {
+    const max = Number(usage[`max_${resource}`]);
+    const used = Number(usage[resource]);
+    if (!Number.isFinite(max) || max <= 0 || !Number.isFinite(used)) continue;
+
+    const ratio = used / max;
+    if (!worst || ratio > worst.ratio) {
+      worst = { resource, ratio };
+    }
+  }
+
+  return worst;
+}
+
+/**
+ * Validate a quota definition received from a client.
+ * Returns an error message, or null when valid.
+ */
+export function validateQuotaDefinition(def: Partial<QuotaDefinition>): string | null {
+  if (!def.name || typeof def.name !== "string") {
+    return "Quota name is required";
+  }
+  if (!def.keyedBy || !QUOTA_KEY_TYPES.includes(def.keyedBy)) {
+    return "Invalid keyed-by option";
+  }
+  if (!Array.isArray(def.intervals)) {
+    return "Intervals must be a list";
+  }
+
+  const durations = new Set<number>();
+  for (const interval of def.intervals) {
+    const duration = Math.floor(Number(interval?.duration));
+    if (!(duration > 0)) {
+      return "Interval duration must be a positive number of seconds";
+    }
+    if (durations.has(duration)) {
+      return `Duplicate interval: ${formatQuotaInterval(duration)}`;
+    }
+    durations.add(duration);
+
+    for (const [resource, value] of Object.entries(interval.limits ?? {})) {
+      if (!QUOTA_RESOURCES.includes(resource as QuotaResource)) {
+        return `Unknown quota resource: ${resource}`;
+      }
+      if (!Number.isFinite(Number(value)) || Number(value) < 0) {
+        return `Invalid limit for ${resource}`;
+      }
+    }
+  }
+
+  if (def.applyTo !== undefined && !Array.isArray(def.applyTo)) {
+    return "applyTo must be a list of users or roles";
+  }
+
+  return null;
+}
+
+/**
+ * Convert system.quota_limits rows of one quota into interval definitions
+ */
+export function quotaLimitsToIntervals(
+  rows: SystemQuotaLimit[],
+): QuotaInterval[] {
+  return rows.map((row) => {
+    const limits: Partial<Record<QuotaResource, number>> = {};
+    for (const resource of QUOTA_RESOURCES) {
+      const value = row[`max_${resource}`];
+      if (value !== null && value !== undefined) {
+        limits[resource] = Number(value);
+      }
+    }
+    return {
+      duration: Number(row.duration),
+      randomized: Boolean(row.is_randomized_interval),
+      limits,
+    };
+  });
+}
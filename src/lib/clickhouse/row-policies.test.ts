@@ -0,0 +1,155 @@
+import { describe, expect, test } from "bun:test";
+import {
+  buildAlterRowPolicyStatement,
+  buildCreateRowPolicyStatement,
+  buildDropRowPolicyStatement,
+  buildEffectiveRowFilter,
+  buildRowPolicyPreviewQuery,
+  expandRoleGrants,
+  extractConditionColumns,
+  findUnknownColumns,
+  validateRowPolicyDefinition,
+  type RowPolicyDefinition,
+  type RowPolicyFilter,
+} from "./row-policies";
+
+const DEFINITION: RowPolicyDefinition = {
+  name: "tenant_a",
+  database: "app",
+  table: "events",
+  condition: "tenant_id = 'a'",
+  restrictive: false,
+  applyTo: ["tenant_a_role"],
+};
+
+function policy(
+  filter: string,
+  to: string[],
+  restrictive = false,
+  all = false,
+): RowPolicyFilter {
+  return {
+    select_filter: filter,
+    is_restrictive: restrictive,
+    apply_to_all: all,
+    apply_to_list: all ? [] : to,
+    apply_to_except: all ? to : [],
+  };
+}
+
+describe("clickhouse/row-policies", () => {
+  test("buildCreateRowPolicyStatement", () => {
+    expect(buildCreateRowPolicyStatement(DEFINITION, " ON CLUSTER `main`")).toBe(
+      "CREATE ROW POLICY `tenant_a` ON CLUSTER `main` ON `app`.`events` " +
+        "FOR SELECT USING tenant_id = 'a' AS PERMISSIVE TO `tenant_a_role`",
+    );
+  });
+
+  test("buildAlterRowPolicyStatement clears assignments with TO NONE", () => {
+    expect(
+      buildAlterRowPolicyStatement({ ...DEFINITION, restrictive: true, applyTo: [] }),
+    ).toBe(
+      "ALTER ROW POLICY `tenant_a` ON `app`.`events` AS RESTRICTIVE " +
+        "FOR SELECT USING tenant_id = 'a' TO NONE",
+    );
+    expect(
+      buildAlterRowPolicyStatement({
+        ...DEFINITION,
+        applyToAll: true,
+        applyToExcept: ["admin"],
+      }),
+    ).toContain("TO ALL EXCEPT `admin`");
+  });
+
+  test("buildDropRowPolicyStatement", () => {
+    expect(buildDropRowPolicyStatement(DEFINITION, " ON CLUSTER `main`")).toBe(
+      "DROP ROW POLICY IF EXISTS `tenant_a` ON `app`.`events` ON CLUSTER `main`",
+    );
+  });
+
+  describe("extractConditionColumns", () => {
+    test("skips literals, functions and keywords", () => {
+      expect(
+        extractConditionColumns(
+          "tenant_id = 'it''s AND x' AND lower(region) IN ('eu', 'us') AND ts > now() - INTERVAL 1 DAY AND NOT deleted",
+        ),
+      ).toEqual(["tenant_id", "region", "ts", "deleted"]);
+    });
+
+    test("handles quoted identifiers, lambdas and numbers", () => {
+      expect(
+        extractConditionColumns(
+          "has(`user tags`, 'x') OR arrayExists(t -> t = 1e3, \"scores\") OR attrs.team = 0x1F",
+        ),
+      ).toEqual(["user tags", "scores", "attrs.team"]);
+    });
+  });
+
+  test("findUnknownColumns accepts subcolumns of known columns", () => {
+    expect(
+      findUnknownColumns("tenant_id = 1 AND attrs.team = 'x' AND missing = 2", [
+        "tenant_id",
+        "attrs",
+      ]),
+    ).toEqual(["missing"]);
+  });
+
+  test("validateRowPolicyDefinition", () => {
+    expect(validateRowPolicyDefinition(DEFINITION)).toBeNull();
+    expect(validateRowPolicyDefinition({ ...DEFINITION, condition: " " })).toBe(
+      "USING condition is required",
+    );
+    expect(
+      validateRowPolicyDefinition({ ...DEFINITION, condition: "1; DROP TABLE x" }),
+    ).toBe("USING condition must be a single expression");
+    expect(
+      validateRowPolicyDefinition({ ...DEFINITION, condition: "note = 'a;b'" }),
+    ).toBeNull();
+  });
+
+  describe("buildEffectiveRowFilter", () => {
+    test("table without policies is unfiltered", () => {
+      expect(buildEffectiveRowFilter([], ["r"])).toBe("1");
+    });
+
+    test("roles no policy applies to are unfiltered", () => {
+      expect(buildEffectiveRowFilter([policy("a = 1", ["other"])], ["r"])).toBe("1");
+      expect(buildEffectiveRowFilter([policy("a = 1", ["r"], false, true)], ["r"])).toBe("1");
+    });
+
+    test("roles with only restrictive policies see nothing", () => {
+      expect(buildEffectiveRowFilter([policy("a = 1", ["r"], true)], ["r"])).toBe("0");
+    });
+
+    test("permissive policies are OR-ed and restrictive AND-ed", () => {
+      expect(
+        buildEffectiveRowFilter(
+          [
+            policy("a = 1", ["r"]),
+            policy("a = 2", ["parent"]),
+            policy("b > 0", [], true, true),
+            policy("c = 0", ["r"], true, true),
+          ],
+          ["r", "parent"],
+        ),
+      ).toBe("((a = 1) OR (a = 2)) AND (b > 0)");
+    });
+  });
+
+  test("expandRoleGrants follows nested grants without looping", () => {
+    expect(
+      expandRoleGrants("a", [
+        { role_name: "a", granted_role_name: "b" },
+        { role_name: "b", granted_role_name: "c" },
+        { role_name: "c", granted_role_name: "a" },
+        { role_name: null, granted_role_name: "d" },
+      ]),
+    ).toEqual(["a", "b", "c"]);
+  });
+
+  test("buildRowPolicyPreviewQuery", () => {
+    expect(buildRowPolicyPreviewQuery("app", "events", ["1", "(a = 1)"])).toBe(
+      "SELECT count() AS total, countIf(1) AS f0, countIf((a = 1)) AS f1 FROM `app`.`events`",
+    );
+  });
+});
@@ -0,0 +1,274 @@
+/**
+ * Row policy helpers
+ *
+ * Builds CREATE/ALTER/DROP ROW POLICY statements, checks which columns a
+ * USING condition references, and reproduces how ClickHouse combines the
+ * policies of a table into the filter a given role ends up with.
+ */
+
+import { buildToClause, type AccessTargets } from "./access-targets";
+import { quoteIdentifier } from "./utils";
+
+export interface RowPolicyDefinition extends AccessTargets {
+  /** Short policy name (without the ON db.table suffix) */
+  name: string;
+  database: string;
+  table: string;
+  /** USING condition */
+  condition: string;
+  restrictive: boolean;
+}
+
+/** Assignment columns shared by system.row_policies rows */
+export interface RowPolicyAssignment {
+  apply_to_all: boolean | number;
+  apply_to_list: string[];
+  apply_to_except: string[];
+}
+
+export interface RowPolicyFilter extends RowPolicyAssignment {
+  select_filter: string | null;
+  is_restrictive: boolean | number;
+}
+
+function buildTarget(def: Pick<RowPolicyDefinition, "database" | "table">): string {
+  return `${quoteIdentifier(def.database)}.${quoteIdentifier(def.table)}`;
+}
+
+function buildKind(restrictive: boolean): string {
+  return restrictive ? "RESTRICTIVE" : "PERMISSIVE";
+}
+
+/**
+ * CREATE ROW POLICY statement for a new policy
+ */
+export function buildCreateRowPolicyStatement(
+  def: RowPolicyDefinition,
+  onCluster: string = "",
+): string {
+  return (
+    `CREATE ROW POLICY ${quoteIdentifier(def.name)}${onCluster} ON ${buildTarget(def)}` +
+    ` FOR SELECT USING ${def.condition.trim()} AS ${buildKind(def.restrictive)}` +
+    buildToClause(def, false)
+  );
+}
+
+/**
+ * ALTER ROW POLICY statement replacing condition, kind and assignments
+ */
+export function buildAlterRowPolicyStatement(
+  def: RowPolicyDefinition,
+  onCluster: string = "",
+): string {
+  return (
+    `ALTER ROW POLICY ${quoteIdentifier(def.name)}${onCluster} ON ${buildTarget(def)}` +
+    ` AS ${buildKind(def.restrictive)} FOR SELECT USING ${def.condition.trim()}` +
+    buildToClause(def, true)
+  );
+}
+
+export function buildDropRowPolicyStatement(
+  def: Pick<RowPolicyDefinition, "name" | "database" | "table">,
+  onCluster: string = "",
+): string {
+  return `DROP ROW POLICY IF EXISTS ${quoteIdentifier(def.name)} ON ${buildTarget(def)}${onCluster}`;
+}
+
+// Words that may appear bare in a condition without being column references
+const CONDITION_KEYWORDS = new Set([
+  "and", "or", "not", "in", "is", "null", "like", "ilike", "between",
+  "true", "false", "case", "when", "then", "else", "end", "as", "global",
+  "interval", "second", "minute", "hour", "day", "week", "month", "quarter", "year",
+  "asc", "desc", "distinct", "exists", "select", "from", "where",
+]);
+
+/**
+ * Column names referenced by a USING condition.
+ *
+ * Function names, keywords, string literals and lambda parameters are
+ * skipped. Quoted identifiers (`col` or "col") are returned unquoted.
+ */
+export function extractConditionColumns(condition: string): string[] {
+  const identifiers: string[] = [];
+  const lambdaParams = new Set<string>();
+  let i = 0;
+
+  const nextNonSpace = (from: number) => {
+    let j = from;
+    while (j < condition.length && /\s/.test(condition[j])) j++;
+    return j;
+  };
+
+  while (i < condition.length) {
+    const ch = condition[i];
+
+    if (ch === "'") {
+      // String literal; \' and '' are escapes
+      i++;
+      while (i < condition.length) {
+        if (condition[i] === "\\") {
+          i += 2;
+        } else if (condition[i] === "'") {
+          if (condition[i + 1] === "'") {
+            i += 2;
+          } else {
+            i++;
+            break;
+          }
+        } else {
+          i++;
+        }
+      }
+      continue;
+    }
+
+    if (ch === "`" || ch === '"') {
+      const close = condition.indexOf(ch, i + 1);
+      const end = close === -1 ? condition.length : close;
+      const name = condition.slice(i + 1, end);
+      i = end + 1;
+      if (condition[nextNonSpace(i)] !== "(") identifiers.push(name);
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(ch)) {
+      let end = i + 1;
+      while (end < condition.length && /[A-Za-z0-9_.]/.test(condition[end])) end++;
+      const word = condition.slice(i, end);
+      const next = nextNonSpace(end);
+      i = end;
+
+      if (condition[next] === "(") continue; // function call
+      if (condition.startsWith("->", next)) {
+        lambdaParams.add(word);
+        continue;
+      }
+      if (CONDITION_KEYWORDS.has(word.toLowerCase())) continue;
+      identifiers.push(word);
+      continue;
+    }
+
+    if (/[0-9]/.test(ch)) {
+      // Numeric literal, including 1e6 and 0x1F
+      while (i < condition.length && /[0-9A-Za-z_.]/.test(condition[i])) i++;
+      continue;
+    }
+
+    i++;
+  }
+
+  return [...new Set(identifiers.filter((name) => !lambdaParams.has(name)))];
+}
+
+/**
+ * Columns referenced by the condition that the table does not have.
+ * Tuple element access (col.1) and nested subcolumns (col.key) are accepted
+ * when their top-level column exists.
+ */
+export function findUnknownColumns(condition: string, columns: string[]): string[] {
+  const known = new Set(columns);
+  return extractConditionColumns(condition).filter(
+    (name) => !known.has(name) && !known.has(name.split(".")[0]),
+  );
+}
+
+/**
+ * Validate a row policy definition received from a client.
+ * Returns an error message, or null when valid.
+ */
+export function validateRowPolicyDefinition(
+  def: Partial<RowPolicyDefinition>,
+): string | null {
+  if (!def.name || typeof def.name !== "string") {
+    return "Policy name is required";
+  }
+  if (!def.database || !def.table) {
+    return "Database and table are required";
+  }
+  if (!def.condition || typeof def.condition !== "string" || !def.condition.trim()) {
+    return "USING condition is required";
+  }
+  // Statement separators outside string literals would end the DDL early
+  if (def.condition.replace(/'(?:\\.|''|[^'\\])*'/g, "''").includes(";")) {
+    return "USING condition must be a single expression";
+  }
+  if (def.applyTo !== undefined && !Array.isArray(def.applyTo)) {
+    return "applyTo must be a list of users or roles";
+  }
+  return null;
+}
+
+/** Whether a policy applies to any of the given user/role names */
+export function rowPolicyAppliesTo(
+  policy: RowPolicyAssignment,
+  names: string[],
+): boolean {
+  if (policy.apply_to_all) {
+    return !names.some((n) => policy.apply_to_except.includes(n));
+  }
+  return names.some((n) => policy.apply_to_list.includes(n));
+}
+
+/**
+ * Filter a role sees for a table, combining policies the way ClickHouse does:
+ * permissive conditions are OR-ed, restrictive ones AND-ed onto the result.
+ * Roles no policy applies to see every row, as with the server setting
+ * `access_control_improvements.users_without_row_policies_can_read_rows`
+ * set to true (the default, and what the deployment guide configures).
+ * Roles covered only by restrictive policies see nothing.
+ *
+ * @param tablePolicies - All policies defined on the table
+ * @param names - The role plus every role it inherits
+ */
+export function buildEffectiveRowFilter(
+  tablePolicies: RowPolicyFilter[],
+  names: string[],
+): string {
+  const applicable = tablePolicies.filter((p) => rowPolicyAppliesTo(p, names));
+  if (applicable.length === 0) return "1";
+
+  const condition = (p: RowPolicyFilter) => `(${p.select_filter?.trim() || "1"})`;
+
+  const permissive = applicable.filter((p) => !p.is_restrictive).map(condition);
+  if (permissive.length === 0) return "0";
+
+  const restrictive = applicable.filter((p) => p.is_restrictive).map(condition);
+  const allowed = permissive.length > 1 ? `(${permissive.join(" OR ")})` : permissive[0];
+  return [allowed, ...restrictive].join(" AND ");
+}
+
+/**
+ * A role plus all roles granted to it, directly or transitively
+ */
+export function expandRoleGrants(
+  role: string,
+  grants: Array<{ role_name: string | null; granted_role_name: string }>,
+): string[] {
+  const result = new Set([role]);
+  const queue = [role];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const grant of grants) {
+      if (grant.role_name === current && !result.has(grant.granted_role_name)) {
+        result.add(grant.granted_role_name);
+        queue.push(grant.granted_role_name);
+      }
+    }
+  }
+
+  return [...result];
+}
+
+/**
+ * Single-scan query counting the rows visible under each filter.
+ * Columns are named f0, f1, ... in filter order; total is the unfiltered count.
+ */
+export function buildRowPolicyPreviewQuery(
+  database: string,
+  table: string,
+  filters: string[],
+): string {
+  const counts = filters.map((filter, i) => `countIf(${filter}) AS f${i}`);
+  return `SELECT count() AS total${counts.map((c) => `, ${c}`).join("")} FROM ${quoteIdentifier(database)}.${quoteIdentifier(table)}`;
+}
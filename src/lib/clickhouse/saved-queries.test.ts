@@ -0,0 +1,104 @@
+import { describe, expect, test } from "bun:test";
+import {
+  buildSavedQueryAccessFilter,
+  findUnsharableRoles,
+  getInsertSavedQueryStatement,
+  getLatestSavedQueriesQuery,
+  isSavedItemId,
+  normalizeFolder,
+  normalizeTags,
+} from "./saved-queries";
+
+describe("clickhouse/saved-queries", () => {
+  describe("buildSavedQueryAccessFilter", () => {
+    test("matches owned and public queries", () => {
+      expect(buildSavedQueryAccessFilter("alice", [])).toBe(
+        "(created_by = 'alice' OR visibility = 'public')",
+      );
+    });
+
+    test("matches queries shared with the user's roles", () => {
+      const filter = buildSavedQueryAccessFilter("alice", new Set(["ops", "it's"]));
+      expect(filter).toContain(
+        "(visibility = 'roles' AND hasAny(shared_roles, ['ops', 'it''s']))",
+      );
+    });
+
+    test("escapes the username", () => {
+      expect(buildSavedQueryAccessFilter("o'neil", [])).toContain(
+        "created_by = 'o''neil'",
+      );
+    });
+  });
+
+  test("getLatestSavedQueriesQuery picks the latest revision per id", () => {
+    const sql = getLatestSavedQueriesQuery("1 = 1", "abc");
+    expect(sql).toContain("WHERE id = 'abc'");
+    // Concurrent edits can write the same revision; the later one wins
+    expect(sql).toContain("ORDER BY id, revision DESC, updated_at DESC");
+    expect(sql).toContain("LIMIT 1 BY id");
+    expect(sql).toContain("WHERE is_deleted = 0 AND 1 = 1");
+  });
+
+  test("isSavedItemId only accepts UUIDs", () => {
+    expect(isSavedItemId("3f2504e0-4f89-11d3-9a0c-0305e82c3301")).toBe(true);
+    expect(isSavedItemId("not-a-uuid")).toBe(false);
+    expect(isSavedItemId("3f2504e0-4f89-11d3-9a0c-0305e82c3301' OR 1")).toBe(false);
+  });
+
+  test("getInsertSavedQueryStatement escapes values", () => {
+    const sql = getInsertSavedQueryStatement({
+      id: "abc",
+      name: "Top 'users'",
+      sql: "SELECT 'x'",
+      description: "",
+      created_by: "alice",
+      folder: "ops/daily",
+      tags: ["slow"],
+      visibility: "roles",
+      shared_roles: ["ops"],
+      revision: 3,
+      updated_by: "alice",
+      is_deleted: 0,
+      params: { "it's": "1" },
+    });
+    expect(sql).toContain("'Top ''users'''");
+    expect(sql).toContain("'SELECT ''x'''");
+    expect(sql).toContain("['slow']");
+    expect(sql).toContain("now(),\n      now()");
+    expect(sql).toContain(" 3,\n");
+    expect(sql).toContain("map('it''s', '1')");
+  });
+
+  test("getInsertSavedQueryStatement stores empty parameters as an empty map", () => {
+    const sql = getInsertSavedQueryStatement({
+      id: "abc",
+      name: "q",
+      sql: "SELECT 1",
+      description: "",
+      created_by: "alice",
+      folder: "",
+      tags: [],
+      visibility: "private",
+      shared_roles: [],
+      revision: 1,
+      updated_by: "alice",
+      is_deleted: 0,
+      params: {},
+    });
+    expect(sql).toContain("map()");
+  });
+
+  test("normalizeTags trims, lowercases and dedupes", () => {
+    expect(normalizeTags([" Slow ", "slow", "", "Perf"])).toEqual(["slow", "perf"]);
+  });
+
+  test("normalizeFolder trims path segments", () => {
+    expect(normalizeFolder(" ops / daily/ ")).toBe("ops/daily");
+    expect(normalizeFolder("")).toBe("");
+  });
+
+  test("findUnsharableRoles returns roles the user does not hold", () => {
+    expect(findUnsharableRoles(["ops", "admin"], new Set(["ops"]))).toEqual(["admin"]);
+  });
+});
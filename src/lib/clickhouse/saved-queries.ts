@@ -0,0 +1,187 @@
+/**
+ * Saved query sharing and revision helpers
+ *
+ * Builds the SQL used by the saved queries API on top of the append-only
+ * saved_queries table (see metadata.ts).
+ */
+
+import type { ClickHouseClient } from "./clients/types";
+import { escapeSqlString } from "./utils";
+import { METADATA_DB, SAVED_QUERIES_TABLE } from "./metadata";
+
+export const SAVED_QUERY_VISIBILITIES = ["private", "roles", "public"] as const;
+
+/**
+ * Who can see a saved query:
+ * - private: only the owner
+ * - roles: the owner and users holding any of shared_roles
+ * - public: everyone on the cluster
+ */
+export type SavedQueryVisibility = (typeof SAVED_QUERY_VISIBILITIES)[number];
+
+export interface SavedQueryRow {
+  id: string;
+  name: string;
+  sql: string;
+  description: string;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+  folder: string;
+  tags: string[];
+  visibility: SavedQueryVisibility;
+  shared_roles: string[];
+  revision: number;
+  updated_by: string;
+  is_deleted: number;
+  /** Last used values of the query's {name:Type} parameters */
+  params: Record<string, string>;
+}
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Whether an ID from a URL can be a saved query or search ID. Anything else
+ * would make ClickHouse fail to parse the UUID instead of finding nothing.
+ */
+export function isSavedItemId(id: string): boolean {
+  return UUID_REGEX.test(id);
+}
+
+export function sqlStringArray(values: string[]): string {
+  return `[${values.map((v) => `'${escapeSqlString(v)}'`).join(", ")}]`;
+}
+
+function sqlStringMap(values: Record<string, string>): string {
+  const entries = Object.entries(values).flatMap(([key, value]) => [
+    `'${escapeSqlString(key)}'`,
+    `'${escapeSqlString(value)}'`,
+  ]);
+  return `map(${entries.join(", ")})`;
+}
+
+/**
+ * WHERE condition matching the saved queries a user is allowed to see
+ */
+export function buildSavedQueryAccessFilter(
+  username: string,
+  roles: Iterable<string>,
+): string {
+  const roleList = [...roles];
+  const conditions = [
+    `created_by = '${escapeSqlString(username)}'`,
+    `visibility = 'public'`,
+  ];
+  if (roleList.length > 0) {
+    conditions.push(
+      `(visibility = 'roles' AND hasAny(shared_roles, ${sqlStringArray(roleList)}))`,
+    );
+  }
+  return `(${conditions.join(" OR ")})`;
+}
+
+/**
+ * Latest revision of every saved query visible to the user. Two concurrent
+ * edits can write the same revision; the later updated_at wins, so the
+ * current version does not change from one read to the next.
+ */
+export function getLatestSavedQueriesQuery(accessFilter: string, id?: string): string {
+  const idFilter = id ? `WHERE id = '${escapeSqlString(id)}'` : "";
+  return `
+    SELECT * FROM (
+      SELECT * FROM ${METADATA_DB}.${SAVED_QUERIES_TABLE}
+      ${idFilter}
+      ORDER BY id, revision DESC, updated_at DESC
+      LIMIT 1 BY id
+    )
+    WHERE is_deleted = 0 AND ${accessFilter}
+    ORDER BY folder, name
+  `;
+}
+
+/**
+ * Load the latest revision of a saved query, or null when it does not exist,
+ * was deleted, or is not visible to the user
+ */
+export async function getSavedQuery(
+  client: ClickHouseClient,
+  id: string,
+  accessFilter: string,
+): Promise<SavedQueryRow | null> {
+  const result = await client.query<SavedQueryRow>(
+    getLatestSavedQueriesQuery(accessFilter, id),
+  );
+  return result.data[0] ?? null;
+}
+
+/**
+ * All revisions of a saved query, newest first
+ */
+export function getSavedQueryRevisionsQuery(id: string): string {
+  return `
+    SELECT * FROM ${METADATA_DB}.${SAVED_QUERIES_TABLE}
+    WHERE id = '${escapeSqlString(id)}' AND is_deleted = 0
+    ORDER BY revision DESC, updated_at DESC
+  `;
+}
+
+/**
+ * INSERT statement for a saved query row (new query, new revision or tombstone)
+ */
+export function getInsertSavedQueryStatement(
+  row: Omit<SavedQueryRow, "created_at" | "updated_at"> & { created_at?: string },
+): string {
+  const createdAt = row.created_at
+    ? `parseDateTimeBestEffort('${escapeSqlString(row.created_at)}')`
+    : "now()";
+  return `
+    INSERT INTO ${METADATA_DB}.${SAVED_QUERIES_TABLE}
+      (id, name, sql, description, created_by, created_at, updated_at, folder, tags, visibility, shared_roles, revision, updated_by, is_deleted, params)
+    VALUES (
+      '${escapeSqlString(row.id)}',
+      '${escapeSqlString(row.name)}',
+      '${escapeSqlString(row.sql)}',
+      '${escapeSqlString(row.description)}',
+      '${escapeSqlString(row.created_by)}',
+      ${createdAt},
+      now(),
+      '${escapeSqlString(row.folder)}',
+      ${sqlStringArray(row.tags)},
+      '${escapeSqlString(row.visibility)}',
+      ${sqlStringArray(row.shared_roles)},
+      ${Math.max(1, Math.floor(row.revision))},
+      '${escapeSqlString(row.updated_by)}',
+      ${row.is_deleted ? 1 : 0},
+      ${sqlStringMap(row.params)}
+    )
+  `;
+}
+
+/**
+ * Normalize user-entered tags: trimmed, lowercased, unique
+ */
+export function normalizeTags(tags: string[]): string[] {
+  return [...new Set(tags.map((t) => t.trim().toLowerCase()).filter(Boolean))];
+}
+
+/**
+ * Normalize a folder path: "a / b/" -> "a/b"
+ */
+export function normalizeFolder(folder: string): string {
+  return folder
+    .split("/")
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .join("/");
+}
+
+/**
+ * Roles in sharedRoles that the user does not hold. Users may only share
+ * queries with roles they belong to.
+ */
+export function findUnsharableRoles(
+  sharedRoles: string[],
+  userRoles: Set<string>,
+): string[] {
+  return sharedRoles.filter((role) => !userRoles.has(role));
+}
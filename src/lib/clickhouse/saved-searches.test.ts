@@ -0,0 +1,47 @@
+import { describe, expect, test } from "bun:test";
+import {
+  getInsertSavedSearchStatement,
+  getLatestSavedSearchesQuery,
+} from "./saved-searches";
+
+describe("clickhouse/saved-searches", () => {
+  test("getLatestSavedSearchesQuery picks the latest revision per id", () => {
+    const sql = getLatestSavedSearchesQuery("1 = 1", "abc");
+    expect(sql).toContain("clicklens_metadata.saved_searches");
+    expect(sql).toContain("WHERE id = 'abc'");
+    expect(sql).toContain("LIMIT 1 BY id");
+    expect(sql).toContain("WHERE is_deleted = 0 AND 1 = 1");
+  });
+
+  test("getInsertSavedSearchStatement escapes values", () => {
+    const sql = getInsertSavedSearchStatement({
+      id: "abc",
+      name: "5xx on 'api'",
+      description: "",
+      database: "logs",
+      table: "requests",
+      time_column: "timestamp",
+      columns: ["status", "path"],
+      filter: "host:api* AND status:>=500",
+      query_language: "kql",
+      time_from: "now-1h",
+      time_to: "now",
+      sort: "timestamp:desc",
+      group_by: ["it's"],
+      histogram_interval: "1 minute",
+      created_by: "alice",
+      visibility: "roles",
+      shared_roles: ["oncall"],
+      revision: 2,
+      updated_by: "alice",
+      is_deleted: 0,
+    });
+    expect(sql).toContain("'5xx on ''api'''");
+    expect(sql).toContain("['status', 'path']");
+    expect(sql).toContain("'host:api* AND status:>=500'");
+    expect(sql).toContain("['it''s']");
+    expect(sql).toContain("'1 minute'");
+    expect(sql).toContain("['oncall']");
+    expect(sql).toContain(" 2,\n");
+  });
+});
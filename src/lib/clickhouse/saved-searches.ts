@@ -0,0 +1,99 @@
+/**
+ * Saved Discover search helpers
+ *
+ * Builds the SQL used by the saved searches API on top of the append-only
+ * saved_searches table (see metadata.ts). Visibility and sharing work the
+ * same way as for saved queries, so the access filter is shared.
+ */
+
+import type { ClickHouseClient } from "./clients/types";
+import { escapeSqlString } from "./utils";
+import { METADATA_DB, SAVED_SEARCHES_TABLE } from "./metadata";
+import { sqlStringArray, type SavedQueryVisibility } from "./saved-queries";
+import type { SavedSearchView } from "@/lib/types/discover";
+
+export interface SavedSearchRow extends SavedSearchView {
+  id: string;
+  name: string;
+  description: string;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+  visibility: SavedQueryVisibility;
+  shared_roles: string[];
+  revision: number;
+  updated_by: string;
+  is_deleted: number;
+}
+
+/**
+ * Latest revision of every saved search visible to the user; ties between
+ * concurrent edits go to the later updated_at, as for saved queries
+ */
+export function getLatestSavedSearchesQuery(accessFilter: string, id?: string): string {
+  const idFilter = id ? `WHERE id = '${escapeSqlString(id)}'` : "";
+  return `
+    SELECT * FROM (
+      SELECT * FROM ${METADATA_DB}.${SAVED_SEARCHES_TABLE}
+      ${idFilter}
+      ORDER BY id, revision DESC, updated_at DESC
+      LIMIT 1 BY id
+    )
+    WHERE is_deleted = 0 AND ${accessFilter}
+    ORDER BY name
+  `;
+}
+
+/**
+ * Load the latest revision of a saved search, or null when it does not exist,
+ * was deleted, or is not visible to the user
+ */
+export async function getSavedSearch(
+  client: ClickHouseClient,
+  id: string,
+  accessFilter: string,
+): Promise<SavedSearchRow | null> {
+  const result = await client.query<SavedSearchRow>(
+    getLatestSavedSearchesQuery(accessFilter, id),
+  );
+  return result.data[0] ?? null;
+}
+
+/**
+ * INSERT statement for a saved search row (new search, new revision or tombstone)
+ */
+export function getInsertSavedSearchStatement(
+  row: Omit<SavedSearchRow, "created_at" | "updated_at"> & { created_at?: string },
+): string {
+  const createdAt = row.created_at
+    ? `parseDateTimeBestEffort('${escapeSqlString(row.created_at)}')`
+    : "now()";
+  return `
+    INSERT INTO ${METADATA_DB}.${SAVED_SEARCHES_TABLE}
+      (id, name, description, database, table, time_column, columns, filter, query_language, time_from, time_to, sort, group_by, histogram_interval, created_by, created_at, updated_at, visibility, shared_roles, revision, updated_by, is_deleted)
+    VALUES (
+      '${escapeSqlString(row.id)}',
+      '${escapeSqlString(row.name)}',
+      '${escapeSqlString(row.description)}',
+      '${escapeSqlString(row.database)}',
+      '${escapeSqlString(row.table)}',
+      '${escapeSqlString(row.time_column)}',
+      ${sqlStringArray(row.columns)},
+      '${escapeSqlString(row.filter)}',
+      '${escapeSqlString(row.query_language)}',
+      '${escapeSqlString(row.time_from)}',
+      '${escapeSqlString(row.time_to)}',
+      '${escapeSqlString(row.sort)}',
+      ${sqlStringArray(row.group_by)},
+      '${escapeSqlString(row.histogram_interval)}',
+      '${escapeSqlString(row.created_by)}',
+      ${createdAt},
+      now(),
+      '${escapeSqlString(row.visibility)}',
+      ${sqlStringArray(row.shared_roles)},
+      ${Math.max(1, Math.floor(row.revision))},
+      '${escapeSqlString(row.updated_by)}',
+      ${row.is_deleted ? 1 : 0}
+    )
+  `;
+}
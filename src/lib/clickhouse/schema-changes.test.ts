@@ -0,0 +1,184 @@
+import { describe, expect, it } from "bun:test";
+import {
+  applySchemaChangesToColumns,
+  buildSchemaChangeStatements,
+  getSchemaChangeWarnings,
+  validateSchemaChange,
+  validateSchemaChangeRequest,
+} from "./schema-changes";
+
+const columns = { id: "UInt64", name: "String", created: "DateTime" };
+const ON_CLUSTER = " ON CLUSTER `prod`";
+
+describe("buildSchemaChangeStatements", () => {
+  it("builds column statements with quoted names", () => {
+    expect(
+      buildSchemaChangeStatements(
+        "db",
+        "events",
+        {
+          kind: "add_column",
+          column: "country",
+          type: "LowCardinality(String)",
+          defaultExpression: "''",
+          comment: "ISO code, e.g. 'DE'",
+          after: "name",
+        },
+        ON_CLUSTER,
+      ),
+    ).toEqual([
+      "ALTER TABLE `db`.`events` ON CLUSTER `prod` ADD COLUMN `country` LowCardinality(String) DEFAULT '' COMMENT 'ISO code, e.g. ''DE''' AFTER `name`",
+    ]);
+    expect(
+      buildSchemaChangeStatements("db", "events", {
+        kind: "rename_column",
+        column: "name",
+        newName: "full`name",
+      }),
+    ).toEqual(["ALTER TABLE `db`.`events` RENAME COLUMN `name` TO `full``name`"]);
+    expect(
+      buildSchemaChangeStatements("db", "events", {
+        kind: "modify_column",
+        column: "id",
+        type: "UInt32",
+      }),
+    ).toEqual(["ALTER TABLE `db`.`events` MODIFY COLUMN `id` UInt32"]);
+  });
+
+  it("materializes indexes and projections after adding them", () => {
+    expect(
+      buildSchemaChangeStatements("db", "events", {
+        kind: "add_index",
+        name: "idx_name",
+        expression: "name",
+        indexType: "bloom_filter(0.01)",
+        granularity: 4,
+        materialize: true,
+      }),
+    ).toEqual([
+      "ALTER TABLE `db`.`events` ADD INDEX `idx_name` name TYPE bloom_filter(0.01) GRANULARITY 4",
+      "ALTER TABLE `db`.`events` MATERIALIZE INDEX `idx_name`",
+    ]);
+    expect(
+      buildSchemaChangeStatements("db", "events", {
+        kind: "add_projection",
+        name: "by_name",
+        query: "SELECT * ORDER BY name",
+      }),
+    ).toEqual(["ALTER TABLE `db`.`events` ADD PROJECTION `by_name` (SELECT * ORDER BY name)"]);
+  });
+
+  it("quotes non-numeric setting values", () => {
+    expect(
+      buildSchemaChangeStatements("db", "events", {
+        kind: "modify_setting",
+        setting: "storage_policy",
+        value: "tiered",
+      }),
+    ).toEqual(["ALTER TABLE `db`.`events` MODIFY SETTING storage_policy = 'tiered'"]);
+    expect(
+      buildSchemaChangeStatements("db", "events", {
+        kind: "modify_setting",
+        setting: "merge_with_ttl_timeout",
+        value: "3600",
+      }),
+    ).toEqual(["ALTER TABLE `db`.`events` MODIFY SETTING merge_with_ttl_timeout = 3600"]);
+  });
+});
+
+describe("validateSchemaChange", () => {
+  it("checks columns against the table", () => {
+    expect(validateSchemaChange({ kind: "add_column", column: "id", type: "UInt8" }, columns)).toBe(
+      "Column id already exists",
+    );
+    expect(validateSchemaChange({ kind: "drop_column", column: "missing" }, columns)).toBe(
+      "Column missing does not exist",
+    );
+    expect(validateSchemaChange({ kind: "drop_column", column: "constructor" }, columns)).toBe(
+      "Column constructor does not exist",
+    );
+  });
+
+  it("rejects a second statement in expressions and bad setting names", () => {
+    expect(
+      validateSchemaChange({ kind: "modify_ttl", ttl: "created + INTERVAL 1 DAY; DROP TABLE x" }),
+    ).toBe("TTL expression must not contain ';'");
+    expect(validateSchemaChange({ kind: "modify_setting", setting: "a = 1, b", value: "2" })).toBe(
+      "Invalid setting name",
+    );
+  });
+});
+
+describe("validateSchemaChangeRequest", () => {
+  it("applies earlier changes before checking later ones", () => {
+    expect(
+      validateSchemaChangeRequest(
+        {
+          database: "db",
+          table: "events",
+          changes: [
+            { kind: "rename_column", column: "name", newName: "title" },
+            { kind: "comment_column", column: "title", comment: "Display title" },
+          ],
+        },
+        columns,
+      ),
+    ).toBeNull();
+    expect(
+      validateSchemaChangeRequest(
+        {
+          database: "db",
+          table: "events",
+          changes: [
+            { kind: "drop_column", column: "name" },
+            { kind: "drop_column", column: "name" },
+          ],
+        },
+        columns,
+      ),
+    ).toBe("Change 2: Column name does not exist");
+  });
+
+  it("requires changes", () => {
+    expect(validateSchemaChangeRequest({ database: "db", table: "events", changes: [] })).toBe(
+      "At least one change is required",
+    );
+  });
+});
+
+describe("getSchemaChangeWarnings", () => {
+  it("flags type changes but not default-only modifications", () => {
+    const warnings = getSchemaChangeWarnings(
+      [
+        { kind: "modify_column", column: "id", type: "UInt32" },
+        { kind: "modify_column", column: "name", type: "String", defaultExpression: "'n/a'" },
+      ],
+      columns,
+    );
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0].change).toBe(0);
+    expect(warnings[0].mutation).toBe(true);
+    expect(warnings[0].message).toContain("from UInt64 to UInt32");
+  });
+
+  it("flags TTL changes and materialized indexes as mutations", () => {
+    const warnings = getSchemaChangeWarnings([
+      { kind: "modify_ttl", ttl: "created + INTERVAL 30 DAY" },
+      { kind: "add_index", name: "i", expression: "id", indexType: "minmax" },
+      { kind: "add_index", name: "j", expression: "id", indexType: "minmax", materialize: true },
+    ]);
+    expect(warnings.map((w) => w.mutation)).toEqual([true, false, true]);
+  });
+});
+
+describe("applySchemaChangesToColumns", () => {
+  it("tracks added, renamed and dropped columns", () => {
+    expect(
+      applySchemaChangesToColumns(columns, [
+        { kind: "add_column", column: "country", type: "String" },
+        { kind: "rename_column", column: "name", newName: "title" },
+        { kind: "drop_column", column: "created" },
+      ]),
+    ).toEqual({ id: "UInt64", country: "String", title: "String" });
+  });
+});
@@ -0,0 +1,386 @@
+/**
+ * Schema change helpers
+ *
+ * Builds the ALTER TABLE statements of the Table Explorer schema wizard and
+ * flags changes that rewrite data as a mutation. Types, defaults and other
+ * expressions are SQL the user typed; names are quoted as identifiers.
+ */
+
+import { escapeSqlString, quoteIdentifier } from "./utils";
+
+export const SCHEMA_CHANGE_KINDS = [
+  "add_column",
+  "drop_column",
+  "rename_column",
+  "modify_column",
+  "comment_column",
+  "modify_ttl",
+  "remove_ttl",
+  "add_index",
+  "add_projection",
+  "modify_setting",
+] as const;
+
+export type SchemaChangeKind = (typeof SCHEMA_CHANGE_KINDS)[number];
+
+export interface SchemaChange {
+  kind: SchemaChangeKind;
+  /** Column the change applies to */
+  column?: string;
+  /** New name for rename_column */
+  newName?: string;
+  /** Column type for add_column and modify_column */
+  type?: string;
+  /** DEFAULT expression for add_column and modify_column */
+  defaultExpression?: string;
+  /** Comment for comment_column, optional for add_column */
+  comment?: string;
+  /** Place an added column after this one instead of at the end */
+  after?: string;
+  /** TTL expression for modify_ttl */
+  ttl?: string;
+  /** Index or projection name */
+  name?: string;
+  /** Index expression */
+  expression?: string;
+  /** Index type, e.g. minmax, set(100), bloom_filter(0.01) */
+  indexType?: string;
+  granularity?: number;
+  /** Projection query, e.g. SELECT * ORDER BY user_id */
+  query?: string;
+  /** Build the index or projection for existing parts too */
+  materialize?: boolean;
+  /** Table setting name and value for modify_setting */
+  setting?: string;
+  value?: string;
+}
+
+export interface SchemaChangeRequest {
+  database: string;
+  table: string;
+  changes: SchemaChange[];
+}
+
+/** A row of buildTableColumnsQuery */
+export interface SchemaColumn {
+  name: string;
+  type: string;
+  default_kind: string;
+  default_expression: string;
+  comment: string;
+}
+
+export interface SchemaChangeWarning {
+  /** Position of the change in the request */
+  change: number;
+  /** Whether ClickHouse rewrites existing parts */
+  mutation: boolean;
+  message: string;
+}
+
+export const SCHEMA_CHANGE_LABELS: Record<SchemaChangeKind, string> = {
+  add_column: "Add column",
+  drop_column: "Drop column",
+  rename_column: "Rename column",
+  modify_column: "Modify column",
+  comment_column: "Comment column",
+  modify_ttl: "Change TTL",
+  remove_ttl: "Remove TTL",
+  add_index: "Add skipping index",
+  add_projection: "Add projection",
+  modify_setting: "Modify setting",
+};
+
+/** Changes applied in one request */
+export const MAX_SCHEMA_CHANGES = 50;
+
+const SETTING_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const NUMERIC_VALUE = /^-?\d+(\.\d+)?$/;
+
+/** Current columns of the table, name to type */
+export type TableColumnTypes = Record<string, string>;
+
+/** Current columns of a table in definition order */
+export function buildTableColumnsQuery(database: string, table: string): string {
+  return `
+SELECT name, type, default_kind, default_expression, comment
+FROM system.columns
+WHERE database = '${escapeSqlString(database)}'
+  AND table = '${escapeSqlString(table)}'
+ORDER BY position
+`;
+}
+
+function hasOwnColumn(columns: TableColumnTypes, name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(columns, name);
+}
+
+function requireText(value: string | undefined, label: string): string | null {
+  if (!value || !value.trim()) return `${label} is required`;
+  // One statement per change; the rest is up to ClickHouse's parser
+  if (value.includes(";")) return `${label} must not contain ';'`;
+  return null;
+}
+
+/**
+ * Checks one change. With the table's columns it also checks that the
+ * columns it refers to exist.
+ */
+export function validateSchemaChange(
+  change: Partial<SchemaChange>,
+  columns?: TableColumnTypes,
+): string | null {
+  if (!change.kind || !SCHEMA_CHANGE_KINDS.includes(change.kind)) {
+    return "Invalid schema change";
+  }
+
+  const hasColumn = (name: string) => !columns || hasOwnColumn(columns, name);
+
+  switch (change.kind) {
+    case "add_column":
+      if (!change.column) return "Column name is required";
+      if (columns && hasColumn(change.column)) {
+        return `Column ${change.column} already exists`;
+      }
+      if (change.after && !hasColumn(change.after)) {
+        return `Column ${change.after} does not exist`;
+      }
+      return (
+        requireText(change.type, "Column type") ??
+        (change.defaultExpression ? requireText(change.defaultExpression, "Default") : null)
+      );
+    case "drop_column":
+    case "comment_column":
+      if (!change.column) return "Column name is required";
+      if (!hasColumn(change.column)) return `Column ${change.column} does not exist`;
+      return null;
+    case "rename_column":
+      if (!change.column) return "Column name is required";
+      if (!hasColumn(change.column)) return `Column ${change.column} does not exist`;
+      if (!change.newName) return "New column name is required";
+      if (change.newName === change.column) return "New name must differ";
+      if (columns && hasColumn(change.newName)) {
+        return `Column ${change.newName} already exists`;
+      }
+      return null;
+    case "modify_column":
+      if (!change.column) return "Column name is required";
+      if (!hasColumn(change.column)) return `Column ${change.column} does not exist`;
+      return (
+        requireText(change.type, "Column type") ??
+        (change.defaultExpression ? requireText(change.defaultExpression, "Default") : null)
+      );
+    case "modify_ttl":
+      return requireText(change.ttl, "TTL expression");
+    case "remove_ttl":
+      return null;
+    case "add_index":
+      if (!change.name) return "Index name is required";
+      if (
+        change.granularity !== undefined &&
+        (!Number.isInteger(change.granularity) || change.granularity < 1)
+      ) {
+        return "Granularity must be a positive integer";
+      }
+      return requireText(change.expression, "Index expression") ?? requireText(change.indexType, "Index type");
+    case "add_projection":
+      if (!change.name) return "Projection name is required";
+      return requireText(change.query, "Projection query");
+    case "modify_setting":
+      if (!change.setting || !SETTING_NAME.test(change.setting)) {
+        return "Invalid setting name";
+      }
+      if (change.value === undefined || change.value === "") return "Setting value is required";
+      return null;
+  }
+}
+
+export function validateSchemaChangeRequest(
+  req: Partial<SchemaChangeRequest>,
+  columns?: TableColumnTypes,
+): string | null {
+  if (!req.database || !req.table) {
+    return "Database and table are required";
+  }
+  if (!Array.isArray(req.changes) || req.changes.length === 0) {
+    return "At least one change is required";
+  }
+  if (req.changes.length > MAX_SCHEMA_CHANGES) {
+    return `At most ${MAX_SCHEMA_CHANGES} changes can be applied at once`;
+  }
+
+  // Later changes see the columns earlier ones add, drop or rename
+  const current = columns ? { ...columns } : undefined;
+  for (const [i, change] of req.changes.entries()) {
+    const error = validateSchemaChange(change, current);
+    if (error) return `Change ${i + 1}: ${error}`;
+    if (current) applyToColumns(change, current);
+  }
+  return null;
+}
+
+function applyToColumns(change: SchemaChange, columns: TableColumnTypes) {
+  const column = change.column ?? "";
+  switch (change.kind) {
+    case "add_column":
+    case "modify_column":
+      columns[column] = change.type?.trim() ?? "";
+      break;
+    case "drop_column":
+      delete columns[column];
+      break;
+    case "rename_column":
+      columns[change.newName ?? ""] = columns[column];
+      delete columns[column];
+      break;
+  }
+}
+
+/** Columns after the changes, for picking columns in later changes */
+export function applySchemaChangesToColumns(
+  columns: TableColumnTypes,
+  changes: SchemaChange[],
+): TableColumnTypes {
+  const result = { ...columns };
+  for (const change of changes) applyToColumns(change, result);
+  return result;
+}
+
+function formatSettingValue(value: string): string {
+  return NUMERIC_VALUE.test(value) ? value : `'${escapeSqlString(value)}'`;
+}
+
+/**
+ * SQL for one change; adding an index or projection with materialize also
+ * builds it for existing parts. onCluster is " ON CLUSTER `name`" or "".
+ */
+export function buildSchemaChangeStatements(
+  database: string,
+  table: string,
+  change: SchemaChange,
+  onCluster: string = "",
+): string[] {
+  const alter = `ALTER TABLE ${quoteIdentifier(database)}.${quoteIdentifier(table)}${onCluster}`;
+  const column = quoteIdentifier(change.column ?? "");
+  const defaultClause = change.defaultExpression?.trim()
+    ? ` DEFAULT ${change.defaultExpression.trim()}`
+    : "";
+
+  switch (change.kind) {
+    case "add_column":
+      return [
+        `${alter} ADD COLUMN ${column} ${change.type?.trim()}${defaultClause}${
+          change.comment ? ` COMMENT '${escapeSqlString(change.comment)}'` : ""
+        }${change.after ? ` AFTER ${quoteIdentifier(change.after)}` : ""}`,
+      ];
+    case "drop_column":
+      return [`${alter} DROP COLUMN ${column}`];
+    case "rename_column":
+      return [`${alter} RENAME COLUMN ${column} TO ${quoteIdentifier(change.newName ?? "")}`];
+    case "modify_column":
+      return [`${alter} MODIFY COLUMN ${column} ${change.type?.trim()}${defaultClause}`];
+    case "comment_column":
+      return [`${alter} COMMENT COLUMN ${column} '${escapeSqlString(change.comment ?? "")}'`];
+    case "modify_ttl":
+      return [`${alter} MODIFY TTL ${change.ttl?.trim()}`];
+    case "remove_ttl":
+      return [`${alter} REMOVE TTL`];
+    case "add_index": {
+      const name = quoteIdentifier(change.name ?? "");
+      const statements = [
+        `${alter} ADD INDEX ${name} ${change.expression?.trim()} TYPE ${change.indexType?.trim()}${
+          change.granularity ? ` GRANULARITY ${change.granularity}` : ""
+        }`,
+      ];
+      if (change.materialize) statements.push(`${alter} MATERIALIZE INDEX ${name}`);
+      return statements;
+    }
+    case "add_projection": {
+      const name = quoteIdentifier(change.name ?? "");
+      const statements = [`${alter} ADD PROJECTION ${name} (${change.query?.trim()})`];
+      if (change.materialize) statements.push(`${alter} MATERIALIZE PROJECTION ${name}`);
+      return statements;
+    }
+    case "modify_setting":
+      return [`${alter} MODIFY SETTING ${change.setting} = ${formatSettingValue(change.value ?? "")}`];
+  }
+}
+
+/** Normalized type for comparing the current and requested column type */
+function normalizeType(type: string): string {
+  return type.replace(/\s+/g, "");
+}
+
+/**
+ * Warnings for changes that rewrite existing parts, lose data or break
+ * queries. Pass the table's columns to tell type changes from default-only
+ * modifications.
+ */
+export function getSchemaChangeWarnings(
+  changes: SchemaChange[],
+  columns?: TableColumnTypes,
+): SchemaChangeWarning[] {
+  const warnings: SchemaChangeWarning[] = [];
+  const current = columns ? { ...columns } : undefined;
+
+  changes.forEach((change, i) => {
+    const column = change.column ?? "";
+    switch (change.kind) {
+      case "drop_column":
+        warnings.push({
+          change: i,
+          mutation: false,
+          message: `Deletes the data of ${column}. This cannot be undone.`,
+        });
+        break;
+      case "rename_column":
+        warnings.push({
+          change: i,
+          mutation: false,
+          message: `Queries and views that use ${column} must be updated to ${change.newName}.`,
+        });
+        break;
+      case "modify_column": {
+        const from = current && hasOwnColumn(current, column) ? current[column] : undefined;
+        const to = change.type?.trim() ?? "";
+        if (from === undefined || normalizeType(from) !== normalizeType(to)) {
+          warnings.push({
+            change: i,
+            mutation: true,
+            message: `${from ? `Changing ${column} from ${from} to ${to}` : `Changing the type of ${column}`} rewrites every part containing the column as a mutation, which fails if a value cannot be converted.`,
+          });
+        }
+        break;
+      }
+      case "modify_ttl":
+        warnings.push({
+          change: i,
+          mutation: true,
+          message:
+            "Existing parts are recalculated against the new TTL as a mutation (materialize_ttl_after_modify), which can delete or move data.",
+        });
+        break;
+      case "add_index":
+      case "add_projection": {
+        const what = change.kind === "add_index" ? "index" : "projection";
+        warnings.push(
+          change.materialize
+            ? {
+                change: i,
+                mutation: true,
+                message: `Building the ${what} ${change.name} for existing parts runs as a mutation.`,
+              }
+            : {
+                change: i,
+                mutation: false,
+                message: `The ${what} ${change.name} only covers parts written after it is added.`,
+              },
+        );
+        break;
+      }
+    }
+    if (current) applyToColumns(change, current);
+  });
+
+  return warnings;
+}
@@ -1,6 +1,8 @@
 import { ClickHouseClient } from "./clients/types";
 import { escapeSqlString } from "./utils";
 import { getTableEngineQuery } from "@/lib/clickhouse/queries/schema";
+import { getOrSet, metadataCache } from "@/lib/cache";
+import type { KqlColumn } from "./kql";
 
 export async function getTableEngine(
   client: ClickHouseClient,
@@ -19,3 +21,87 @@ export async function getTableEngine(
     return "";
   }
 }
+
+/** Skip index types that hasToken can use */
+const TOKEN_INDEX_TYPES = ["tokenbf_v1", "text"];
+
+/** metadataCache key of a table's KQL columns */
+export function kqlColumnsCacheKey(
+  database: string,
+  table: string,
+  clusterId?: string,
+): string {
+  return `kql-columns:${database}:${table}${clusterId ? `:${clusterId}` : ""}`;
+}
+
+/**
+ * Columns for compiling KQL, flagging those with a token skip index.
+ * Cached in metadataCache, as every Discover request compiles its filter.
+ */
+export async function getKqlColumns(
+  client: ClickHouseClient,
+  database: string,
+  table: string,
+  clusterId?: string,
+): Promise<KqlColumn[]> {
+  const { columns } = await getOrSet(
+    metadataCache,
+    kqlColumnsCacheKey(database, table, clusterId),
+    async () => ({ columns: await fetchKqlColumns(client, database, table) }),
+  );
+  return columns;
+}
+
+async function fetchKqlColumns(
+  client: ClickHouseClient,
+  database: string,
+  table: string,
+): Promise<KqlColumn[]> {
+  const safeDbStr = escapeSqlString(database);
+  const safeTableStr = escapeSqlString(table);
+  const colsRes = await client.query<{ name: string; type: string }>(
+    `SELECT name, type FROM system.columns WHERE database = '${safeDbStr}' AND table = '${safeTableStr}'`,
+  );
+
+  const tokenIndexed = new Set<string>();
+  try {
+    const indexRes = await client.query<{ expr: string }>(`
+      SELECT expr
+      FROM system.data_skipping_indices
+      WHERE database = '${safeDbStr}'
+        AND table = '${safeTableStr}'
+        AND type IN (${TOKEN_INDEX_TYPES.map((t) => `'${t}'`).join(", ")})
+    `);
+    for (const row of indexRes.data) {
+      // Only indexes on the plain column help; lower(message) etc. do not
+      tokenIndexed.add(row.expr.trim().replace(/^`(.*)`$/, "$1"));
+    }
+  } catch (error) {
+    console.error("Failed to read skip indexes:", error);
+  }
+
+  return colsRes.data.map((col) => ({
+    name: col.name,
+    type: col.type,
+    tokenIndexed: tokenIndexed.has(col.name),
+  }));
+}
+
+/**
+ * Sampling key of a table, or an empty string when it does not support SAMPLE
+ */
+export async function getSamplingKey(
+  client: ClickHouseClient,
+  database: string,
+  table: string,
+): Promise<string> {
+  try {
+    const res = await client.query<{ sampling_key: string }>(
+      `SELECT sampling_key FROM system.tables WHERE database = '${escapeSqlString(database)}' AND name = '${escapeSqlString(table)}'`,
+    );
+    return res.data?.[0]?.sampling_key || "";
+  } catch (err) {
+    console.error("Failed to fetch sampling key", err);
+    return "";
+  }
+}
@@ -0,0 +1,43 @@
+import { describe, expect, test } from "bun:test";
+import {
+  buildSessionBurstsQuery,
+  buildSessionNewAddressesQuery,
+  buildSessionTimelineQuery,
+  getSessionBucketSeconds,
+  type SessionAnalyticsQueryOptions,
+} from "./session-analytics";
+
+const options: SessionAnalyticsQueryOptions = {
+  tableSource: "system.session_log",
+  minTime: 1714557600,
+  maxTime: 1714561200,
+  burstThreshold: 5,
+  burstWindowSeconds: 300,
+};
+
+describe("clickhouse/session-analytics", () => {
+  test("picks a bucket size that keeps about 60 bars", () => {
+    expect(getSessionBucketSeconds(3600)).toBe(60);
+    expect(getSessionBucketSeconds(24 * 3600)).toBe(1800);
+    expect(getSessionBucketSeconds(365 * 86400)).toBe(86400);
+  });
+
+  test("filters the timeline by user", () => {
+    const query = buildSessionTimelineQuery({ ...options, user: "o'brien" }, 60);
+    expect(query).toContain("INTERVAL 60 SECOND");
+    expect(query).toContain("user = 'o''brien'");
+    expect(query).toContain("event_time >= toDateTime(1714557600)");
+  });
+
+  test("detects bursts and new addresses against the baseline", () => {
+    const bursts = buildSessionBurstsQuery(options);
+    expect(bursts).toContain("RANGE BETWEEN 300 PRECEDING AND CURRENT ROW");
+    expect(bursts).toContain("WHERE recent >= 5");
+    expect(bursts).toContain("> 300 as gap");
+    expect(bursts).not.toContain("toStartOfInterval");
+
+    const newAddresses = buildSessionNewAddressesQuery(options);
+    expect(newAddresses).toContain("(user, client_address) NOT IN");
+    expect(newAddresses).toContain(`event_time >= toDateTime(${1714557600 - 30 * 86400})`);
+  });
+});
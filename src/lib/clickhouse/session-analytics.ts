@@ -0,0 +1,237 @@
+/**
+ * Login security analytics for system.session_log
+ *
+ * Builds the aggregation queries behind the session logs analytics view:
+ * failed logins by user, address and interface, failure bursts that look
+ * like brute forcing, per-user login activity and successful logins from
+ * addresses a user has not logged in from before.
+ */
+
+import { escapeSqlString } from "./utils";
+
+export interface SessionAnalyticsQueryOptions {
+  /** FROM target, already quoted */
+  tableSource: string;
+  /** Start of the analyzed range, Unix seconds */
+  minTime: number;
+  /** End of the analyzed range, Unix seconds */
+  maxTime: number;
+  /** Restricts the timeline to one user */
+  user?: string;
+  /** Failures from one user and address within a burst window that count as a burst */
+  burstThreshold: number;
+  /** Length of the sliding burst window */
+  burstWindowSeconds: number;
+}
+
+export interface SessionTimelineBucket {
+  /** Bucket start, Unix seconds */
+  time: number;
+  successes: number;
+  failures: number;
+}
+
+export interface SessionFailureGroup {
+  user: string;
+  address: string;
+  interfaceName: string;
+  failures: number;
+  firstSeen: string;
+  lastSeen: string;
+  reasons: string[];
+}
+
+export interface SessionFailureBurst {
+  /** First failure in the burst's busiest window, Unix seconds */
+  windowStart: number;
+  user: string;
+  address: string;
+  /** Failures in the busiest window */
+  failures: number;
+}
+
+export interface SessionUserSummary {
+  user: string;
+  successes: number;
+  failures: number;
+  authTypes: string[];
+  addresses: number;
+  lastLogin: string | null;
+}
+
+export interface SessionNewAddress {
+  user: string;
+  address: string;
+  firstSeen: string;
+  logins: number;
+}
+
+export interface SessionAnalytics {
+  bucketSeconds: number;
+  timeline: SessionTimelineBucket[];
+  failures: SessionFailureGroup[];
+  bursts: SessionFailureBurst[];
+  users: SessionUserSummary[];
+  newAddresses: SessionNewAddress[];
+  /** How far back addresses were looked up for newAddresses, in days */
+  baselineDays: number;
+}
+
+export const DEFAULT_BURST_THRESHOLD = 10;
+export const DEFAULT_BURST_WINDOW_SECONDS = 60;
+
+/** History checked for an address before a login from it counts as new */
+export const ADDRESS_BASELINE_DAYS = 30;
+
+/** Rows returned by each grouped query */
+const GROUP_LIMIT = 100;
+
+const BUCKET_SIZES = [60, 300, 900, 1800, 3600, 10800, 21600, 43200, 86400];
+const TARGET_BUCKETS = 60;
+
+/** Smallest bucket size that keeps the timeline at about 60 bars */
+export function getSessionBucketSeconds(rangeSeconds: number): number {
+  return (
+    BUCKET_SIZES.find((size) => rangeSeconds / size <= TARGET_BUCKETS) ??
+    BUCKET_SIZES[BUCKET_SIZES.length - 1]
+  );
+}
+
+function timeRangeCondition(minTime: number, maxTime: number): string {
+  return `event_time >= toDateTime(${Math.floor(minTime)}) AND event_time <= toDateTime(${Math.ceil(maxTime)})`;
+}
+
+export function buildSessionTimelineQuery(
+  options: SessionAnalyticsQueryOptions,
+  bucketSeconds: number,
+): string {
+  const conditions = [timeRangeCondition(options.minTime, options.maxTime)];
+  if (options.user) {
+    conditions.push(`user = '${escapeSqlString(options.user)}'`);
+  }
+  return `
+    SELECT
+      toUnixTimestamp(toStartOfInterval(event_time, INTERVAL ${bucketSeconds} SECOND)) as time,
+      countIf(type = 'LoginSuccess') as successes,
+      countIf(type = 'LoginFailure') as failures
+    FROM ${options.tableSource}
+    WHERE ${conditions.join(" AND ")}
+    GROUP BY time
+    ORDER BY time
+  `;
+}
+
+export function buildSessionFailuresQuery(options: SessionAnalyticsQueryOptions): string {
+  return `
+    SELECT
+      user,
+      toString(client_address) as address,
+      toString(interface) as interfaceName,
+      count() as failures,
+      toString(min(event_time)) as firstSeen,
+      toString(max(event_time)) as lastSeen,
+      arrayFilter(r -> r != '', groupUniqArray(10)(failure_reason)) as reasons
+    FROM ${options.tableSource}
+    WHERE ${timeRangeCondition(options.minTime, options.maxTime)}
+      AND type = 'LoginFailure'
+    GROUP BY user, address, interfaceName
+    ORDER BY failures DESC
+    LIMIT ${GROUP_LIMIT}
+  `;
+}
+
+/**
+ * Failure bursts per user and address over a sliding window: each failure
+ * counts the failures from the same pair in the window that ends with it,
+ * so a burst straddling any fixed boundary is still seen. Consecutive
+ * failures over the threshold form one burst, reported by its busiest window.
+ */
+export function buildSessionBurstsQuery(options: SessionAnalyticsQueryOptions): string {
+  const window = options.burstWindowSeconds;
+  return `
+    SELECT
+      argMax(window_first, recent) as windowStart,
+      user,
+      address,
+      max(recent) as failures
+    FROM (
+      SELECT
+        user,
+        address,
+        window_first,
+        recent,
+        sum(gap) OVER (PARTITION BY user, address ORDER BY t ROWS UNBOUNDED PRECEDING) as burst
+      FROM (
+        SELECT
+          user,
+          address,
+          t,
+          window_first,
+          recent,
+          t - lagInFrame(t, 1, 0) OVER (PARTITION BY user, address ORDER BY t ROWS BETWEEN 1 PRECEDING AND CURRENT ROW) > ${window} as gap
+        FROM (
+          SELECT
+            user,
+            toString(client_address) as address,
+            toUnixTimestamp(event_time) as t,
+            count() OVER recent_window as recent,
+            min(t) OVER recent_window as window_first
+          FROM ${options.tableSource}
+          WHERE ${timeRangeCondition(options.minTime, options.maxTime)}
+            AND type = 'LoginFailure'
+          WINDOW recent_window AS (PARTITION BY user, address ORDER BY t RANGE BETWEEN ${window} PRECEDING AND CURRENT ROW)
+        )
+        WHERE recent >= ${options.burstThreshold}
+      )
+    )
+    GROUP BY user, address, burst
+    ORDER BY windowStart DESC, failures DESC
+    LIMIT ${GROUP_LIMIT}
+  `;
+}
+
+export function buildSessionUsersQuery(options: SessionAnalyticsQueryOptions): string {
+  return `
+    SELECT
+      user,
+      countIf(type = 'LoginSuccess') as successes,
+      countIf(type = 'LoginFailure') as failures,
+      arraySort(groupUniqArray(toString(auth_type))) as authTypes,
+      uniqExact(client_address) as addresses,
+      if(successes > 0, toString(maxIf(event_time, type = 'LoginSuccess')), NULL) as lastLogin
+    FROM ${options.tableSource}
+    WHERE ${timeRangeCondition(options.minTime, options.maxTime)}
+      AND type IN ('LoginSuccess', 'LoginFailure')
+    GROUP BY user
+    ORDER BY failures DESC, successes DESC
+    LIMIT ${GROUP_LIMIT}
+  `;
+}
+
+/**
+ * Successful logins in the range from a (user, address) pair with no
+ * successful login in the baseline period before it
+ */
+export function buildSessionNewAddressesQuery(options: SessionAnalyticsQueryOptions): string {
+  const baselineStart = options.minTime - ADDRESS_BASELINE_DAYS * 86400;
+  return `
+    SELECT
+      user,
+      toString(client_address) as address,
+      toString(min(event_time)) as firstSeen,
+      count() as logins
+    FROM ${options.tableSource}
+    WHERE ${timeRangeCondition(options.minTime, options.maxTime)}
+      AND type = 'LoginSuccess'
+      AND (user, client_address) NOT IN (
+        SELECT user, client_address
+        FROM ${options.tableSource}
+        WHERE event_time >= toDateTime(${Math.floor(baselineStart)})
+          AND event_time < toDateTime(${Math.floor(options.minTime)})
+          AND type = 'LoginSuccess'
+      )
+    GROUP BY user, address
+    ORDER BY firstSeen DESC
+    LIMIT ${GROUP_LIMIT}
+  `;
+}
@@ -0,0 +1,153 @@
+import { describe, expect, test } from "bun:test";
+import {
+  buildAlterSettingsProfileStatement,
+  buildCreateSettingsProfileStatement,
+  buildDropSettingsProfileStatement,
+  diffProfileAgainstDefaults,
+  formatSettingValue,
+  profileElementsToDefinitions,
+  resolveProfileSettings,
+  validateSettingsProfileDefinition,
+  type SettingsProfileDefinition,
+  type SettingsProfileElementRow,
+} from "./settings-profiles";
+
+const DEFINITION: SettingsProfileDefinition = {
+  name: "analysts",
+  inherit: ["base"],
+  settings: [
+    { name: "max_memory_usage", value: "10000000000", max: "20000000000" },
+    { name: "readonly", value: "1", writability: "CONST" },
+    { name: "load_balancing", value: "random" },
+  ],
+  applyTo: ["analyst_role"],
+};
+
+function element(
+  profile: string,
+  index: number,
+  fields: Partial<SettingsProfileElementRow>,
+): SettingsProfileElementRow {
+  return {
+    profile_name: profile,
+    index,
+    setting_name: null,
+    value: null,
+    min: null,
+    max: null,
+    writability: null,
+    inherit_profile: null,
+    ...fields,
+  };
+}
+
+describe("clickhouse/settings-profiles", () => {
+  test("formatSettingValue keeps numbers bare and quotes the rest", () => {
+    expect(formatSettingValue("42")).toBe("42");
+    expect(formatSettingValue("0.5")).toBe("0.5");
+    expect(formatSettingValue("it's")).toBe("'it''s'");
+  });
+
+  test("buildCreateSettingsProfileStatement", () => {
+    expect(buildCreateSettingsProfileStatement(DEFINITION, " ON CLUSTER `main`")).toBe(
+      "CREATE SETTINGS PROFILE `analysts` ON CLUSTER `main` SETTINGS INHERIT 'base', " +
+        "max_memory_usage = 10000000000 MAX 20000000000, readonly = 1 CONST, " +
+        "load_balancing = 'random' TO `analyst_role`",
+    );
+  });
+
+  test("buildAlterSettingsProfileStatement clears empty parts", () => {
+    expect(
+      buildAlterSettingsProfileStatement({
+        name: "empty",
+        inherit: [],
+        settings: [],
+        applyTo: [],
+      }),
+    ).toBe("ALTER SETTINGS PROFILE `empty` SETTINGS NONE TO NONE");
+  });
+
+  test("buildDropSettingsProfileStatement", () => {
+    expect(buildDropSettingsProfileStatement("analysts")).toBe(
+      "DROP SETTINGS PROFILE IF EXISTS `analysts`",
+    );
+  });
+
+  test("validateSettingsProfileDefinition", () => {
+    expect(validateSettingsProfileDefinition(DEFINITION)).toBeNull();
+    expect(
+      validateSettingsProfileDefinition({ ...DEFINITION, inherit: ["analysts"] }),
+    ).toBe("A profile cannot inherit from itself");
+    expect(
+      validateSettingsProfileDefinition({
+        ...DEFINITION,
+        settings: [{ name: "x = 1; DROP" }],
+      }),
+    ).toBe("Invalid setting name: x = 1; DROP");
+    expect(
+      validateSettingsProfileDefinition({
+        ...DEFINITION,
+        settings: [{ name: "max_threads" }],
+      }),
+    ).toBe("Setting max_threads needs a value or a constraint");
+    expect(
+      validateSettingsProfileDefinition({
+        ...DEFINITION,
+        settings: [{ name: "max_threads", min: "8", max: "4" }],
+      }),
+    ).toBe("MIN is greater than MAX for max_threads");
+  });
+
+  test("profileElementsToDefinitions groups and orders elements", () => {
+    const profiles = profileElementsToDefinitions([
+      element("a", 1, { setting_name: "max_threads", value: "4", writability: "WRITABLE" }),
+      element("a", 0, { inherit_profile: "base" }),
+      element("a", 2, { setting_name: "readonly", readonly: 1, writability: undefined }),
+      { ...element("", 0, { setting_name: "ignored" }), profile_name: null },
+    ]);
+
+    expect([...profiles.keys()]).toEqual(["a"]);
+    expect(profiles.get("a")).toEqual({
+      inherit: ["base"],
+      settings: [
+        { name: "max_threads", value: "4" },
+        { name: "readonly", writability: "CONST" },
+      ],
+    });
+  });
+
+  test("resolveProfileSettings applies parents first and survives cycles", () => {
+    const profiles = new Map([
+      ["base", { inherit: ["child"], settings: [{ name: "max_threads", value: "8" }, { name: "x", value: "1" }] }],
+      ["child", { inherit: ["base"], settings: [{ name: "max_threads", value: "2" }] }],
+    ]);
+
+    expect(resolveProfileSettings("child", profiles)).toEqual([
+      { name: "max_threads", value: "2", source: "child" },
+      { name: "x", value: "1", source: "base" },
+    ]);
+  });
+
+  test("diffProfileAgainstDefaults classifies settings", () => {
+    const diff = diffProfileAgainstDefaults(
+      [
+        { name: "max_threads", value: "4", source: "p" },
+        { name: "readonly", value: "0", source: "p" },
+        { name: "max_memory_usage", max: "100", source: "p" },
+        { name: "bogus", value: "1", source: "p" },
+      ],
+      [
+        { name: "max_threads", default: "16", type: "MaxThreads" },
+        { name: "readonly", default: "0", type: "UInt64" },
+        { name: "max_memory_usage", default: "0", type: "UInt64" },
+      ],
+    );
+
+    expect(diff.map((d) => [d.name, d.status, d.serverDefault])).toEqual([
+      ["bogus", "unknown", null],
+      ["max_memory_usage", "constraint", "0"],
+      ["max_threads", "changed", "16"],
+      ["readonly", "same", "0"],
+    ]);
+  });
+});
@@ -0,0 +1,292 @@
+/**
+ * Settings profile helpers
+ *
+ * Builds CREATE/ALTER/DROP SETTINGS PROFILE statements, converts rows of
+ * system.settings_profile_elements back into definitions, and compares the
+ * settings a profile ends up with against server defaults.
+ */
+
+import { buildToClause, type AccessTargets } from "./access-targets";
+import { escapeSqlString, quoteIdentifier } from "./utils";
+
+export const SETTING_WRITABILITIES = [
+  "WRITABLE",
+  "CONST",
+  "CHANGEABLE_IN_READONLY",
+] as const;
+
+export type SettingWritability = (typeof SETTING_WRITABILITIES)[number];
+
+/** One setting of a profile: a value, a constraint, or both */
+export interface ProfileSetting {
+  name: string;
+  value?: string;
+  min?: string;
+  max?: string;
+  /** Omitted means the setting is writable within MIN/MAX */
+  writability?: SettingWritability;
+}
+
+export interface SettingsProfileDefinition extends AccessTargets {
+  name: string;
+  settings: ProfileSetting[];
+  /** Profiles whose settings are applied first */
+  inherit: string[];
+}
+
+/** Row of system.settings_profile_elements */
+export interface SettingsProfileElementRow {
+  profile_name: string | null;
+  index: number;
+  setting_name: string | null;
+  value: string | null;
+  min: string | null;
+  max: string | null;
+  writability?: SettingWritability | null;
+  /** Pre-22.x servers expose a readonly flag instead of writability */
+  readonly?: number | null;
+  inherit_profile: string | null;
+}
+
+const SETTING_NAME_REGEX = /^[A-Za-z_][A-Za-z0-9_.]*$/;
+
+/**
+ * Render a setting value as a literal. Numbers stay bare so numeric settings
+ * keep their type; anything else becomes a string, which ClickHouse parses
+ * into the setting's type.
+ */
+export function formatSettingValue(value: string): string {
+  const trimmed = value.trim();
+  return /^-?\d+(\.\d+)?$/.test(trimmed)
+    ? trimmed
+    : `'${escapeSqlString(trimmed)}'`;
+}
+
+function buildSettingElement(setting: ProfileSetting): string {
+  if (!SETTING_NAME_REGEX.test(setting.name)) {
+    throw new Error(`Invalid setting name: ${setting.name}`);
+  }
+
+  let element = setting.name;
+  if (setting.value !== undefined && setting.value !== "") {
+    element += ` = ${formatSettingValue(setting.value)}`;
+  }
+  if (setting.min !== undefined && setting.min !== "") {
+    element += ` MIN ${formatSettingValue(setting.min)}`;
+  }
+  if (setting.max !== undefined && setting.max !== "") {
+    element += ` MAX ${formatSettingValue(setting.max)}`;
+  }
+  if (setting.writability) {
+    element += ` ${setting.writability}`;
+  }
+  return element;
+}
+
+function buildSettingsClause(def: SettingsProfileDefinition, emptyAsNone: boolean): string {
+  const elements = [
+    ...def.inherit.map((profile) => `INHERIT '${escapeSqlString(profile)}'`),
+    ...def.settings.map(buildSettingElement),
+  ];
+  if (elements.length > 0) return ` SETTINGS ${elements.join(", ")}`;
+  return emptyAsNone ? " SETTINGS NONE" : "";
+}
+
+/**
+ * CREATE SETTINGS PROFILE statement for a new profile
+ */
+export function buildCreateSettingsProfileStatement(
+  def: SettingsProfileDefinition,
+  onCluster: string = "",
+): string {
+  return (
+    `CREATE SETTINGS PROFILE ${quoteIdentifier(def.name)}${onCluster}` +
+    buildSettingsClause(def, false) +
+    buildToClause(def, false)
+  );
+}
+
+/**
+ * ALTER SETTINGS PROFILE statement. A SETTINGS clause replaces every
+ * setting, constraint and inherited profile, so the definition is complete.
+ */
+export function buildAlterSettingsProfileStatement(
+  def: SettingsProfileDefinition,
+  onCluster: string = "",
+): string {
+  return (
+    `ALTER SETTINGS PROFILE ${quoteIdentifier(def.name)}${onCluster}` +
+    buildSettingsClause(def, true) +
+    buildToClause(def, true)
+  );
+}
+
+export function buildDropSettingsProfileStatement(
+  name: string,
+  onCluster: string = "",
+): string {
+  return `DROP SETTINGS PROFILE IF EXISTS ${quoteIdentifier(name)}${onCluster}`;
+}
+
+/**
+ * Validate a settings profile definition received from a client.
+ * Returns an error message, or null when valid.
+ */
+export function validateSettingsProfileDefinition(
+  def: Partial<SettingsProfileDefinition>,
+): string | null {
+  if (!def.name || typeof def.name !== "string") {
+    return "Profile name is required";
+  }
+  if (!Array.isArray(def.settings) || !Array.isArray(def.inherit)) {
+    return "Settings and inherited profiles must be lists";
+  }
+  if (def.inherit.includes(def.name)) {
+    return "A profile cannot inherit from itself";
+  }
+
+  const seen = new Set<string>();
+  for (const setting of def.settings) {
+    if (!setting?.name || !SETTING_NAME_REGEX.test(setting.name)) {
+      return `Invalid setting name: ${setting?.name ?? ""}`;
+    }
+    if (seen.has(setting.name)) {
+      return `Duplicate setting: ${setting.name}`;
+    }
+    seen.add(setting.name);
+
+    if (
+      setting.writability !== undefined &&
+      !SETTING_WRITABILITIES.includes(setting.writability)
+    ) {
+      return `Invalid constraint for ${setting.name}`;
+    }
+    if (
+      !setting.value &&
+      !setting.min &&
+      !setting.max &&
+      !setting.writability
+    ) {
+      return `Setting ${setting.name} needs a value or a constraint`;
+    }
+
+    const min = Number(setting.min);
+    const max = Number(setting.max);
+    if (setting.min && setting.max && Number.isFinite(min) && Number.isFinite(max) && min > max) {
+      return `MIN is greater than MAX for ${setting.name}`;
+    }
+  }
+
+  if (def.applyTo !== undefined && !Array.isArray(def.applyTo)) {
+    return "applyTo must be a list of users or roles";
+  }
+
+  return null;
+}
+
+/**
+ * Group system.settings_profile_elements rows into settings and inherited
+ * profiles per profile name. Rows of user/role elements are ignored.
+ */
+export function profileElementsToDefinitions(
+  rows: SettingsProfileElementRow[],
+): Map<string, Pick<SettingsProfileDefinition, "settings" | "inherit">> {
+  const result = new Map<string, Pick<SettingsProfileDefinition, "settings" | "inherit">>();
+  const sorted = [...rows].sort((a, b) => Number(a.index) - Number(b.index));
+
+  for (const row of sorted) {
+    if (!row.profile_name) continue;
+    if (!result.has(row.profile_name)) {
+      result.set(row.profile_name, { settings: [], inherit: [] });
+    }
+    const entry = result.get(row.profile_name)!;
+
+    if (row.inherit_profile) {
+      entry.inherit.push(row.inherit_profile);
+    }
+    if (row.setting_name) {
+      const writability =
+        row.writability ?? (Number(row.readonly) === 1 ? "CONST" : null);
+      entry.settings.push({
+        name: row.setting_name,
+        ...(row.value !== null && { value: row.value }),
+        ...(row.min !== null && { min: row.min }),
+        ...(row.max !== null && { max: row.max }),
+        ...(writability && writability !== "WRITABLE" && { writability }),
+      });
+    }
+  }
+
+  return result;
+}
+
+export interface EffectiveProfileSetting extends ProfileSetting {
+  /** Profile the setting comes from (the profile itself or an ancestor) */
+  source: string;
+}
+
+/**
+ * Settings a profile ends up with after inheritance. Inherited profiles are
+ * applied in order and the profile's own settings last, so later entries win.
+ */
+export function resolveProfileSettings(
+  name: string,
+  profiles: Map<string, Pick<SettingsProfileDefinition, "settings" | "inherit">>,
+  visiting: Set<string> = new Set(),
+): EffectiveProfileSetting[] {
+  const profile = profiles.get(name);
+  if (!profile || visiting.has(name)) return [];
+  visiting.add(name);
+
+  const merged = new Map<string, EffectiveProfileSetting>();
+  for (const parent of profile.inherit) {
+    for (const setting of resolveProfileSettings(parent, profiles, visiting)) {
+      merged.set(setting.name, setting);
+    }
+  }
+  for (const setting of profile.settings) {
+    merged.set(setting.name, { ...setting, source: name });
+  }
+
+  visiting.delete(name);
+  return [...merged.values()];
+}
+
+export type ProfileDiffStatus = "changed" | "same" | "constraint" | "unknown";
+
+export interface ProfileSettingDiff extends EffectiveProfileSetting {
+  serverDefault: string | null;
+  type: string | null;
+  status: ProfileDiffStatus;
+}
+
+/**
+ * Compare effective profile settings with defaults from system.settings.
+ * "constraint" marks settings that only carry MIN/MAX/writability.
+ */
+export function diffProfileAgainstDefaults(
+  settings: EffectiveProfileSetting[],
+  defaults: Array<{ name: string; default: string; type: string }>,
+): ProfileSettingDiff[] {
+  const byName = new Map(defaults.map((d) => [d.name, d]));
+
+  return settings
+    .map((setting) => {
+      const server = byName.get(setting.name);
+      let status: ProfileDiffStatus;
+      if (!server) {
+        status = "unknown";
+      } else if (setting.value === undefined) {
+        status = "constraint";
+      } else {
+        status = setting.value === server.default ? "same" : "changed";
+      }
+      return {
+        ...setting,
+        serverDefault: server?.default ?? null,
+        type: server?.type ?? null,
+        status,
+      };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
@@ -0,0 +1,65 @@
+import { describe, expect, test } from "bun:test";
+import { createCursor, parseCursor } from "@/lib/types/discover";
+import { getNextSurroundingCursor, getSurroundingQuery } from "./surrounding";
+
+const base = {
+  tableSource: "`system`.`text_log`",
+  selectClause: "*",
+  timeColumn: "event_time_microseconds",
+  anchor: "2024-05-01 10:00:00.123456",
+  partition: {},
+  limit: 10,
+};
+
+describe("clickhouse/surrounding", () => {
+  test("first pages split at the anchor timestamp", () => {
+    const before = getSurroundingQuery({ ...base, direction: "before" });
+    expect(before).toContain(
+      "WHERE `event_time_microseconds` < '2024-05-01 10:00:00.123456'",
+    );
+    expect(before).toContain(
+      "ORDER BY `event_time_microseconds` DESC, cityHash64(*) DESC LIMIT 10",
+    );
+    expect(before).not.toContain("OFFSET");
+
+    const after = getSurroundingQuery({ ...base, direction: "after" });
+    expect(after).toContain(">= '2024-05-01 10:00:00.123456'");
+    expect(after).toContain("ORDER BY `event_time_microseconds` ASC, cityHash64(*) ASC");
+  });
+
+  test("restricts rows to the anchor's partition values", () => {
+    const sql = getSurroundingQuery({
+      ...base,
+      direction: "before",
+      partition: { hostname: "node-'1'", query_id: null, thread_id: 42 },
+    });
+    expect(sql).toContain("`hostname` = 'node-''1'''");
+    expect(sql).toContain("isNull(`query_id`)");
+    expect(sql).toContain("`thread_id` = '42'");
+  });
+
+  test("continues from a cursor, skipping rows already returned at its timestamp", () => {
+    const cursor = createCursor("2024-05-01 09:59:59.000000", "3");
+    const sql = getSurroundingQuery({ ...base, direction: "before", cursor });
+    expect(sql).toContain("`event_time_microseconds` <= '2024-05-01 09:59:59.000000'");
+    expect(sql).toContain("LIMIT 10 OFFSET 3");
+  });
+
+  test("builds the next cursor from the trailing ties of a full page", () => {
+    const rows = [
+      { event_time_microseconds: "t3" },
+      { event_time_microseconds: "t2" },
+      { event_time_microseconds: "t1" },
+      { event_time_microseconds: "t1" },
+    ];
+    expect(getNextSurroundingCursor(rows, "event_time_microseconds", 5)).toBeNull();
+
+    const next = getNextSurroundingCursor(rows, "event_time_microseconds", 4);
+    expect(parseCursor(next!)).toEqual({ timestamp: "t1", id: "2" });
+
+    // A page of ties at the cursor timestamp adds to the previous offset
+    const ties = [{ event_time_microseconds: "t1" }, { event_time_microseconds: "t1" }];
+    const following = getNextSurroundingCursor(ties, "event_time_microseconds", 2, next!);
+    expect(parseCursor(following!)).toEqual({ timestamp: "t1", id: "4" });
+  });
+});
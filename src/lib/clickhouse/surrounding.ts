@@ -0,0 +1,103 @@
+/**
+ * Surrounding rows for the Discover context view
+ *
+ * Pages outward from an anchor row in both directions along the time column,
+ * optionally restricted to rows sharing the anchor's values for some columns
+ * (host, query_id, ...). Pages are chained with the Discover cursor: the
+ * timestamp of the last returned row plus how many rows at exactly that
+ * timestamp were already returned, so ties are neither skipped nor repeated.
+ * Ties are ordered by a hash of the whole row, so every page sees them in
+ * the same order and the count stays meaningful.
+ */
+
+import { createCursor, parseCursor, type DiscoverRow } from "@/lib/types/discover";
+import { escapeSqlString, quoteIdentifier } from "./utils";
+
+/** "before" pages towards older rows, "after" towards newer ones */
+export type SurroundingDirection = "before" | "after";
+
+/** Values a partition column may be matched against */
+export type SurroundingPartitionValue = string | number | boolean | null;
+
+export interface SurroundingQueryOptions {
+  /** FROM target, already quoted */
+  tableSource: string;
+  /** SELECT list, already quoted */
+  selectClause: string;
+  timeColumn: string;
+  /** Time column value of the anchor row, as returned by ClickHouse */
+  anchor: string;
+  direction: SurroundingDirection;
+  /** Columns that must equal the anchor row's values */
+  partition: Record<string, SurroundingPartitionValue>;
+  limit: number;
+  cursor?: string;
+}
+
+function partitionCondition(
+  column: string,
+  value: SurroundingPartitionValue,
+): string {
+  const quoted = quoteIdentifier(column);
+  if (value === null) return `isNull(${quoted})`;
+  // String literals are converted to the column type by the comparison
+  return `${quoted} = '${escapeSqlString(String(value))}'`;
+}
+
+/**
+ * One page of rows before or after the anchor. The "after" direction
+ * includes rows at the anchor timestamp, so the anchor itself is on the
+ * first "after" page; "before" starts strictly below it.
+ */
+export function getSurroundingQuery(options: SurroundingQueryOptions): string {
+  const { tableSource, selectClause, timeColumn, anchor, direction, partition, limit, cursor } =
+    options;
+  const quotedTime = quoteIdentifier(timeColumn);
+  const parsed = cursor ? parseCursor(cursor) : null;
+
+  const whereConds: string[] = [];
+  let offset = 0;
+  if (parsed) {
+    const op = direction === "before" ? "<=" : ">=";
+    whereConds.push(`${quotedTime} ${op} '${escapeSqlString(parsed.timestamp)}'`);
+    offset = Math.max(0, parseInt(parsed.id, 10) || 0);
+  } else {
+    const op = direction === "before" ? "<" : ">=";
+    whereConds.push(`${quotedTime} ${op} '${escapeSqlString(anchor)}'`);
+  }
+
+  for (const [column, value] of Object.entries(partition)) {
+    whereConds.push(partitionCondition(column, value));
+  }
+
+  const order = direction === "before" ? "DESC" : "ASC";
+
+  return `SELECT ${selectClause} FROM ${tableSource} WHERE ${whereConds.join(" AND ")} ORDER BY ${quotedTime} ${order}, cityHash64(*) ${order} LIMIT ${Math.floor(limit)}${offset > 0 ? ` OFFSET ${offset}` : ""}`;
+}
+
+/**
+ * Cursor for the page following `rows`, or null when the page was not full
+ */
+export function getNextSurroundingCursor(
+  rows: DiscoverRow[],
+  timeColumn: string,
+  limit: number,
+  cursor?: string,
+): string | null {
+  if (rows.length < limit || rows.length === 0) return null;
+
+  const lastTimestamp = String(rows[rows.length - 1][timeColumn]);
+  let ties = 0;
+  for (let i = rows.length - 1; i >= 0; i--) {
+    if (String(rows[i][timeColumn]) !== lastTimestamp) break;
+    ties++;
+  }
+
+  // A page made only of ties continues the previous cursor's offset
+  const parsed = cursor ? parseCursor(cursor) : null;
+  if (parsed && parsed.timestamp === lastTimestamp) {
+    ties += parseInt(parsed.id, 10) || 0;
+  }
+
+  return createCursor(lastTimestamp, String(ties));
+}
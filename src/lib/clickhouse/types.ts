@@ -262,6 +262,61 @@ export interface SystemRole {
   storage: string;
 }
 
+export interface SystemQuota {
+  name: string;
+  id: string;
+  storage: string;
+  keys: string[];
+  durations: number[];
+  apply_to_all: boolean;
+  apply_to_list: string[];
+  apply_to_except: string[];
+}
+
+/** Row of system.quota_limits; max_* columns are null when not limited */
+export interface SystemQuotaLimit {
+  quota_name: string;
+  duration: number;
+  is_randomized_interval: boolean;
+  [limit: `max_${string}`]: number | null;
+}
+
+/** Row of system.quotas_usage; usage and max_* columns per resource */
+export interface SystemQuotaUsage {
+  quota_name: string;
+  quota_key: string;
+  is_current: boolean;
+  start_time: string | null;
+  end_time: string | null;
+  duration: number | null;
+  [resource: string]: unknown;
+}
+
+export interface SystemSettingsProfile {
+  name: string;
+  id: string;
+  storage: string;
+  num_elements: number;
+  apply_to_all: boolean;
+  apply_to_list: string[];
+  apply_to_except: string[];
+}
+
+export interface SystemRowPolicy {
+  /** Full name: short_name ON database.table */
+  name: string;
+  short_name: string;
+  database: string;
+  table: string;
+  id: string;
+  storage: string;
+  select_filter: string | null;
+  is_restrictive: boolean;
+  apply_to_all: boolean;
+  apply_to_list: string[];
+  apply_to_except: string[];
+}
+
 export interface SystemGrant {
   user_name: string | null;
   role_name: string | null;
@@ -0,0 +1,32 @@
+import { describe, expect, test } from "bun:test";
+import { exportFileName, prepareExportSql } from "./formats";
+
+describe("export/formats", () => {
+  describe("prepareExportSql", () => {
+    test("strips trailing semicolons", () => {
+      expect(prepareExportSql("SELECT 1;;  ")).toBe("SELECT 1");
+    });
+
+    test("strips an explicit FORMAT clause", () => {
+      expect(prepareExportSql("SELECT * FROM t FORMAT JSONEachRow;")).toBe(
+        "SELECT * FROM t",
+      );
+    });
+
+    test("keeps FORMAT used elsewhere in the query", () => {
+      expect(prepareExportSql("SELECT format('{}', x) FROM t")).toBe(
+        "SELECT format('{}', x) FROM t",
+      );
+    });
+  });
+
+  test("exportFileName uses the format extension", () => {
+    const date = new Date(2024, 0, 2, 3, 4, 5);
+    expect(exportFileName("parquet", date)).toBe(
+      "query-result-20240102-030405.parquet",
+    );
+    expect(exportFileName("jsonl", date)).toBe(
+      "query-result-20240102-030405.jsonl",
+    );
+  });
+});
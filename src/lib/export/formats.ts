@@ -0,0 +1,99 @@
+/**
+ * Export Formats
+ *
+ * Maps the user-facing export formats to the ClickHouse output format used to
+ * produce them. Safe to import from client components.
+ */
+
+import type { ClickHouseExportFormat } from "@/lib/clickhouse/clients/types";
+
+export const EXPORT_FORMATS = [
+  "csv",
+  "tsv",
+  "jsonl",
+  "parquet",
+  "arrow",
+  "xlsx",
+] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export interface ExportFormatInfo {
+  label: string;
+  extension: string;
+  contentType: string;
+  /** ClickHouse output format requested from the server */
+  clickhouseFormat: ClickHouseExportFormat;
+  /** Whether the output is text, so datetime/timezone settings apply */
+  text: boolean;
+}
+
+export const EXPORT_FORMAT_INFO: Record<ExportFormat, ExportFormatInfo> = {
+  csv: {
+    label: "CSV",
+    extension: "csv",
+    contentType: "text/csv; charset=utf-8",
+    clickhouseFormat: "CSVWithNames",
+    text: true,
+  },
+  tsv: {
+    label: "TSV",
+    extension: "tsv",
+    contentType: "text/tab-separated-values; charset=utf-8",
+    clickhouseFormat: "TabSeparatedWithNames",
+    text: true,
+  },
+  jsonl: {
+    label: "JSON Lines",
+    extension: "jsonl",
+    contentType: "application/x-ndjson",
+    clickhouseFormat: "JSONEachRow",
+    text: true,
+  },
+  parquet: {
+    label: "Parquet",
+    extension: "parquet",
+    contentType: "application/vnd.apache.parquet",
+    clickhouseFormat: "Parquet",
+    text: false,
+  },
+  arrow: {
+    label: "Arrow",
+    extension: "arrow",
+    contentType: "application/vnd.apache.arrow.file",
+    clickhouseFormat: "Arrow",
+    text: false,
+  },
+  xlsx: {
+    label: "Excel (XLSX)",
+    extension: "xlsx",
+    contentType:
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    // Converted to a workbook server-side
+    clickhouseFormat: "JSONCompactEachRowWithNamesAndTypes",
+    text: true,
+  },
+};
+
+/**
+ * Strip a trailing semicolon and FORMAT clause so the export format can be
+ * appended to the statement.
+ */
+export function prepareExportSql(sql: string): string {
+  return sql
+    .trim()
+    .replace(/;+\s*$/, "")
+    .replace(/\s+FORMAT\s+\w+\s*$/i, "")
+    .trim();
+}
+
+/**
+ * Build the download file name for an export, e.g. query-result-20240101-120000.csv
+ */
+export function exportFileName(format: ExportFormat, date = new Date()): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const stamp =
+    `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}` +
+    `-${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+  return `query-result-${stamp}.${EXPORT_FORMAT_INFO[format].extension}`;
+}
@@ -0,0 +1,146 @@
+import { describe, expect, test } from "bun:test";
+import { inflateRawSync } from "node:zlib";
+import {
+  columnName,
+  jsonCompactToXlsx,
+  renderCell,
+  writeXlsx,
+  XlsxSizeError,
+} from "./xlsx";
+
+async function collect(iterable: AsyncIterable<Uint8Array>): Promise<Uint8Array> {
+  const parts: Uint8Array[] = [];
+  for await (const part of iterable) parts.push(part);
+  return new Uint8Array(Buffer.concat(parts));
+}
+
+async function* fromArray<T>(items: T[]): AsyncGenerator<T> {
+  for (const item of items) yield item;
+}
+
+/** Read every entry of a ZIP archive through its central directory */
+function unzip(zip: Uint8Array): Map<string, string> {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const eocd = zip.length - 22;
+  expect(view.getUint32(eocd, true)).toBe(0x06054b50);
+
+  const count = view.getUint16(eocd + 10, true);
+  let pos = view.getUint32(eocd + 16, true);
+  const files = new Map<string, string>();
+
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(pos, true)).toBe(0x02014b50);
+    const compressedSize = view.getUint32(pos + 20, true);
+    const nameLength = view.getUint16(pos + 28, true);
+    const offset = view.getUint32(pos + 42, true);
+    const name = new TextDecoder().decode(zip.subarray(pos + 46, pos + 46 + nameLength));
+
+    const localNameLength = view.getUint16(offset + 26, true);
+    const dataStart = offset + 30 + localNameLength;
+    const data = inflateRawSync(zip.subarray(dataStart, dataStart + compressedSize));
+    files.set(name, data.toString("utf8"));
+    pos += 46 + nameLength;
+  }
+
+  return files;
+}
+
+describe("export/xlsx", () => {
+  test("columnName converts indexes to spreadsheet columns", () => {
+    expect(columnName(0)).toBe("A");
+    expect(columnName(25)).toBe("Z");
+    expect(columnName(26)).toBe("AA");
+    expect(columnName(701)).toBe("ZZ");
+    expect(columnName(702)).toBe("AAA");
+  });
+
+  describe("renderCell", () => {
+    test("writes numeric types as numbers", () => {
+      expect(renderCell(42, "UInt32", "A2")).toBe('<c r="A2"><v>42</v></c>');
+      expect(renderCell("1.5", "Nullable(Float64)", "B2")).toBe('<c r="B2"><v>1.5</v></c>');
+    });
+
+    test("keeps 64-bit integers beyond double precision as text", () => {
+      expect(renderCell("18446744073709551615", "UInt64", "A2")).toContain('t="inlineStr"');
+    });
+
+    test("escapes strings and drops invalid XML characters", () => {
+      expect(renderCell("a<b>&\u0001", "String", "A2")).toBe(
+        '<c r="A2" t="inlineStr"><is><t xml:space="preserve">a&lt;b&gt;&amp;</t></is></c>',
+      );
+    });
+
+    test("writes booleans and skips nulls", () => {
+      expect(renderCell(true, "Bool", "A2")).toBe('<c r="A2" t="b"><v>1</v></c>');
+      expect(renderCell(null, "Nullable(String)", "A2")).toBe("");
+    });
+
+    test("serializes nested values as JSON", () => {
+      expect(renderCell([1, 2], "Array(UInt8)", "A2")).toContain("[1,2]");
+    });
+  });
+
+  test("writes a readable workbook", async () => {
+    const zip = await collect(
+      writeXlsx(
+        [
+          { name: "id", type: "UInt64" },
+          { name: "name", type: "String" },
+        ],
+        fromArray([
+          [1, "alice"],
+          [2, "bob"],
+        ]),
+      ),
+    );
+
+    const files = unzip(zip);
+    expect([...files.keys()]).toContain("xl/workbook.xml");
+    const sheet = files.get("xl/worksheets/sheet1.xml")!;
+    expect(sheet).toContain('<row r="1"><c r="A1" t="inlineStr"><is><t xml:space="preserve">id</t>');
+    expect(sheet).toContain('<row r="3"><c r="A3"><v>2</v></c>');
+    expect(sheet.endsWith("</sheetData></worksheet>")).toBe(true);
+  });
+
+  test("streams large sheets across multiple deflate chunks", async () => {
+    const rows = Array.from({ length: 5000 }, (_, i) => [i, `row-${i}`]);
+    const zip = await collect(
+      writeXlsx(
+        [
+          { name: "n", type: "UInt32" },
+          { name: "s", type: "String" },
+        ],
+        fromArray(rows),
+      ),
+    );
+
+    const sheet = unzip(zip).get("xl/worksheets/sheet1.xml")!;
+    expect(sheet).toContain('<row r="5001">');
+    expect(sheet).toContain("row-4999");
+  });
+
+  test("stops instead of wrapping ZIP sizes past the limit", async () => {
+    const rows = Array.from({ length: 5000 }, (_, i) => [i, `row-${i}-${"x".repeat(40)}`]);
+    const columns = [
+      { name: "id", type: "UInt32" },
+      { name: "label", type: "String" },
+    ];
+
+    await expect(collect(writeXlsx(columns, fromArray(rows), 64 * 1024))).rejects.toThrow(
+      XlsxSizeError,
+    );
+  });
+
+  test("converts JSONCompactEachRowWithNamesAndTypes input", async () => {
+    const body = '["x","y"]\n["Int32","String"]\n[1,"a"]\n[2,"b"]\n';
+    const encoder = new TextEncoder();
+    // Split mid-line to exercise line buffering
+    const chunks = [encoder.encode(body.slice(0, 15)), encoder.encode(body.slice(15))];
+
+    const sheet = unzip(await collect(jsonCompactToXlsx(fromArray(chunks)))).get(
+      "xl/worksheets/sheet1.xml",
+    )!;
+    expect(sheet).toContain('<c r="A2"><v>1</v></c>');
+    expect(sheet).toContain('<c r="B3" t="inlineStr"><is><t xml:space="preserve">b</t>');
+  });
+});
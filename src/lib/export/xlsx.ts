@@ -0,0 +1,388 @@
+/**
+ * Streaming XLSX Writer
+ *
+ * ClickHouse has no spreadsheet output format, so XLSX exports are built here
+ * from JSONCompactEachRowWithNamesAndTypes rows. The workbook is written as a
+ * streaming ZIP: the worksheet entry uses a data descriptor so its size and
+ * CRC do not need to be known up front, and is compressed chunk by chunk with
+ * sync-flushed raw deflate blocks.
+ *
+ * Server-only (uses node:zlib).
+ */
+
+import { deflateRawSync, constants as zlibConstants } from "node:zlib";
+
+/** Excel's hard row limit (including the header row) */
+export const XLSX_MAX_ROWS = 1_048_576;
+
+// Flush compressed worksheet data once this many bytes of XML are buffered
+const CHUNK_SIZE = 64 * 1024;
+
+// Largest size or offset a ZIP record can hold without ZIP64 extensions
+const ZIP32_MAX = 0xffffffff;
+
+/**
+ * Thrown when the workbook outgrows the 4 GiB limit of the ZIP records we
+ * write; continuing would wrap the sizes and produce a corrupt file.
+ */
+export class XlsxSizeError extends Error {
+  constructor() {
+    super("XLSX exports are limited to 4 GiB. Use CSV or Parquet for larger results.");
+    this.name = "XlsxSizeError";
+  }
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Uint8Array, previous = 0): number {
+  let crc = previous ^ 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+const encoder = new TextEncoder();
+
+// Characters not allowed in XML 1.0 documents
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F￾￿]/g;
+
+function escapeXml(value: string): string {
+  return value
+    .replace(INVALID_XML_CHARS, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Convert a zero-based column index to an Excel column name (0 -> A, 26 -> AA)
+ */
+export function columnName(index: number): string {
+  let name = "";
+  let n = index + 1;
+  while (n > 0) {
+    const rem = (n - 1) % 26;
+    name = String.fromCharCode(65 + rem) + name;
+    n = Math.floor((n - 1) / 26);
+  }
+  return name;
+}
+
+function unwrapType(type: string): string {
+  const match = type.match(/^(?:Nullable|LowCardinality)\((.*)\)$/);
+  return match ? unwrapType(match[1]) : type;
+}
+
+function isNumericType(type: string): boolean {
+  return /^(U?Int\d+|Float\d+|Decimal)/.test(unwrapType(type));
+}
+
+/**
+ * Render a single cell. Numbers are written as numeric cells when they fit in
+ * a double without precision loss; everything else becomes an inline string.
+ */
+export function renderCell(value: unknown, type: string, ref: string): string {
+  if (value === null || value === undefined) return "";
+
+  if (typeof value === "boolean") {
+    return `<c r="${ref}" t="b"><v>${value ? 1 : 0}</v></c>`;
+  }
+
+  if (isNumericType(type)) {
+    const num = typeof value === "number" ? value : Number(value);
+    if (Number.isFinite(num) && Math.abs(num) <= Number.MAX_SAFE_INTEGER) {
+      return `<c r="${ref}"><v>${num}</v></c>`;
+    }
+  }
+
+  const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(text)}</t></is></c>`;
+}
+
+function renderRow(values: unknown[], types: string[], rowNumber: number): string {
+  const cells = values
+    .map((value, i) => renderCell(value, types[i] ?? "String", `${columnName(i)}${rowNumber}`))
+    .join("");
+  return `<row r="${rowNumber}">${cells}</row>`;
+}
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/></Types>`;
+
+const ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`;
+
+const WORKBOOK = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="Result" sheetId="1" r:id="rId1"/></sheets></workbook>`;
+
+const WORKBOOK_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>`;
+
+const STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><fonts count="1"><font><sz val="11"/><name val="Calibri"/></font></fonts><fills count="1"><fill><patternFill patternType="none"/></fill></fills><borders count="1"><border/></borders><cellStyleXfs count="1"><xf/></cellStyleXfs><cellXfs count="1"><xf/></cellXfs></styleSheet>`;
+
+const SHEET_HEADER = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>`;
+
+const SHEET_FOOTER = "</sheetData></worksheet>";
+
+interface ZipEntryRecord {
+  name: Uint8Array;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+  flags: number;
+}
+
+const FLAG_DATA_DESCRIPTOR = 0x0008;
+const METHOD_DEFLATE = 8;
+
+function localHeader(name: Uint8Array, flags: number, crc: number, compressedSize: number, size: number): Uint8Array {
+  const header = new Uint8Array(30 + name.length);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, 0x04034b50, true);
+  view.setUint16(4, 20, true); // version needed
+  view.setUint16(6, flags, true);
+  view.setUint16(8, METHOD_DEFLATE, true);
+  view.setUint16(10, 0, true); // mod time
+  view.setUint16(12, 0x21, true); // mod date (1980-01-01)
+  view.setUint32(14, crc, true);
+  view.setUint32(18, compressedSize, true);
+  view.setUint32(22, size, true);
+  view.setUint16(26, name.length, true);
+  view.setUint16(28, 0, true);
+  header.set(name, 30);
+  return header;
+}
+
+function dataDescriptor(crc: number, compressedSize: number, size: number): Uint8Array {
+  const descriptor = new Uint8Array(16);
+  const view = new DataView(descriptor.buffer);
+  view.setUint32(0, 0x08074b50, true);
+  view.setUint32(4, crc, true);
+  view.setUint32(8, compressedSize, true);
+  view.setUint32(12, size, true);
+  return descriptor;
+}
+
+function centralDirectory(entries: ZipEntryRecord[], offset: number): Uint8Array {
+  const parts: Uint8Array[] = [];
+  let size = 0;
+
+  for (const entry of entries) {
+    const record = new Uint8Array(46 + entry.name.length);
+    const view = new DataView(record.buffer);
+    view.setUint32(0, 0x02014b50, true);
+    view.setUint16(4, 20, true); // version made by
+    view.setUint16(6, 20, true); // version needed
+    view.setUint16(8, entry.flags, true);
+    view.setUint16(10, METHOD_DEFLATE, true);
+    view.setUint16(12, 0, true);
+    view.setUint16(14, 0x21, true);
+    view.setUint32(16, entry.crc, true);
+    view.setUint32(20, entry.compressedSize, true);
+    view.setUint32(24, entry.size, true);
+    view.setUint16(28, entry.name.length, true);
+    view.setUint32(42, entry.offset, true);
+    record.set(entry.name, 46);
+    parts.push(record);
+    size += record.length;
+  }
+
+  const end = new Uint8Array(22);
+  const view = new DataView(end.buffer);
+  view.setUint32(0, 0x06054b50, true);
+  view.setUint16(8, entries.length, true);
+  view.setUint16(10, entries.length, true);
+  view.setUint32(12, size, true);
+  view.setUint32(16, offset, true);
+  parts.push(end);
+
+  return concat(parts);
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const total = parts.reduce((sum, p) => sum + p.length, 0);
+  const out = new Uint8Array(total);
+  let pos = 0;
+  for (const part of parts) {
+    out.set(part, pos);
+    pos += part.length;
+  }
+  return out;
+}
+
+export interface XlsxColumn {
+  name: string;
+  type: string;
+}
+
+/**
+ * Write an XLSX workbook with a single "Result" sheet.
+ *
+ * @param columns Column names and ClickHouse types (header row)
+ * @param rows Data rows as value arrays, in column order
+ * @param maxBytes Size limit for the worksheet and the archive
+ * @returns Async iterable of workbook bytes
+ * @throws XlsxSizeError once the workbook would exceed `maxBytes`
+ */
+export async function* writeXlsx(
+  columns: XlsxColumn[],
+  rows: AsyncIterable<unknown[]>,
+  maxBytes = ZIP32_MAX,
+): AsyncGenerator<Uint8Array> {
+  const entries: ZipEntryRecord[] = [];
+  let offset = 0;
+
+  // Small static parts are compressed in one go with sizes in the header
+  const staticEntries: Array<[string, string]> = [
+    ["[Content_Types].xml", CONTENT_TYPES],
+    ["_rels/.rels", ROOT_RELS],
+    ["xl/workbook.xml", WORKBOOK],
+    ["xl/_rels/workbook.xml.rels", WORKBOOK_RELS],
+    ["xl/styles.xml", STYLES],
+  ];
+
+  for (const [fileName, content] of staticEntries) {
+    const name = encoder.encode(fileName);
+    const data = encoder.encode(content);
+    const compressed = new Uint8Array(deflateRawSync(data));
+    const crc = crc32(data);
+    const header = localHeader(name, 0, crc, compressed.length, data.length);
+    entries.push({ name, crc, compressedSize: compressed.length, size: data.length, offset, flags: 0 });
+    yield header;
+    yield compressed;
+    offset += header.length + compressed.length;
+  }
+
+  // Worksheet is streamed with a trailing data descriptor
+  const sheetName = encoder.encode("xl/worksheets/sheet1.xml");
+  const sheetHeader = localHeader(sheetName, FLAG_DATA_DESCRIPTOR, 0, 0, 0);
+  const sheetOffset = offset;
+  yield sheetHeader;
+  offset += sheetHeader.length;
+
+  let crc = 0;
+  let size = 0;
+  let compressedSize = 0;
+  let pending: string[] = [];
+  let pendingLength = 0;
+
+  const flush = (final: boolean): Uint8Array => {
+    const data = encoder.encode(pending.join(""));
+    pending = [];
+    pendingLength = 0;
+    crc = crc32(data, crc);
+    size += data.length;
+    const compressed = new Uint8Array(
+      deflateRawSync(data, {
+        finishFlush: final ? zlibConstants.Z_FINISH : zlibConstants.Z_SYNC_FLUSH,
+      }),
+    );
+    compressedSize += compressed.length;
+    // The central directory starts after this chunk and the 16-byte descriptor
+    if (size > maxBytes || offset + compressed.length + 16 > maxBytes) {
+      throw new XlsxSizeError();
+    }
+    return compressed;
+  };
+
+  const types = columns.map((c) => c.type);
+  pending.push(SHEET_HEADER);
+  pending.push(
+    renderRow(
+      columns.map((c) => c.name),
+      columns.map(() => "String"),
+      1,
+    ),
+  );
+
+  let rowNumber = 1;
+  for await (const row of rows) {
+    if (rowNumber >= XLSX_MAX_ROWS) break;
+    rowNumber++;
+    const xml = renderRow(row, types, rowNumber);
+    pending.push(xml);
+    pendingLength += xml.length;
+
+    if (pendingLength >= CHUNK_SIZE) {
+      const chunk = flush(false);
+      offset += chunk.length;
+      yield chunk;
+    }
+  }
+
+  pending.push(SHEET_FOOTER);
+  const last = flush(true);
+  offset += last.length;
+  yield last;
+
+  const descriptor = dataDescriptor(crc, compressedSize, size);
+  offset += descriptor.length;
+  yield descriptor;
+
+  entries.push({
+    name: sheetName,
+    crc,
+    compressedSize,
+    size,
+    offset: sheetOffset,
+    flags: FLAG_DATA_DESCRIPTOR,
+  });
+
+  yield centralDirectory(entries, offset);
+}
+
+async function* splitLines(stream: AsyncIterable<Uint8Array>): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  let buffer = "";
+  for await (const chunk of stream) {
+    buffer += decoder.decode(chunk, { stream: true });
+    let newline: number;
+    while ((newline = buffer.indexOf("\n")) !== -1) {
+      const line = buffer.slice(0, newline);
+      buffer = buffer.slice(newline + 1);
+      if (line) yield line;
+    }
+  }
+  buffer += decoder.decode();
+  if (buffer) yield buffer;
+}
+
+/**
+ * Convert a JSONCompactEachRowWithNamesAndTypes response body to an XLSX workbook
+ */
+export async function* jsonCompactToXlsx(
+  stream: AsyncIterable<Uint8Array>,
+): AsyncGenerator<Uint8Array> {
+  const lines = splitLines(stream);
+
+  const namesLine = await lines.next();
+  const typesLine = await lines.next();
+  const names: string[] = namesLine.done ? [] : JSON.parse(namesLine.value);
+  const types: string[] = typesLine.done ? [] : JSON.parse(typesLine.value);
+
+  async function* rows(): AsyncGenerator<unknown[]> {
+    for await (const line of lines) {
+      yield JSON.parse(line) as unknown[];
+    }
+  }
+
+  yield* writeXlsx(
+    names.map((name, i) => ({ name, type: types[i] ?? "String" })),
+    rows(),
+  );
+}
@@ -5,7 +5,7 @@ import type { SortingState } from "@tanstack/react-table";
 import { fetchApi } from "@/lib/api/client";
 import { QueryCancellationManager } from "@/lib/clickhouse/cancellation";
 import { parseNDJSONStream } from "@/lib/streams/ndjson-parser";
-import type { DiscoverRow } from "@/lib/types/discover";
+import type { DiscoverRow, QueryLanguage } from "@/lib/types/discover";
 import { toast } from "@/components/ui/use-toast";
 
 export interface FetchDataParams {
@@ -16,6 +16,7 @@ export interface FetchDataParams {
   activeMinTime: string | undefined;
   activeMaxTime: string | undefined;
   appliedFilter: string;
+  queryLanguage?: QueryLanguage;
   sorting: SortingState;
   groupBy: string[];
   page: number;
@@ -64,6 +65,7 @@ export function useDiscoverFetch(options: UseDiscoverFetchOptions): UseDiscoverF
         activeMinTime,
         activeMaxTime,
         appliedFilter,
+        queryLanguage,
         sorting,
         groupBy,
         page,
@@ -103,6 +105,7 @@ export function useDiscoverFetch(options: UseDiscoverFetchOptions): UseDiscoverF
         }
         if (appliedFilter.trim()) {
           urlParams.set("filter", appliedFilter.trim());
+          if (queryLanguage === "kql") urlParams.set("language", "kql");
         }
         if (sorting.length > 0) {
           const sortStr = sorting.map((s: SortingState[0]) => `${s.id}:${s.desc ? "desc" : "asc"}`).join(",");
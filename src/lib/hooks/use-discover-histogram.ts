@@ -4,6 +4,11 @@ import { useCallback } from "react";
 import { fetchApi } from "@/lib/api/client";
 import { QueryCancellationManager } from "@/lib/clickhouse/cancellation";
 import type { HistogramDataPoint } from "@/stores/discover/data-store";
+import type {
+  HistogramAggregation,
+  HistogramInterval,
+  QueryLanguage,
+} from "@/lib/types/discover";
 
 export interface FetchHistogramParams {
   selectedDatabase: string;
@@ -12,6 +17,13 @@ export interface FetchHistogramParams {
   activeMinTime: string | undefined;
   activeMaxTime: string | undefined;
   appliedFilter: string;
+  queryLanguage?: QueryLanguage;
+  /** Bucket size; the server picks one from the time range when "auto" */
+  histogramInterval?: HistogramInterval;
+  /** Column whose top values become separate series */
+  histogramSplitBy?: string;
+  histogramAggregation?: HistogramAggregation;
+  histogramAggregationField?: string;
 }
 
 export interface UseDiscoverHistogramOptions {
@@ -41,6 +53,11 @@ export function useDiscoverHistogram(options: UseDiscoverHistogramOptions): UseD
         activeMinTime,
         activeMaxTime,
         appliedFilter,
+        queryLanguage,
+        histogramInterval,
+        histogramSplitBy,
+        histogramAggregation,
+        histogramAggregationField,
       } = params;
 
       if (!selectedDatabase || !selectedTable || !selectedTimeColumn) {
@@ -63,7 +80,18 @@ export function useDiscoverHistogram(options: UseDiscoverHistogramOptions): UseD
 
         if (activeMinTime) urlParams.set("minTime", activeMinTime);
         if (activeMaxTime) urlParams.set("maxTime", activeMaxTime);
-        if (appliedFilter.trim()) urlParams.set("filter", appliedFilter.trim());
+        if (appliedFilter.trim()) {
+          urlParams.set("filter", appliedFilter.trim());
+          if (queryLanguage === "kql") urlParams.set("language", "kql");
+        }
+        if (histogramInterval && histogramInterval !== "auto") {
+          urlParams.set("interval", histogramInterval);
+        }
+        if (histogramSplitBy) urlParams.set("splitBy", histogramSplitBy);
+        if (histogramAggregation && histogramAggregation !== "count" && histogramAggregationField) {
+          urlParams.set("agg", histogramAggregation);
+          urlParams.set("aggField", histogramAggregationField);
+        }
 
         const res = await fetchApi(`/api/clickhouse/discover?${urlParams}`, {
           signal: controller.signal,
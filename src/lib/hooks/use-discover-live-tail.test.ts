@@ -0,0 +1,61 @@
+import { describe, it, expect } from "bun:test";
+import { fetchTailPages, mergeTailRows } from "./use-discover-live-tail";
+
+const row = (t: string, message: string) => ({ event_time: t, message });
+
+describe("useDiscoverLiveTail - mergeTailRows", () => {
+  it("prepends new rows and skips ones already shown at the newest timestamp", () => {
+    const current = [row("t2", "b"), row("t2", "a"), row("t1", "x")];
+    const incoming = [row("t3", "c"), row("t2", "d"), row("t2", "b"), row("t2", "a")];
+
+    const { rows, added } = mergeTailRows(current, incoming, "event_time", 100);
+
+    expect(added).toEqual([row("t3", "c"), row("t2", "d")]);
+    expect(rows.map((r) => r.message)).toEqual(["c", "d", "b", "a", "x"]);
+  });
+
+  it("keeps the same buffer when nothing new arrived", () => {
+    const current = [row("t2", "b")];
+    const { rows, added } = mergeTailRows(current, [row("t2", "b")], "event_time", 100);
+
+    expect(added).toHaveLength(0);
+    expect(rows).toBe(current);
+  });
+
+  it("drops the oldest rows beyond the buffer cap", () => {
+    const current = [row("t2", "b"), row("t1", "a")];
+    const { rows } = mergeTailRows(current, [row("t4", "d"), row("t3", "c")], "event_time", 3);
+
+    expect(rows.map((r) => r.message)).toEqual(["d", "c", "b"]);
+  });
+});
+
+describe("useDiscoverLiveTail - fetchTailPages", () => {
+  const ascending = Array.from({ length: 7 }, (_, i) => row(`t${i}`, `m${i}`));
+  const pager = (source: ReturnType<typeof row>[], pageSize: number) => {
+    const offsets: number[] = [];
+    const fetchPage = async (offset: number) => {
+      offsets.push(offset);
+      return source.slice(offset, offset + pageSize);
+    };
+    return { offsets, fetchPage };
+  };
+
+  it("pages until a short page and returns rows newest first", async () => {
+    const { offsets, fetchPage } = pager(ascending, 3);
+
+    const rows = await fetchTailPages(fetchPage, 3, 100);
+
+    expect(offsets).toEqual([0, 3, 6]);
+    expect(rows.map((r) => r.message)).toEqual(["m6", "m5", "m4", "m3", "m2", "m1", "m0"]);
+  });
+
+  it("stops at maxRows and keeps the oldest rows for the next poll to continue from", async () => {
+    const { offsets, fetchPage } = pager(ascending, 2);
+
+    const rows = await fetchTailPages(fetchPage, 2, 4);
+
+    expect(offsets).toEqual([0, 2]);
+    expect(rows.map((r) => r.message)).toEqual(["m3", "m2", "m1", "m0"]);
+  });
+});
@@ -0,0 +1,238 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { fetchApi } from "@/lib/api/client";
+import { parseNDJSONStream } from "@/lib/streams/ndjson-parser";
+import { useIntelligentPolling } from "./use-intelligent-polling";
+import type { DiscoverRow, QueryLanguage } from "@/lib/types/discover";
+
+/** Milliseconds between tail polls */
+export const LIVE_TAIL_INTERVAL = 3000;
+/** Rows kept while tailing; the oldest are dropped first */
+export const LIVE_TAIL_MAX_ROWS = 2000;
+/** Rows requested per page of a poll */
+const LIVE_TAIL_BATCH_SIZE = 500;
+/** How long new arrivals stay highlighted */
+const HIGHLIGHT_DURATION = 4000;
+
+const NO_ROWS: ReadonlySet<DiscoverRow> = new Set();
+
+export interface LiveTailParams {
+  selectedDatabase: string;
+  selectedTable: string;
+  selectedColumns: string[];
+  selectedTimeColumn: string;
+  appliedFilter: string;
+  queryLanguage: QueryLanguage;
+}
+
+export interface UseDiscoverLiveTailOptions {
+  enabled: boolean;
+  /** Stops polling without leaving tail mode, e.g. while scrolled down */
+  paused: boolean;
+  params: LiveTailParams;
+  /** Rows currently shown, newest first */
+  getRows: () => DiscoverRow[];
+  onRowsChange: (rows: DiscoverRow[], addedCount: number) => void;
+}
+
+export interface UseDiscoverLiveTailReturn {
+  /** Rows added by the latest poll, highlighted for a few seconds */
+  highlightedRows: ReadonlySet<DiscoverRow>;
+  error: string | null;
+}
+
+/**
+ * Prepend rows from a tail poll to the rows shown, newest first, keeping at
+ * most maxRows. Polls include the newest shown timestamp so rows sharing it
+ * are not lost; the ones already shown are skipped.
+ */
+export function mergeTailRows(
+  current: DiscoverRow[],
+  incoming: DiscoverRow[],
+  timeColumn: string,
+  maxRows: number,
+): { rows: DiscoverRow[]; added: DiscoverRow[] } {
+  const newest = current[0]?.[timeColumn];
+  const shown = new Set<string>();
+  for (const row of current) {
+    if (row[timeColumn] !== newest) break;
+    shown.add(JSON.stringify(row));
+  }
+
+  const added = incoming.filter(
+    (row) => row[timeColumn] !== newest || !shown.has(JSON.stringify(row)),
+  );
+  if (added.length === 0) return { rows: current, added };
+  return { rows: [...added, ...current].slice(0, maxRows), added };
+}
+
+/**
+ * Read the rows that arrived since the newest row shown, oldest first, one
+ * page at a time until a short page shows the tail caught up or maxRows is
+ * reached. Whatever is left over is picked up by the next poll.
+ *
+ * @returns Rows newest first, ready for mergeTailRows
+ */
+export async function fetchTailPages(
+  fetchPage: (offset: number) => Promise<DiscoverRow[]>,
+  pageSize: number,
+  maxRows: number,
+): Promise<DiscoverRow[]> {
+  const rows: DiscoverRow[] = [];
+  for (let offset = 0; offset < maxRows; offset += pageSize) {
+    const page = await fetchPage(offset);
+    rows.push(...page);
+    if (page.length < pageSize) break;
+  }
+  return rows.reverse();
+}
+
+/**
+ * Hook for Discover live tail: polls for rows newer than the newest row shown
+ * and prepends them. Polling stops while paused or the tab is hidden.
+ */
+export function useDiscoverLiveTail({
+  enabled,
+  paused,
+  params,
+  getRows,
+  onRowsChange,
+}: UseDiscoverLiveTailOptions): UseDiscoverLiveTailReturn {
+  const [highlightedRows, setHighlightedRows] = useState<ReadonlySet<DiscoverRow>>(NO_ROWS);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const poll = useCallback(async () => {
+    const {
+      selectedDatabase,
+      selectedTable,
+      selectedColumns,
+      selectedTimeColumn,
+      appliedFilter,
+      queryLanguage,
+    } = params;
+    if (!selectedDatabase || !selectedTable || !selectedTimeColumn) return;
+
+    const head = getRows()[0];
+    const urlParams = new URLSearchParams({
+      database: selectedDatabase,
+      table: selectedTable,
+      mode: "data",
+      timeColumn: selectedTimeColumn,
+      limit: String(LIVE_TAIL_BATCH_SIZE),
+    });
+    if (head && head[selectedTimeColumn] != null) {
+      urlParams.set("since", String(head[selectedTimeColumn]));
+    }
+    if (selectedColumns.length > 0) {
+      urlParams.set("columns", selectedColumns.join(","));
+    }
+    if (appliedFilter.trim()) {
+      urlParams.set("filter", appliedFilter.trim());
+      if (queryLanguage === "kql") urlParams.set("language", "kql");
+    }
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    const fetchBatch = async (): Promise<DiscoverRow[]> => {
+      const res = await fetchApi(`/api/clickhouse/discover?${urlParams}`, {
+        signal: controller.signal,
+      });
+      if (!res.ok) {
+        let msg = res.statusText;
+        try {
+          const err = await res.json();
+          msg = err.error || msg;
+        } catch {
+          // Use status text if JSON parsing fails
+        }
+        throw new Error(msg);
+      }
+      if (!res.body) throw new Error("No response body");
+
+      const batch: DiscoverRow[] = [];
+      let streamError: string | null = null;
+      await parseNDJSONStream<DiscoverRow>(
+        res.body,
+        {
+          onBatch: (rows) => batch.push(...rows),
+          onError: (msg) => {
+            streamError = msg;
+          },
+        },
+        controller.signal,
+      );
+      if (streamError) throw new Error(streamError);
+      return batch;
+    };
+
+    try {
+      let incoming: DiscoverRow[];
+      if (urlParams.has("since")) {
+        // Ascending, so a burst larger than one page is not cut off
+        urlParams.set("orderBy", `${selectedTimeColumn}:asc`);
+        incoming = await fetchTailPages(
+          (offset) => {
+            urlParams.set("offset", String(offset));
+            return fetchBatch();
+          },
+          LIVE_TAIL_BATCH_SIZE,
+          LIVE_TAIL_MAX_ROWS,
+        );
+      } else {
+        incoming = await fetchBatch();
+      }
+      if (controller.signal.aborted) return;
+
+      // A search replaced the rows while polling; the next poll starts from them
+      const current = getRows();
+      if (current[0] !== head) return;
+
+      setError(null);
+      const { rows, added } = mergeTailRows(
+        current,
+        incoming,
+        selectedTimeColumn,
+        LIVE_TAIL_MAX_ROWS,
+      );
+      if (added.length > 0) {
+        onRowsChange(rows, added.length);
+        setHighlightedRows(new Set(added));
+      }
+    } catch (err) {
+      if (err instanceof DOMException && err.name === "AbortError") return;
+      setError(err instanceof Error ? err.message : "Live tail failed");
+      throw err;
+    } finally {
+      if (controllerRef.current === controller) controllerRef.current = null;
+    }
+  }, [params, getRows, onRowsChange]);
+
+  const active = enabled && !paused;
+
+  useIntelligentPolling({
+    interval: LIVE_TAIL_INTERVAL,
+    onPoll: poll,
+    enabled: active,
+  });
+
+  // Drop a poll in flight when tailing pauses or stops
+  useEffect(() => {
+    if (!active) controllerRef.current?.abort();
+  }, [active]);
+
+  useEffect(() => {
+    return () => controllerRef.current?.abort();
+  }, []);
+
+  // Fade the highlight of the latest arrivals
+  useEffect(() => {
+    if (highlightedRows.size === 0) return;
+    const timer = setTimeout(() => setHighlightedRows(NO_ROWS), HIGHLIGHT_DURATION);
+    return () => clearTimeout(timer);
+  }, [highlightedRows]);
+
+  return { highlightedRows, error: enabled ? error : null };
+}
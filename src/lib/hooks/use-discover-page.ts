@@ -5,13 +5,19 @@ import { useSearchParams } from "next/navigation";
 import { format } from "date-fns";
 import { fetchApi } from "@/lib/api/client";
 import { QueryCancellationManager } from "@/lib/clickhouse/cancellation";
-import { useQueryStore } from "@/stores/discover/query-store";
-import { createDiscoverDataStore } from "@/stores/discover/data-store";
+import { useQueryStore, querySelectors } from "@/stores/discover/query-store";
+import {
+  createDiscoverDataStore,
+  type HistogramDataPoint,
+} from "@/stores/discover/data-store";
 import { useDiscoverURL, parseTimeRangeFromURL } from "./use-discover-url";
 import { useDiscoverSchema, loadColumnPrefs, saveColumnPrefs, removeColumnPrefs } from "./use-discover-schema";
 import { useDiscoverFetch } from "./use-discover-fetch";
 import { useDiscoverHistogram } from "./use-discover-histogram";
 import { useDiscoverCacheTracking } from "./use-discover-cache-tracking";
+import { useDiscoverLiveTail } from "./use-discover-live-tail";
+import { compileKql, KqlSyntaxError } from "@/lib/clickhouse/kql";
+import type { SortingState } from "@tanstack/react-table";
 import type {
   TableSchema,
   DiscoverRow,
@@ -19,6 +25,10 @@ import type {
   ColumnMetadata,
   TimeColumnCandidate,
   FlexibleTimeRange,
+  HistogramAggregation,
+  HistogramInterval,
+  QueryLanguage,
+  SavedSearchView,
 } from "@/lib/types/discover";
 import {
   getFlexibleRangeFromEnum,
@@ -48,6 +58,7 @@ export interface DiscoverPageState {
   selectedTimeColumn: string;
   customFilter: string;
   appliedFilter: string;
+  queryLanguage: QueryLanguage;
   isQueryDirty: boolean;
   flexibleRange: FlexibleTimeRange;
   activeMinTime: string | undefined;
@@ -57,7 +68,7 @@ export interface DiscoverPageState {
   totalHits: number;
   isApproximate: boolean;
   accuracy?: number;
-  histogramData: { time: string; count: number }[];
+  histogramData: HistogramDataPoint[];
   isLoading: boolean;
   histLoading: boolean;
   error: string | null;
@@ -65,6 +76,19 @@ export interface DiscoverPageState {
   pageSize: number;
   sorting: import("@tanstack/react-table").SortingState;
   groupBy: string[];
+  histogramInterval: HistogramInterval;
+  histogramSplitBy: string;
+  histogramAggregation: HistogramAggregation;
+  histogramAggregationField: string;
+  /** Whether live tail is on; it needs a time column, the first page and no sort or grouping */
+  liveTail: boolean;
+  /** Live tail is on but not polling while the grid is scrolled down */
+  liveTailPaused: boolean;
+  liveTailError: string | null;
+  /** Rows that arrived in the latest live tail poll */
+  liveTailNewRows: ReadonlySet<DiscoverRow>;
+  /** Current state in the shape stored by saved searches */
+  currentView: SavedSearchView;
   cacheMetadata?: CacheMetadata;
 }
 
@@ -74,22 +98,64 @@ export interface DiscoverPageActions {
   setSelectedColumns: (cols: string[]) => void;
   setSelectedTimeColumn: (col: string) => void;
   setCustomFilter: (filter: string) => void;
+  setQueryLanguage: (language: QueryLanguage) => void;
   setFlexibleRange: (range: FlexibleTimeRange) => void;
   setRefreshInterval: (interval: number) => void;
   setPage: (page: number) => void;
   setPageSize: (size: number) => void;
   handleSearch: (filterOverride?: string | unknown) => void;
   handleHistogramBarClick: (startTime: string, endTime?: string) => void;
+  /** Filter for a split-by value and narrow the time range to its bucket */
+  handleHistogramSegmentClick: (series: string, startTime: string, endTime: string) => void;
   cancelQuery: () => void;
   resetColumns: () => void;
   filterForValue: (column: string, value: unknown) => void;
   filterOutValue: (column: string, value: unknown) => void;
   setSorting: import("@tanstack/react-table").OnChangeFn<import("@tanstack/react-table").SortingState>;
   setGroupBy: (groupBy: string[]) => void;
+  setHistogramInterval: (interval: HistogramInterval) => void;
+  setHistogramSplitBy: (column: string) => void;
+  setHistogramAggregation: (aggregation: HistogramAggregation, field?: string) => void;
+  /** Turn live tail on (resetting page and sort) or off */
+  setLiveTail: (enabled: boolean) => void;
+  /** Report whether the grid is scrolled to its newest rows */
+  setGridAtTop: (atTop: boolean) => void;
+  /** Switch to a saved search's table and restore its state, then run it */
+  applySavedSearch: (view: SavedSearchView) => void;
 }
 
 const dataStore = createDiscoverDataStore();
 
+/**
+ * Parse a saved "column:desc,column:asc" sort order
+ */
+function parseSortConfig(sort: string): SortingState {
+  return sort
+    .split(",")
+    .filter(Boolean)
+    .map((part) => {
+      const match = part.match(/^(.*):(asc|desc)$/);
+      return match
+        ? { id: match[1], desc: match[2] === "desc" }
+        : { id: part, desc: false };
+    });
+}
+
+/**
+ * Time range of a saved search, or null to keep the current one
+ */
+function getSavedTimeRange(view: SavedSearchView): FlexibleTimeRange | null {
+  if (!view.time_from) return null;
+  if (view.time_from.startsWith("now-")) {
+    return parseTimeRangeFromURL(
+      new URLSearchParams({ t: view.time_from.replace("now-", "") }),
+    );
+  }
+  const params = new URLSearchParams({ start: view.time_from });
+  if (view.time_to && view.time_to !== "now") params.set("end", view.time_to);
+  return parseTimeRangeFromURL(params);
+}
+
 export function useDiscoverPage(): DiscoverPageState & DiscoverPageActions {
   const searchParams = useSearchParams();
 
@@ -105,9 +171,15 @@ export function useDiscoverPage(): DiscoverPageState & DiscoverPageActions {
   const [refreshInterval, setRefreshInterval] = useState(0);
   const [page, setPage] = useState(1);
   const [pageSize, setPageSize] = useState(DEFAULT_PAGE_SIZE);
+  const [liveTailRequested, setLiveTailRequested] = useState(false);
+  const [gridAtTop, setGridAtTop] = useState(true);
 
   const cancellationManager = useMemo(() => new QueryCancellationManager(), []);
 
+  // Saved search waiting for its table's schema, and whether to run it once restored
+  const pendingSearchRef = useRef<SavedSearchView | null>(null);
+  const runSavedSearchRef = useRef(false);
+
   // Calculate active time bounds from flexible range
   const { activeMinTime, activeMaxTime } = useMemo(() => {
     if (queryStore.flexibleRange.type === "absolute") {
@@ -130,6 +202,7 @@ export function useDiscoverPage(): DiscoverPageState & DiscoverPageActions {
     selectedDatabase,
     selectedTable,
     appliedFilter: queryStore.appliedFilter,
+    queryLanguage: queryStore.queryLanguage,
     flexibleRange: queryStore.flexibleRange,
     page,
   });
@@ -250,6 +323,19 @@ export function useDiscoverPage(): DiscoverPageState & DiscoverPageActions {
         queryStore.setQuery(filterOverride);
       }
 
+      // Report KQL mistakes before sending the query
+      if (queryStore.queryLanguage === "kql" && schema) {
+        try {
+          compileKql(filterToApply, schema.columns);
+        } catch (err) {
+          if (err instanceof KqlSyntaxError) {
+            dataStore.getState().setError(err.message);
+            return;
+          }
+          throw err;
+        }
+      }
+
       // Track query for cache metadata
       trackQuery({
         filter: filterToApply,
@@ -276,6 +362,7 @@ export function useDiscoverPage(): DiscoverPageState & DiscoverPageActions {
         activeMinTime,
         activeMaxTime,
         appliedFilter: filterToApply,
+        queryLanguage: queryStore.queryLanguage,
         sorting: queryStore.sorting,
         groupBy: queryStore.groupBy,
         page,
@@ -288,11 +375,17 @@ export function useDiscoverPage(): DiscoverPageState & DiscoverPageActions {
         activeMinTime,
         activeMaxTime,
         appliedFilter: filterToApply,
+        queryLanguage: queryStore.queryLanguage,
+        histogramInterval: queryStore.histogramInterval,
+        histogramSplitBy: queryStore.histogramSplitBy,
+        histogramAggregation: queryStore.histogramAggregation,
+        histogramAggregationField: queryStore.histogramAggregationField,
       });
     },
     [
       page,
       pageSize,
+      schema,
       selectedDatabase,
       selectedTable,
       activeMinTime,
@@ -323,6 +416,8 @@ export function useDiscoverPage(): DiscoverPageState & DiscoverPageActions {
 
   // Set selected database
   const setSelectedDatabase = useCallback((db: string) => {
+    pendingSearchRef.current = null;
+    setLiveTailRequested(false);
     setSelectedDatabaseRaw(db);
     setSelectedTable("");
     dataStore.getState().setRows([]);
@@ -332,6 +427,8 @@ export function useDiscoverPage(): DiscoverPageState & DiscoverPageActions {
 
   // Handle table change
   const handleTableChange = useCallback((table: string) => {
+    pendingSearchRef.current = null;
+    setLiveTailRequested(false);
     setSelectedTable(table);
     queryStore.setSelectedColumns([]);
     dataStore.getState().setRows([]);
@@ -340,11 +437,24 @@ export function useDiscoverPage(): DiscoverPageState & DiscoverPageActions {
     queryStore.setAppliedFilter("");
     queryStore.setSort([]);
     queryStore.setGroupBy([]);
+    queryStore.setHistogramSplitBy("");
+    queryStore.setHistogramAggregation("count");
   }, [queryStore]);
 
   // Build filter clause helper
   const buildFilterClause = useCallback(
     (column: string, value: unknown, operator: "=" | "!="): string => {
+      if (queryStore.queryLanguage === "kql") {
+        const clause =
+          value === null || value === undefined
+            ? `${column}:*`
+            : typeof value === "number" || typeof value === "boolean"
+              ? `${column}:${value}`
+              : `${column}:"${String(value).replace(/["\\]/g, "\\$&")}"`;
+        const negate =
+          (operator === "!=") !== (value === null || value === undefined);
+        return negate ? `NOT ${clause}` : clause;
+      }
       if (value === null || value === undefined) {
         return operator === "=" ? `${column} IS NULL` : `${column} IS NOT NULL`;
       }
@@ -354,7 +464,7 @@ export function useDiscoverPage(): DiscoverPageState & DiscoverPageActions {
       const escaped = String(value).replace(/'/g, "\\'");
       return `${column} ${operator} '${escaped}'`;
     },
-    [],
+    [queryStore.queryLanguage],
   );
 
   // Filter for value
@@ -383,6 +493,17 @@ export function useDiscoverPage(): DiscoverPageState & DiscoverPageActions {
     [buildFilterClause, handleSearch, queryStore],
   );
 
+  // Handle a click on one series of a split histogram bar
+  const handleHistogramSegmentClick = useCallback(
+    (series: string, startTime: string, endTime: string) => {
+      handleHistogramBarClick(startTime, endTime);
+      if (queryStore.histogramSplitBy) {
+        filterForValue(queryStore.histogramSplitBy, series);
+      }
+    },
+    [handleHistogramBarClick, filterForValue, queryStore.histogramSplitBy],
+  );
+
   // Reset columns to defaults
   const resetColumns = useCallback(() => {
     if (!schema) return;
@@ -394,6 +515,59 @@ export function useDiscoverPage(): DiscoverPageState & DiscoverPageActions {
     }
   }, [schema, selectedDatabase, selectedTable, queryStore, applyDefaultColumns]);
 
+  // Restore a saved search onto the loaded schema of its table
+  const applySearchState = useCallback(
+    (view: SavedSearchView, tableSchema: TableSchema) => {
+      const validCols = view.columns.filter(
+        (c) =>
+          c === "count" ||
+          tableSchema.columns.some((sc: ColumnMetadata) => sc.name === c),
+      );
+      const columns = validCols.length > 0 ? validCols : applyDefaultColumns(tableSchema);
+      const timeColumn = tableSchema.timeColumns.some(
+        (tc: TimeColumnCandidate) => tc.name === view.time_column,
+      )
+        ? view.time_column
+        : selectDefaultTimeColumn(tableSchema);
+
+      // Keep column preferences in step so the schema effect does not revert them
+      saveColumnPrefs(view.database, view.table, columns, timeColumn);
+      queryStore.setSelectedColumns(columns);
+      queryStore.setSelectedTimeColumn(timeColumn);
+      queryStore.setQueryLanguage(view.query_language);
+      queryStore.setQuery(view.filter);
+      queryStore.setSort(parseSortConfig(view.sort));
+      queryStore.setGroupBy(view.group_by);
+      queryStore.setHistogramInterval(view.histogram_interval);
+      const timeRange = getSavedTimeRange(view);
+      if (timeRange) queryStore.setTimeRange(timeRange);
+
+      runSavedSearchRef.current = true;
+    },
+    [queryStore, applyDefaultColumns, selectDefaultTimeColumn],
+  );
+
+  const applySavedSearch = useCallback(
+    (view: SavedSearchView) => {
+      if (
+        schema &&
+        view.database === selectedDatabase &&
+        view.table === selectedTable
+      ) {
+        applySearchState(view, schema);
+        return;
+      }
+
+      // Restored by the schema effect once the table's schema has loaded
+      pendingSearchRef.current = view;
+      dataStore.getState().setRows([]);
+      dataStore.getState().setHistogramData([]);
+      setSelectedDatabaseRaw(view.database);
+      setSelectedTable(view.table);
+    },
+    [schema, selectedDatabase, selectedTable, applySearchState],
+  );
+
   // Initial load: databases and URL params
   useEffect(() => {
     const urlDb = searchParams.get("db");
@@ -401,6 +575,7 @@ export function useDiscoverPage(): DiscoverPageState & DiscoverPageActions {
     const urlFilter = searchParams.get("filter");
     const urlPage = searchParams.get("page");
     const urlTimeRange = parseTimeRangeFromURL(searchParams);
+    const urlSearch = searchParams.get("search");
 
     const loadDatabases = async () => {
       try {
@@ -428,8 +603,35 @@ export function useDiscoverPage(): DiscoverPageState & DiscoverPageActions {
       }
     };
 
+    // Shared links open a saved search by id
+    const loadSavedSearch = async (id: string) => {
+      try {
+        const res = await fetchApi(`/api/saved-searches/${encodeURIComponent(id)}`);
+        const data = await res.json();
+        if (data.success && data.data) {
+          applySavedSearch(data.data);
+        } else {
+          toast({
+            variant: "destructive",
+            title: "Saved search unavailable",
+            description:
+              data.error?.userMessage ||
+              "The search does not exist or is not shared with you",
+          });
+        }
+      } catch (err) {
+        console.error("Failed to load saved search:", err);
+        toast({
+          variant: "destructive",
+          title: "Error",
+          description: "Failed to load saved search",
+        });
+      }
+    };
+
     if (urlTable) setSelectedTable(urlTable);
     if (urlFilter) {
+      queryStore.setQueryLanguage(searchParams.get("lang") === "kql" ? "kql" : "sql");
       queryStore.setQuery(urlFilter);
       queryStore.setAppliedFilter(urlFilter);
     }
@@ -441,6 +643,7 @@ export function useDiscoverPage(): DiscoverPageState & DiscoverPageActions {
 
     loadDatabases().then(() => {
       hydratedRef.current = true;
+      if (urlSearch) loadSavedSearch(urlSearch);
     });
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
@@ -477,15 +680,33 @@ export function useDiscoverPage(): DiscoverPageState & DiscoverPageActions {
     };
     loadTables();
 
-    setSelectedTable("");
+    const pending = pendingSearchRef.current;
+    setSelectedTable(pending?.database === selectedDatabase ? pending.table : "");
     dataStore.getState().setRows([]);
     dataStore.getState().setHistogramData([]);
   }, [selectedDatabase]);
 
+  // Run a restored saved search. Declared before the schema effect so it fires
+  // on the render after the restored state has reached handleSearch.
+  useEffect(() => {
+    if (!runSavedSearchRef.current) return;
+    runSavedSearchRef.current = false;
+    handleSearch();
+  }, [handleSearch]);
+
   // Apply schema when loaded
   useEffect(() => {
     if (!schema) return;
 
+    const pending = pendingSearchRef.current;
+    if (pending) {
+      if (schema.database === pending.database && schema.table === pending.table) {
+        pendingSearchRef.current = null;
+        applySearchState(pending, schema);
+      }
+      return;
+    }
+
     const prefs = loadColumnPreferences(selectedDatabase, selectedTable);
     if (prefs) {
       const validCols = prefs.columns.filter((c: string) =>
@@ -516,7 +737,7 @@ export function useDiscoverPage(): DiscoverPageState & DiscoverPageActions {
         queryStore.setSelectedTimeColumn(newTimeCol);
       }
     }
-  }, [schema, selectedDatabase, selectedTable, queryStore, loadColumnPreferences, applyDefaultColumns, selectDefaultTimeColumn]);
+  }, [schema, selectedDatabase, selectedTable, queryStore, loadColumnPreferences, applyDefaultColumns, selectDefaultTimeColumn, applySearchState]);
 
   // Fetch data when schema is ready (initial load only)
   // Subsequent searches are triggered explicitly via handleSearch
@@ -532,6 +753,7 @@ export function useDiscoverPage(): DiscoverPageState & DiscoverPageActions {
         activeMinTime,
         activeMaxTime,
         appliedFilter: queryStore.appliedFilter,
+        queryLanguage: queryStore.queryLanguage,
         sorting: queryStore.sorting,
         groupBy: queryStore.groupBy,
         page,
@@ -551,6 +773,7 @@ export function useDiscoverPage(): DiscoverPageState & DiscoverPageActions {
       activeMinTime,
       activeMaxTime,
       appliedFilter: queryStore.appliedFilter,
+      queryLanguage: queryStore.queryLanguage,
       sorting: queryStore.sorting,
       groupBy: queryStore.groupBy,
       page,
@@ -570,11 +793,16 @@ export function useDiscoverPage(): DiscoverPageState & DiscoverPageActions {
         activeMinTime,
         activeMaxTime,
         appliedFilter: queryStore.appliedFilter,
+        queryLanguage: queryStore.queryLanguage,
+        histogramInterval: queryStore.histogramInterval,
+        histogramSplitBy: queryStore.histogramSplitBy,
+        histogramAggregation: queryStore.histogramAggregation,
+        histogramAggregationField: queryStore.histogramAggregationField,
       });
     }
   }, [schema, selectedDatabase, selectedTable]);
 
-  // Refetch histogram when time range, filter, or time column changes
+  // Refetch histogram when time range, filter, time column or interval changes
   useEffect(() => {
     if (!schema || !initialHistogramRef.current) return;
     fetchHistogram({
@@ -584,8 +812,66 @@ export function useDiscoverPage(): DiscoverPageState & DiscoverPageActions {
       activeMinTime,
       activeMaxTime,
       appliedFilter: queryStore.appliedFilter,
+      queryLanguage: queryStore.queryLanguage,
+      histogramInterval: queryStore.histogramInterval,
+      histogramSplitBy: queryStore.histogramSplitBy,
+      histogramAggregation: queryStore.histogramAggregation,
+      histogramAggregationField: queryStore.histogramAggregationField,
     });
-  }, [activeMinTime, activeMaxTime, queryStore.appliedFilter, queryStore.selectedTimeColumn]);
+  }, [activeMinTime, activeMaxTime, queryStore.appliedFilter, queryStore.selectedTimeColumn, queryStore.histogramInterval, queryStore.histogramSplitBy, queryStore.histogramAggregation, queryStore.histogramAggregationField]);
+
+  // Live tail polls for rows newer than the first row shown, so it only runs
+  // on the newest-first first page of ungrouped rows
+  const canLiveTail =
+    !!queryStore.selectedTimeColumn &&
+    queryStore.groupBy.length === 0 &&
+    queryStore.sorting.length === 0 &&
+    page === 1;
+  const liveTail = liveTailRequested && canLiveTail;
+  const liveTailPaused = liveTail && !gridAtTop;
+
+  const setLiveTail = useCallback(
+    (enabled: boolean) => {
+      if (enabled) {
+        setPage(1);
+        if (queryStore.sorting.length > 0) queryStore.setSort([]);
+        setGridAtTop(true);
+      }
+      setLiveTailRequested(enabled);
+    },
+    [queryStore],
+  );
+
+  const liveTailParams = useMemo(
+    () => ({
+      selectedDatabase,
+      selectedTable,
+      selectedColumns: queryStore.selectedColumns,
+      selectedTimeColumn: queryStore.selectedTimeColumn,
+      appliedFilter: queryStore.appliedFilter,
+      queryLanguage: queryStore.queryLanguage,
+    }),
+    [
+      selectedDatabase,
+      selectedTable,
+      queryStore.selectedColumns,
+      queryStore.selectedTimeColumn,
+      queryStore.appliedFilter,
+      queryStore.queryLanguage,
+    ],
+  );
+
+  const { highlightedRows: liveTailNewRows, error: liveTailError } = useDiscoverLiveTail({
+    enabled: liveTail,
+    paused: liveTailPaused || dataState.loading.data,
+    params: liveTailParams,
+    getRows: useCallback(() => dataStore.getState().rows, []),
+    onRowsChange: useCallback((rows: DiscoverRow[], addedCount: number) => {
+      const state = dataStore.getState();
+      state.setRows(rows);
+      if (state.totalCount >= 0) state.setTotalCount(state.totalCount + addedCount);
+    }, []),
+  });
 
   // Cleanup on unmount
   useEffect(() => {
@@ -613,6 +899,23 @@ export function useDiscoverPage(): DiscoverPageState & DiscoverPageActions {
     [queryStore],
   );
 
+  const currentView = useMemo<SavedSearchView>(
+    () => ({
+      database: selectedDatabase,
+      table: selectedTable,
+      time_column: queryStore.selectedTimeColumn,
+      columns: queryStore.selectedColumns,
+      filter: queryStore.customFilter,
+      query_language: queryStore.queryLanguage,
+      time_from: queryStore.flexibleRange.from,
+      time_to: queryStore.flexibleRange.to,
+      sort: querySelectors.sortConfig(queryStore) ?? "",
+      group_by: queryStore.groupBy,
+      histogram_interval: queryStore.histogramInterval,
+    }),
+    [selectedDatabase, selectedTable, queryStore],
+  );
+
   return {
     databases,
     tables,
@@ -624,6 +927,7 @@ export function useDiscoverPage(): DiscoverPageState & DiscoverPageActions {
     selectedTimeColumn: queryStore.selectedTimeColumn,
     customFilter: queryStore.customFilter,
     appliedFilter: queryStore.appliedFilter,
+    queryLanguage: queryStore.queryLanguage,
     isQueryDirty: queryStore.isQueryDirty,
     flexibleRange: queryStore.flexibleRange,
     activeMinTime,
@@ -641,6 +945,15 @@ export function useDiscoverPage(): DiscoverPageState & DiscoverPageActions {
     pageSize,
     sorting: queryStore.sorting,
     groupBy: queryStore.groupBy,
+    histogramInterval: queryStore.histogramInterval,
+    histogramSplitBy: queryStore.histogramSplitBy,
+    histogramAggregation: queryStore.histogramAggregation,
+    histogramAggregationField: queryStore.histogramAggregationField,
+    liveTail,
+    liveTailPaused,
+    liveTailError,
+    liveTailNewRows,
+    currentView,
     cacheMetadata,
 
     setSelectedDatabase,
@@ -648,17 +961,25 @@ export function useDiscoverPage(): DiscoverPageState & DiscoverPageActions {
     setSelectedColumns,
     setSelectedTimeColumn,
     setCustomFilter: queryStore.setQuery,
+    setQueryLanguage: queryStore.setQueryLanguage,
     setFlexibleRange: queryStore.setTimeRange,
     setRefreshInterval,
     setPage,
     setPageSize,
     handleSearch,
     handleHistogramBarClick,
+    handleHistogramSegmentClick,
     cancelQuery,
     resetColumns,
     filterForValue,
     filterOutValue,
     setSorting,
     setGroupBy,
+    setHistogramInterval: queryStore.setHistogramInterval,
+    setHistogramSplitBy: queryStore.setHistogramSplitBy,
+    setHistogramAggregation: queryStore.setHistogramAggregation,
+    setLiveTail,
+    setGridAtTop,
+    applySavedSearch,
   };
 }
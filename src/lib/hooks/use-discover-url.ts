@@ -3,7 +3,7 @@
 import { useEffect, useRef, useCallback } from "react";
 import { useSearchParams, useRouter, usePathname } from "next/navigation";
 import { format } from "date-fns";
-import type { FlexibleTimeRange, TimeRange } from "@/lib/types/discover";
+import type { FlexibleTimeRange, QueryLanguage, TimeRange } from "@/lib/types/discover";
 import { getFlexibleRangeFromEnum } from "@/lib/types/discover";
 
 const VALID_RELATIVE_RANGES = new Set([
@@ -23,6 +23,7 @@ export interface URLParams {
   database: string | null;
   table: string | null;
   filter: string | null;
+  language: QueryLanguage | null;
   page: number;
   timeRange: FlexibleTimeRange | null;
 }
@@ -31,6 +32,7 @@ export interface UseDiscoverURLOptions {
   selectedDatabase: string;
   selectedTable: string;
   appliedFilter: string;
+  queryLanguage?: QueryLanguage;
   flexibleRange: FlexibleTimeRange;
   page: number;
   onHydrated?: () => void;
@@ -84,7 +86,15 @@ export function parseTimeRangeFromURL(
  * Handles initial hydration from URL and syncing state back to URL
  */
 export function useDiscoverURL(options: UseDiscoverURLOptions): UseDiscoverURLReturn {
-  const { selectedDatabase, selectedTable, appliedFilter, flexibleRange, page, onHydrated } = options;
+  const {
+    selectedDatabase,
+    selectedTable,
+    appliedFilter,
+    queryLanguage,
+    flexibleRange,
+    page,
+    onHydrated,
+  } = options;
   const searchParams = useSearchParams();
   const router = useRouter();
   const pathname = usePathname();
@@ -97,6 +107,7 @@ export function useDiscoverURL(options: UseDiscoverURLOptions): UseDiscoverURLRe
     database: searchParams.get("db"),
     table: searchParams.get("table"),
     filter: searchParams.get("filter"),
+    language: searchParams.get("lang") === "kql" ? "kql" : null,
     page: (() => {
       const urlPage = searchParams.get("page");
       const p = urlPage ? parseInt(urlPage, 10) : 1;
@@ -119,6 +130,7 @@ export function useDiscoverURL(options: UseDiscoverURLOptions): UseDiscoverURLRe
       if (selectedDatabase) params.set("db", selectedDatabase);
       if (selectedTable) params.set("table", selectedTable);
       if (appliedFilter) params.set("filter", appliedFilter);
+      if (appliedFilter && queryLanguage === "kql") params.set("lang", "kql");
 
       if (flexibleRange.type === "relative") {
         const rangeKey = flexibleRange.from.replace("now-", "");
@@ -138,7 +150,7 @@ export function useDiscoverURL(options: UseDiscoverURLOptions): UseDiscoverURLRe
         router.replace(`${pathname}?${newSearch}`, { scroll: false });
       }
     }, 300);
-  }, [selectedDatabase, selectedTable, appliedFilter, flexibleRange, page, pathname, router]);
+  }, [selectedDatabase, selectedTable, appliedFilter, queryLanguage, flexibleRange, page, pathname, router]);
 
   // Cleanup timer on unmount
   useEffect(() => {
@@ -15,6 +15,8 @@ export interface LogEntry {
   details: string; // concatenated source info
   // Extra fields for details view
   event_time?: string;
+  hostname?: string; // node the line was logged on
+  thread_id?: string | number;
   thread_name?: string;
   priority_str?: string;
   query_id?: string;
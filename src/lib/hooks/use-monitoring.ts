@@ -8,6 +8,8 @@ import type {
   OperationsResponse,
   HealthSummary,
 } from "@/lib/clickhouse/monitoring";
+import type { DetachedPartsData } from "@/app/api/clickhouse/monitoring/detached-parts/route";
+import type { MutationDetail } from "@/lib/clickhouse/mutations";
 import { fetchClient } from "@/lib/api/client";
 
 // =============================================================================
@@ -180,6 +182,42 @@ export function useDisks(options?: UseMonitoringDataOptions) {
   );
 }
 
+export type { DetachedPartsData };
+
+export function useDetachedParts(
+  params?: { database?: string; table?: string },
+  options?: UseMonitoringDataOptions,
+) {
+  const searchParams = new URLSearchParams();
+  if (params?.database) searchParams.set("database", params.database);
+  if (params?.table) searchParams.set("table", params.table);
+
+  const queryString = searchParams.toString();
+  const endpoint = `/api/clickhouse/monitoring/detached-parts${
+    queryString ? `?${queryString}` : ""
+  }`;
+
+  return useMonitoringData<DetachedPartsData>(endpoint, options);
+}
+
+export function useMutationDetail(
+  mutation: { database: string; table: string; mutationId: string } | null,
+  options?: UseMonitoringDataOptions,
+) {
+  const endpoint = mutation
+    ? `/api/clickhouse/mutations?${new URLSearchParams({
+        database: mutation.database,
+        table: mutation.table,
+        mutationId: mutation.mutationId,
+      }).toString()}`
+    : "";
+
+  return useMonitoringData<MutationDetail>(endpoint, {
+    ...options,
+    enabled: !!mutation && (options?.enabled ?? true),
+  });
+}
+
 // =============================================================================
 // Utility hooks
 // =============================================================================
@@ -122,6 +122,7 @@ describe("useSqlCursor", () => {
       isRunning: true,
       error: null,
       queryId: "test-query-id",
+      script: null,
     });
 
     await waitFor(
@@ -3,7 +3,7 @@
 import { useState, useCallback } from "react";
 import { fetchApi } from "@/lib/api/client";
 import { QueryCancellationManager } from "@/lib/clickhouse/cancellation";
-import { findStatementAtPosition } from "@/lib/sql";
+import { findStatementAtPosition, getStatementQueryParams } from "@/lib/sql";
 import type { QueryTab, QueryHistoryEntry } from "@/lib/store/tabs";
 import { generateUUID } from "@/lib/utils";
 import { toast } from "@/components/ui/use-toast";
@@ -133,7 +133,7 @@ export function useSqlCursor({
     if (!statement) return;
 
     const queryId = generateUUID();
-    updateTab(tab.id, { isRunning: true, error: null, queryId });
+    updateTab(tab.id, { isRunning: true, error: null, queryId, script: null });
 
     try {
       const controller = cancellationManager.createController(queryId);
@@ -149,6 +149,7 @@ export function useSqlCursor({
           query_id: queryId,
           database: selectedDatabase,
           timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+          query_params: getStatementQueryParams(statement, tab.params ?? {}),
         }),
         signal: controller.signal,
       });
@@ -301,6 +301,77 @@ describe("useSqlExecution", () => {
     });
   });
 
+  it("should run scripts in one session and stop at the first error", async () => {
+    let currentTab: QueryTab = { ...mockTab, isRunning: false };
+    mockGetActiveQueryTab.mockImplementation(() => currentTab);
+
+    const bodies: Record<string, unknown>[] = [];
+    global.fetch = mock((_url: string, init?: RequestInit) => {
+      const body = JSON.parse(String(init?.body));
+      bodies.push(body);
+      if (body.sql.startsWith("SELECT missing")) {
+        return Promise.resolve({
+          ok: false,
+          status: 400,
+          json: () =>
+            Promise.resolve({
+              error: {
+                code: 47,
+                message: "Missing columns",
+                type: "QUERY_ERROR",
+                userMessage: "Unknown column",
+              },
+            }),
+        } as Response);
+      }
+      const events = [{ type: "done", statistics: { elapsed: 0.01, rows_read: 0, bytes_read: 0 } }];
+      const read = mock()
+        .mockResolvedValueOnce({
+          done: false,
+          value: new TextEncoder().encode(events.map((e) => JSON.stringify(e)).join("\n") + "\n"),
+        })
+        .mockResolvedValueOnce({ done: true, value: new Uint8Array() });
+      return Promise.resolve({
+        ok: true,
+        body: { getReader: () => ({ read }) },
+      } as unknown as Response);
+    });
+
+    const { result } = renderHook(() =>
+      useSqlExecution({
+        cancellationManager,
+        csrfToken: "test-token",
+        selectedDatabase: "testdb",
+        user: mockUser,
+        updateTab: (id, updates) => {
+          mockUpdateTab(id, updates);
+          currentTab = { ...currentTab, ...updates };
+        },
+        getActiveQueryTab: mockGetActiveQueryTab,
+        addToHistory: mockAddToHistory,
+      }),
+    );
+
+    await act(async () => {
+      await result.current.execute("SET max_threads = 1; SELECT missing; SELECT 1");
+    });
+
+    expect(bodies).toHaveLength(2);
+    expect(bodies[0].session_id).toBeDefined();
+    expect(bodies[1].session_id).toBe(bodies[0].session_id);
+
+    const script = currentTab.script;
+    expect(script?.statements.map((s) => s.status)).toEqual([
+      "success",
+      "error",
+      "skipped",
+    ]);
+    expect(script?.activeIndex).toBe(1);
+    expect(script?.finishedAt).toBeDefined();
+    expect(currentTab.isRunning).toBe(false);
+    expect(currentTab.error?.userMessage).toBe("Unknown column");
+  });
+
   it("should handle error responses", async () => {
     let currentTab = { ...mockTab, isRunning: false };
     mockGetActiveQueryTab.mockImplementation(() => currentTab);
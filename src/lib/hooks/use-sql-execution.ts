@@ -3,7 +3,12 @@
 import { useState, useCallback } from "react";
 import { fetchApi } from "@/lib/api/client";
 import { QueryCancellationManager } from "@/lib/clickhouse/cancellation";
-import type { QueryTab, QueryHistoryEntry } from "@/lib/store/tabs";
+import type {
+  QueryTab,
+  QueryHistoryEntry,
+  ScriptRun,
+  ScriptStatementResult,
+} from "@/lib/store/tabs";
 import { generateUUID } from "@/lib/utils";
 import { toast } from "@/components/ui/use-toast";
 
@@ -27,6 +32,8 @@ interface QueryResult {
   meta: Array<{ name: string; type: string }>;
   rows: number;
   rows_before_limit_at_least?: number;
+  /** Statement that produced the result (used for full exports) */
+  sql?: string;
   statistics: {
     elapsed: number;
     rows_read: number;
@@ -153,21 +160,57 @@ export function useSqlExecution(
       const trimmedSql = sql.trim();
       if (!trimmedSql) return;
 
-      const { splitSqlStatements } = await import("@/lib/sql");
+      const { splitSqlStatements, getStatementQueryParams } = await import(
+        "@/lib/sql"
+      );
       const statements = splitSqlStatements(trimmedSql);
 
       if (statements.length === 0) return;
 
+      // Scripts run in one ClickHouse session so SET and temporary tables
+      // carry over; every statement gets its own result sub-tab
+      let script: ScriptRun | null =
+        statements.length > 1
+          ? {
+              sessionId: generateUUID(),
+              statements: statements.map((statement) => ({
+                sql: statement,
+                status: "pending",
+                result: null,
+                error: null,
+              })),
+              activeIndex: 0,
+              startedAt: Date.now(),
+            }
+          : null;
+
+      const updateStatement = (
+        index: number,
+        updates: Partial<ScriptStatementResult>,
+      ) => {
+        if (!script) return;
+        script = {
+          ...script,
+          activeIndex: index,
+          statements: script.statements.map((s, i) =>
+            i === index ? { ...s, ...updates } : s,
+          ),
+        };
+        updateTab(tab.id, { script });
+      };
+
       const queryId = generateUUID();
-      updateTab(tab.id, { isRunning: true, error: null, queryId });
+      updateTab(tab.id, { isRunning: true, error: null, queryId, script });
       setIsExecuting(true);
 
       let lastSelectResult: QueryResult | null = null;
+      let lastSelectIndex: number | null = null;
       let executedCount = 0;
       let totalElapsed = 0;
+      let scriptError: { index: number; error: ApiError } | null = null;
 
       try {
-        for (const statement of statements) {
+        for (const [index, statement] of statements.entries()) {
           const currentTab = getActiveQueryTab();
           if (
             !currentTab ||
@@ -177,94 +220,106 @@ export function useSqlExecution(
             return;
           }
 
-          const controller = cancellationManager.createController(queryId);
-
-          const response = await fetchApi("/api/clickhouse/query", {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-              "x-csrf-token": csrfToken || "",
-            },
-            body: JSON.stringify({
-              sql: statement,
-              query_id: queryId,
-              page: page,
-              pageSize: pageSize,
-              database: selectedDatabase,
-              timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-            }),
-            signal: controller.signal,
-          });
+          updateStatement(index, { status: "running" });
 
-          if (!response.ok) {
-            let errorDetails: ApiError = {
-              code: response.status,
-              message: response.statusText || `HTTP ${response.status} error`,
-              type: "HTTP_ERROR",
-              userMessage: `Request failed with status ${response.status}`,
-            };
-            try {
-              const errorData = await response.json();
-              if (errorData.error) {
-                errorDetails = errorData.error;
-              }
-} catch {
-              // Use default errorDetails
+          const showPartialResult = (result: QueryResult) => {
+            if (script) {
+              updateStatement(index, { result });
+            } else {
+              updateTab(tab.id, { isRunning: true, result });
             }
+          };
 
-            throw errorDetails;
-          }
-
-          if (!response.body) {
-            throw {
-              code: 0,
-              message: "Response body is empty",
-              type: "EMPTY_RESPONSE",
-              userMessage: "Server returned an empty response",
-            } as ApiError;
-          }
-
-          const reader = response.body.getReader();
-          const decoder = new TextDecoder();
+          try {
+            const controller = cancellationManager.createController(queryId);
 
-          let currentMeta: Array<{ name: string; type: string }> = [];
-          const currentData: Record<string, unknown>[] = [];
-          let currentStatistics = {
-            elapsed: 0,
-            rows_read: 0,
-            bytes_read: 0,
-          };
-          let limitReached = false;
-          let queryError = null;
-          let isSelect = false;
-          let lastUpdate = 0;
+            const response = await fetchApi("/api/clickhouse/query", {
+              method: "POST",
+              headers: {
+                "Content-Type": "application/json",
+                "x-csrf-token": csrfToken || "",
+              },
+              body: JSON.stringify({
+                sql: statement,
+                query_id: queryId,
+                session_id: script?.sessionId,
+                // Script results are not paginated; paging would re-run the script
+                page: script ? undefined : page,
+                pageSize: script ? undefined : pageSize,
+                database: selectedDatabase,
+                timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+                query_params: getStatementQueryParams(statement, tab.params ?? {}),
+              }),
+              signal: controller.signal,
+            });
+
+            if (!response.ok) {
+              let errorDetails: ApiError = {
+                code: response.status,
+                message: response.statusText || `HTTP ${response.status} error`,
+                type: "HTTP_ERROR",
+                userMessage: `Request failed with status ${response.status}`,
+              };
+              try {
+                const errorData = await response.json();
+                if (errorData.error) {
+                  errorDetails = errorData.error;
+                }
+              } catch {
+                // Use default errorDetails
+              }
 
-          let buffer = "";
-          while (true) {
-            const { done, value } = await reader.read();
-            if (done) break;
+              throw errorDetails;
+            }
 
-            buffer += decoder.decode(value, { stream: true });
-            const lines = buffer.split("\n");
-            buffer = lines.pop() || "";
+            if (!response.body) {
+              throw {
+                code: 0,
+                message: "Response body is empty",
+                type: "EMPTY_RESPONSE",
+                userMessage: "Server returned an empty response",
+              } as ApiError;
+            }
 
-            for (const line of lines) {
-              if (!line.trim()) continue;
+            const reader = response.body.getReader();
+            const decoder = new TextDecoder();
 
-              try {
-                const event = JSON.parse(line);
-
-                if (event.type === "meta") {
-                  currentMeta = event.data;
-                  isSelect = true;
-                } else if (event.type === "data") {
-                  currentData.push(...event.data);
-
-                  const now = Date.now();
-                  if (now - lastUpdate > 200) {
-                    updateTab(tab.id, {
-                      isRunning: true,
-                      result: {
+            let currentMeta: Array<{ name: string; type: string }> = [];
+            const currentData: Record<string, unknown>[] = [];
+            let currentStatistics = {
+              elapsed: 0,
+              rows_read: 0,
+              bytes_read: 0,
+            };
+            let limitReached = false;
+            let queryError = null;
+            let isSelect = false;
+            let lastUpdate = 0;
+
+            let buffer = "";
+            while (true) {
+              const { done, value } = await reader.read();
+              if (done) break;
+
+              buffer += decoder.decode(value, { stream: true });
+              const lines = buffer.split("\n");
+              buffer = lines.pop() || "";
+
+              for (const line of lines) {
+                if (!line.trim()) continue;
+
+                try {
+                  const event = JSON.parse(line);
+
+                  if (event.type === "meta") {
+                    currentMeta = event.data;
+                    isSelect = true;
+                  } else if (event.type === "data") {
+                    currentData.push(...event.data);
+
+                    const now = Date.now();
+                    if (now - lastUpdate > 200) {
+                      showPartialResult({
                         data: [...currentData],
                         meta: currentMeta,
                         rows: currentData.length,
@@ -272,52 +327,89 @@ export function useSqlExecution(
                           ...currentStatistics,
                           rows_read: event.rows_count,
                         },
-                      },
-                    });
-                    lastUpdate = now;
-                  }
-                } else if (event.type === "progress") {
-                  currentStatistics.rows_read = event.rows_read;
-                  updateTab(tab.id, {
-                    result: {
+                      });
+                      lastUpdate = now;
+                    }
+                  } else if (event.type === "progress") {
+                    currentStatistics.rows_read = event.rows_read;
+                    showPartialResult({
                       data: currentData,
                       meta: currentMeta,
                       rows: currentData.length,
                       statistics: currentStatistics,
-                    } as unknown as QueryResult,
-                  });
-                } else if (event.type === "done") {
-                  limitReached = event.limit_reached;
-                  if (event.statistics) {
-                    currentStatistics = {
-                      ...currentStatistics,
-                      ...event.statistics,
-                    };
+                    });
+                  } else if (event.type === "done") {
+                    limitReached = event.limit_reached;
+                    if (event.statistics) {
+                      currentStatistics = {
+                        ...currentStatistics,
+                        ...event.statistics,
+                      };
+                    }
+                  } else if (event.type === "error") {
+                    queryError = event.error;
                   }
-                } else if (event.type === "error") {
-                  queryError = event.error;
+                } catch (e) {
+                  console.error("Error parsing chunk", e);
                 }
-              } catch (e) {
-                console.error("Error parsing chunk", e);
               }
             }
-          }
 
-          if (queryError) {
-            throw queryError;
-          }
+            if (queryError) {
+              throw queryError;
+            }
 
-          executedCount++;
-          totalElapsed += currentStatistics.elapsed;
+            executedCount++;
+            totalElapsed += currentStatistics.elapsed;
+
+            if (isSelect) {
+              lastSelectResult = {
+                data: currentData,
+                meta: currentMeta,
+                rows: currentData.length,
+                statistics: currentStatistics,
+                rows_before_limit_at_least: limitReached ? 500000 : undefined,
+                sql: statement,
+              };
+              lastSelectIndex = index;
+            }
 
-          if (isSelect) {
-            lastSelectResult = {
-              data: currentData,
-              meta: currentMeta,
-              rows: currentData.length,
-              statistics: currentStatistics,
-              rows_before_limit_at_least: limitReached ? 500000 : undefined,
-            };
+            updateStatement(index, {
+              status: "success",
+              result: isSelect
+                ? lastSelectResult
+                : {
+                    data: [{ message: "Statement executed successfully" }],
+                    meta: [{ name: "message", type: "String" }],
+                    rows: 1,
+                    statistics: currentStatistics,
+                  },
+            });
+          } catch (error) {
+            if (!script) throw error;
+
+            const afterError = getActiveQueryTab();
+            if (
+              !afterError ||
+              afterError.id !== tab.id ||
+              !afterError.isRunning
+            ) {
+              return;
+            }
+
+            const errorInfo = getErrorInfo(error);
+            scriptError ??= { index, error: errorInfo };
+            updateStatement(index, { status: "error", error: errorInfo });
+
+            if (!afterError.continueOnError) {
+              script = {
+                ...script,
+                statements: script.statements.map((s) =>
+                  s.status === "pending" ? { ...s, status: "skipped" } : s,
+                ),
+              };
+              break;
+            }
           }
         }
 
@@ -326,12 +418,30 @@ export function useSqlExecution(
           return;
         }
 
+        if (script) {
+          script = {
+            ...script,
+            finishedAt: Date.now(),
+            activeIndex:
+              scriptError?.index ?? lastSelectIndex ?? statements.length - 1,
+          };
+        }
+
+        if (scriptError) {
+          toast({
+            variant: "destructive",
+            title: `Statement ${scriptError.index + 1} failed: ${scriptError.error.userMessage}`,
+            description: scriptError.error.hint || scriptError.error.message,
+          });
+        }
+
         if (lastSelectResult) {
           updateTab(tab.id, {
             isRunning: false,
             result: lastSelectResult,
-            error: null,
+            error: scriptError?.error ?? null,
             queryId: undefined,
+            script,
           });
 
           addToHistory({
@@ -342,6 +452,7 @@ export function useSqlExecution(
             bytesRead: lastSelectResult.statistics.bytes_read,
             memoryUsage: lastSelectResult.statistics.memory_usage,
             user: user?.username,
+            ...(scriptError && { error: scriptError.error.userMessage }),
           });
         } else {
           updateTab(tab.id, {
@@ -360,8 +471,9 @@ export function useSqlExecution(
                 bytes_read: 0,
               },
             },
-            error: null,
+            error: scriptError?.error ?? null,
             queryId: undefined,
+            script,
           });
 
           addToHistory({
@@ -371,6 +483,7 @@ export function useSqlExecution(
             rowsRead: 0,
             bytesRead: 0,
             user: user?.username,
+            ...(scriptError && { error: scriptError.error.userMessage }),
           });
         }
       } catch (error) {
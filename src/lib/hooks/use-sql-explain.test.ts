@@ -78,6 +78,7 @@ describe("useSqlExplain", () => {
       error: null,
       result: null,
       explainResult: null,
+      script: null,
     });
 
     expect(mockUpdateTab).toHaveBeenCalledWith("tab-1", {
@@ -296,7 +297,9 @@ describe("useSqlExplain", () => {
   it("should strip existing EXPLAIN prefix from SQL", async () => {
     global.fetch = mock(async (url, init) => {
       const body = JSON.parse(init?.body as string);
-      expect(body.sql).toBe("EXPLAIN PLAN SELECT * FROM users");
+      expect(body.sql).toBe(
+        "EXPLAIN PLAN json = 1, indexes = 1, actions = 1 SELECT * FROM users",
+      );
 
       return {
         ok: true,
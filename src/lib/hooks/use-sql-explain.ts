@@ -140,7 +140,8 @@ export function useSqlExplain(
       const sql = tab.sql.trim();
       if (!sql) return;
 
-      const { splitSqlStatements } = await import("@/lib/sql");
+      const { splitSqlStatements, EXPLAIN_SETTINGS, getStatementQueryParams } =
+        await import("@/lib/sql");
       const statements = splitSqlStatements(sql);
       const statement = statements[0];
 
@@ -151,6 +152,7 @@ export function useSqlExplain(
         error: null,
         result: null,
         explainResult: null,
+        script: null,
       });
 
       setIsExplaining(true);
@@ -159,7 +161,11 @@ export function useSqlExplain(
         let query = "";
 
         const cleanStatement = statement.replace(/^EXPLAIN\s+(\w+\s+)?/i, "");
-        query = `EXPLAIN ${type} ${cleanStatement}`;
+        // PLAN and PIPELINE request structured output for the visualizer
+        const explainSettings = EXPLAIN_SETTINGS[type];
+        query = explainSettings
+          ? `EXPLAIN ${type} ${explainSettings} ${cleanStatement}`
+          : `EXPLAIN ${type} ${cleanStatement}`;
 
         const response = await fetchApi("/api/clickhouse/query", {
           method: "POST",
@@ -171,6 +177,7 @@ export function useSqlExplain(
             sql: query,
             database: selectedDatabase,
             timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+            query_params: getStatementQueryParams(query, tab.params ?? {}),
           }),
         });
 
@@ -0,0 +1,339 @@
+"use client";
+
+import { useState, useCallback, useRef } from "react";
+import { fetchApi } from "@/lib/api/client";
+import { withBasePath } from "@/lib/base-path";
+import { toast } from "@/components/ui/use-toast";
+import { generateUUID } from "@/lib/utils";
+import {
+  EXPORT_FORMAT_INFO,
+  exportFileName,
+  type ExportFormat,
+} from "@/lib/export/formats";
+import type { ExportStatus } from "@/app/api/clickhouse/query/export/route";
+
+/**
+ * Options for the useSqlExport hook
+ */
+export interface UseSqlExportOptions {
+  csrfToken: string | null;
+  selectedDatabase: string | null;
+}
+
+/**
+ * Progress of a running export
+ */
+export interface SqlExportProgress {
+  format: ExportFormat;
+  /** Bytes written so far, when the page saves the file itself */
+  bytesReceived: number | null;
+  /** Rows read by the export query, for downloads handled by the browser */
+  rowsRead: number | null;
+}
+
+/**
+ * Return value for the useSqlExport hook
+ */
+export interface UseSqlExportReturn {
+  exportResult: (
+    sql: string,
+    format: ExportFormat,
+    queryParams?: Record<string, string>,
+  ) => Promise<void>;
+  cancelExport: () => Promise<void>;
+  progress: SqlExportProgress | null;
+}
+
+const EXPORT_ENDPOINT = "/api/clickhouse/query/export";
+const DOWNLOAD_FRAME_NAME = "clicklens-export-download";
+const STATUS_POLL_INTERVAL_MS = 1000;
+// Polls to wait for a native download's query to show up before giving up
+const STATUS_START_POLLS = 5;
+
+interface SaveFilePickerOptions {
+  suggestedName?: string;
+  types?: { description: string; accept: Record<string, string[]> }[];
+}
+
+type ShowSaveFilePicker = (
+  options?: SaveFilePickerOptions,
+) => Promise<FileSystemFileHandle>;
+
+/** The File System Access save dialog, where the browser supports it */
+function getSaveFilePicker(): ShowSaveFilePicker | null {
+  const picker = (window as Window & { showSaveFilePicker?: ShowSaveFilePicker })
+    .showSaveFilePicker;
+  return picker ? picker.bind(window) : null;
+}
+
+function getErrorMessage(text: string, fallback: string): string {
+  try {
+    const data = JSON.parse(text);
+    return data.error?.userMessage || data.error?.message || data.error || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function wait(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true },
+    );
+  });
+}
+
+/**
+ * Post the export as a form into a hidden frame so the browser saves the
+ * response as a regular download. An attachment never loads into the frame;
+ * an error response does, and is reported through `onError`. Aborting
+ * `signal` removes the frame.
+ */
+function startNativeDownload(
+  payload: Record<string, unknown>,
+  csrfToken: string | null,
+  signal: AbortSignal,
+  onError: (message: string) => void,
+) {
+  document.getElementsByName(DOWNLOAD_FRAME_NAME).forEach((el) => el.remove());
+
+  const frame = document.createElement("iframe");
+  frame.name = DOWNLOAD_FRAME_NAME;
+  frame.hidden = true;
+  frame.addEventListener("load", () => {
+    const text = frame.contentDocument?.body?.textContent ?? "";
+    if (!text) return;
+    onError(getErrorMessage(text, "Export failed"));
+    frame.remove();
+  });
+  signal.addEventListener("abort", () => frame.remove(), { once: true });
+  document.body.appendChild(frame);
+
+  const form = document.createElement("form");
+  form.method = "POST";
+  form.action = withBasePath(EXPORT_ENDPOINT);
+  form.target = DOWNLOAD_FRAME_NAME;
+  form.hidden = true;
+  for (const [name, value] of [
+    ["csrf_token", csrfToken || ""],
+    ["payload", JSON.stringify(payload)],
+  ]) {
+    const input = document.createElement("input");
+    input.type = "hidden";
+    input.name = name;
+    input.value = value;
+    form.appendChild(input);
+  }
+  document.body.appendChild(form);
+  form.submit();
+  form.remove();
+}
+
+/**
+ * Follow a native download through the export query's status until the
+ * query is no longer running. Resolves early when `signal` is aborted.
+ */
+async function watchNativeDownload(
+  queryId: string,
+  signal: AbortSignal,
+  onProgress: (status: ExportStatus) => void,
+): Promise<void> {
+  let seen = false;
+  for (let polls = 1; !signal.aborted; polls++) {
+    await wait(STATUS_POLL_INTERVAL_MS, signal);
+    if (signal.aborted) return;
+
+    const response = await fetchApi(
+      `${EXPORT_ENDPOINT}?query_id=${encodeURIComponent(queryId)}`,
+      { signal },
+    );
+    const json = await response.json();
+    if (!json.success) return;
+
+    const status = json.data as ExportStatus;
+    if (status.running) {
+      seen = true;
+      onProgress(status);
+    } else if (seen || polls >= STATUS_START_POLLS) {
+      return;
+    }
+  }
+}
+
+/**
+ * Hook for downloading the full result of a query through the export endpoint.
+ *
+ * The response is never held in memory: where the browser has a save dialog
+ * (File System Access API) it is streamed to the chosen file with progress,
+ * and cancelling aborts the download and kills the query on the server.
+ * Elsewhere the browser downloads it natively; the page then shows the rows
+ * read by the export query, and cancelling kills the query.
+ */
+export function useSqlExport(options: UseSqlExportOptions): UseSqlExportReturn {
+  const { csrfToken, selectedDatabase } = options;
+
+  const [progress, setProgress] = useState<SqlExportProgress | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+  const queryIdRef = useRef<string | null>(null);
+
+  const exportResult = useCallback(
+    async (
+      sql: string,
+      format: ExportFormat,
+      queryParams?: Record<string, string>,
+    ) => {
+      if (controllerRef.current) return;
+
+      const queryId = generateUUID();
+      const payload = {
+        sql,
+        format,
+        query_id: queryId,
+        database: selectedDatabase,
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        query_params: queryParams,
+      };
+      const reportError = (message: string) =>
+        toast({
+          title: "Export failed",
+          description: message,
+          variant: "destructive",
+        });
+
+      const picker = getSaveFilePicker();
+      let handle: FileSystemFileHandle | null = null;
+      if (picker) {
+        const info = EXPORT_FORMAT_INFO[format];
+        try {
+          handle = await picker({
+            suggestedName: exportFileName(format),
+            types: [
+              {
+                description: info.label,
+                accept: { [info.contentType.split(";")[0]]: [`.${info.extension}`] },
+              },
+            ],
+          });
+        } catch (error) {
+          // Dismissed by the user
+          if (error instanceof DOMException && error.name === "AbortError") return;
+        }
+      }
+
+      const controller = new AbortController();
+      controllerRef.current = controller;
+      queryIdRef.current = queryId;
+
+      if (!handle) {
+        setProgress({ format, bytesReceived: null, rowsRead: null });
+        let failed = false;
+        startNativeDownload(payload, csrfToken, controller.signal, (message) => {
+          failed = true;
+          controller.abort();
+          reportError(message);
+        });
+        toast({
+          title: "Export started",
+          description: "The file is saved by your browser's downloads.",
+        });
+
+        try {
+          await watchNativeDownload(queryId, controller.signal, (status) =>
+            setProgress({ format, bytesReceived: null, rowsRead: status.readRows }),
+          );
+        } catch {
+          // Progress is best effort; the browser still has the download
+        } finally {
+          if (controller.signal.aborted && !failed) {
+            toast({ title: "Export cancelled" });
+          }
+          controllerRef.current = null;
+          queryIdRef.current = null;
+          setProgress(null);
+        }
+        return;
+      }
+
+      setProgress({ format, bytesReceived: 0, rowsRead: null });
+
+      try {
+        const response = await fetchApi(EXPORT_ENDPOINT, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "x-csrf-token": csrfToken || "",
+          },
+          body: JSON.stringify(payload),
+          signal: controller.signal,
+        });
+
+        if (!response.ok || !response.body) {
+          const fallback = `Export failed with status ${response.status}`;
+          throw new Error(getErrorMessage(await response.text(), fallback));
+        }
+
+        let bytesReceived = 0;
+        let lastUpdate = 0;
+        const counter = new TransformStream<Uint8Array, Uint8Array>({
+          transform(chunk, streamController) {
+            bytesReceived += chunk.length;
+            const now = Date.now();
+            if (now - lastUpdate > 200) {
+              setProgress({ format, bytesReceived, rowsRead: null });
+              lastUpdate = now;
+            }
+            streamController.enqueue(chunk);
+          },
+        });
+
+        // Aborting the pipe also discards the partially written file
+        const writable = await handle.createWritable();
+        await response.body
+          .pipeThrough(counter)
+          .pipeTo(writable, { signal: controller.signal });
+
+        toast({ title: "Export complete", description: handle.name });
+      } catch (error) {
+        if (controller.signal.aborted) {
+          toast({ title: "Export cancelled" });
+        } else {
+          reportError(error instanceof Error ? error.message : String(error));
+        }
+      } finally {
+        controllerRef.current = null;
+        queryIdRef.current = null;
+        setProgress(null);
+      }
+    },
+    [csrfToken, selectedDatabase],
+  );
+
+  const cancelExport = useCallback(async () => {
+    const controller = controllerRef.current;
+    const queryId = queryIdRef.current;
+    if (!controller || !queryId) return;
+
+    controller.abort();
+
+    try {
+      await fetchApi("/api/clickhouse/kill", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-csrf-token": csrfToken || "",
+        },
+        body: JSON.stringify({ queryId }),
+      });
+    } catch {
+      // The query is also cancelled when the connection closes
+    }
+  }, [csrfToken]);
+
+  return { exportResult, cancelExport, progress };
+}
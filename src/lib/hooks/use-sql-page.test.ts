@@ -167,6 +167,18 @@ describe("useSqlPage - Tab Management Consolidation", () => {
       expect(useTabsStore.getState().tabs[0].error).toEqual(error);
       expect(useTabsStore.getState().tabs[0].isRunning).toBe(false);
     });
+
+    it("should keep query parameter values on the tab", () => {
+      const tabId = useTabsStore.getState().addTab({
+        sql: "SELECT {id:UInt32}",
+        params: { id: "1" },
+      });
+
+      useTabsStore.getState().updateTab(tabId, { params: { id: "2" } });
+
+      const tab = useTabsStore.getState().tabs[0];
+      expect(tab.type === "query" && tab.params).toEqual({ id: "2" });
+    });
   });
 
   describe("Query History", () => {
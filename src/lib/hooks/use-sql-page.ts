@@ -1,6 +1,6 @@
 "use client";
 
-import { useEffect, useMemo, useCallback } from "react";
+import { useEffect, useMemo, useCallback, useRef } from "react";
 import { toast } from "@/components/ui/use-toast";
 import { useRouter } from "next/navigation";
 import { useTabsStore, initializeTabs } from "@/lib/store/tabs";
@@ -12,6 +12,14 @@ import { useSqlPagination } from "./use-sql-pagination";
 import { useSqlUI } from "./use-sql-ui";
 import { useSqlCursor } from "./use-sql-cursor";
 import { useSqlExplain } from "./use-sql-explain";
+import { useSqlExport, type SqlExportProgress } from "./use-sql-export";
+import type { ExportFormat } from "@/lib/export/formats";
+import {
+  extractQueryParameters,
+  fromShareSearchParams,
+  getStatementQueryParams,
+  type QueryParameter,
+} from "@/lib/sql";
 import type { ExplainType } from "@/components/sql";
 
 export interface SqlPageState {
@@ -33,6 +41,9 @@ export interface SqlPageState {
   cursorPosition: number;
   tabPagination: Record<string, { page: number; pageSize: number }>;
   queryHistory: ReturnType<typeof useTabsStore.getState>["history"];
+  exportProgress: SqlExportProgress | null;
+  /** {name:Type} placeholders in the active query */
+  queryParameters: QueryParameter[];
 }
 
 export interface SqlPageActions {
@@ -51,8 +62,11 @@ export interface SqlPageActions {
   handleCursorChange: (position: number) => void;
   handleExecuteAtCursor: () => Promise<void>;
   handleExplain: (type: ExplainType) => Promise<void>;
+  handleExport: (format: ExportFormat) => Promise<void>;
+  handleCancelExport: () => Promise<void>;
   handleApplyTimeRange: (start: Date, end: Date, columnName: string) => void;
   handleHistorySelect: (sql: string) => void;
+  handleParamChange: (name: string, value: string) => void;
   clearHistory: () => void;
 }
 
@@ -76,9 +90,29 @@ export function useSqlPage(): SqlPageState & SqlPageActions {
     }
   }, [authLoading, permissions, router]);
 
+  // Open a query shared by URL (?sql=...&param_<name>=...) in a new tab
+  const sharedQueryHandled = useRef(false);
+  useEffect(() => {
+    if (sharedQueryHandled.current) return;
+    sharedQueryHandled.current = true;
+
+    const shared = fromShareSearchParams(
+      new URLSearchParams(window.location.search),
+    );
+    if (!shared) return;
+    useTabsStore.getState().addTab({ sql: shared.sql, params: shared.params });
+    router.replace("/sql");
+  }, [router]);
+
   const activeTab = tabs.find((t) => t.id === activeTabId);
   const activeQueryTab = activeTab?.type === "query" ? activeTab : undefined;
 
+  const activeSql = activeQueryTab?.sql;
+  const queryParameters = useMemo(
+    () => extractQueryParameters(activeSql ?? ""),
+    [activeSql]
+  );
+
   // Compose focused hooks
   const { execute, isExecuting } = useSqlExecution({
     cancellationManager,
@@ -144,7 +178,26 @@ export function useSqlPage(): SqlPageState & SqlPageActions {
     getActiveQueryTab,
   });
 
+  const { exportResult, cancelExport, progress: exportProgress } = useSqlExport({
+    csrfToken,
+    selectedDatabase,
+  });
+
   // Orchestrator-only handlers
+  const handleExport = useCallback(
+    async (format: ExportFormat) => {
+      const tab = getActiveQueryTab();
+      const sql = tab?.result?.sql;
+      if (!sql) return;
+      await exportResult(
+        sql,
+        format,
+        getStatementQueryParams(sql, tab.params ?? {}),
+      );
+    },
+    [getActiveQueryTab, exportResult]
+  );
+
   const handleCancel = useCallback(async () => {
     const tab = getActiveQueryTab();
     if (!tab || !tab.isRunning || !tab.queryId) return;
@@ -160,6 +213,17 @@ export function useSqlPage(): SqlPageState & SqlPageActions {
         type: "CANCELLED",
         userMessage: "Query cancelled by user",
       },
+      ...(tab.script && {
+        script: {
+          ...tab.script,
+          finishedAt: Date.now(),
+          statements: tab.script.statements.map((s) =>
+            s.status === "running" || s.status === "pending"
+              ? { ...s, status: "cancelled" as const }
+              : s
+          ),
+        },
+      }),
     });
   }, [getActiveQueryTab, updateTab, cancellationManager]);
 
@@ -242,6 +306,15 @@ export function useSqlPage(): SqlPageState & SqlPageActions {
     [activeTabId, activeQueryTab, updateTab, setHistoryOpen]
   );
 
+  const handleParamChange = useCallback(
+    (name: string, value: string) => {
+      const tab = getActiveQueryTab();
+      if (!tab) return;
+      updateTab(tab.id, { params: { ...tab.params, [name]: value } });
+    },
+    [getActiveQueryTab, updateTab]
+  );
+
   // Get history from useTabsStore
   const { history: queryHistory } = useTabsStore();
 
@@ -266,6 +339,8 @@ export function useSqlPage(): SqlPageState & SqlPageActions {
     cursorPosition,
     tabPagination: pagination,
     queryHistory,
+    exportProgress,
+    queryParameters,
 
     // Actions from stores
     updateTab,
@@ -285,7 +360,10 @@ export function useSqlPage(): SqlPageState & SqlPageActions {
     handleCursorChange,
     handleExecuteAtCursor: executeAtCursor,
     handleExplain: explain,
+    handleExport,
+    handleCancelExport: cancelExport,
     handleApplyTimeRange,
     handleHistorySelect,
+    handleParamChange,
   };
 }
@@ -6,10 +6,13 @@ import { fetchClient } from "@/lib/api/client";
 // Types
 import type { TableOverview } from "@/app/api/clickhouse/tables/explorer/route";
 import type { PartInfo } from "@/app/api/clickhouse/tables/explorer/parts/route";
+import type { PartitionsData } from "@/app/api/clickhouse/tables/explorer/partitions/route";
 import type { ColumnStats } from "@/app/api/clickhouse/tables/explorer/columns/route";
 import type { ReplicaInfo } from "@/app/api/clickhouse/tables/explorer/replicas/route";
 import type { MutationInfo } from "@/app/api/clickhouse/tables/explorer/mutations/route";
 import type { MergeInfo } from "@/app/api/clickhouse/tables/explorer/merges/route";
+import type { IndexesData } from "@/app/api/clickhouse/tables/explorer/indexes/route";
+import type { TableSchema } from "@/lib/types/discover";
 
 // =============================================================================
 // Generic fetcher hook
@@ -110,6 +113,32 @@ export function useTableParts(database: string | null, table: string | null) {
   });
 }
 
+export function useTablePartitions(database: string | null, table: string | null) {
+  const endpoint =
+    database && table
+      ? `/api/clickhouse/tables/explorer/partitions?database=${encodeURIComponent(
+          database,
+        )}&table=${encodeURIComponent(table)}`
+      : "";
+
+  return useTableExplorerData<PartitionsData>(endpoint, {
+    enabled: !!database && !!table,
+  });
+}
+
+export function useTableSchema(database: string | null, table: string | null) {
+  const endpoint =
+    database && table
+      ? `/api/clickhouse/schema/table-columns?database=${encodeURIComponent(
+          database,
+        )}&table=${encodeURIComponent(table)}`
+      : "";
+
+  return useTableExplorerData<TableSchema>(endpoint, {
+    enabled: !!database && !!table,
+  });
+}
+
 export interface ColumnsData {
   columns: ColumnStats[];
   summary: {
@@ -203,6 +232,19 @@ export function useTableMerges(database: string | null, table: string | null) {
   });
 }
 
+export function useTableIndexes(database: string | null, table: string | null) {
+  const endpoint =
+    database && table
+      ? `/api/clickhouse/tables/explorer/indexes?database=${encodeURIComponent(
+          database,
+        )}&table=${encodeURIComponent(table)}`
+      : "";
+
+  return useTableExplorerData<IndexesData>(endpoint, {
+    enabled: !!database && !!table,
+  });
+}
+
 // Types for dependencies
 import type {
   TableNode,
@@ -229,6 +271,7 @@ export function useTableDependencies(database: string | null) {
 export type {
   TableOverview,
   PartInfo,
+  PartitionsData,
   ColumnStats,
   ReplicaInfo,
   MutationInfo,
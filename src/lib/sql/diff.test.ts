@@ -0,0 +1,33 @@
+import { describe, expect, test } from "bun:test";
+import { diffLines } from "./diff";
+
+describe("sql/diff", () => {
+  test("returns only equal lines for identical text", () => {
+    expect(diffLines("SELECT 1\nFROM t", "SELECT 1\nFROM t")).toEqual([
+      { type: "equal", text: "SELECT 1" },
+      { type: "equal", text: "FROM t" },
+    ]);
+  });
+
+  test("marks changed lines as removed then added", () => {
+    expect(
+      diffLines("SELECT a\nFROM t\nLIMIT 10", "SELECT a, b\nFROM t\nLIMIT 10"),
+    ).toEqual([
+      { type: "removed", text: "SELECT a" },
+      { type: "added", text: "SELECT a, b" },
+      { type: "equal", text: "FROM t" },
+      { type: "equal", text: "LIMIT 10" },
+    ]);
+  });
+
+  test("handles appended and removed lines", () => {
+    expect(diffLines("SELECT 1", "SELECT 1\nFORMAT JSON")).toEqual([
+      { type: "equal", text: "SELECT 1" },
+      { type: "added", text: "FORMAT JSON" },
+    ]);
+    expect(diffLines("SELECT 1\nFROM t", "FROM t")).toEqual([
+      { type: "removed", text: "SELECT 1" },
+      { type: "equal", text: "FROM t" },
+    ]);
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Line diff for comparing SQL revisions
+ */
+
+export interface DiffLine {
+  type: "equal" | "added" | "removed";
+  text: string;
+}
+
+// Above this many cells the LCS table gets too large; fall back to a
+// whole-text replacement
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Compute a line-based diff from `before` to `after` using the longest
+ * common subsequence of lines.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+
+  if (a.length * b.length > MAX_LCS_CELLS) {
+    return [
+      ...a.map((text) => ({ type: "removed" as const, text })),
+      ...b.map((text) => ({ type: "added" as const, text })),
+    ];
+  }
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: Uint32Array[] = Array.from(
+    { length: a.length + 1 },
+    () => new Uint32Array(b.length + 1),
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i] === b[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ type: "equal", text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ type: "removed", text: a[i++] });
+    } else {
+      result.push({ type: "added", text: b[j++] });
+    }
+  }
+  while (i < a.length) result.push({ type: "removed", text: a[i++] });
+  while (j < b.length) result.push({ type: "added", text: b[j++] });
+
+  return result;
+}
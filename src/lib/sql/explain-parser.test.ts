@@ -0,0 +1,194 @@
+import { describe, expect, test } from "bun:test";
+import {
+  parseExplainPlan,
+  parsePipelineGraph,
+  isIndexIneffective,
+  countPlanNodes,
+} from "./explain-parser";
+
+const PLAN_JSON = `[
+  {
+    "Plan": {
+      "Node Type": "Expression",
+      "Description": "(Projection + Before ORDER BY)",
+      "Plans": [
+        {
+          "Node Type": "Sorting",
+          "Description": "Sorting for ORDER BY",
+          "Sort Description": [
+            {"Column": "event_time", "Ascending": false, "With Fill": false}
+          ],
+          "Limit": 10,
+          "Plans": [
+            {
+              "Node Type": "ReadFromMergeTree",
+              "Description": "default.hits",
+              "Read Type": "InReverseOrder",
+              "Parts": 3,
+              "Granules": 6,
+              "Indexes": [
+                {
+                  "Type": "PrimaryKey",
+                  "Keys": ["event_time"],
+                  "Condition": "(event_time in [1700000000, +Inf))",
+                  "Initial Parts": 5,
+                  "Selected Parts": 3,
+                  "Initial Granules": 12,
+                  "Selected Granules": 6
+                },
+                {
+                  "Type": "Skip",
+                  "Name": "idx_user",
+                  "Description": "bloom_filter GRANULARITY 1",
+                  "Initial Parts": 3,
+                  "Selected Parts": 3,
+                  "Initial Granules": 6,
+                  "Selected Granules": 6
+                }
+              ]
+            }
+          ]
+        }
+      ]
+    }
+  }
+]`;
+
+const PIPELINE_DOT = `digraph
+{
+  rankdir="LR";
+  { node [shape = rect]
+    subgraph cluster_0 {
+      label ="Expression";
+      style=filled;
+      color=lightgrey;
+      node [style=filled,color=white];
+      { rank = same;
+        n3 [label="ExpressionTransform × 4"];
+      }
+    }
+    subgraph cluster_1 {
+      label ="ReadFromMergeTree";
+      style=filled;
+      color=lightgrey;
+      node [style=filled,color=white];
+      { rank = same;
+        n1 [label="MergeTreeThread × 4"];
+      }
+    }
+    subgraph cluster_2 {
+      label ="Limit";
+      style=filled;
+      color=lightgrey;
+      node [style=filled,color=white];
+      { rank = same;
+        n2 [label="Limit"];
+      }
+    }
+  }
+  n1 -> n2 [label="× 4"];
+  n2 -> n3 [label=""];
+}`;
+
+describe("sql/explain-parser", () => {
+  describe("parseExplainPlan", () => {
+    test("parses nested plan steps", () => {
+      const plan = parseExplainPlan(PLAN_JSON);
+      expect(plan).not.toBeNull();
+      expect(plan!.type).toBe("Expression");
+      expect(plan!.description).toBe("(Projection + Before ORDER BY)");
+      expect(plan!.children).toHaveLength(1);
+      expect(plan!.children[0].type).toBe("Sorting");
+      expect(countPlanNodes(plan!)).toBe(3);
+    });
+
+    test("assigns path-based ids", () => {
+      const plan = parseExplainPlan(PLAN_JSON)!;
+      expect(plan.id).toBe("0");
+      expect(plan.children[0].children[0].id).toBe("0.0.0");
+    });
+
+    test("extracts indexes and read type", () => {
+      const read = parseExplainPlan(PLAN_JSON)!.children[0].children[0];
+      expect(read.readType).toBe("InReverseOrder");
+      expect(read.indexes).toHaveLength(2);
+      expect(read.indexes[0]).toEqual({
+        type: "PrimaryKey",
+        name: undefined,
+        description: undefined,
+        keys: ["event_time"],
+        condition: "(event_time in [1700000000, +Inf))",
+        initialParts: 5,
+        selectedParts: 3,
+        initialGranules: 12,
+        selectedGranules: 6,
+      });
+      expect(read.indexes[1].name).toBe("idx_user");
+    });
+
+    test("flattens remaining properties into details", () => {
+      const sorting = parseExplainPlan(PLAN_JSON)!.children[0];
+      expect(sorting.details).toEqual([
+        { key: "Sort Description", value: "event_time DESC" },
+        { key: "Limit", value: "10" },
+      ]);
+    });
+
+    test("accepts an already parsed value", () => {
+      const plan = parseExplainPlan(JSON.parse(PLAN_JSON));
+      expect(plan?.type).toBe("Expression");
+    });
+
+    test("returns null for text output", () => {
+      expect(parseExplainPlan("Expression (Projection)\n  ReadFromStorage")).toBeNull();
+    });
+
+    test("returns null for JSON without a plan", () => {
+      expect(parseExplainPlan('[{"foo": 1}]')).toBeNull();
+    });
+  });
+
+  describe("isIndexIneffective", () => {
+    test("flags indexes that select every granule", () => {
+      const read = parseExplainPlan(PLAN_JSON)!.children[0].children[0];
+      expect(isIndexIneffective(read.indexes[0])).toBe(false);
+      expect(isIndexIneffective(read.indexes[1])).toBe(true);
+    });
+
+    test("ignores indexes without granule counts", () => {
+      expect(isIndexIneffective({ type: "MinMax", keys: [] })).toBe(false);
+    });
+  });
+
+  describe("parsePipelineGraph", () => {
+    test("parses processors with their plan step", () => {
+      const graph = parsePipelineGraph(PIPELINE_DOT);
+      expect(graph).not.toBeNull();
+      expect(graph!.processors).toEqual([
+        { id: "n3", name: "ExpressionTransform", parallelism: 4, step: "Expression" },
+        { id: "n1", name: "MergeTreeThread", parallelism: 4, step: "ReadFromMergeTree" },
+        { id: "n2", name: "Limit", parallelism: 1, step: "Limit" },
+      ]);
+    });
+
+    test("parses connections with labels", () => {
+      const graph = parsePipelineGraph(PIPELINE_DOT)!;
+      expect(graph.connections).toHaveLength(2);
+      expect(graph.connections[0]).toMatchObject({
+        source: "n1",
+        target: "n2",
+        label: "× 4",
+      });
+      expect(graph.connections[1].label).toBeUndefined();
+    });
+
+    test("adds processors referenced only by edges", () => {
+      const graph = parsePipelineGraph("digraph\n{\n  n1 -> n2;\n}")!;
+      expect(graph.processors.map((p) => p.id)).toEqual(["n1", "n2"]);
+    });
+
+    test("returns null for non-DOT output", () => {
+      expect(parsePipelineGraph("(Expression)\nExpressionTransform")).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,299 @@
+/**
+ * EXPLAIN Output Parser
+ * Turns ClickHouse EXPLAIN output into structures the SQL console can render:
+ * - PLAN: `EXPLAIN PLAN json = 1, indexes = 1, actions = 1` JSON into a step tree
+ * - PIPELINE: `EXPLAIN PIPELINE graph = 1` DOT output into a processor graph
+ */
+
+/**
+ * Index usage reported for a ReadFromMergeTree step (`indexes = 1`)
+ */
+export interface ExplainIndexInfo {
+  type: string;
+  name?: string;
+  description?: string;
+  keys: string[];
+  condition?: string;
+  initialParts?: number;
+  selectedParts?: number;
+  initialGranules?: number;
+  selectedGranules?: number;
+}
+
+/**
+ * A single step of the query plan
+ */
+export interface ExplainPlanNode {
+  id: string;
+  type: string;
+  description?: string;
+  /** Read order of a MergeTree read step (Default, InOrder, InReverseOrder) */
+  readType?: string;
+  indexes: ExplainIndexInfo[];
+  /** Remaining scalar properties of the step, flattened for display */
+  details: Array<{ key: string; value: string }>;
+  children: ExplainPlanNode[];
+}
+
+/**
+ * A processor of the query pipeline
+ */
+export interface PipelineProcessor {
+  id: string;
+  name: string;
+  /** Number of parallel processors collapsed into this node (compact mode) */
+  parallelism: number;
+  /** Plan step the processor belongs to */
+  step?: string;
+}
+
+export interface PipelineConnection {
+  id: string;
+  source: string;
+  target: string;
+  label?: string;
+}
+
+export interface PipelineGraph {
+  processors: PipelineProcessor[];
+  connections: PipelineConnection[];
+}
+
+/**
+ * Settings appended to EXPLAIN so the output can be parsed into a structure.
+ * AST and SYNTAX are displayed as text and need no extra settings.
+ */
+export const EXPLAIN_SETTINGS: Record<string, string> = {
+  PLAN: "json = 1, indexes = 1, actions = 1",
+  PIPELINE: "graph = 1",
+};
+
+// Keys rendered explicitly or too verbose for the inline detail list
+const PLAN_STRUCTURAL_KEYS = new Set([
+  "Node Type",
+  "Node Id",
+  "Description",
+  "Plans",
+  "Indexes",
+  "Read Type",
+  "Expression",
+  "Actions",
+  "Header",
+  "Prewhere info",
+]);
+
+function toNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const num = Number(value);
+  return isNaN(num) ? undefined : num;
+}
+
+function formatDetailValue(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "string") return value;
+  if (typeof value === "number" || typeof value === "boolean") {
+    return String(value);
+  }
+  if (Array.isArray(value)) {
+    const items = value
+      .map((item) => {
+        if (item && typeof item === "object" && "Column" in item) {
+          // Sort description entries: { Column, Ascending, With Fill }
+          const entry = item as { Column: string; Ascending?: boolean };
+          return `${entry.Column} ${entry.Ascending === false ? "DESC" : "ASC"}`;
+        }
+        return formatDetailValue(item);
+      })
+      .filter((item): item is string => item !== null);
+    return items.length > 0 ? items.join(", ") : null;
+  }
+  return JSON.stringify(value);
+}
+
+function parseIndex(raw: Record<string, unknown>): ExplainIndexInfo {
+  return {
+    type: String(raw["Type"] ?? "Unknown"),
+    name: raw["Name"] !== undefined ? String(raw["Name"]) : undefined,
+    description:
+      raw["Description"] !== undefined ? String(raw["Description"]) : undefined,
+    keys: Array.isArray(raw["Keys"]) ? raw["Keys"].map(String) : [],
+    condition:
+      raw["Condition"] !== undefined ? String(raw["Condition"]) : undefined,
+    initialParts: toNumber(raw["Initial Parts"]),
+    selectedParts: toNumber(raw["Selected Parts"]),
+    initialGranules: toNumber(raw["Initial Granules"]),
+    selectedGranules: toNumber(raw["Selected Granules"]),
+  };
+}
+
+function parsePlanNode(
+  raw: Record<string, unknown>,
+  path: string,
+): ExplainPlanNode {
+  const details: ExplainPlanNode["details"] = [];
+  for (const [key, value] of Object.entries(raw)) {
+    if (PLAN_STRUCTURAL_KEYS.has(key)) continue;
+    const formatted = formatDetailValue(value);
+    if (formatted !== null && formatted !== "") {
+      details.push({ key, value: formatted });
+    }
+  }
+
+  const plans = Array.isArray(raw["Plans"]) ? raw["Plans"] : [];
+  const indexes = Array.isArray(raw["Indexes"]) ? raw["Indexes"] : [];
+
+  return {
+    id: path,
+    type: String(raw["Node Type"] ?? "Unknown"),
+    description:
+      raw["Description"] !== undefined ? String(raw["Description"]) : undefined,
+    readType:
+      raw["Read Type"] !== undefined ? String(raw["Read Type"]) : undefined,
+    indexes: indexes.map((index) => parseIndex(index as Record<string, unknown>)),
+    details,
+    children: plans.map((child, i) =>
+      parsePlanNode(child as Record<string, unknown>, `${path}.${i}`),
+    ),
+  };
+}
+
+/**
+ * Parse `EXPLAIN PLAN json = 1` output into a step tree
+ * @param data Raw EXPLAIN output (JSON text) or an already parsed value
+ * @returns Root plan step, or null if the output is not JSON plan output
+ */
+export function parseExplainPlan(data: string | object): ExplainPlanNode | null {
+  let parsed: unknown = data;
+  if (typeof data === "string") {
+    try {
+      parsed = JSON.parse(data);
+    } catch {
+      return null;
+    }
+  }
+
+  const root = Array.isArray(parsed) ? parsed[0] : parsed;
+  if (!root || typeof root !== "object" || !("Plan" in root)) {
+    return null;
+  }
+
+  const plan = (root as { Plan: unknown }).Plan;
+  if (!plan || typeof plan !== "object") return null;
+
+  return parsePlanNode(plan as Record<string, unknown>, "0");
+}
+
+/**
+ * Check whether an index was evaluated but excluded nothing
+ * (every granule it saw was selected)
+ */
+export function isIndexIneffective(index: ExplainIndexInfo): boolean {
+  if (index.initialGranules === undefined || index.selectedGranules === undefined) {
+    return false;
+  }
+  return index.initialGranules > 0 && index.selectedGranules >= index.initialGranules;
+}
+
+/**
+ * Count all steps in a plan tree
+ */
+export function countPlanNodes(node: ExplainPlanNode): number {
+  return node.children.reduce((sum, child) => sum + countPlanNodes(child), 1);
+}
+
+function unescapeDotString(value: string): string {
+  return value.replace(/\\"/g, '"').replace(/\\n/g, "\n").replace(/\\\\/g, "\\");
+}
+
+const DOT_STRING = '"((?:[^"\\\\]|\\\\.)*)"';
+const DOT_NODE_REGEX = new RegExp(`^(\\w+)\\s*\\[label\\s*=\\s*${DOT_STRING}`);
+const DOT_EDGE_REGEX = new RegExp(
+  `^(\\w+)\\s*->\\s*(\\w+)(?:\\s*\\[label\\s*=\\s*${DOT_STRING})?`,
+);
+const DOT_LABEL_REGEX = new RegExp(`^label\\s*=\\s*${DOT_STRING}`);
+
+/**
+ * Parse `EXPLAIN PIPELINE graph = 1` DOT output into a processor graph
+ * @param dot Raw EXPLAIN output
+ * @returns Graph of processors, or null if the output is not DOT
+ */
+export function parsePipelineGraph(dot: string): PipelineGraph | null {
+  if (!/^\s*digraph\b/.test(dot)) return null;
+
+  const processors: PipelineProcessor[] = [];
+  const connections: PipelineConnection[] = [];
+  const seen = new Set<string>();
+
+  // Each open brace is tracked so closing a subgraph restores the outer step
+  const scopes: Array<{ isCluster: boolean; label?: string }> = [];
+  const currentStep = () => {
+    for (let i = scopes.length - 1; i >= 0; i--) {
+      if (scopes[i].isCluster) return scopes[i].label;
+    }
+    return undefined;
+  };
+
+  for (const rawLine of dot.split("\n")) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    if (/^subgraph\s+cluster/.test(line)) {
+      scopes.push({ isCluster: true });
+      continue;
+    }
+
+    const labelMatch = line.match(DOT_LABEL_REGEX);
+    if (labelMatch) {
+      const scope = scopes[scopes.length - 1];
+      if (scope?.isCluster) scope.label = unescapeDotString(labelMatch[1]);
+      continue;
+    }
+
+    const edgeMatch = line.match(DOT_EDGE_REGEX);
+    if (edgeMatch) {
+      const [, source, target, label] = edgeMatch;
+      connections.push({
+        id: `${source}-${target}-${connections.length}`,
+        source,
+        target,
+        label: label ? unescapeDotString(label).trim() || undefined : undefined,
+      });
+      continue;
+    }
+
+    const nodeMatch = line.match(DOT_NODE_REGEX);
+    if (nodeMatch) {
+      const [, id, rawLabel] = nodeMatch;
+      if (seen.has(id)) continue;
+      seen.add(id);
+
+      const label = unescapeDotString(rawLabel).trim();
+      const parallelMatch = label.match(/^(.*?)\s*×\s*(\d+)$/);
+      processors.push({
+        id,
+        name: parallelMatch ? parallelMatch[1] : label,
+        parallelism: parallelMatch ? parseInt(parallelMatch[2], 10) : 1,
+        step: currentStep(),
+      });
+      continue;
+    }
+
+    // Track remaining braces (digraph body, node defaults, rank groups)
+    for (const char of line) {
+      if (char === "{") scopes.push({ isCluster: false });
+      if (char === "}") scopes.pop();
+    }
+  }
+
+  // Edges may reference processors that were never declared with a label
+  for (const connection of connections) {
+    for (const id of [connection.source, connection.target]) {
+      if (!seen.has(id)) {
+        seen.add(id);
+        processors.push({ id, name: id, parallelism: 1 });
+      }
+    }
+  }
+
+  return { processors, connections };
+}
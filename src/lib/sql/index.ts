@@ -1,3 +1,34 @@
 export { splitSqlStatements, findStatementAtPosition } from "./splitter";
-export { validateSqlStatement } from "./validator";
-export type { SqlValidationResult } from "./validator";
+export { validateSqlStatement, isSessionStatement } from "./validator";
+export type { SqlValidationResult, SqlValidationOptions } from "./validator";
+export {
+  parseExplainPlan,
+  parsePipelineGraph,
+  isIndexIneffective,
+  countPlanNodes,
+  EXPLAIN_SETTINGS,
+} from "./explain-parser";
+export type {
+  ExplainPlanNode,
+  ExplainIndexInfo,
+  PipelineGraph,
+  PipelineProcessor,
+  PipelineConnection,
+} from "./explain-parser";
+export { diffLines } from "./diff";
+export type { DiffLine } from "./diff";
+export {
+  extractQueryParameters,
+  describeParameterType,
+  serializeParameterValue,
+  buildQueryParams,
+  getStatementQueryParams,
+  toShareSearchParams,
+  fromShareSearchParams,
+  URL_PARAM_PREFIX,
+} from "./query-params";
+export type {
+  QueryParameter,
+  QueryParameterInput,
+  QueryParameterValues,
+} from "./query-params";
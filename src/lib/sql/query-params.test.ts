@@ -0,0 +1,119 @@
+import { describe, expect, test } from "bun:test";
+import {
+  buildQueryParams,
+  describeParameterType,
+  extractQueryParameters,
+  fromShareSearchParams,
+  serializeParameterValue,
+  toShareSearchParams,
+} from "./query-params";
+
+describe("sql/query-params", () => {
+  describe("extractQueryParameters", () => {
+    test("finds placeholders once, in order", () => {
+      const params = extractQueryParameters(
+        "SELECT * FROM t WHERE a = {a:UInt32} AND b > {b:DateTime} OR a = {a:UInt32}",
+      );
+      expect(params.map((p) => [p.name, p.type])).toEqual([
+        ["a", "UInt32"],
+        ["b", "DateTime"],
+      ]);
+    });
+
+    test("ignores strings and comments", () => {
+      const sql = [
+        "-- {commented:String}",
+        "/* {block:String} */",
+        "SELECT '{quoted:String}', \"{ident:String}\", {real:String}",
+      ].join("\n");
+      expect(extractQueryParameters(sql).map((p) => p.name)).toEqual(["real"]);
+    });
+
+    test("reads parameterized types", () => {
+      const [param] = extractQueryParameters(
+        "SELECT {level:Enum8('a{' = 1, 'b)' = 2)}",
+      );
+      expect(param.type).toBe("Enum8('a{' = 1, 'b)' = 2)");
+      expect(param.options).toEqual(["a{", "b)"]);
+    });
+
+    test("records the compared column and its table", () => {
+      const [status, ids, limit] = extractQueryParameters(
+        "SELECT * FROM logs.`http requests` AS r WHERE r.status = {status:String} AND id NOT IN {ids:Array(UInt64)} LIMIT {limit:UInt32}",
+      );
+      expect(status.column).toBe("status");
+      expect(status.table).toEqual({ database: "logs", table: "http requests" });
+      expect(ids.column).toBe("id");
+      expect(limit.column).toBeUndefined();
+    });
+
+    test("does not take table functions as tables", () => {
+      const [param] = extractQueryParameters(
+        "SELECT * FROM numbers(10) WHERE number = {n:UInt64}",
+      );
+      expect(param.table).toBeUndefined();
+    });
+  });
+
+  test("describeParameterType maps types to inputs", () => {
+    expect(describeParameterType("Nullable(DateTime64(3, 'UTC'))")).toEqual({
+      input: "datetime",
+      nullable: true,
+      options: undefined,
+    });
+    expect(describeParameterType("Array(LowCardinality(String))")).toMatchObject({
+      input: "array",
+      elementInput: "text",
+    });
+    expect(describeParameterType("Date32").input).toBe("date");
+    expect(describeParameterType("Decimal(10, 2)").input).toBe("number");
+    expect(describeParameterType("Bool").input).toBe("boolean");
+    expect(describeParameterType("UUID").input).toBe("text");
+  });
+
+  describe("serializeParameterValue", () => {
+    test("formats datetime-local values", () => {
+      const param = describeParameterType("DateTime");
+      expect(serializeParameterValue(param, "2024-01-31T12:30")).toBe(
+        "2024-01-31 12:30:00",
+      );
+      expect(serializeParameterValue(param, "2024-01-31T12:30:45")).toBe(
+        "2024-01-31 12:30:45",
+      );
+    });
+
+    test("builds array literals from comma-separated values", () => {
+      expect(
+        serializeParameterValue(describeParameterType("Array(String)"), "a, it's ,"),
+      ).toBe("['a', 'it\\'s']");
+      expect(
+        serializeParameterValue(describeParameterType("Array(UInt8)"), "1,2"),
+      ).toBe("[1, 2]");
+      expect(
+        serializeParameterValue(describeParameterType("Array(String)"), "['x']"),
+      ).toBe("['x']");
+    });
+
+    test("sends empty nullable values as NULL", () => {
+      expect(serializeParameterValue(describeParameterType("Nullable(String)"), "")).toBe(
+        "\\N",
+      );
+      expect(serializeParameterValue(describeParameterType("String"), "")).toBe("");
+    });
+  });
+
+  test("buildQueryParams covers every parameter", () => {
+    const params = extractQueryParameters("SELECT {a:String}, {b:Array(Int8)}");
+    expect(buildQueryParams(params, { b: "1" })).toEqual({ a: "", b: "[1]" });
+  });
+
+  test("share URLs round-trip SQL and values", () => {
+    const search = toShareSearchParams("SELECT {x:String}", { x: "a&b" });
+    expect(search.get("param_x")).toBe("a&b");
+    expect(fromShareSearchParams(new URLSearchParams(search.toString()))).toEqual({
+      sql: "SELECT {x:String}",
+      params: { x: "a&b" },
+    });
+    expect(fromShareSearchParams(new URLSearchParams("param_x=1"))).toBeNull();
+  });
+});
@@ -0,0 +1,367 @@
+/**
+ * Query parameters
+ * Detects ClickHouse `{name:Type}` placeholders in SQL text and converts
+ * values entered in the SQL console into the text format ClickHouse expects
+ * for `query_params`.
+ */
+
+export type QueryParameterInput =
+  | "text"
+  | "number"
+  | "date"
+  | "datetime"
+  | "boolean"
+  | "enum"
+  | "array";
+
+export interface QueryParameter {
+  name: string;
+  /** ClickHouse type as written in the placeholder */
+  type: string;
+  input: QueryParameterInput;
+  nullable: boolean;
+  /** Input kind of the elements of an Array parameter */
+  elementInput?: Exclude<QueryParameterInput, "array">;
+  /** Values of an Enum parameter (or of Array(Enum) elements) */
+  options?: string[];
+  /** Column the placeholder is compared to, e.g. `status = {s:String}` */
+  column?: string;
+  /** Table the column most likely belongs to (nearest preceding FROM) */
+  table?: { database?: string; table: string };
+}
+
+/** Values as entered in the form, keyed by parameter name */
+export type QueryParameterValues = Record<string, string>;
+
+/**
+ * Prefix of parameters in shareable URLs, matching ClickHouse's HTTP
+ * interface (`?param_id=42`)
+ */
+export const URL_PARAM_PREFIX = "param_";
+
+const IDENTIFIER = "(?:`[^`]+`|[A-Za-z_][A-Za-z0-9_]*)";
+const COMPARISON_BEFORE = new RegExp(
+  `(${IDENTIFIER}(?:\\.${IDENTIFIER})*)\\s*(?:==?|!=|<>|<=?|>=?|(?:NOT\\s+)?IN|(?:NOT\\s+)?I?LIKE|(?:NOT\\s+)?BETWEEN)\\s*\\(?\\s*$`,
+  "i",
+);
+const FROM_TABLE = new RegExp(
+  `\\bFROM\\s+(${IDENTIFIER})(?:\\.(${IDENTIFIER}))?(?![\\w.\`]|\\s*\\()`,
+  "gi",
+);
+
+function unquoteIdentifier(identifier: string): string {
+  return identifier.startsWith("`") ? identifier.slice(1, -1) : identifier;
+}
+
+/**
+ * Strip a single wrapper such as Nullable(...) from a type
+ */
+function unwrap(type: string, wrapper: string): string | null {
+  const match = type.match(new RegExp(`^${wrapper}\\s*\\(([\\s\\S]*)\\)$`, "i"));
+  return match ? match[1].trim() : null;
+}
+
+function parseEnumOptions(type: string): string[] | undefined {
+  const body = unwrap(type, "Enum(?:8|16)?");
+  if (body === null) return undefined;
+  const options: string[] = [];
+  const pattern = /'((?:[^'\\]|\\.|'')*)'/g;
+  let match;
+  while ((match = pattern.exec(body)) !== null) {
+    options.push(match[1].replace(/''/g, "'").replace(/\\(.)/g, "$1"));
+  }
+  return options;
+}
+
+function scalarInput(type: string): Exclude<QueryParameterInput, "array"> {
+  if (/^Date(32)?$/i.test(type)) return "date";
+  if (/^DateTime(64)?\b/i.test(type)) return "datetime";
+  if (/^(U?Int\d+|Float\d+|Decimal\d*\b)/i.test(type)) return "number";
+  if (/^Bool(ean)?$/i.test(type)) return "boolean";
+  if (/^Enum(8|16)?\b/i.test(type)) return "enum";
+  return "text";
+}
+
+/**
+ * Describe how a parameter of the given ClickHouse type is entered
+ */
+export function describeParameterType(
+  type: string,
+): Pick<QueryParameter, "input" | "nullable" | "elementInput" | "options"> {
+  let base = type.trim();
+  let nullable = false;
+
+  for (;;) {
+    const inner = unwrap(base, "Nullable");
+    if (inner !== null) {
+      nullable = true;
+      base = inner;
+      continue;
+    }
+    const lowCardinality = unwrap(base, "LowCardinality");
+    if (lowCardinality !== null) {
+      base = lowCardinality;
+      continue;
+    }
+    break;
+  }
+
+  const element = unwrap(base, "Array");
+  if (element !== null) {
+    const elementType = describeParameterType(element);
+    return {
+      input: "array",
+      nullable,
+      elementInput:
+        elementType.input === "array" ? "text" : elementType.input,
+      options: elementType.options,
+    };
+  }
+
+  const input = scalarInput(base);
+  return {
+    input,
+    nullable,
+    options: input === "enum" ? parseEnumOptions(base) : undefined,
+  };
+}
+
+/**
+ * Read a placeholder starting at `start` (the opening brace).
+ * Returns null when the brace does not start a `{name:Type}` placeholder.
+ */
+function readPlaceholder(
+  sql: string,
+  start: number,
+): { name: string; type: string; end: number } | null {
+  const head = sql.slice(start).match(/^\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*:\s*/);
+  if (!head) return null;
+
+  let depth = 0;
+  let i = start + head[0].length;
+  const typeStart = i;
+
+  while (i < sql.length) {
+    const char = sql[i];
+    if (char === "'") {
+      // Quoted Enum values may contain braces and parentheses
+      i++;
+      while (i < sql.length && sql[i] !== "'") {
+        i += sql[i] === "\\" ? 2 : 1;
+      }
+    } else if (char === "(") {
+      depth++;
+    } else if (char === ")") {
+      depth--;
+    } else if (char === "}" && depth === 0) {
+      const type = sql.slice(typeStart, i).trim();
+      return type ? { name: head[1], type, end: i + 1 } : null;
+    } else if (char === "\n" && depth === 0) {
+      return null;
+    }
+    i++;
+  }
+  return null;
+}
+
+function findTableBefore(
+  sql: string,
+  position: number,
+): QueryParameter["table"] {
+  let table: QueryParameter["table"];
+  for (const match of sql.slice(0, position).matchAll(FROM_TABLE)) {
+    table = match[2]
+      ? { database: unquoteIdentifier(match[1]), table: unquoteIdentifier(match[2]) }
+      : { table: unquoteIdentifier(match[1]) };
+  }
+  return table;
+}
+
+/**
+ * Find the `{name:Type}` placeholders in SQL text, skipping string literals
+ * and comments. Each name is reported once, at its first occurrence.
+ */
+export function extractQueryParameters(sql: string): QueryParameter[] {
+  const parameters = new Map<string, QueryParameter>();
+  let i = 0;
+
+  while (i < sql.length) {
+    const char = sql[i];
+    const nextChar = sql[i + 1];
+
+    if (char === "-" && nextChar === "-") {
+      const endOfLine = sql.indexOf("\n", i);
+      if (endOfLine === -1) break;
+      i = endOfLine + 1;
+      continue;
+    }
+
+    if (char === "/" && nextChar === "*") {
+      const endComment = sql.indexOf("*/", i + 2);
+      if (endComment === -1) break;
+      i = endComment + 2;
+      continue;
+    }
+
+    if (char === "'" || char === '"' || char === "`") {
+      i++;
+      while (i < sql.length) {
+        if (sql[i] === "\\") {
+          i += 2;
+          continue;
+        }
+        if (sql[i] === char) {
+          if (sql[i + 1] === char) {
+            i += 2;
+            continue;
+          }
+          break;
+        }
+        i++;
+      }
+      i++;
+      continue;
+    }
+
+    if (char === "{") {
+      const placeholder = readPlaceholder(sql, i);
+      if (placeholder) {
+        if (!parameters.has(placeholder.name)) {
+          const comparison = sql
+            .slice(Math.max(0, i - 200), i)
+            .match(COMPARISON_BEFORE);
+          const column = comparison
+            ? unquoteIdentifier(comparison[1].split(".").pop() ?? comparison[1])
+            : undefined;
+
+          parameters.set(placeholder.name, {
+            name: placeholder.name,
+            type: placeholder.type,
+            ...describeParameterType(placeholder.type),
+            column,
+            table: column ? findTableBefore(sql, i) : undefined,
+          });
+        }
+        i = placeholder.end;
+        continue;
+      }
+    }
+
+    i++;
+  }
+
+  return [...parameters.values()];
+}
+
+function quoteValue(value: string): string {
+  return `'${value.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`;
+}
+
+function formatDateTime(value: string): string {
+  // <input type="datetime-local"> yields 2024-01-31T12:30 or 2024-01-31T12:30:45
+  const match = value.match(/^(\d{4}-\d{2}-\d{2})T(\d{2}:\d{2})(:\d{2}(?:\.\d+)?)?$/);
+  return match ? `${match[1]} ${match[2]}${match[3] ?? ":00"}` : value;
+}
+
+function serializeScalar(
+  input: Exclude<QueryParameterInput, "array">,
+  value: string,
+): string {
+  return input === "datetime" ? formatDateTime(value.trim()) : value;
+}
+
+/**
+ * Convert a form value to ClickHouse's text format for the parameter type.
+ * Arrays are entered as comma-separated values, or as a literal `[...]`.
+ */
+export function serializeParameterValue(
+  parameter: Pick<QueryParameter, "input" | "nullable" | "elementInput">,
+  value: string,
+): string {
+  if (parameter.nullable && value === "") {
+    return "\\N";
+  }
+
+  if (parameter.input !== "array") {
+    return serializeScalar(parameter.input, value);
+  }
+
+  const trimmed = value.trim();
+  if (trimmed.startsWith("[")) {
+    return trimmed;
+  }
+
+  const elementInput = parameter.elementInput ?? "text";
+  const elements = trimmed
+    .split(",")
+    .map((element) => element.trim())
+    .filter(Boolean)
+    .map((element) => {
+      const serialized = serializeScalar(elementInput, element);
+      return elementInput === "number" || elementInput === "boolean"
+        ? serialized
+        : quoteValue(serialized);
+    });
+  return `[${elements.join(", ")}]`;
+}
+
+/**
+ * Build the `query_params` for a statement from the entered values.
+ * Parameters without a value are sent as empty strings so ClickHouse reports
+ * which value is invalid.
+ */
+export function buildQueryParams(
+  parameters: QueryParameter[],
+  values: QueryParameterValues,
+): Record<string, string> {
+  return Object.fromEntries(
+    parameters.map((parameter) => [
+      parameter.name,
+      serializeParameterValue(parameter, values[parameter.name] ?? ""),
+    ]),
+  );
+}
+
+/**
+ * `query_params` for a single statement, or undefined when it has no
+ * placeholders
+ */
+export function getStatementQueryParams(
+  sql: string,
+  values: QueryParameterValues,
+): Record<string, string> | undefined {
+  const parameters = extractQueryParameters(sql);
+  return parameters.length > 0 ? buildQueryParams(parameters, values) : undefined;
+}
+
+/**
+ * URL search params reproducing a query and its parameter values
+ */
+export function toShareSearchParams(
+  sql: string,
+  values: QueryParameterValues,
+): URLSearchParams {
+  const search = new URLSearchParams({ sql });
+  for (const [name, value] of Object.entries(values)) {
+    search.set(`${URL_PARAM_PREFIX}${name}`, value);
+  }
+  return search;
+}
+
+/**
+ * Read a query shared with toShareSearchParams, or null when the URL has none
+ */
+export function fromShareSearchParams(
+  search: URLSearchParams,
+): { sql: string; params: QueryParameterValues } | null {
+  const sql = search.get("sql");
+  if (!sql) return null;
+
+  const params: QueryParameterValues = {};
+  for (const [key, value] of search.entries()) {
+    if (key.startsWith(URL_PARAM_PREFIX) && key.length > URL_PARAM_PREFIX.length) {
+      params[key.slice(URL_PARAM_PREFIX.length)] = value;
+    }
+  }
+  return { sql, params };
+}
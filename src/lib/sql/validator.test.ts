@@ -109,6 +109,52 @@ describe("validateSqlStatement", () => {
     expect(result6.valid).toBe(false);
   });
 
+  test("allows session statements only inside a session", () => {
+    const session = { session: true };
+    expect(validateSqlStatement("SET max_threads = 1").valid).toBe(false);
+    expect(validateSqlStatement("SET max_threads = 1", session).valid).toBe(true);
+    expect(
+      validateSqlStatement(
+        "CREATE TEMPORARY TABLE ids AS SELECT 1 AS id",
+        session,
+      ).valid,
+    ).toBe(true);
+    expect(validateSqlStatement("DROP TEMPORARY TABLE ids", session).valid).toBe(true);
+    expect(validateSqlStatement("DROP TABLE ids", session).valid).toBe(false);
+    expect(
+      validateSqlStatement(
+        "CREATE TEMPORARY TABLE f AS SELECT * FROM file('x.csv')",
+        session,
+      ).valid,
+    ).toBe(false);
+  });
+
+  test("allows temporary tables only with the Memory engine", () => {
+    const session = { session: true };
+    const allowed = [
+      "CREATE TEMPORARY TABLE ids (id UInt64)",
+      "CREATE TEMPORARY TABLE ids (id UInt64) ENGINE = Memory",
+      "CREATE TEMPORARY TABLE ids ENGINE = Memory AS SELECT 1 AS id",
+      "CREATE TEMPORARY TABLE t (engine String, s String DEFAULT CAST(1 AS Nullable(String)))",
+      "CREATE TEMPORARY TABLE t AS SELECT engine FROM system.tables WHERE engine = 'Kafka'",
+    ];
+    for (const sql of allowed) {
+      expect(validateSqlStatement(sql, session).valid).toBe(true);
+    }
+
+    const rejected = [
+      "CREATE TEMPORARY TABLE m (id UInt64) ENGINE = MongoDB('host:27017', 'db', 'c', 'u', 'p')",
+      "CREATE TEMPORARY TABLE r (k String, v String) ENGINE = Redis('host:6379') PRIMARY KEY k",
+      "CREATE TEMPORARY TABLE k (s String) ENGINE = Kafka SETTINGS kafka_broker_list = 'b:9092'",
+      "CREATE TEMPORARY TABLE d AS default.events ENGINE = Distributed(main, default, events)",
+      "CREATE TEMPORARY TABLE m (id UInt64) ENGINE Merge(default, '^events')",
+      "CREATE TEMPORARY TABLE m AS mongodb('host:27017', 'db', 'c', 'u', 'p')",
+    ];
+    for (const sql of rejected) {
+      expect(validateSqlStatement(sql, session).valid).toBe(false);
+    }
+  });
+
   test("rejects empty input", () => {
     const result = validateSqlStatement("");
     expect(result.valid).toBe(false);
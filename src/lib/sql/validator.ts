@@ -13,6 +13,39 @@ const ALLOWED_STATEMENT_PREFIXES = [
   "USE",
 ] as const;
 
+/**
+ * Session-scoped statements. Only allowed inside a ClickHouse session (script
+ * execution), where they exist to affect the statements that follow.
+ */
+const SESSION_STATEMENT_REGEX =
+  /^(?:SET\s|(?:CREATE|DROP)\s+TEMPORARY\s+TABLE\b)/i;
+
+/**
+ * Why a temporary table can't be created, or null. Only Memory tables are
+ * allowed: other engines (Kafka, MongoDB, Distributed, Merge, ...) read from
+ * or write to places the table functions below are blocked from.
+ */
+function getTemporaryTableError(stripped: string): string | null {
+  if (!/^CREATE\s+TEMPORARY\s+TABLE\b/i.test(stripped)) return null;
+
+  // Only the top level of the definition, before any AS SELECT: column
+  // lists, engine arguments and the query may mention "engine" freely.
+  // Parenthesized parts collapse to "<>".
+  let head = stripped.replace(/'(?:\\.|''|[^'\\])*'/g, "''");
+  while (/\([^()]*\)/.test(head)) head = head.replace(/\([^()]*\)/g, "<>");
+  head = head.split(/\bAS\s+(?:SELECT|WITH)\b/i)[0];
+
+  const engine = head.match(/\bENGINE\s*=?\s*([A-Za-z_]\w*)/i)?.[1];
+  if (engine !== undefined && engine.toLowerCase() !== "memory") {
+    return `Temporary tables can only use the Memory engine, not "${engine}".`;
+  }
+  // AS followed by a table function, e.g. AS mongodb(...)
+  if (/\bAS\s+[A-Za-z_][\w.]*\s*<>/i.test(head)) {
+    return "Temporary tables cannot be created from a table function.";
+  }
+  return null;
+}
+
 const DANGEROUS_TABLE_FUNCTIONS = [
   "file",
   "url",
@@ -41,16 +74,31 @@ export type SqlValidationResult =
   | { valid: true }
   | { valid: false; reason: string };
 
-export function validateSqlStatement(sql: string): SqlValidationResult {
+/**
+ * Whether a statement only changes session state (SET, temporary tables)
+ */
+export function isSessionStatement(sql: string): boolean {
+  return SESSION_STATEMENT_REGEX.test(sql.replace(STRIP_COMMENTS_REGEX, " ").trim());
+}
+
+export interface SqlValidationOptions {
+  /** The statement runs in a session shared with other statements */
+  session?: boolean;
+}
+
+export function validateSqlStatement(
+  sql: string,
+  options: SqlValidationOptions = {},
+): SqlValidationResult {
   const stripped = sql.replace(STRIP_COMMENTS_REGEX, " ").trim();
   if (!stripped) {
     return { valid: false, reason: "Empty SQL statement" };
   }
 
   const firstWord = stripped.split(/\s/)[0]?.toUpperCase();
-  const isAllowed = ALLOWED_STATEMENT_PREFIXES.some(
-    (prefix) => firstWord === prefix,
-  );
+  const isAllowed =
+    ALLOWED_STATEMENT_PREFIXES.some((prefix) => firstWord === prefix) ||
+    (options.session === true && SESSION_STATEMENT_REGEX.test(stripped));
 
   if (!isAllowed) {
     return {
@@ -59,6 +107,11 @@ export function validateSqlStatement(sql: string): SqlValidationResult {
     };
   }
 
+  const temporaryTableError = getTemporaryTableError(stripped);
+  if (temporaryTableError) {
+    return { valid: false, reason: temporaryTableError };
+  }
+
   if (DANGEROUS_FUNCTION_REGEX.test(stripped)) {
     const match = stripped.match(DANGEROUS_FUNCTION_REGEX);
     return {
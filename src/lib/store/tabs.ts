@@ -17,16 +17,45 @@ interface QueryHistoryEntry {
   user?: string;
 }
 
+type ScriptStatementStatus =
+  | "pending"
+  | "running"
+  | "success"
+  | "error"
+  | "skipped"
+  | "cancelled";
+
+/** One statement of a multi-statement script run */
+interface ScriptStatementResult {
+  sql: string;
+  status: ScriptStatementStatus;
+  result: QueryTab["result"];
+  error: QueryTab["error"];
+}
+
+/** Results of running all statements of a tab in one ClickHouse session */
+interface ScriptRun {
+  sessionId: string;
+  statements: ScriptStatementResult[];
+  /** Statement whose result sub-tab is shown */
+  activeIndex: number;
+  startedAt: number;
+  finishedAt?: number;
+}
+
 interface QueryTab {
   id: string;
   type: "query";
   name: string;
   sql: string;
+  /** Values for the query's {name:Type} parameters, as entered */
+  params?: Record<string, string>;
   result: {
     data: unknown[];
     meta: Array<{ name: string; type: string }>;
     rows: number;
     rows_before_limit_at_least?: number;
+    sql?: string;
     statistics: {
       elapsed: number;
       rows_read: number;
@@ -44,6 +73,9 @@ interface QueryTab {
     hint?: string;
   } | null;
   queryId?: string;
+  script?: ScriptRun | null;
+  /** Keep running a script after a statement fails */
+  continueOnError?: boolean;
   explainResult?: {
     type: "AST" | "SYNTAX" | "PLAN" | "PIPELINE";
     data: string | object;
@@ -118,6 +150,7 @@ export const useTabsStore = create<TabsState>()(
           type: "query",
           name: tabData?.name || generateTabName(tabs),
           sql: tabData?.sql || "SELECT 1",
+          params: tabData?.params,
           result: tabData?.result || null,
           isRunning: false,
           error: null,
@@ -240,6 +273,7 @@ export const useTabsStore = create<TabsState>()(
             ...t,
             result: null,
             explainResult: null,
+            script: null,
             isRunning: false,
             error: null,
           })),
@@ -260,7 +294,15 @@ export function initializeTabs() {
   }
 }
 
-export type { Tab, QueryTab, TableTab, QueryHistoryEntry };
+export type {
+  Tab,
+  QueryTab,
+  TableTab,
+  QueryHistoryEntry,
+  ScriptRun,
+  ScriptStatementResult,
+  ScriptStatementStatus,
+};
 
 /**
  * Optimized selector hooks for better performance.
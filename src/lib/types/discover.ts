@@ -37,6 +37,91 @@ export interface TableSchema {
   partitionKey: string | null;
 }
 
+/**
+ * Language of the Discover query bar: a raw SQL WHERE expression or KQL
+ */
+export type QueryLanguage = "sql" | "kql";
+
+/**
+ * Histogram bucket sizes; "auto" picks one from the time range
+ */
+export const HISTOGRAM_INTERVALS = [
+  "auto",
+  "1 minute",
+  "5 minute",
+  "15 minute",
+  "1 hour",
+  "4 hour",
+  "1 day",
+  "1 week",
+  "1 month",
+] as const;
+
+export type HistogramInterval = (typeof HISTOGRAM_INTERVALS)[number];
+
+/**
+ * Approximate length of each fixed interval, used to bound the bucket count
+ */
+export const HISTOGRAM_INTERVAL_SECONDS: Record<
+  Exclude<HistogramInterval, "auto">,
+  number
+> = {
+  "1 minute": 60,
+  "5 minute": 300,
+  "15 minute": 900,
+  "1 hour": 3600,
+  "4 hour": 14400,
+  "1 day": 86400,
+  "1 week": 604800,
+  "1 month": 2592000,
+};
+
+/**
+ * Most buckets a fixed interval may produce before "auto" is used instead
+ */
+export const MAX_HISTOGRAM_BUCKETS = 1000;
+
+/**
+ * Value plotted per histogram bucket; everything but "count" reads a numeric field
+ */
+export const HISTOGRAM_AGGREGATIONS = [
+  "count",
+  "avg",
+  "sum",
+  "min",
+  "max",
+  "p50",
+  "p95",
+  "p99",
+] as const;
+
+export type HistogramAggregation = (typeof HISTOGRAM_AGGREGATIONS)[number];
+
+/**
+ * Number of split-by values plotted as their own series; the rest are
+ * combined into "Other"
+ */
+export const HISTOGRAM_SPLIT_LIMIT = 5;
+
+/**
+ * Discover state captured by a saved search
+ */
+export interface SavedSearchView {
+  database: string;
+  table: string;
+  time_column: string;
+  columns: string[];
+  filter: string;
+  query_language: QueryLanguage;
+  /** Time range bounds as in FlexibleTimeRange ("now-1h" or ISO); empty keeps the current range */
+  time_from: string;
+  time_to: string;
+  /** Sort order as "column:desc,column:asc" */
+  sort: string;
+  group_by: string[];
+  histogram_interval: HistogramInterval;
+}
+
 /**
  * Data source configuration for Discover
  */
@@ -6,6 +6,9 @@
  */
 
 import { z } from "zod";
+import { EXPORT_FORMATS } from "@/lib/export/formats";
+import { SAVED_QUERY_VISIBILITIES } from "@/lib/clickhouse/saved-queries";
+import { HISTOGRAM_INTERVALS } from "@/lib/types/discover";
 
 const MAX_SQL_LENGTH = 100000;
 const MAX_QUERY_TIMEOUT_MS = 300000;
@@ -30,10 +33,30 @@ export const QueryRequestSchema = z.object({
   pageSize: z.number().int().min(1).max(10000).optional(),
   cache: z.boolean().optional(),
   query_id: z.string().optional(),
+  query_params: z.record(z.string(), z.string()).optional(),
+  /** Shared by the statements of a script so SET and temporary tables carry over */
+  session_id: z
+    .string()
+    .regex(/^[\w-]{1,64}$/, "Invalid session id")
+    .optional(),
 });
 
 export type QueryRequest = z.infer<typeof QueryRequestSchema>;
 
+export const ExportRequestSchema = z.object({
+  sql: z
+    .string()
+    .min(1, "SQL query is required")
+    .max(MAX_SQL_LENGTH, `SQL query must be less than ${MAX_SQL_LENGTH} characters`),
+  format: z.enum(EXPORT_FORMATS),
+  database: z.string().optional(),
+  timezone: z.string().optional(),
+  query_id: z.string().optional(),
+  query_params: z.record(z.string(), z.string()).optional(),
+});
+
+export type ExportRequest = z.infer<typeof ExportRequestSchema>;
+
 export const DiscoverRequestSchema = z.object({
   database: z.string().min(1, "Database is required"),
   table: z.string().min(1, "Table is required"),
@@ -87,16 +110,44 @@ export const PasswordChangeRequestSchema = z.object({
 export type PasswordChangeRequest = z.infer<typeof PasswordChangeRequestSchema>;
 
 export const SavedQuerySchema = z.object({
-  name: z.string().min(1).max(255),
-  description: z.string().max(1000).optional(),
-  query: z.string().min(1).max(MAX_SQL_LENGTH),
-  database: z.string(),
-  category: z.string().max(100).optional(),
-  tags: z.array(z.string().max(50)).max(10).optional(),
+  name: z.string().trim().min(1, "Name is required").max(255),
+  sql: z.string().min(1, "SQL is required").max(MAX_SQL_LENGTH),
+  description: z.string().max(2000).default(""),
+  folder: z.string().max(255).default(""),
+  tags: z.array(z.string().max(50)).max(10).default([]),
+  visibility: z.enum(SAVED_QUERY_VISIBILITIES).default("private"),
+  shared_roles: z.array(z.string().min(1)).max(50).default([]),
+  params: z.record(z.string().max(255), z.string().max(10000)).default({}),
 });
 
 export type SavedQuery = z.infer<typeof SavedQuerySchema>;
 
+export const SavedQueryRestoreSchema = z.object({
+  revision: z.number().int().min(1),
+});
+
+export type SavedQueryRestore = z.infer<typeof SavedQueryRestoreSchema>;
+
+export const SavedSearchSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(255),
+  description: z.string().max(2000).default(""),
+  database: z.string().min(1, "Database is required").max(255),
+  table: z.string().min(1, "Table is required").max(255),
+  time_column: z.string().max(255).default(""),
+  columns: z.array(z.string().min(1).max(255)).max(500).default([]),
+  filter: z.string().max(MAX_SQL_LENGTH).default(""),
+  query_language: z.enum(["sql", "kql"]).default("sql"),
+  time_from: z.string().max(64).default(""),
+  time_to: z.string().max(64).default(""),
+  sort: z.string().max(2000).default(""),
+  group_by: z.array(z.string().min(1).max(255)).max(20).default([]),
+  histogram_interval: z.enum(HISTOGRAM_INTERVALS).default("auto"),
+  visibility: z.enum(SAVED_QUERY_VISIBILITIES).default("private"),
+  shared_roles: z.array(z.string().min(1)).max(50).default([]),
+});
+
+export type SavedSearch = z.infer<typeof SavedSearchSchema>;
+
 export const PaginationSchema = z.object({
   limit: z.number().int().min(1).max(1000).default(100),
   offset: z.number().int().min(0).default(0),
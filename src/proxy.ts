@@ -15,6 +15,8 @@ const PUBLIC_ROUTES = new Set([
   "/api/auth/login",
   "/api/auth/session",
   "/api/auth/clusters",
+  "/api/auth/oidc/login",
+  "/api/auth/oidc/callback",
   "/api/clickhouse/ping",
 ]);
 
@@ -4,7 +4,10 @@ import type { DiscoverRow } from "@/lib/types/discover";
 
 export interface HistogramDataPoint {
   time: string;
+  /** Bucket value: a count, or the chosen aggregation */
   count: number;
+  /** Split-by value when the histogram is split; null for "Other" */
+  series?: string | null;
 }
 
 export interface LoadingState {
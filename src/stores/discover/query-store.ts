@@ -1,17 +1,29 @@
 import { create } from "zustand";
 import { devtools, persist } from "zustand/middleware";
 import type { SortingState } from "@tanstack/react-table";
-import type { FlexibleTimeRange } from "@/lib/types/discover";
+import type {
+  FlexibleTimeRange,
+  HistogramAggregation,
+  HistogramInterval,
+  QueryLanguage,
+} from "@/lib/types/discover";
 import { getFlexibleRangeFromEnum } from "@/lib/types/discover";
 
 export interface QueryState {
   customFilter: string;
   appliedFilter: string;
+  queryLanguage: QueryLanguage;
   flexibleRange: FlexibleTimeRange;
   sorting: SortingState;
   groupBy: string[];
   selectedColumns: string[];
   selectedTimeColumn: string;
+  histogramInterval: HistogramInterval;
+  /** Column whose top values are plotted as separate series; "" for none */
+  histogramSplitBy: string;
+  histogramAggregation: HistogramAggregation;
+  /** Numeric column read by aggregations other than count */
+  histogramAggregationField: string;
   isQueryDirty: boolean;
   lastExecutedParams: {
     filter: string;
@@ -27,11 +39,15 @@ export interface QueryActions {
   setQuery: (query: string) => void;
   setAppliedFilter: (filter: string) => void;
   setFilters: (filter: string) => void;
+  setQueryLanguage: (language: QueryLanguage) => void;
   setTimeRange: (range: FlexibleTimeRange) => void;
   setSort: (sorting: SortingState) => void;
   setGroupBy: (groupBy: string[]) => void;
   setSelectedColumns: (columns: string[]) => void;
   setSelectedTimeColumn: (column: string) => void;
+  setHistogramInterval: (interval: HistogramInterval) => void;
+  setHistogramSplitBy: (column: string) => void;
+  setHistogramAggregation: (aggregation: HistogramAggregation, field?: string) => void;
   markClean: () => void;
   markDirty: () => void;
   resetQuery: () => void;
@@ -44,11 +60,16 @@ const DEFAULT_TIME_RANGE = getFlexibleRangeFromEnum("1h");
 const initialState: QueryState = {
   customFilter: "",
   appliedFilter: "",
+  queryLanguage: "sql",
   flexibleRange: DEFAULT_TIME_RANGE,
   sorting: [],
   groupBy: [],
   selectedColumns: [],
   selectedTimeColumn: "",
+  histogramInterval: "auto",
+  histogramSplitBy: "",
+  histogramAggregation: "count",
+  histogramAggregationField: "",
   isQueryDirty: false,
   lastExecutedParams: null,
 };
@@ -85,6 +106,14 @@ export const useQueryStore = create<QueryStore>()(
           }
         },
 
+        setQueryLanguage: (language: QueryLanguage) => {
+          set({ queryLanguage: language }, false, "setQueryLanguage");
+          // The same text means something else in the other language
+          if (get().customFilter.trim()) {
+            set({ isQueryDirty: true }, false, "setQueryLanguage/dirty");
+          }
+        },
+
         setTimeRange: (range: FlexibleTimeRange) => {
           set({ flexibleRange: range }, false, "setTimeRange");
           const state = get();
@@ -142,6 +171,26 @@ export const useQueryStore = create<QueryStore>()(
           }
         },
 
+        // Only affects the histogram, so the query does not become dirty
+        setHistogramInterval: (interval: HistogramInterval) => {
+          set({ histogramInterval: interval }, false, "setHistogramInterval");
+        },
+
+        setHistogramSplitBy: (column: string) => {
+          set({ histogramSplitBy: column }, false, "setHistogramSplitBy");
+        },
+
+        setHistogramAggregation: (aggregation: HistogramAggregation, field = "") => {
+          set(
+            {
+              histogramAggregation: aggregation,
+              histogramAggregationField: aggregation === "count" ? "" : field,
+            },
+            false,
+            "setHistogramAggregation"
+          );
+        },
+
         markClean: () => {
           const state = get();
           set(
@@ -181,11 +230,16 @@ export const useQueryStore = create<QueryStore>()(
         partialize: (state) => ({
           customFilter: state.customFilter,
           appliedFilter: state.appliedFilter,
+          queryLanguage: state.queryLanguage,
           flexibleRange: state.flexibleRange,
           sorting: state.sorting,
           groupBy: state.groupBy,
           selectedColumns: state.selectedColumns,
           selectedTimeColumn: state.selectedTimeColumn,
+          histogramInterval: state.histogramInterval,
+          histogramSplitBy: state.histogramSplitBy,
+          histogramAggregation: state.histogramAggregation,
+          histogramAggregationField: state.histogramAggregationField,
         }),
       }
     ),
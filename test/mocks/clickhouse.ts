@@ -33,7 +33,10 @@ export function createMockClickHouseClient(
         },
       };
     },
-    command: async (_sql: string, _options?: { timeout?: number }): Promise<void> => {
+    command: async (
+      _sql: string,
+      _options?: { query_id?: string; session_id?: string },
+    ): Promise<void> => {
       if (shouldFail) {
         throw new Error(errorMessage);
       }
@@ -54,6 +57,11 @@ export function createMockClickHouseClient(
         },
       },
     }),
+    exportStream: async () => ({
+      stream: (async function* () {})(),
+      query_id: "",
+      destroy: () => {},
+    }),
     explain: async (_sql: string) => [],
   };
 }
@@ -3,8 +3,21 @@ export interface MockRedisOptions {
   shouldFail?: boolean;
 }
 
+export interface MockSetOptions {
+  condition?: "NX" | "XX";
+  expiration?: { type: string; value: number };
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern.replace(/\\(.)|(\*)|[.+?^${}()|[\]\\]/g, (match, escaped, star) =>
+    star ? ".*" : (escaped ?? match).replace(/[.*+?^${}()|[\]\\]/g, "\\$&"),
+  );
+  return new RegExp(`^${source}$`);
+}
+
 export class MockRedis {
   private store: Map<string, string> = new Map();
+  private sets: Map<string, Set<string>> = new Map();
   private options: MockRedisOptions;
 
   constructor(options: MockRedisOptions = {}) {
@@ -17,26 +30,79 @@ export class MockRedis {
     return this.store.get(key) ?? null;
   }
 
-  async set(key: string, value: string): Promise<"OK"> {
+  async set(
+    key: string,
+    value: string,
+    options: MockSetOptions = {},
+  ): Promise<"OK" | null> {
     if (this.options.shouldFail) throw new Error("Redis connection failed");
     if (this.options.delay) await this.delay(this.options.delay);
+    if (options.condition === "NX" && this.store.has(key)) return null;
+    if (options.condition === "XX" && !this.store.has(key)) return null;
     this.store.set(key, value);
     return "OK";
   }
 
   async setex(key: string, seconds: number, value: string): Promise<"OK"> {
-    return this.set(key, value);
+    await this.set(key, value);
+    return "OK";
   }
 
-  async del(...keys: string[]): Promise<number> {
+  async del(...keys: (string | string[])[]): Promise<number> {
     if (this.options.shouldFail) throw new Error("Redis connection failed");
     let count = 0;
-    for (const key of keys) {
-      if (this.store.delete(key)) count++;
+    for (const key of keys.flat()) {
+      const deleted = this.store.delete(key);
+      if (this.sets.delete(key) || deleted) count++;
     }
     return count;
   }
 
+  async sAdd(key: string, members: string | string[]): Promise<number> {
+    if (this.options.shouldFail) throw new Error("Redis connection failed");
+    const set = this.sets.get(key) ?? new Set<string>();
+    this.sets.set(key, set);
+    let added = 0;
+    for (const member of [members].flat()) {
+      if (!set.has(member)) {
+        set.add(member);
+        added++;
+      }
+    }
+    return added;
+  }
+
+  async sRem(key: string, members: string | string[]): Promise<number> {
+    if (this.options.shouldFail) throw new Error("Redis connection failed");
+    const set = this.sets.get(key);
+    if (!set) return 0;
+    let removed = 0;
+    for (const member of [members].flat()) {
+      if (set.delete(member)) removed++;
+    }
+    if (set.size === 0) this.sets.delete(key);
+    return removed;
+  }
+
+  async sMembers(key: string): Promise<string[]> {
+    if (this.options.shouldFail) throw new Error("Redis connection failed");
+    return [...(this.sets.get(key) ?? [])];
+  }
+
+  async pExpireAt(key: string): Promise<number> {
+    if (this.options.shouldFail) throw new Error("Redis connection failed");
+    return this.store.has(key) || this.sets.has(key) ? 1 : 0;
+  }
+
+  async *scanIterator(options: { MATCH?: string; COUNT?: number } = {}) {
+    if (this.options.shouldFail) throw new Error("Redis connection failed");
+    const pattern = globToRegExp(options.MATCH ?? "*");
+    const keys = [...this.store.keys(), ...this.sets.keys()].filter((key) =>
+      pattern.test(key),
+    );
+    if (keys.length > 0) yield keys;
+  }
+
   async exists(...keys: string[]): Promise<number> {
     if (this.options.shouldFail) throw new Error("Redis connection failed");
     let count = 0;
@@ -59,6 +125,7 @@ export class MockRedis {
   async flushdb(): Promise<"OK"> {
     if (this.options.shouldFail) throw new Error("Redis connection failed");
     this.store.clear();
+    this.sets.clear();
     return "OK";
   }
 